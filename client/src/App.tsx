@@ -89,6 +89,9 @@ const AdminApplications = lazy(() => import("./pages/AdminApplications"));
 const AdminTenants = lazy(() => import("./pages/AdminTenants"));
 const AdminTenantDetail = lazy(() => import("./pages/AdminTenantDetail"));
 const AdminPromos = lazy(() => import("./pages/AdminPromos"));
+const AdminPromoRules = lazy(() => import("./pages/AdminPromoRules"));
+const AdminPriceBook = lazy(() => import("./pages/AdminPriceBook"));
+const AdminKnowledgeBase = lazy(() => import("./pages/AdminKnowledgeBase"));
 const AdminFriendsFamilyCodes = lazy(() => import("./pages/AdminFriendsFamilyCodes"));
 const AdminPhoneConfig = lazy(() => import("./pages/AdminPhoneConfig"));
 const AdminIvrConfig = lazy(() => import("./pages/AdminIvrConfig"));
@@ -115,6 +118,9 @@ const AdminSystemUsagePage = lazy(() => import("./pages/admin/AdminSystemUsagePa
 const TenantDebugPage = lazy(() => import("./pages/admin/TenantDebugPage"));
 const PwaNotificationsPage = lazy(() => import("./pages/admin/PwaNotificationsPage"));
 const PortalSettingsPage = lazy(() => import("./pages/admin/PortalSettingsPage"));
+const AccountingExportPage = lazy(() => import("./pages/admin/AccountingExportPage"));
+const CustomerSegmentsPage = lazy(() => import("./pages/admin/CustomerSegmentsPage"));
+const JourneysPage = lazy(() => import("./pages/admin/JourneysPage"));
 const AdminBillingOverview = lazy(() => import("./pages/AdminBillingOverview"));
 const HomepageEditor = lazy(() => import("./pages/HomepageEditor"));
 const ThemeGallery = lazy(() => import("./pages/ThemeGallery"));
@@ -134,6 +140,7 @@ const TechnicianPage = lazy(() => import("./pages/technician"));
 const TechWizard = lazy(() => import("./pages/tech-wizard"));
 const TechProfile = lazy(() => import("./pages/tech-profile"));
 const TechProfilePublic = lazy(() => import("./pages/tech-profile-public"));
+const TrackJob = lazy(() => import("./pages/track-job"));
 const TechnicianSchedule = lazy(() => import("./pages/TechnicianSchedule"));
 const RequestPTO = lazy(() => import("./pages/RequestPTO"));
 const OpenShifts = lazy(() => import("./pages/OpenShifts"));
@@ -530,6 +537,21 @@ function Router() {
           <LazyDashboard><AdminPromos /></LazyDashboard>
         </AuthGuard>
       </Route>
+      <Route path="/admin/promo-rules">
+        <AuthGuard>
+          <LazyDashboard><AdminPromoRules /></LazyDashboard>
+        </AuthGuard>
+      </Route>
+      <Route path="/admin/price-book">
+        <AuthGuard>
+          <LazyDashboard><AdminPriceBook /></LazyDashboard>
+        </AuthGuard>
+      </Route>
+      <Route path="/admin/knowledge-base">
+        <AuthGuard>
+          <LazyDashboard><AdminKnowledgeBase /></LazyDashboard>
+        </AuthGuard>
+      </Route>
       <Route path="/admin/friends-family-codes">
         <AuthGuard>
           <LazyDashboard><AdminFriendsFamilyCodes /></LazyDashboard>
@@ -576,6 +598,21 @@ function Router() {
           <LazyDashboard><PortalSettingsPage /></LazyDashboard>
         </AuthGuard>
       </Route>
+      <Route path="/admin/accounting">
+        <AuthGuard>
+          <LazyDashboard><AccountingExportPage /></LazyDashboard>
+        </AuthGuard>
+      </Route>
+      <Route path="/admin/segments">
+        <AuthGuard>
+          <LazyDashboard><CustomerSegmentsPage /></LazyDashboard>
+        </AuthGuard>
+      </Route>
+      <Route path="/admin/journeys">
+        <AuthGuard>
+          <LazyDashboard><JourneysPage /></LazyDashboard>
+        </AuthGuard>
+      </Route>
       {/* Phase 5.2: Industry Pack Editor + Clone-a-Tenant Factory */}
       <Route path="/admin/industry-packs">
         <AuthGuard>
@@ -768,6 +805,10 @@ function Router() {
         <LazyPage><TechProfilePublic /></LazyPage>
       </Route>
 
+      <Route path="/track/:token">
+        <LazyPage><TrackJob /></LazyPage>
+      </Route>
+
       <Route path="/chat">
         <LazyPage><ChatPage /></LazyPage>
       </Route>
@@ -19,12 +19,17 @@ import { z } from 'zod';
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow, format as formatDate } from 'date-fns';
+import { SegmentSelect } from '@/components/segments/SegmentSelect';
+import { ExperimentResults } from '@/components/campaigns/ExperimentResults';
+import { DEFAULT_EXPERIMENT_SETTINGS, ExperimentSettingsFields } from '@/components/campaigns/ExperimentSettingsFields';
+import { MAX_CAMPAIGN_VARIANTS, VARIANT_LABELS, type ExperimentSettings } from '@shared/campaignExperiments';
 
 const emailCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
   subject: z.string().min(1, 'Subject is required'),
   content: z.string().min(1, 'Content is required'),
   targetAudience: z.enum(['all', 'vip', 'loyalty']),
+  segmentId: z.number().nullable().optional(),
   scheduledDate: z.string().optional()
 });
 
@@ -32,12 +37,18 @@ const smsCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
   message: z.string().min(1, 'Message is required').max(300, 'Message too long (300 chars max)'),
   targetAudience: z.enum(['all', 'vip', 'loyalty']),
+  segmentId: z.number().nullable().optional(),
   scheduledDate: z.string().optional()
 });
 
 type EmailCampaignData = z.infer<typeof emailCampaignSchema>;
 type SMSCampaignData = z.infer<typeof smsCampaignSchema>;
 
+// Extra A/B variants (B-D) sent alongside the form; the form's own content is variant A
+type EmailVariant = { subject: string; content: string };
+type EmailCampaignRequest = EmailCampaignData & { abTest?: ExperimentSettings & { variants: EmailVariant[] } };
+type SMSCampaignRequest = SMSCampaignData & { abTest?: ExperimentSettings & { variants: string[] } };
+
 export function CommunicationsSettings() {
   const [activeTab, setActiveTab] = useState('email');
   const { toast } = useToast();
@@ -254,6 +265,7 @@ function WelcomeBackCampaign() {
   const [previewMode, setPreviewMode] = useState<'vip' | 'regular' | null>(null);
   const [sending, setSending] = useState(false);
   const [includeNonLoyalty, setIncludeNonLoyalty] = useState(false);
+  const [segmentId, setSegmentId] = useState<number | null>(null);
 
   // Fetch campaign config
   const { data: configData, isLoading: configLoading } = useQuery({
@@ -280,7 +292,7 @@ function WelcomeBackCampaign() {
   // Send campaign mutation
   const sendCampaignMutation = useMutation({
     mutationFn: async ({ audience, previewOnly, includeNonLoyalty }: { audience: 'vip' | 'regular'; previewOnly: boolean; includeNonLoyalty: boolean }) => {
-      const response = await apiRequest('POST', '/api/admin/campaigns/welcome-back/send', { audience, previewOnly, includeNonLoyalty });
+      const response = await apiRequest('POST', '/api/admin/campaigns/welcome-back/send', { audience, previewOnly, includeNonLoyalty, segmentId });
       return response.json();
     },
     onSuccess: (data, variables) => {
@@ -312,7 +324,8 @@ function WelcomeBackCampaign() {
   };
 
   const handleSend = (audience: 'vip' | 'regular') => {
-    const audienceDesc = includeNonLoyalty ? 'ALL customers' : 'loyalty opt-in customers only';
+    const loyaltyDesc = includeNonLoyalty ? 'ALL customers' : 'loyalty opt-in customers only';
+    const audienceDesc = segmentId ? `the selected segment (${loyaltyDesc})` : loyaltyDesc;
     if (!confirm(`Are you sure you want to send the ${audience.toUpperCase()} campaign to ${audienceDesc}? This will award points and send messages.`)) {
       return;
     }
@@ -364,6 +377,18 @@ function WelcomeBackCampaign() {
               </p>
             </div>
           </div>
+          <div className="mt-4 space-y-1">
+            <Label className="text-sm font-medium">Customer segment</Label>
+            <SegmentSelect
+              value={segmentId}
+              onChange={setSegmentId}
+              noneLabel="VIP / Regular split"
+              testId="select-welcome-back-segment"
+            />
+            <p className="text-xs text-muted-foreground">
+              With a segment, both buttons send to the segment and only choose which template and bonus to use.
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -467,13 +492,16 @@ function WelcomeBackCampaign() {
 function EmailCampaigns() {
   const { toast } = useToast();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [abEnabled, setAbEnabled] = useState(false);
+  const [abSettings, setAbSettings] = useState<ExperimentSettings>(DEFAULT_EXPERIMENT_SETTINGS);
+  const [abVariants, setAbVariants] = useState<EmailVariant[]>([{ subject: '', content: '' }]);
 
   const { data: campaigns, isLoading } = useQuery({
     queryKey: ['/api/campaigns/email']
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: EmailCampaignData) => {
+    mutationFn: async (data: EmailCampaignRequest) => {
       return apiRequest('POST', '/api/campaigns/email', data);
     },
     onSuccess: () => {
@@ -507,7 +535,19 @@ function EmailCampaigns() {
   });
 
   const onSubmit = (data: EmailCampaignData) => {
-    createMutation.mutate(data);
+    if (!abEnabled) {
+      createMutation.mutate(data);
+      return;
+    }
+    if (abVariants.some(variant => !variant.subject.trim() || !variant.content.trim())) {
+      toast({ title: 'Fill in every A/B variant', description: 'Each variant needs a subject and content.', variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate({ ...data, abTest: { ...abSettings, variants: abVariants } });
+  };
+
+  const updateVariant = (index: number, changes: Partial<EmailVariant>) => {
+    setAbVariants(abVariants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
   };
 
   if (isLoading) {
@@ -574,7 +614,7 @@ function EmailCampaigns() {
                         <Textarea {...field} rows={6} placeholder="Hi {name}, ..." data-testid="textarea-email-content" />
                       </FormControl>
                       <FormDescription>
-                        Use {'{name}'} to personalize with customer name
+                        Use {'{name}'} to personalize with customer name and {'{{link}}'} for a booking link that credits bookings to this campaign
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -602,6 +642,26 @@ function EmailCampaigns() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="segmentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer Segment (Optional)</FormLabel>
+                      <SegmentSelect
+                        value={field.value}
+                        onChange={field.onChange}
+                        channel="email"
+                        noneLabel="No segment - use target audience"
+                        testId="select-email-segment"
+                      />
+                      <FormDescription>
+                        A saved segment replaces the target audience above
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="scheduledDate"
@@ -622,6 +682,62 @@ function EmailCampaigns() {
                     </FormItem>
                   )}
                 />
+                <div className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="email-ab-test"
+                      checked={abEnabled}
+                      onCheckedChange={(checked) => setAbEnabled(checked === true)}
+                      data-testid="checkbox-email-ab-test"
+                    />
+                    <Label htmlFor="email-ab-test">A/B test this campaign</Label>
+                  </div>
+                  {abEnabled && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        The subject and content above are variant A. A sample of the list is split evenly across the variants and the winner goes to everyone else.
+                      </p>
+                      {abVariants.map((variant, index) => (
+                        <div key={index} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label>Variant {VARIANT_LABELS[index + 1]}</Label>
+                            {abVariants.length > 1 && (
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setAbVariants(abVariants.filter((_, i) => i !== index))}>
+                                Remove
+                              </Button>
+                            )}
+                          </div>
+                          <Input
+                            value={variant.subject}
+                            onChange={(e) => updateVariant(index, { subject: e.target.value })}
+                            placeholder="Email subject"
+                            data-testid={`input-email-variant-subject-${index}`}
+                          />
+                          <Textarea
+                            value={variant.content}
+                            onChange={(e) => updateVariant(index, { content: e.target.value })}
+                            rows={4}
+                            placeholder="Hi {name}, ..."
+                            data-testid={`textarea-email-variant-content-${index}`}
+                          />
+                        </div>
+                      ))}
+                      {abVariants.length < MAX_CAMPAIGN_VARIANTS - 1 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAbVariants([...abVariants, { subject: '', content: '' }])}
+                          data-testid="button-add-email-variant"
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Variant
+                        </Button>
+                      )}
+                      <ExperimentSettingsFields value={abSettings} onChange={setAbSettings} idPrefix="input-email-ab" />
+                    </>
+                  )}
+                </div>
                 <div className="flex justify-end gap-2">
                   <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
                     Cancel
@@ -727,6 +843,9 @@ function EmailCampaigns() {
                     </Button>
                   </div>
                 )}
+                <div className="pt-4">
+                  <ExperimentResults channel="email" campaignId={campaign.id} />
+                </div>
               </CardContent>
             </Card>
           ))}
@@ -739,6 +858,9 @@ function EmailCampaigns() {
 function SMSCampaigns() {
   const { toast } = useToast();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [abEnabled, setAbEnabled] = useState(false);
+  const [abSettings, setAbSettings] = useState<ExperimentSettings>(DEFAULT_EXPERIMENT_SETTINGS);
+  const [abVariants, setAbVariants] = useState<string[]>(['']);
   const [testPhoneMap, setTestPhoneMap] = useState<Record<number, string>>({});
 
   const { data: campaigns, isLoading } = useQuery({
@@ -746,7 +868,7 @@ function SMSCampaigns() {
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: SMSCampaignData) => {
+    mutationFn: async (data: SMSCampaignRequest) => {
       return apiRequest('POST', '/api/campaigns/sms', data);
     },
     onSuccess: () => {
@@ -799,7 +921,15 @@ function SMSCampaigns() {
   });
 
   const onSubmit = (data: SMSCampaignData) => {
-    createMutation.mutate(data);
+    if (!abEnabled) {
+      createMutation.mutate(data);
+      return;
+    }
+    if (abVariants.some(variant => !variant.trim() || variant.length > 300)) {
+      toast({ title: 'Fill in every A/B variant', description: 'Each variant needs a message of up to 300 characters.', variant: 'destructive' });
+      return;
+    }
+    createMutation.mutate({ ...data, abTest: { ...abSettings, variants: abVariants } });
   };
 
   const charCount = form.watch('message')?.length || 0;
@@ -855,7 +985,7 @@ function SMSCampaigns() {
                         <Textarea {...field} rows={4} placeholder="Hi {name}, ..." data-testid="textarea-sms-message" />
                       </FormControl>
                       <FormDescription>
-                        {charCount}/300 characters • Use {'{name}'} to personalize
+                        {charCount}/300 characters • Use {'{name}'} to personalize and {'{{link}}'} for a tracked booking link
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -883,6 +1013,77 @@ function SMSCampaigns() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="segmentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer Segment (Optional)</FormLabel>
+                      <SegmentSelect
+                        value={field.value}
+                        onChange={field.onChange}
+                        channel="sms"
+                        noneLabel="No segment - use target audience"
+                        testId="select-sms-segment"
+                      />
+                      <FormDescription>
+                        A saved segment replaces the target audience above
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="sms-ab-test"
+                      checked={abEnabled}
+                      onCheckedChange={(checked) => setAbEnabled(checked === true)}
+                      data-testid="checkbox-sms-ab-test"
+                    />
+                    <Label htmlFor="sms-ab-test">A/B test this campaign</Label>
+                  </div>
+                  {abEnabled && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        The message above is variant A. A sample of the list is split evenly across the variants and the winner goes to everyone else.
+                      </p>
+                      {abVariants.map((variant, index) => (
+                        <div key={index} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label>Variant {VARIANT_LABELS[index + 1]}</Label>
+                            {abVariants.length > 1 && (
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setAbVariants(abVariants.filter((_, i) => i !== index))}>
+                                Remove
+                              </Button>
+                            )}
+                          </div>
+                          <Textarea
+                            value={variant}
+                            onChange={(e) => setAbVariants(abVariants.map((v, i) => (i === index ? e.target.value : v)))}
+                            rows={3}
+                            placeholder="Hi {name}, ..."
+                            data-testid={`textarea-sms-variant-${index}`}
+                          />
+                          <p className="text-xs text-muted-foreground">{variant.length}/300 characters</p>
+                        </div>
+                      ))}
+                      {abVariants.length < MAX_CAMPAIGN_VARIANTS - 1 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAbVariants([...abVariants, ''])}
+                          data-testid="button-add-sms-variant"
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          Add Variant
+                        </Button>
+                      )}
+                      <ExperimentSettingsFields value={abSettings} onChange={setAbSettings} idPrefix="input-sms-ab" />
+                    </>
+                  )}
+                </div>
                 <div className="flex justify-end gap-2">
                   <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
                     Cancel
@@ -41,6 +41,7 @@ import {
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { useDebounce } from "@/hooks/use-debounce";
+import { getBookingAttribution } from "@/lib/attribution";
 
 // Premium Design Tokens
 const GLASS_CARD = "bg-gray-900/40 backdrop-blur-xl border border-blue-500/20 shadow-2xl shadow-blue-500/10";
@@ -1046,6 +1047,7 @@ export default function MultiVehicleAppointmentScheduler({
           time: selectedTime || (selectedDate ? format(selectedDate, "yyyy-MM-dd'T'09:00:00") : ''),
           smsConsent,
           referralCode: referralStatus?.isValid ? referralCode : undefined,
+          attribution: getBookingAttribution(),
           needsTimeConfirmation: !selectedTime && selectedDate ? true : false,
           preferredTimeWindow: preferredTimeWindow || undefined,
         }),
@@ -60,6 +60,7 @@ import type { Conversation, Message, QuickReplyCategory, QuickReplyTemplate } fr
 import BookingPanel from './BookingPanel';
 import MessageBubble from './messages/MessageBubble';
 import SmartComposeRail from './messages/SmartComposeRail';
+import { ScheduleSendButton, ScheduledMessagesList } from './messages/ScheduledMessages';
 import { useToast } from '@/hooks/use-toast';
 import { useReadReceipts } from '@/hooks/useReadReceipts';
 import { ConversationMetaBar } from './conversations/ConversationMetaBar';
@@ -1535,6 +1536,8 @@ export default function ThreadView({
                 </div>
               )}
               
+              <ScheduledMessagesList conversationId={conversationId} />
+
               {/* File Attachment Preview - compact */}
               {selectedFiles.length > 0 && (
                 <div className="mb-2 flex items-center gap-2 px-2 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-xs">
@@ -1668,6 +1671,17 @@ export default function ThreadView({
                   </PopoverContent>
                 </Popover>
 
+                <ScheduleSendButton
+                  conversationId={conversationId}
+                  content={messageInput}
+                  channel={conversation?.platform || 'web'}
+                  phoneLineId={conversation?.platform === 'sms'
+                    ? (conversation.phoneLineId || activeSendLineId || undefined)
+                    : undefined}
+                  disabled={sendMessageMutation.isPending || selectedFiles.length > 0}
+                  onScheduled={() => setMessageInput('')}
+                />
+
                 <Button
                   onClick={handleSendMessage}
                   disabled={!messageInput.trim() || sendMessageMutation.isPending}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Target } from 'lucide-react';
+import {
+  ATTRIBUTION_CHANNEL_LABELS,
+  type AttributionDimension,
+  type AttributionModel,
+  type AttributionRow,
+} from '@shared/attribution';
+
+interface AttributionResponse {
+  success: boolean;
+  model: AttributionModel;
+  dimension: AttributionDimension;
+  days: number;
+  totals: { bookings: number; paidBookings: number; revenue: number; attributedRevenue: number };
+  rows: AttributionRow[];
+}
+
+const DIMENSION_LABELS: Record<AttributionDimension, string> = {
+  campaign: 'Campaign',
+  channel: 'Channel',
+  referrer: 'Referrer',
+};
+
+function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Bookings and paid revenue credited to campaigns, channels and referrers,
+ * under last-touch or first-touch attribution
+ */
+export function BookingAttributionReport() {
+  const [model, setModel] = useState<AttributionModel>('last_touch');
+  const [dimension, setDimension] = useState<AttributionDimension>('campaign');
+  const [days, setDays] = useState('90');
+
+  const { data, isLoading } = useQuery<AttributionResponse>({
+    queryKey: [`/api/analytics/attribution?model=${model}&dimension=${dimension}&days=${days}`],
+  });
+
+  const totals = data?.totals;
+  const rows = data?.rows ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <CardTitle>Booking Attribution</CardTitle>
+            <CardDescription>
+              Which campaigns, channels and referrers produced bookings and paid revenue
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={model} onValueChange={(v) => setModel(v as AttributionModel)}>
+              <SelectTrigger className="w-36" data-testid="select-attribution-model">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="last_touch">Last touch</SelectItem>
+                <SelectItem value="first_touch">First touch</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={dimension} onValueChange={(v) => setDimension(v as AttributionDimension)}>
+              <SelectTrigger className="w-36" data-testid="select-attribution-dimension">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIMENSION_LABELS) as AttributionDimension[]).map(key => (
+                  <SelectItem key={key} value={key}>By {DIMENSION_LABELS[key].toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-36" data-testid="select-attribution-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="365">Last 12 months</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : rows.length === 0 ? (
+          <div className="h-48 flex items-center justify-center text-gray-500 dark:text-gray-400">
+            <div className="text-center">
+              <Target className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No bookings in this period</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            {totals && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Bookings</div>
+                  <div className="text-xl font-semibold" data-testid="text-attribution-bookings">{totals.bookings}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Paid</div>
+                  <div className="text-xl font-semibold">{totals.paidBookings}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Paid revenue</div>
+                  <div className="text-xl font-semibold">{formatCurrency(totals.revenue)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Attributed revenue</div>
+                  <div className="text-xl font-semibold" data-testid="text-attributed-revenue">{formatCurrency(totals.attributedRevenue)}</div>
+                </div>
+              </div>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">{DIMENSION_LABELS[dimension]}</th>
+                    <th className="py-2 pr-4 font-medium">Channel</th>
+                    <th className="py-2 pr-4 font-medium text-right">Bookings</th>
+                    <th className="py-2 pr-4 font-medium text-right">Paid</th>
+                    <th className="py-2 font-medium text-right">Revenue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b last:border-0" data-testid={`row-attribution-${row.key}`}>
+                      <td className="py-2 pr-4 font-medium">{row.label}</td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={row.channel === 'direct' ? 'outline' : 'secondary'}>
+                          {ATTRIBUTION_CHANNEL_LABELS[row.channel]}
+                        </Badge>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{row.bookings}</td>
+                      <td className="py-2 pr-4 text-right">{row.paidBookings}</td>
+                      <td className="py-2 text-right">{formatCurrency(row.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {model === 'last_touch'
+                ? 'Each booking is credited to the last link, referral or conversation before it was made.'
+                : 'Each booking is credited to the earliest touch in the 30 days before it was made.'}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
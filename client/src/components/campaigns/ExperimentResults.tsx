@@ -0,0 +1,185 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { format, parseISO } from 'date-fns';
+import { FlaskConical, Trophy } from 'lucide-react';
+import {
+  EXPERIMENT_METRIC_LABELS,
+  SIGNIFICANCE_LEVEL,
+  lowerIsBetter,
+  type ExperimentEvaluation,
+  type ExperimentMetric,
+  type VariantCounts,
+} from '@shared/campaignExperiments';
+
+interface ExperimentReport {
+  experiment: {
+    id: number;
+    status: 'draft' | 'testing' | 'complete' | 'cancelled';
+    samplePercent: number;
+    winnerMetric: ExperimentMetric;
+    attributionDays: number;
+    decideAt: string | null;
+    decidedAt: string | null;
+    winnerVariantId: number | null;
+    winnerSignificant: boolean | null;
+  };
+  variants: Array<VariantCounts & { id: number; message: string | null; subject: string | null }>;
+  evaluation: ExperimentEvaluation;
+  heldCount: number;
+}
+
+// Pulls the server's { error } out of apiRequest's "409: {...}" message
+function describeError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatPValue(pValue: number | null): string {
+  if (pValue === null) return '—';
+  return pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
+}
+
+/**
+ * A/B test results for an SMS or email campaign: counts per variant, the
+ * rate on the winning metric and each variant's p-value against the
+ * leader. Renders nothing for campaigns without a test.
+ */
+export function ExperimentResults({ channel, campaignId }: { channel: 'sms' | 'email'; campaignId: number }) {
+  const { toast } = useToast();
+  const url = `/api/campaigns/${channel}/${campaignId}/experiment`;
+  const { data } = useQuery<{ success: boolean; report: ExperimentReport | null }>({ queryKey: [url] });
+
+  const decideMutation = useMutation({
+    mutationFn: async () => (await apiRequest('POST', `${url}/decide`)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [url] });
+      toast({ title: 'Winner Picked', description: 'The winning variant is going out to the rest of the list.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Could Not Pick Winner', description: describeError(error, 'Failed to pick a winner.'), variant: 'destructive' });
+    },
+  });
+
+  const report = data?.report;
+  if (!report) return null;
+
+  const { experiment, variants, evaluation, heldCount } = report;
+  const metric = experiment.winnerMetric;
+  const winnerId = experiment.winnerVariantId;
+  const leaderId = evaluation.leaderId;
+
+  const rateOf = (variantId: number) => evaluation.variants.find(v => v.variantId === variantId);
+
+  let summary: string;
+  if (experiment.status === 'draft') {
+    summary = `Testing ${variants.length} variants on ${experiment.samplePercent}% of the list once the campaign starts sending.`;
+  } else if (experiment.status === 'testing') {
+    summary = experiment.decideAt
+      ? `Testing on ${experiment.samplePercent}% of the list. A winner is picked ${format(parseISO(experiment.decideAt), 'MMM d, h:mm a')}.`
+      : `Testing on ${experiment.samplePercent}% of the list.`;
+  } else if (experiment.status === 'cancelled') {
+    summary = 'The campaign was cancelled before a winner went out.';
+  } else {
+    const winner = variants.find(v => v.variantId === winnerId);
+    summary = `Variant ${winner?.label ?? '?'} won${experiment.decidedAt ? ` on ${format(parseISO(experiment.decidedAt), 'MMM d, h:mm a')}` : ''}`
+      + (experiment.winnerSignificant ? '.' : ' without a significant lead, so it may be down to chance.');
+  }
+
+  return (
+    <Card data-testid={`experiment-results-${channel}-${campaignId}`}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              A/B Test
+            </CardTitle>
+            <CardDescription>{summary}</CardDescription>
+          </div>
+          {experiment.status === 'testing' && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => decideMutation.mutate()}
+              disabled={decideMutation.isPending}
+              data-testid="button-pick-winner"
+            >
+              Pick winner now
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium">Variant</th>
+                <th className="py-2 pr-4 font-medium text-right">Sent</th>
+                <th className="py-2 pr-4 font-medium text-right">Replies</th>
+                <th className="py-2 pr-4 font-medium text-right">Clicks</th>
+                <th className="py-2 pr-4 font-medium text-right">Bookings</th>
+                <th className="py-2 pr-4 font-medium text-right">Opt-outs</th>
+                <th className="py-2 pr-4 font-medium text-right">{EXPERIMENT_METRIC_LABELS[metric]} rate</th>
+                <th className="py-2 font-medium text-right">p-value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map(variant => {
+                const evaluated = rateOf(variant.variantId);
+                return (
+                  <tr key={variant.variantId} className="border-b last:border-0 align-top" data-testid={`row-variant-${variant.label}`}>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{variant.label}</span>
+                        {winnerId === variant.variantId && (
+                          <Badge className="gap-1"><Trophy className="h-3 w-3" />Winner</Badge>
+                        )}
+                        {winnerId === null && leaderId === variant.variantId && variant.recipients > 0 && (
+                          <Badge variant="secondary">Leading</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground line-clamp-2 max-w-xs">
+                        {variant.subject ?? variant.message}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-4 text-right">{variant.recipients}</td>
+                    <td className="py-2 pr-4 text-right">{variant.replies}</td>
+                    <td className="py-2 pr-4 text-right">{variant.clicks}</td>
+                    <td className="py-2 pr-4 text-right">{variant.bookings}</td>
+                    <td className="py-2 pr-4 text-right">{variant.optOuts}</td>
+                    <td className="py-2 pr-4 text-right">{evaluated ? formatRate(evaluated.rate) : '—'}</td>
+                    <td className="py-2 text-right">{formatPValue(evaluated?.pValue ?? null)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+          <span>
+            {evaluation.significant
+              ? `The leader is significantly ${lowerIsBetter(metric) ? 'lower' : 'higher'} than every other variant (p < ${SIGNIFICANCE_LEVEL}).`
+              : `No significant difference yet at p < ${SIGNIFICANCE_LEVEL}.`}
+          </span>
+          <span>Replies, bookings and opt-outs count for {experiment.attributionDays} days after each send.</span>
+          {heldCount > 0 && <span data-testid="text-held-count">{heldCount} recipients waiting for the winner.</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
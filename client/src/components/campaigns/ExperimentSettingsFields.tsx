@@ -0,0 +1,96 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  EXPERIMENT_METRICS,
+  EXPERIMENT_METRIC_LABELS,
+  type ExperimentMetric,
+  type ExperimentSettings,
+} from '@shared/campaignExperiments';
+
+export const DEFAULT_EXPERIMENT_SETTINGS: ExperimentSettings = {
+  samplePercent: 20,
+  winnerMetric: 'replies',
+  decideAfterHours: 24,
+  attributionDays: 7,
+};
+
+function NumberSetting({ id, label, value, min, max, onChange }: {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || min)))}
+        data-testid={id}
+      />
+    </div>
+  );
+}
+
+/**
+ * Sample size, winning metric and timing for a campaign A/B test. The
+ * variant content itself is channel specific and rendered by the caller.
+ */
+export function ExperimentSettingsFields({ value, onChange, idPrefix }: {
+  value: ExperimentSettings;
+  onChange: (value: ExperimentSettings) => void;
+  idPrefix: string;
+}) {
+  const set = <K extends keyof ExperimentSettings>(key: K, next: ExperimentSettings[K]) => onChange({ ...value, [key]: next });
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <NumberSetting
+        id={`${idPrefix}-sample-percent`}
+        label="Test sample %"
+        value={value.samplePercent}
+        min={10}
+        max={100}
+        onChange={(v) => set('samplePercent', v)}
+      />
+      <div className="space-y-1">
+        <Label className="text-xs">Winner by</Label>
+        <Select value={value.winnerMetric} onValueChange={(v) => set('winnerMetric', v as ExperimentMetric)}>
+          <SelectTrigger data-testid={`${idPrefix}-winner-metric`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPERIMENT_METRICS.map(metric => (
+              <SelectItem key={metric} value={metric}>
+                {metric === 'opt_outs' ? 'Fewest opt-outs' : `Most ${EXPERIMENT_METRIC_LABELS[metric].toLowerCase()}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <NumberSetting
+        id={`${idPrefix}-decide-hours`}
+        label="Pick winner after (hours)"
+        value={value.decideAfterHours}
+        min={1}
+        max={168}
+        onChange={(v) => set('decideAfterHours', v)}
+      />
+      <NumberSetting
+        id={`${idPrefix}-attribution-days`}
+        label="Count results for (days)"
+        value={value.attributionDays}
+        min={1}
+        max={30}
+        onChange={(v) => set('attributionDays', v)}
+      />
+    </div>
+  );
+}
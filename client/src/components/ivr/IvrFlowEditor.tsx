@@ -0,0 +1,635 @@
+/**
+ * IVR Flow Editor panels
+ *
+ * Pieces of the Phone Menu Settings page that work across menus:
+ * - Call flow map (menus as nodes, digit/closed/holiday links as edges)
+ * - Business hours routing for the selected menu
+ * - Department voicemail boxes and the staff they notify
+ * - Test call simulator that walks the TwiML a caller would get
+ */
+
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronRight, Clock, Code, GitBranch, Loader2, Pencil, PhoneCall, Plus, Trash2, Voicemail, X } from 'lucide-react';
+import type { IvrFlowEdge, IvrHoursRouting } from '@shared/ivrFlow';
+
+export const IVR_FLOW_QUERY_KEY = '/api/admin/ivr/flow';
+
+export interface IvrFlowMenuNode {
+  id: number;
+  key: string;
+  name: string;
+  hoursRouting: IvrHoursRouting | null;
+  items: Array<{ digit: string; label: string; actionType: string; actionPayload: Record<string, any> }>;
+}
+
+export interface IvrVoicemailBox {
+  id: number;
+  name: string;
+  greetingText: string | null;
+  notifyUserIds: number[];
+  transcribe: boolean;
+}
+
+export interface IvrStaffMember {
+  id: number;
+  username: string;
+  fullName: string | null;
+  email: string | null;
+}
+
+export interface IvrFlowData {
+  success: boolean;
+  menus: IvrFlowMenuNode[];
+  edges: IvrFlowEdge[];
+  voicemailBoxes: IvrVoicemailBox[];
+  staff: IvrStaffMember[];
+}
+
+/**
+ * Pull the readable message out of an apiRequest error ("400: {json}")
+ */
+export function describeIvrError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    const body = JSON.parse(match[1]);
+    const details = Array.isArray(body.details) ? body.details.map((d: any) => d.message).filter(Boolean) : [];
+    return details.length > 0 ? details.join('. ') : body.error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+const EDGE_LABELS: Record<IvrFlowEdge['via'], string> = {
+  submenu: 'Press',
+  closed: 'When closed',
+  holiday: 'On holidays',
+};
+
+interface IvrFlowMapProps {
+  menus: IvrFlowMenuNode[];
+  edges: IvrFlowEdge[];
+  selectedMenuId: number | null;
+  onSelect: (menuId: number) => void;
+}
+
+/**
+ * The flow as a tree from the main menu. A menu reached from more than one
+ * place is drawn once and referenced after that.
+ */
+export function IvrFlowMap({ menus, edges, selectedMenuId, onSelect }: IvrFlowMapProps) {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [greetingText, setGreetingText] = useState('');
+
+  const byId = new Map(menus.map(menu => [menu.id, menu]));
+  const main = menus.find(menu => menu.key === 'main');
+  const drawn = new Set<number>();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/ivr/menus', { name, greetingText });
+      return res.json();
+    },
+    onSuccess: (data: { menu: IvrFlowMenuNode }) => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
+      setCreateOpen(false);
+      setName('');
+      setGreetingText('');
+      onSelect(data.menu.id);
+      toast({ title: 'Menu Created', description: 'Link it from another menu with a Go to Submenu option.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Create Failed', description: describeIvrError(error, 'Failed to create menu.'), variant: 'destructive' });
+    },
+  });
+
+  const renderNode = (menuId: number, depth: number) => {
+    const menu = byId.get(menuId);
+    if (!menu) {
+      return <span className="text-sm text-destructive">Missing menu {menuId}</span>;
+    }
+
+    const alreadyDrawn = drawn.has(menuId);
+    drawn.add(menuId);
+    const children = alreadyDrawn ? [] : edges.filter(edge => edge.from === menuId);
+
+    return (
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={() => onSelect(menu.id)}
+          className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+            selectedMenuId === menu.id ? 'border-primary bg-primary/10' : 'bg-card hover:bg-accent/50'
+          }`}
+          data-testid={`flow-node-${menu.id}`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium truncate">{menu.name}</span>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {alreadyDrawn ? 'see above' : `${menu.items.length} options`}
+            </span>
+          </div>
+        </button>
+        {children.length > 0 && depth < 10 && (
+          <div className="ml-3 pl-3 border-l space-y-2">
+            {children.map(edge => (
+              <div key={`${edge.via}-${edge.digit ?? ''}-${edge.to}`} className="space-y-1">
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  {edge.via === 'submenu' ? <GitBranch className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                  {EDGE_LABELS[edge.via]}
+                  {edge.digit && <Badge variant="outline" className="font-mono px-1 py-0">{edge.digit}</Badge>}
+                  <ChevronRight className="h-3 w-3" />
+                </div>
+                {renderNode(edge.to, depth + 1)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const tree = main ? renderNode(main.id, 0) : null;
+  const unlinked = menus.filter(menu => !drawn.has(menu.id));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Call Flow
+            </CardTitle>
+            <CardDescription>Tap a menu to edit it</CardDescription>
+          </div>
+          <Button type="button" size="sm" variant="outline" onClick={() => setCreateOpen(true)} data-testid="button-add-menu">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Menu
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4" data-testid="flow-map">
+        {tree}
+        {unlinked.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Not linked yet</p>
+            {unlinked.map(menu => (
+              <div key={menu.id}>{renderNode(menu.id, 0)}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Menu</DialogTitle>
+            <DialogDescription>A submenu, or a menu callers hear when you're closed</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="new-menu-name">Name</Label>
+              <Input id="new-menu-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., After Hours" data-testid="input-menu-name" />
+            </div>
+            <div>
+              <Label htmlFor="new-menu-greeting">Greeting</Label>
+              <Textarea
+                id="new-menu-greeting"
+                value={greetingText}
+                onChange={(e) => setGreetingText(e.target.value)}
+                placeholder="We're closed right now. Press 1 to leave a message..."
+                data-testid="input-menu-greeting"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name || greetingText.trim().length < 10 || createMutation.isPending}
+              data-testid="button-create-menu"
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Menu
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface HoursRoutingCardProps {
+  menuId: number;
+  menus: IvrFlowMenuNode[];
+  value: IvrHoursRouting;
+  onChange: (value: IvrHoursRouting) => void;
+}
+
+/**
+ * Where callers go instead of this menu outside business hours (from the
+ * line's phone schedule) and on holidays
+ */
+export function HoursRoutingCard({ menuId, menus, value, onChange }: HoursRoutingCardProps) {
+  const [holiday, setHoliday] = useState('');
+  const others = menus.filter(menu => menu.id !== menuId);
+  const holidays = value.holidays || [];
+
+  const menuSelect = (field: 'closedMenuId' | 'holidayMenuId', placeholder: string, testId: string) => (
+    <Select
+      value={value[field] ? String(value[field]) : 'none'}
+      onValueChange={(v) => onChange({ ...value, [field]: v === 'none' ? null : parseInt(v) })}
+    >
+      <SelectTrigger data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{placeholder}</SelectItem>
+        {others.map(menu => (
+          <SelectItem key={menu.id} value={String(menu.id)}>{menu.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const addHoliday = () => {
+    if (!holiday || holidays.includes(holiday)) return;
+    onChange({ ...value, holidays: [...holidays, holiday].sort() });
+    setHoliday('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Business Hours
+        </CardTitle>
+        <CardDescription>
+          Send callers to another menu when you're closed. Hours come from the line's phone schedule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>When closed</Label>
+            {menuSelect('closedMenuId', 'Play this menu', 'select-closed-menu')}
+          </div>
+          <div>
+            <Label>On holidays</Label>
+            {menuSelect('holidayMenuId', 'Same as closed', 'select-holiday-menu')}
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="holiday-date">Holidays</Label>
+          <div className="flex gap-2 mt-1">
+            <Input id="holiday-date" type="date" value={holiday} onChange={(e) => setHoliday(e.target.value)} data-testid="input-holiday" />
+            <Button type="button" variant="outline" onClick={addHoliday} disabled={!holiday} data-testid="button-add-holiday">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          {holidays.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {holidays.map(date => (
+                <Badge key={date} variant="secondary" className="gap-1">
+                  {date}
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...value, holidays: holidays.filter(d => d !== date) })}
+                    aria-label={`Remove ${date}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface VoicemailBoxesCardProps {
+  voicemailBoxes: IvrVoicemailBox[];
+  staff: IvrStaffMember[];
+}
+
+/**
+ * Department voicemail boxes. A Voicemail option can pick one; its
+ * recordings and transcriptions go to the box's staff instead of everyone.
+ */
+export function VoicemailBoxesCard({ voicemailBoxes, staff }: VoicemailBoxesCardProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<IvrVoicemailBox | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [greetingText, setGreetingText] = useState('');
+  const [notifyUserIds, setNotifyUserIds] = useState<number[]>([]);
+  const [transcribe, setTranscribe] = useState(true);
+
+  const staffName = (id: number) => {
+    const member = staff.find(s => s.id === id);
+    return member ? member.fullName || member.username : `User ${id}`;
+  };
+
+  const openDialog = (box: IvrVoicemailBox | null) => {
+    setEditing(box);
+    setName(box?.name || '');
+    setGreetingText(box?.greetingText || '');
+    setNotifyUserIds(box?.notifyUserIds || []);
+    setTranscribe(box?.transcribe ?? true);
+    setDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name, greetingText: greetingText || null, notifyUserIds, transcribe };
+      return editing
+        ? apiRequest('PUT', `/api/admin/ivr/voicemail-boxes/${editing.id}`, body)
+        : apiRequest('POST', '/api/admin/ivr/voicemail-boxes', body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
+      setDialogOpen(false);
+      toast({ title: 'Voicemail Box Saved' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save Failed', description: describeIvrError(error, 'Failed to save voicemail box.'), variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (boxId: number) => apiRequest('DELETE', `/api/admin/ivr/voicemail-boxes/${boxId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
+      toast({ title: 'Voicemail Box Deleted' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Delete Failed', description: describeIvrError(error, 'Failed to delete voicemail box.'), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Voicemail className="h-5 w-5" />
+              Voicemail Boxes
+            </CardTitle>
+            <CardDescription>Per-department voicemail routed to specific staff</CardDescription>
+          </div>
+          <Button type="button" size="sm" variant="outline" onClick={() => openDialog(null)} data-testid="button-add-voicemail-box">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Box
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {voicemailBoxes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Voicemail options use the line's voicemail and notify everyone
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {voicemailBoxes.map(box => (
+              <div key={box.id} className="flex items-center gap-3 p-3 rounded-lg border" data-testid={`voicemail-box-${box.id}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{box.name}</span>
+                    {box.transcribe && <Badge variant="secondary" className="text-xs">Transcribed</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {box.notifyUserIds.length > 0 ? box.notifyUserIds.map(staffName).join(', ') : 'Notifies everyone'}
+                  </p>
+                </div>
+                <Button type="button" variant="ghost" size="icon" onClick={() => openDialog(box)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => deleteMutation.mutate(box.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Voicemail Box' : 'Add Voicemail Box'}</DialogTitle>
+            <DialogDescription>Who hears about messages left in this box</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div>
+              <Label htmlFor="box-name">Name</Label>
+              <Input id="box-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Fleet Accounts" data-testid="input-box-name" />
+            </div>
+            <div>
+              <Label htmlFor="box-greeting">Greeting</Label>
+              <Textarea
+                id="box-greeting"
+                value={greetingText}
+                onChange={(e) => setGreetingText(e.target.value)}
+                placeholder="Leave blank to use the line's voicemail greeting"
+                data-testid="input-box-greeting"
+              />
+            </div>
+            <div>
+              <Label>Notify</Label>
+              <div className="space-y-2 mt-1 max-h-48 overflow-y-auto">
+                {staff.map(member => (
+                  <label key={member.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={notifyUserIds.includes(member.id)}
+                      onCheckedChange={(checked) => setNotifyUserIds(checked
+                        ? [...notifyUserIds, member.id]
+                        : notifyUserIds.filter(id => id !== member.id))}
+                    />
+                    {member.fullName || member.username}
+                    {!member.email && <span className="text-xs text-muted-foreground">(push only)</span>}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={transcribe} onCheckedChange={setTranscribe} />
+              <div>
+                <Label className="text-sm">Transcribe messages</Label>
+                <p className="text-xs text-muted-foreground">Transcriptions are pushed and emailed to the staff above</p>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!name || saveMutation.isPending} data-testid="button-save-voicemail-box">
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface SimulationStep {
+  kind: 'hours' | 'menu' | 'digit' | 'invalid' | 'end';
+  menuId: number;
+  menuName: string;
+  description: string;
+  digit?: string;
+  twiml?: string;
+}
+
+interface SimulationResult {
+  success: boolean;
+  steps: SimulationStep[];
+  finished: boolean;
+  timezone: string;
+}
+
+/**
+ * Test call: press digits against the saved flow at a chosen time and see
+ * each menu, hours hop and the TwiML Twilio would receive
+ */
+export function TestCallCard({ menus, selectedMenuId }: { menus: IvrFlowMenuNode[]; selectedMenuId: number | null }) {
+  const { toast } = useToast();
+  const [digits, setDigits] = useState('');
+  const [at, setAt] = useState('');
+  const [fromSelected, setFromSelected] = useState(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const selectedMenu = menus.find(menu => menu.id === selectedMenuId);
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/ivr/simulate', {
+        digits,
+        menuId: fromSelected && selectedMenu ? selectedMenu.id : undefined,
+        at: at ? new Date(at).toISOString() : undefined,
+      });
+      return res.json() as Promise<SimulationResult>;
+    },
+    onSuccess: setResult,
+    onError: (error: any) => {
+      toast({ title: 'Test Call Failed', description: describeIvrError(error, 'Failed to simulate call.'), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <PhoneCall className="h-5 w-5" />
+          Test Call
+        </CardTitle>
+        <CardDescription>Walk through the saved menus without placing a call</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="sim-digits">Keys pressed</Label>
+            <Input
+              id="sim-digits"
+              value={digits}
+              onChange={(e) => setDigits(e.target.value.replace(/[^0-9*#]/g, ''))}
+              placeholder="e.g., 21"
+              className="font-mono"
+              data-testid="input-sim-digits"
+            />
+          </div>
+          <div>
+            <Label htmlFor="sim-at">Call time</Label>
+            <Input id="sim-at" type="datetime-local" value={at} onChange={(e) => setAt(e.target.value)} data-testid="input-sim-at" />
+          </div>
+        </div>
+        {selectedMenu && selectedMenu.key !== 'main' && (
+          <div className="flex items-center gap-2">
+            <Switch checked={fromSelected} onCheckedChange={setFromSelected} />
+            <span className="text-sm">Start at "{selectedMenu.name}"</span>
+          </div>
+        )}
+        <Button
+          type="button"
+          className="w-full"
+          onClick={() => simulateMutation.mutate()}
+          disabled={simulateMutation.isPending}
+          data-testid="button-simulate"
+        >
+          {simulateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PhoneCall className="h-4 w-4 mr-2" />}
+          Run Test Call
+        </Button>
+
+        {result && (
+          <div className="space-y-2" data-testid="simulation-steps">
+            {result.steps.map((step, index) => (
+              <Collapsible key={index} className="rounded-lg border p-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={step.kind === 'invalid' || step.kind === 'end' ? 'destructive' : 'outline'} className="shrink-0">
+                    {step.digit ?? (step.kind === 'hours' ? <Clock className="h-3 w-3" /> : index + 1)}
+                  </Badge>
+                  <span className="text-sm flex-1">{step.description}</span>
+                  {step.twiml && (
+                    <CollapsibleTrigger asChild>
+                      <Button type="button" variant="ghost" size="icon" aria-label="Show TwiML">
+                        <Code className="h-4 w-4" />
+                      </Button>
+                    </CollapsibleTrigger>
+                  )}
+                </div>
+                {step.twiml && (
+                  <CollapsibleContent>
+                    <pre className="mt-2 text-xs bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap">{step.twiml}</pre>
+                  </CollapsibleContent>
+                )}
+              </Collapsible>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {result.finished ? 'Call ends here.' : 'Caller is waiting at the last menu.'} Times in {result.timezone}.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
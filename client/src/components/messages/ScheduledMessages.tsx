@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, addHours, addDays, setHours, setMinutes, startOfMinute } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { AlarmClock, Clock, Loader2, Pencil, X, AlertCircle } from 'lucide-react';
+import type { ScheduledMessage } from '@shared/schema';
+
+// datetime-local wants local time without a zone
+function toLocalInput(date: Date): string {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+function defaultSendTime(): Date {
+  return startOfMinute(addHours(new Date(), 1));
+}
+
+function tomorrowMorning(): Date {
+  return setMinutes(setHours(addDays(new Date(), 1), 9), 0);
+}
+
+function scheduledKey(conversationId: number) {
+  return [`/api/conversations/${conversationId}/scheduled-messages`];
+}
+
+function readError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // apiRequest errors look like "400: {json}"
+  const json = message.slice(message.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(json).message || message;
+  } catch {
+    return message;
+  }
+}
+
+interface ScheduleSendButtonProps {
+  conversationId: number;
+  content: string;
+  channel: string;
+  phoneLineId?: number;
+  disabled?: boolean;
+  onScheduled: () => void;
+}
+
+/**
+ * "Send later" next to the composer's send button
+ */
+export function ScheduleSendButton({ conversationId, content, channel, phoneLineId, disabled, onScheduled }: ScheduleSendButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [sendAt, setSendAt] = useState(() => toLocalInput(defaultSendTime()));
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (scheduledFor: Date) => {
+      const response = await apiRequest('POST', `/api/conversations/${conversationId}/scheduled-messages`, {
+        content,
+        scheduledFor: scheduledFor.toISOString(),
+        channel,
+        phoneLineId,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, scheduledFor) => {
+      queryClient.invalidateQueries({ queryKey: scheduledKey(conversationId) });
+      toast({ title: 'Message scheduled', description: `Will send ${format(scheduledFor, 'EEE MMM d, h:mm a')}` });
+      setOpen(false);
+      onScheduled();
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't schedule message", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setSendAt(toLocalInput(defaultSendTime()));
+        setOpen(next);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="h-11 w-11 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors p-0 flex items-center justify-center"
+          disabled={disabled || !content.trim()}
+          data-testid="button-schedule-send"
+          title="Send later"
+        >
+          <AlarmClock className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div>
+          <h3 className="font-semibold text-sm">Send later</h3>
+          <p className="text-xs text-muted-foreground">Delivered over {channel} at the time you pick.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => setSendAt(toLocalInput(defaultSendTime()))}
+            data-testid="button-schedule-in-hour"
+          >
+            In 1 hour
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => setSendAt(toLocalInput(tomorrowMorning()))}
+            data-testid="button-schedule-tomorrow"
+          >
+            Tomorrow 9 AM
+          </Button>
+        </div>
+        <Input
+          type="datetime-local"
+          value={sendAt}
+          min={toLocalInput(new Date())}
+          onChange={(e) => setSendAt(e.target.value)}
+          data-testid="input-schedule-time"
+        />
+        <Button
+          className="w-full"
+          disabled={!sendAt || scheduleMutation.isPending}
+          onClick={() => scheduleMutation.mutate(new Date(sendAt))}
+          data-testid="button-confirm-schedule"
+        >
+          {scheduleMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Clock className="h-4 w-4 mr-2" />}
+          Schedule
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ScheduledMessageRow({ conversationId, scheduled }: { conversationId: number; scheduled: ScheduledMessage }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [content, setContent] = useState(scheduled.content);
+  const [sendAt, setSendAt] = useState(toLocalInput(new Date(scheduled.scheduledFor)));
+
+  const url = `/api/conversations/${conversationId}/scheduled-messages/${scheduled.id}`;
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', url, { content, scheduledFor: new Date(sendAt).toISOString() });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduledKey(conversationId) });
+      setEditing(false);
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't update message", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', url);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scheduledKey(conversationId) });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't cancel message", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  const failed = scheduled.status === 'failed';
+
+  return (
+    <div
+      className={`flex items-start gap-2 rounded-lg border px-3 py-2 text-xs ${failed ? 'border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950/30' : 'border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/30'}`}
+      data-testid={`scheduled-message-${scheduled.id}`}
+    >
+      {failed ? (
+        <AlertCircle className="h-4 w-4 mt-0.5 text-red-600 dark:text-red-400 shrink-0" />
+      ) : (
+        <AlarmClock className="h-4 w-4 mt-0.5 text-blue-600 dark:text-blue-400 shrink-0" />
+      )}
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{format(new Date(scheduled.scheduledFor), 'EEE MMM d, h:mm a')}</span>
+          {failed && <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Failed</Badge>}
+          {scheduled.status === 'queued' && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">Queued</Badge>
+          )}
+          {!failed && scheduled.attemptCount > 0 && (
+            <Badge variant="outline" className="text-[10px] px-1.5 py-0">Retrying</Badge>
+          )}
+        </div>
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea value={content} onChange={(e) => setContent(e.target.value)} rows={2} className="text-xs" />
+            <Input type="datetime-local" value={sendAt} onChange={(e) => setSendAt(e.target.value)} className="h-8 text-xs" />
+            <div className="flex gap-2">
+              <Button size="sm" className="h-7" disabled={!content.trim() || updateMutation.isPending} onClick={() => updateMutation.mutate()}>
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setEditing(false)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="truncate text-gray-700 dark:text-gray-300">{scheduled.content}</p>
+        )}
+        {scheduled.errorMessage && (
+          <p className="text-red-600 dark:text-red-400">{scheduled.errorMessage}</p>
+        )}
+      </div>
+      {scheduled.status === 'pending' && !editing && (
+        <div className="flex gap-1 shrink-0">
+          <button
+            onClick={() => setEditing(true)}
+            className="p-1 rounded hover:bg-white/60 dark:hover:bg-gray-800"
+            title="Edit"
+            data-testid={`button-edit-scheduled-${scheduled.id}`}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={() => cancelMutation.mutate()}
+            disabled={cancelMutation.isPending}
+            className="p-1 rounded hover:bg-white/60 dark:hover:bg-gray-800"
+            title="Cancel"
+            data-testid={`button-cancel-scheduled-${scheduled.id}`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Pending and failed "send later" messages, shown above the composer
+ */
+export function ScheduledMessagesList({ conversationId }: { conversationId: number }) {
+  const { data } = useQuery<{ success: boolean; data: ScheduledMessage[] }>({
+    queryKey: scheduledKey(conversationId),
+    refetchInterval: 60000,
+  });
+
+  // Failures stay visible for a day so staff can follow up another way
+  const failedSince = Date.now() - 24 * 60 * 60 * 1000;
+  const visible = (data?.data ?? []).filter((scheduled) =>
+    scheduled.status === 'pending' ||
+    scheduled.status === 'sending' ||
+    scheduled.status === 'queued' ||
+    (scheduled.status === 'failed' && new Date(scheduled.updatedAt ?? scheduled.scheduledFor).getTime() > failedSince)
+  );
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="mb-2 space-y-1.5 max-w-4xl mx-auto" data-testid="list-scheduled-messages">
+      {visible.map((scheduled) => (
+        <ScheduledMessageRow key={scheduled.id} conversationId={conversationId} scheduled={scheduled} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { PhoneCall, Loader2, Save } from 'lucide-react';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import {
+  CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING,
+  CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING,
+  DEFAULT_CONFIRMATION_CALL_LEAD_HOURS,
+  type ConfirmationCallSettings,
+} from '@shared/confirmationCall';
+
+const SETTINGS_KEY = ['/api/phone-settings/confirmation-calls'];
+
+function readError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // apiRequest errors look like "400: {json}"
+  const json = message.slice(message.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(json).error || message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * On/off switch and lead time for automated appointment confirmation calls
+ */
+export function ConfirmationCallSettingsCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ success: boolean; settings: ConfirmationCallSettings }>({
+    queryKey: SETTINGS_KEY,
+  });
+
+  const [enabled, setEnabled] = useState(false);
+  const [leadHours, setLeadHours] = useState(String(DEFAULT_CONFIRMATION_CALL_LEAD_HOURS));
+
+  useEffect(() => {
+    if (data?.settings) {
+      setEnabled(data.settings.enabled);
+      setLeadHours(String(data.settings.leadHours));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/phone-settings/confirmation-calls', {
+        enabled,
+        leadHours: parseInt(leadHours, 10),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_KEY });
+      toast({ title: 'Confirmation call settings saved' });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save settings", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  const hasChanges = !!data?.settings &&
+    (enabled !== data.settings.enabled || leadHours !== String(data.settings.leadHours));
+
+  return (
+    <Card className="mb-8" data-testid="card-confirmation-calls">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <PhoneCall className="h-5 w-5 text-primary" />
+              Appointment Confirmation Calls
+            </CardTitle>
+            <CardDescription>
+              Call customers whose appointment is still unconfirmed: press 1 to confirm, 2 to reschedule, 3 to talk to someone
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasChanges || saveMutation.isPending}
+            size="sm"
+            data-testid="button-save-confirmation-calls"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="confirmation-calls-enabled">Place confirmation calls</Label>
+              <Switch
+                id="confirmation-calls-enabled"
+                checked={enabled}
+                onCheckedChange={setEnabled}
+                data-testid="switch-confirmation-calls"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmation-call-lead-hours">Hours before the appointment</Label>
+              <Input
+                id="confirmation-call-lead-hours"
+                type="number"
+                min={CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING}
+                max={CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING}
+                value={leadHours}
+                onChange={(e) => setLeadHours(e.target.value)}
+                disabled={!enabled}
+                className="w-32"
+                data-testid="input-confirmation-call-lead-hours"
+              />
+              <p className="text-xs text-muted-foreground">
+                Between {CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING} and {CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING} hours.
+                Calls respect your quiet hours and the customer's reminder consent.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { AlertTriangle } from 'lucide-react';
+import {
+  APPOINTMENT_CHANGE_BLOCK_MESSAGES,
+  CANCELLATION_CATEGORIES,
+  CANCELLATION_CATEGORY_LABELS,
+  type AppointmentChangeCheck,
+  type AppointmentChangePolicy,
+  type CancellationCategory,
+} from '@shared/appointmentChangePolicy';
+
+interface RescheduleOptionsResponse {
+  check: AppointmentChangeCheck;
+  policy: AppointmentChangePolicy;
+  timezone: string;
+  slots: Array<{ startIso: string; endIso: string; date: string }>;
+}
+
+interface AppointmentChangeDialogProps {
+  appointmentId: number | null;
+  scheduledTime: Date | string | null;
+  mode: 'reschedule' | 'cancel';
+  onClose: () => void;
+}
+
+// Pulls the server's { error } out of apiRequest's "409: {...}" message
+function describePortalError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+export function AppointmentChangeDialog({ appointmentId, scheduledTime, mode, onClose }: AppointmentChangeDialogProps) {
+  const { toast } = useToast();
+  const [selectedDate, setSelectedDate] = useState<string>('');
+  const [selectedSlot, setSelectedSlot] = useState<string>('');
+  const [category, setCategory] = useState<CancellationCategory>('scheduling');
+  const [comments, setComments] = useState('');
+  const [wouldReschedule, setWouldReschedule] = useState(false);
+
+  const open = appointmentId !== null;
+
+  useEffect(() => {
+    setSelectedDate('');
+    setSelectedSlot('');
+    setCategory('scheduling');
+    setComments('');
+    setWouldReschedule(false);
+  }, [appointmentId, mode]);
+
+  const { data, isLoading } = useQuery<RescheduleOptionsResponse>({
+    queryKey: [`/api/portal/appointments/${appointmentId}/reschedule-options`],
+    enabled: open,
+    staleTime: 0, // Slots and the notice window move with the clock - refetch on every open
+  });
+
+  const formatters = useMemo(() => {
+    const timeZone = data?.timezone;
+    return {
+      day: new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long', month: 'short', day: 'numeric' }),
+      time: new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: '2-digit' }),
+    };
+  }, [data?.timezone]);
+
+  const slotsByDate = useMemo(() => {
+    const grouped = new Map<string, RescheduleOptionsResponse['slots']>();
+    for (const slot of data?.slots ?? []) {
+      grouped.set(slot.date, [...(grouped.get(slot.date) ?? []), slot]);
+    }
+    return grouped;
+  }, [data?.slots]);
+
+  const dates = Array.from(slotsByDate.keys());
+  const activeDate = selectedDate || dates[0] || '';
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/portal/me'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/portal/appointments'] });
+    onClose();
+  };
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/portal/appointments/${appointmentId}/reschedule`, { startIso: selectedSlot });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Appointment Rescheduled',
+        description: `See you ${formatters.day.format(new Date(selectedSlot))} at ${formatters.time.format(new Date(selectedSlot))}.`,
+      });
+      onChanged();
+    },
+    onError: (error) => {
+      toast({ title: 'Reschedule Failed', description: describePortalError(error, 'Failed to reschedule.'), variant: 'destructive' });
+      queryClient.invalidateQueries({ queryKey: [`/api/portal/appointments/${appointmentId}/reschedule-options`] });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/portal/appointments/${appointmentId}/cancel`, {
+        category,
+        reason: CANCELLATION_CATEGORY_LABELS[category],
+        additionalComments: comments.trim() || undefined,
+        wouldReschedule,
+      });
+      return res.json();
+    },
+    onSuccess: (result: { lateCancelFee: number; depositRefund: number }) => {
+      const refund = result.depositRefund > 0 ? ` ${money(result.depositRefund)} of your deposit will be refunded.` : '';
+      toast({ title: 'Appointment Cancelled', description: `Your appointment has been cancelled.${refund}` });
+      onChanged();
+    },
+    onError: (error) => {
+      toast({ title: 'Cancel Failed', description: describePortalError(error, 'Failed to cancel.'), variant: 'destructive' });
+    },
+  });
+
+  const check = data?.check;
+  const blockedBy = mode === 'reschedule' ? check?.rescheduleBlockedBy : check?.cancelBlockedBy;
+  const currentTime = scheduledTime ? new Date(scheduledTime) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mode === 'reschedule' ? 'Reschedule Appointment' : 'Cancel Appointment'}</DialogTitle>
+          {currentTime && data && (
+            <DialogDescription>
+              Currently {formatters.day.format(currentTime)} at {formatters.time.format(currentTime)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !check ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-24" />
+          </div>
+        ) : blockedBy ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription data-testid="text-change-blocked">{APPOINTMENT_CHANGE_BLOCK_MESSAGES[blockedBy]}</AlertDescription>
+          </Alert>
+        ) : mode === 'reschedule' ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {check.reschedulesLeft === 1
+                ? 'This is the last time this appointment can be rescheduled online.'
+                : `You can reschedule this appointment ${check.reschedulesLeft} more times online.`}
+            </p>
+            {dates.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-slots">
+                No open times in the next few weeks. Please give us a call.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label>Day</Label>
+                  <Select value={activeDate} onValueChange={(value) => { setSelectedDate(value); setSelectedSlot(''); }}>
+                    <SelectTrigger data-testid="select-reschedule-date">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dates.map(date => (
+                        <SelectItem key={date} value={date}>
+                          {formatters.day.format(new Date(slotsByDate.get(date)![0].startIso))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Time</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(slotsByDate.get(activeDate) ?? []).map(slot => (
+                      <Button
+                        key={slot.startIso}
+                        type="button"
+                        size="sm"
+                        variant={selectedSlot === slot.startIso ? 'default' : 'outline'}
+                        onClick={() => setSelectedSlot(slot.startIso)}
+                        data-testid={`button-slot-${slot.startIso}`}
+                      >
+                        {formatters.time.format(new Date(slot.startIso))}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={onClose}>Back</Button>
+              <Button
+                onClick={() => rescheduleMutation.mutate()}
+                disabled={!selectedSlot || rescheduleMutation.isPending}
+                data-testid="button-confirm-reschedule"
+              >
+                {rescheduleMutation.isPending ? 'Rescheduling...' : 'Reschedule'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {check.isLateCancel && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription data-testid="text-late-cancel">
+                  This is less than {data!.policy.minNoticeHours} hours before your appointment.
+                  {check.lateCancelFee > 0
+                    ? ` A late cancellation fee of ${money(check.lateCancelFee)} will be kept from your deposit.`
+                    : ''}
+                </AlertDescription>
+              </Alert>
+            )}
+            {check.depositRefund > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {money(check.depositRefund)} of your deposit will be refunded.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as CancellationCategory)}>
+                <SelectTrigger data-testid="select-cancel-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CANCELLATION_CATEGORIES.map(value => (
+                    <SelectItem key={value} value={value}>{CANCELLATION_CATEGORY_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cancel-comments">Anything we should know? (optional)</Label>
+              <Textarea
+                id="cancel-comments"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                rows={3}
+                className="resize-none"
+                data-testid="input-cancel-comments"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="would-reschedule"
+                checked={wouldReschedule}
+                onCheckedChange={(checked) => setWouldReschedule(checked === true)}
+              />
+              <Label htmlFor="would-reschedule" className="cursor-pointer">I'd like to book again later</Label>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={onClose}>Keep Appointment</Button>
+              <Button
+                variant="destructive"
+                onClick={() => cancelMutation.mutate()}
+                disabled={cancelMutation.isPending}
+                data-testid="button-confirm-cancel"
+              >
+                {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Appointment'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
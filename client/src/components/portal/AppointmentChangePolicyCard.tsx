@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2, Save } from 'lucide-react';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import {
+  MAX_MIN_NOTICE_HOURS,
+  MAX_RESCHEDULES_SETTING,
+  type AppointmentChangePolicy,
+} from '@shared/appointmentChangePolicy';
+
+const POLICY_KEY = ['/api/admin/portal/change-policy'];
+
+function readError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // apiRequest errors look like "400: {json}"
+  const json = message.slice(message.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(json).error || message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Minimum notice, late-cancel fee and reschedule cap for customers changing
+ * their own appointments in the portal
+ */
+export function AppointmentChangePolicyCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ success: boolean; policy: AppointmentChangePolicy }>({
+    queryKey: POLICY_KEY,
+  });
+
+  const [minNoticeHours, setMinNoticeHours] = useState('');
+  const [lateCancelFee, setLateCancelFee] = useState('');
+  const [maxReschedules, setMaxReschedules] = useState('');
+
+  useEffect(() => {
+    if (data?.policy) {
+      setMinNoticeHours(String(data.policy.minNoticeHours));
+      setLateCancelFee(data.policy.lateCancelFee.toFixed(2));
+      setMaxReschedules(String(data.policy.maxReschedules));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/admin/portal/change-policy', {
+        minNoticeHours: parseInt(minNoticeHours, 10),
+        lateCancelFee: parseFloat(lateCancelFee),
+        maxReschedules: parseInt(maxReschedules, 10),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: POLICY_KEY });
+      toast({ title: 'Change policy saved' });
+    },
+    onError: (error) => {
+      toast({ title: "Couldn't save change policy", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  const hasChanges = !!data?.policy && (
+    minNoticeHours !== String(data.policy.minNoticeHours) ||
+    lateCancelFee !== data.policy.lateCancelFee.toFixed(2) ||
+    maxReschedules !== String(data.policy.maxReschedules)
+  );
+
+  return (
+    <Card data-testid="card-change-policy">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" /> Reschedule &amp; Cancel Policy
+            </CardTitle>
+            <CardDescription>
+              When customers can move or cancel their own appointments from the portal
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasChanges || saveMutation.isPending}
+            size="sm"
+            data-testid="button-save-change-policy"
+          >
+            {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="minNoticeHours">Minimum notice (hours)</Label>
+              <Input
+                id="minNoticeHours"
+                type="number"
+                min={0}
+                max={MAX_MIN_NOTICE_HOURS}
+                value={minNoticeHours}
+                onChange={(e) => setMinNoticeHours(e.target.value)}
+                data-testid="input-min-notice-hours"
+              />
+              <p className="text-xs text-muted-foreground">
+                Closer than this, reschedules need a call and cancellations are late
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lateCancelFee">Late-cancel fee ($)</Label>
+              <Input
+                id="lateCancelFee"
+                type="number"
+                min={0}
+                step="0.01"
+                value={lateCancelFee}
+                onChange={(e) => setLateCancelFee(e.target.value)}
+                data-testid="input-late-cancel-fee"
+              />
+              <p className="text-xs text-muted-foreground">
+                Kept from a paid deposit; the rest is owed back
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="maxReschedules">Reschedules allowed</Label>
+              <Input
+                id="maxReschedules"
+                type="number"
+                min={0}
+                max={MAX_RESCHEDULES_SETTING}
+                value={maxReschedules}
+                onChange={(e) => setMaxReschedules(e.target.value)}
+                data-testid="input-max-reschedules"
+              />
+              <p className="text-xs text-muted-foreground">
+                Per appointment, 0 to turn online rescheduling off
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { CreditCard, HandCoins, Loader2 } from 'lucide-react';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import type { DepositRefund } from '@shared/schema';
+
+const REFUNDS_KEY = ['/api/admin/portal/deposit-refunds'];
+
+type DepositRefundItem = DepositRefund & {
+  customerName: string | null;
+  scheduledTime: string | null;
+};
+
+function readError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // apiRequest errors look like "400: {json}"
+  const json = message.slice(message.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(json).error || message;
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Deposit money owed back to customers who cancelled from the portal
+ */
+export function DepositRefundsCard() {
+  const { toast } = useToast();
+  const { data, isLoading } = useQuery<{ success: boolean; refunds: DepositRefundItem[] }>({
+    queryKey: REFUNDS_KEY,
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: async ({ id, method }: { id: number; method: 'stripe' | 'manual' }) => {
+      const response = await apiRequest('POST', `/api/admin/portal/deposit-refunds/${id}/refund`, { method });
+      return response.json();
+    },
+    onSuccess: (_data, { method }) => {
+      queryClient.invalidateQueries({ queryKey: REFUNDS_KEY });
+      toast({ title: method === 'stripe' ? 'Deposit refunded through Stripe' : 'Deposit marked refunded' });
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: REFUNDS_KEY });
+      toast({ title: "Couldn't refund deposit", description: readError(error), variant: 'destructive' });
+    },
+  });
+
+  const refunds = data?.refunds ?? [];
+
+  return (
+    <Card data-testid="card-deposit-refunds">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HandCoins className="h-5 w-5" /> Deposit Refunds Owed
+        </CardTitle>
+        <CardDescription>
+          What's left of a paid deposit after the late-cancel fee, for appointments cancelled in the portal
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : refunds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No deposit refunds owed.</p>
+        ) : (
+          <div className="space-y-3">
+            {refunds.map((refund) => (
+              <div
+                key={refund.id}
+                className="flex items-center justify-between rounded-lg border p-3"
+                data-testid={`deposit-refund-${refund.id}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{refund.customerName || 'Customer'}</span>
+                    <span className="font-semibold">${Number(refund.amount).toFixed(2)}</span>
+                    {refund.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {refund.scheduledTime ? `Was ${format(new Date(refund.scheduledTime), 'MMM d, h:mm a')}` : `Appointment #${refund.appointmentId}`}
+                    {Number(refund.feeKept) > 0 && ` · $${Number(refund.feeKept).toFixed(2)} late fee kept`}
+                  </p>
+                  {refund.failureReason && (
+                    <p className="text-xs text-destructive">{refund.failureReason}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {refund.stripePaymentIntentId && (
+                    <Button
+                      size="sm"
+                      onClick={() => refundMutation.mutate({ id: refund.id, method: 'stripe' })}
+                      disabled={refundMutation.isPending}
+                      data-testid={`button-refund-stripe-${refund.id}`}
+                    >
+                      <CreditCard className="h-4 w-4 mr-2" /> Refund via Stripe
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => refundMutation.mutate({ id: refund.id, method: 'manual' })}
+                    disabled={refundMutation.isPending}
+                    data-testid={`button-refund-manual-${refund.id}`}
+                  >
+                    Mark refunded
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
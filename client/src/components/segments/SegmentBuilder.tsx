@@ -0,0 +1,437 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useDebounce } from '@/hooks/use-debounce';
+import { Loader2, Plus, Trash2, Users } from 'lucide-react';
+import {
+  LOYALTY_TIERS,
+  MAX_SEGMENT_DEPTH,
+  SEGMENT_RULE_LABELS,
+  SEGMENT_RULE_TYPES,
+  segmentDefinitionSchema,
+  type SegmentDefinition,
+  type SegmentRule,
+  type SegmentRuleType,
+} from '@shared/customerSegments';
+import { VEHICLE_CLASSES, VEHICLE_CLASS_LABELS } from '@shared/priceBook';
+
+export interface SegmentOptions {
+  tags: Array<{ id: number; name: string; color: string | null }>;
+  services: Array<{ id: number; name: string }>;
+}
+
+export interface SegmentPreview {
+  count: number;
+  sample: Array<{ id: number; name: string; phone: string | null; email: string | null }>;
+}
+
+const NEW_RULES: Record<SegmentRuleType, SegmentRule> = {
+  last_appointment: { type: 'last_appointment', op: 'before', daysAgo: 90 },
+  lifetime_value: { type: 'lifetime_value', op: 'gte', amount: 500 },
+  loyalty_tier: { type: 'loyalty_tier', tiers: ['gold'] },
+  vip: { type: 'vip', value: true },
+  tag: { type: 'tag', tagIds: [], match: 'any' },
+  service_history: { type: 'service_history', serviceIds: [], match: 'any' },
+  vehicle: { type: 'vehicle', classes: [], makes: [] },
+  household: { type: 'household', value: 'shared' },
+  zip: { type: 'zip', zips: [], match: 'any' },
+  consent: { type: 'consent', channel: 'sms', value: true },
+  group: { type: 'group', match: 'any', rules: [{ type: 'vip', value: true }] },
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+// Free-text list ("74103, 741") that only re-parses on blur so commas survive typing
+function ListInput({ values, onChange, placeholder, testId }: {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  testId: string;
+}) {
+  const [text, setText] = useState(values.join(', '));
+
+  useEffect(() => setText(values.join(', ')), [values.join(',')]);
+
+  return (
+    <Input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onChange(text.split(',').map(v => v.trim()).filter(Boolean))}
+      data-testid={testId}
+    />
+  );
+}
+
+function ChoiceBadges<T extends string | number>({ choices, selected, onChange, testId }: {
+  choices: Array<{ value: T; label: string }>;
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  testId: string;
+}) {
+  if (choices.length === 0) {
+    return <span className="text-xs text-muted-foreground">Nothing to choose from yet</span>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {choices.map(choice => (
+        <Badge
+          key={choice.value}
+          variant={selected.includes(choice.value) ? 'default' : 'outline'}
+          className="cursor-pointer"
+          onClick={() => onChange(toggle(selected, choice.value))}
+          data-testid={`${testId}-${choice.value}`}
+        >
+          {choice.label}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function MiniSelect<T extends string>({ value, onChange, options, testId }: {
+  value: T;
+  onChange: (value: T) => void;
+  options: Array<[T, string]>;
+  testId: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as T)}>
+      <SelectTrigger className="w-auto min-w-[8rem]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(([optionValue, label]) => (
+          <SelectItem key={optionValue} value={optionValue}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function RuleFields({ rule, onChange, options, testId }: {
+  rule: SegmentRule;
+  onChange: (rule: SegmentRule) => void;
+  options: SegmentOptions;
+  testId: string;
+}) {
+  switch (rule.type) {
+    case 'last_appointment':
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <MiniSelect
+            value={rule.op}
+            onChange={(op) => onChange({ ...rule, op })}
+            options={[['before', 'More than'], ['after', 'Within'], ['never', 'Never booked']]}
+            testId={`${testId}-op`}
+          />
+          {rule.op !== 'never' && (
+            <>
+              <Input
+                type="number"
+                min={0}
+                className="w-24"
+                value={rule.daysAgo}
+                onChange={(e) => onChange({ ...rule, daysAgo: Number(e.target.value) || 0 })}
+                data-testid={`${testId}-days`}
+              />
+              <span className="text-sm text-muted-foreground">{rule.op === 'before' ? 'days ago' : 'days'}</span>
+            </>
+          )}
+        </div>
+      );
+    case 'lifetime_value':
+      return (
+        <div className="flex items-center gap-2">
+          <MiniSelect
+            value={rule.op}
+            onChange={(op) => onChange({ ...rule, op })}
+            options={[['gte', 'At least'], ['lte', 'At most']]}
+            testId={`${testId}-op`}
+          />
+          <span className="text-sm">$</span>
+          <Input
+            type="number"
+            min={0}
+            className="w-28"
+            value={rule.amount}
+            onChange={(e) => onChange({ ...rule, amount: Number(e.target.value) || 0 })}
+            data-testid={`${testId}-amount`}
+          />
+        </div>
+      );
+    case 'loyalty_tier':
+      return (
+        <ChoiceBadges
+          choices={LOYALTY_TIERS.map(tier => ({ value: tier, label: tier }))}
+          selected={rule.tiers}
+          onChange={(tiers) => onChange({ ...rule, tiers })}
+          testId={`${testId}-tier`}
+        />
+      );
+    case 'vip':
+      return (
+        <MiniSelect
+          value={rule.value ? 'yes' : 'no'}
+          onChange={(v) => onChange({ ...rule, value: v === 'yes' })}
+          options={[['yes', 'Is VIP'], ['no', 'Is not VIP']]}
+          testId={`${testId}-value`}
+        />
+      );
+    case 'tag':
+      return (
+        <div className="space-y-2">
+          <MiniSelect
+            value={rule.match}
+            onChange={(match) => onChange({ ...rule, match })}
+            options={[['any', 'Has any of'], ['none', 'Has none of']]}
+            testId={`${testId}-match`}
+          />
+          <ChoiceBadges
+            choices={options.tags.map(tag => ({ value: tag.id, label: tag.name }))}
+            selected={rule.tagIds}
+            onChange={(tagIds) => onChange({ ...rule, tagIds })}
+            testId={`${testId}-tag`}
+          />
+        </div>
+      );
+    case 'service_history':
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <MiniSelect
+              value={rule.match}
+              onChange={(match) => onChange({ ...rule, match })}
+              options={[['any', 'Had any of'], ['none', 'Never had']]}
+              testId={`${testId}-match`}
+            />
+            <span className="text-sm text-muted-foreground">in the last</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-24"
+              placeholder="any"
+              value={rule.withinDays ?? ''}
+              onChange={(e) => onChange({ ...rule, withinDays: Number(e.target.value) || undefined })}
+              data-testid={`${testId}-within`}
+            />
+            <span className="text-sm text-muted-foreground">days</span>
+          </div>
+          <ChoiceBadges
+            choices={options.services.map(service => ({ value: service.id, label: service.name }))}
+            selected={rule.serviceIds}
+            onChange={(serviceIds) => onChange({ ...rule, serviceIds })}
+            testId={`${testId}-service`}
+          />
+        </div>
+      );
+    case 'vehicle':
+      return (
+        <div className="space-y-2">
+          <ChoiceBadges
+            choices={VEHICLE_CLASSES.map(value => ({ value, label: VEHICLE_CLASS_LABELS[value] }))}
+            selected={rule.classes}
+            onChange={(classes) => onChange({ ...rule, classes })}
+            testId={`${testId}-class`}
+          />
+          <ListInput
+            values={rule.makes}
+            onChange={(makes) => onChange({ ...rule, makes })}
+            placeholder="Makes, e.g. Tesla, BMW (blank = any)"
+            testId={`${testId}-makes`}
+          />
+        </div>
+      );
+    case 'household':
+      return (
+        <MiniSelect
+          value={rule.value}
+          onChange={(value) => onChange({ ...rule, value })}
+          options={[['shared', 'Shares an address'], ['single', 'Only one at address']]}
+          testId={`${testId}-value`}
+        />
+      );
+    case 'zip':
+      return (
+        <div className="space-y-2">
+          <MiniSelect
+            value={rule.match}
+            onChange={(match) => onChange({ ...rule, match })}
+            options={[['any', 'Inside'], ['none', 'Outside']]}
+            testId={`${testId}-match`}
+          />
+          <ListInput
+            values={rule.zips}
+            onChange={(zips) => onChange({ ...rule, zips })}
+            placeholder="74103, 74104, 741"
+            testId={`${testId}-zips`}
+          />
+        </div>
+      );
+    case 'consent':
+      return (
+        <div className="flex items-center gap-2">
+          <MiniSelect
+            value={rule.value ? 'yes' : 'no'}
+            onChange={(v) => onChange({ ...rule, value: v === 'yes' })}
+            options={[['yes', 'Opted in to'], ['no', 'Not opted in to']]}
+            testId={`${testId}-value`}
+          />
+          <MiniSelect
+            value={rule.channel}
+            onChange={(channel) => onChange({ ...rule, channel })}
+            options={[['sms', 'SMS'], ['email', 'Email']]}
+            testId={`${testId}-channel`}
+          />
+        </div>
+      );
+    case 'group':
+      return null;
+  }
+}
+
+function RuleList({ match, rules, depth, onChange, options, testId }: {
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+  depth: number;
+  onChange: (match: 'all' | 'any', rules: SegmentRule[]) => void;
+  options: SegmentOptions;
+  testId: string;
+}) {
+  const [newType, setNewType] = useState<SegmentRuleType>('last_appointment');
+  const addableTypes = SEGMENT_RULE_TYPES.filter(type => type !== 'group' || depth < MAX_SEGMENT_DEPTH);
+
+  const replace = (index: number, rule: SegmentRule) =>
+    onChange(match, rules.map((existing, i) => (i === index ? rule : existing)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <MiniSelect
+          value={match}
+          onChange={(value) => onChange(value, rules)}
+          options={[['all', 'all'], ['any', 'any']]}
+          testId={`${testId}-match`}
+        />
+        <span>of these rules</span>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="rounded-md border p-3 space-y-2" data-testid={`${testId}-rule-${index}`}>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs uppercase text-muted-foreground">{SEGMENT_RULE_LABELS[rule.type]}</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(match, rules.filter((_, i) => i !== index))}
+              data-testid={`${testId}-remove-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {rule.type === 'group' ? (
+            <RuleList
+              match={rule.match}
+              rules={rule.rules}
+              depth={depth + 1}
+              onChange={(groupMatch, groupRules) => replace(index, { ...rule, match: groupMatch, rules: groupRules })}
+              options={options}
+              testId={`${testId}-${index}`}
+            />
+          ) : (
+            <RuleFields rule={rule} onChange={(updated) => replace(index, updated)} options={options} testId={`${testId}-${index}`} />
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <MiniSelect
+          value={newType}
+          onChange={setNewType}
+          options={addableTypes.map(type => [type, SEGMENT_RULE_LABELS[type]])}
+          testId={`${testId}-new-type`}
+        />
+        <Button variant="outline" size="sm" onClick={() => onChange(match, [...rules, NEW_RULES[newType]])} data-testid={`${testId}-add`}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Rule editor for a saved segment with a live count and sample.
+ * The preview only runs once the definition passes the shared schema.
+ */
+export function SegmentBuilder({ definition, onChange, channel }: {
+  definition: SegmentDefinition;
+  onChange: (definition: SegmentDefinition) => void;
+  channel?: 'sms' | 'email';
+}) {
+  const { data: optionsData } = useQuery<SegmentOptions & { success: boolean }>({ queryKey: ['/api/segments/options'] });
+  const options: SegmentOptions = { tags: optionsData?.tags ?? [], services: optionsData?.services ?? [] };
+
+  const validation = segmentDefinitionSchema.safeParse(definition);
+  const debounced = useDebounce(JSON.stringify(definition), 400);
+
+  const { data: preview, isFetching } = useQuery<SegmentPreview>({
+    queryKey: ['/api/segments/preview', debounced, channel],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/segments/preview', { definition: JSON.parse(debounced), channel });
+      return res.json();
+    },
+    enabled: validation.success,
+    staleTime: 30_000,
+  });
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[1fr_16rem]">
+      <div className="space-y-4">
+        <RuleList
+          match={definition.match}
+          rules={definition.rules}
+          depth={1}
+          onChange={(match, rules) => onChange({ ...definition, match, rules })}
+          options={options}
+          testId="segment"
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id="segment-one-per-household"
+            checked={definition.onePerHousehold}
+            onCheckedChange={(onePerHousehold) => onChange({ ...definition, onePerHousehold })}
+            data-testid="switch-one-per-household"
+          />
+          <Label htmlFor="segment-one-per-household" className="cursor-pointer">One customer per household</Label>
+        </div>
+      </div>
+
+      <div className="rounded-md border p-3 space-y-2 h-fit" data-testid="segment-preview">
+        <div className="flex items-center gap-2 font-medium">
+          <Users className="h-4 w-4" />
+          {!validation.success ? (
+            <span className="text-sm text-destructive">{validation.error.errors[0].message}</span>
+          ) : isFetching || !preview ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <span data-testid="text-segment-count">{preview.count} customers</span>
+          )}
+        </div>
+        {validation.success && preview?.sample.map(customer => (
+          <div key={customer.id} className="text-xs text-muted-foreground truncate">
+            {customer.name} · {customer.phone || customer.email || 'no contact'}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CustomerSegment } from '@shared/schema';
+import type { SegmentPreview } from './SegmentBuilder';
+
+const NO_SEGMENT = 'none';
+
+/**
+ * Picker for a saved segment. "No segment" hands the audience back to the
+ * caller's built-in options; a chosen segment shows its live count.
+ */
+export function SegmentSelect({ value, onChange, channel, noneLabel = 'No segment', testId = 'select-segment' }: {
+  value: number | null | undefined;
+  onChange: (segmentId: number | null) => void;
+  channel?: 'sms' | 'email';
+  noneLabel?: string;
+  testId?: string;
+}) {
+  const { data } = useQuery<{ success: boolean; segments: CustomerSegment[] }>({ queryKey: ['/api/segments'] });
+  const query = channel ? `?channel=${channel}` : '';
+  const { data: preview } = useQuery<SegmentPreview>({
+    queryKey: [`/api/segments/${value}/preview${query}`],
+    enabled: Boolean(value),
+    staleTime: 30_000,
+  });
+
+  return (
+    <div className="space-y-1">
+      <Select
+        value={value ? String(value) : NO_SEGMENT}
+        onValueChange={(v) => onChange(v === NO_SEGMENT ? null : Number(v))}
+      >
+        <SelectTrigger data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SEGMENT}>{noneLabel}</SelectItem>
+          {data?.segments.map(segment => (
+            <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value && preview && (
+        <p className="text-xs text-muted-foreground" data-testid={`${testId}-count`}>
+          {preview.count} matching customers{channel ? ` reachable by ${channel === 'sms' ? 'SMS' : 'email'}` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
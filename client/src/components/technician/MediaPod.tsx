@@ -62,7 +62,8 @@ export function MediaPod() {
         });
 
         if (!response.ok) {
-          throw new Error('Upload failed');
+          const body = await response.json().catch(() => null);
+          throw new Error(body?.error || 'Upload failed');
         }
 
         const data = await response.json();
@@ -78,7 +79,7 @@ export function MediaPod() {
 
         toast({
           title: 'Photo Uploaded',
-          description: 'Photo saved to Google Drive',
+          description: 'Photo saved to the job',
         });
       } catch (error: any) {
         console.error('Photo upload error:', error);
@@ -240,7 +241,7 @@ export function MediaPod() {
         <div className="bg-blue-900/30 rounded-lg p-3 border border-blue-700/50">
           <p className="text-xs text-blue-200">
             <strong>Tip:</strong> Capture before/after photos for quality documentation.
-            Photos are automatically uploaded to Google Drive.
+            Photos are saved to the job automatically, with location data removed.
           </p>
         </div>
       </CardContent>
@@ -2,9 +2,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { MapPin, Navigation, ExternalLink, Map } from 'lucide-react';
 import { useTechnician } from '@/contexts/TechnicianContext';
+import { format } from 'date-fns';
 
 export function NavigationPod() {
-  const { selectedJob } = useTechnician();
+  const { selectedJob, routePlan } = useTechnician();
 
   if (!selectedJob) {
     return (
@@ -16,6 +17,7 @@ export function NavigationPod() {
     );
   }
 
+  const routeStop = routePlan?.stops.find(stop => stop.appointmentId === selectedJob.id) ?? null;
   const hasAddress = !!selectedJob.customerAddress;
   const hasCoordinates = !!(selectedJob.latitude && selectedJob.longitude);
   const mapsApiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
@@ -114,18 +116,27 @@ export function NavigationPod() {
           </div>
         )}
 
-        {/* ETA/Distance Placeholder */}
-        <div className="bg-blue-900/30 rounded-lg p-3 border border-blue-700/50">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs text-blue-300">Estimated Drive Time</p>
-              <p className="text-lg font-bold text-white">15 min</p>
-            </div>
-            <div className="text-right">
-              <p className="text-xs text-blue-300">Distance</p>
-              <p className="text-lg font-bold text-white">5.2 mi</p>
-            </div>
-          </div>
+        {/* ETA/Distance from planned route */}
+        <div className="bg-blue-900/30 rounded-lg p-3 border border-blue-700/50" data-testid="route-leg-summary">
+          {routeStop ? (
+            <>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-blue-300">Estimated Drive Time</p>
+                  <p className="text-lg font-bold text-white">{routeStop.driveMinutesFromPrevious} min</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-xs text-blue-300">Distance</p>
+                  <p className="text-lg font-bold text-white">{routeStop.distanceMilesFromPrevious.toFixed(1)} mi</p>
+                </div>
+              </div>
+              <p className="text-xs text-blue-300 mt-2">
+                Stop #{routeStop.sequence} · Arrive {format(new Date(routeStop.arrivalWindowStart), 'h:mm')}–{format(new Date(routeStop.arrivalWindowEnd), 'h:mm a')}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-blue-300">This job is not on today's planned route</p>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,7 +1,7 @@
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { RefreshCw, CloudOff, TestTube2, Sun, Cloud, CloudRain, MapPin, AlertTriangle } from 'lucide-react';
+import { RefreshCw, CloudOff, TestTube2, Sun, Cloud, CloudRain, MapPin, AlertTriangle, Route } from 'lucide-react';
 import { useTechnician } from '@/contexts/TechnicianContext';
 import { format } from 'date-fns';
 
@@ -11,10 +11,22 @@ interface SchedulePanelProps {
 }
 
 export function SchedulePanel({ demoMode, onToggleDemo }: SchedulePanelProps) {
-  const { jobs, selectedJob, selectJob, isLoadingJobs, isOnline, autoRefreshEnabled, toggleAutoRefresh, refreshJobs } = useTechnician();
+  const {
+    jobs, selectedJob, selectJob, isLoadingJobs, isOnline, autoRefreshEnabled, toggleAutoRefresh, refreshJobs,
+    routePlan, isReoptimizingRoute, reoptimizeRoute,
+  } = useTechnician();
 
   const completedJobs = jobs.filter(j => j.status === 'completed').length;
 
+  // Show jobs in planned visit order; anything not on the route keeps its booked order at the end
+  const stopById = new Map((routePlan?.stops ?? []).map(stop => [stop.appointmentId, stop]));
+  const unfittableIds = new Set((routePlan?.unfittable ?? []).map(u => u.appointmentId));
+  const orderedJobs = [...jobs].sort((a, b) => {
+    const seqA = stopById.get(a.id)?.sequence ?? Number.MAX_SAFE_INTEGER;
+    const seqB = stopById.get(b.id)?.sequence ?? Number.MAX_SAFE_INTEGER;
+    return seqA - seqB;
+  });
+
   return (
     <div className="h-full flex flex-col gap-4 p-4 overflow-y-auto">
       {/* Day Overview Card */}
@@ -34,6 +46,54 @@ export function SchedulePanel({ demoMode, onToggleDemo }: SchedulePanelProps) {
         </div>
       </Card>
 
+      {/* Route Card */}
+      {jobs.length > 0 && (
+        <Card className="bg-white/10 backdrop-blur-sm border-white/20 p-4 text-white" data-testid="card-route-plan">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-blue-200 flex items-center gap-2">
+              <Route className="w-4 h-4" />
+              Today's Route
+            </h3>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => reoptimizeRoute()}
+              disabled={isReoptimizingRoute || !isOnline}
+              className="text-white hover:bg-white/10 text-xs"
+              data-testid="button-reoptimize-route"
+            >
+              <RefreshCw className={`w-3 h-3 mr-1 ${isReoptimizingRoute ? 'animate-spin' : ''}`} />
+              Re-optimize Today
+            </Button>
+          </div>
+          {routePlan ? (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-blue-300">Total Drive Time</span>
+                <span className="font-bold" data-testid="text-route-drive-minutes">{routePlan.totalDriveMinutes} min</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-xs text-blue-300">Projected Finish</span>
+                <span className="font-bold">{format(new Date(routePlan.projectedFinish), 'h:mm a')}</span>
+              </div>
+              {routePlan.usedEstimatedTravelTimes && (
+                <p className="text-xs text-blue-300">Drive times estimated from distance</p>
+              )}
+              {routePlan.unfittable.length > 0 && (
+                <div className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 p-2 rounded" data-testid="text-route-unfittable">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  <span>
+                    {routePlan.unfittable.length} job{routePlan.unfittable.length === 1 ? '' : 's'} can't fit today's route
+                  </span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-blue-300">No route planned yet</p>
+          )}
+        </Card>
+      )}
+
       {/* Jobs List */}
       <div className="flex-1">
         <div className="flex items-center justify-between mb-3">
@@ -66,7 +126,7 @@ export function SchedulePanel({ demoMode, onToggleDemo }: SchedulePanelProps) {
               </Button>
             </Card>
           ) : (
-            jobs.map((job) => (
+            orderedJobs.map((job) => (
               <button
                 key={job.id}
                 onClick={() => selectJob(job)}
@@ -83,9 +143,25 @@ export function SchedulePanel({ demoMode, onToggleDemo }: SchedulePanelProps) {
                       {job.customerName || 'Unknown Customer'}
                     </div>
                     <div className="text-xs text-blue-200">
-                      {format(new Date(job.scheduledTime), 'h:mm a')}
+                      {stopById.get(job.id) ? (
+                        <>
+                          #{stopById.get(job.id)!.sequence} · ETA {format(new Date(stopById.get(job.id)!.arrivalWindowStart), 'h:mm')}–{format(new Date(stopById.get(job.id)!.arrivalWindowEnd), 'h:mm a')}
+                        </>
+                      ) : (
+                        format(new Date(job.scheduledTime), 'h:mm a')
+                      )}
                     </div>
                   </div>
+                  {unfittableIds.has(job.id) && (
+                    <Badge
+                      variant="destructive"
+                      className="bg-red-500/20 text-red-300 border-red-400/30 flex-shrink-0"
+                      data-testid={`badge-route-unfittable-${job.id}`}
+                    >
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Won't Fit
+                    </Badge>
+                  )}
                   {job.addressNeedsReview && (
                     <Badge 
                       variant="destructive" 
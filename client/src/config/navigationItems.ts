@@ -44,6 +44,8 @@ import {
   SlidersHorizontal,
   CreditCard,
   FileArchive,
+  Filter,
+  Workflow,
   LayoutGrid,
   Package,
   Smartphone,
@@ -419,6 +421,20 @@ export const navigationItems: NavigationItem[] = [
     path: '/referrals',
     complexity: 'advanced',
   },
+  {
+    id: 'customer-segments',
+    label: 'Customer Segments',
+    icon: Filter,
+    path: '/admin/segments',
+    complexity: 'advanced',
+  },
+  {
+    id: 'customer-journeys',
+    label: 'Customer Journeys',
+    icon: Workflow,
+    path: '/admin/journeys',
+    complexity: 'advanced',
+  },
 
   // REPORTS & ANALYTICS
   {
@@ -479,6 +495,13 @@ export const navigationItems: NavigationItem[] = [
     visibility: 'advancedOnly',
     complexity: 'advanced',
   },
+  {
+    id: 'accounting-export',
+    label: 'Accounting Export',
+    icon: FileArchive,
+    path: '/admin/accounting',
+    complexity: 'advanced',
+  },
   {
     id: 'billing-usage',
     label: 'Billing & Usage',
@@ -3,6 +3,7 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Device, Call } from '@twilio/voice-sdk';
 import { useToast } from '@/hooks/use-toast';
+import type { DayRoutePlan } from '@shared/routeOptimization';
 
 interface Job {
   id: number;
@@ -51,6 +52,9 @@ interface TechnicianContextType {
   activeCall: Call | null;
   callStatus: 'idle' | 'connecting' | 'ringing' | 'in-progress' | 'disconnected';
   queuedActions: QueuedAction[];
+  routePlan: DayRoutePlan | null;
+  isLoadingRoute: boolean;
+  isReoptimizingRoute: boolean;
   selectJob: (job: Job | null) => void;
   updateJobStatus: (status: string, notes?: string) => Promise<void>;
   sendMessage: (content: string) => Promise<void>;
@@ -58,6 +62,7 @@ interface TechnicianContextType {
   endCall: () => void;
   toggleAutoRefresh: () => void;
   refreshJobs: () => void;
+  reoptimizeRoute: () => Promise<void>;
 }
 
 const TechnicianContext = createContext<TechnicianContextType | undefined>(undefined);
@@ -97,6 +102,27 @@ export function TechnicianProvider({ children, demoMode = false, demoJobs = [] }
 
   const messages = messagesData?.messages || [];
 
+  // Planned route for today - last plan is cached so it survives going offline
+  const [cachedRoute, setCachedRoute] = useState<DayRoutePlan | null>(() => {
+    const saved = localStorage.getItem('tech_route_plan');
+    return saved ? JSON.parse(saved) : null;
+  });
+
+  const { data: routeData, isLoading: isLoadingRoute } = useQuery<{ success: boolean; route: DayRoutePlan }>({
+    queryKey: ['/api/tech/route/today'],
+    refetchInterval: autoRefreshEnabled && !demoMode ? 300000 : false, // 5 minutes
+    enabled: !demoMode && isOnline,
+  });
+
+  useEffect(() => {
+    if (routeData?.route) {
+      setCachedRoute(routeData.route);
+      localStorage.setItem('tech_route_plan', JSON.stringify(routeData.route));
+    }
+  }, [routeData]);
+
+  const routePlan = demoMode ? null : cachedRoute;
+
   // Initialize Twilio Device
   useEffect(() => {
     const initDevice = async () => {
@@ -257,6 +283,7 @@ export function TechnicianProvider({ children, demoMode = false, demoJobs = [] }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tech/jobs/today'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tech/route/today'] });
     },
   });
 
@@ -274,6 +301,67 @@ export function TechnicianProvider({ children, demoMode = false, demoJobs = [] }
     },
   });
 
+  // Re-optimize the rest of today from the technician's current position
+  const reoptimizeMutation = useMutation({
+    mutationFn: async (position: { latitude: number; longitude: number } | null) => {
+      const res = await apiRequest('POST', '/api/tech/route/reoptimize', position ?? {});
+      return res.json() as Promise<{ success: boolean; route: DayRoutePlan }>;
+    },
+    onSuccess: (data) => {
+      if (data.route) {
+        setCachedRoute(data.route);
+        localStorage.setItem('tech_route_plan', JSON.stringify(data.route));
+      }
+    },
+  });
+
+  const getCurrentPosition = () =>
+    new Promise<{ latitude: number; longitude: number } | null>((resolve) => {
+      if (!navigator.geolocation) return resolve(null);
+      navigator.geolocation.getCurrentPosition(
+        (pos) => resolve({ latitude: pos.coords.latitude, longitude: pos.coords.longitude }),
+        () => resolve(null),
+        { timeout: 5000, maximumAge: 60000 }
+      );
+    });
+
+  const reoptimizeRoute = async () => {
+    if (demoMode) {
+      toast({
+        title: 'Route Optimized (Demo)',
+        description: 'Route optimization is not available in demo mode.',
+        duration: 3000
+      });
+      return;
+    }
+
+    if (!isOnline) {
+      toast({
+        title: 'Offline',
+        description: 'Showing your last planned route. Re-optimize once you are back online.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const position = await getCurrentPosition();
+      await reoptimizeMutation.mutateAsync(position);
+      toast({
+        title: 'Route Updated',
+        description: 'Remaining stops have been re-ordered for the shortest drive.',
+        duration: 3000
+      });
+    } catch (error) {
+      console.error('[TECH] Failed to re-optimize route:', error);
+      toast({
+        title: 'Route Update Failed',
+        description: 'Could not re-optimize your route. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const selectJob = (job: Job | null) => {
     setSelectedJob(job);
   };
@@ -443,6 +531,9 @@ export function TechnicianProvider({ children, demoMode = false, demoJobs = [] }
         activeCall,
         callStatus,
         queuedActions,
+        routePlan,
+        isLoadingRoute,
+        isReoptimizingRoute: reoptimizeMutation.isPending,
         selectJob,
         updateJobStatus,
         sendMessage,
@@ -450,6 +541,7 @@ export function TechnicianProvider({ children, demoMode = false, demoJobs = [] }
         endCall,
         toggleAutoRefresh,
         refreshJobs,
+        reoptimizeRoute,
       }}
     >
       {children}
@@ -0,0 +1,53 @@
+import { attributionSourceSchema, sourceFromLanding, type AttributionSource } from '@shared/attribution';
+
+/**
+ * Booking attribution for this browser session. The landing page decides
+ * where the visitor came from (tracked `src` link, referral code, utm tags,
+ * referring site); booking forms send it along so the appointment is
+ * credited to the right campaign even after a few page views.
+ */
+
+const STORAGE_KEY = 'booking_attribution';
+
+/**
+ * Call once per page load. A new explicit source replaces the stored one;
+ * plain navigation inside the site keeps it.
+ */
+export function captureLandingAttribution(): void {
+  try {
+    const params = new URLSearchParams(window.location.search);
+    let referrerHost: string | null = null;
+    if (document.referrer) {
+      try {
+        referrerHost = new URL(document.referrer).hostname;
+      } catch {
+        referrerHost = null;
+      }
+    }
+
+    const source = sourceFromLanding({
+      src: params.get('src'),
+      ref: params.get('ref'),
+      utmSource: params.get('utm_source'),
+      utmCampaign: params.get('utm_campaign'),
+      referrerHost,
+      ownHost: window.location.hostname,
+    });
+    if (source) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(source));
+    }
+  } catch {
+    // Storage can be unavailable (private mode); attribution is best effort
+  }
+}
+
+export function getBookingAttribution(): AttributionSource | undefined {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) return undefined;
+    const parsed = attributionSourceSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import App from "./App";
 import { AppErrorBoundary } from "./components/AppErrorBoundary";
 import { reportWebVitals } from "./utils/perf";
+import { captureLandingAttribution } from "./lib/attribution";
 import "./index.css";
 import "./styles/nightOpsTheme.css";
 import "./i18n/i18n";
@@ -9,6 +10,9 @@ import "./i18n/i18n";
 // SP-23: Initialize performance monitoring
 reportWebVitals();
 
+// Remember which campaign link, referral or site sent this visitor, for booking attribution
+captureLandingAttribution();
+
 createRoot(document.getElementById("root")!).render(
   <AppErrorBoundary>
     <App />
@@ -6,6 +6,8 @@
  * - Editing greeting text and voice settings
  * - Adding/removing/reordering menu items
  * - Configuring action types and payloads
+ * - Submenus, business hours/holiday routing and voicemail boxes (flow editor)
+ * - Test calls against the saved flow
  * - Resetting to default configuration
  * 
  * Mobile-first design with 393px primary viewport
@@ -54,6 +56,17 @@ import { queryClient, apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Phone, Settings, Plus, Trash2, GripVertical, Save, RotateCcw, Loader2, Volume2, MessageSquare, PhoneForwarded, Voicemail, Hash, EyeOff, Sparkles } from 'lucide-react';
 import { AppShell } from '@/components/AppShell';
+import {
+  IvrFlowMap,
+  HoursRoutingCard,
+  VoicemailBoxesCard,
+  TestCallCard,
+  describeIvrError,
+  IVR_FLOW_QUERY_KEY,
+  type IvrFlowData,
+  type IvrVoicemailBox,
+} from '@/components/ivr/IvrFlowEditor';
+import type { IvrHoursRouting } from '@shared/ivrFlow';
 
 type IvrActionType = 'PLAY_MESSAGE' | 'SMS_INFO' | 'FORWARD_SIP' | 'FORWARD_PHONE' | 'VOICEMAIL' | 'SUBMENU' | 'REPLAY_MENU' | 'EASTER_EGG';
 
@@ -70,6 +83,7 @@ interface IvrMenuItem {
 interface IvrMenu {
   id: number;
   tenantId: string;
+  key: string;
   name: string;
   greetingText: string;
   noInputMessage: string;
@@ -77,6 +91,7 @@ interface IvrMenu {
   voiceName: string;
   maxAttempts: number;
   isActive: boolean;
+  hoursRouting: IvrHoursRouting | null;
   items: IvrMenuItem[];
 }
 
@@ -140,11 +155,17 @@ export default function AdminIvrConfig() {
   const [editingItemIndex, setEditingItemIndex] = useState<number | null>(null);
   const [localItems, setLocalItems] = useState<IvrMenuItem[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
+  const [selectedMenuId, setSelectedMenuId] = useState<number | null>(null);
+  const [loadedMenuId, setLoadedMenuId] = useState<number | null>(null);
+  const [hoursRouting, setHoursRouting] = useState<IvrHoursRouting>({});
 
-  const { data: menuData, isLoading } = useQuery<{ success: boolean; menu: IvrMenu }>({
-    queryKey: ['/api/admin/ivr/menu'],
+  const { data: flowData, isLoading } = useQuery<Omit<IvrFlowData, 'menus'> & { menus: IvrMenu[] }>({
+    queryKey: [IVR_FLOW_QUERY_KEY],
   });
 
+  const menus = flowData?.menus || [];
+  const activeMenu = menus.find(menu => menu.id === selectedMenuId) ?? menus.find(menu => menu.key === 'main');
+
   const { data: actionTypesData } = useQuery<{ success: boolean; actionTypes: ActionTypeInfo[] }>({
     queryKey: ['/api/admin/ivr/action-types'],
   });
@@ -163,12 +184,14 @@ export default function AdminIvrConfig() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: MenuFormData) => {
-      return await apiRequest('PUT', '/api/admin/ivr/menu', data);
+    mutationFn: async (data: MenuFormData & { hoursRouting: IvrHoursRouting }) => {
+      return await apiRequest('PUT', `/api/admin/ivr/menus/${activeMenu!.id}`, data);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/ivr/menu'] });
       setHasChanges(false);
+      setLoadedMenuId(null);
       toast({
         title: 'IVR Menu Updated',
         description: 'Your phone menu settings have been saved.',
@@ -177,7 +200,27 @@ export default function AdminIvrConfig() {
     onError: (error: any) => {
       toast({
         title: 'Update Failed',
-        description: error.message || 'Failed to save IVR settings.',
+        description: describeIvrError(error, 'Failed to save IVR settings.'),
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMenuMutation = useMutation({
+    mutationFn: async (menuId: number) => {
+      return await apiRequest('DELETE', `/api/admin/ivr/menus/${menuId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
+      setHasChanges(false);
+      setSelectedMenuId(null);
+      setLoadedMenuId(null);
+      toast({ title: 'Menu Deleted' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Delete Failed',
+        description: describeIvrError(error, 'Failed to delete menu.'),
         variant: 'destructive',
       });
     },
@@ -188,8 +231,11 @@ export default function AdminIvrConfig() {
       return await apiRequest('POST', '/api/admin/ivr/menu/reset');
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [IVR_FLOW_QUERY_KEY] });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/ivr/menu'] });
       setHasChanges(false);
+      setSelectedMenuId(null);
+      setLoadedMenuId(null);
       toast({
         title: 'IVR Menu Reset',
         description: 'Your phone menu has been reset to default settings.',
@@ -204,16 +250,18 @@ export default function AdminIvrConfig() {
     },
   });
 
-  if (menuData?.menu && localItems.length === 0 && !hasChanges) {
-    setLocalItems(menuData.menu.items);
+  if (activeMenu && loadedMenuId !== activeMenu.id && !hasChanges) {
+    setLoadedMenuId(activeMenu.id);
+    setLocalItems(activeMenu.items);
+    setHoursRouting(activeMenu.hoursRouting || {});
     form.reset({
-      name: menuData.menu.name,
-      greetingText: menuData.menu.greetingText,
-      noInputMessage: menuData.menu.noInputMessage,
-      invalidInputMessage: menuData.menu.invalidInputMessage,
-      voiceName: menuData.menu.voiceName,
-      maxAttempts: menuData.menu.maxAttempts,
-      items: menuData.menu.items,
+      name: activeMenu.name,
+      greetingText: activeMenu.greetingText,
+      noInputMessage: activeMenu.noInputMessage,
+      invalidInputMessage: activeMenu.invalidInputMessage,
+      voiceName: activeMenu.voiceName,
+      maxAttempts: activeMenu.maxAttempts,
+      items: activeMenu.items,
     });
   }
 
@@ -221,11 +269,30 @@ export default function AdminIvrConfig() {
     const formValues = form.getValues();
     const dataToSave = {
       ...formValues,
+      hoursRouting,
       items: localItems,
     };
     updateMutation.mutate(dataToSave);
   };
 
+  const handleSelectMenu = (menuId: number) => {
+    if (menuId === activeMenu?.id) return;
+    if (hasChanges) {
+      toast({
+        title: 'Unsaved Changes',
+        description: 'Save this menu before switching to another one.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSelectedMenuId(menuId);
+  };
+
+  const handleHoursRoutingChange = (value: IvrHoursRouting) => {
+    setHoursRouting(value);
+    setHasChanges(true);
+  };
+
   const handleAddItem = () => {
     setEditingItemIndex(null);
     setItemDialogOpen(true);
@@ -293,19 +360,67 @@ export default function AdminIvrConfig() {
           )}
         </div>
 
+        <div className="mb-6">
+          <IvrFlowMap
+            menus={menus}
+            edges={flowData?.edges || []}
+            selectedMenuId={activeMenu?.id ?? null}
+            onSelect={handleSelectMenu}
+          />
+        </div>
+
         <Form {...form}>
           <form className="space-y-6">
             <Card>
               <CardHeader className="pb-3">
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <Volume2 className="h-5 w-5" />
-                  Greeting & Voice
-                </CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Volume2 className="h-5 w-5" />
+                    {activeMenu && activeMenu.key !== 'main' ? activeMenu.name : 'Greeting & Voice'}
+                  </CardTitle>
+                  {activeMenu && activeMenu.key !== 'main' && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => deleteMenuMutation.mutate(activeMenu.id)}
+                      disabled={deleteMenuMutation.isPending}
+                      data-testid="button-delete-menu"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete Menu
+                    </Button>
+                  )}
+                </div>
                 <CardDescription>
                   The message callers hear when they first call
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {activeMenu && activeMenu.key !== 'main' && (
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Menu Name</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            data-testid="input-menu-name-edit"
+                            onChange={(e) => {
+                              field.onChange(e);
+                              setHasChanges(true);
+                            }}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="greetingText"
@@ -538,9 +653,23 @@ export default function AdminIvrConfig() {
                 )}
               </CardContent>
             </Card>
+
+            {activeMenu && (
+              <HoursRoutingCard
+                menuId={activeMenu.id}
+                menus={menus}
+                value={hoursRouting}
+                onChange={handleHoursRoutingChange}
+              />
+            )}
           </form>
         </Form>
 
+        <div className="space-y-6 mt-6">
+          <VoicemailBoxesCard voicemailBoxes={flowData?.voicemailBoxes || []} staff={flowData?.staff || []} />
+          <TestCallCard menus={menus} selectedMenuId={activeMenu?.id ?? null} />
+        </div>
+
         <div className="fixed bottom-0 left-0 right-0 p-4 bg-background/95 backdrop-blur border-t">
           <div className="container max-w-2xl mx-auto flex gap-3">
             <AlertDialog>
@@ -598,6 +727,8 @@ export default function AdminIvrConfig() {
           item={editingItemIndex !== null ? localItems[editingItemIndex] : null}
           availableDigits={availableDigits}
           actionTypes={actionTypesData?.actionTypes || []}
+          submenus={menus.filter(menu => menu.id !== activeMenu?.id)}
+          voicemailBoxes={flowData?.voicemailBoxes || []}
           onSave={handleSaveItem}
         />
       </div>
@@ -611,10 +742,12 @@ interface MenuItemDialogProps {
   item: IvrMenuItem | null;
   availableDigits: string[];
   actionTypes: ActionTypeInfo[];
+  submenus: IvrMenu[];
+  voicemailBoxes: IvrVoicemailBox[];
   onSave: (item: IvrMenuItem) => void;
 }
 
-function MenuItemDialog({ open, onOpenChange, item, availableDigits, actionTypes, onSave }: MenuItemDialogProps) {
+function MenuItemDialog({ open, onOpenChange, item, availableDigits, actionTypes, submenus, voicemailBoxes, onSave }: MenuItemDialogProps) {
   const [digit, setDigit] = useState(item?.digit || '');
   const [label, setLabel] = useState(item?.label || '');
   const [actionType, setActionType] = useState<IvrActionType>(item?.actionType || 'PLAY_MESSAGE');
@@ -734,6 +867,24 @@ function MenuItemDialog({ open, onOpenChange, item, availableDigits, actionTypes
                       />
                       <span className="text-sm text-muted-foreground">{field.description}</span>
                     </div>
+                  ) : field.type === 'menu' || field.type === 'voicemailBox' ? (
+                    <Select
+                      value={payload[field.name] ? String(payload[field.name]) : 'none'}
+                      onValueChange={(v) => {
+                        const { [field.name]: _removed, ...rest } = payload;
+                        setPayload(v === 'none' ? rest : { ...rest, [field.name]: parseInt(v) });
+                      }}
+                    >
+                      <SelectTrigger className="mt-1" data-testid={`select-payload-${field.name}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">{field.type === 'menu' ? 'Choose a menu' : 'Line voicemail'}</SelectItem>
+                        {(field.type === 'menu' ? submenus : voicemailBoxes).map(option => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   ) : field.type === 'text' ? (
                     <Textarea
                       id={field.name}
@@ -0,0 +1,313 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { AppShell } from '@/components/AppShell';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { FileText, RefreshCw, Search, Trash2, Upload } from 'lucide-react';
+import { KNOWLEDGE_SOURCE_LABELS, type KnowledgeHit } from '@shared/knowledgeBase';
+
+interface KnowledgeDocumentRow {
+  id: number;
+  title: string;
+  fileName: string | null;
+  enabled: boolean;
+  characters: number;
+  chunks: number;
+  createdAt: string;
+}
+
+const DOCUMENTS_KEY = ['/api/admin/knowledge-base/documents'];
+
+export default function AdminKnowledgeBase() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [pasted, setPasted] = useState({ title: '', content: '' });
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<KnowledgeHit[] | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; documents: KnowledgeDocumentRow[] }>({
+    queryKey: DOCUMENTS_KEY,
+  });
+  const documents = data?.documents ?? [];
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || 'Please try again', variant: 'destructive' });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/admin/knowledge-base/documents', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Upload failed');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+      toast({ title: 'Document added', description: 'The AI assistant can use it right away.' });
+    },
+    onError: onError('Error uploading document'),
+    onSettled: () => {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    },
+  });
+
+  const pasteMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/admin/knowledge-base/documents', {
+      title: pasted.title.trim(),
+      content: pasted.content.trim(),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+      setIsPasteOpen(false);
+      setPasted({ title: '', content: '' });
+      toast({ title: 'Document added' });
+    },
+    onError: onError('Error adding document'),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) =>
+      apiRequest('PATCH', `/api/admin/knowledge-base/documents/${id}`, { enabled }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY }),
+    onError: onError('Error updating document'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/admin/knowledge-base/documents/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_KEY });
+      toast({ title: 'Document removed' });
+    },
+    onError: onError('Error removing document'),
+  });
+
+  const reindexMutation = useMutation({
+    mutationFn: async () => (await apiRequest('POST', '/api/admin/knowledge-base/reindex')).json(),
+    onSuccess: (result: { chunks: number }) => {
+      toast({ title: 'Knowledge base rebuilt', description: `${result.chunks} passages indexed.` });
+    },
+    onError: onError('Error rebuilding knowledge base'),
+  });
+
+  const searchMutation = useMutation({
+    mutationFn: async () =>
+      (await apiRequest('GET', `/api/admin/knowledge-base/search?q=${encodeURIComponent(query.trim())}`)).json(),
+    onSuccess: (result: { hits: KnowledgeHit[] }) => setHits(result.hits),
+    onError: onError('Error searching knowledge base'),
+  });
+
+  return (
+    <AppShell>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white" data-testid="page-title">Knowledge Base</h1>
+            <p className="text-gray-400">
+              FAQs, services, add-ons, your business profile and the documents below. The AI assistant looks up the relevant parts for each message.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => reindexMutation.mutate()}
+            disabled={reindexMutation.isPending}
+            data-testid="button-reindex"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Rebuild
+          </Button>
+        </div>
+
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-white">Documents</CardTitle>
+              <CardDescription>Policies, price sheets and other notes. Plain text, Markdown or CSV, up to 2MB.</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.md,.markdown,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadMutation.mutate(file);
+                }}
+                data-testid="input-document-file"
+              />
+              <Button variant="outline" className="gap-2" onClick={() => setIsPasteOpen(true)} data-testid="button-paste-document">
+                <FileText className="h-4 w-4" />
+                Paste Text
+              </Button>
+              <Button
+                className="gap-2"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploadMutation.isPending}
+                data-testid="button-upload-document"
+              >
+                <Upload className="h-4 w-4" />
+                Upload
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-gray-400">Loading documents...</p>
+            ) : documents.length === 0 ? (
+              <p className="text-gray-400">No documents yet. The assistant still answers from your FAQs, services and business profile.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Used by AI</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {documents.map((document) => (
+                    <TableRow key={document.id} data-testid={`row-document-${document.id}`}>
+                      <TableCell>
+                        <div className="font-medium text-white">{document.title}</div>
+                        {document.fileName && <div className="text-xs text-gray-500">{document.fileName}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-400">
+                        {document.characters.toLocaleString()} characters, {document.chunks} passages
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={document.enabled}
+                          onCheckedChange={(enabled) => toggleMutation.mutate({ id: document.id, enabled })}
+                          data-testid={`switch-document-${document.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          onClick={() => {
+                            if (confirm(`Delete "${document.title}"?`)) deleteMutation.mutate(document.id);
+                          }}
+                          data-testid={`button-delete-document-${document.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-white">Test a question</CardTitle>
+            <CardDescription>See which passages the assistant would be given for a customer message.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (query.trim()) searchMutation.mutate();
+              }}
+            >
+              <Input
+                placeholder="Do you get pet hair out of seats?"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                data-testid="input-search-query"
+              />
+              <Button type="submit" className="gap-2" disabled={!query.trim() || searchMutation.isPending} data-testid="button-search">
+                <Search className="h-4 w-4" />
+                Search
+              </Button>
+            </form>
+            {hits !== null && (
+              hits.length === 0 ? (
+                <p className="text-gray-400">Nothing matched. The assistant would answer without extra knowledge.</p>
+              ) : (
+                <div className="space-y-3">
+                  {hits.map((hit) => (
+                    <div key={hit.chunk.id} className="rounded-md border border-gray-800 p-3" data-testid={`hit-${hit.chunk.id}`}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Badge variant="secondary">{KNOWLEDGE_SOURCE_LABELS[hit.chunk.source]}</Badge>
+                        <span className="font-medium text-white">{hit.chunk.title}</span>
+                        <span className="ml-auto text-xs text-gray-500">score {hit.score.toFixed(2)}</span>
+                      </div>
+                      <p className="text-sm text-gray-300">{hit.chunk.text}</p>
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={isPasteOpen} onOpenChange={setIsPasteOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Add document</DialogTitle>
+              <DialogDescription>Paste a policy, price sheet or anything else customers ask about.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="document-title">Title</Label>
+                <Input
+                  id="document-title"
+                  placeholder="Cancellation policy"
+                  value={pasted.title}
+                  onChange={(e) => setPasted({ ...pasted, title: e.target.value })}
+                  data-testid="input-document-title"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="document-content">Content</Label>
+                <Textarea
+                  id="document-content"
+                  rows={10}
+                  value={pasted.content}
+                  onChange={(e) => setPasted({ ...pasted, content: e.target.value })}
+                  data-testid="input-document-content"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsPasteOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => pasteMutation.mutate()}
+                disabled={!pasted.title.trim() || !pasted.content.trim() || pasteMutation.isPending}
+                data-testid="button-save-document"
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppShell>
+  );
+}
@@ -14,6 +14,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { SegmentSelect } from '@/components/segments/SegmentSelect';
 import { 
   Phone, 
   Mail, 
@@ -126,6 +127,7 @@ export default function AdminPortRecovery() {
   const [ctaUrl, setCtaUrl] = useState('');
   const [smsEnabled, setSmsEnabled] = useState(true);
   const [emailEnabled, setEmailEnabled] = useState(true);
+  const [segmentId, setSegmentId] = useState<number | null>(null);
 
   const { data: previewData, isLoading: previewLoading, refetch: refetchPreview } = useQuery<AdminPreviewData>({
     queryKey: ['/api/port-recovery/admin/preview'],
@@ -161,6 +163,7 @@ export default function AdminPortRecovery() {
       setCtaUrl(c.ctaUrl || 'https://cleanmachinetulsa.com/book');
       setSmsEnabled(c.smsEnabled !== false);
       setEmailEnabled(c.emailEnabled !== false);
+      setSegmentId(c.segmentId ?? null);
     }
   }, [campaignConfigData]);
 
@@ -290,6 +293,7 @@ export default function AdminPortRecovery() {
         ctaUrl,
         smsEnabled,
         emailEnabled,
+        segmentId,
       });
     },
     onSuccess: () => {
@@ -786,6 +790,20 @@ export default function AdminPortRecovery() {
                         </div>
                       </div>
                       
+                      {/* Audience */}
+                      <div className="space-y-2">
+                        <Label className="text-sm text-gray-300 flex items-center gap-2">
+                          <Users className="h-3 w-3" />
+                          Customer Segment
+                        </Label>
+                        <SegmentSelect
+                          value={segmentId}
+                          onChange={setSegmentId}
+                          noneLabel="All customers and conversation contacts"
+                          testId="select-port-recovery-segment"
+                        />
+                      </div>
+                      
                       {/* CTA URL */}
                       <div className="space-y-2">
                         <Label className="text-sm text-gray-300 flex items-center gap-2">
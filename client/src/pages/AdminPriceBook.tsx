@@ -0,0 +1,433 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { AppShell } from '@/components/AppShell';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, Trash2, Save } from 'lucide-react';
+import {
+  CONDITION_PRESETS,
+  VEHICLE_CLASSES,
+  VEHICLE_CLASS_LABELS,
+  formatPrice,
+  type PriceAdjustmentType,
+  type PriceModifierKind,
+  type PriceModifierRule,
+  type TaxSettings,
+} from '@shared/priceBook';
+
+interface PriceBookData {
+  services: Array<{ id: number; name: string; priceRange: string; basePrice: number | null; isActive: boolean }>;
+  modifiers: Array<PriceModifierRule & { id: number; isActive: boolean; sortOrder: number }>;
+  addOns: Array<{ id: number; name: string; category: string | null; price: number }>;
+  tax: TaxSettings;
+}
+
+interface ModifierForm {
+  kind: PriceModifierKind;
+  key: string;
+  label: string;
+  adjustmentType: PriceAdjustmentType;
+  amount: string;
+  serviceId: string; // 'all' or a service id
+  isActive: boolean;
+}
+
+const defaultForm: ModifierForm = {
+  kind: 'vehicle_class',
+  key: 'suv',
+  label: 'SUV upcharge',
+  adjustmentType: 'flat',
+  amount: '',
+  serviceId: 'all',
+  isActive: true,
+};
+
+const PRICE_BOOK_KEY = ['/api/admin/price-book'];
+
+function describeAdjustment(modifier: PriceModifierRule): string {
+  return modifier.adjustmentType === 'percent'
+    ? `${modifier.amount > 0 ? '+' : ''}${modifier.amount}%`
+    : `${modifier.amount > 0 ? '+' : ''}${formatPrice(modifier.amount)}`;
+}
+
+export default function AdminPriceBook() {
+  const { toast } = useToast();
+  const [basePrices, setBasePrices] = useState<Record<number, string>>({});
+  const [tax, setTax] = useState({ rate: '', label: '', reducedRate: '' });
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ModifierForm>(defaultForm);
+
+  const { data, isLoading } = useQuery<{ success: boolean; priceBook: PriceBookData }>({
+    queryKey: PRICE_BOOK_KEY,
+  });
+  const priceBook = data?.priceBook;
+
+  useEffect(() => {
+    if (!priceBook) return;
+    setBasePrices(Object.fromEntries(
+      priceBook.services.map((service) => [service.id, service.basePrice !== null ? String(service.basePrice) : ''])
+    ));
+    setTax({ rate: String(priceBook.tax.rate), label: priceBook.tax.label, reducedRate: String(priceBook.tax.reducedRate ?? 0) });
+  }, [priceBook]);
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message || 'Please try again', variant: 'destructive' });
+  };
+
+  const servicePriceMutation = useMutation({
+    mutationFn: ({ serviceId, basePrice }: { serviceId: number; basePrice: number }) =>
+      apiRequest('PUT', `/api/admin/price-book/services/${serviceId}`, { basePrice }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      toast({ title: 'Base price saved' });
+    },
+    onError: onError('Error saving price'),
+  });
+
+  const taxMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', '/api/admin/price-book/tax', {
+      salesTaxRate: parseFloat(tax.rate) || 0,
+      salesTaxLabel: tax.label.trim() || undefined,
+      reducedTaxRate: parseFloat(tax.reducedRate) || 0,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      toast({ title: 'Tax settings saved' });
+    },
+    onError: onError('Error saving tax settings'),
+  });
+
+  const saveModifierMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        kind: form.kind,
+        key: form.key.trim(),
+        label: form.label.trim(),
+        adjustmentType: form.adjustmentType,
+        amount: parseFloat(form.amount),
+        serviceId: form.serviceId === 'all' ? null : parseInt(form.serviceId, 10),
+        isActive: form.isActive,
+      };
+      return editingId === null
+        ? apiRequest('POST', '/api/admin/price-book/modifiers', body)
+        : apiRequest('PATCH', `/api/admin/price-book/modifiers/${editingId}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      setIsEditorOpen(false);
+      toast({ title: 'Modifier saved', description: 'New estimates use it immediately.' });
+    },
+    onError: onError('Error saving modifier'),
+  });
+
+  const deleteModifierMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/admin/price-book/modifiers/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRICE_BOOK_KEY });
+      toast({ title: 'Modifier removed' });
+    },
+    onError: onError('Error removing modifier'),
+  });
+
+  const handleOpenCreate = () => {
+    setForm(defaultForm);
+    setEditingId(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleOpenEdit = (modifier: PriceBookData['modifiers'][number]) => {
+    setForm({
+      kind: modifier.kind,
+      key: modifier.key,
+      label: modifier.label,
+      adjustmentType: modifier.adjustmentType,
+      amount: String(modifier.amount),
+      serviceId: modifier.serviceId === null ? 'all' : String(modifier.serviceId),
+      isActive: modifier.isActive,
+    });
+    setEditingId(modifier.id);
+    setIsEditorOpen(true);
+  };
+
+  const serviceName = (serviceId: number | null) =>
+    serviceId === null ? 'All services' : priceBook?.services.find((s) => s.id === serviceId)?.name ?? `Service #${serviceId}`;
+
+  return (
+    <AppShell>
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white" data-testid="page-title">Price Book</h1>
+          <p className="text-gray-400">Base prices, vehicle size and condition adjustments, add-ons and tax used for every estimate</p>
+        </div>
+
+        {isLoading || !priceBook ? (
+          <p className="text-gray-400">Loading price book...</p>
+        ) : (
+          <>
+            <Card className="bg-gray-900/50 border-gray-800">
+              <CardHeader>
+                <CardTitle className="text-white">Services</CardTitle>
+                <CardDescription>Services without a base price keep showing their price range text and aren't itemized.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Service</TableHead>
+                      <TableHead>Price range (legacy)</TableHead>
+                      <TableHead>Base price</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {priceBook.services.map((service) => (
+                      <TableRow key={service.id} data-testid={`row-service-${service.id}`}>
+                        <TableCell className="font-medium text-white">{service.name}</TableCell>
+                        <TableCell className="text-sm text-gray-400">{service.priceRange}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            className="w-32"
+                            placeholder="Not set"
+                            value={basePrices[service.id] ?? ''}
+                            onChange={(e) => setBasePrices({ ...basePrices, [service.id]: e.target.value })}
+                            data-testid={`input-base-price-${service.id}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Save"
+                            disabled={!basePrices[service.id] || servicePriceMutation.isPending}
+                            onClick={() => servicePriceMutation.mutate({
+                              serviceId: service.id,
+                              basePrice: parseFloat(basePrices[service.id]),
+                            })}
+                            data-testid={`button-save-price-${service.id}`}
+                          >
+                            <Save className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 border-gray-800">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="text-white">Modifiers</CardTitle>
+                  <CardDescription>Percentages apply to the service's base price. A service-specific modifier overrides the all-services one.</CardDescription>
+                </div>
+                <Button onClick={handleOpenCreate} className="gap-2" data-testid="button-create-modifier">
+                  <Plus className="h-4 w-4" />
+                  New Modifier
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {priceBook.modifiers.length === 0 ? (
+                  <p className="text-gray-400">No modifiers yet. Every vehicle is charged the base price.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Modifier</TableHead>
+                        <TableHead>Applies to</TableHead>
+                        <TableHead>Adjustment</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {priceBook.modifiers.map((modifier) => (
+                        <TableRow key={modifier.id} data-testid={`row-modifier-${modifier.id}`}>
+                          <TableCell>
+                            <div className="font-medium text-white">{modifier.label}</div>
+                            <div className="text-xs text-gray-400 font-mono">
+                              {modifier.kind === 'vehicle_class' ? 'vehicle' : 'condition'}: {modifier.key}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-300">{serviceName(modifier.serviceId)}</TableCell>
+                          <TableCell className="text-sm text-gray-300">{describeAdjustment(modifier)}</TableCell>
+                          <TableCell>
+                            <Badge variant={modifier.isActive ? 'default' : 'secondary'}>
+                              {modifier.isActive ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" title="Edit" onClick={() => handleOpenEdit(modifier)} data-testid={`button-edit-modifier-${modifier.id}`}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="icon" title="Delete" onClick={() => deleteModifierMutation.mutate(modifier.id)} data-testid={`button-delete-modifier-${modifier.id}`}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card className="bg-gray-900/50 border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-white">Add-ons</CardTitle>
+                  <CardDescription>Priced from your service add-on catalog.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {priceBook.addOns.length === 0 ? (
+                    <p className="text-gray-400">No active add-ons.</p>
+                  ) : (
+                    priceBook.addOns.map((addOn) => (
+                      <div key={addOn.id} className="flex justify-between text-sm text-gray-300">
+                        <span>{addOn.name}</span>
+                        <span>{formatPrice(addOn.price)}</span>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-gray-900/50 border-gray-800">
+                <CardHeader>
+                  <CardTitle className="text-white">Sales tax</CardTitle>
+                  <CardDescription>Added to the estimate subtotal. Leave at 0 if you don't charge tax. Invoice lines can use the reduced rate or be exempt.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="tax-rate">Rate (%)</Label>
+                      <Input id="tax-rate" type="number" min={0} max={25} step="0.001" value={tax.rate} onChange={(e) => setTax({ ...tax, rate: e.target.value })} data-testid="input-tax-rate" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="tax-label">Label</Label>
+                      <Input id="tax-label" value={tax.label} onChange={(e) => setTax({ ...tax, label: e.target.value })} data-testid="input-tax-label" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="tax-reduced-rate">Reduced rate (%)</Label>
+                      <Input id="tax-reduced-rate" type="number" min={0} max={25} step="0.001" value={tax.reducedRate} onChange={(e) => setTax({ ...tax, reducedRate: e.target.value })} data-testid="input-tax-reduced-rate" />
+                    </div>
+                  </div>
+                  <Button onClick={() => taxMutation.mutate()} disabled={taxMutation.isPending} data-testid="button-save-tax">
+                    Save tax settings
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+
+        <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingId === null ? 'New modifier' : 'Edit modifier'}</DialogTitle>
+              <DialogDescription>Adjust the price for a vehicle size or a condition like pet hair.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.kind}
+                    onValueChange={(kind: PriceModifierKind) => setForm({
+                      ...form,
+                      kind,
+                      key: kind === 'vehicle_class' ? 'suv' : CONDITION_PRESETS[0].key,
+                      label: kind === 'vehicle_class' ? 'SUV upcharge' : CONDITION_PRESETS[0].label,
+                    })}
+                  >
+                    <SelectTrigger data-testid="select-modifier-kind"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="vehicle_class">Vehicle size</SelectItem>
+                      <SelectItem value="condition">Condition</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="modifier-key">{form.kind === 'vehicle_class' ? 'Vehicle class' : 'Condition key'}</Label>
+                  {form.kind === 'vehicle_class' ? (
+                    <Select value={form.key} onValueChange={(key) => setForm({ ...form, key })}>
+                      <SelectTrigger id="modifier-key" data-testid="select-vehicle-class"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {VEHICLE_CLASSES.map((vehicleClass) => (
+                          <SelectItem key={vehicleClass} value={vehicleClass}>{VEHICLE_CLASS_LABELS[vehicleClass]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input id="modifier-key" placeholder="pet_hair" value={form.key} onChange={(e) => setForm({ ...form, key: e.target.value })} data-testid="input-condition-key" />
+                  )}
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="modifier-label">Label on estimates</Label>
+                <Input id="modifier-label" value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} data-testid="input-modifier-label" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label>Adjustment</Label>
+                  <Select value={form.adjustmentType} onValueChange={(adjustmentType: PriceAdjustmentType) => setForm({ ...form, adjustmentType })}>
+                    <SelectTrigger data-testid="select-adjustment-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="flat">Flat amount ($)</SelectItem>
+                      <SelectItem value="percent">Percent of base (%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="modifier-amount">Amount</Label>
+                  <Input id="modifier-amount" type="number" step="0.01" value={form.amount} onChange={(e) => setForm({ ...form, amount: e.target.value })} data-testid="input-modifier-amount" />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Applies to</Label>
+                <Select value={form.serviceId} onValueChange={(serviceId) => setForm({ ...form, serviceId })}>
+                  <SelectTrigger data-testid="select-modifier-service"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All services</SelectItem>
+                    {priceBook?.services.map((service) => (
+                      <SelectItem key={service.id} value={String(service.id)}>{service.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="modifier-active" checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+                <Label htmlFor="modifier-active">Active</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsEditorOpen(false)}>Cancel</Button>
+              <Button
+                onClick={() => saveModifierMutation.mutate()}
+                disabled={!form.key.trim() || !form.label.trim() || form.amount === '' || saveModifierMutation.isPending}
+                data-testid="button-save-modifier"
+              >
+                Save
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppShell>
+  );
+}
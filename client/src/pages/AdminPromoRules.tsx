@@ -0,0 +1,505 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { AppShell } from '@/components/AppShell';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Edit, Trash2, FlaskConical } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  LOYALTY_TIERS,
+  type PromoAwardMode,
+  type PromoDryRunResult,
+  type PromoRuleDefinition,
+} from '@shared/promoRules';
+
+interface PromoRule extends PromoRuleDefinition {
+  id: number | null;
+  builtIn: boolean;
+}
+
+interface RuleForm {
+  promoKey: string;
+  name: string;
+  description: string;
+  defaultPoints: string;
+  perCustomerLifetimeMax: string;
+  perCustomerPerYearMax: string;
+  perHouseholdPerYearMax: string;
+  awardMode: PromoAwardMode;
+  minCompletedJobs: string;
+  loyaltyTiers: string[];
+  lastVisitOlderThanDays: string;
+  lastVisitWithinDays: string;
+  validFrom: string;
+  validUntil: string;
+  isActive: boolean;
+}
+
+const defaultForm: RuleForm = {
+  promoKey: '',
+  name: '',
+  description: '',
+  defaultPoints: '',
+  perCustomerLifetimeMax: '',
+  perCustomerPerYearMax: '',
+  perHouseholdPerYearMax: '',
+  awardMode: 'immediate',
+  minCompletedJobs: '',
+  loyaltyTiers: [],
+  lastVisitOlderThanDays: '',
+  lastVisitWithinDays: '',
+  validFrom: '',
+  validUntil: '',
+  isActive: true,
+};
+
+const REASON_LABELS: Record<string, string> = {
+  promo_inactive: 'Rule inactive',
+  outside_validity_window: 'Outside validity window',
+  customer_limit: 'Customer cap reached',
+  household_limit: 'Household cap reached',
+  no_completed_jobs: 'Not enough completed jobs',
+  loyalty_tier: 'Loyalty tier',
+  visited_too_recently: 'Visited too recently',
+  no_recent_visit: 'No recent visit',
+};
+
+const toInput = (value: number | null | undefined) => (value ? String(value) : '');
+const toNumber = (value: string) => (value.trim() ? parseInt(value, 10) : undefined);
+const toDateInput = (value: Date | string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+
+function formFromRule(rule: PromoRule): RuleForm {
+  return {
+    promoKey: rule.promoKey,
+    name: rule.name,
+    description: rule.description ?? '',
+    defaultPoints: toInput(rule.defaultPoints),
+    perCustomerLifetimeMax: toInput(rule.perCustomerLifetimeMax),
+    perCustomerPerYearMax: toInput(rule.perCustomerPerYearMax),
+    perHouseholdPerYearMax: toInput(rule.perHouseholdPerYearMax),
+    awardMode: rule.awardMode,
+    minCompletedJobs: toInput(rule.eligibility.minCompletedJobs),
+    loyaltyTiers: rule.eligibility.loyaltyTiers ?? [],
+    lastVisitOlderThanDays: toInput(rule.eligibility.lastVisitOlderThanDays),
+    lastVisitWithinDays: toInput(rule.eligibility.lastVisitWithinDays),
+    validFrom: toDateInput(rule.validFrom),
+    validUntil: toDateInput(rule.validUntil),
+    isActive: rule.isActive,
+  };
+}
+
+function ruleFromForm(form: RuleForm) {
+  return {
+    promoKey: form.promoKey.trim(),
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    defaultPoints: toNumber(form.defaultPoints) ?? null,
+    perCustomerLifetimeMax: toNumber(form.perCustomerLifetimeMax) ?? null,
+    perCustomerPerYearMax: toNumber(form.perCustomerPerYearMax) ?? null,
+    perHouseholdPerYearMax: toNumber(form.perHouseholdPerYearMax) ?? null,
+    awardMode: form.awardMode,
+    eligibility: {
+      minCompletedJobs: toNumber(form.minCompletedJobs),
+      loyaltyTiers: form.loyaltyTiers.length > 0 ? form.loyaltyTiers : undefined,
+      lastVisitOlderThanDays: toNumber(form.lastVisitOlderThanDays),
+      lastVisitWithinDays: toNumber(form.lastVisitWithinDays),
+    },
+    validFrom: form.validFrom || null,
+    validUntil: form.validUntil || null,
+    isActive: form.isActive,
+  };
+}
+
+function describeEligibility(rule: PromoRule): string {
+  const parts: string[] = [];
+  const { eligibility } = rule;
+  if (eligibility.minCompletedJobs) parts.push(`${eligibility.minCompletedJobs}+ completed jobs`);
+  if (eligibility.loyaltyTiers?.length) parts.push(`tier: ${eligibility.loyaltyTiers.join(', ')}`);
+  if (eligibility.lastVisitOlderThanDays) parts.push(`no visit in ${eligibility.lastVisitOlderThanDays}d`);
+  if (eligibility.lastVisitWithinDays) parts.push(`visited within ${eligibility.lastVisitWithinDays}d`);
+  return parts.length > 0 ? parts.join(' · ') : 'All loyalty members';
+}
+
+function describeCaps(rule: PromoRule): string {
+  const parts: string[] = [];
+  if (rule.perCustomerLifetimeMax) parts.push(`${rule.perCustomerLifetimeMax}/lifetime`);
+  if (rule.perCustomerPerYearMax) parts.push(`${rule.perCustomerPerYearMax}/yr`);
+  if (rule.perHouseholdPerYearMax) parts.push(`${rule.perHouseholdPerYearMax}/household/yr`);
+  return parts.length > 0 ? parts.join(', ') : 'No caps';
+}
+
+export default function AdminPromoRules() {
+  const { toast } = useToast();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isNewRule, setIsNewRule] = useState(true);
+  const [form, setForm] = useState<RuleForm>(defaultForm);
+  const [dryRun, setDryRun] = useState<PromoDryRunResult | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; rules: PromoRule[] }>({
+    queryKey: ['/api/admin/promo-rules'],
+  });
+  const rules = data?.rules || [];
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: ReturnType<typeof ruleFromForm>) => apiRequest('PUT', '/api/admin/promo-rules', rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promo-rules'] });
+      setIsEditorOpen(false);
+      toast({ title: 'Promo rule saved', description: 'The rule applies to new promo awards immediately.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error saving rule', description: error.message || 'Failed to save promo rule', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (promoKey: string) => apiRequest('DELETE', `/api/admin/promo-rules/${encodeURIComponent(promoKey)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/promo-rules'] });
+      toast({ title: 'Promo rule removed' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error removing rule', description: error.message || 'Failed to remove promo rule', variant: 'destructive' });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (body: { promoKey?: string; draft?: ReturnType<typeof ruleFromForm> }) => {
+      const res = await apiRequest('POST', '/api/admin/promo-rules/dry-run', body);
+      return (await res.json()) as { success: boolean; result: PromoDryRunResult };
+    },
+    onSuccess: (response) => setDryRun(response.result),
+    onError: (error: any) => {
+      toast({ title: 'Dry run failed', description: error.message || 'Failed to evaluate promo rule', variant: 'destructive' });
+    },
+  });
+
+  const handleOpenCreate = () => {
+    setForm(defaultForm);
+    setIsNewRule(true);
+    setIsEditorOpen(true);
+  };
+
+  const handleOpenEdit = (rule: PromoRule) => {
+    setForm(formFromRule(rule));
+    setIsNewRule(false);
+    setIsEditorOpen(true);
+  };
+
+  const toggleTier = (tier: string) => {
+    setForm({
+      ...form,
+      loyaltyTiers: form.loyaltyTiers.includes(tier)
+        ? form.loyaltyTiers.filter(t => t !== tier)
+        : [...form.loyaltyTiers, tier],
+    });
+  };
+
+  const numberField = (key: keyof RuleForm, label: string, placeholder = 'No limit') => (
+    <div className="space-y-1">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type="number"
+        min={1}
+        placeholder={placeholder}
+        value={form[key] as string}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        data-testid={`input-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <AppShell>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-white" data-testid="page-title">Loyalty Promo Rules</h1>
+            <p className="text-gray-400">Caps, eligibility and award timing for loyalty point promotions</p>
+          </div>
+          <Button onClick={handleOpenCreate} className="gap-2" data-testid="button-create-rule">
+            <Plus className="h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+
+        <Card className="bg-gray-900/50 border-gray-800">
+          <CardHeader>
+            <CardTitle className="text-white">Rules</CardTitle>
+            <CardDescription>Built-in rules apply until you customise them.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-gray-400">Loading promo rules...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Promo</TableHead>
+                    <TableHead>Eligibility</TableHead>
+                    <TableHead>Caps</TableHead>
+                    <TableHead>Award</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.promoKey} data-testid={`row-rule-${rule.promoKey}`}>
+                      <TableCell>
+                        <div className="font-medium text-white">{rule.name}</div>
+                        <div className="text-xs text-gray-400 font-mono">{rule.promoKey}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-300">{describeEligibility(rule)}</TableCell>
+                      <TableCell className="text-sm text-gray-300">{describeCaps(rule)}</TableCell>
+                      <TableCell className="text-sm text-gray-300">
+                        {rule.awardMode === 'immediate' ? 'Immediate' : 'After next job'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Badge variant={rule.isActive ? 'default' : 'secondary'}>
+                            {rule.isActive ? 'Active' : 'Inactive'}
+                          </Badge>
+                          {rule.builtIn && <Badge variant="outline">Built-in</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Dry run"
+                            onClick={() => dryRunMutation.mutate({ promoKey: rule.promoKey })}
+                            data-testid={`button-dry-run-${rule.promoKey}`}
+                          >
+                            <FlaskConical className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit"
+                            onClick={() => handleOpenEdit(rule)}
+                            data-testid={`button-edit-${rule.promoKey}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {!rule.builtIn && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Remove customisation"
+                              onClick={() => deleteMutation.mutate(rule.promoKey)}
+                              data-testid={`button-delete-${rule.promoKey}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {dryRun && (
+          <Card className="bg-gray-900/50 border-gray-800" data-testid="card-dry-run">
+            <CardHeader>
+              <CardTitle className="text-white">Dry run: {dryRun.promoKey}</CardTitle>
+              <CardDescription>
+                {dryRun.eligible} of {dryRun.evaluated} loyalty members would qualify right now. Nothing was awarded.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {Object.keys(dryRun.ineligibleByReason).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {Object.keys(dryRun.ineligibleByReason).map((reason) => (
+                    <Badge key={reason} variant="outline">
+                      {REASON_LABELS[reason] ?? reason}: {dryRun.ineligibleByReason[reason]}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dryRun.customers.map((customer) => (
+                    <TableRow key={customer.customerId}>
+                      <TableCell className="text-white">{customer.name}</TableCell>
+                      <TableCell>
+                        {customer.eligible
+                          ? <Badge>Qualifies</Badge>
+                          : <span className="text-sm text-gray-400">{REASON_LABELS[customer.reason ?? ''] ?? customer.reason}</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {dryRun.customers.length < dryRun.evaluated && (
+                <p className="text-xs text-gray-500">Showing the first {dryRun.customers.length} customers.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{isNewRule ? 'New Promo Rule' : `Edit ${form.name}`}</DialogTitle>
+              <DialogDescription>Changes apply to new awards. Existing pending awards are unaffected.</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="promoKey">Promo key</Label>
+                <Input
+                  id="promoKey"
+                  placeholder="spring_tuneup_2026"
+                  value={form.promoKey}
+                  disabled={!isNewRule}
+                  onChange={(e) => setForm({ ...form, promoKey: e.target.value.toLowerCase() })}
+                  data-testid="input-promoKey"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  data-testid="input-name"
+                />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="description">Description</Label>
+                <Textarea
+                  id="description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  data-testid="input-description"
+                />
+              </div>
+
+              {numberField('perCustomerLifetimeMax', 'Per customer (lifetime)')}
+              {numberField('perCustomerPerYearMax', 'Per customer (per year)')}
+              {numberField('perHouseholdPerYearMax', 'Per household (per year)')}
+              {numberField('defaultPoints', 'Default points', 'Set by campaign')}
+
+              <div className="col-span-2 space-y-1">
+                <Label>Award mode</Label>
+                <Select
+                  value={form.awardMode}
+                  onValueChange={(value) => setForm({ ...form, awardMode: value as PromoAwardMode })}
+                >
+                  <SelectTrigger data-testid="select-awardMode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="immediate">Award immediately</SelectItem>
+                    <SelectItem value="pending_until_next_completed_job">Hold until next completed job</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="col-span-2 pt-2 border-t border-gray-800">
+                <h3 className="font-medium">Eligibility</h3>
+                <p className="text-xs text-gray-400">Leave blank to allow every loyalty member.</p>
+              </div>
+              {numberField('minCompletedJobs', 'Minimum completed jobs', 'Any')}
+              {numberField('lastVisitOlderThanDays', 'Last visit older than (days)', 'Any')}
+              {numberField('lastVisitWithinDays', 'Last visit within (days)', 'Any')}
+              <div className="space-y-1">
+                <Label>Loyalty tiers</Label>
+                <div className="flex flex-wrap gap-1">
+                  {LOYALTY_TIERS.map((tier) => (
+                    <Button
+                      key={tier}
+                      type="button"
+                      size="sm"
+                      variant={form.loyaltyTiers.includes(tier) ? 'default' : 'outline'}
+                      onClick={() => toggleTier(tier)}
+                      data-testid={`toggle-tier-${tier}`}
+                    >
+                      {tier}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="col-span-2 pt-2 border-t border-gray-800">
+                <h3 className="font-medium">Validity</h3>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="validFrom">Starts</Label>
+                <Input
+                  id="validFrom"
+                  type="date"
+                  value={form.validFrom}
+                  onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                  data-testid="input-validFrom"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="validUntil">Ends</Label>
+                <Input
+                  id="validUntil"
+                  type="date"
+                  value={form.validUntil}
+                  onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                  data-testid="input-validUntil"
+                />
+              </div>
+              <div className="col-span-2 flex items-center gap-2">
+                <Switch
+                  id="isActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                  data-testid="switch-isActive"
+                />
+                <Label htmlFor="isActive">Active</Label>
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => dryRunMutation.mutate({ draft: ruleFromForm(form) })}
+                disabled={dryRunMutation.isPending || !form.promoKey || !form.name}
+                data-testid="button-dry-run-draft"
+              >
+                <FlaskConical className="h-4 w-4" />
+                Dry run
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(ruleFromForm(form))}
+                disabled={saveMutation.isPending || !form.promoKey || !form.name}
+                data-testid="button-save-rule"
+              >
+                Save Rule
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppShell>
+  );
+}
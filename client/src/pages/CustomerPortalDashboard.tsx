@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,6 +10,8 @@ import { apiRequest } from '@/lib/queryClient';
 import { Calendar, Trophy, LogOut, User, Phone, Mail, MapPin, Car, Settings } from 'lucide-react';
 import { format } from 'date-fns';
 import { InstallPromptBanner } from '@/components/PwaComponents';
+import { AppointmentChangeDialog } from '@/components/portal/AppointmentChangeDialog';
+import { CUSTOMER_CHANGEABLE_STATUSES } from '@shared/appointmentChangePolicy';
 
 interface CustomerPortalData {
   customer: {
@@ -61,6 +64,7 @@ export default function CustomerPortalDashboard() {
   const { data, isLoading, error } = useQuery<CustomerPortalData>({
     queryKey: ['/api/portal/me'],
   });
+  const [changing, setChanging] = useState<{ id: number; scheduledTime: Date; mode: 'reschedule' | 'cancel' } | null>(null);
 
   const handleLogout = async () => {
     try {
@@ -217,7 +221,29 @@ export default function CustomerPortalDashboard() {
                         {format(new Date(apt.scheduledTime), 'h:mm a')}
                       </p>
                     </div>
-                    <Badge>{apt.status}</Badge>
+                    <div className="flex items-center gap-2">
+                      <Badge>{apt.status}</Badge>
+                      {CUSTOMER_CHANGEABLE_STATUSES.includes(apt.status) && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setChanging({ id: apt.id, scheduledTime: apt.scheduledTime, mode: 'reschedule' })}
+                            data-testid={`button-reschedule-${apt.id}`}
+                          >
+                            Reschedule
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setChanging({ id: apt.id, scheduledTime: apt.scheduledTime, mode: 'cancel' })}
+                            data-testid={`button-cancel-${apt.id}`}
+                          >
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -232,6 +258,13 @@ export default function CustomerPortalDashboard() {
           </CardContent>
         </Card>
 
+        <AppointmentChangeDialog
+          appointmentId={changing?.id ?? null}
+          scheduledTime={changing?.scheduledTime ?? null}
+          mode={changing?.mode ?? 'reschedule'}
+          onClose={() => setChanging(null)}
+        />
+
         {/* Loyalty Card */}
         <Card data-testid="card-loyalty">
           <CardHeader>
@@ -7,6 +7,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -51,6 +52,18 @@ export default function SchedulingDashboard() {
     },
   });
 
+  // Fetch per-technician utilization for the same week
+  const { data: utilizationData } = useQuery({
+    queryKey: ['/api/admin/technician-utilization', weekStart.toISOString(), weekEnd.toISOString()],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/technician-utilization?startDate=${format(weekStart, 'yyyy-MM-dd')}&endDate=${format(weekEnd, 'yyyy-MM-dd')}`
+      );
+      if (!response.ok) throw new Error('Failed to fetch utilization');
+      return response.json();
+    },
+  });
+
   // Fetch shift templates
   const { data: templatesData } = useQuery({
     queryKey: ['/api/admin/shift-templates'],
@@ -100,6 +113,7 @@ export default function SchedulingDashboard() {
   const shifts = shiftsData?.shifts || [];
   const templates = templatesData?.templates || [];
   const technicians = techniciansData?.technicians || [];
+  const utilization = utilizationData?.utilization || [];
 
   const handleCellClick = (technicianId: number, date: Date) => {
     setSelectedTechnicianId(technicianId.toString());
@@ -270,6 +284,39 @@ export default function SchedulingDashboard() {
         </div>
       </Card>
 
+      {/* Technician utilization */}
+      <Card className="p-4 md:p-6">
+        <h2 className="text-lg md:text-xl font-semibold mb-4">Technician Utilization</h2>
+        {utilization.length === 0 ? (
+          <div className="text-center py-4 text-muted-foreground">
+            No active technicians. Bookings are scheduled against a single calendar.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {utilization.map((u: any) => {
+              const tech = technicians.find((t: any) => t.id === u.technicianId);
+              const percent = Math.round(u.utilization * 100);
+              return (
+                <div key={u.technicianId} className="space-y-1" data-testid={`utilization-tech-${u.technicianId}`}>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{tech?.preferredName || tech?.fullName || `Technician #${u.technicianId}`}</span>
+                    <span className="text-muted-foreground">
+                      {u.jobs}{u.maxJobs !== null ? ` / ${u.maxJobs}` : ''} jobs · {(u.bookedMinutes / 60).toFixed(1)}h of {(u.availableMinutes / 60).toFixed(1)}h
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Progress value={Math.min(percent, 100)} className="h-2 flex-1" />
+                    <Badge variant={percent >= 90 ? 'destructive' : percent >= 60 ? 'default' : 'secondary'}>
+                      {percent}%
+                    </Badge>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+
       {/* Shifts Views */}
       <Card className="p-4 md:p-6">
         <Tabs defaultValue="table" className="w-full">
@@ -0,0 +1,274 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Download, FileArchive, Loader2, Upload } from 'lucide-react';
+import type { AccountingExportFormat, AccountingRecordType } from '@shared/accountingExport';
+
+type RecordCounts = Record<AccountingRecordType, number>;
+
+interface StatusResponse {
+  success: boolean;
+  providers: Array<{ name: string; formats: AccountingExportFormat[] }>;
+  summary: { exported: number; acknowledged: number; lastSyncedAt: string | null };
+}
+
+interface PreviewResponse {
+  success: boolean;
+  preview: { pending: RecordCounts; total: RecordCounts };
+}
+
+interface ExportsResponse {
+  success: boolean;
+  exports: Array<{
+    id: number;
+    format: AccountingExportFormat;
+    periodStart: string | null;
+    periodEnd: string | null;
+    recordCounts: RecordCounts;
+    fileName: string;
+    createdAt: string;
+  }>;
+}
+
+const RECORD_LABELS: Record<AccountingRecordType, string> = {
+  item: 'Items',
+  customer: 'Customers',
+  sales_receipt: 'Sales receipts',
+  refund_receipt: 'Refund receipts',
+};
+
+const FORMAT_LABELS: Record<AccountingExportFormat, string> = {
+  iif: 'QuickBooks Desktop (IIF)',
+  csv: 'CSV journal (Xero, spreadsheets)',
+};
+
+// Pulls the server's { error } out of apiRequest's "409: {...}" message
+function describeError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+function monthStart(offset: number): string {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth() + offset, 1).toISOString().slice(0, 10);
+}
+
+export default function AccountingExportPage() {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [start, setStart] = useState(monthStart(-1));
+  const [end, setEnd] = useState(monthStart(0));
+  const [format, setFormat] = useState<AccountingExportFormat>('iif');
+  const [includeUnchanged, setIncludeUnchanged] = useState(false);
+
+  const period = new URLSearchParams({ start, end }).toString();
+
+  const { data: status } = useQuery<StatusResponse>({ queryKey: ['/api/admin/accounting/status'] });
+  const { data: preview, isLoading: previewLoading } = useQuery<PreviewResponse>({
+    queryKey: [`/api/admin/accounting/preview?${period}`],
+    enabled: Boolean(start && end),
+    staleTime: 0,
+  });
+  const { data: exportList } = useQuery<ExportsResponse>({ queryKey: ['/api/admin/accounting/exports'] });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/accounting/status'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/accounting/exports'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/admin/accounting/preview?${period}`] });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/admin/accounting/exports', { provider: 'file', format, start, end, includeUnchanged });
+      return res.json();
+    },
+    onSuccess: (result: { export: { id: number; fileName: string } }) => {
+      toast({ title: 'Export Ready', description: `${result.export.fileName} is downloading.` });
+      window.location.href = `/api/admin/accounting/exports/${result.export.id}/download`;
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Export Failed', description: describeError(error, 'Failed to create export.'), variant: 'destructive' });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest('POST', '/api/admin/accounting/acknowledgements', { provider: 'file', content });
+      return res.json();
+    },
+    onSuccess: (data: { result: { acknowledged: number; unmatched: number; errors: string[] } }) => {
+      const { acknowledged, unmatched, errors } = data.result;
+      toast({
+        title: 'IDs Imported',
+        description: `${acknowledged} matched, ${unmatched} not found${errors.length ? `, ${errors.length} rows skipped (${errors[0]})` : ''}.`,
+        variant: errors.length > 0 && acknowledged === 0 ? 'destructive' : undefined,
+      });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Import Failed', description: describeError(error, 'Failed to import IDs.'), variant: 'destructive' });
+    },
+  });
+
+  const onFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) acknowledgeMutation.mutate(await file.text());
+  };
+
+  const formats = status?.providers.find(p => p.name === 'file')?.formats ?? ['iif', 'csv'];
+  const counts = includeUnchanged ? preview?.preview.total : preview?.preview.pending;
+  const pendingTotal = counts ? Object.values(counts).reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold" data-testid="text-page-title">Accounting Export</h1>
+        <p className="text-muted-foreground">
+          Send services, customers and paid jobs to QuickBooks, Xero or your accountant's spreadsheet
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Export</CardTitle>
+          <CardDescription>
+            Only records that are new or changed since the last export are included, so re-running an export is safe.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="accounting-start">Paid from</Label>
+              <Input id="accounting-start" type="date" value={start} onChange={(e) => setStart(e.target.value)} data-testid="input-period-start" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accounting-end">Paid before</Label>
+              <Input id="accounting-end" type="date" value={end} onChange={(e) => setEnd(e.target.value)} data-testid="input-period-end" />
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as AccountingExportFormat)}>
+                <SelectTrigger data-testid="select-export-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {formats.map(value => (
+                    <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="include-unchanged" checked={includeUnchanged} onCheckedChange={setIncludeUnchanged} data-testid="switch-include-unchanged" />
+            <Label htmlFor="include-unchanged" className="cursor-pointer">Include records already exported</Label>
+          </div>
+
+          <div className="flex flex-wrap gap-2" data-testid="text-export-preview">
+            {previewLoading || !counts ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              (Object.keys(RECORD_LABELS) as AccountingRecordType[]).map(type => (
+                <Badge key={type} variant="secondary">{counts[type]} {RECORD_LABELS[type]}</Badge>
+              ))
+            )}
+          </div>
+
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={pendingTotal === 0 || exportMutation.isPending}
+            data-testid="button-create-export"
+          >
+            {exportMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+            Export
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import IDs Back</CardTitle>
+          <CardDescription>
+            Upload a CSV with record_type, local_id and external_id columns to link exported records to their
+            entries in your accounting package. Exported files list each record's type and local id; a CSV
+            journal can be uploaded as-is with an external_id column added.
+            {status && ` ${status.summary.acknowledged} of ${status.summary.exported + status.summary.acknowledged} exported records are linked.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={onFileChosen} />
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={acknowledgeMutation.isPending}
+            data-testid="button-import-acknowledgements"
+          >
+            {acknowledgeMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload CSV
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Exports</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!exportList?.exports.length ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileArchive className="h-4 w-4" />
+              No exports yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exportList.exports.map(row => (
+                  <TableRow key={row.id} data-testid={`row-export-${row.id}`}>
+                    <TableCell>{new Date(row.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="uppercase">{row.format}</TableCell>
+                    <TableCell>
+                      {Object.values(row.recordCounts ?? {}).reduce((sum, n) => sum + n, 0)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/admin/accounting/exports/${row.id}/download`} data-testid={`link-download-${row.id}`}>
+                          <Download className="h-4 w-4 mr-1" />
+                          {row.fileName}
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
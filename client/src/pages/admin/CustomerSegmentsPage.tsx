@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Filter, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { SegmentBuilder, type SegmentOptions } from '@/components/segments/SegmentBuilder';
+import {
+  EMPTY_SEGMENT_DEFINITION,
+  describeSegmentDefinition,
+  segmentDefinitionSchema,
+  type SegmentDefinition,
+} from '@shared/customerSegments';
+import type { CustomerSegment } from '@shared/schema';
+
+interface Draft {
+  id: number | null;
+  name: string;
+  description: string;
+  definition: SegmentDefinition;
+}
+
+// Pulls the server's { error } out of apiRequest's "409: {...}" message
+function describeError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+export default function CustomerSegmentsPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const { data, isLoading } = useQuery<{ success: boolean; segments: CustomerSegment[] }>({ queryKey: ['/api/segments'] });
+  const { data: options } = useQuery<SegmentOptions & { success: boolean }>({ queryKey: ['/api/segments/options'] });
+
+  const names = {
+    tags: new Map(options?.tags.map(tag => [tag.id, tag.name])),
+    services: new Map(options?.services.map(service => [service.id, service.name])),
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (segment: Draft) => {
+      const body = { name: segment.name, description: segment.description || null, definition: segment.definition };
+      const res = segment.id
+        ? await apiRequest('PUT', `/api/segments/${segment.id}`, body)
+        : await apiRequest('POST', '/api/segments', body);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Segment Saved' });
+      setDraft(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Save Failed', description: describeError(error, 'Failed to save segment.'), variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('DELETE', `/api/segments/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Segment Deleted' });
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Delete Failed', description: describeError(error, 'Failed to delete segment.'), variant: 'destructive' });
+    },
+  });
+
+  const edit = (segment: CustomerSegment) => {
+    const parsed = segmentDefinitionSchema.safeParse(segment.definition);
+    setDraft({
+      id: segment.id,
+      name: segment.name,
+      description: segment.description ?? '',
+      definition: parsed.success ? parsed.data : EMPTY_SEGMENT_DEFINITION,
+    });
+  };
+
+  const remove = (segment: CustomerSegment) => {
+    if (confirm(`Delete "${segment.name}"? Campaigns using it will fall back to their own audience.`)) {
+      deleteMutation.mutate(segment.id);
+    }
+  };
+
+  const segments = data?.segments ?? [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Customer Segments</h1>
+          <p className="text-muted-foreground">
+            Saved audiences for SMS and email campaigns, port recovery and the welcome-back campaign
+          </p>
+        </div>
+        <Button
+          onClick={() => setDraft({ id: null, name: '', description: '', definition: EMPTY_SEGMENT_DEFINITION })}
+          data-testid="button-new-segment"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Segment
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Saved Segments</CardTitle>
+          <CardDescription>Customer counts are as of each segment's last save; campaign pickers show a live count.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : segments.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Filter className="h-4 w-4" />
+              No segments yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rules</TableHead>
+                  <TableHead>Customers</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {segments.map(segment => {
+                  const parsed = segmentDefinitionSchema.safeParse(segment.definition);
+                  return (
+                    <TableRow key={segment.id} data-testid={`row-segment-${segment.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{segment.name}</div>
+                        {segment.description && <div className="text-xs text-muted-foreground">{segment.description}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {parsed.success ? describeSegmentDefinition(parsed.data, names) : 'Invalid definition'}
+                      </TableCell>
+                      <TableCell>{segment.lastCount ?? '—'}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => edit(segment)} data-testid={`button-edit-segment-${segment.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => remove(segment)} data-testid={`button-delete-segment-${segment.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+            <DialogDescription>Combine rules to describe who this segment should reach.</DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="segment-name">Name</Label>
+                  <Input
+                    id="segment-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Lapsed gold members"
+                    data-testid="input-segment-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="segment-description">Description</Label>
+                  <Input
+                    id="segment-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    data-testid="input-segment-description"
+                  />
+                </div>
+              </div>
+              <SegmentBuilder definition={draft.definition} onChange={(definition) => setDraft({ ...draft, definition })} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || saveMutation.isPending}
+              data-testid="button-save-segment"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Segment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
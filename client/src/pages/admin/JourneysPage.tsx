@@ -0,0 +1,774 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { BarChart3, CheckCircle2, Loader2, Pause, Pencil, Play, Plus, Trash2, UserPlus, Workflow } from 'lucide-react';
+import { SegmentSelect } from '@/components/segments/SegmentSelect';
+import {
+  JOURNEY_CONDITIONS,
+  JOURNEY_CONDITION_LABELS,
+  JOURNEY_STEP_LABELS,
+  JOURNEY_STEP_TYPES,
+  JOURNEY_TRIGGERS,
+  JOURNEY_TRIGGER_LABELS,
+  journeyDefinitionSchema,
+  journeyTriggerConfigSchema,
+  validateJourneySteps,
+  type JourneyCondition,
+  type JourneyStep,
+  type JourneyStepSummary,
+  type JourneyStepType,
+  type JourneyTrigger,
+} from '@shared/journeys';
+import type { Journey } from '@shared/schema';
+
+type JourneyRow = Journey & { enrollmentCounts: Record<string, number> };
+
+interface Draft {
+  id: number | null;
+  name: string;
+  description: string;
+  trigger: JourneyTrigger;
+  inactiveDays: number;
+  allowReentry: boolean;
+  exitOn: JourneyCondition[];
+  entryStepId: string;
+  steps: JourneyStep[];
+}
+
+interface Analytics {
+  byStatus: Record<string, number>;
+  exitReasons: Record<string, number>;
+  steps: JourneyStepSummary[];
+}
+
+interface OpenTask {
+  id: number;
+  title: string;
+  dueAt: string | null;
+  journeyName: string;
+  customerName: string | null;
+  customerPhone: string | null;
+}
+
+const END = 'end';
+
+const STARTER_STEPS: JourneyStep[] = [
+  { id: 'step-1', type: 'send_sms', body: 'Hi {{firstName}}, thanks for choosing {{businessName}}!', next: 'step-2' },
+  { id: 'step-2', type: 'wait', days: 3, hours: 0, next: 'step-3' },
+  { id: 'step-3', type: 'branch', condition: 'booked', onTrue: null, onFalse: 'step-4' },
+  { id: 'step-4', type: 'send_email', subject: 'Ready for your next visit?', body: 'Book any time: {{bookingLink}}', next: null },
+];
+
+const EMPTY_DRAFT: Draft = {
+  id: null,
+  name: '',
+  description: '',
+  trigger: 'job_completed',
+  inactiveDays: 90,
+  allowReentry: false,
+  exitOn: ['opted_out'],
+  entryStepId: 'step-1',
+  steps: STARTER_STEPS,
+};
+
+// Pulls the server's { error } out of apiRequest's "409: {...}" message
+function describeError(error: any, fallback: string): string {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error?.message || '');
+  if (!match) return error?.message || fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
+function newStep(type: JourneyStepType, id: string): JourneyStep {
+  switch (type) {
+    case 'send_sms':
+      return { id, type, body: '', next: null };
+    case 'send_email':
+      return { id, type, subject: '', body: '', next: null };
+    case 'wait':
+      return { id, type, days: 1, hours: 0, next: null };
+    case 'branch':
+      return { id, type, condition: 'booked', onTrue: null, onFalse: null };
+    case 'award_points':
+      return { id, type, points: 100, next: null };
+    case 'create_task':
+      return { id, type, title: 'Call {{name}}', dueInDays: 1, next: null };
+  }
+}
+
+function unusedStepId(steps: JourneyStep[]): string {
+  const taken = new Set(steps.map(step => step.id));
+  let n = steps.length + 1;
+  while (taken.has(`step-${n}`)) n++;
+  return `step-${n}`;
+}
+
+function statusVariant(status: string): 'default' | 'secondary' | 'outline' {
+  if (status === 'active') return 'default';
+  if (status === 'paused') return 'secondary';
+  return 'outline';
+}
+
+/**
+ * "Next step" picker; END maps to null, which finishes the journey
+ */
+function NextSelect({ value, steps, selfId, onChange, testId }: {
+  value: string | null;
+  steps: JourneyStep[];
+  selfId: string;
+  onChange: (next: string | null) => void;
+  testId: string;
+}) {
+  return (
+    <Select value={value ?? END} onValueChange={(v) => onChange(v === END ? null : v)}>
+      <SelectTrigger className="h-8" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={END}>End journey</SelectItem>
+        {steps.filter(step => step.id !== selfId).map(step => (
+          <SelectItem key={step.id} value={step.id}>{step.id}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StepEditor({ step, steps, onChange, onRemove }: {
+  step: JourneyStep;
+  steps: JourneyStep[];
+  onChange: (step: JourneyStep) => void;
+  onRemove: () => void;
+}) {
+  const testId = `step-${step.id}`;
+  return (
+    <div className="border rounded-md p-3 space-y-3" data-testid={testId}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{step.id}</Badge>
+          <span className="font-medium text-sm">{JOURNEY_STEP_LABELS[step.type]}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove} data-testid={`${testId}-remove`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {step.type === 'send_sms' && (
+        <Textarea
+          value={step.body}
+          onChange={(e) => onChange({ ...step, body: e.target.value })}
+          placeholder="Hi {{firstName}}, ..."
+          rows={2}
+          data-testid={`${testId}-body`}
+        />
+      )}
+      {step.type === 'send_email' && (
+        <>
+          <Input
+            value={step.subject}
+            onChange={(e) => onChange({ ...step, subject: e.target.value })}
+            placeholder="Subject"
+            data-testid={`${testId}-subject`}
+          />
+          <Textarea
+            value={step.body}
+            onChange={(e) => onChange({ ...step, body: e.target.value })}
+            rows={4}
+            data-testid={`${testId}-body`}
+          />
+        </>
+      )}
+      {step.type === 'wait' && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={0}
+            className="w-20 h-8"
+            value={step.days}
+            onChange={(e) => onChange({ ...step, days: Math.max(0, parseInt(e.target.value) || 0) })}
+            data-testid={`${testId}-days`}
+          />
+          days
+          <Input
+            type="number"
+            min={0}
+            max={23}
+            className="w-20 h-8"
+            value={step.hours}
+            onChange={(e) => onChange({ ...step, hours: Math.min(23, Math.max(0, parseInt(e.target.value) || 0)) })}
+            data-testid={`${testId}-hours`}
+          />
+          hours
+        </div>
+      )}
+      {step.type === 'branch' && (
+        <Select value={step.condition} onValueChange={(v) => onChange({ ...step, condition: v as JourneyCondition })}>
+          <SelectTrigger className="h-8" data-testid={`${testId}-condition`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {JOURNEY_CONDITIONS.map(condition => (
+              <SelectItem key={condition} value={condition}>If {JOURNEY_CONDITION_LABELS[condition].toLowerCase()}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {step.type === 'award_points' && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="number"
+            min={1}
+            className="w-28 h-8"
+            value={step.points}
+            onChange={(e) => onChange({ ...step, points: Math.max(1, parseInt(e.target.value) || 1) })}
+            data-testid={`${testId}-points`}
+          />
+          points
+        </div>
+      )}
+      {step.type === 'create_task' && (
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            value={step.title}
+            onChange={(e) => onChange({ ...step, title: e.target.value })}
+            data-testid={`${testId}-title`}
+          />
+          due in
+          <Input
+            type="number"
+            min={0}
+            className="w-20 h-8"
+            value={step.dueInDays}
+            onChange={(e) => onChange({ ...step, dueInDays: Math.max(0, parseInt(e.target.value) || 0) })}
+            data-testid={`${testId}-due`}
+          />
+          days
+        </div>
+      )}
+
+      {step.type === 'branch' ? (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div className="space-y-1">
+            <Label className="text-xs">Yes →</Label>
+            <NextSelect value={step.onTrue} steps={steps} selfId={step.id} onChange={(onTrue) => onChange({ ...step, onTrue })} testId={`${testId}-on-true`} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">No →</Label>
+            <NextSelect value={step.onFalse} steps={steps} selfId={step.id} onChange={(onFalse) => onChange({ ...step, onFalse })} testId={`${testId}-on-false`} />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-1 text-sm">
+          <Label className="text-xs">Then →</Label>
+          <NextSelect value={step.next} steps={steps} selfId={step.id} onChange={(next) => onChange({ ...step, next })} testId={`${testId}-next`} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function JourneysPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [analyticsFor, setAnalyticsFor] = useState<JourneyRow | null>(null);
+  const [enrollFor, setEnrollFor] = useState<JourneyRow | null>(null);
+  const [enrollSegmentId, setEnrollSegmentId] = useState<number | null>(null);
+  const [addType, setAddType] = useState<JourneyStepType>('send_sms');
+
+  const { data, isLoading } = useQuery<{ success: boolean; journeys: JourneyRow[] }>({ queryKey: ['/api/journeys'] });
+  const { data: taskData } = useQuery<{ success: boolean; tasks: OpenTask[] }>({ queryKey: ['/api/journeys/tasks'] });
+  const { data: analytics, isLoading: analyticsLoading } = useQuery<Analytics & { success: boolean }>({
+    queryKey: [`/api/journeys/${analyticsFor?.id}/analytics`],
+    enabled: analyticsFor !== null,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/journeys'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (journey: Draft) => {
+      const body = {
+        name: journey.name,
+        description: journey.description || null,
+        trigger: journey.trigger,
+        triggerConfig: { inactiveDays: journey.inactiveDays },
+        allowReentry: journey.allowReentry,
+        definition: { entryStepId: journey.entryStepId, steps: journey.steps, exitOn: journey.exitOn },
+      };
+      const res = journey.id
+        ? await apiRequest('PUT', `/api/journeys/${journey.id}`, body)
+        : await apiRequest('POST', '/api/journeys', body);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Journey Saved' });
+      setDraft(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Save Failed', description: describeError(error, 'Failed to save journey.'), variant: 'destructive' });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      const res = await apiRequest('POST', `/api/journeys/${id}/status`, { status });
+      return res.json();
+    },
+    onSuccess: () => refresh(),
+    onError: (error) => {
+      toast({ title: 'Update Failed', description: describeError(error, 'Failed to change journey status.'), variant: 'destructive' });
+    },
+  });
+
+  const enrollMutation = useMutation({
+    mutationFn: async ({ id, segmentId }: { id: number; segmentId: number }) => {
+      const res = await apiRequest('POST', `/api/journeys/${id}/enroll`, { segmentId });
+      return res.json();
+    },
+    onSuccess: (result: { enrolled: number; skipped: number }) => {
+      toast({ title: 'Customers Enrolled', description: `${result.enrolled} enrolled, ${result.skipped} already in or previously through this journey.` });
+      setEnrollFor(null);
+      refresh();
+    },
+    onError: (error) => {
+      toast({ title: 'Enroll Failed', description: describeError(error, 'Failed to enroll customers.'), variant: 'destructive' });
+    },
+  });
+
+  const completeTaskMutation = useMutation({
+    mutationFn: async (taskId: number) => {
+      const res = await apiRequest('POST', `/api/journeys/tasks/${taskId}/complete`);
+      return res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/journeys/tasks'] }),
+    onError: (error) => {
+      toast({ title: 'Update Failed', description: describeError(error, 'Failed to complete task.'), variant: 'destructive' });
+    },
+  });
+
+  const edit = (journey: JourneyRow) => {
+    const definition = journeyDefinitionSchema.safeParse(journey.definition);
+    const triggerConfig = journeyTriggerConfigSchema.safeParse(journey.triggerConfig ?? {});
+    setDraft({
+      id: journey.id,
+      name: journey.name,
+      description: journey.description ?? '',
+      trigger: journey.trigger as JourneyTrigger,
+      inactiveDays: triggerConfig.success ? triggerConfig.data.inactiveDays : 90,
+      allowReentry: journey.allowReentry,
+      exitOn: definition.success ? definition.data.exitOn : [],
+      entryStepId: definition.success ? definition.data.entryStepId : EMPTY_DRAFT.entryStepId,
+      steps: definition.success ? definition.data.steps : EMPTY_DRAFT.steps,
+    });
+  };
+
+  const archive = (journey: JourneyRow) => {
+    if (confirm(`Archive "${journey.name}"? Customers still in it will be exited.`)) {
+      statusMutation.mutate({ id: journey.id, status: 'archived' });
+    }
+  };
+
+  const updateStep = (index: number, step: JourneyStep) => {
+    if (!draft) return;
+    const steps = [...draft.steps];
+    const previousId = steps[index].id;
+    steps[index] = step;
+    setDraft({ ...draft, steps, entryStepId: draft.entryStepId === previousId ? step.id : draft.entryStepId });
+  };
+
+  // Removing a step leaves edges pointing at it dangling; the validation list flags them
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+  };
+
+  // New steps hang off the last step when it currently ends the journey
+  const addStep = () => {
+    if (!draft) return;
+    const step = newStep(addType, unusedStepId(draft.steps));
+    const steps = draft.steps.map((existing, i) =>
+      i === draft.steps.length - 1 && existing.type !== 'branch' && existing.next === null
+        ? { ...existing, next: step.id }
+        : existing
+    );
+    setDraft({ ...draft, steps: [...steps, step], entryStepId: draft.steps.length === 0 ? step.id : draft.entryStepId });
+  };
+
+  const toggleExit = (condition: JourneyCondition, checked: boolean) => {
+    if (!draft) return;
+    const exitOn = checked ? [...draft.exitOn, condition] : draft.exitOn.filter(c => c !== condition);
+    setDraft({ ...draft, exitOn });
+  };
+
+  const journeys = data?.journeys ?? [];
+  const tasks = taskData?.tasks ?? [];
+  const problems = draft ? validateJourneySteps({ entryStepId: draft.entryStepId, steps: draft.steps }) : [];
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold" data-testid="text-page-title">Customer Journeys</h1>
+          <p className="text-muted-foreground">
+            Multi-step follow-ups that start when a job is completed, a quote is sent or a customer goes quiet
+          </p>
+        </div>
+        <Button onClick={() => setDraft(EMPTY_DRAFT)} data-testid="button-new-journey">
+          <Plus className="h-4 w-4 mr-2" />
+          New Journey
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Journeys</CardTitle>
+          <CardDescription>Only trigger events after a journey is activated enroll customers.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : journeys.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Workflow className="h-4 w-4" />
+              No journeys yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>In progress</TableHead>
+                  <TableHead>Finished</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {journeys.map(journey => {
+                  const counts = journey.enrollmentCounts;
+                  return (
+                    <TableRow key={journey.id} data-testid={`row-journey-${journey.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{journey.name}</div>
+                        {journey.description && <div className="text-xs text-muted-foreground">{journey.description}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">{JOURNEY_TRIGGER_LABELS[journey.trigger as JourneyTrigger] ?? journey.trigger}</TableCell>
+                      <TableCell><Badge variant={statusVariant(journey.status)}>{journey.status}</Badge></TableCell>
+                      <TableCell>{counts.active ?? 0}</TableCell>
+                      <TableCell>{(counts.completed ?? 0) + (counts.exited ?? 0)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {journey.status === 'active' ? (
+                          <Button variant="ghost" size="sm" title="Pause" onClick={() => statusMutation.mutate({ id: journey.id, status: 'paused' })} data-testid={`button-pause-journey-${journey.id}`}>
+                            <Pause className="h-4 w-4" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" title="Activate" onClick={() => statusMutation.mutate({ id: journey.id, status: 'active' })} data-testid={`button-activate-journey-${journey.id}`}>
+                            <Play className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {journey.status === 'active' && (
+                          <Button variant="ghost" size="sm" title="Enroll customers" onClick={() => { setEnrollSegmentId(null); setEnrollFor(journey); }} data-testid={`button-enroll-journey-${journey.id}`}>
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" title="Analytics" onClick={() => setAnalyticsFor(journey)} data-testid={`button-analytics-journey-${journey.id}`}>
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => edit(journey)} data-testid={`button-edit-journey-${journey.id}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Archive" onClick={() => archive(journey)} data-testid={`button-archive-journey-${journey.id}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Follow-up Tasks</CardTitle>
+          <CardDescription>Created by "Create task" steps</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open tasks</p>
+          ) : (
+            <Table>
+              <TableBody>
+                {tasks.map(task => (
+                  <TableRow key={task.id} data-testid={`row-journey-task-${task.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{task.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {task.customerName ?? 'Unknown customer'}{task.customerPhone ? ` · ${task.customerPhone}` : ''} · {task.journeyName}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {task.dueAt ? `Due ${new Date(task.dueAt).toLocaleDateString()}` : ''}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => completeTaskMutation.mutate(task.id)}
+                        disabled={completeTaskMutation.isPending}
+                        data-testid={`button-complete-task-${task.id}`}
+                      >
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Done
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Journey' : 'New Journey'}</DialogTitle>
+            <DialogDescription>
+              Messages can use {'{{firstName}}'}, {'{{name}}'}, {'{{businessName}}'}, {'{{bookingLink}}'} and {'{{link}}'} (tracked, counts as a click).
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="journey-name">Name</Label>
+                  <Input
+                    id="journey-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Post-service follow-up"
+                    data-testid="input-journey-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="journey-description">Description</Label>
+                  <Input
+                    id="journey-description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    data-testid="input-journey-description"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Trigger</Label>
+                  <Select value={draft.trigger} onValueChange={(v) => setDraft({ ...draft, trigger: v as JourneyTrigger })}>
+                    <SelectTrigger data-testid="select-journey-trigger">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {JOURNEY_TRIGGERS.map(trigger => (
+                        <SelectItem key={trigger} value={trigger}>{JOURNEY_TRIGGER_LABELS[trigger]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.trigger === 'inactive' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="journey-inactive-days">Days since last visit</Label>
+                    <Input
+                      id="journey-inactive-days"
+                      type="number"
+                      min={1}
+                      value={draft.inactiveDays}
+                      onChange={(e) => setDraft({ ...draft, inactiveDays: Math.max(1, parseInt(e.target.value) || 1) })}
+                      data-testid="input-journey-inactive-days"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="journey-reentry"
+                  checked={draft.allowReentry}
+                  onCheckedChange={(allowReentry) => setDraft({ ...draft, allowReentry })}
+                  data-testid="switch-journey-reentry"
+                />
+                <Label htmlFor="journey-reentry">Let customers go through this journey more than once</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Exit early when the customer has</Label>
+                <div className="flex flex-wrap gap-4">
+                  {JOURNEY_CONDITIONS.map(condition => (
+                    <label key={condition} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.exitOn.includes(condition)}
+                        onCheckedChange={(checked) => toggleExit(condition, checked === true)}
+                        data-testid={`checkbox-exit-${condition}`}
+                      />
+                      {JOURNEY_CONDITION_LABELS[condition]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>Steps</Label>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Starts at</span>
+                    <Select value={draft.entryStepId} onValueChange={(entryStepId) => setDraft({ ...draft, entryStepId })}>
+                      <SelectTrigger className="h-8 w-32" data-testid="select-journey-entry">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {draft.steps.map(step => (
+                          <SelectItem key={step.id} value={step.id}>{step.id}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {draft.steps.map((step, index) => (
+                  <StepEditor
+                    key={index}
+                    step={step}
+                    steps={draft.steps}
+                    onChange={(updated) => updateStep(index, updated)}
+                    onRemove={() => removeStep(index)}
+                  />
+                ))}
+                <div className="flex items-center gap-2">
+                  <Select value={addType} onValueChange={(v) => setAddType(v as JourneyStepType)}>
+                    <SelectTrigger className="h-8 w-44" data-testid="select-add-step-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {JOURNEY_STEP_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{JOURNEY_STEP_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={addStep} data-testid="button-add-step">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Step
+                  </Button>
+                </div>
+                {problems.length > 0 && (
+                  <ul className="text-sm text-destructive list-disc pl-5" data-testid="list-journey-problems">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              onClick={() => draft && saveMutation.mutate(draft)}
+              disabled={!draft?.name.trim() || problems.length > 0 || saveMutation.isPending}
+              data-testid="button-save-journey"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Journey
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={analyticsFor !== null} onOpenChange={(open) => !open && setAnalyticsFor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{analyticsFor?.name}</DialogTitle>
+            <DialogDescription>Where customers are in this journey and how far they got</DialogDescription>
+          </DialogHeader>
+          {analyticsLoading || !analytics ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(analytics.byStatus).map(([status, count]) => (
+                  <Badge key={status} variant="outline">{status}: {count}</Badge>
+                ))}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    <TableHead>Reached</TableHead>
+                    <TableHead>Waiting here</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analytics.steps.map(step => (
+                    <TableRow key={step.stepId} data-testid={`row-step-analytics-${step.stepId}`}>
+                      <TableCell>
+                        <div className="text-xs text-muted-foreground">{step.stepId}</div>
+                        <div className="text-sm">{step.label}</div>
+                      </TableCell>
+                      <TableCell>{step.reached}</TableCell>
+                      <TableCell>{step.waiting}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {Object.keys(analytics.exitReasons).length > 0 && (
+                <div className="text-sm">
+                  <div className="font-medium mb-1">Exited early</div>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(analytics.exitReasons).map(([reason, count]) => (
+                      <Badge key={reason} variant="secondary">
+                        {JOURNEY_CONDITION_LABELS[reason as JourneyCondition] ?? reason.replace(/_/g, ' ')}: {count}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={enrollFor !== null} onOpenChange={(open) => !open && setEnrollFor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Enroll Customers</DialogTitle>
+            <DialogDescription>Add everyone in a saved segment to "{enrollFor?.name}" now.</DialogDescription>
+          </DialogHeader>
+          <SegmentSelect value={enrollSegmentId} onChange={setEnrollSegmentId} noneLabel="Choose a segment" testId="select-enroll-segment" />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEnrollFor(null)}>Cancel</Button>
+            <Button
+              onClick={() => enrollFor && enrollSegmentId && enrollMutation.mutate({ id: enrollFor.id, segmentId: enrollSegmentId })}
+              disabled={!enrollSegmentId || enrollMutation.isPending}
+              data-testid="button-confirm-enroll"
+            >
+              {enrollMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Enroll
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import {
   Download, ExternalLink, Phone, Mail, FileText, LayoutGrid, Clock, Moon
 } from 'lucide-react';
 import type { PortalSettings, PortalAction } from '@shared/schema';
+import { AppointmentChangePolicyCard } from '@/components/portal/AppointmentChangePolicyCard';
+import { DepositRefundsCard } from '@/components/portal/DepositRefundsCard';
 
 interface SettingsResponse {
   success: boolean;
@@ -246,11 +248,12 @@ export default function PortalSettingsPage() {
       </div>
 
       <Tabs defaultValue="general" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5" data-testid="tabs-portal-settings">
+        <TabsList className="grid w-full grid-cols-6" data-testid="tabs-portal-settings">
           <TabsTrigger value="general" data-testid="tab-general">General</TabsTrigger>
           <TabsTrigger value="modules" data-testid="tab-modules">Modules</TabsTrigger>
           <TabsTrigger value="install" data-testid="tab-install">Install Prompt</TabsTrigger>
           <TabsTrigger value="notifications" data-testid="tab-notifications">Notifications</TabsTrigger>
+          <TabsTrigger value="appointments" data-testid="tab-appointments">Appointments</TabsTrigger>
           <TabsTrigger value="actions" data-testid="tab-actions">Actions</TabsTrigger>
         </TabsList>
 
@@ -627,6 +630,11 @@ export default function PortalSettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="appointments" className="space-y-6">
+          <AppointmentChangePolicyCard />
+          <DepositRefundsCard />
+        </TabsContent>
+
         <TabsContent value="actions" className="space-y-6">
           <Card data-testid="card-actions">
             <CardHeader>
@@ -17,6 +17,7 @@ import {
   Clock, TrendingUp, Send, Ban, BarChart3, Calendar
 } from 'lucide-react';
 import { format, subDays, parseISO } from 'date-fns';
+import { ExperimentResults } from '@/components/campaigns/ExperimentResults';
 
 const COLORS = ['#22c55e', '#3b82f6', '#ef4444', '#f59e0b', '#8b5cf6', '#06b6d4'];
 
@@ -181,6 +182,8 @@ function CampaignRunDetailView({ campaignId }: { campaignId: number }) {
         </CardContent>
       </Card>
 
+      <ExperimentResults channel="sms" campaignId={campaign.id} />
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-6">
@@ -9,6 +9,17 @@ import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, L
 import { TrendingUp, DollarSign, Calendar, Mail, Target, Users, ArrowUp, ArrowDown, ArrowLeft } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AppShell } from '@/components/AppShell';
+import type { RevenueForecast } from '@shared/revenueForecast';
+import { BookingAttributionReport } from '@/components/analytics/BookingAttributionReport';
+
+interface FinancialForecastResponse {
+  success: boolean;
+  historical: Array<{ month: string; revenue: number; appointmentCount: number }>;
+  forecast: RevenueForecast['months'];
+  bandLevel: number;
+  seasonalIndex: RevenueForecast['seasonalIndex'];
+  metrics: RevenueForecast['metrics'];
+}
 
 const COLORS = ['#3b82f6', '#8b5cf6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444'];
 
@@ -32,7 +43,7 @@ export default function AnalyticsPage() {
   });
 
   // Fetch financial forecast
-  const { data: forecastData, isLoading: loadingForecast } = useQuery({
+  const { data: forecastData, isLoading: loadingForecast } = useQuery<FinancialForecastResponse>({
     queryKey: ['/api/analytics/financial-forecast'],
   });
 
@@ -65,23 +76,32 @@ export default function AnalyticsPage() {
     fullName: campaign.campaignName,
     appointments: campaign.appointmentsGenerated,
     revenue: Number(campaign.revenueGenerated),
+    attributedAppointments: campaign.attributedAppointments || 0,
+    attributedRevenue: Number(campaign.attributedRevenue || 0),
     roi: campaign.recipientCount > 0 ? ((Number(campaign.revenueGenerated) / campaign.recipientCount) * 100).toFixed(2) : 0
   })) || [];
 
   // Combine historical and forecast data
   const forecastChartData = [
-    ...(forecastData?.historical?.map((h: any) => ({
+    ...(forecastData?.historical?.map((h) => ({
       month: h.month,
       actual: Number(h.revenue),
       type: 'historical'
     })) || []),
-    ...(forecastData?.forecast?.map((f: any) => ({
+    ...(forecastData?.forecast?.map((f) => ({
       month: f.month,
       predicted: f.predictedRevenue,
+      low: f.low,
+      high: f.high,
       type: 'forecast'
     })) || [])
   ];
 
+  const forecastBreakdownData = forecastData?.forecast?.map((f) => ({
+    month: f.month,
+    ...f.breakdown
+  })) || [];
+
   const upsellChartData = upsellData?.upsells?.map((u: any) => ({
     month: u.month,
     offered: u.offered,
@@ -191,10 +211,11 @@ export default function AnalyticsPage() {
 
         {/* Main Analytics Tabs */}
         <Tabs defaultValue="seasonal" className="space-y-6">
-          <TabsList className="grid grid-cols-5 w-full lg:w-auto">
+          <TabsList className="grid grid-cols-6 w-full lg:w-auto">
             <TabsTrigger value="seasonal">Seasonal Trends</TabsTrigger>
             <TabsTrigger value="services">Services</TabsTrigger>
             <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+            <TabsTrigger value="attribution">Attribution</TabsTrigger>
             <TabsTrigger value="forecast">Forecast</TabsTrigger>
             <TabsTrigger value="upsells">Upsells</TabsTrigger>
           </TabsList>
@@ -293,6 +314,7 @@ export default function AnalyticsPage() {
                             <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
                               <p className="font-semibold">{data.fullName}</p>
                               <p className="text-sm text-blue-600">Appointments: {data.appointments}</p>
+                              <p className="text-sm text-blue-600">Booked via campaign link: {data.attributedAppointments} (${data.attributedRevenue})</p>
                               <p className="text-sm text-green-600">Revenue: ${data.revenue}</p>
                               <p className="text-sm text-purple-600">ROI: {data.roi}%</p>
                             </div>
@@ -318,12 +340,17 @@ export default function AnalyticsPage() {
             </Card>
           </TabsContent>
 
+          {/* Booking Attribution Tab */}
+          <TabsContent value="attribution" className="space-y-6">
+            <BookingAttributionReport />
+          </TabsContent>
+
           {/* Financial Forecast Tab */}
           <TabsContent value="forecast" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Revenue Forecast</CardTitle>
-                <CardDescription>6-month revenue prediction based on historical trends</CardDescription>
+                <CardDescription>6-month revenue prediction from booked work, recurring services, open quotes and seasonality</CardDescription>
               </CardHeader>
               <CardContent>
                 {loadingForecast ? (
@@ -338,12 +365,39 @@ export default function AnalyticsPage() {
                       <Legend />
                       <Line type="monotone" dataKey="actual" stroke="#3b82f6" strokeWidth={2} name="Actual Revenue" />
                       <Line type="monotone" dataKey="predicted" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="5 5" name="Predicted Revenue" />
+                      <Line type="monotone" dataKey="high" stroke="#10b981" strokeWidth={1} strokeDasharray="2 4" dot={false} name="High Estimate" />
+                      <Line type="monotone" dataKey="low" stroke="#f59e0b" strokeWidth={1} strokeDasharray="2 4" dot={false} name="Low Estimate" />
                     </LineChart>
                   </ResponsiveContainer>
                 )}
               </CardContent>
             </Card>
 
+            {/* Forecast Breakdown by Source */}
+            {forecastBreakdownData.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Forecast Breakdown</CardTitle>
+                  <CardDescription>Where each month's projected revenue comes from</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={forecastBreakdownData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="booked" stackId="source" fill={COLORS[0]} name="Booked Appointments" />
+                      <Bar dataKey="recurring" stackId="source" fill={COLORS[1]} name="Recurring Services" />
+                      <Bar dataKey="quotes" stackId="source" fill={COLORS[2]} name="Open Quotes" />
+                      <Bar dataKey="newBusiness" stackId="source" fill={COLORS[3]} name="Expected New Business" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Forecast Metrics */}
             {forecastData?.metrics && (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -360,7 +414,7 @@ export default function AnalyticsPage() {
 
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">Growth Rate</CardTitle>
+                    <CardTitle className="text-sm font-medium text-gray-600 dark:text-gray-400">Year-over-Year Growth</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className={`text-2xl font-bold ${(forecastData.metrics.growthRate || 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
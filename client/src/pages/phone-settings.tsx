@@ -20,6 +20,7 @@ import { Phone, Clock, Edit, Trash2, Plus, Save, X, PhoneForwarded, Voicemail, I
 import { queryClient, apiRequest } from '@/lib/queryClient';
 import CommunicationsNav from '@/components/CommunicationsNav';
 import { CustomRingtoneInstructions } from '@/components/phone/CustomRingtoneInstructions';
+import { ConfirmationCallSettingsCard } from '@/components/phone/ConfirmationCallSettingsCard';
 import TrialTelephonySettings from '@/pages/settings/TrialTelephonySettings';
 import {
   useTelephonySettings,
@@ -970,6 +971,9 @@ export default function PhoneSettings() {
           ))}
         </div>
 
+        {/* Automated appointment confirmation calls */}
+        <ConfirmationCallSettingsCard />
+
         {/* IVR Configuration Section */}
         <Card>
           <CardHeader>
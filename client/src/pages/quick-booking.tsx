@@ -15,6 +15,7 @@ import { Loader2, Search, CheckCircle2, Phone, Mail, MapPin, Car, Award, Calenda
 import { format, parseISO } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getBookingAttribution } from "@/lib/attribution";
 import { SMSConsentCheckbox } from "@/components/SMSConsentCheckbox";
 
 interface ReferralReward {
@@ -184,6 +185,7 @@ export default function QuickBookingPage() {
                 channel: 'web',
                 hostname: window.location.hostname,
               },
+              attribution: getBookingAttribution() ?? null,
             }),
           });
           console.log('[BOOKING] Analytics logged for source:', sourceParam);
@@ -589,6 +591,7 @@ export default function QuickBookingPage() {
         notes: "",
         smsConsent,
         referralCode: referralValid ? referralCode : undefined,
+        attribution: getBookingAttribution(),
       });
 
       const data = await response.json();
@@ -0,0 +1,193 @@
+import { useRoute, Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  CheckCircle2,
+  Circle,
+  Clock,
+  Loader2,
+  AlertCircle,
+  Star,
+} from 'lucide-react';
+import type { JobTimelineStep } from '@shared/jobTracking';
+
+interface TrackingResponse {
+  success: boolean;
+  tracking: {
+    status: string;
+    progress: JobTimelineStep[];
+    scheduledTime: string;
+    serviceType: string | null;
+    etaAt: string | null;
+    etaMinutes: number | null;
+    technician: {
+      publicId: string;
+      preferredName: string;
+      city: string | null;
+      bioAbout: string | null;
+      bioTags: string[] | null;
+      photoCard320Url: string | null;
+      verified: boolean;
+    } | null;
+    updatedAt: string | null;
+  };
+}
+
+function formatTime(value: string | null) {
+  if (!value) return '';
+  return new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function TrackJob() {
+  const [, params] = useRoute('/track/:token');
+  const token = params?.token;
+
+  // Poll while the job is underway; stop once it's done
+  const { data, isLoading, error } = useQuery<TrackingResponse>({
+    queryKey: [`/api/public/track/${token}`],
+    enabled: !!token,
+    refetchInterval: (query) => query.state.data?.tracking.status === 'completed' ? false : 30000,
+  });
+
+  const tracking = data?.tracking;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-slate-950 dark:to-slate-900 flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <Loader2 className="w-12 h-12 animate-spin mx-auto text-primary" />
+          <p className="text-muted-foreground">Loading your appointment...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !tracking) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-slate-950 dark:to-slate-900 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="pt-6">
+            <div className="text-center space-y-4">
+              <AlertCircle className="w-16 h-16 mx-auto text-destructive" />
+              <div>
+                <h2 className="text-2xl font-bold mb-2">Link Not Found</h2>
+                <p className="text-muted-foreground">
+                  This tracking link is invalid or the appointment is no longer active.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const tech = tracking.technician;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-slate-950 dark:to-slate-900 p-4">
+      <div className="max-w-2xl mx-auto py-8">
+        {/* Header with branding */}
+        <div className="text-center mb-6">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <Star className="w-6 h-6 text-amber-500 fill-amber-500" />
+            <h1 className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+              Clean Machine Auto Detail
+            </h1>
+            <Star className="w-6 h-6 text-amber-500 fill-amber-500" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {tracking.serviceType || 'Your appointment'}
+          </p>
+        </div>
+
+        <Card className="overflow-hidden shadow-xl">
+          <CardContent className="pt-6 space-y-6">
+            {/* ETA */}
+            {tracking.status === 'en_route' && (
+              <div className="text-center" data-testid="section-eta">
+                <div className="flex items-center justify-center gap-2 text-muted-foreground mb-1">
+                  <Clock className="w-4 h-4" />
+                  <span className="text-sm">Estimated arrival</span>
+                </div>
+                {tracking.etaMinutes !== null ? (
+                  <>
+                    <p className="text-4xl font-bold" data-testid="text-eta-minutes">
+                      {tracking.etaMinutes} min
+                    </p>
+                    <p className="text-sm text-muted-foreground" data-testid="text-eta-time">
+                      around {formatTime(tracking.etaAt)}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-2xl font-bold">On the way</p>
+                )}
+              </div>
+            )}
+
+            {/* Timeline */}
+            <ol className="space-y-4" data-testid="list-progress">
+              {tracking.progress.map((step) => (
+                <li key={step.step} className="flex items-center gap-3" data-testid={`step-${step.step}`}>
+                  {step.state === 'done' ? (
+                    <CheckCircle2 className="w-6 h-6 text-green-500 shrink-0" />
+                  ) : step.state === 'current' ? (
+                    <Loader2 className="w-6 h-6 text-primary animate-spin shrink-0" />
+                  ) : (
+                    <Circle className="w-6 h-6 text-slate-300 dark:text-slate-600 shrink-0" />
+                  )}
+                  <span className={step.state === 'upcoming' ? 'text-muted-foreground' : 'font-medium'}>
+                    {step.label}
+                  </span>
+                  {step.reachedAt && (
+                    <span className="ml-auto text-sm text-muted-foreground">{formatTime(step.reachedAt)}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            {/* Technician */}
+            {tech && (
+              <>
+                <Separator />
+                <div className="flex items-center gap-4" data-testid="section-technician">
+                  {tech.photoCard320Url && (
+                    <img
+                      src={tech.photoCard320Url}
+                      alt={tech.preferredName}
+                      className="w-20 h-20 rounded-full object-cover"
+                      data-testid="img-tech-photo"
+                    />
+                  )}
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-semibold" data-testid="text-tech-name">{tech.preferredName}</span>
+                      {tech.verified && <CheckCircle2 className="w-4 h-4 text-green-500" />}
+                    </div>
+                    {tech.bioAbout && (
+                      <p className="text-sm text-slate-700 dark:text-slate-300 italic">"{tech.bioAbout}"</p>
+                    )}
+                    {tech.bioTags && tech.bioTags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {tech.bioTags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                    <Link href={`/p/${tech.publicId}`} className="text-sm text-primary underline" data-testid="link-tech-profile">
+                      View profile
+                    </Link>
+                  </div>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="h-8" />
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@
  * - Conversation state awareness (never re-asks known info)
  * - Control mode awareness (handles human handback scenarios)
  * - Campaign awareness (ServicePro v3)
+ * - Tenant knowledge base retrieval (only snippets relevant to the message)
  */
 
 import { db } from '../db';
@@ -17,6 +18,7 @@ import { wrapTenantDb } from '../tenantDb';
 import { tenantConfig, services, aiBehaviorRules } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { getCampaignContextForCustomer, getCustomerIdFromPhone } from '../services/campaignContextService';
+import { buildKnowledgeContext } from '../services/knowledgeBaseService';
 import { 
   SYSTEM_PROMPT_TEMPLATE, 
   BEHAVIOR_CONFIG, 
@@ -68,6 +70,7 @@ interface SmsPromptParams {
   conversationState?: ConversationStateInfo;  // AI Behavior v2: conversation state for context
   controlMode?: 'auto' | 'manual' | 'paused';  // AI Behavior v2: control mode awareness
   recentHumanMessages?: string[];  // AI Behavior v2: messages from human agent during handback
+  customerMessage?: string;  // Latest inbound message, used to retrieve knowledge base snippets
 }
 
 /**
@@ -298,7 +301,7 @@ function buildKnownContext(state: ConversationStateInfo | undefined): string {
  * CM-TENANT-PROMPT-FIX: Uses database system_prompt rule as base when available
  */
 export async function buildSmsSystemPrompt(params: SmsPromptParams): Promise<string> {
-  const { tenantId, phoneNumber, customerId, conversationState, controlMode, recentHumanMessages } = params;
+  const { tenantId, phoneNumber, customerId, conversationState, controlMode, recentHumanMessages, customerMessage } = params;
 
   // Get tenant configuration
   const { businessName, industryType, subdomain } = await getTenantBusinessInfo(tenantId);
@@ -337,6 +340,9 @@ export async function buildSmsSystemPrompt(params: SmsPromptParams): Promise<str
     // Continue without campaign context - don't break prompt builder
   }
 
+  // Retrieve only the knowledge base snippets relevant to this message
+  const knowledgeSnippets = customerMessage ? await buildKnowledgeContext(tenantDb, customerMessage) : '';
+
   // CM-TENANT-PROMPT-FIX: Use database system_prompt as base when available, otherwise fallback to generic template
   let systemPrompt: string;
   if (systemPromptRule && systemPromptRule.content) {
@@ -355,6 +361,10 @@ export async function buildSmsSystemPrompt(params: SmsPromptParams): Promise<str
   
   // Add services list
   systemPrompt += `\n\n${servicesList}`;
+
+  if (knowledgeSnippets) {
+    systemPrompt += `\n\nRELEVANT BUSINESS KNOWLEDGE (from ${businessName}'s FAQs, services and documents - use it to answer, don't recite it):\n${knowledgeSnippets}`;
+  }
   
   // CM-TENANT-AI-FIX: Inject tenant-specific behavior rules (excluding system_prompt which is already the base)
   if (behaviorInstructions) {
@@ -471,7 +481,7 @@ Guidelines:
 - Ask clarifying questions if needed
 - If you detect damage/specialty job keywords, ask for photos
 - If customer wants to book, provide the booking link
-- Never make up pricing - only use the services listed above
+- Never make up pricing - only use the services and business knowledge listed above
 - Keep SMS responses brief and clear
 - Use proper punctuation and grammar
 - Don't refer to yourself by name or as a specific person
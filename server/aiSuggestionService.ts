@@ -23,7 +23,8 @@ export async function generateReplySuggestions(
   conversationId: number,
   customerPhone: string,
   messageHistory: any[],
-  platform: 'sms' | 'web' = 'web'
+  platform: 'sms' | 'web' = 'web',
+  tenantId: string = 'root'
 ): Promise<ReplySuggestion[]> {
   try {
     // If OpenAI is not available, return default suggestions
@@ -37,7 +38,7 @@ export async function generateReplySuggestions(
     
     // Get customer context
     const customer = customerMemory.getCustomer(customerPhone);
-    const bookingState = conversationState.getState(customerPhone);
+    const bookingState = await conversationState.load(customerPhone, tenantId);
     
     // Prepare context for AI
     const recentMessages = messageHistory
@@ -0,0 +1,244 @@
+/**
+ * Tenant-scoped cache with tag-based invalidation
+ *
+ * Every key is namespaced by tenant, so one tenant's cached dashboard can
+ * never be served to another. Entries carry tags ('appointments',
+ * 'customers', ...); invalidating a tag bumps a per-tenant version counter and
+ * any entry written under an older version is treated as a miss. That keeps
+ * invalidation O(1) and works the same on a single process or across
+ * instances sharing Redis.
+ *
+ * Backends implement a small Redis-compatible subset (get/mget/set/del/incr).
+ * Set CACHE_REDIS_URL (or REDIS_URL) to share the cache between instances;
+ * otherwise a size-bounded in-memory backend built on LRUCache is used.
+ * Cache failures never fail a request - reads degrade to misses.
+ */
+
+import Redis from 'ioredis';
+import { LRUCache } from './lruCache';
+
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  mget(keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  del(keys: string[]): Promise<number>;
+  incr(key: string): Promise<number>;
+}
+
+/**
+ * In-process backend. Values are LRU-bounded; version counters are kept
+ * outside the LRU so an eviction can never roll a tag back to an old version.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private values: LRUCache<string>;
+  private counters: Map<string, number> = new Map();
+
+  constructor(options: { maxSize?: number } = {}) {
+    this.values = new LRUCache<string>({ maxSize: options.maxSize ?? 5000 });
+  }
+
+  async get(key: string): Promise<string | null> {
+    const counter = this.counters.get(key);
+    if (counter !== undefined) return String(counter);
+    return this.values.get(key);
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.values.set(key, value, ttlMs);
+  }
+
+  async del(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.values.delete(key)) deleted++;
+      if (this.counters.delete(key)) deleted++;
+    }
+    return deleted;
+  }
+
+  async incr(key: string): Promise<number> {
+    const next = (this.counters.get(key) ?? 0) + 1;
+    this.counters.set(key, next);
+    return next;
+  }
+
+  stats() {
+    return { ...this.values.stats(), counters: this.counters.size };
+  }
+}
+
+/**
+ * Shared backend for multi-instance deployments
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+
+  constructor(private client: Redis) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return keys.length > 0 ? this.client.mget(...keys) : [];
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(key, value, 'PX', Math.max(1, Math.round(ttlMs)));
+  }
+
+  async del(keys: string[]): Promise<number> {
+    return keys.length > 0 ? this.client.del(...keys) : 0;
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+}
+
+export interface CacheSetOptions {
+  ttlSeconds: number;
+  tags?: string[];
+}
+
+interface StoredEntry<T> {
+  value: T;
+  versions: Record<string, number>;
+}
+
+// Every entry is implicitly tagged so a whole tenant can be dropped at once
+const ALL_TAG = '*';
+
+/**
+ * Cache view for one tenant
+ */
+export class ScopedCache {
+  constructor(private backend: CacheBackend, readonly tenantId: string) {}
+
+  private entryKey(key: string): string {
+    return `cache:${this.tenantId}:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `cache:${this.tenantId}:tag:${tag}`;
+  }
+
+  private async tagVersions(tags: string[]): Promise<Record<string, number>> {
+    const raw = await this.backend.mget(tags.map(tag => this.tagKey(tag)));
+    const versions: Record<string, number> = {};
+    tags.forEach((tag, index) => {
+      versions[tag] = Number(raw[index] ?? 0);
+    });
+    return versions;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.backend.get(this.entryKey(key));
+      if (raw === null) return null;
+
+      const entry = JSON.parse(raw) as StoredEntry<T>;
+      const tags = Object.keys(entry.versions);
+      const current = await this.tagVersions(tags);
+      const stale = tags.some(tag => current[tag] !== entry.versions[tag]);
+      return stale ? null : entry.value;
+    } catch (error: any) {
+      console.warn(`[CACHE] get failed for tenant ${this.tenantId} key ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    try {
+      const versions = await this.tagVersions([ALL_TAG, ...(options.tags ?? [])]);
+      await this.store(key, value, versions, options.ttlSeconds);
+    } catch (error: any) {
+      console.warn(`[CACHE] set failed for tenant ${this.tenantId} key ${key}: ${error.message}`);
+    }
+  }
+
+  private async store<T>(key: string, value: T, versions: Record<string, number>, ttlSeconds: number) {
+    const entry: StoredEntry<T> = { value, versions };
+    await this.backend.set(this.entryKey(key), JSON.stringify(entry), ttlSeconds * 1000);
+  }
+
+  /**
+   * Return the cached value, or load, cache and return it. Tag versions are
+   * read before loading, so an invalidation that lands mid-load leaves the
+   * freshly stored entry already stale rather than caching outdated data.
+   */
+  async wrap<T>(key: string, options: CacheSetOptions, loader: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) return cached;
+
+    let versions: Record<string, number> | null = null;
+    try {
+      versions = await this.tagVersions([ALL_TAG, ...(options.tags ?? [])]);
+    } catch (error: any) {
+      console.warn(`[CACHE] version read failed for tenant ${this.tenantId} key ${key}: ${error.message}`);
+    }
+
+    const value = await loader();
+    if (versions) {
+      try {
+        await this.store(key, value, versions, options.ttlSeconds);
+      } catch (error: any) {
+        console.warn(`[CACHE] set failed for tenant ${this.tenantId} key ${key}: ${error.message}`);
+      }
+    }
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.del([this.entryKey(key)]);
+    } catch (error: any) {
+      console.warn(`[CACHE] delete failed for tenant ${this.tenantId} key ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Invalidate every entry carrying any of the tags
+   */
+  async invalidateTags(tags: string[]): Promise<void> {
+    try {
+      await Promise.all(tags.map(tag => this.backend.incr(this.tagKey(tag))));
+    } catch (error: any) {
+      console.warn(`[CACHE] invalidate failed for tenant ${this.tenantId} tags ${tags.join(',')}: ${error.message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.invalidateTags([ALL_TAG]);
+  }
+}
+
+export class TenantCache {
+  constructor(readonly backend: CacheBackend) {}
+
+  forTenant(tenantId: string): ScopedCache {
+    return new ScopedCache(this.backend, tenantId);
+  }
+}
+
+function createDefaultBackend(): CacheBackend {
+  const redisUrl = process.env.CACHE_REDIS_URL || process.env.REDIS_URL;
+  if (!redisUrl) {
+    return new MemoryCacheBackend({ maxSize: 5000 });
+  }
+
+  const client = new Redis(redisUrl, { maxRetriesPerRequest: 2, enableOfflineQueue: false });
+  client.on('error', (error) => {
+    console.warn(`[CACHE] Redis error: ${error.message}`);
+  });
+  console.log('[CACHE] Using Redis cache backend');
+  return new RedisCacheBackend(client);
+}
+
+export const tenantCache = new TenantCache(createDefaultBackend());
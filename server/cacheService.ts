@@ -1,79 +1,19 @@
 /**
- * Simple in-memory cache service with TTL support
- * This significantly improves dashboard load times by caching Google Calendar/Sheets API calls
+ * Dashboard / calendar cache helpers
+ * Caches Google Calendar/Sheets API results per tenant on top of the shared
+ * tenant cache (server/cache/tenantCache.ts), which handles tenant
+ * namespacing, tag invalidation and the optional Redis backend.
  */
 
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-}
-
-class CacheService {
-  private cache: Map<string, CacheEntry<any>> = new Map();
-
-  /**
-   * Get cached data if available and not expired
-   */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      return null;
-    }
-    
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return entry.data as T;
-  }
-
-  /**
-   * Set cache entry with TTL in seconds
-   */
-  set<T>(key: string, data: T, ttlSeconds: number): void {
-    const expiresAt = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { data, expiresAt });
-  }
-
-  /**
-   * Invalidate cache entries by key pattern
-   */
-  invalidate(keyPattern: string): void {
-    const keysToDelete: string[] = [];
-    
-    for (const key of this.cache.keys()) {
-      if (key.includes(keyPattern)) {
-        keysToDelete.push(key);
-      }
-    }
-    
-    keysToDelete.forEach(key => this.cache.delete(key));
-  }
-
-  /**
-   * Clear all cache entries
-   */
-  clear(): void {
-    this.cache.clear();
-  }
+import { tenantCache, type ScopedCache } from './cache/tenantCache';
 
-  /**
-   * Get cache statistics
-   */
-  getStats() {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys())
-    };
-  }
+/**
+ * Cache for one tenant - keys below are relative to it
+ */
+export function getTenantCache(tenantId: string): ScopedCache {
+  return tenantCache.forTenant(tenantId);
 }
 
-// Export singleton instance
-export const cacheService = new CacheService();
-
 // Cache key builders for consistency
 export const CacheKeys = {
   dashboardToday: (date: string) => `dashboard:today:${date}`,
@@ -81,6 +21,14 @@ export const CacheKeys = {
   dashboardWeather: (days: number) => `dashboard:weather:${days}`,
   dashboardMessages: () => `dashboard:messages`,
   calendarEvents: (timeMin: string, timeMax: string) => `calendar:events:${timeMin}:${timeMax}`,
+  knowledgeIndex: () => `knowledge:index`,
+};
+
+// Invalidation tags - entries are tagged with the data they were built from
+export const CacheTags = {
+  APPOINTMENTS: 'appointments',
+  WEATHER: 'weather',
+  KNOWLEDGE: 'knowledge',
 };
 
 /**
@@ -94,11 +42,9 @@ export const CacheKeys = {
  * 
  * This ensures the dashboard always shows fresh data after mutations.
  */
-export function invalidateAppointmentCaches() {
-  console.log('[CACHE] Invalidating all appointment-related caches');
-  cacheService.invalidate('dashboard:today');
-  cacheService.invalidate('dashboard:counts');
-  cacheService.invalidate('calendar:events');
+export async function invalidateAppointmentCaches(tenantId: string): Promise<void> {
+  console.log(`[CACHE] Invalidating appointment-related caches for tenant ${tenantId}`);
+  await getTenantCache(tenantId).invalidateTags([CacheTags.APPOINTMENTS]);
 }
 
 // Default TTL values (in seconds)
@@ -109,4 +55,3 @@ export const CacheTTL = {
   WEATHER: 3600,    // 1 hour - weather doesn't change that often
 };
 
-console.log('[CACHE] Cache service initialized');
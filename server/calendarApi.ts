@@ -13,6 +13,10 @@ import {
 import { trackReferralSignup } from "./referralService";
 import { recordAppointmentCreated } from "./customerBookingStats";
 import { invalidateAppointmentCaches } from "./cacheService";
+import { bookingSource } from "@shared/attribution";
+import type { TenantDb } from "./tenantDb";
+import type { Customer } from "@shared/schema";
+import { lockTenantSchedule } from "./services/scheduleLock";
 
 // COMMIT
 // Configuration for booking appointments
@@ -23,13 +27,14 @@ import { invalidateAppointmentCaches } from "./cacheService";
  * Helper function to get service info from database
  * Returns duration (for calendar blocking) and service ID (for limit tracking)
  */
-async function getServiceInfo(serviceName: string): Promise<{ duration: number; serviceId: number }> {
+async function getServiceInfo(serviceName: string, tenantDb?: TenantDb): Promise<{ duration: number; serviceId: number }> {
   try {
     const { db: dbInstance } = await import('./db');
     const { services } = await import('@shared/schema');
     const { eq } = await import('drizzle-orm');
-    
-    const result = await dbInstance
+
+    const byName = eq(services.name, serviceName);
+    const result = await (tenantDb ?? dbInstance)
       .select({
         id: services.id,
         duration: services.durationHours,
@@ -37,7 +42,7 @@ async function getServiceInfo(serviceName: string): Promise<{ duration: number;
         maxDuration: services.maxDurationHours,
       })
       .from(services)
-      .where(eq(services.name, serviceName))
+      .where(tenantDb ? tenantDb.withTenantFilter(services, byName) : byName)
       .limit(1);
     
     if (result.length === 0) {
@@ -213,7 +218,8 @@ async function generateConflictSafeFallbackSlots(serviceName: string): Promise<s
 
 /**
  * Handle request for available time slots
- * GRACEFUL DEGRADATION: Returns conflict-safe fallback slots when Google Calendar API unavailable
+ * Slots come from the database-native scheduling engine; Google Calendar and
+ * the conflict-safe fallback are only used if the engine itself fails
  */
 export async function handleGetAvailable(req: any, res: any) {
   try {
@@ -226,7 +232,16 @@ export async function handleGetAvailable(req: any, res: any) {
       });
     }
 
-    // Try to get slots from Google Calendar first
+    // Database-native availability is the source of truth
+    try {
+      const { getNativeSlotTimes } = await import('./services/schedulingEngine');
+      const slots = await getNativeSlotTimes(req.tenantDb?.tenantId || 'root', serviceName);
+      return res.json({ success: true, slots });
+    } catch (engineError: any) {
+      console.error("❌ SCHEDULING ENGINE ERROR - falling back to Google Calendar:", engineError.message);
+    }
+
+    // Legacy path: derive slots from Google Calendar
     try {
       const slots = await generateAvailableSlots(serviceName);
       criticalMonitor.reportSuccess('Google Calendar'); // Report success after successful slot generation
@@ -281,6 +296,27 @@ export async function handleGetAvailable(req: any, res: any) {
   }
 }
 
+/**
+ * Re-run the technician pick once the schedule lock is held: anything booked
+ * since the first pick has committed by now. The calendar event already
+ * exists, so a technician who is no longer free leaves the job unassigned
+ * rather than failing the booking.
+ */
+async function recheckTechnician(tenantId: string, service: string, start: Date, picked: number | null): Promise<number | null> {
+  if (picked === null) return null;
+  try {
+    const { assignTechnicianForBooking } = await import('./services/schedulingEngine');
+    const assignment = await assignTechnicianForBooking(tenantId, service, start);
+    if (assignment.technicianId !== picked) {
+      console.warn(`[SCHEDULING] Technician ${picked} was taken for ${service} at ${start.toISOString()}, now ${assignment.technicianId ?? 'unassigned'}`);
+    }
+    return assignment.technicianId;
+  } catch (error) {
+    console.error("Error re-checking technician (keeping first pick):", error);
+    return picked;
+  }
+}
+
 /**
  * Handle booking appointment request
  */
@@ -316,6 +352,34 @@ export async function handleBook(req: any, res: any) {
       });
     }
 
+    // One tenant for everything below: the technician, the service, the
+    // customer and the appointment all come from (or go to) the same place
+    const { db: rootDb } = await import('./db');
+    const { wrapTenantDb } = await import('./tenantDb');
+    const bookingDb: TenantDb = req.tenantDb ?? wrapTenantDb(rootDb, 'root');
+
+    // Assign a qualified technician with free capacity before anything is written.
+    // Engine errors never block a booking - the job is simply left unassigned.
+    let assignedTechnicianId: number | null = null;
+    try {
+      const { assignTechnicianForBooking } = await import('./services/schedulingEngine');
+      const assignment = await assignTechnicianForBooking(bookingDb.tenantId, service, new Date(time));
+      if (assignment.status === 'no_capacity') {
+        console.log(`[SCHEDULING] Booking rejected: no qualified technician free for ${service} at ${time}`);
+        return res.status(409).json({
+          success: false,
+          error: "NO_TECHNICIAN_AVAILABLE",
+          message: "Sorry, that time was just taken. Please choose another time.",
+        });
+      }
+      assignedTechnicianId = assignment.technicianId;
+      if (assignedTechnicianId) {
+        console.log(`[SCHEDULING] Assigned technician ${assignedTechnicianId} to ${service} at ${time}`);
+      }
+    } catch (assignmentError) {
+      console.error("Error assigning technician (continuing unassigned):", assignmentError);
+    }
+
     // Create a detailed description including any add-on services and address information
     let appointmentDescription = `Service: ${service}`;
     if (isExtendedAreaRequest) {
@@ -473,16 +537,15 @@ export async function handleBook(req: any, res: any) {
       const startTime = new Date(time);
       
       // Get service info (duration and ID) from database
-      const { duration, serviceId } = await getServiceInfo(service);
+      const { duration, serviceId } = await getServiceInfo(service, bookingDb);
       const endTime = new Date(startTime.getTime() + duration * 60 * 60 * 1000);
 
       // Check service limits before booking (prevent bypass)
-      const { db: dbInstance } = await import('./db');
       const { serviceLimits } = await import('@shared/schema');
       const { eq, and } = await import('drizzle-orm');
-      
+
       const dateStr = format(startTime, 'yyyy-MM-dd');
-      const activeServiceLimits = await dbInstance
+      const activeServiceLimits = await bookingDb
         .select({
           id: serviceLimits.id,
           dailyLimit: serviceLimits.dailyLimit,
@@ -490,12 +553,13 @@ export async function handleBook(req: any, res: any) {
           effectiveTo: serviceLimits.effectiveTo,
         })
         .from(serviceLimits)
-        .where(
+        .where(bookingDb.withTenantFilter(
+          serviceLimits,
           and(
             eq(serviceLimits.serviceId, serviceId),
             eq(serviceLimits.isActive, true)
           )
-        );
+        ));
 
       const applicableLimit = activeServiceLimits.find(limit => {
         const effectiveFrom = limit.effectiveFrom;
@@ -552,7 +616,7 @@ export async function handleBook(req: any, res: any) {
       if (referralCode && referralCode.trim()) {
         try {
           console.log(`[REFERRAL] Tracking referral signup with code: ${referralCode}`);
-          const referralResult = await trackReferralSignup(req.tenantDb!, referralCode.trim().toUpperCase(), {
+          const referralResult = await trackReferralSignup(bookingDb, referralCode.trim().toUpperCase(), {
             phone,
             email,
             name,
@@ -651,17 +715,18 @@ export async function handleBook(req: any, res: any) {
         // Save appointment to database
         let customerId: number | undefined;
         try {
-          const { db: dbInstance } = await import('./db');
           const { customers, appointments } = await import('@shared/schema');
           const { eq } = await import('drizzle-orm');
 
           // Find or create customer
-          let customer = await dbInstance.query.customers.findFirst({
-            where: eq(customers.phone, phone),
-          });
+          let [customer] = await bookingDb
+            .select()
+            .from(customers)
+            .where(bookingDb.withTenantFilter(customers, eq(customers.phone, phone)))
+            .limit(1);
 
           if (!customer) {
-            const [newCustomer] = await dbInstance.insert(customers).values({
+            const [newCustomer] = await bookingDb.insert(customers).values({
               name,
               phone,
               email: email || null,
@@ -669,7 +734,7 @@ export async function handleBook(req: any, res: any) {
               vehicleInfo: vehicles && vehicles.length > 0 ? JSON.stringify(vehicles) : null,
               smsConsent: smsConsent || false,
               smsConsentTimestamp: smsConsent ? new Date() : null,
-            }).returning();
+            }).returning() as Customer[];
             customer = newCustomer;
           }
 
@@ -680,11 +745,17 @@ export async function handleBook(req: any, res: any) {
           console.log(`[SCHEDULING] Booking created eventId=${eventId} (stats_write=attempting)`);
           
           let statsRecorded = false;
-          await dbInstance.transaction(async (tx) => {
-            await tx.insert(appointments).values({
+          let appointmentId: number | undefined;
+          await bookingDb.transaction(async (tx) => {
+            await lockTenantSchedule(tx, bookingDb.tenantId);
+            const technicianId = await recheckTechnician(bookingDb.tenantId, service, startTime, assignedTechnicianId);
+            const [created] = await tx.insert(appointments).values({
+              tenantId: bookingDb.tenantId,
               customerId: customer.id,
               serviceId: serviceId,
               scheduledTime: startTime,
+              calendarEventId: eventId,
+              technicianId,
               address: address || '',
               latitude: latitude || null,
               longitude: longitude || null,
@@ -692,11 +763,12 @@ export async function handleBook(req: any, res: any) {
               addressNeedsReview: addressNeedsReview || false,
               addOns: addOns.length > 0 ? addOns : null,
               additionalRequests: notes ? [notes] : null,
-            });
+            }).returning({ id: appointments.id });
+            appointmentId = created?.id;
 
             // Track booking stats for customer - in same transaction (fail-open)
             statsRecorded = await recordAppointmentCreated(customer.id, startTime, tx, {
-              tenantId: 'root',
+              tenantId: bookingDb.tenantId,
               phone: phone,
               service: service,
               eventId: eventId
@@ -706,12 +778,18 @@ export async function handleBook(req: any, res: any) {
           const statsMsg = statsRecorded ? 'recorded=true' : 'recorded=false reason=transaction-failed';
           console.log(`[BOOKING STATS] ${statsMsg} eventId=${eventId}`);
 
+          // Credit the booking to the link, referral or site visit it came from (fail-open)
+          if (appointmentId) {
+            const { attributeAppointment } = await import('./services/attributionService');
+            await attributeAppointment(bookingDb, appointmentId, customer.id, bookingSource(req.body.attribution, referralCode));
+          }
+
           // Create SMS booking confirmation record for bookings >= 14 days out (fail-open)
           try {
             const daysDiff = (startTime.getTime() - new Date().getTime()) / (24 * 60 * 60 * 1000);
             if (daysDiff >= 14) {
               const { createSmsBookingRecord } = await import('./services/smsBookingRecordService');
-              await createSmsBookingRecord('root', {
+              await createSmsBookingRecord(bookingDb.tenantId, {
                 phone,
                 eventId,
                 service,
@@ -729,7 +807,7 @@ export async function handleBook(req: any, res: any) {
         }
 
         // Invalidate dashboard caches since a new appointment was created
-        invalidateAppointmentCaches();
+        await invalidateAppointmentCaches(bookingDb.tenantId);
 
         // Return successful response with event details
         return res.json({
@@ -758,17 +836,18 @@ export async function handleBook(req: any, res: any) {
     console.log('[FALLBACK] Calendar API unavailable - saving appointment to database only');
     let fallbackCustomerId: number | undefined;
     try {
-      const { db: dbInst } = await import('./db');
       const { customers, appointments } = await import('@shared/schema');
       const { eq } = await import('drizzle-orm');
 
       // Find or create customer
-      let customer = await dbInst.query.customers.findFirst({
-        where: eq(customers.phone, phone),
-      });
+      let [customer] = await bookingDb
+        .select()
+        .from(customers)
+        .where(bookingDb.withTenantFilter(customers, eq(customers.phone, phone)))
+        .limit(1);
 
       if (!customer) {
-        const [newCustomer] = await dbInst.insert(customers).values({
+        const [newCustomer] = await bookingDb.insert(customers).values({
           name,
           phone,
           email: email || null,
@@ -776,23 +855,28 @@ export async function handleBook(req: any, res: any) {
           vehicleInfo: vehicles && vehicles.length > 0 ? JSON.stringify(vehicles) : null,
           smsConsent: smsConsent || false,
           smsConsentTimestamp: smsConsent ? new Date() : null,
-        }).returning();
+        }).returning() as Customer[];
         customer = newCustomer;
       }
 
       fallbackCustomerId = customer.id;
 
       // Get service ID from database
-      const fallbackServiceInfo = await getServiceInfo(service);
+      const fallbackServiceInfo = await getServiceInfo(service, bookingDb);
       const fallbackServiceId = fallbackServiceInfo.serviceId;
 
       // Create appointment record with lat/lng - wrap in transaction with stats update
       const fallbackStartTime = new Date(time);
-      await dbInst.transaction(async (tx) => {
-        await tx.insert(appointments).values({
+      let fallbackAppointmentId: number | undefined;
+      await bookingDb.transaction(async (tx) => {
+        await lockTenantSchedule(tx, bookingDb.tenantId);
+        const technicianId = await recheckTechnician(bookingDb.tenantId, service, fallbackStartTime, assignedTechnicianId);
+        const [created] = await tx.insert(appointments).values({
+          tenantId: bookingDb.tenantId,
           customerId: customer.id,
           serviceId: fallbackServiceId,
           scheduledTime: fallbackStartTime,
+          technicianId,
           address: address || '',
           latitude: latitude || null,
           longitude: longitude || null,
@@ -800,12 +884,18 @@ export async function handleBook(req: any, res: any) {
           addressNeedsReview: addressNeedsReview || false,
           addOns: addOns.length > 0 ? addOns : null,
           additionalRequests: notes ? [notes] : null,
-        });
+        }).returning({ id: appointments.id });
+        fallbackAppointmentId = created?.id;
 
         // Track booking stats for customer - in same transaction
         await recordAppointmentCreated(customer.id, fallbackStartTime, tx);
       });
 
+      if (fallbackAppointmentId) {
+        const { attributeAppointment } = await import('./services/attributionService');
+        await attributeAppointment(bookingDb, fallbackAppointmentId, customer.id, bookingSource(req.body.attribution, referralCode));
+      }
+
       console.log('[FALLBACK DB] Appointment saved to database with lat/lng:', { latitude, longitude, addressNeedsReview });
 
       // Create SMS booking confirmation record for fallback bookings >= 14 days out (fail-open)
@@ -814,7 +904,7 @@ export async function handleBook(req: any, res: any) {
         if (daysDiff >= 14) {
           const { createSmsBookingRecord } = await import('./services/smsBookingRecordService');
           const fallbackEventId = `fallback-${customer.id}-${fallbackStartTime.getTime()}`;
-          await createSmsBookingRecord('root', {
+          await createSmsBookingRecord(bookingDb.tenantId, {
             phone,
             eventId: fallbackEventId,
             service,
@@ -896,6 +986,8 @@ export async function handleBook(req: any, res: any) {
 
 /**
  * Generate available appointment slots based on calendar availability
+ * Legacy: the scheduling engine (services/schedulingEngine.ts) is the primary
+ * source; this is only used when the engine cannot run
  */
 export async function generateAvailableSlots(serviceName: string) {
   // Get fresh calendar client (never cache - tokens expire)
@@ -3,7 +3,7 @@ import { getGoogleCalendarClient } from './googleCalendarConnector';
 import { criticalMonitor } from './criticalMonitoring';
 import type { TenantDb } from './tenantDb';
 import { businessSettings } from '@shared/schema';
-import { addDays, addMonths, format, parse, startOfDay, endOfDay, addMinutes, isBefore, isAfter } from 'date-fns';
+import { addDays, addMonths, format, parse, startOfDay, endOfDay, addMinutes, isBefore, isAfter, differenceInCalendarDays } from 'date-fns';
 
 interface TimeSlot {
   start: string; // ISO 8601 datetime
@@ -28,7 +28,7 @@ interface CalendarDay {
 
 export interface AvailabilityResult {
   days: CalendarDay[];
-  usedSource: 'google_calendar' | 'internal_fallback';
+  usedSource: 'native' | 'google_calendar' | 'internal_fallback';
   error?: string;
 }
 
@@ -300,6 +300,41 @@ export async function getCalendarAvailability(
   const startDate = parse(request.startDate, 'yyyy-MM-dd', new Date());
   const endDate = parse(request.endDate, 'yyyy-MM-dd', new Date());
 
+  // Database-native availability is the source of truth; Google Calendar is
+  // only an overlay inside the engine and a fallback below
+  try {
+    const { getNativeAvailability } = await import('./services/schedulingEngine');
+    const native = await getNativeAvailability(tenantDb.tenantId, {
+      durationMinutes: request.serviceDurationMinutes,
+      startDate: request.startDate,
+      horizonDays: differenceInCalendarDays(endDate, startDate) + 1,
+    });
+
+    const calendarDays: CalendarDay[] = [];
+    for (let currentDate = startDate; isBefore(currentDate, addDays(endDate, 1)); currentDate = addDays(currentDate, 1)) {
+      const date = format(currentDate, 'yyyy-MM-dd');
+      if (!native.hours.workingDays.includes(currentDate.getDay())) {
+        calendarDays.push({ date, isAvailable: false, reason: 'closed' });
+        continue;
+      }
+
+      const timeSlots: TimeSlot[] = native.slots
+        .filter(slot => slot.date === date)
+        .map(slot => ({ start: slot.startIso, end: slot.endIso, available: true }));
+
+      calendarDays.push({
+        date,
+        isAvailable: timeSlots.length > 0,
+        reason: timeSlots.length > 0 ? undefined : 'fully_booked',
+        timeSlots,
+      });
+    }
+
+    return { days: calendarDays, usedSource: 'native' };
+  } catch (err: any) {
+    console.warn('[CALENDAR AVAILABILITY] Native scheduling engine failed, falling back:', err?.message || err);
+  }
+
   let businessHours: { start: string; end: string; lunchStart: string; lunchEnd: string; hasLunchBreak: boolean };
   
   try {
@@ -1,5 +1,6 @@
 import type { TenantDb } from './tenantDb';
 import { callEvents, conversations } from '@shared/schema';
+import type { VoiceTranscriptTurn } from '@shared/aiVoice';
 import { eq } from 'drizzle-orm';
 import { db } from './db';
 
@@ -25,6 +26,11 @@ export interface CallEventData {
   // AI-generated voicemail intelligence (Phone Intelligence v1)
   aiSummary?: string;
   aiPriority?: 'HIGH' | 'NORMAL';
+  // AI voice receptionist
+  aiTranscript?: VoiceTranscriptTurn[];
+  // Automated outbound calls
+  purpose?: string;
+  outcome?: string;
 }
 
 /**
@@ -76,6 +82,9 @@ export async function logCallEvent(tenantDb: TenantDb, callData: CallEventData):
       endedAt: callData.endedAt,
       technicianId: callData.technicianId,
       appointmentId: callData.appointmentId,
+      aiTranscript: callData.aiTranscript,
+      purpose: callData.purpose,
+      outcome: callData.outcome,
     }).returning({ id: callEvents.id });
     
     console.log(`[CALL LOG] Created call event ${callEvent.id} for call ${callData.callSid}`);
@@ -113,6 +122,9 @@ export async function updateCallEvent(
     // AI-generated voicemail intelligence
     if (updates.aiSummary !== undefined) updateData.aiSummary = updates.aiSummary;
     if (updates.aiPriority !== undefined) updateData.aiPriority = updates.aiPriority;
+    if (updates.aiTranscript !== undefined) updateData.aiTranscript = updates.aiTranscript;
+    // Automated outbound calls
+    if (updates.outcome !== undefined) updateData.outcome = updates.outcome;
     
     // Only update if there are fields to update
     if (Object.keys(updateData).length > 0) {
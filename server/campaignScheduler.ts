@@ -1,12 +1,15 @@
 import cron from 'node-cron';
 import { processEmailCampaigns } from './emailCampaignService';
 import { processSMSCampaigns } from './smsCampaignService';
+import { decideDueExperiments } from './services/campaignExperimentService';
 import { wrapTenantDb } from './tenantDb';
 import { db } from './db';
 
 /**
  * Initialize campaign cron job processor (email + SMS)
- * Runs every hour at :00 minutes to process scheduled campaigns
+ * Runs every hour at :00 minutes to process scheduled campaigns. A/B tests
+ * whose window is over pick a winner first, so its remainder goes out in
+ * the same pass.
  */
 export function initializeCampaignScheduler() {
   // Run every hour (at the start of each hour)
@@ -14,6 +17,7 @@ export function initializeCampaignScheduler() {
     console.log('[CAMPAIGN SCHEDULER] Running hourly campaign processing...');
     try {
       const tenantDb = wrapTenantDb(db, 'root');
+      await decideDueExperiments(tenantDb);
       await Promise.all([
         processEmailCampaigns(tenantDb),
         processSMSCampaigns(tenantDb)
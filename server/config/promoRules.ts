@@ -1,21 +1,23 @@
 /**
  * Phase 14 - Promo Engine Rules Configuration
  * 
- * Defines anti-abuse rules for promotional loyalty point awards.
- * These rules are tenant-agnostic but enforced per-tenant via the promo engine.
- * 
- * Future: These could be moved to database for per-tenant customization.
+ * Built-in anti-abuse rules for promotional loyalty point awards.
+ * Tenants can override any of these (or add new promos) in the
+ * promo_rule_definitions table - see server/services/promoRuleService.ts.
+ * These defaults apply to any promo key a tenant hasn't defined.
  */
 
 export const PROMO_RULES = {
   welcome_back_v1: {
+    name: 'Welcome Back Bonus',
     perCustomerLifetimeMax: 1,      // Customer can only get welcome back bonus once ever
     perCustomerPerYearMax: 1,       // Annual cap (redundant with lifetime but enforces calendar year tracking)
     perHouseholdPerYearMax: 1,      // Only 1 person per household can claim per year
-    requireExistingJob: false,      // TODO Phase 14: Set to true once job-based eligibility is implemented
+    eligibility: {},                // e.g. { minCompletedJobs: 1 } to require an existing job
     awardMode: 'pending_until_next_completed_job' as const, // Points pending until next job completion
   },
   referral_v1: {
+    name: 'Referral Reward',
     perCustomerPerYearMax: 5,       // Can refer up to 5 people per year
     awardMode: 'immediate' as const, // Points awarded immediately when referral completes first job
   },
@@ -212,7 +212,7 @@ export async function getConversationById(
     
     if (conv.customerPhone) {
       try {
-        const state = conversationState.getState(conv.customerPhone);
+        const state = await conversationState.load(conv.customerPhone, tenantDb.tenantId);
         // Map conversation state to booking status helper format
         // Merge behaviorSettings.booking flags with conversation state
         bookingStatus = getBookingStatusFromState({
@@ -1,136 +1,138 @@
 /**
  * Conversation State Tracker for Scheduling Flow
  * Tracks what information has been collected so customers don't repeat themselves
+ *
+ * State is kept per tenant and phone. Reads are served from memory; every
+ * change is written through to booking_sessions, and load() pulls the stored
+ * session back in before an inbound message is handled, so a restart or a
+ * different instance continues the same booking.
  */
 
-interface SchedulingInfo {
-  // Customer identification
-  customerPhone?: string;
-  customerName?: string;
-  customerEmail?: string;
-  isExistingCustomer?: boolean;
-  
-  // Appointment details
-  address?: string;
-  addressValidated?: boolean;
-  isInServiceArea?: boolean;
-  driveTimeMinutes?: number;
-  
-  service?: string;
-  selectedTimeSlot?: string;
-  addOns?: string[];
-  
-  // Vehicle info
-  vehicles?: Array<{
-    year?: string;
-    make?: string;
-    model?: string;
-    color?: string;
-    condition?: string[];
-  }>;
-  
-  // Customer memory (hydrated from DB for returning customers)
-  customerProfileSummary?: string;
-  preferredAddress?: string;
-  preferredVehicles?: Array<{ year?: string; make?: string; model?: string; color?: string }>;
-  
-  // Damage Assessment
-  damageAssessmentRequested?: boolean;
-  damageDescription?: string;
-  damageType?: string;
-  damagePhotosUploaded?: string[];
-  damageAssessmentStatus?: 'pending' | 'reviewed' | 'approved' | 'rejected';
-  
-  // Conversation flow tracking
-  stepsCompleted: {
-    customerIdentified: boolean;
-    addressValidated: boolean;
-    serviceSelected: boolean;
-    timeSlotSelected: boolean;
-    upsellsOffered: boolean;
-    finalConfirmation: boolean;
-  };
-  
-  // Temporary data
-  offeredTimeSlots?: Array<{
-    time: string;
-    available: boolean;
-  }>;
-  offeredUpsells?: Array<{
-    name: string;
-    price: string;
-    description: string;
-  }>;
-  
-  lastUpdated: Date;
-}
+import { db } from './db';
+import { wrapTenantDb } from './tenantDb';
+import {
+  clearSchedulingState,
+  loadSchedulingState,
+  saveSchedulingState,
+} from './services/bookingSessionStore';
+import {
+  createSchedulingInfo,
+  mergeSchedulingInfo,
+  resetSchedulingInfo,
+  type SchedulingInfo,
+} from '@shared/bookingSession';
+
+export type { SchedulingInfo };
 
 class ConversationStateManager {
   private conversationStates: Map<string, SchedulingInfo> = new Map();
-  
+  // Per-session write chain so saves land in order and load() can wait for them
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  private key(phone: string, tenantId: string): string {
+    return `${tenantId}:${phone}`;
+  }
+
+  private persist(phone: string, tenantId: string, write: () => Promise<void>): void {
+    const key = this.key(phone, tenantId);
+    const previous = this.pendingWrites.get(key) ?? Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch((error) => {
+        console.error(`[BOOKING SESSION] tenantId=${tenantId} failed to save session for ${phone}:`, error);
+      });
+    this.pendingWrites.set(key, next);
+    next.then(() => {
+      if (this.pendingWrites.get(key) === next) this.pendingWrites.delete(key);
+    });
+  }
+
+  private save(phone: string, tenantId: string, state: SchedulingInfo): void {
+    this.persist(phone, tenantId, () => saveSchedulingState(wrapTenantDb(db, tenantId), phone, state));
+  }
+
+  /**
+   * Pull the stored session into memory. Call before handling an inbound
+   * message; falls back to the in-memory copy if the database is unavailable.
+   */
+  async load(phone: string, tenantId: string = 'root'): Promise<SchedulingInfo> {
+    await this.flush(phone, tenantId);
+    try {
+      const stored = await loadSchedulingState(wrapTenantDb(db, tenantId), phone);
+      if (stored) {
+        this.conversationStates.set(this.key(phone, tenantId), stored);
+      }
+    } catch (error) {
+      console.error(`[BOOKING SESSION] tenantId=${tenantId} failed to load session for ${phone}:`, error);
+    }
+    return this.getState(phone, tenantId);
+  }
+
+  /**
+   * Wait until every change made so far has been written
+   */
+  async flush(phone: string, tenantId: string = 'root'): Promise<void> {
+    await this.pendingWrites.get(this.key(phone, tenantId));
+  }
+
   /**
    * Get or create conversation state for a phone number
    */
-  getState(phone: string): SchedulingInfo {
-    if (!this.conversationStates.has(phone)) {
-      this.conversationStates.set(phone, {
-        customerPhone: phone,
-        stepsCompleted: {
-          customerIdentified: false,
-          addressValidated: false,
-          serviceSelected: false,
-          timeSlotSelected: false,
-          upsellsOffered: false,
-          finalConfirmation: false,
-        },
-        lastUpdated: new Date(),
-      });
+  getState(phone: string, tenantId: string = 'root'): SchedulingInfo {
+    const key = this.key(phone, tenantId);
+    if (!this.conversationStates.has(key)) {
+      this.conversationStates.set(key, createSchedulingInfo(phone));
     }
-    return this.conversationStates.get(phone)!;
+    return this.conversationStates.get(key)!;
   }
   
   /**
    * Update conversation state with new information
    */
-  updateState(phone: string, updates: Partial<SchedulingInfo>): SchedulingInfo {
-    const currentState = this.getState(phone);
-    const updatedState = {
-      ...currentState,
-      ...updates,
-      stepsCompleted: {
-        ...currentState.stepsCompleted,
-        ...(updates.stepsCompleted || {}),
-      },
-      lastUpdated: new Date(),
-    };
-    
-    this.conversationStates.set(phone, updatedState);
+  updateState(phone: string, updates: Partial<SchedulingInfo>, tenantId: string = 'root'): SchedulingInfo {
+    const updatedState = mergeSchedulingInfo(this.getState(phone, tenantId), updates);
+    this.conversationStates.set(this.key(phone, tenantId), updatedState);
+    this.save(phone, tenantId, updatedState);
     return updatedState;
   }
   
   /**
    * Mark a step as completed
    */
-  completeStep(phone: string, step: keyof SchedulingInfo['stepsCompleted']): void {
-    const state = this.getState(phone);
+  completeStep(phone: string, step: keyof SchedulingInfo['stepsCompleted'], tenantId: string = 'root'): void {
+    const state = this.getState(phone, tenantId);
     state.stepsCompleted[step] = true;
     state.lastUpdated = new Date();
-    this.conversationStates.set(phone, state);
+    this.save(phone, tenantId, state);
+  }
+
+  /**
+   * Start a new booking in the same session (see shouldResetBookingState)
+   */
+  resetSession(
+    phone: string,
+    tenantId: string = 'root',
+    options: { preserveAddress?: string; newService?: string } = {}
+  ): SchedulingInfo {
+    const state = resetSchedulingInfo(this.getState(phone, tenantId), options);
+    this.conversationStates.set(this.key(phone, tenantId), state);
+    this.save(phone, tenantId, state);
+    return state;
   }
   
   /**
    * Check if specific information has been collected
    */
-  hasInfo(phone: string, field: keyof SchedulingInfo): boolean {
-    const state = this.getState(phone);
+  hasInfo(phone: string, field: keyof SchedulingInfo, tenantId: string = 'root'): boolean {
+    const state = this.getState(phone, tenantId);
     return state[field] !== undefined && state[field] !== null && state[field] !== '';
   }
   
   /**
    * Get missing required fields for booking
    */
-  getMissingFields(phone: string): string[] {
-    const state = this.getState(phone);
+  getMissingFields(phone: string, tenantId: string = 'root'): string[] {
+    const state = this.getState(phone, tenantId);
     const missing: string[] = [];
     
     if (!state.customerName) missing.push('name');
@@ -144,15 +146,15 @@ class ConversationStateManager {
   /**
    * Check if we have all required info to book
    */
-  isReadyToBook(phone: string): boolean {
-    return this.getMissingFields(phone).length === 0;
+  isReadyToBook(phone: string, tenantId: string = 'root'): boolean {
+    return this.getMissingFields(phone, tenantId).length === 0;
   }
   
   /**
    * Build a summary of collected information
    */
-  buildSummary(phone: string): string {
-    const state = this.getState(phone);
+  buildSummary(phone: string, tenantId: string = 'root'): string {
+    const state = this.getState(phone, tenantId);
     let summary = 'Collected Information:\n';
     
     if (state.customerName) summary += `✓ Name: ${state.customerName}\n`;
@@ -176,7 +178,7 @@ class ConversationStateManager {
       });
     }
     
-    const missing = this.getMissingFields(phone);
+    const missing = this.getMissingFields(phone, tenantId);
     if (missing.length > 0) {
       summary += `\nStill need: ${missing.join(', ')}`;
     }
@@ -187,15 +189,16 @@ class ConversationStateManager {
   /**
    * Clear conversation state (after booking or timeout)
    */
-  clearState(phone: string): void {
-    this.conversationStates.delete(phone);
+  clearState(phone: string, tenantId: string = 'root'): void {
+    this.conversationStates.delete(this.key(phone, tenantId));
+    this.persist(phone, tenantId, () => clearSchedulingState(wrapTenantDb(db, tenantId), phone));
   }
   
   /**
    * Get next step in the scheduling flow
    */
-  getNextStep(phone: string): string {
-    const state = this.getState(phone);
+  getNextStep(phone: string, tenantId: string = 'root'): string {
+    const state = this.getState(phone, tenantId);
     
     if (!state.stepsCompleted.customerIdentified) {
       return 'identify_customer';
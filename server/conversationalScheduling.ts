@@ -30,11 +30,12 @@ export async function handleConversationalScheduling(
   userMessage: string,
   phoneNumber: string,
   platform: "sms" | "web" = "web",
-  behaviorSettings?: any
+  behaviorSettings?: any,
+  tenantId?: string
 ): Promise<SchedulingOrchestrationResult> {
   
-  const state = conversationState.getState(phoneNumber);
-  const nextStep = conversationState.getNextStep(phoneNumber);
+  const state = await conversationState.load(phoneNumber, tenantId);
+  const nextStep = conversationState.getNextStep(phoneNumber, tenantId);
   
   // Extract information from the message
   customerMemory.extractPersonalInfo(userMessage, phoneNumber);
@@ -47,7 +48,7 @@ export async function handleConversationalScheduling(
       customerName: memoryCustomer.name || state.customerName,
       customerEmail: memoryCustomer.email || state.customerEmail,
       address: memoryCustomer.address || state.address,
-    });
+    }, tenantId);
   }
   
   // Check for confirmation keywords
@@ -60,10 +61,10 @@ export async function handleConversationalScheduling(
   
   // STEP 1: Identify Customer
   if (!state.stepsCompleted.customerIdentified && isSchedulingIntent) {
-    const customerData = await checkCustomerDatabase(phoneNumber);
+    const customerData = await checkCustomerDatabase(phoneNumber, tenantId);
     
     if (customerData.found) {
-      conversationState.completeStep(phoneNumber, 'customerIdentified');
+      conversationState.completeStep(phoneNumber, 'customerIdentified', tenantId);
       
       let greeting = `Hi ${customerData.name}! Welcome back! `;
       if (customerData.lastVisit) {
@@ -87,7 +88,7 @@ export async function handleConversationalScheduling(
         needsUserInput: state.address ? ['service'] : ['address'],
       };
     } else {
-      conversationState.completeStep(phoneNumber, 'customerIdentified');
+      conversationState.completeStep(phoneNumber, 'customerIdentified', tenantId);
       
       const greeting = `Hi there! I'd be happy to help you schedule a detail. To get started, could you please provide your name and address?`;
       
@@ -107,7 +108,7 @@ export async function handleConversationalScheduling(
     
     if (hasAddress) {
       const addressToValidate = state.address || userMessage;
-      const validationResult = await validateAddress(phoneNumber, addressToValidate);
+      const validationResult = await validateAddress(phoneNumber, addressToValidate, tenantId);
       
       let response = validationResult.message;
       
@@ -163,11 +164,11 @@ export async function handleConversationalScheduling(
     }
     
     if (detectedService) {
-      conversationState.updateState(phoneNumber, { service: detectedService });
-      conversationState.completeStep(phoneNumber, 'serviceSelected');
+      conversationState.updateState(phoneNumber, { service: detectedService }, tenantId);
+      conversationState.completeStep(phoneNumber, 'serviceSelected', tenantId);
       
       // Get available time slots
-      const slots = await getAvailableSlots(phoneNumber, detectedService);
+      const slots = await getAvailableSlots(phoneNumber, detectedService, tenantId);
       
       if (slots.length > 0) {
         let response = `Perfect! For ${detectedService}, here are some available times:\n\n`;
@@ -183,7 +184,7 @@ export async function handleConversationalScheduling(
         };
       } else {
         // Store empty slots to signal fallback mode
-        conversationState.updateState(phoneNumber, { offeredTimeSlots: [] });
+        conversationState.updateState(phoneNumber, { offeredTimeSlots: [] }, tenantId);
         
         return {
           response: `I'm having trouble accessing our calendar right now. What day and time were you hoping for? I'll check availability and confirm with you.`,
@@ -197,7 +198,10 @@ export async function handleConversationalScheduling(
         "What services do you offer and what are the prices?",
         phoneNumber,
         platform,
-        behaviorSettings
+        behaviorSettings,
+        undefined,
+        false,
+        tenantId
       );
       
       return {
@@ -221,11 +225,11 @@ export async function handleConversationalScheduling(
         // Store the user's requested time as a string for manual confirmation
         conversationState.updateState(phoneNumber, { 
           selectedTimeSlot: userMessage, // Store the natural language request, NOT a placeholder
-        });
-        conversationState.completeStep(phoneNumber, 'timeSlotSelected');
+        }, tenantId);
+        conversationState.completeStep(phoneNumber, 'timeSlotSelected', tenantId);
         
         // Offer upsells before going to confirmation
-        const upsells = await getUpsellOffers(phoneNumber, state.service!);
+        const upsells = await getUpsellOffers(phoneNumber, state.service!, tenantId);
         
         if (upsells.length > 0) {
           let response = `Got it! I've noted your preferred time as: ${userMessage}.\n\n`;
@@ -242,7 +246,7 @@ export async function handleConversationalScheduling(
           };
         } else {
           // Skip to manual confirmation (don't auto-book)
-          conversationState.completeStep(phoneNumber, 'upsellsOffered');
+          conversationState.completeStep(phoneNumber, 'upsellsOffered', tenantId);
           
           let response = `Perfect! I've noted your preferred time as: ${userMessage}.\n\n`;
           response += `⚠️ Note: I'll need to manually confirm this time slot with our calendar. `;
@@ -285,8 +289,8 @@ export async function handleConversationalScheduling(
       
       if (slotIndex >= 0 && slotIndex < state.offeredTimeSlots.length) {
         const selectedSlot = state.offeredTimeSlots[slotIndex];
-        conversationState.updateState(phoneNumber, { selectedTimeSlot: selectedSlot.time });
-        conversationState.completeStep(phoneNumber, 'timeSlotSelected');
+        conversationState.updateState(phoneNumber, { selectedTimeSlot: selectedSlot.time }, tenantId);
+        conversationState.completeStep(phoneNumber, 'timeSlotSelected', tenantId);
         
         // Format the selected time
         const selectedTime = new Date(selectedSlot.time);
@@ -301,7 +305,7 @@ export async function handleConversationalScheduling(
         const formattedSelectedTime = selectedTime.toLocaleString('en-US', timeOptions);
         
         // Offer upsells
-        const upsells = await getUpsellOffers(phoneNumber, state.service!);
+        const upsells = await getUpsellOffers(phoneNumber, state.service!, tenantId);
         
         if (upsells.length > 0) {
           let response = `Great! I have you scheduled for ${state.service} on ${formattedSelectedTime}.\n\n`;
@@ -319,8 +323,8 @@ export async function handleConversationalScheduling(
           };
         } else {
           // Skip to confirmation
-          conversationState.completeStep(phoneNumber, 'upsellsOffered');
-          const summary = buildInvoiceSummary(phoneNumber);
+          conversationState.completeStep(phoneNumber, 'upsellsOffered', tenantId);
+          const summary = await buildInvoiceSummary(phoneNumber, tenantId);
           
           return {
             response: summary,
@@ -343,8 +347,8 @@ export async function handleConversationalScheduling(
     const declinePattern = /\b(no|nope|no thanks|skip|none|pass)\b/i;
     
     if (declinePattern.test(userMessage)) {
-      conversationState.completeStep(phoneNumber, 'upsellsOffered');
-      const summary = buildInvoiceSummary(phoneNumber);
+      conversationState.completeStep(phoneNumber, 'upsellsOffered', tenantId);
+      const summary = await buildInvoiceSummary(phoneNumber, tenantId);
       
       return {
         response: summary,
@@ -362,11 +366,11 @@ export async function handleConversationalScheduling(
           .filter((name): name is string => name !== null && name !== undefined);
         
         if (selectedUpsells.length > 0) {
-          conversationState.updateState(phoneNumber, { addOns: selectedUpsells });
+          conversationState.updateState(phoneNumber, { addOns: selectedUpsells }, tenantId);
         }
         
-        conversationState.completeStep(phoneNumber, 'upsellsOffered');
-        const summary = buildInvoiceSummary(phoneNumber);
+        conversationState.completeStep(phoneNumber, 'upsellsOffered', tenantId);
+        const summary = await buildInvoiceSummary(phoneNumber, tenantId);
         
         return {
           response: summary,
@@ -385,10 +389,10 @@ export async function handleConversationalScheduling(
       
       // Only auto-book if we have a valid ISO timestamp from calendar slots
       if (isValidISOTime) {
-        const bookingResult = await createAppointment(phoneNumber);
+        const bookingResult = await createAppointment(phoneNumber, tenantId);
         
         if (bookingResult.success) {
-          conversationState.clearState(phoneNumber);
+          conversationState.clearState(phoneNumber, tenantId);
           
           let response = `✅ Perfect! Your appointment has been confirmed!\n\n`;
           response += `You'll receive a confirmation ${state.customerEmail ? 'email' : 'text'} shortly with all the details.`;
@@ -410,7 +414,7 @@ export async function handleConversationalScheduling(
         }
       } else {
         // Natural language time - manual confirmation needed
-        conversationState.clearState(phoneNumber);
+        conversationState.clearState(phoneNumber, tenantId);
         
         let response = `✅ Thank you! Your appointment request has been submitted.\n\n`;
         response += `📋 Request Details:\n`;
@@ -436,7 +440,7 @@ export async function handleConversationalScheduling(
       // Check if customer wants to make changes
       const changePattern = /\b(change|modify|different|wrong|update|edit)\b/i;
       if (changePattern.test(userMessage)) {
-        conversationState.clearState(phoneNumber);
+        conversationState.clearState(phoneNumber, tenantId);
         return {
           response: `No problem! Let's start fresh. What would you like to schedule?`,
           schedulingComplete: false,
@@ -455,7 +459,7 @@ export async function handleConversationalScheduling(
   // Check if customer wants to start a new booking
   const newBookingPattern = /\b(new appointment|another appointment|schedule|book)\b/i;
   if (newBookingPattern.test(userMessage) && nextStep === 'complete') {
-    conversationState.clearState(phoneNumber);
+    conversationState.clearState(phoneNumber, tenantId);
     const greeting = `Sure! I'd be happy to help you schedule ${state.isExistingCustomer ? 'another' : 'an'} appointment. What service are you interested in?`;
     return {
       response: greeting,
@@ -465,11 +469,11 @@ export async function handleConversationalScheduling(
   }
   
   // Default: Generate AI response for general questions
-  const aiResponse = await generateAIResponse(userMessage, phoneNumber, platform, behaviorSettings);
+  const aiResponse = await generateAIResponse(userMessage, phoneNumber, platform, behaviorSettings, undefined, false, tenantId);
   
   return {
     response: aiResponse || "I'm having trouble processing your request. Please try again.",
     schedulingComplete: false,
-    needsUserInput: conversationState.getMissingFields(phoneNumber),
+    needsUserInput: conversationState.getMissingFields(phoneNumber, tenantId),
   };
 }
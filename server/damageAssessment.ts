@@ -1,5 +1,6 @@
 import { conversationState } from './conversationState';
 import { sendSMS } from './notifications';
+import { SHARED_MEDIA_URL_TTL_SECONDS, signedMediaUrl } from './services/mediaPipeline';
 
 /**
  * Request damage photos from customer
@@ -8,7 +9,8 @@ import { sendSMS } from './notifications';
 export async function requestDamagePhotos(
   phone: string,
   damageDescription: string,
-  damageType: string
+  damageType: string,
+  tenantId: string = 'root'
 ): Promise<{
   success: boolean;
   message: string;
@@ -16,7 +18,7 @@ export async function requestDamagePhotos(
 }> {
   try {
     // Get conversation state to mark for damage assessment
-    const state = conversationState.getState(phone);
+    const state = conversationState.getState(phone, tenantId);
     
     // Update state with damage info and set status to pending
     conversationState.updateState(phone, {
@@ -24,7 +26,7 @@ export async function requestDamagePhotos(
       damageDescription,
       damageType,
       damageAssessmentStatus: 'pending',
-      damagePhotosUploaded: [], // Initialize empty array for photo URLs
+      damagePhotoKeys: [], // Media storage keys; links are signed when shown
     } as any);
     
     console.log(`[DAMAGE ASSESSMENT] Photo request for ${phone}: ${damageDescription} (${damageType})`);
@@ -49,26 +51,29 @@ export async function requestDamagePhotos(
 
 /**
  * Handle photo upload from customer
- * Stores photo in Google Drive and alerts business owner
+ * Records the stored photo's key and alerts business owner with a signed link
  */
 export async function handleDamagePhotoUpload(
   phone: string,
-  photoUrl: string,
-  mimeType: string
+  photo: { storageKey: string },
+  tenantId: string = 'root'
 ): Promise<{
   success: boolean;
   message: string;
 }> {
   try {
-    const state = conversationState.getState(phone);
+    const state = conversationState.getState(phone, tenantId);
     const customerName = state.customerName || 'Customer';
     const damageDescription = (state as any).damageDescription || 'vehicle damage';
     
-    // Record photo URL in conversation state
-    const existingPhotos = (state as any).damagePhotosUploaded || [];
+    // Record the photo's storage key in conversation state
+    const existingPhotos = (state as any).damagePhotoKeys || [];
     conversationState.updateState(phone, {
-      damagePhotosUploaded: [...existingPhotos, photoUrl],
+      damagePhotoKeys: [...existingPhotos, photo.storageKey],
     } as any);
+
+    // The owner opens this from an SMS, so it has to outlive the usual in-app link
+    const photoUrl = signedMediaUrl(photo.storageKey, SHARED_MEDIA_URL_TTL_SECONDS);
     
     // Get business phone for alert (using correct env var)
     const businessPhone = process.env.BUSINESS_OWNER_PERSONAL_PHONE;
@@ -109,14 +114,14 @@ Reply to this message to contact customer directly.`;
 /**
  * Get damage assessment information for an appointment from conversation state
  */
-export function getDamageAssessmentInfo(phone: string): {
+export function getDamageAssessmentInfo(phone: string, tenantId: string = 'root'): {
   hasDamageAssessment: boolean;
   damageDescription?: string;
   damageType?: string;
   damagePhotos?: string[];
   assessmentRequestedAt?: Date;
 } {
-  const state = conversationState.getState(phone);
+  const state = conversationState.getState(phone, tenantId);
   const damageAssessmentRequested = (state as any).damageAssessmentRequested || false;
   
   if (!damageAssessmentRequested) {
@@ -127,7 +132,7 @@ export function getDamageAssessmentInfo(phone: string): {
     hasDamageAssessment: true,
     damageDescription: (state as any).damageDescription,
     damageType: (state as any).damageType,
-    damagePhotos: (state as any).damagePhotosUploaded || [],
+    damagePhotos: ((state as any).damagePhotoKeys || []).map((key: string) => signedMediaUrl(key)),
     assessmentRequestedAt: new Date(),
   };
 }
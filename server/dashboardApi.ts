@@ -11,7 +11,7 @@ import { sendSMS } from './notifications';
 import { renderInvoiceEmail, renderInvoiceEmailPlainText, type InvoiceEmailData } from './emailTemplates/invoice';
 import { signPayToken } from './security/paylink';
 import { z } from 'zod';
-import { cacheService, CacheKeys, CacheTTL } from './cacheService';
+import { getTenantCache, CacheKeys, CacheTags, CacheTTL } from './cacheService';
 
 // Validation schema for service updates
 const updateServiceSchema = z.object({
@@ -168,9 +168,10 @@ export async function getTodaysAppointments(req: Request, res: Response) {
     
     const startOfDay = new Date(new Date(targetDate).setHours(0, 0, 0, 0)).toISOString();
     const cacheKey = CacheKeys.dashboardToday(startOfDay);
+    const cache = getTenantCache(req.tenantDb?.tenantId || 'root');
     
     // Try cache first
-    const cachedData = cacheService.get<any>(cacheKey);
+    const cachedData = await cache.get<any>(cacheKey);
     if (cachedData) {
       console.log(`[CACHE HIT] Today's appointments for ${targetDate.toDateString()}`);
       return res.json(cachedData);
@@ -206,7 +207,7 @@ export async function getTodaysAppointments(req: Request, res: Response) {
         success: true,
         appointments: []
       };
-      cacheService.set(cacheKey, result, CacheTTL.MEDIUM);
+      await cache.set(cacheKey, result, { ttlSeconds: CacheTTL.MEDIUM, tags: [CacheTags.APPOINTMENTS] });
       return res.json(result);
     }
     
@@ -237,7 +238,7 @@ export async function getTodaysAppointments(req: Request, res: Response) {
     };
     
     // Cache for 5 minutes
-    cacheService.set(cacheKey, result, CacheTTL.MEDIUM);
+    await cache.set(cacheKey, result, { ttlSeconds: CacheTTL.MEDIUM, tags: [CacheTags.APPOINTMENTS] });
     
     return res.json(result);
   } catch (error) {
@@ -615,9 +616,10 @@ export async function getMonthlyAppointmentCounts(req: Request, res: Response) {
     const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
     
     const cacheKey = CacheKeys.dashboardAppointmentCounts(year, month);
+    const cache = getTenantCache(req.tenantDb?.tenantId || 'root');
     
     // Try cache first
-    const cachedData = cacheService.get<any>(cacheKey);
+    const cachedData = await cache.get<any>(cacheKey);
     if (cachedData) {
       console.log(`[CACHE HIT] Appointment counts for ${year}-${month}`);
       return res.json(cachedData);
@@ -660,7 +662,7 @@ export async function getMonthlyAppointmentCounts(req: Request, res: Response) {
     };
     
     // Cache for 5 minutes
-    cacheService.set(cacheKey, result, CacheTTL.MEDIUM);
+    await cache.set(cacheKey, result, { ttlSeconds: CacheTTL.MEDIUM, tags: [CacheTags.APPOINTMENTS] });
     
     return res.json(result);
   } catch (error) {
@@ -729,9 +731,10 @@ export async function getCalendarWeather(req: Request, res: Response) {
     
     const days = parseInt(req.query.days as string) || 14;
     const cacheKey = CacheKeys.dashboardWeather(days);
+    const cache = getTenantCache(req.tenantDb?.tenantId || 'root');
     
     // Try cache first
-    const cachedData = cacheService.get<any>(cacheKey);
+    const cachedData = await cache.get<any>(cacheKey);
     if (cachedData) {
       console.log(`[CACHE HIT] Weather forecast (${days} days)`);
       return res.json(cachedData);
@@ -760,7 +763,7 @@ export async function getCalendarWeather(req: Request, res: Response) {
     };
     
     // Cache for 1 hour - weather doesn't change that often
-    cacheService.set(cacheKey, result, CacheTTL.WEATHER);
+    await cache.set(cacheKey, result, { ttlSeconds: CacheTTL.WEATHER, tags: [CacheTags.WEATHER] });
     
     return res.json(result);
   } catch (error) {
@@ -12,8 +12,7 @@
 import type { TenantDb } from './tenantDb';
 import { appointments, invoices, paymentLinks, contacts, auditLog } from "@shared/schema";
 import { eq, and, or, lt, isNull } from "drizzle-orm";
-import { sendSMS } from "./notifications";
-import { sendBusinessEmail } from "./emailService";
+import { enqueueOutbound } from "./services/outboundDispatchService";
 import Stripe from "stripe";
 import { getTenantTimezone, formatDateOnly } from "./timezoneUtils";
 
@@ -115,36 +114,47 @@ export async function sendDepositReminder(
     const formattedDate = formatDateOnly(appt.scheduledTime, timezone);
     const message = `${urgencyMap[reminderType]}: Your $${appt.depositAmount.toFixed(2)} deposit is due for your ${appt.serviceType} appointment on ${formattedDate}. Pay now: ${paymentLinkRecord.url}`;
 
-    // Send via SMS (primary)
+    // Queue via SMS (primary) - the outbound dispatcher holds it past the payer's quiet hours
     let smsSuccess = false;
     if (payer.phoneE164 && !payer.smsOptOut) {
       try {
         // Use Main Line (ID 1) for automated deposit reminders
-        const smsResult = await sendSMS(tenantDb, payer.phoneE164, message, undefined, undefined, 1);
-        smsSuccess = smsResult.success;
+        await enqueueOutbound(tenantDb, {
+          channel: 'sms',
+          purpose: 'payment_reminder',
+          to: payer.phoneE164,
+          body: message,
+          phoneLineId: 1,
+          recipientAddress: payer.address,
+          dedupeKey: `deposit_reminder:${appointmentId}:${reminderType}:sms`,
+        });
+        smsSuccess = true;
       } catch (error) {
-        console.error('[DEPOSIT MGR] SMS send failed:', error);
+        console.error('[DEPOSIT MGR] SMS enqueue failed:', error);
       }
     }
 
-    // Send via email (fallback or both)
+    // Queue via email (fallback or both)
     let emailSuccess = false;
     if (payer.email) {
       try {
-        const emailResult = await sendBusinessEmail(
-          tenantDb,
-          payer.email,
-          `Deposit Due - ${appt.serviceType}`,
-          message
-        );
-        emailSuccess = emailResult.success;
+        await enqueueOutbound(tenantDb, {
+          channel: 'email',
+          purpose: 'payment_reminder',
+          to: payer.email,
+          subject: `Deposit Due - ${appt.serviceType}`,
+          body: message,
+          recipientAddress: payer.address,
+          dedupeKey: `deposit_reminder:${appointmentId}:${reminderType}:email`,
+        });
+        emailSuccess = true;
       } catch (error) {
-        console.error('[DEPOSIT MGR] Email send failed:', error);
+        console.error('[DEPOSIT MGR] Email enqueue failed:', error);
       }
     }
 
     if (!smsSuccess && !emailSuccess) {
-      return { success: false, error: 'Failed to send reminder via SMS or email' };
+      return { success: false, error: 'Failed to queue reminder via SMS or email' };
     }
 
     // Log reminder
@@ -161,7 +171,7 @@ export async function sendDepositReminder(
       },
     });
 
-    console.log(`[DEPOSIT MGR] Reminder sent for appointment ${appointmentId} (${reminderType})`);
+    console.log(`[DEPOSIT MGR] Reminder queued for appointment ${appointmentId} (${reminderType})`);
 
     return { success: true };
   } catch (error: any) {
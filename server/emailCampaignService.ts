@@ -13,6 +13,11 @@ import {
 } from '@shared/schema';
 import { eq, ne, gt, lt, and, desc, sql, inArray, lte } from 'drizzle-orm';
 import OpenAI from 'openai';
+import { checkConsent } from './services/consentLedgerService';
+import { getSegmentCustomers } from './services/customerSegmentService';
+import { createCampaignExperiment, getCampaignVariant, startCampaignExperiment } from './services/campaignExperimentService';
+import type { ExperimentSettings } from '@shared/campaignExperiments';
+import { withAttributionCode } from '@shared/attribution';
 import Bottleneck from 'bottleneck';
 
 // Initialize SendGrid
@@ -64,6 +69,7 @@ export interface CampaignData {
   scheduledDate: string | null;
   status: 'draft' | 'scheduled' | 'sent' | 'cancelled';
   targetAudience: string;
+  segmentId?: number | null;
   recipientCount: number;
 }
 
@@ -110,7 +116,13 @@ export async function getCampaignById(tenantDb: TenantDb, id: number) {
 /**
  * Create a new email campaign with recipient population
  */
-export async function createCampaign(tenantDb: TenantDb, campaignData: CampaignData & { createdBy: number }) {
+export async function createCampaign(
+  tenantDb: TenantDb,
+  campaignData: CampaignData & {
+    createdBy: number;
+    abTest?: ExperimentSettings & { variants: Array<{ subject: string; content: string }> }; // Variants B-D; the campaign content is A
+  }
+) {
   try {
     const insertData: InsertEmailCampaign = {
       name: campaignData.name,
@@ -119,14 +131,22 @@ export async function createCampaign(tenantDb: TenantDb, campaignData: CampaignD
       scheduledDate: campaignData.scheduledDate ? new Date(campaignData.scheduledDate) : null,
       status: campaignData.status,
       targetAudience: campaignData.targetAudience,
+      segmentId: campaignData.segmentId ?? null,
       recipientCount: 0,
       createdBy: campaignData.createdBy
     };
     
     const [newCampaign] = await tenantDb.insert(emailCampaigns).values(insertData).returning();
     
-    // Populate recipients based on target audience
-    await populateCampaignRecipients(tenantDb, newCampaign.id, campaignData.targetAudience);
+    if (campaignData.abTest) {
+      await createCampaignExperiment(tenantDb, 'email', newCampaign.id as number, campaignData.abTest, [
+        { subject: campaignData.subject, content: campaignData.content },
+        ...campaignData.abTest.variants,
+      ]);
+    }
+    
+    // Populate recipients based on target audience (or saved segment)
+    await populateCampaignRecipients(tenantDb, newCampaign.id, campaignData.targetAudience, campaignData.segmentId);
     
     // If scheduled for immediate send, update status
     if (campaignData.status === 'scheduled' && new Date(campaignData.scheduledDate!) <= new Date()) {
@@ -146,9 +166,11 @@ export async function createCampaign(tenantDb: TenantDb, campaignData: CampaignD
 /**
  * Populate campaign recipients based on target audience
  */
-async function populateCampaignRecipients(tenantDb: TenantDb, campaignId: number, targetAudience: string) {
-  // Get recipients based on target audience
-  const recipients = await getRecipientsByAudience(tenantDb, targetAudience);
+async function populateCampaignRecipients(tenantDb: TenantDb, campaignId: number, targetAudience: string, segmentId?: number | null) {
+  // Get recipients based on target audience or saved segment
+  const recipients = segmentId
+    ? await getRecipientsBySegment(tenantDb, segmentId)
+    : await getRecipientsByAudience(tenantDb, targetAudience);
   
   if (recipients.length === 0) {
     return;
@@ -296,6 +318,9 @@ async function processSingleCampaign(tenantDb: TenantDb, campaign: any) {
       .where(tenantDb.withTenantFilter(emailCampaigns, eq(emailCampaigns.id, campaign.id)));
   }
   
+  // A/B tests: split recipients into test cells on the first pass
+  await startCampaignExperiment(tenantDb, 'email', campaign.id);
+  
   // Get counter to check remaining capacity
   const counter = await getTodaySendCounter(tenantDb);
   const remainingCapacity = counter.emailLimit - counter.emailCount;
@@ -329,7 +354,8 @@ async function processSingleCampaign(tenantDb: TenantDb, campaign: any) {
     const [stats] = await tenantDb
       .select({
         total: sql<number>`COUNT(*)::int`,
-        pending: sql<number>`COUNT(CASE WHEN ${campaignRecipients.status} = 'pending' THEN 1 END)::int`
+        // 'held' recipients are waiting for an A/B test winner
+        pending: sql<number>`COUNT(CASE WHEN ${campaignRecipients.status} IN ('pending', 'held') THEN 1 END)::int`
       })
       .from(campaignRecipients)
       .where(tenantDb.withTenantFilter(campaignRecipients, eq(campaignRecipients.campaignId, campaign.id)));
@@ -382,14 +408,40 @@ async function sendSingleCampaignEmail(tenantDb: TenantDb, campaign: any, recipi
       return;
     }
     
+    // Consent ledger: campaigns need email marketing consent
+    const consent = await checkConsent(
+      tenantDb,
+      { customerId: recipient.customerId, email: recipient.email },
+      'email',
+      'marketing'
+    );
+    if (!consent.allowed) {
+      console.log(`[EMAIL CAMPAIGN] Skipping ${recipient.email} - no marketing consent (${consent.reason})`);
+      
+      await tenantDb
+        .update(campaignRecipients)
+        .set({
+          status: 'unsubscribed',
+          attemptCount: sql`${campaignRecipients.attemptCount} + 1`,
+          lastError: `No email marketing consent (${consent.reason})`,
+        })
+        .where(tenantDb.withTenantFilter(campaignRecipients, eq(campaignRecipients.id, recipient.id)));
+      
+      return;
+    }
+    
     // Mark as sending
     await tenantDb
       .update(campaignRecipients)
       .set({ status: 'sending' })
       .where(tenantDb.withTenantFilter(campaignRecipients, eq(campaignRecipients.id, recipient.id)));
     
+    // A/B test cells get their variant's subject and content
+    const variant = recipient.variantId ? await getCampaignVariant(tenantDb, recipient.variantId) : null;
+    const subject = variant?.subject ?? campaign.subject;
+    
     // Personalize content
-    const personalizedContent = personalizeCampaignContent(campaign.content, recipient);
+    const personalizedContent = personalizeCampaignContent(variant?.content ?? campaign.content, recipient);
     
     // Build unsubscribe link with production-ready domain
     // Required for CAN-SPAM compliance - must be a working one-click unsubscribe
@@ -399,7 +451,10 @@ async function sendSingleCampaignEmail(tenantDb: TenantDb, campaign: any, recipi
     // Strip protocol if present (PUBLIC_URL might include https://)
     baseDomain = baseDomain.replace(/^https?:\/\//, '');
     const unsubscribeUrl = `https://${baseDomain}/api/email/unsubscribe?email=${encodeURIComponent(recipient.email)}&campaign=${campaign.id}`;
-    const contentWithFooter = `${personalizedContent}<br><br><p style="font-size: 12px; color: #666;">Don't want to receive these emails? <a href="${unsubscribeUrl}">Unsubscribe</a></p>`;
+    // {{link}} becomes a booking link that credits bookings to this campaign
+    const bookingUrl = withAttributionCode(`https://${baseDomain}/book`, { channel: 'email_campaign', campaignId: campaign.id });
+    const contentWithLink = personalizedContent.replace(/\{\{\s*link\s*\}\}/g, bookingUrl);
+    const contentWithFooter = `${contentWithLink}<br><br><p style="font-size: 12px; color: #666;">Don't want to receive these emails? <a href="${unsubscribeUrl}">Unsubscribe</a></p>`;
     
     const fromEmail = process.env.SENDGRID_FROM_EMAIL || 'info@cleanmachinetulsa.com';
     
@@ -424,7 +479,7 @@ async function sendSingleCampaignEmail(tenantDb: TenantDb, campaign: any, recipi
       const msg = {
         to: recipient.email,
         from: fromEmail,
-        subject: campaign.subject,
+        subject,
         html: contentWithFooter,
         trackingSettings: {
           clickTracking: { enable: true },
@@ -506,6 +561,7 @@ export async function updateCampaign(tenantDb: TenantDb, id: number, campaignDat
       content: campaignData.content,
       status: campaignData.status,
       targetAudience: campaignData.targetAudience,
+      segmentId: campaignData.segmentId,
       recipientCount: campaignData.recipientCount
     };
     
@@ -622,7 +678,7 @@ export async function sendCampaignNow(tenantDb: TenantDb, id: number) {
     
     // Populate recipients if not already done
     if (campaign.recipientCount === 0) {
-      await populateCampaignRecipients(tenantDb, id, campaign.targetAudience || 'all');
+      await populateCampaignRecipients(tenantDb, id, campaign.targetAudience || 'all', campaign.segmentId);
     }
     
     // Trigger campaign processing immediately (respects all limits and quotas)
@@ -924,10 +980,9 @@ function scheduleEmailCampaign(tenantDb: TenantDb, campaignId: number, scheduled
 }
 
 /**
- * Get recipients based on audience targeting
+ * Get active subscribers' emails (lowercased) - every send is limited to these
  */
-async function getRecipientsByAudience(tenantDb: TenantDb, targetAudience: string) {
-  // Get all active subscribers
+async function getSubscribedEmails(tenantDb: TenantDb): Promise<Set<string>> {
   const activeSubscribers = await tenantDb
     .select({
       email: emailSubscribers.email
@@ -935,7 +990,27 @@ async function getRecipientsByAudience(tenantDb: TenantDb, targetAudience: strin
     .from(emailSubscribers)
     .where(tenantDb.withTenantFilter(emailSubscribers, eq(emailSubscribers.subscribed, true)));
   
-  const subscribedEmails = new Set(activeSubscribers.map(s => s.email.toLowerCase()));
+  return new Set(activeSubscribers.map(s => s.email.toLowerCase()));
+}
+
+/**
+ * Get recipients from a saved customer segment, limited to subscribed emails
+ */
+async function getRecipientsBySegment(tenantDb: TenantDb, segmentId: number) {
+  const subscribedEmails = await getSubscribedEmails(tenantDb);
+  const segmentCustomers = await getSegmentCustomers(tenantDb, segmentId, { channel: 'email' });
+  
+  return segmentCustomers
+    .filter(customer => customer.email && subscribedEmails.has(customer.email.toLowerCase()))
+    .map(customer => ({ id: customer.id, name: customer.name, email: customer.email }));
+}
+
+/**
+ * Get recipients based on audience targeting
+ */
+async function getRecipientsByAudience(tenantDb: TenantDb, targetAudience: string) {
+  // Get all active subscribers
+  const subscribedEmails = await getSubscribedEmails(tenantDb);
   
   // Get customers based on targeting
   let query = tenantDb
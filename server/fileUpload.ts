@@ -3,47 +3,36 @@ import multer from 'multer';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { processCustomerPhoto, getDriveClient } from './googleIntegration';
+import { getDriveClient } from './googleIntegration';
 import { sendSMS } from './notifications';
 import { conversationState } from './conversationState';
 import { handleDamagePhotoUpload } from './damageAssessment';
 import { requireAuth } from './authMiddleware';
 import { getConversationById } from './conversationService';
+import { mediaStorage } from './services/mediaStorage';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  fetchImage,
+  isAcceptedImage,
+  MAX_IMAGE_UPLOAD_BYTES,
+  MediaProcessingError,
+  SHARED_MEDIA_URL_TTL_SECONDS,
+  signedMediaUrl,
+  storeImage,
+} from './services/mediaPipeline';
+import { recordCustomerMedia } from './services/customerMediaService';
 
-// Set up storage for uploaded files
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    // Create temp directory if it doesn't exist
-    const uploadDir = path.join(os.tmpdir(), 'clean-machine-uploads');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    // Generate unique filename with original extension
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
-    cb(null, `photo-${uniqueSuffix}${ext}`);
-  }
-});
-
-// Create multer instance with storage configuration
+// Customer photo uploads are processed in memory and written to media storage
 const upload = multer({ 
-  storage: storage,
+  storage: multer.memoryStorage(),
   limits: {
-    fileSize: 5 * 1024 * 1024, // 5MB max size
+    fileSize: MAX_IMAGE_UPLOAD_BYTES,
   },
   fileFilter: (req, file, cb) => {
-    // Accept only image files
-    const allowedTypes = /jpeg|jpg|png|gif/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (extname && mimetype) {
+    if (isAcceptedImage(file)) {
       return cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed!'));
+      cb(new Error('Only JPEG, PNG, GIF, WebP and HEIC photos are allowed!'));
     }
   }
 });
@@ -226,82 +215,51 @@ export function registerFileUploadRoutes(app: Express) {
         (customerEmail ? `Email: ${customerEmail}` : 'No contact info');
       
       console.log(`Received photo upload from ${customerName} (${contactInfo})`, {
-        filename: req.file.filename,
+        originalName: req.file.originalname,
         size: req.file.size,
         vehicleInfo: vehicleInfo,
         message: message
       });
       
-      // Create a file:// URL for the temporary file
-      const fileUrl = `file://${req.file.path}`;
+      const tenantId = req.tenantDb?.tenantId || 'root';
+      const stored = await storeImage(req.file.buffer, { tenantId, scope: 'customer-uploads' });
+      // The owner opens this from an SMS, so it has to outlive the usual in-app link
+      const photoUrl = signedMediaUrl(stored.storageKey, SHARED_MEDIA_URL_TTL_SECONDS);
       
-      console.log('Processing photo upload with details:', {
-        name: customerName,
-        phone: customerPhone || 'not provided',
-        email: customerEmail || 'not provided',
-        vehicle: vehicleInfo,
-        fileSize: req.file.size,
-        tempPath: req.file.path
+      // Check if this is a damage assessment photo
+      const state = customerPhone ? await conversationState.load(customerPhone, tenantId) : null;
+      const isDamageAssessment = !!(state && (state as any).damageAssessmentRequested);
+
+      const media = await recordCustomerMedia(req.tenantDb!, stored, {
+        source: 'upload',
+        purpose: isDamageAssessment ? 'damage_assessment' : 'photo',
+        phone: customerPhone,
+        email: customerEmail,
+        vehicleInfo,
+        note: message,
       });
       
-      // Process the photo - store in Google Drive
+      // If the user included a message, process it with OpenAI
+      let aiResponse = '';
+      if (message) {
+        // This could be implemented to send the message to OpenAI similar to the SMS route
+        aiResponse = 'Thank you for your message. We have received your photo and will get back to you soon.';
+      }
+      
+      // 📸 SEND SMS NOTIFICATION TO BUSINESS OWNER about photo upload
       try {
-        console.log('Attempting to process customer photo in Google Drive...');
-        
-        // Extra debug for Google Drive status
-        const drive = getDriveClient();
-        if (!drive) {
-          console.error('Google Drive API client is not initialized!');
+        if (isDamageAssessment && customerPhone) {
+          // Use damage assessment alert system
+          await handleDamagePhotoUpload(customerPhone, stored, tenantId);
+          console.log(`[DAMAGE ASSESSMENT] Photo processed for ${customerPhone}`);
         } else {
-          try {
-            // Test the Google Drive API connection
-            const testResult = await drive.files.list({
-              pageSize: 1,
-              fields: 'files(id, name)'
-            });
-            console.log('Google Drive API connection test succeeded:', 
-                       testResult.data.files ? `Found ${testResult.data.files.length} files` : 'No files found');
-          } catch (testError) {
-            console.error('Google Drive API connection test failed:', testError);
-          }
-        }
-        
-        const result = await processCustomerPhoto(
-          fileUrl,
-          customerPhone,
-          customerName,
-          vehicleInfo,
-          customerEmail
-        );
-        
-        console.log('Photo processing result:', result ? `Success: ${result}` : 'Failed: null result');
-      
-        if (result) {
-        // If the user included a message, process it with OpenAI
-        let aiResponse = '';
-        if (message) {
-          // This could be implemented to send the message to OpenAI similar to the SMS route
-          aiResponse = 'Thank you for your message. We have received your photo and will get back to you soon.';
-        }
-        
-        // 📸 SEND SMS NOTIFICATION TO BUSINESS OWNER about photo upload
-        try {
-          // Check if this is a damage assessment photo
-          const state = customerPhone ? conversationState.getState(customerPhone) : null;
-          const isDamageAssessment = state && (state as any).damageAssessmentRequested;
-          
-          if (isDamageAssessment && customerPhone) {
-            // Use damage assessment alert system
-            await handleDamagePhotoUpload(customerPhone, result, req.file.mimetype);
-            console.log(`[DAMAGE ASSESSMENT] Photo processed for ${customerPhone}`);
-          } else {
-            // Standard photo upload notification
-            const businessPhone = process.env.BUSINESS_OWNER_PERSONAL_PHONE;
-            if (businessPhone) {
-              const fileSize = (req.file.size / 1024).toFixed(1); // Convert to KB
-              const photoMessage = message ? `\n\nCustomer message: "${message.substring(0, 100)}${message.length > 100 ? '...' : ''}"` : '';
-              
-              const notificationText = `📸 New Photo Upload!
+          // Standard photo upload notification
+          const businessPhone = process.env.BUSINESS_OWNER_PERSONAL_PHONE;
+          if (businessPhone) {
+            const fileSize = (req.file.size / 1024).toFixed(1); // Convert to KB
+            const photoMessage = message ? `\n\nCustomer message: "${message.substring(0, 100)}${message.length > 100 ? '...' : ''}"` : '';
+            
+            const notificationText = `📸 New Photo Upload!
 
 Customer: ${customerName}
 ${customerPhone ? `Phone: ${customerPhone}` : ''}
@@ -309,41 +267,35 @@ ${customerEmail ? `Email: ${customerEmail}` : ''}
 Vehicle: ${vehicleInfo}
 File size: ${fileSize}KB${photoMessage}
 
-View photo: ${result}`;
+View photo: ${photoUrl}`;
 
-              await sendSMS(businessPhone, notificationText);
-              console.log(`[PHOTO UPLOAD] Notification sent to ${businessPhone}`);
-            } else {
-              console.log('[PHOTO UPLOAD] No business phone configured for notifications');
-            }
+            await sendSMS(businessPhone, notificationText);
+            console.log(`[PHOTO UPLOAD] Notification sent to ${businessPhone}`);
+          } else {
+            console.log('[PHOTO UPLOAD] No business phone configured for notifications');
           }
-        } catch (notifyError) {
-          console.error('[PHOTO UPLOAD] Failed to send notification:', notifyError);
-          // Don't fail the upload if notification fails
         }
-        
-        // Success response
-        res.status(200).json({
-          success: true,
-          message: 'Photo uploaded successfully',
-          folderLink: result,
-          aiResponse: aiResponse
-        });
-      } else {
-        res.status(500).json({ 
-          error: 'Failed to process photo',
-          message: 'The photo was received but could not be stored properly'
-        });
+      } catch (notifyError) {
+        console.error('[PHOTO UPLOAD] Failed to send notification:', notifyError);
+        // Don't fail the upload if notification fails
       }
-      } catch (processError: any) {
-        console.error('Error in photo processing:', processError);
-        res.status(500).json({ 
+      
+      // Success response
+      res.status(200).json({
+        success: true,
+        message: 'Photo uploaded successfully',
+        mediaId: media.id,
+        photoUrl,
+        thumbnailUrl: signedMediaUrl(stored.thumb96Key, SHARED_MEDIA_URL_TTL_SECONDS),
+        aiResponse: aiResponse
+      });
+    } catch (error: any) {
+      if (error instanceof MediaProcessingError) {
+        return res.status(error.statusCode).json({
           error: 'Failed to process photo',
-          message: processError.message || 'An error occurred while processing the photo'
+          message: error.message
         });
-        return;
       }
-    } catch (error: any) {
       console.error('Error handling photo upload:', error);
       res.status(500).json({ 
         error: 'Internal server error',
@@ -357,8 +309,9 @@ View photo: ${result}`;
     res.status(200).json({ 
       status: 'ok',
       message: 'Photo upload service is running',
-      maxFileSize: '5MB',
-      acceptedTypes: ['image/jpeg', 'image/png', 'image/gif']
+      storage: mediaStorage.name,
+      maxFileSize: `${MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024)}MB`,
+      acceptedTypes: ACCEPTED_IMAGE_TYPES
     });
   });
   
@@ -392,30 +345,34 @@ View photo: ${result}`;
         vehicleInfo: vehicleInfo
       });
       
-      // Process the photo - download and store in Google Drive
-      const result = await processCustomerPhoto(
-        photoUrl,
-        phoneNumber || '',
-        customerName,
+      // Download the photo and store it like a direct upload
+      const photo = await fetchImage(photoUrl);
+      const stored = await storeImage(photo, {
+        tenantId: req.tenantDb?.tenantId || 'root',
+        scope: 'customer-uploads',
+      });
+      const media = await recordCustomerMedia(req.tenantDb!, stored, {
+        source: 'url',
+        phone: phoneNumber,
+        email: customerEmail,
         vehicleInfo,
-        customerEmail || ''
-      );
+      });
       
-      if (result) {
-        // Success response
-        res.status(200).json({
-          success: true,
-          message: 'Photo processed successfully',
-          folderLink: result,
-          url: photoUrl
-        });
-      } else {
-        res.status(500).json({ 
+      res.status(200).json({
+        success: true,
+        message: 'Photo processed successfully',
+        mediaId: media.id,
+        photoUrl: signedMediaUrl(stored.storageKey, SHARED_MEDIA_URL_TTL_SECONDS),
+        thumbnailUrl: signedMediaUrl(stored.thumb96Key, SHARED_MEDIA_URL_TTL_SECONDS),
+        url: photoUrl
+      });
+    } catch (error: any) {
+      if (error instanceof MediaProcessingError) {
+        return res.status(error.statusCode).json({
           error: 'Failed to process photo',
-          message: 'The photo URL was received but could not be processed properly'
+          message: error.message
         });
       }
-    } catch (error: any) {
       console.error('Error processing photo from URL:', error);
       res.status(500).json({ 
         error: 'Internal server error',
@@ -19,6 +19,7 @@ export const GLOBAL_TABLE_NAMES = [
   'homepage_content',
   'daily_send_counters',
   'sessions',
+  'travel_time_cache',
 ] as const;
 
 export type GlobalTableName = typeof GLOBAL_TABLE_NAMES[number];
@@ -34,7 +34,11 @@ import { campaignSendTestRouter } from "./routes/campaignSendTest";
 import smsTemplatesRouter from "./routes.smsTemplates";
 import a2pCampaignRouter from "./routes.a2pCampaign";
 import welcomeBackCampaignRouter from "./routes.welcomeBackCampaign";
+import accountingSyncRouter from "./routes.accountingSync";
+import customerSegmentsRouter from "./routes.customerSegments";
+import journeysRouter from "./routes.journeys";
 import portRecoveryRouter from "./routes.portRecovery";
+import mediaRouter from "./routes.media";
 import { registerReferralInvoiceRoutes } from "./routes.referralInvoice";
 import registerOnboardingIndustryRoutes from "./onboardingIndustryRoutes";
 import registerAdminInviteCodeRoutes from "./routes.adminInviteCodes";
@@ -182,6 +186,8 @@ app.use(express.urlencoded({ extended: false }));
 app.use('/uploads', express.static(path.join(process.cwd(), 'public', 'uploads')));
 // Serve technician profile photos
 app.use('/tech_profiles', express.static(path.join(process.cwd(), 'public', 'tech_profiles')));
+// Serve stored photos through signed, expiring links (local media storage driver)
+app.use('/api/media', mediaRouter);
 // Serve service worker for PWA (must be served from root)
 app.get('/service-worker.js', (req, res) => {
   res.setHeader('Content-Type', 'application/javascript');
@@ -397,8 +403,14 @@ app.use(billingHealthRouter);
 // Register campaign management routes (requires auth)
 app.use('/api/campaigns', campaignsRouter);
 app.use('/api/campaigns', campaignSendTestRouter);
+// Register saved customer segment routes (requires 'campaigns' feature)
+app.use('/api/segments', customerSegmentsRouter);
+// Register customer journey routes (requires 'campaigns' feature; click tracking is public)
+app.use('/api/journeys', journeysRouter);
 // Register Welcome Back Campaign routes (tenant admin, requires 'campaigns' feature)
 app.use('/api/admin/campaigns', welcomeBackCampaignRouter);
+// Register accounting export/sync routes (tenant admin, requires 'dataExport' feature)
+app.use('/api/admin/accounting', accountingSyncRouter);
 // Register SMS templates routes (requires auth)
 app.use('/api/sms-templates', smsTemplatesRouter);
 // Register A2P Campaign Assistant routes (Phase - A2P 10DLC Registration)
@@ -645,6 +657,22 @@ async function startDeferredInitialization() {
       const { startConfirmationMonitorCron } = await import('./services/bookingConfirmationMonitor');
       startConfirmationMonitorCron();
       console.log('[SERVER] Booking confirmation monitor started - checks hourly for reminders');
+
+      // CONFIRMATION CALLS: Calls customers whose appointment is still pending near start (opt-in per tenant)
+      const { startConfirmationCallCron } = await import('./services/confirmationCallService');
+      startConfirmationCallCron();
+
+      // OUTBOUND DISPATCHER: Sends queued SMS/email within quiet hours and tenant rate limits
+      const { startOutboundDispatchWorker } = await import('./services/outboundDispatchService');
+      startOutboundDispatchWorker();
+
+      // SCHEDULED MESSAGES: Delivers "send later" inbox replies when due
+      const { startScheduledMessageDispatcher } = await import('./services/scheduledMessageService');
+      startScheduledMessageDispatcher();
+
+      // CUSTOMER JOURNEYS: Enrolls triggered customers and advances due journey steps
+      const { startJourneyRunner } = await import('./services/journeyService');
+      startJourneyRunner();
     } else {
       console.log('[SERVER] Background jobs DISABLED (PLATFORM_BG_JOBS_ENABLED=0). SMS inbound is still active.');
     }
@@ -2,6 +2,7 @@ import { db } from './db';
 import { aiBehaviorRules, smsTemplates, faqEntries } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { wrapTenantDb } from './tenantDb';
+import { invalidateKnowledgeBase } from './services/knowledgeBaseService';
 
 /**
  * Bootstrap industry-specific AI behavior rules, SMS templates, and FAQ entries for a tenant.
@@ -223,6 +224,7 @@ export async function bootstrapIndustryAiAndMessaging(
     }
 
     console.log(`[INDUSTRY AI BOOTSTRAP] FAQ entries: ${faqCreated} created, ${faqUpdated} updated`);
+    await invalidateKnowledgeBase(tenantId);
 
     const result = {
       success: true,
@@ -17,6 +17,7 @@ import {
   type IndustryFaqSeed 
 } from '../shared/industryPacks';
 import { tenantConfig, services, faqEntries } from '@shared/schema';
+import { invalidateKnowledgeBase } from './services/knowledgeBaseService';
 
 export interface ApplyPackOptions {
   tenantId: string;
@@ -193,6 +194,7 @@ export async function applyIndustryPackToTenant(
       }
     });
 
+    await invalidateKnowledgeBase(tenantId);
     console.log(`[INDUSTRY PACK] Successfully applied "${pack.name}" to tenant ${tenantId}`);
 
     return {
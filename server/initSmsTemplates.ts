@@ -20,6 +20,35 @@ const DEFAULT_TEMPLATES = [
     defaultPayload: { firstName: "John" },
     enabled: true,
   },
+  {
+    templateKey: "technician_en_route",
+    category: "technician",
+    name: "Technician On The Way",
+    description: "Sent when technician marks themselves en route, with drive-time ETA and live tracking link",
+    body: "Hi {firstName}! {techName} is on the way - ETA {etaMinutes} min. Follow along: {trackingUrl}",
+    variables: [
+      { name: "firstName", description: "Customer's first name", sample: "John", required: true },
+      { name: "techName", description: "Technician's preferred name", sample: "Marcus", required: true },
+      { name: "etaMinutes", description: "Estimated drive time in minutes", sample: "14", required: true },
+      { name: "trackingUrl", description: "Live job tracking link", sample: "https://cleanmachine.app/track/abc123", required: true },
+    ],
+    defaultPayload: { firstName: "John", techName: "Marcus", etaMinutes: "14", trackingUrl: "https://cleanmachine.app/track/abc123" },
+    enabled: true,
+  },
+  {
+    templateKey: "technician_en_route_no_eta",
+    category: "technician",
+    name: "Technician On The Way (No ETA)",
+    description: "Sent when technician marks themselves en route but no drive time could be estimated",
+    body: "Hi {firstName}! {techName} is on the way. Follow along: {trackingUrl}",
+    variables: [
+      { name: "firstName", description: "Customer's first name", sample: "John", required: true },
+      { name: "techName", description: "Technician's preferred name", sample: "Marcus", required: true },
+      { name: "trackingUrl", description: "Live job tracking link", sample: "https://cleanmachine.app/track/abc123", required: true },
+    ],
+    defaultPayload: { firstName: "John", techName: "Marcus", trackingUrl: "https://cleanmachine.app/track/abc123" },
+    enabled: true,
+  },
   {
     templateKey: "booking_confirmation",
     category: "booking",
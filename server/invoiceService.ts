@@ -1,12 +1,22 @@
 import type { TenantDb } from './tenantDb';
 import { invoices, appointments, customers, services, loyaltyPoints, referrals, authorizations, type Invoice, type InsertInvoice } from '@shared/schema';
-import { and, eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 import Stripe from 'stripe';
 import { sendBusinessEmail } from './emailService';
 import { sendSMS } from './notifications';
 import { renderInvoiceEmail, renderInvoiceEmailPlainText, type InvoiceEmailData } from './emailTemplates/invoice';
 import { signPayToken } from './security/paylink';
 import { applyRefereeReward, calculateInvoiceWithReferralDiscount, markReferralDiscountApplied } from './referralService';
+import { PriceBookError, estimatePrice } from './services/priceBookService';
+import {
+  addInvoiceDiscountLine,
+  finalizeInvoiceTotals,
+  getInvoiceLedger,
+  insertInvoiceLines,
+  type LedgerTx,
+} from './services/invoiceLedgerService';
+import type { InvoiceLineKind } from '@shared/invoiceLedger';
+import type { EstimateLineKind } from '@shared/priceBook';
 
 const STRIPE_ENABLED = !!process.env.STRIPE_SECRET_KEY;
 
@@ -18,10 +28,81 @@ const stripe = STRIPE_ENABLED ? new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-04-30.basil",
 }) : null;
 
+const OPEN_PAYMENT_STATUSES = ['unpaid', 'partial'];
+
+const ESTIMATE_LINE_KINDS: Record<EstimateLineKind, InvoiceLineKind> = {
+  service: 'service',
+  vehicle_class: 'fee',
+  condition: 'fee',
+  add_on: 'add_on',
+};
+
+interface ChargeLine {
+  kind: InvoiceLineKind;
+  description: string;
+  unitPrice: number;
+  taxCategory: 'standard' | 'exempt';
+  serviceId?: number;
+}
+
+function addOnNames(addOns: unknown): string[] {
+  if (!Array.isArray(addOns)) return [];
+  return addOns
+    .map((addOn) => (typeof addOn === 'string' ? addOn : addOn?.name))
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+}
+
+/**
+ * Charge lines for an appointment from the price book, falling back to the
+ * service's price range (tax-inclusive, so exempt) when it isn't priced yet
+ */
+async function appointmentChargeLines(
+  tenantDb: TenantDb,
+  appointment: typeof appointments.$inferSelect,
+  service: typeof services.$inferSelect,
+  fallbackAmount: number
+): Promise<ChargeLine[]> {
+  const vehicles = Array.isArray(appointment.vehicles) && appointment.vehicles.length > 0
+    ? (appointment.vehicles as Array<{ year?: string; make?: string; model?: string }>)
+    : appointment.vehicleMake || appointment.vehicleModel
+      ? [{ make: appointment.vehicleMake ?? undefined, model: appointment.vehicleModel ?? undefined }]
+      : [];
+
+  try {
+    const estimate = await estimatePrice(tenantDb, {
+      serviceId: service.id,
+      vehicles: vehicles.map((v) => ({ year: v.year, make: v.make, model: v.model })),
+      addOnNames: addOnNames(appointment.addOns),
+    });
+    if (estimate.unpricedAddOns.length > 0) {
+      console.warn(`[INVOICE] Add-ons without a price book entry left off appointment ${appointment.id}: ${estimate.unpricedAddOns.join(', ')}`);
+    }
+    return estimate.lines.map((line) => ({
+      kind: ESTIMATE_LINE_KINDS[line.kind],
+      description: line.label,
+      unitPrice: line.amount,
+      taxCategory: 'standard',
+      serviceId: line.kind === 'service' ? service.id : undefined,
+    }));
+  } catch (error) {
+    if (!(error instanceof PriceBookError)) {
+      console.error('[INVOICE] Price book estimate failed, using price range:', error);
+    }
+    return [{
+      kind: 'service',
+      description: service.name,
+      unitPrice: fallbackAmount,
+      taxCategory: 'exempt',
+      serviceId: service.id,
+    }];
+  }
+}
+
 /**
- * Create an invoice for a completed appointment
+ * Create an invoice for a completed appointment. Pass `outerTx` to make it
+ * part of the caller's transaction.
  */
-export async function createInvoice(tenantDb: TenantDb, appointmentId: number): Promise<Invoice> {
+export async function createInvoice(tenantDb: TenantDb, appointmentId: number, outerTx?: LedgerTx): Promise<Invoice> {
   // Get appointment details with customer and service info
   const [appointmentWithDetails] = await tenantDb
     .select({
@@ -50,7 +131,7 @@ export async function createInvoice(tenantDb: TenantDb, appointmentId: number):
   // Updated regex to support decimals: matches "$149.99 - $199.99" or "$50"
   const priceMatch = priceText.match(/\$(\d+(?:\.\d{1,2})?)(?:\s*-\s*\$(\d+(?:\.\d{1,2})?))?/);
   
-  let amount;
+  let amount: number;
   if (priceMatch) {
     if (priceMatch[2]) {
       // If there's a range, use the higher value
@@ -65,11 +146,14 @@ export async function createInvoice(tenantDb: TenantDb, appointmentId: number):
     amount = 0;
   }
 
+  const chargeLines = await appointmentChargeLines(tenantDb, appointment, service, amount);
+  amount = Math.round(chargeLines.reduce((sum, line) => sum + line.unitPrice, 0) * 100) / 100;
+
   // Create service description
   const serviceDescription = `${service.name} - ${service.overview}`;
 
   // ATOMIC TRANSACTION: Apply referee reward, calculate discount, create invoice, mark reward as applied
-  const invoice = await tenantDb.transaction(async (tx) => {
+  const create = async (tx: LedgerTx) => {
     let discount = 0;
     let discountType = '';
     let rewardAuditId: number | null = null;
@@ -150,8 +234,10 @@ export async function createInvoice(tenantDb: TenantDb, appointmentId: number):
       rewardAuditId = discountResult.rewardAuditId;
     }
 
-    // Create the invoice with discounted amount if applicable
-    const newInvoice: InsertInvoice = {
+    // Create the invoice with discounted amount if applicable; the ledger
+    // recompute below replaces it with the taxed total
+    const newInvoice: InsertInvoice & { tenantId: string } = {
+      tenantId: tenantDb.tenantId,
       appointmentId,
       customerId: customer.id,
       amount: finalAmount.toString(),
@@ -168,16 +254,33 @@ export async function createInvoice(tenantDb: TenantDb, appointmentId: number):
       .values(newInvoice)
       .returning();
 
+    await insertInvoiceLines(tx, tenantDb, createdInvoice.id, chargeLines.map((line) => ({
+      kind: line.kind,
+      description: line.description,
+      unitPrice: line.unitPrice.toFixed(2),
+      taxCategory: line.taxCategory,
+      serviceId: line.serviceId ?? null,
+    })));
+    if (discount > 0) {
+      await addInvoiceDiscountLine(tx, tenantDb, createdInvoice.id, {
+        source: 'referral',
+        description: appliedReferralCode ? `Referral discount (${appliedReferralCode})` : `Referral ${discountType || 'discount'}`,
+        amount: discount,
+        sourceRef: appliedReferralCode,
+      });
+    }
+    const finalizedInvoice = await finalizeInvoiceTotals(tx, tenantDb, createdInvoice);
+
     // Mark referral discount as applied if one was used (within transaction)
     if (rewardAuditId && discount > 0) {
       await markReferralDiscountApplied(rewardAuditId, createdInvoice.id, tx);  // Pass transaction executor
       console.log(`[REFERRAL] Marked reward_audit ${rewardAuditId} as applied to invoice ${createdInvoice.id}`);
     }
 
-    return createdInvoice;
-  });
+    return finalizedInvoice;
+  };
 
-  return invoice;
+  return outerTx ? create(outerTx) : tenantDb.transaction(create);
 }
 
 /**
@@ -225,7 +328,8 @@ export async function createManualInvoice(tenantDb: TenantDb, params: {
     customer = newCustomer;
   }
 
-  const newInvoice: InsertInvoice = {
+  const newInvoice: InsertInvoice & { tenantId: string } = {
+    tenantId: tenantDb.tenantId,
     customerId: customer.id,
     appointmentId: null,
     amount: amount.toString(),
@@ -233,12 +337,21 @@ export async function createManualInvoice(tenantDb: TenantDb, params: {
     notes: notes || `Manual invoice created via dashboard`,
   };
 
-  const [invoice] = await tenantDb
-    .insert(invoices)
-    .values(newInvoice)
-    .returning();
+  // The typed amount is what the customer owes, so the line is tax-exempt
+  return tenantDb.transaction(async (tx) => {
+    const [invoice] = await tx
+      .insert(invoices)
+      .values(newInvoice)
+      .returning();
 
-  return invoice;
+    await insertInvoiceLines(tx, tenantDb, invoice.id, [{
+      kind: 'service',
+      description: serviceDescription,
+      unitPrice: amount.toFixed(2),
+      taxCategory: 'exempt',
+    }]);
+    return finalizeInvoiceTotals(tx, tenantDb, invoice);
+  });
 }
 
 /**
@@ -261,18 +374,23 @@ export async function createStripePaymentIntent(tenantDb: TenantDb, invoiceId: n
     throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
   }
 
-  const invoice = await getInvoice(tenantDb, invoiceId);
-  if (!invoice) {
+  const ledger = await getInvoiceLedger(tenantDb, invoiceId);
+  if (!ledger) {
     throw new Error(`Invoice with ID ${invoiceId} not found`);
   }
+  if (ledger.balance.balanceDue <= 0) {
+    throw new Error(`Invoice ${invoiceId} has no balance due`);
+  }
 
-  const amountInCents = Math.round(Number(invoice.amount) * 100);
+  // Charge what's still owed, so partial payments and credits are respected
+  const amountInCents = Math.round(ledger.balance.balanceDue * 100);
 
   const paymentIntent = await stripe.paymentIntents.create({
     amount: amountInCents,
     currency: 'usd',
     metadata: {
-      invoiceId: invoice.id.toString(),
+      invoiceId: invoiceId.toString(),
+      tenantId: tenantDb.tenantId,
     },
   });
 
@@ -381,6 +499,8 @@ export async function sendInvoiceNotification(
     .limit(1);
   
   const currentPoints = loyaltyRecord?.points || 0;
+  const ledger = await getInvoiceLedger(tenantDb, invoiceId);
+  const amountDue = ledger ? ledger.balance.balanceDue.toFixed(2) : invoice.amount;
   
   // Construct payment options message
   const paymentOptions = `
@@ -400,7 +520,7 @@ Payment Options:
       // SMS version - concise but warm
       const smsMessage = `Thank you for choosing Clean Machine Auto Detail! 
 Your ${service.name} service is complete.
-Amount due: $${invoice.amount}
+Amount due: $${amountDue}
 
 ${paymentOptions}
 
@@ -471,17 +591,17 @@ Thanks for trusting us with your vehicle!`;
                 day: 'numeric'
               }),
           vehicleInfo: vehicleInfo,
-          items: [
-            {
-              service: service.name,
-              quantity: 1,
-              price: parseFloat(invoice.amount)
-            }
-          ],
-          subtotal: parseFloat(invoice.amount),
-          tax: 0, // Tax already included in service price
-          taxRate: 0,
-          total: parseFloat(invoice.amount),
+          items: ledger
+            ? ledger.lines.map((line) => ({
+                service: line.description,
+                quantity: line.kind === 'discount' ? 1 : parseFloat(line.quantity),
+                price: line.kind === 'discount' ? parseFloat(line.amount) : parseFloat(line.unitPrice),
+              }))
+            : [{ service: service.name, quantity: 1, price: parseFloat(invoice.amount) }],
+          subtotal: ledger ? ledger.totals.subtotal : parseFloat(invoice.amount),
+          tax: ledger ? ledger.totals.taxTotal : 0,
+          taxRate: ledger ? ledger.taxRates.standard : 0,
+          total: ledger ? ledger.totals.total : parseFloat(invoice.amount),
           loyaltyPoints: {
             earned: pointsEarned,
             newBalance: newBalance
@@ -577,13 +697,13 @@ Thank you for choosing Clean Machine Auto Detail!`;
 }
 
 /**
- * Get all unpaid invoices
+ * Get all invoices with a balance due (unpaid or partially paid)
  */
 export async function getUnpaidInvoices(tenantDb: TenantDb): Promise<Invoice[]> {
   return tenantDb
     .select()
     .from(invoices)
-    .where(tenantDb.withTenantFilter(invoices, eq(invoices.paymentStatus, 'unpaid')));
+    .where(tenantDb.withTenantFilter(invoices, inArray(invoices.paymentStatus, OPEN_PAYMENT_STATUSES)));
 }
 
 /**
@@ -597,6 +717,7 @@ export async function getUnpaidInvoicesWithDetails(tenantDb: TenantDb) {
       appointmentId: invoices.appointmentId,
       serviceDescription: invoices.serviceDescription,
       amount: invoices.amount,
+      balanceDue: invoices.balanceDue,
       paymentStatus: invoices.paymentStatus,
       customerName: customers.name,
       customerPhone: customers.phone,
@@ -604,7 +725,7 @@ export async function getUnpaidInvoicesWithDetails(tenantDb: TenantDb) {
     })
     .from(invoices)
     .leftJoin(customers, eq(invoices.customerId, customers.id))
-    .where(tenantDb.withTenantFilter(invoices, eq(invoices.paymentStatus, 'unpaid')))
+    .where(tenantDb.withTenantFilter(invoices, inArray(invoices.paymentStatus, OPEN_PAYMENT_STATUSES)))
     .orderBy(invoices.createdAt);
 
   return unpaidInvoices;
@@ -4,7 +4,9 @@ import { google } from 'googleapis';
 import { getGoogleSheetsClient } from './googleSheetsConnector';
 import { criticalMonitor } from './criticalMonitoring';
 
-// Data store for sheet contents
+// Data store for sheet contents. This is the root tenant's Google Sheet only -
+// other tenants answer from their own knowledge base
+// (services/knowledgeBaseService.ts).
 export let sheetsData: Record<string, any[]> = {};
 
 // Process sheet data into usable format
@@ -61,7 +61,8 @@ export async function sendSMS(
   message: string,
   conversationId?: number,
   messageId?: number,
-  phoneLineId?: number
+  phoneLineId?: number,
+  mediaUrls?: string[]
 ): Promise<{ success: boolean; error?: any; messageSid?: string }> {
   if (DEMO_MODE) {
     // In demo mode, log the message but don't actually send it
@@ -249,7 +250,8 @@ export async function sendSMS(
       statusCallbackUrl,
       messagingServiceSidToUse, // Pass the messaging service SID
       'customer_sms', // Explicit purpose
-      false // allowAdmin=false for customer SMS
+      false, // allowAdmin=false for customer SMS
+      mediaUrls
     );
     
     if (!failoverResult.success) {
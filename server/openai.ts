@@ -504,12 +504,27 @@ const WEB_SAFE_SCHEDULING_FUNCTIONS: OpenAI.Chat.Completions.ChatCompletionTool[
     WEB_SAFE_FUNCTION_NAMES.includes((tool as any).function?.name)
   );
 
+/**
+ * Scheduling tools in the flat shape the Realtime API expects, for the
+ * voice receptionist. Same handlers as SMS via executeFunctionCall.
+ */
+export function getRealtimeSchedulingTools(names: readonly string[]) {
+  return SCHEDULING_FUNCTIONS
+    .filter((tool) => names.includes(tool.function.name))
+    .map((tool) => ({
+      type: 'function' as const,
+      name: tool.function.name,
+      description: tool.function.description || '',
+      parameters: tool.function.parameters || { type: 'object', properties: {} },
+    }));
+}
+
 /**
  * Execute a function call requested by OpenAI
  * @param isWebChat - If true, blocks privileged functions for security
- * @param tenantId - Used for generating booking links in web chat
+ * @param tenantId - Tenant for slots, price book estimates and web chat booking links
  */
-async function executeFunctionCall(
+export async function executeFunctionCall(
   functionName: string,
   args: any,
   isWebChat: boolean = false,
@@ -528,18 +543,18 @@ async function executeFunctionCall(
     
     switch (functionName) {
       case "check_customer_database": {
-        const result = await checkCustomerDatabase(args.phone);
+        const result = await checkCustomerDatabase(args.phone, tenantId);
         return JSON.stringify(result);
       }
       
       case "validate_address": {
-        const result = await validateAddress(args.phone, args.address);
+        const result = await validateAddress(args.phone, args.address, tenantId);
         return JSON.stringify(result);
       }
       
       case "get_available_slots": {
         console.log(`[AI FUNCTION CALL] ✅ AI is calling get_available_slots for service: "${args.service}", phone: ${args.phone}`);
-        const result = await getAvailableSlots(args.phone, args.service);
+        const result = await getAvailableSlots(args.phone, args.service, tenantId);
         console.log(`[AI FUNCTION CALL] get_available_slots returned ${result.length} slots`);
         
         // Smart Availability Deep Links L2: Add multi-slot booking links for web chat
@@ -579,22 +594,22 @@ async function executeFunctionCall(
       }
       
       case "get_upsell_offers": {
-        const result = await getUpsellOffers(args.phone, args.service);
+        const result = await getUpsellOffers(args.phone, args.service, tenantId);
         return JSON.stringify(result);
       }
       
       case "create_appointment": {
-        const result = await createAppointment(args.phone);
+        const result = await createAppointment(args.phone, tenantId);
         return JSON.stringify(result);
       }
       
       case "build_booking_summary": {
-        const result = buildInvoiceSummary(args.phone);
+        const result = await buildInvoiceSummary(args.phone, tenantId);
         return JSON.stringify(result);
       }
       
       case "request_damage_photos": {
-        const result = await requestDamagePhotos(args.phone, args.damageDescription, args.damageType);
+        const result = await requestDamagePhotos(args.phone, args.damageDescription, args.damageType, tenantId);
         return JSON.stringify(result);
       }
       
@@ -622,7 +637,7 @@ async function executeFunctionCall(
       
       case "confirm_address_validation": {
         // Mark the address as validated after customer verbally confirms
-        const state = conversationState.getState(args.phone);
+        const state = conversationState.getState(args.phone, tenantId);
         if (state.address) {
           conversationState.updateState(args.phone, {
             addressValidated: true,
@@ -630,7 +645,7 @@ async function executeFunctionCall(
               ...state.stepsCompleted,
               addressValidated: true,
             },
-          });
+          }, tenantId);
           console.log(`[CONFIRM ADDRESS] ✅ Address confirmed for ${args.phone}: ${state.address}`);
           return JSON.stringify({
             success: true,
@@ -649,7 +664,7 @@ async function executeFunctionCall(
       
       case "update_appointment_address": {
         const { updateAppointmentAddress } = await import('./schedulingTools');
-        const result = await updateAppointmentAddress(args.phone, args.newAddress);
+        const result = await updateAppointmentAddress(args.phone, args.newAddress, tenantId);
         return JSON.stringify(result);
       }
       
@@ -698,6 +713,12 @@ export async function generateAIResponse(
   controlMode?: 'auto' | 'manual' | 'paused'  // AI BEHAVIOR V2: control mode awareness
 ) {
   try {
+    // Pick up the stored booking session (another instance or a restart may
+    // have handled this customer's previous message)
+    if (phoneNumber) {
+      await conversationState.load(phoneNumber, tenantId);
+    }
+
     // PHASE 11 + AI BEHAVIOR V2: Use SMS-optimized, state-aware prompt for SMS platform
     if (platform === 'sms' && tenantId) {
       console.log('[AI BEHAVIOR V2] Using state-aware SMS prompt builder');
@@ -705,7 +726,7 @@ export async function generateAIResponse(
       
       try {
         // AI BEHAVIOR V2: Load conversation state
-        const currentState = conversationState.getState(phoneNumber);
+        const currentState = conversationState.getState(phoneNumber, tenantId);
         
         // Extract last voicemail summary from conversation history (newest first)
         let lastVoicemailSummary: string | undefined;
@@ -746,7 +767,8 @@ export async function generateAIResponse(
           phoneNumber,
           conversationState: conversationStateInfo,  // AI BEHAVIOR V2: pass state
           controlMode,  // AI BEHAVIOR V2: pass control mode
-          recentHumanMessages  // AI BEHAVIOR V2: pass human context
+          recentHumanMessages,  // AI BEHAVIOR V2: pass human context
+          customerMessage: userMessage
         });
         
         // Build messages array with SMS-optimized prompt
@@ -863,7 +885,7 @@ export async function generateAIResponse(
             
             console.log(`[SMS AI FUNCTION CALL] ${functionName}(${JSON.stringify(functionArgs)})`);
             
-            const functionResult = await executeFunctionCall(functionName, functionArgs);
+            const functionResult = await executeFunctionCall(functionName, functionArgs, false, tenantId);
             
             currentMessages.push({
               role: "tool",
@@ -922,7 +944,8 @@ export async function generateAIResponse(
           tenantId, 
           phoneNumber,
           conversationState: {},
-          controlMode: 'auto'
+          controlMode: 'auto',
+          customerMessage: userMessage
         });
         
         // Add web-specific restrictions to the prompt (Smart Availability Deep Links)
@@ -1043,7 +1066,16 @@ IMPORTANT WEB CHAT RESTRICTIONS:
     
     // Standard (web/fallback) prompt logic
     const prompt = generatePrompt(userMessage);
-    const knowledgeBase = extractKnowledgeBase();
+    // Other tenants answer from their own knowledge base, never root's sheet data
+    let knowledgeBase: string;
+    if (tenantId && tenantId !== 'root') {
+      const { buildKnowledgeContext } = await import('./services/knowledgeBaseService');
+      const { db } = await import('./db');
+      const { wrapTenantDb } = await import('./tenantDb');
+      knowledgeBase = await buildKnowledgeContext(wrapTenantDb(db, tenantId), userMessage, 6);
+    } else {
+      knowledgeBase = extractKnowledgeBase();
+    }
     
     // Check if the customer should be offered the maintenance detail program
     const offerMaintenanceDetail = shouldOfferMaintenanceDetail(phoneNumber, userMessage);
@@ -1116,7 +1148,7 @@ IMPORTANT WEB CHAT RESTRICTIONS:
     }
 
     // Get conversation state for context
-    const state = conversationState.getState(phoneNumber);
+    const state = conversationState.getState(phoneNumber, tenantId);
     const stateContext = state ? `
     
     Current Booking State:
@@ -1375,7 +1407,7 @@ IMPORTANT WEB CHAT RESTRICTIONS:
         
         console.log(`[AI FUNCTION CALL] ${functionName}(${JSON.stringify(functionArgs)})`);
         
-        const functionResult = await executeFunctionCall(functionName, functionArgs);
+        const functionResult = await executeFunctionCall(functionName, functionArgs, false, tenantId);
         
         currentMessages.push({
           role: "tool",
@@ -5,6 +5,13 @@ import { invoices } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import { sendInvoiceNotification, sendReviewRequest } from './invoiceService';
 import { checkAndRewardReferral } from './referralService';
+import {
+  InvoiceLedgerError,
+  getInvoiceLedger,
+  recordInvoicePayment,
+  recordStripePayment,
+  syncStripeRefunds,
+} from './services/invoiceLedgerService';
 
 const STRIPE_ENABLED = !!process.env.STRIPE_SECRET_KEY;
 
@@ -28,23 +35,21 @@ export async function createStripePaymentIntent(req: Request, res: Response) {
     const tenantDb = (req as any).tenantDb as TenantDb;
     const { invoiceId } = req.params;
     
-    // Fetch the invoice details
-    const [invoice] = await tenantDb
-      .select()
-      .from(invoices)
-      .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, parseInt(invoiceId))));
+    // Fetch the invoice with its derived balance
+    const ledger = await getInvoiceLedger(tenantDb, parseInt(invoiceId));
     
-    if (!invoice) {
+    if (!ledger) {
       return res.status(404).json({ error: 'Invoice not found' });
     }
+    const { invoice, balance } = ledger;
     
-    // If already paid, return an error
-    if (invoice.paymentStatus === 'paid') {
+    // If nothing is owed, return an error
+    if (balance.balanceDue <= 0) {
       return res.status(400).json({ error: 'Invoice already paid' });
     }
     
-    // Convert amount to cents (Stripe works with smallest currency unit)
-    const amountInCents = Math.round(Number(invoice.amount) * 100);
+    // Charge the remaining balance in cents (Stripe works with smallest currency unit)
+    const amountInCents = Math.round(balance.balanceDue * 100);
     
     // Create a PaymentIntent
     const paymentIntent = await stripe.paymentIntents.create({
@@ -52,6 +57,7 @@ export async function createStripePaymentIntent(req: Request, res: Response) {
       currency: 'usd',
       metadata: {
         invoiceId: invoiceId,
+        tenantId: tenantDb.tenantId,
       },
     });
     
@@ -66,7 +72,8 @@ export async function createStripePaymentIntent(req: Request, res: Response) {
       clientSecret: paymentIntent.client_secret,
       invoiceDetails: {
         id: invoice.id,
-        amount: invoice.amount,
+        amount: balance.balanceDue.toFixed(2),
+        total: invoice.amount,
         description: invoice.serviceDescription,
         status: invoice.paymentStatus,
       }
@@ -109,29 +116,28 @@ export async function handleStripeWebhook(req: Request, res: Response) {
     
     // Handle the event
     switch (event.type) {
-      case 'payment_intent.succeeded':
+      case 'payment_intent.succeeded': {
         const paymentIntent = event.data.object;
         const invoiceId = paymentIntent.metadata.invoiceId;
+        if (!invoiceId) break;
         
-        // Update invoice status with both legacy and new payment status fields
-        const [paidInvoice] = await tenantDb
-          .update(invoices)
-          .set({
-            status: 'paid',          // Legacy field - backward compatibility
-            paymentStatus: 'paid',   // Primary payment status field
-            paymentMethod: 'stripe',
-            paidAt: new Date(),
-          })
-          .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, parseInt(invoiceId))))
-          .returning();
+        // Record the payment on the invoice ledger (idempotent per PaymentIntent)
+        const ledger = await recordStripePayment(
+          tenantDb,
+          parseInt(invoiceId),
+          paymentIntent.id,
+          (paymentIntent.amount_received ?? paymentIntent.amount) / 100
+        );
+        const paidInvoice = ledger.invoice;
         
-        console.log(`Invoice ${invoiceId} marked as paid via Stripe`);
+        console.log(`Invoice ${invoiceId} Stripe payment recorded, status ${ledger.balance.paymentStatus}`);
         
         // Check if this customer was referred and reward the referrer
         // This triggers when the referee completes their first service via Stripe payment
-        if (paidInvoice && paidInvoice.customerId) {
+        if (ledger.balance.paymentStatus === 'paid' && paidInvoice.customerId) {
           try {
             const referralResult = await checkAndRewardReferral(
+              tenantDb,
               paidInvoice.customerId,
               paidInvoice.id  // Pass invoice ID for validation
             );
@@ -145,6 +151,17 @@ export async function handleStripeWebhook(req: Request, res: Response) {
           }
         }
         break;
+      }
+        
+      case 'charge.refunded': {
+        // Refunds issued here or from the Stripe dashboard
+        const charge = event.data.object;
+        const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+        if (paymentIntentId) {
+          await syncStripeRefunds(tenantDb, paymentIntentId);
+        }
+        break;
+      }
         
       case 'payment_intent.payment_failed':
         console.log('Payment failed:', event.data.object);
@@ -168,33 +185,42 @@ export async function markInvoiceAsPaid(req: Request, res: Response) {
   try {
     const tenantDb = (req as any).tenantDb as TenantDb;
     const { invoiceId } = req.params;
-    const { paymentMethod } = req.body;
+    const { paymentMethod, amount } = req.body;
     
     if (!paymentMethod || !['venmo', 'cashapp', 'paypal', 'cash', 'check'].includes(paymentMethod)) {
       return res.status(400).json({ error: 'Invalid payment method' });
     }
+    if (amount !== undefined && (typeof amount !== 'number' || !(amount > 0))) {
+      return res.status(400).json({ error: 'Invalid payment amount' });
+    }
     
-    // Update the invoice with both legacy and new payment status fields
-    const [updatedInvoice] = await tenantDb
-      .update(invoices)
-      .set({
-        status: 'paid',          // Legacy field - backward compatibility
-        paymentStatus: 'paid',   // Primary payment status field
-        paymentMethod,
-        paidAt: new Date(),
-      })
-      .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, parseInt(invoiceId))))
-      .returning();
-    
-    if (!updatedInvoice) {
+    const current = await getInvoiceLedger(tenantDb, parseInt(invoiceId));
+    if (!current) {
       return res.status(404).json({ error: 'Invoice not found' });
     }
+    if (current.balance.balanceDue <= 0) {
+      return res.status(400).json({ error: 'Invoice already paid' });
+    }
+    
+    // Record the payment on the ledger - the full balance unless a partial amount is given
+    const ledger = await recordInvoicePayment(
+      tenantDb,
+      current.invoice.id,
+      { method: paymentMethod, amount: amount ?? current.balance.balanceDue },
+      (req as any).user?.id
+    );
+    const updatedInvoice = ledger.invoice;
+    
+    if (ledger.balance.paymentStatus !== 'paid') {
+      return res.status(200).json({ success: true, invoice: updatedInvoice, balance: ledger.balance });
+    }
     
     // Check if this customer was referred and reward the referrer
     // This triggers when the referee completes their first service
     if (updatedInvoice.customerId) {
       try {
         const referralResult = await checkAndRewardReferral(
+          tenantDb,
           updatedInvoice.customerId,
           updatedInvoice.id  // Pass invoice ID for validation
         );
@@ -210,15 +236,18 @@ export async function markInvoiceAsPaid(req: Request, res: Response) {
     
     // Trigger post-payment automations (review request, receipt email, loyalty points)
     try {
-      await sendReviewRequest(updatedInvoice.id);
+      await sendReviewRequest(tenantDb, updatedInvoice.id);
       console.log(`[PAYMENT] Review request sent for invoice ${updatedInvoice.id}`);
     } catch (error) {
       console.error('[PAYMENT] Error sending review request:', error);
       // Don't fail the payment if review request fails
     }
     
-    res.status(200).json({ success: true, invoice: updatedInvoice });
+    res.status(200).json({ success: true, invoice: updatedInvoice, balance: ledger.balance });
   } catch (error) {
+    if (error instanceof InvoiceLedgerError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Error marking invoice as paid:', error);
     res.status(500).json({ error: 'Failed to update invoice' });
   }
@@ -1,8 +1,10 @@
 import type { TenantDb } from "./db";
-import { quoteRequests, customers } from "../shared/schema";
+import { quoteRequests, customers, customerVehicles } from "../shared/schema";
 import { nanoid } from "nanoid";
 import { sendSMS } from "./notifications";
-import { eq, and, inArray, isNotNull, sql } from "drizzle-orm";
+import { eq, and, inArray, isNotNull, sql, desc } from "drizzle-orm";
+import { detectConditions } from "../shared/priceBook";
+import { estimatePrice, loadPriceBook, PriceBookError, type PriceBookEstimate } from "./services/priceBookService";
 
 /**
  * Create a specialty quote request for jobs requiring manual pricing
@@ -96,31 +98,91 @@ Photos will appear when customer uploads them.`;
 }
 
 /**
- * Get AI-powered pricing suggestions based on past completed specialty jobs
+ * Price book baseline for a quote: the chosen service on the customer's
+ * primary vehicle, with condition surcharges picked out of the description
+ */
+async function getPriceBookBaseline(
+  tenantDb: TenantDb,
+  serviceId: number,
+  customerId: number | null | undefined,
+  issueDescription: string
+): Promise<PriceBookEstimate | null> {
+  try {
+    const priceBook = await loadPriceBook(tenantDb);
+    const conditionLabels = priceBook.modifiers
+      .filter(m => m.kind === 'condition')
+      .map(m => ({ key: m.key, label: m.label }));
+    const conditions = detectConditions(issueDescription, conditionLabels);
+
+    const [vehicle] = customerId
+      ? await tenantDb
+          .select({ id: customerVehicles.id })
+          .from(customerVehicles)
+          .where(tenantDb.withTenantFilter(customerVehicles, eq(customerVehicles.customerId, customerId)))
+          .orderBy(desc(customerVehicles.isPrimary))
+          .limit(1)
+      : [];
+
+    return await estimatePrice(tenantDb, {
+      serviceId,
+      vehicles: [{ vehicleId: vehicle?.id, conditions }],
+    }, priceBook);
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      console.log(`[PRICING SUGGESTIONS] No price book baseline: ${error.message}`);
+    } else {
+      console.error('[PRICING SUGGESTIONS] Price book baseline failed:', error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Get AI-powered pricing suggestions based on past completed specialty jobs,
+ * plus a price book estimate when the quote is being compared to a service
  */
 export async function getPricingSuggestions(
   tenantDb: TenantDb,
   damageType: string,
-  issueDescription: string
+  issueDescription: string,
+  baseline?: { serviceId?: number; customerId?: number | null }
 ): Promise<{
-  suggestions: {
-    minPrice: number;
-    avgPrice: number;
-    maxPrice: number;
-    avgTimeSpent: number;
-    avgDifficulty: number;
-    totalJobs: number;
-    similarJobs: Array<{
-      id: number;
-      type: string;
-      description: string;
-      price: number;
-      timeSpent: number;
-      difficulty: number;
-      lessonLearned: string | null;
-    }>;
-  } | null;
+  suggestions: HistoricalPricingSuggestions | null;
+  estimate: PriceBookEstimate | null;
 }> {
+  const [historical, estimate] = await Promise.all([
+    getHistoricalSuggestions(tenantDb, damageType, issueDescription),
+    baseline?.serviceId
+      ? getPriceBookBaseline(tenantDb, baseline.serviceId, baseline.customerId, issueDescription)
+      : Promise.resolve(null),
+  ]);
+
+  return { suggestions: historical.suggestions, estimate };
+}
+
+interface HistoricalPricingSuggestions {
+  minPrice: number;
+  avgPrice: number;
+  maxPrice: number;
+  avgTimeSpent: number;
+  avgDifficulty: number;
+  totalJobs: number;
+  similarJobs: Array<{
+    id: number;
+    type: string;
+    description: string;
+    price: number;
+    timeSpent: number;
+    difficulty: number;
+    lessonLearned: string | null;
+  }>;
+}
+
+async function getHistoricalSuggestions(
+  tenantDb: TenantDb,
+  damageType: string,
+  issueDescription: string
+): Promise<{ suggestions: HistoricalPricingSuggestions | null }> {
   try {
     console.log('[PRICING SUGGESTIONS] Analyzing historical data for:', damageType);
 
@@ -7,6 +7,7 @@ import { addDays, addWeeks, addMonths, addYears, format } from 'date-fns';
 import { processDepositReminders } from './depositManager';
 import { recordAppointmentCreated } from './customerBookingStats';
 import { getTenantTimezone, setLocalTimeAndConvertToUtc } from './timezoneUtils';
+import { lockTenantSchedule } from './services/scheduleLock';
 
 /**
  * Calculate the next scheduled date based on frequency
@@ -110,6 +111,7 @@ async function processRecurringServices() {
 
         // Create the appointment - wrap in transaction with stats update and recurring service update
         await tenantDb.transaction(async (tx) => {
+          await lockTenantSchedule(tx, 'root');
           const txTenantDb = wrapTenantDb(tx, 'root');
           
           const [newAppointment] = await txTenantDb
@@ -15,6 +15,8 @@ import { eq, and, sql, desc, lte, gte, isNull, or } from 'drizzle-orm';
 import { addDays, subDays, differenceInDays } from 'date-fns';
 import cron from 'node-cron';
 import { generateReminderMessage, appendActionLinks } from './gptPersonalizationService';
+import { checkConsent } from './services/consentLedgerService';
+import { enqueueOutbound } from './services/outboundDispatchService';
 
 /**
  * Identify customers who need service reminders based on their last appointment
@@ -118,9 +120,15 @@ export async function identifyCustomersNeedingReminders(tenantDb: TenantDb) {
 
       // For each matching customer, check if they already have a pending reminder
       for (const appt of matchingAppointments) {
-        // Skip customers who haven't opted into SMS (if we're planning to send SMS)
-        if (!appt.smsConsent && !appt.customerEmail) {
-          console.log(`[REMINDER SERVICE] Skipping customer ${appt.customerId} - no SMS consent and no email`);
+        // Skip customers with no channel they've consented to for reminders
+        const smsReminderConsent = appt.customerPhone
+          ? await checkConsent(tenantDb, { customerId: appt.customerId, phone: appt.customerPhone }, 'sms', 'reminders')
+          : null;
+        const emailReminderConsent = appt.customerEmail
+          ? await checkConsent(tenantDb, { customerId: appt.customerId, email: appt.customerEmail }, 'email', 'reminders')
+          : null;
+        if (!smsReminderConsent?.allowed && !emailReminderConsent?.allowed) {
+          console.log(`[REMINDER SERVICE] Skipping customer ${appt.customerId} - no SMS or email reminder consent`);
           continue;
         }
 
@@ -219,6 +227,46 @@ export async function createReminderJob(
   }
 }
 
+/**
+ * Queue a pending reminder job on the first channel the customer accepts
+ * reminders on; the dispatcher marks the job sent/failed once it goes out
+ */
+export async function queueReminderJob(
+  tenantDb: TenantDb,
+  jobId: number,
+  options: { subject?: string } = {}
+): Promise<boolean> {
+  const job = await tenantDb.query.reminderJobs.findFirst({
+    where: tenantDb.withTenantFilter(reminderJobs, eq(reminderJobs.id, jobId))
+  });
+  if (!job || job.status !== 'pending' || !job.messageContent) return false;
+
+  const customer = await tenantDb.query.customers.findFirst({
+    where: tenantDb.withTenantFilter(customers, eq(customers.id, job.customerId))
+  });
+  if (!customer) return false;
+
+  const smsAllowed = !!customer.phone &&
+    (await checkConsent(tenantDb, { customerId: customer.id, phone: customer.phone }, 'sms', 'reminders')).allowed;
+  const reminderTo = smsAllowed ? customer.phone : customer.email;
+  if (!reminderTo) return false;
+
+  await enqueueOutbound(tenantDb, {
+    channel: smsAllowed ? 'sms' : 'email',
+    purpose: 'service_reminder',
+    to: reminderTo,
+    subject: smsAllowed ? undefined : (options.subject ?? 'Time for your next detail'),
+    body: job.messageContent,
+    customerId: customer.id,
+    recipientAddress: customer.address,
+    sendAfter: job.scheduledFor,
+    sourceType: 'reminder_job',
+    sourceId: job.id,
+    dedupeKey: `reminder_job:${job.id}`,
+  });
+  return true;
+}
+
 /**
  * Get reminder jobs filtered by status
  */
@@ -252,15 +300,24 @@ export async function markReminderSent(
   channel: 'sms' | 'email' | 'push'
 ): Promise<boolean> {
   try {
-    // Update job status
-    await tenantDb
+    // Only pending jobs move to sent - a snooze, opt-out or cancellation already settled the rest
+    const updated = await tenantDb
       .update(reminderJobs)
       .set({
         status: 'sent',
         sentAt: new Date(),
         lastAttemptAt: new Date(),
       })
-      .where(tenantDb.withTenantFilter(reminderJobs, eq(reminderJobs.id, jobId)));
+      .where(tenantDb.withTenantFilter(reminderJobs, and(
+        eq(reminderJobs.id, jobId),
+        eq(reminderJobs.status, 'pending')
+      )))
+      .returning({ id: reminderJobs.id });
+
+    if (updated.length === 0) {
+      console.log(`[REMINDER SERVICE] Job ${jobId} is no longer pending, not marking as sent`);
+      return false;
+    }
 
     // Get job details for event logging
     const job = await tenantDb.query.reminderJobs.findFirst({
@@ -307,6 +364,11 @@ export async function markReminderFailed(
       throw new Error(`Job ${jobId} not found`);
     }
 
+    if (job.status !== 'pending') {
+      console.log(`[REMINDER SERVICE] Job ${jobId} is no longer pending, not marking as failed`);
+      return false;
+    }
+
     // Update job status
     await tenantDb
       .update(reminderJobs)
@@ -503,6 +565,8 @@ export async function processProactiveReminders(tenantDb: TenantDb) {
           // Job already created with fallback message, no need to update
         }
 
+        await queueReminderJob(tenantDb, jobId, { subject: `Time for your next ${recommendedService}` });
+
         createdCount++;
         console.log(
           `[PROACTIVE REMINDERS] ✅ Created reminder job ${jobId} for ${customer.customerName} - ` +
@@ -0,0 +1,205 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { hasFeature } from '@shared/features';
+import { ACCOUNTING_EXPORT_FORMATS } from '@shared/accountingExport';
+import { db } from './db';
+import { tenants } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from './authMiddleware';
+import type { TenantDb } from './tenantDb';
+import {
+  AccountingSyncError,
+  createAccountingExport,
+  getAccountingExport,
+  getAccountingSyncSummary,
+  importAccountingAcknowledgements,
+  listAccountingExports,
+  listAccountingProviders,
+  previewAccountingExport,
+  type AccountingPeriod,
+} from './services/accountingSyncService';
+
+const router = Router();
+
+/**
+ * Accounting Sync Routes
+ * Export services, customers and paid jobs to QuickBooks/Xero-style
+ * accounting packages and import the ids they assign back
+ */
+
+// Feature gating: dataExport feature required
+async function requireDataExportFeature(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenant?.id || 'root';
+    const [tenantRecord] = await db.select().from(tenants).where(eq(tenants.id, tenantId));
+
+    if (!tenantRecord) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tenant not found'
+      });
+    }
+
+    if (!hasFeature(tenantRecord, 'dataExport')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Accounting export requires Starter plan or higher'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('[ACCOUNTING] Feature gating error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify feature access'
+    });
+  }
+}
+
+router.use(requireAuth);
+router.use(requireDataExportFeature);
+
+function sendAccountingError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof AccountingSyncError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`[ACCOUNTING] ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+const periodSchema = z.object({
+  provider: z.string().default('file'),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+});
+
+function toPeriod(input: { start?: Date; end?: Date }): AccountingPeriod {
+  return { start: input.start, end: input.end };
+}
+
+/**
+ * GET /api/admin/accounting/status
+ * Providers available and where the current tenant's sync stands
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const tenantDb = req.tenantDb as TenantDb;
+    const provider = typeof req.query.provider === 'string' ? req.query.provider : 'file';
+    const summary = await getAccountingSyncSummary(tenantDb, provider);
+
+    res.json({ success: true, providers: listAccountingProviders(), summary });
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to load accounting sync status');
+  }
+});
+
+/**
+ * GET /api/admin/accounting/preview?start=&end=
+ * How many records are new or changed since the last export
+ */
+router.get('/preview', async (req: Request, res: Response) => {
+  try {
+    const validation = periodSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Invalid period', details: validation.error.errors });
+    }
+
+    const preview = await previewAccountingExport(
+      req.tenantDb as TenantDb,
+      validation.data.provider,
+      toPeriod(validation.data)
+    );
+    res.json({ success: true, preview });
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to preview accounting export');
+  }
+});
+
+/**
+ * GET /api/admin/accounting/exports
+ * Recent export files (without their content)
+ */
+router.get('/exports', async (req: Request, res: Response) => {
+  try {
+    const exports = await listAccountingExports(req.tenantDb as TenantDb);
+    res.json({ success: true, exports });
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to load accounting exports');
+  }
+});
+
+/**
+ * POST /api/admin/accounting/exports
+ * Generate an export of everything new or changed in the period
+ */
+const createExportSchema = periodSchema.extend({
+  format: z.enum(ACCOUNTING_EXPORT_FORMATS),
+  includeUnchanged: z.boolean().optional().default(false),
+});
+
+router.post('/exports', async (req: Request, res: Response) => {
+  try {
+    const validation = createExportSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Invalid export request', details: validation.error.errors });
+    }
+
+    const exportRow = await createAccountingExport(req.tenantDb as TenantDb, {
+      provider: validation.data.provider,
+      format: validation.data.format,
+      period: toPeriod(validation.data),
+      includeUnchanged: validation.data.includeUnchanged,
+      userId: req.session?.userId ?? null,
+    });
+    res.json({ success: true, export: exportRow });
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to create accounting export');
+  }
+});
+
+/**
+ * GET /api/admin/accounting/exports/:id/download
+ * The export file itself
+ */
+router.get('/exports/:id/download', async (req: Request, res: Response) => {
+  try {
+    const exportRow = await getAccountingExport(req.tenantDb as TenantDb, parseInt(req.params.id));
+    const contentType = exportRow.format === 'csv' ? 'text/csv' : 'text/plain';
+
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportRow.fileName}"`);
+    res.send(exportRow.content);
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to download accounting export');
+  }
+});
+
+/**
+ * POST /api/admin/accounting/acknowledgements
+ * Import the ids the accounting package assigned to exported records
+ */
+const acknowledgementSchema = z.object({
+  provider: z.string().default('file'),
+  content: z.string().min(1).max(2_000_000),
+});
+
+router.post('/acknowledgements', async (req: Request, res: Response) => {
+  try {
+    const validation = acknowledgementSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: 'Invalid acknowledgement file', details: validation.error.errors });
+    }
+
+    const result = await importAccountingAcknowledgements(
+      req.tenantDb as TenantDb,
+      validation.data.provider,
+      validation.data.content
+    );
+    res.json({ success: true, result });
+  } catch (error) {
+    sendAccountingError(res, error, 'Failed to import acknowledgements');
+  }
+});
+
+export default router;
@@ -5,6 +5,10 @@
  * - GET /api/admin/ivr/menu - Get current tenant's IVR menu
  * - PUT /api/admin/ivr/menu - Update tenant's IVR menu
  * - POST /api/admin/ivr/menu/reset - Reset to default configuration
+ * - GET /api/admin/ivr/flow - All menus, voicemail boxes and links (flow editor)
+ * - POST/PUT/DELETE /api/admin/ivr/menus[/:id] - Manage submenus
+ * - GET/POST/PUT/DELETE /api/admin/ivr/voicemail-boxes[/:id] - Department voicemail
+ * - POST /api/admin/ivr/simulate - Walk the flow for a test call
  * 
  * Multi-tenant safety:
  * - Uses session.tenantId (defaults to 'root')
@@ -17,6 +21,8 @@ import { db } from './db';
 import { 
   ivrMenus, 
   ivrMenuItems, 
+  tenantPhoneConfig,
+  users,
   insertIvrMenuSchema, 
   insertIvrMenuItemSchema,
   IvrMenuWithItems,
@@ -27,8 +33,19 @@ import { eq, and, asc } from 'drizzle-orm';
 import { 
   getOrCreateDefaultMenuForTenant, 
   getActiveMenuForTenant, 
-  updateMenuForTenant 
+  updateMenuForTenant,
+  listMenusForTenant,
+  createMenuForTenant,
+  deleteMenuForTenant,
+  validateIvrMenu,
+  getIvrScheduleForLine,
+  listVoicemailBoxesForTenant,
+  saveVoicemailBoxForTenant,
+  deleteVoicemailBoxForTenant,
+  IvrConfigError,
 } from './services/ivrConfigService';
+import { simulateIvrCall } from './services/ivrSimulator';
+import { ivrFlowEdges } from '../shared/ivrFlow';
 import { z } from 'zod';
 
 const VALID_ACTION_TYPES: IvrActionType[] = [
@@ -52,6 +69,12 @@ const menuItemSchema = z.object({
   isHidden: z.boolean().optional().default(false),
 });
 
+const hoursRoutingSchema = z.object({
+  closedMenuId: z.number().int().positive().nullable().optional(),
+  holidayMenuId: z.number().int().positive().nullable().optional(),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Holidays must be YYYY-MM-DD')).max(60).optional(),
+});
+
 const updateMenuSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   greetingText: z.string().min(1).max(500),
@@ -59,9 +82,104 @@ const updateMenuSchema = z.object({
   invalidInputMessage: z.string().min(1).max(200).optional(),
   voiceName: z.string().optional().default('alice'),
   maxAttempts: z.number().min(1).max(5).optional().default(3),
+  hoursRouting: hoursRoutingSchema.nullable().optional(),
   items: z.array(menuItemSchema).min(1).max(12),
 });
 
+const createMenuSchema = z.object({
+  name: z.string().min(1).max(100),
+  greetingText: z.string().min(10).max(500),
+  voiceName: z.string().optional(),
+});
+
+const voicemailBoxSchema = z.object({
+  name: z.string().min(1).max(100),
+  greetingText: z.string().max(500).nullable().optional(),
+  notifyUserIds: z.array(z.number().int().positive()).max(50).optional().default([]),
+  transcribe: z.boolean().optional().default(true),
+});
+
+const simulateSchema = z.object({
+  menuId: z.number().int().positive().optional(),
+  digits: z.string().regex(/^[0-9*#]*$/, 'Digits must be 0-9, * or #').max(20),
+  at: z.string().datetime().optional(),
+});
+
+/**
+ * Validate and save one menu. Checks the menu's links against the rest of
+ * the tenant's flow so a save can't introduce a loop or a dangling submenu.
+ */
+async function saveMenu(
+  res: Response,
+  tenantId: string,
+  body: unknown,
+  menuId?: number
+) {
+  const validationResult = updateMenuSchema.safeParse(body);
+  
+  if (!validationResult.success) {
+    console.warn('[ADMIN IVR] Validation failed:', validationResult.error.errors);
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid menu configuration',
+      details: validationResult.error.errors,
+    });
+  }
+  
+  const menuData = validationResult.data;
+  const menus = await listMenusForTenant(tenantId);
+  const targetId = menuId ?? menus.find(m => m.key === 'main')?.id;
+  
+  if (targetId !== undefined) {
+    const boxes = await listVoicemailBoxesForTenant(tenantId);
+    const errors = validateIvrMenu(menuData, {
+      menuId: targetId,
+      menus,
+      voicemailBoxIds: boxes.map(box => box.id),
+    });
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid menu configuration',
+        details: errors.map(message => ({ message })),
+      });
+    }
+  }
+  
+  const updatedMenu = await updateMenuForTenant(tenantId, {
+    name: menuData.name,
+    greetingText: menuData.greetingText,
+    noInputMessage: menuData.noInputMessage,
+    invalidInputMessage: menuData.invalidInputMessage,
+    voiceName: menuData.voiceName,
+    maxAttempts: menuData.maxAttempts,
+    hoursRouting: menuData.hoursRouting,
+    items: menuData.items.map((item, index) => ({
+      digit: item.digit,
+      label: item.label,
+      actionType: item.actionType,
+      actionPayload: item.actionPayload || {},
+      orderIndex: item.orderIndex ?? index,
+      isHidden: item.isHidden ?? false,
+    })),
+  }, menuId);
+  
+  console.log(`[ADMIN IVR] Updated menu ${updatedMenu.id} for tenant=${tenantId}, items=${updatedMenu.items.length}`);
+  
+  res.json({
+    success: true,
+    menu: updatedMenu,
+    message: 'IVR menu updated successfully',
+  });
+}
+
+function sendIvrError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof IvrConfigError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  res.status(500).json({ success: false, error: fallback });
+}
+
 export function registerAdminIvrRoutes(app: Express) {
   /**
    * GET /api/admin/ivr/menu
@@ -100,50 +218,11 @@ export function registerAdminIvrRoutes(app: Express) {
       
       console.log(`[ADMIN IVR] PUT menu for tenant=${tenantId}`);
       
-      const validationResult = updateMenuSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        console.warn('[ADMIN IVR] Validation failed:', validationResult.error.errors);
-        return res.status(400).json({
-          success: false,
-          error: 'Invalid menu configuration',
-          details: validationResult.error.errors,
-        });
-      }
-      
-      const menuData = validationResult.data;
-      
-      const updatedMenu = await updateMenuForTenant(tenantId, {
-        name: menuData.name,
-        greetingText: menuData.greetingText,
-        noInputMessage: menuData.noInputMessage,
-        invalidInputMessage: menuData.invalidInputMessage,
-        voiceName: menuData.voiceName,
-        maxAttempts: menuData.maxAttempts,
-        items: menuData.items.map((item, index) => ({
-          digit: item.digit,
-          label: item.label,
-          actionType: item.actionType,
-          actionPayload: item.actionPayload || {},
-          orderIndex: item.orderIndex ?? index,
-          isHidden: item.isHidden ?? false,
-        })),
-      });
-      
-      console.log(`[ADMIN IVR] Updated menu for tenant=${tenantId}, items=${updatedMenu.items.length}`);
-      
-      res.json({
-        success: true,
-        menu: updatedMenu,
-        message: 'IVR menu updated successfully',
-      });
+      await saveMenu(res, tenantId, req.body);
       
     } catch (error) {
       console.error('[ADMIN IVR] Error updating menu:', error);
-      res.status(500).json({
-        success: false,
-        error: 'Failed to update IVR configuration',
-      });
+      sendIvrError(res, error, 'Failed to update IVR configuration');
     }
   });
   
@@ -191,6 +270,230 @@ export function registerAdminIvrRoutes(app: Express) {
     }
   });
   
+  /**
+   * GET /api/admin/ivr/flow
+   * Every menu with its links, the voicemail boxes and the staff they can notify
+   */
+  app.get('/api/admin/ivr/flow', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      
+      // Seeds the main menu for tenants that haven't opened the editor yet
+      await getOrCreateDefaultMenuForTenant(tenantId);
+      
+      const [menus, voicemailBoxes, staff] = await Promise.all([
+        listMenusForTenant(tenantId),
+        listVoicemailBoxesForTenant(tenantId),
+        db
+          .select({ id: users.id, username: users.username, fullName: users.fullName, email: users.email })
+          .from(users)
+          .where(and(eq(users.tenantId, tenantId), eq(users.isActive, true)))
+          .orderBy(asc(users.username)),
+      ]);
+      
+      res.json({
+        success: true,
+        menus,
+        edges: menus.flatMap(menu => ivrFlowEdges(menu)),
+        voicemailBoxes,
+        staff,
+      });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error fetching flow:', error);
+      res.status(500).json({ success: false, error: 'Failed to load IVR flow' });
+    }
+  });
+  
+  /**
+   * POST /api/admin/ivr/menus
+   * Create an empty submenu
+   */
+  app.post('/api/admin/ivr/menus', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      
+      const validationResult = createMenuSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid menu',
+          details: validationResult.error.errors,
+        });
+      }
+      
+      const menu = await createMenuForTenant(tenantId, validationResult.data);
+      res.status(201).json({ success: true, menu, message: 'Menu created' });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error creating menu:', error);
+      sendIvrError(res, error, 'Failed to create menu');
+    }
+  });
+  
+  /**
+   * PUT /api/admin/ivr/menus/:id
+   * Update any of the tenant's menus, including its hours routing
+   */
+  app.put('/api/admin/ivr/menus/:id', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      const menuId = parseInt(req.params.id);
+      if (!menuId) {
+        return res.status(400).json({ success: false, error: 'Invalid menu id' });
+      }
+      
+      await saveMenu(res, tenantId, req.body, menuId);
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error updating menu:', error);
+      sendIvrError(res, error, 'Failed to update menu');
+    }
+  });
+  
+  /**
+   * DELETE /api/admin/ivr/menus/:id
+   * Delete a submenu nothing links to any more
+   */
+  app.delete('/api/admin/ivr/menus/:id', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      const menuId = parseInt(req.params.id);
+      if (!menuId) {
+        return res.status(400).json({ success: false, error: 'Invalid menu id' });
+      }
+      
+      await deleteMenuForTenant(tenantId, menuId);
+      res.json({ success: true, message: 'Menu deleted' });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error deleting menu:', error);
+      sendIvrError(res, error, 'Failed to delete menu');
+    }
+  });
+  
+  /**
+   * GET /api/admin/ivr/voicemail-boxes
+   */
+  app.get('/api/admin/ivr/voicemail-boxes', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      const voicemailBoxes = await listVoicemailBoxesForTenant(tenantId);
+      res.json({ success: true, voicemailBoxes });
+    } catch (error) {
+      console.error('[ADMIN IVR] Error fetching voicemail boxes:', error);
+      res.status(500).json({ success: false, error: 'Failed to load voicemail boxes' });
+    }
+  });
+  
+  /**
+   * POST /api/admin/ivr/voicemail-boxes
+   * PUT /api/admin/ivr/voicemail-boxes/:id
+   */
+  const saveVoicemailBox = async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      const boxId = req.params.id !== undefined ? parseInt(req.params.id) : undefined;
+      if (boxId !== undefined && !boxId) {
+        return res.status(400).json({ success: false, error: 'Invalid voicemail box id' });
+      }
+      
+      const validationResult = voicemailBoxSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid voicemail box',
+          details: validationResult.error.errors,
+        });
+      }
+      
+      const voicemailBox = await saveVoicemailBoxForTenant(tenantId, validationResult.data, boxId);
+      res.status(boxId === undefined ? 201 : 200).json({ success: true, voicemailBox, message: 'Voicemail box saved' });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error saving voicemail box:', error);
+      sendIvrError(res, error, 'Failed to save voicemail box');
+    }
+  };
+  app.post('/api/admin/ivr/voicemail-boxes', saveVoicemailBox);
+  app.put('/api/admin/ivr/voicemail-boxes/:id', saveVoicemailBox);
+  
+  /**
+   * DELETE /api/admin/ivr/voicemail-boxes/:id
+   */
+  app.delete('/api/admin/ivr/voicemail-boxes/:id', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      const boxId = parseInt(req.params.id);
+      if (!boxId) {
+        return res.status(400).json({ success: false, error: 'Invalid voicemail box id' });
+      }
+      
+      await deleteVoicemailBoxForTenant(tenantId, boxId);
+      res.json({ success: true, message: 'Voicemail box deleted' });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error deleting voicemail box:', error);
+      sendIvrError(res, error, 'Failed to delete voicemail box');
+    }
+  });
+  
+  /**
+   * POST /api/admin/ivr/simulate
+   * Walk the flow as a caller pressing `digits`, at `at` (default now),
+   * against the business hours of the tenant's main line
+   */
+  app.post('/api/admin/ivr/simulate', async (req: Request, res: Response) => {
+    try {
+      const tenantId = (req.session as any)?.tenantId || 'root';
+      
+      const validationResult = simulateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid test call',
+          details: validationResult.error.errors,
+        });
+      }
+      const { menuId, digits, at } = validationResult.data;
+      
+      await getOrCreateDefaultMenuForTenant(tenantId);
+      const [menus, voicemailBoxes, [line]] = await Promise.all([
+        listMenusForTenant(tenantId),
+        listVoicemailBoxesForTenant(tenantId),
+        db
+          .select({ phoneNumber: tenantPhoneConfig.phoneNumber })
+          .from(tenantPhoneConfig)
+          .where(eq(tenantPhoneConfig.tenantId, tenantId))
+          .limit(1),
+      ]);
+      
+      const entryMenuId = menuId ?? menus.find(m => m.key === 'main')?.id;
+      if (!entryMenuId || !menus.some(m => m.id === entryMenuId)) {
+        return res.status(404).json({ success: false, error: 'Menu not found' });
+      }
+      
+      const { schedules, timezone } = await getIvrScheduleForLine(tenantId, line?.phoneNumber || null);
+      const protocol = req.headers['x-forwarded-proto'] || 'https';
+      const result = simulateIvrCall({
+        menus,
+        entryMenuId,
+        digits: digits.split(''),
+        schedules,
+        now: at ? new Date(at) : new Date(),
+        timezone,
+        callbackBaseUrl: `${protocol}://${req.headers['host']}`,
+        voicemailBoxes,
+      });
+      
+      res.json({ success: true, ...result, timezone });
+      
+    } catch (error) {
+      console.error('[ADMIN IVR] Error simulating call:', error);
+      res.status(500).json({ success: false, error: 'Failed to simulate call' });
+    }
+  });
+  
   /**
    * GET /api/admin/ivr/action-types
    * Get list of available IVR action types with descriptions
@@ -234,14 +537,16 @@ export function registerAdminIvrRoutes(app: Express) {
         type: 'VOICEMAIL',
         label: 'Voicemail',
         description: 'Send caller to voicemail',
-        payloadFields: [],
+        payloadFields: [
+          { name: 'voicemailBoxId', type: 'voicemailBox', required: false, description: 'Department voicemail box (default: the line voicemail)' },
+        ],
       },
       {
         type: 'SUBMENU',
         label: 'Go to Submenu',
         description: 'Navigate to another IVR menu (for complex IVR trees)',
         payloadFields: [
-          { name: 'submenuId', type: 'number', required: true, description: 'The ID of the submenu to navigate to' },
+          { name: 'submenuId', type: 'menu', required: true, description: 'The submenu to navigate to' },
         ],
       },
       {
@@ -264,5 +569,5 @@ export function registerAdminIvrRoutes(app: Express) {
     res.json({ success: true, actionTypes });
   });
   
-  console.log('[ADMIN IVR ROUTES] Registered: GET/PUT /api/admin/ivr/menu, POST /api/admin/ivr/menu/reset, GET /api/admin/ivr/action-types');
+  console.log('[ADMIN IVR ROUTES] Registered: GET/PUT /api/admin/ivr/menu, POST /api/admin/ivr/menu/reset, GET /api/admin/ivr/flow, /api/admin/ivr/menus, /api/admin/ivr/voicemail-boxes, POST /api/admin/ivr/simulate, GET /api/admin/ivr/action-types');
 }
@@ -1,6 +1,10 @@
 import { Router } from 'express';
 import { appointments, invoices, services, emailCampaigns, appointmentUpsells, customers } from '@shared/schema';
 import { sql, gte, lte, and, eq, desc } from 'drizzle-orm';
+import { generateRevenueForecast } from './services/revenueForecastService';
+import { getAttributionReport } from './services/attributionService';
+import { ATTRIBUTION_DIMENSIONS, ATTRIBUTION_MODELS } from '@shared/attribution';
+import { z } from 'zod';
 
 const router = Router();
 
@@ -111,6 +115,23 @@ router.get('/campaign-effectiveness', async (req, res) => {
             )
           );
 
+        // Bookings that actually came through this campaign's tracked {{link}}
+        const attributed = await (req as any).tenantDb!
+          .select({
+            count: sql<number>`COUNT(DISTINCT ${appointments.id})::int`,
+            revenue: sql<number>`COALESCE(SUM(CASE WHEN ${invoices.paymentStatus} = 'paid' THEN ${invoices.amount} ELSE 0 END), 0)::numeric`
+          })
+          .from(appointments)
+          .leftJoin(invoices, eq(appointments.id, invoices.appointmentId))
+          .where(
+            (req as any).tenantDb!.withTenantFilter(appointments,
+              and(
+                sql`${appointments.attributionSource}->>'channel' = 'email_campaign'`,
+                sql`(${appointments.attributionSource}->>'campaignId')::int = ${campaign.id}`
+              )
+            )
+          );
+
         return {
           campaignName: campaign.name,
           sentDate: campaign.sentAt,
@@ -118,7 +139,9 @@ router.get('/campaign-effectiveness', async (req, res) => {
           openRate: Number(campaign.openRate || 0),
           clickRate: Number(campaign.clickRate || 0),
           appointmentsGenerated: appointmentsAfter[0]?.count || 0,
-          revenueGenerated: Number(appointmentsAfter[0]?.revenue || 0)
+          revenueGenerated: Number(appointmentsAfter[0]?.revenue || 0),
+          attributedAppointments: attributed[0]?.count || 0,
+          attributedRevenue: Number(attributed[0]?.revenue || 0)
         };
       })
     );
@@ -133,7 +156,29 @@ router.get('/campaign-effectiveness', async (req, res) => {
   }
 });
 
-// Get financial forecast - predict future revenue based on trends
+const attributionQuerySchema = z.object({
+  model: z.enum(ATTRIBUTION_MODELS).default('last_touch'),
+  dimension: z.enum(ATTRIBUTION_DIMENSIONS).default('campaign'),
+  days: z.coerce.number().int().min(1).max(730).default(90),
+});
+
+// Get booking attribution - bookings and paid revenue by campaign, channel or referrer (last or first touch)
+router.get('/attribution', async (req, res) => {
+  try {
+    const validation = attributionQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+
+    const report = await getAttributionReport((req as any).tenantDb!, validation.data);
+    res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error fetching booking attribution:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch booking attribution' });
+  }
+});
+
+// Get financial forecast - projected revenue with confidence bands and a per-source breakdown
 router.get('/financial-forecast', async (req, res) => {
   try {
     // Get last 12 months of revenue data
@@ -151,32 +196,8 @@ router.get('/financial-forecast', async (req, res) => {
       .groupBy(sql`TO_CHAR(${invoices.createdAt}, 'YYYY-MM')`)
       .orderBy(sql`TO_CHAR(${invoices.createdAt}, 'YYYY-MM')`);
 
-    // Calculate simple moving average for forecast
-    const revenues = historicalRevenue.map(r => Number(r.revenue));
-    const avgRevenue = revenues.reduce((a, b) => a + b, 0) / revenues.length;
-    
-    // Calculate growth rate
-    const firstHalf = revenues.slice(0, Math.floor(revenues.length / 2));
-    const secondHalf = revenues.slice(Math.floor(revenues.length / 2));
-    const firstAvg = firstHalf.reduce((a, b) => a + b, 0) / firstHalf.length;
-    const secondAvg = secondHalf.reduce((a, b) => a + b, 0) / secondHalf.length;
-    const growthRate = (secondAvg - firstAvg) / firstAvg;
-
-    // Generate 6-month forecast
-    const forecast = [];
-    const now = new Date();
-    for (let i = 1; i <= 6; i++) {
-      const forecastDate = new Date(now);
-      forecastDate.setMonth(forecastDate.getMonth() + i);
-      const month = forecastDate.toISOString().slice(0, 7);
-      const predictedRevenue = avgRevenue * (1 + (growthRate * i));
-      
-      forecast.push({
-        month,
-        predictedRevenue: Math.round(predictedRevenue),
-        confidence: Math.max(0.5, 1 - (i * 0.1)) // Confidence decreases over time
-      });
-    }
+    // Forecast from booked work, recurring services, open quotes and seasonality
+    const model = await generateRevenueForecast((req as any).tenantDb!);
 
     // Get customer acquisition trends
     const customerTrends = await (req as any).tenantDb!
@@ -192,12 +213,10 @@ router.get('/financial-forecast', async (req, res) => {
     res.json({
       success: true,
       historical: historicalRevenue,
-      forecast,
-      metrics: {
-        avgMonthlyRevenue: Math.round(avgRevenue),
-        growthRate: Math.round(growthRate * 100) / 100,
-        totalRevenue: revenues.reduce((a, b) => a + b, 0)
-      },
+      forecast: model.months,
+      bandLevel: model.bandLevel,
+      seasonalIndex: model.seasonalIndex,
+      metrics: model.metrics,
       customerTrends
     });
   } catch (error) {
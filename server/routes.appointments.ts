@@ -6,6 +6,10 @@ import { recordAppointmentCreated } from './customerBookingStats';
 import { syncAppointmentToCalendar } from './calendarApi';
 import { sendPushToAllUsers } from './pushNotificationService';
 import { invalidateAppointmentCaches } from './cacheService';
+import { attributeAppointment } from './services/attributionService';
+import { channelForPlatform } from '@shared/attribution';
+import { listCustomerMedia, signCustomerMedia } from './services/customerMediaService';
+import { lockTenantSchedule } from './services/scheduleLock';
 
 const router = Router();
 
@@ -95,22 +99,27 @@ router.post('/conversations/:conversationId/appointment', async (req, res) => {
     
     if (conversation.appointmentId) {
       // Update existing appointment
-      await req.tenantDb!.update(appointments)
-        .set({
-          serviceId: data.serviceId,
-          scheduledTime: data.scheduledTime,
-          address: data.address,
-          addressLat: data.addressLat ?? null,
-          addressLng: data.addressLng ?? null,
-          additionalRequests: data.additionalRequests,
-          addOns: data.addOns,
-        })
-        .where(req.tenantDb!.withTenantFilter(appointments, eq(appointments.id, conversation.appointmentId)));
+      const existingId = conversation.appointmentId;
+      await req.tenantDb!.transaction(async (tx) => {
+        await lockTenantSchedule(tx, req.tenantDb!.tenantId);
+        await tx.update(appointments)
+          .set({
+            serviceId: data.serviceId,
+            scheduledTime: data.scheduledTime,
+            address: data.address,
+            addressLat: data.addressLat != null ? String(data.addressLat) : null,
+            addressLng: data.addressLng != null ? String(data.addressLng) : null,
+            additionalRequests: data.additionalRequests,
+            addOns: data.addOns,
+          })
+          .where(req.tenantDb!.withTenantFilter(appointments, eq(appointments.id, existingId)));
+      });
       
-      appointmentId = conversation.appointmentId;
+      appointmentId = existingId;
     } else {
       // Create new appointment - wrap in transaction with stats update
       await req.tenantDb!.transaction(async (tx) => {
+        await lockTenantSchedule(tx, req.tenantDb!.tenantId);
         const [newAppointment] = await tx.insert(appointments)
           .values({
             customerId: data.customerId,
@@ -136,6 +145,12 @@ router.post('/conversations/:conversationId/appointment', async (req, res) => {
       });
     }
     
+    // New bookings made inside a Facebook/Instagram/SMS/chat conversation are credited to that channel
+    if (!conversation.appointmentId) {
+      const channel = channelForPlatform(conversation.platform);
+      await attributeAppointment(req.tenantDb!, appointmentId!, data.customerId, channel === 'direct' ? null : { channel });
+    }
+    
     // Update behaviorSettings.booking on every save to track manual approval status
     // This ensures the flag is cleared when subsequent standard bookings are made
     const existingSettings = (conversation.behaviorSettings as Record<string, any>) || {};
@@ -220,7 +235,7 @@ router.post('/conversations/:conversationId/appointment', async (req, res) => {
     
     // Invalidate dashboard caches
     try {
-      invalidateAppointmentCaches();
+      await invalidateAppointmentCaches(req.tenantDb!.tenantId);
     } catch (cacheError) {
       console.error('[APPOINTMENT] Failed to invalidate caches:', cacheError);
     }
@@ -294,9 +309,24 @@ router.get('/damage-assessment/pending', async (req, res) => {
       console.warn(`[GET damage assessment] ${pendingAppointments.length - validAppointments.length} appointments missing service or customer data`);
     }
     
+    // Photos are kept by storage key; sign links for this view
+    const withPhotos = await Promise.all(validAppointments.map(async (row) => {
+      const media = await listCustomerMedia(req.tenantDb!, row.customer!, 'damage_assessment');
+      return {
+        ...row,
+        appointment: {
+          ...row.appointment,
+          damagePhotos: [
+            ...(row.appointment.damagePhotos || []),
+            ...media.map(item => signCustomerMedia(item).url),
+          ],
+        },
+      };
+    }));
+    
     res.json({
       success: true,
-      appointments: validAppointments,
+      appointments: withPhotos,
     });
   } catch (error) {
     console.error('[GET damage assessment pending] Error:', error);
@@ -429,6 +459,8 @@ router.post('/create-manual', async (req, res) => {
 
     // Create appointment with customer in single transaction
     const result = await req.tenantDb!.transaction(async (tx) => {
+      await lockTenantSchedule(tx, req.tenantDb!.tenantId);
+
       // Verify service exists in tenant scope (within transaction)
       const service = await tx.query.services.findFirst({
         where: req.tenantDb!.withTenantFilter(services, eq(services.id, serviceId)),
@@ -484,6 +516,9 @@ router.post('/create-manual', async (req, res) => {
 
     console.log(`[CREATE MANUAL APPOINTMENT] Created appointment ${result.appointment.id} for customer ${result.customer.name}`);
 
+    // Booked by staff, so credit whatever recently brought the customer in (link click, earlier booking...)
+    await attributeAppointment(req.tenantDb!, result.appointment.id, result.customer.id, null);
+
     res.json({ 
       success: true, 
       appointment: result.appointment,
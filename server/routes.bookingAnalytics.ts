@@ -6,6 +6,7 @@
 import { Router, Request, Response } from 'express';
 import { logBookingInitiation, getBookingAnalyticsSummary } from './services/bookingAnalyticsService';
 import { z } from 'zod';
+import { attributionSourceSchema } from '@shared/attribution';
 
 const router = Router();
 const LOG_PREFIX = '[BOOKING ANALYTICS API]';
@@ -14,6 +15,7 @@ const initiationSchema = z.object({
   tenantId: z.string().min(1),
   source: z.enum(['chat', 'site', 'other']),
   context: z.record(z.any()).optional(),
+  attribution: attributionSourceSchema.nullable().optional(),
 });
 
 async function resolveTenantId(requestTenantId: string, context: Record<string, any> | undefined, sessionTenantId?: string): Promise<string> {
@@ -56,7 +58,7 @@ router.post('/initiation', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid request body', details: parsed.error.errors });
     }
     
-    const { tenantId: requestTenantId, source, context } = parsed.data;
+    const { tenantId: requestTenantId, source, context, attribution } = parsed.data;
     
     // Resolve actual tenant ID from session, request, or context
     const tenantId = await resolveTenantId(requestTenantId, context, req.session?.tenantId);
@@ -67,6 +69,7 @@ router.post('/initiation', async (req: Request, res: Response) => {
       tenantId,
       source,
       context: context || {},
+      attributionSource: attribution ?? null,
     });
     
     if (result.success) {
@@ -14,8 +14,16 @@ import {
   sendSMSCampaignNow,
   cancelSMSCampaign
 } from './smsCampaignService';
+import {
+  CampaignExperimentError,
+  decideCampaignExperimentNow,
+  getExperimentReport,
+  recordSmsCampaignClick,
+  type ExperimentChannel,
+} from './services/campaignExperimentService';
 import { z } from 'zod';
 import { hasFeature } from '@shared/features';
+import { MAX_CAMPAIGN_VARIANTS, experimentSettingsSchema } from '@shared/campaignExperiments';
 import { db } from './db';
 import { tenants } from '@shared/schema';
 import { eq } from 'drizzle-orm';
@@ -23,6 +31,17 @@ import { requireAuth } from './authMiddleware';
 
 const router = Router();
 
+// Public tracked {{link}} from campaign SMS - records the click, then on to booking
+router.get('/sms/click/:token', async (req, res) => {
+  try {
+    const destination = await recordSmsCampaignClick(req.params.token);
+    res.redirect(destination || '/');
+  } catch (error) {
+    console.error('[CAMPAIGNS] Click tracking error:', error);
+    res.redirect('/');
+  }
+});
+
 // PHASE 7: Feature gating for campaigns
 async function requireCampaignsFeature(req: Request, res: Response, next: NextFunction) {
   try {
@@ -58,22 +77,42 @@ router.use(requireAuth);
 router.use(requireCampaignsFeature);
 
 // Validation schemas
+// A/B test variants B-D; the campaign's own content is variant A
+const emailAbTestSchema = experimentSettingsSchema.extend({
+  variants: z.array(z.object({
+    subject: z.string().min(1, 'Variant subject is required'),
+    content: z.string().min(1, 'Variant content is required'),
+  })).min(1, 'Add at least one more variant').max(MAX_CAMPAIGN_VARIANTS - 1),
+});
+
+const smsAbTestSchema = experimentSettingsSchema.extend({
+  variants: z.array(
+    z.string().min(1, 'Variant message is required').max(300, 'Variant message too long')
+  ).min(1, 'Add at least one more variant').max(MAX_CAMPAIGN_VARIANTS - 1),
+});
+
 const emailCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
   subject: z.string().min(1, 'Subject is required'),
   content: z.string().min(1, 'Content is required'),
   targetAudience: z.enum(['all', 'vip', 'loyalty']).default('all'),
-  scheduledDate: z.string().optional()
+  segmentId: z.number().int().positive().nullable().optional(), // Saved segment overrides targetAudience
+  scheduledDate: z.string().optional(),
+  abTest: emailAbTestSchema.optional()
 });
 
 const smsCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
   message: z.string().min(1, 'Message is required').max(300, 'Message too long'),
   targetAudience: z.enum(['all', 'vip', 'loyalty']).default('all'),
+  segmentId: z.number().int().positive().nullable().optional(), // Saved segment overrides targetAudience
   scheduledDate: z.string().optional(),
-  fromNumber: z.string().optional()
+  fromNumber: z.string().optional(),
+  abTest: smsAbTestSchema.optional()
 });
 
+const experimentChannelSchema = z.enum(['sms', 'email']);
+
 // ==================== EMAIL CAMPAIGNS ====================
 
 // Get all email campaigns
@@ -109,7 +148,9 @@ router.post('/email', async (req, res) => {
       subject: data.subject,
       content: data.content,
       targetAudience: data.targetAudience,
+      segmentId: data.segmentId,
       scheduledDate: data.scheduledDate,
+      abTest: data.abTest,
       createdBy: (req as any).user?.id
     } as any);
     
@@ -134,6 +175,7 @@ router.put('/email/:id', async (req, res) => {
       subject: data.subject,
       content: data.content,
       targetAudience: data.targetAudience,
+      segmentId: data.segmentId,
       scheduledDate: data.scheduledDate
     } as any);
     
@@ -205,8 +247,10 @@ router.post('/sms', async (req, res) => {
       name: data.name,
       message: data.message,
       targetAudience: data.targetAudience,
+      segmentId: data.segmentId,
       scheduledDate: data.scheduledDate ? new Date(data.scheduledDate) : undefined,
       fromNumber: data.fromNumber,
+      abTest: data.abTest,
       createdBy: (req as any).user?.id
     });
     
@@ -244,4 +288,39 @@ router.delete('/sms/:id', async (req, res) => {
   }
 });
 
+// ==================== A/B TESTS ====================
+
+// Per-variant results, significance and the picked winner (report is null without a test)
+router.get('/:channel/:id/experiment', async (req, res) => {
+  try {
+    const channel = experimentChannelSchema.safeParse(req.params.channel);
+    if (!channel.success) {
+      return res.status(404).json({ success: false, error: 'Unknown campaign channel' });
+    }
+    const report = await getExperimentReport((req as any).tenantDb!, channel.data as ExperimentChannel, parseInt(req.params.id));
+    res.json({ success: true, report });
+  } catch (error: any) {
+    console.error('Error fetching campaign A/B test:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Pick the winner now instead of waiting for the test window to end
+router.post('/:channel/:id/experiment/decide', async (req, res) => {
+  try {
+    const channel = experimentChannelSchema.safeParse(req.params.channel);
+    if (!channel.success) {
+      return res.status(404).json({ success: false, error: 'Unknown campaign channel' });
+    }
+    const experiment = await decideCampaignExperimentNow((req as any).tenantDb!, channel.data as ExperimentChannel, parseInt(req.params.id));
+    res.json({ success: true, experiment });
+  } catch (error: any) {
+    if (error instanceof CampaignExperimentError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('Error deciding campaign A/B test:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,83 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuth } from "./authMiddleware";
+import { getConsentHistory, recordConsent } from "./services/consentLedgerService";
+import {
+  CONSENT_CHANNELS,
+  CONSENT_PURPOSES,
+  CONSENT_SOURCES,
+  consentHistoryToCsv,
+} from "@shared/consentLedger";
+
+const recordConsentSchema = z.object({
+  channel: z.enum(CONSENT_CHANNELS),
+  purposes: z.union([z.literal("all"), z.array(z.enum(CONSENT_PURPOSES)).min(1)]),
+  granted: z.boolean(),
+  source: z.enum(CONSENT_SOURCES).default("staff"),
+  evidence: z.record(z.unknown()).optional(),
+});
+
+export function registerConsentRoutes(app: Express) {
+  // Consent history for one customer (JSON, or CSV for TCPA audit requests)
+  app.get("/api/customers/:id/consent-history", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.id, 10);
+      if (isNaN(customerId)) {
+        return res.status(400).json({ success: false, message: "Invalid customer id" });
+      }
+
+      const history = await getConsentHistory(req.tenantDb!, customerId);
+      if (!history) {
+        return res.status(404).json({ success: false, message: "Customer not found" });
+      }
+
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader("Content-Disposition", `attachment; filename="consent-history-${customerId}.csv"`);
+        return res.send(consentHistoryToCsv(history.events));
+      }
+
+      return res.json({ success: true, ...history });
+    } catch (error) {
+      console.error("[CONSENT LEDGER] Error loading consent history:", error);
+      return res.status(500).json({ success: false, message: "Failed to load consent history" });
+    }
+  });
+
+  // Record consent captured by staff (phone call, paper form, import fix-up)
+  app.post("/api/customers/:id/consent", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.id, 10);
+      if (isNaN(customerId)) {
+        return res.status(400).json({ success: false, message: "Invalid customer id" });
+      }
+
+      const parsed = recordConsentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid consent data",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const history = await getConsentHistory(req.tenantDb!, customerId);
+      if (!history) {
+        return res.status(404).json({ success: false, message: "Customer not found" });
+      }
+
+      const userId = (req as any).user?.id ?? null;
+      const events = await recordConsent(req.tenantDb!, {
+        customerId,
+        ...parsed.data,
+        evidence: { ...parsed.data.evidence, recordedByUserId: userId },
+        recordedBy: userId,
+      });
+
+      return res.json({ success: true, events });
+    } catch (error) {
+      console.error("[CONSENT LEDGER] Error recording consent:", error);
+      return res.status(500).json({ success: false, message: "Failed to record consent" });
+    }
+  });
+}
@@ -17,6 +17,17 @@ import {
   resumeConversation,
   closeConversation,
 } from './conversationService';
+import {
+  createScheduledMessage,
+  listScheduledMessages,
+  ScheduledMessageError,
+  updateScheduledMessage,
+} from './services/scheduledMessageService';
+import {
+  scheduledMessageInputSchema,
+  scheduledMessageUpdateSchema,
+  scheduleTimeError,
+} from '@shared/scheduledMessages';
 
 /**
  * Register conversation monitoring routes
@@ -651,6 +662,112 @@ export function registerConversationRoutes(app: Express) {
     }
   });
 
+  // Scheduled ("send later") messages for a conversation
+  app.get('/api/conversations/:id/scheduled-messages', async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ success: false, message: 'Invalid conversation ID' });
+      }
+
+      const data = await listScheduledMessages(req.tenantDb!, conversationId);
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Error fetching scheduled messages:', error);
+      res.status(500).json({ success: false, message: 'Failed to fetch scheduled messages' });
+    }
+  });
+
+  // Schedule a message to send later
+  app.post('/api/conversations/:id/scheduled-messages', async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) {
+        return res.status(400).json({ success: false, message: 'Invalid conversation ID' });
+      }
+
+      const parsed = scheduledMessageInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid scheduled message',
+          errors: parsed.error.issues,
+        });
+      }
+      const timeError = scheduleTimeError(parsed.data.scheduledFor, new Date());
+      if (timeError) {
+        return res.status(400).json({ success: false, message: timeError });
+      }
+
+      const data = await createScheduledMessage(
+        req.tenantDb!,
+        conversationId,
+        parsed.data,
+        (req as any).session?.userId ?? null
+      );
+      res.json({ success: true, data, message: 'Message scheduled' });
+    } catch (error) {
+      if (error instanceof ScheduledMessageError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error('Error scheduling message:', error);
+      res.status(500).json({ success: false, message: 'Failed to schedule message' });
+    }
+  });
+
+  // Edit a scheduled message that hasn't been sent yet
+  app.patch('/api/conversations/:id/scheduled-messages/:scheduledId', async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      const scheduledId = parseInt(req.params.scheduledId);
+      if (isNaN(conversationId) || isNaN(scheduledId)) {
+        return res.status(400).json({ success: false, message: 'Invalid ID' });
+      }
+
+      const parsed = scheduledMessageUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid scheduled message',
+          errors: parsed.error.issues,
+        });
+      }
+      const timeError = parsed.data.scheduledFor && scheduleTimeError(parsed.data.scheduledFor, new Date());
+      if (timeError) {
+        return res.status(400).json({ success: false, message: timeError });
+      }
+
+      const data = await updateScheduledMessage(req.tenantDb!, conversationId, scheduledId, parsed.data);
+      res.json({ success: true, data, message: 'Scheduled message updated' });
+    } catch (error) {
+      if (error instanceof ScheduledMessageError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error('Error updating scheduled message:', error);
+      res.status(500).json({ success: false, message: 'Failed to update scheduled message' });
+    }
+  });
+
+  // Cancel a scheduled message
+  app.delete('/api/conversations/:id/scheduled-messages/:scheduledId', async (req: Request, res: Response) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      const scheduledId = parseInt(req.params.scheduledId);
+      if (isNaN(conversationId) || isNaN(scheduledId)) {
+        return res.status(400).json({ success: false, message: 'Invalid ID' });
+      }
+
+      const data = await updateScheduledMessage(req.tenantDb!, conversationId, scheduledId, { status: 'cancelled' });
+      res.json({ success: true, data, message: 'Scheduled message cancelled' });
+    } catch (error) {
+      if (error instanceof ScheduledMessageError) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error('Error cancelling scheduled message:', error);
+      res.status(500).json({ success: false, message: 'Failed to cancel scheduled message' });
+    }
+  });
+
   // Get messages for a conversation
   app.get('/api/conversations/:id/messages', async (req: Request, res: Response) => {
     try {
@@ -713,7 +830,8 @@ export function registerConversationRoutes(app: Express) {
         conversationId,
         conversation.customerPhone || '',
         conversation.messages || [],
-        conversation.platform as 'sms' | 'web'
+        conversation.platform as 'sms' | 'web',
+        req.tenantDb!.tenantId
       );
 
       res.json({
@@ -1208,6 +1326,45 @@ export function registerConversationRoutes(app: Express) {
     }
   });
 
+  // Photos a customer has sent in, with freshly signed links
+  app.get('/api/customers/:customerId/photos', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const customerId = parseInt(req.params.customerId);
+
+      if (isNaN(customerId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid customer ID',
+        });
+      }
+
+      const [customer] = await req.tenantDb!
+        .select({ id: customers.id, phone: customers.phone })
+        .from(customers)
+        .where(req.tenantDb!.withTenantFilter(customers, eq(customers.id, customerId)))
+        .limit(1);
+
+      if (!customer) {
+        return res.status(404).json({
+          success: false,
+          message: 'Customer not found',
+        });
+      }
+
+      const { listCustomerMedia, signCustomerMedia } = await import('./services/customerMediaService');
+      const media = await listCustomerMedia(req.tenantDb!, customer);
+
+      res.json({ success: true, photos: media.map(item => signCustomerMedia(item)) });
+    } catch (error) {
+      console.error('Error fetching customer photos:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to fetch photos',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   // Assign conversation to agent
   app.post('/api/conversations/:id/assign', async (req: Request, res: Response) => {
     try {
@@ -5,7 +5,7 @@
  * Requires tenantMiddleware and customerPortalAuthMiddleware.
  */
 
-import { Router } from 'express';
+import { Router, type Response } from 'express';
 import { z } from 'zod';
 import multer from 'multer';
 import path from 'path';
@@ -15,6 +15,13 @@ import { tenantMiddleware } from './tenantMiddleware';
 import { appointments, loyaltyTransactions, customers, portalSettings, portalInstallPromptLog } from '@shared/schema';
 import { eq, and, desc, gte, or, sql } from 'drizzle-orm';
 import type { TenantDb } from './tenantDb';
+import { CANCELLATION_CATEGORIES } from '@shared/appointmentChangePolicy';
+import {
+  PortalAppointmentError,
+  cancelAppointmentForCustomer,
+  getRescheduleOptions,
+  rescheduleAppointmentForCustomer,
+} from './services/portalAppointmentService';
 
 const router = Router();
 
@@ -192,6 +199,94 @@ router.get('/appointments', async (req, res) => {
   }
 });
 
+function sendPortalAppointmentError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof PortalAppointmentError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`[CustomerPortal] ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+/**
+ * GET /api/portal/appointments/:id/reschedule-options
+ * 
+ * Change policy check for an appointment (reschedule/cancel allowed, late
+ * fee, deposit refund) and the open slots it can move to
+ */
+router.get('/appointments/:id/reschedule-options', async (req, res) => {
+  try {
+    const options = await getRescheduleOptions(req.tenantDb as TenantDb, req.customer!.id, parseInt(req.params.id));
+    return res.json({ success: true, ...options });
+  } catch (error) {
+    return sendPortalAppointmentError(res, error, 'Failed to load reschedule options');
+  }
+});
+
+const rescheduleSchema = z.object({
+  startIso: z.string().min(1, 'Pick a new time'),
+});
+
+/**
+ * POST /api/portal/appointments/:id/reschedule
+ * 
+ * Move an appointment to an open slot (policy: minimum notice, max reschedules)
+ */
+router.post('/appointments/:id/reschedule', async (req, res) => {
+  const parsed = rescheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request' });
+  }
+
+  try {
+    const appointment = await rescheduleAppointmentForCustomer(
+      req.tenantDb as TenantDb,
+      req.customer!,
+      parseInt(req.params.id),
+      parsed.data.startIso
+    );
+    return res.json({ success: true, appointment });
+  } catch (error) {
+    return sendPortalAppointmentError(res, error, 'Failed to reschedule appointment');
+  }
+});
+
+const cancelSchema = z.object({
+  category: z.enum(CANCELLATION_CATEGORIES),
+  reason: z.string().min(1, 'Please tell us why you are cancelling').max(500),
+  additionalComments: z.string().max(2000).optional(),
+  wouldReschedule: z.boolean().optional(),
+});
+
+/**
+ * POST /api/portal/appointments/:id/cancel
+ * 
+ * Cancel an appointment with a reason. Inside the notice window the
+ * tenant's late-cancel fee is kept from the deposit.
+ */
+router.post('/appointments/:id/cancel', async (req, res) => {
+  const parsed = cancelSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message || 'Invalid request' });
+  }
+
+  try {
+    const { appointment, check } = await cancelAppointmentForCustomer(
+      req.tenantDb as TenantDb,
+      req.customer!,
+      parseInt(req.params.id),
+      parsed.data
+    );
+    return res.json({
+      success: true,
+      appointment,
+      lateCancelFee: check.lateCancelFee,
+      depositRefund: check.depositRefund,
+    });
+  } catch (error) {
+    return sendPortalAppointmentError(res, error, 'Failed to cancel appointment');
+  }
+});
+
 /**
  * GET /api/portal/loyalty
  * 
@@ -0,0 +1,203 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { hasFeature } from '@shared/features';
+import { db } from './db';
+import { customerTags, services, tenants } from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { requireAuth } from './authMiddleware';
+import type { TenantDb } from './tenantDb';
+import {
+  SegmentError,
+  createSegment,
+  deleteSegment,
+  getSegment,
+  listSegments,
+  parseSegmentDefinition,
+  previewSegmentDefinition,
+  updateSegment,
+} from './services/customerSegmentService';
+
+const router = Router();
+
+/**
+ * Customer Segment Routes
+ * Saved segments shared by SMS/email campaigns, port recovery and the
+ * welcome-back campaign, with a live count + sample preview
+ */
+
+// Feature gating: segments only feed campaigns, so the campaigns feature is required
+async function requireCampaignsFeature(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenant?.id || 'root';
+    const [tenantRecord] = await db.select().from(tenants).where(eq(tenants.id, tenantId));
+
+    if (!tenantRecord) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tenant not found'
+      });
+    }
+
+    if (!hasFeature(tenantRecord, 'campaigns')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Customer segments require Pro plan or higher'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('[SEGMENTS] Feature gating error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify feature access'
+    });
+  }
+}
+
+router.use(requireAuth);
+router.use(requireCampaignsFeature);
+
+function sendSegmentError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof SegmentError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`[SEGMENTS] ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+const channelSchema = z.enum(['sms', 'email']).optional();
+
+const segmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  // Shape is checked by parseSegmentDefinition so errors name the bad rule
+  definition: z.record(z.unknown()),
+});
+
+/**
+ * GET /api/segments
+ * Saved segments for the current tenant
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const segments = await listSegments(req.tenantDb as TenantDb);
+    res.json({ success: true, segments });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to load segments');
+  }
+});
+
+/**
+ * GET /api/segments/options
+ * Tags and services the builder can filter on
+ */
+router.get('/options', async (req: Request, res: Response) => {
+  try {
+    const tenantDb = req.tenantDb as TenantDb;
+    const [tags, serviceRows] = await Promise.all([
+      tenantDb
+        .select({ id: customerTags.id, name: customerTags.name, color: customerTags.color })
+        .from(customerTags)
+        .where(tenantDb.withTenantFilter(customerTags))
+        .orderBy(asc(customerTags.name)),
+      tenantDb
+        .select({ id: services.id, name: services.name })
+        .from(services)
+        .where(tenantDb.withTenantFilter(services))
+        .orderBy(asc(services.name)),
+    ]);
+    res.json({ success: true, tags, services: serviceRows });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to load segment options');
+  }
+});
+
+/**
+ * POST /api/segments/preview
+ * Live count and sample for an unsaved definition
+ */
+router.post('/preview', async (req: Request, res: Response) => {
+  try {
+    const channel = channelSchema.safeParse(req.body?.channel);
+    const definition = parseSegmentDefinition(req.body?.definition);
+    const preview = await previewSegmentDefinition(
+      req.tenantDb as TenantDb,
+      definition,
+      { channel: channel.success ? channel.data : undefined }
+    );
+    res.json({ success: true, ...preview });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to preview segment');
+  }
+});
+
+/**
+ * GET /api/segments/:id/preview?channel=sms|email
+ * Count and sample for a saved segment
+ */
+router.get('/:id/preview', async (req: Request, res: Response) => {
+  try {
+    const tenantDb = req.tenantDb as TenantDb;
+    const channel = channelSchema.safeParse(req.query.channel);
+    const segment = await getSegment(tenantDb, parseInt(req.params.id));
+    const preview = await previewSegmentDefinition(
+      tenantDb,
+      parseSegmentDefinition(segment.definition),
+      { channel: channel.success ? channel.data : undefined }
+    );
+    res.json({ success: true, segment, ...preview });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to preview segment');
+  }
+});
+
+/**
+ * POST /api/segments
+ * Save a new segment
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validation = segmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+
+    const segment = await createSegment(req.tenantDb as TenantDb, validation.data, req.session?.userId ?? null);
+    res.json({ success: true, segment });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to save segment');
+  }
+});
+
+/**
+ * PUT /api/segments/:id
+ * Replace a segment's name, description and definition
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const validation = segmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+
+    const segment = await updateSegment(req.tenantDb as TenantDb, parseInt(req.params.id), validation.data);
+    res.json({ success: true, segment });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to update segment');
+  }
+});
+
+/**
+ * DELETE /api/segments/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await deleteSegment(req.tenantDb as TenantDb, parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error) {
+    sendSegmentError(res, error, 'Failed to delete segment');
+  }
+});
+
+export default router;
@@ -1,17 +1,41 @@
-import { Router, Express } from 'express';
+import { Router, Express, Response } from 'express';
 import { requireAuth } from './authMiddleware';
 import { requireRole } from './rbacMiddleware';
 import { markInvoiceAsPaid } from './paymentHandler';
 import { getUnpaidInvoicesWithDetails } from './invoiceService';
+import {
+  InvoiceLedgerError,
+  addInvoiceLine,
+  applyInvoiceDiscount,
+  getInvoiceLedger,
+  recordInvoicePayment,
+  refundInvoicePayment,
+  removeInvoiceLine,
+} from './services/invoiceLedgerService';
+import {
+  invoiceDiscountInputSchema,
+  invoiceLineInputSchema,
+  invoicePaymentInputSchema,
+  invoiceRefundInputSchema,
+} from '@shared/invoiceLedger';
+
+function sendLedgerError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof InvoiceLedgerError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`[INVOICE LEDGER] ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
 
 export function registerInvoiceRoutes(app: Express) {
   const router = Router();
+  const guard = [requireAuth, requireRole('owner', 'manager')];
 
   // Get all unpaid invoices with customer details (owner/manager only)
   router.get('/api/invoices/unpaid', requireAuth, requireRole('owner', 'manager'), async (req, res) => {
     try {
       const invoices = await getUnpaidInvoicesWithDetails(req.tenantDb!);
-      
+
       res.status(200).json({
         success: true,
         invoices: invoices
@@ -27,5 +51,121 @@ export function registerInvoiceRoutes(app: Express) {
 
   router.post('/api/invoices/:invoiceId/pay', requireAuth, requireRole('owner', 'manager'), markInvoiceAsPaid);
 
+  // Line items, payments and the derived balance
+  router.get('/api/invoices/:invoiceId/ledger', ...guard, async (req, res) => {
+    try {
+      const ledger = await getInvoiceLedger(req.tenantDb!, parseInt(req.params.invoiceId));
+      if (!ledger) {
+        return res.status(404).json({ success: false, message: 'Invoice not found' });
+      }
+      return res.json({ success: true, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to load invoice');
+    }
+  });
+
+  router.post('/api/invoices/:invoiceId/lines', ...guard, async (req, res) => {
+    try {
+      const parsed = invoiceLineInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid line item',
+          errors: parsed.error.issues,
+        });
+      }
+
+      const ledger = await addInvoiceLine(req.tenantDb!, parseInt(req.params.invoiceId), parsed.data);
+      return res.status(201).json({ success: true, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to add line item');
+    }
+  });
+
+  router.delete('/api/invoices/:invoiceId/lines/:lineId', ...guard, async (req, res) => {
+    try {
+      const ledger = await removeInvoiceLine(
+        req.tenantDb!,
+        parseInt(req.params.invoiceId),
+        parseInt(req.params.lineId)
+      );
+      return res.json({ success: true, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to remove line item');
+    }
+  });
+
+  // Referral, promo, store credit, gift card or manual discount
+  router.post('/api/invoices/:invoiceId/discounts', ...guard, async (req, res) => {
+    try {
+      const parsed = invoiceDiscountInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid discount',
+          errors: parsed.error.issues,
+        });
+      }
+
+      const { ledger, applied, message } = await applyInvoiceDiscount(
+        req.tenantDb!,
+        parseInt(req.params.invoiceId),
+        parsed.data
+      );
+      return res.json({ success: true, applied, message, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to apply discount');
+    }
+  });
+
+  // Partial or full payment received outside Stripe checkout
+  router.post('/api/invoices/:invoiceId/payments', ...guard, async (req, res) => {
+    try {
+      const parsed = invoicePaymentInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid payment',
+          errors: parsed.error.issues,
+        });
+      }
+
+      const ledger = await recordInvoicePayment(
+        req.tenantDb!,
+        parseInt(req.params.invoiceId),
+        parsed.data,
+        (req as any).user?.id
+      );
+      return res.status(201).json({ success: true, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to record payment');
+    }
+  });
+
+  // Stripe payments are refunded through Stripe; others record cash back
+  router.post('/api/invoices/:invoiceId/payments/:paymentId/refund', ...guard, async (req, res) => {
+    try {
+      const parsed = invoiceRefundInputSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid refund',
+          errors: parsed.error.issues,
+        });
+      }
+
+      const ledger = await refundInvoicePayment(
+        req.tenantDb!,
+        parseInt(req.params.invoiceId),
+        parseInt(req.params.paymentId),
+        parsed.data,
+        (req as any).user?.id
+      );
+      return res.json({ success: true, ledger });
+    } catch (error) {
+      return sendLedgerError(res, error, 'Failed to refund payment');
+    }
+  });
+
   app.use(router);
 }
@@ -0,0 +1,19 @@
+import type { Express, Request, Response } from "express";
+import { getJobTrackingView } from "./services/jobTrackingService";
+
+export function registerJobTrackingRoutes(app: Express) {
+  // Customer "where's my tech" page data - the token in the texted link is the only credential
+  app.get("/api/public/track/:token", async (req: Request, res: Response) => {
+    try {
+      const view = await getJobTrackingView(req.params.token);
+      if (!view) {
+        return res.status(404).json({ success: false, message: "Tracking link not found" });
+      }
+      res.setHeader("Cache-Control", "no-store");
+      return res.json({ success: true, tracking: view });
+    } catch (error) {
+      console.error("[JOB TRACKING] Error loading tracking view:", error);
+      return res.status(500).json({ success: false, message: "Failed to load job status" });
+    }
+  });
+}
@@ -0,0 +1,230 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { hasFeature } from '@shared/features';
+import { db } from './db';
+import { tenants } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { requireAuth } from './authMiddleware';
+import type { TenantDb } from './tenantDb';
+import {
+  JOURNEY_STATUSES,
+  JourneyError,
+  completeJourneyTask,
+  createJourney,
+  enrollManually,
+  getJourney,
+  getJourneyAnalytics,
+  listJourneys,
+  listOpenJourneyTasks,
+  parseJourneyInput,
+  recordJourneyClick,
+  setJourneyStatus,
+  updateJourney,
+} from './services/journeyService';
+
+const router = Router();
+
+/**
+ * Customer Journey Routes
+ * Multi-step drip journeys (SMS, email, waits, branches, points, tasks),
+ * their follow-up tasks and per-step analytics
+ */
+
+/**
+ * GET /api/journeys/click/:token
+ * Public tracked link from journey messages; records the click and sends
+ * the customer on to the booking page
+ */
+router.get('/click/:token', async (req: Request, res: Response) => {
+  try {
+    const destination = await recordJourneyClick(req.params.token);
+    if (!destination) {
+      return res.redirect('/');
+    }
+    res.redirect(destination);
+  } catch (error) {
+    console.error('[JOURNEYS] Click tracking error:', error);
+    res.redirect('/');
+  }
+});
+
+// Feature gating: journeys send marketing messages, so the campaigns feature is required
+async function requireCampaignsFeature(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenantId = (req as any).tenant?.id || 'root';
+    const [tenantRecord] = await db.select().from(tenants).where(eq(tenants.id, tenantId));
+
+    if (!tenantRecord) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tenant not found'
+      });
+    }
+
+    if (!hasFeature(tenantRecord, 'campaigns')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Customer journeys require Pro plan or higher'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('[JOURNEYS] Feature gating error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify feature access'
+    });
+  }
+}
+
+router.use(requireAuth);
+router.use(requireCampaignsFeature);
+
+function sendJourneyError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof JourneyError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`[JOURNEYS] ${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+}
+
+const statusSchema = z.object({
+  status: z.enum(JOURNEY_STATUSES),
+});
+
+const enrollSchema = z.object({
+  customerIds: z.array(z.number().int().positive()).max(1000).optional(),
+  segmentId: z.number().int().positive().optional(),
+}).refine(data => Boolean(data.segmentId) || (data.customerIds?.length ?? 0) > 0, {
+  message: 'Choose customers or a segment to enroll',
+});
+
+/**
+ * GET /api/journeys
+ * Journeys for the current tenant with enrollment counts by status
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const journeys = await listJourneys(req.tenantDb as TenantDb);
+    res.json({ success: true, journeys });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to load journeys');
+  }
+});
+
+/**
+ * GET /api/journeys/tasks
+ * Open follow-up tasks created by journeys
+ */
+router.get('/tasks', async (req: Request, res: Response) => {
+  try {
+    const tasks = await listOpenJourneyTasks(req.tenantDb as TenantDb);
+    res.json({ success: true, tasks });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to load journey tasks');
+  }
+});
+
+/**
+ * POST /api/journeys/tasks/:id/complete
+ */
+router.post('/tasks/:id/complete', async (req: Request, res: Response) => {
+  try {
+    const task = await completeJourneyTask(req.tenantDb as TenantDb, parseInt(req.params.id), req.session?.userId ?? null);
+    res.json({ success: true, task });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to complete task');
+  }
+});
+
+/**
+ * GET /api/journeys/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const journey = await getJourney(req.tenantDb as TenantDb, parseInt(req.params.id));
+    res.json({ success: true, journey });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to load journey');
+  }
+});
+
+/**
+ * GET /api/journeys/:id/analytics
+ * Enrollment counts, exit reasons and waiting/reached counts per step
+ */
+router.get('/:id/analytics', async (req: Request, res: Response) => {
+  try {
+    const analytics = await getJourneyAnalytics(req.tenantDb as TenantDb, parseInt(req.params.id));
+    res.json({ success: true, ...analytics });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to load journey analytics');
+  }
+});
+
+/**
+ * POST /api/journeys
+ * Save a new journey as a draft
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const input = parseJourneyInput(req.body);
+    const journey = await createJourney(req.tenantDb as TenantDb, input, req.session?.userId ?? null);
+    res.json({ success: true, journey });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to save journey');
+  }
+});
+
+/**
+ * PUT /api/journeys/:id
+ * Replace a journey's trigger, settings and steps
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const input = parseJourneyInput(req.body);
+    const journey = await updateJourney(req.tenantDb as TenantDb, parseInt(req.params.id), input);
+    res.json({ success: true, journey });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to update journey');
+  }
+});
+
+/**
+ * POST /api/journeys/:id/status
+ * Activate, pause or archive a journey
+ */
+router.post('/:id/status', async (req: Request, res: Response) => {
+  try {
+    const validation = statusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+
+    const journey = await setJourneyStatus(req.tenantDb as TenantDb, parseInt(req.params.id), validation.data.status);
+    res.json({ success: true, journey });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to change journey status');
+  }
+});
+
+/**
+ * POST /api/journeys/:id/enroll
+ * Enroll specific customers or a saved segment into an active journey
+ */
+router.post('/:id/enroll', async (req: Request, res: Response) => {
+  try {
+    const validation = enrollSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ success: false, error: validation.error.errors[0].message });
+    }
+
+    const result = await enrollManually(req.tenantDb as TenantDb, parseInt(req.params.id), validation.data);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendJourneyError(res, error, 'Failed to enroll customers');
+  }
+});
+
+export default router;
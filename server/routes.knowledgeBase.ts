@@ -0,0 +1,152 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import multer from "multer";
+import * as path from "path";
+import { z } from "zod";
+import { requireAuth } from "./authMiddleware";
+import { requireRole } from "./rbacMiddleware";
+import {
+  KnowledgeBaseError,
+  createKnowledgeDocument,
+  deleteKnowledgeDocument,
+  getKnowledgeIndex,
+  invalidateKnowledgeBase,
+  listKnowledgeDocuments,
+  retrieveKnowledge,
+  setKnowledgeDocumentEnabled,
+} from "./services/knowledgeBaseService";
+import { knowledgeDocumentInputSchema, knowledgeSearchSchema } from "@shared/knowledgeBase";
+
+// Plain-text formats only - the extracted text is what gets indexed
+const TEXT_EXTENSIONS = [".txt", ".md", ".markdown", ".csv"];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB max
+  },
+  fileFilter: (_req, file, cb) => {
+    if (TEXT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only .txt, .md and .csv files are allowed"));
+    }
+  },
+});
+
+function acceptDocumentUpload(req: Request, res: Response, next: NextFunction) {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ success: false, message: (error as Error).message });
+    }
+    next();
+  });
+}
+
+function sendKnowledgeBaseError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof KnowledgeBaseError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`[KNOWLEDGE BASE] ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+export function registerKnowledgeBaseRoutes(app: Express) {
+  const guard = [requireAuth, requireRole("owner", "manager")];
+
+  app.get("/api/admin/knowledge-base/documents", ...guard, async (req: Request, res: Response) => {
+    try {
+      const documents = await listKnowledgeDocuments(req.tenantDb!);
+      return res.json({ success: true, documents });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to load documents");
+    }
+  });
+
+  // Multipart upload (field "file") or JSON { title, content } for pasted text
+  app.post("/api/admin/knowledge-base/documents", ...guard, acceptDocumentUpload, async (req: Request, res: Response) => {
+    try {
+      const file = req.file;
+      const parsed = knowledgeDocumentInputSchema.safeParse(
+        file
+          ? {
+              title: req.body?.title || path.basename(file.originalname, path.extname(file.originalname)),
+              content: file.buffer.toString("utf8"),
+            }
+          : req.body
+      );
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid document",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const document = await createKnowledgeDocument(
+        req.tenantDb!,
+        { ...parsed.data, fileName: file?.originalname ?? null, mimeType: file?.mimetype ?? null },
+        (req as any).user?.id
+      );
+      return res.status(201).json({ success: true, document });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to add document");
+    }
+  });
+
+  app.patch("/api/admin/knowledge-base/documents/:id", ...guard, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = z.object({ enabled: z.boolean() }).safeParse(req.body);
+      if (isNaN(id) || !parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid document update",
+          errors: parsed.success ? undefined : parsed.error.issues,
+        });
+      }
+
+      const document = await setKnowledgeDocumentEnabled(req.tenantDb!, id, parsed.data.enabled);
+      return res.json({ success: true, document });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to update document");
+    }
+  });
+
+  app.delete("/api/admin/knowledge-base/documents/:id", ...guard, async (req: Request, res: Response) => {
+    try {
+      await deleteKnowledgeDocument(req.tenantDb!, parseInt(req.params.id));
+      return res.json({ success: true, message: "Document deleted" });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to delete document");
+    }
+  });
+
+  // What the AI agent would retrieve for a customer message
+  app.get("/api/admin/knowledge-base/search", ...guard, async (req: Request, res: Response) => {
+    try {
+      const parsed = knowledgeSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid search",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const hits = await retrieveKnowledge(req.tenantDb!, parsed.data.q, parsed.data.limit);
+      return res.json({ success: true, hits });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to search knowledge base");
+    }
+  });
+
+  app.post("/api/admin/knowledge-base/reindex", ...guard, async (req: Request, res: Response) => {
+    try {
+      await invalidateKnowledgeBase(req.tenantDb!.tenantId);
+      const index = await getKnowledgeIndex(req.tenantDb!);
+      return res.json({ success: true, chunks: index.chunks.length, builtAt: index.builtAt });
+    } catch (error) {
+      return sendKnowledgeBaseError(res, error, "Failed to rebuild knowledge base");
+    }
+  });
+}
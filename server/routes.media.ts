@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { LocalDiskMediaStorage, contentTypeForKey, mediaStorage } from './services/mediaStorage';
+
+const router = Router();
+
+/**
+ * Serve a stored photo from local disk
+ * GET /api/media/<key>?expires=<unix seconds>&sig=<hmac>
+ *
+ * Public - the signature is the authorization. With the S3 driver, signed
+ * URLs point at the bucket and this route is never used.
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  if (!(mediaStorage instanceof LocalDiskMediaStorage)) {
+    return res.status(404).json({ success: false, error: 'Not found' });
+  }
+
+  const key = (req.params as Record<string, string>)[0] || '';
+  const verdict = mediaStorage.verify(
+    key,
+    typeof req.query.expires === 'string' ? req.query.expires : undefined,
+    typeof req.query.sig === 'string' ? req.query.sig : undefined
+  );
+
+  if (verdict === 'expired') {
+    return res.status(410).json({ success: false, error: 'This link has expired' });
+  }
+  if (verdict !== 'ok') {
+    return res.status(403).json({ success: false, error: 'Invalid link' });
+  }
+
+  try {
+    const body = await mediaStorage.get(key);
+    if (!body) {
+      return res.status(404).json({ success: false, error: 'Not found' });
+    }
+    res.setHeader('Content-Type', contentTypeForKey(key));
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(body);
+  } catch (error) {
+    console.error('[MEDIA] Error serving media:', error);
+    res.status(500).json({ success: false, error: 'Failed to load media' });
+  }
+});
+
+export default router;
@@ -4,6 +4,12 @@ import type { TenantDb } from './tenantDb';
 import { phoneLines, phoneSchedules } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { requireAuth } from './authMiddleware';
+import { requireRole } from './rbacMiddleware';
+import { confirmationCallSettingsSchema } from '@shared/confirmationCall';
+import {
+  getConfirmationCallSettings,
+  updateConfirmationCallSettings,
+} from './services/confirmationCallService';
 
 const router = Router();
 
@@ -396,4 +402,39 @@ export async function getPhoneLineRoutingDecision(phoneNumber: string): Promise<
   }
 }
 
+/**
+ * GET /api/phone-settings/confirmation-calls
+ * Automated appointment confirmation calls: on/off and how far ahead to call
+ */
+router.get('/confirmation-calls', async (req: Request, res: Response) => {
+  try {
+    const settings = await getConfirmationCallSettings(req.tenantDb!.tenantId);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('[PHONE SETTINGS] Error fetching confirmation call settings:', error);
+    res.status(500).json({ error: 'Failed to fetch confirmation call settings' });
+  }
+});
+
+/**
+ * PUT /api/phone-settings/confirmation-calls
+ */
+router.put('/confirmation-calls', requireRole('owner', 'manager'), async (req: Request, res: Response) => {
+  try {
+    const parsed = confirmationCallSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0]?.message || 'Invalid confirmation call settings' });
+    }
+
+    const settings = await updateConfirmationCallSettings(req.tenantDb!.tenantId, parsed.data);
+    if (!settings) {
+      return res.status(404).json({ error: 'Tenant configuration not found' });
+    }
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('[PHONE SETTINGS] Error updating confirmation call settings:', error);
+    res.status(500).json({ error: 'Failed to update confirmation call settings' });
+  }
+});
+
 export default router;
@@ -21,6 +21,7 @@ import {
   getRecentRunHistory,
   updateCampaign,
   getOrCreateCampaignConfig,
+  rebuildDraftCampaignTargets,
   normalizePhone,
   getTenantPublicBaseUrl,
   backfillTargetsWithCustomerData,
@@ -51,7 +52,9 @@ router.get('/admin/preview', async (req, res) => {
     const tenantId = (req.session as any)?.tenantId || 'root';
     const tenantDb = wrapTenantDb(db, tenantId);
     
-    const result = await previewTargetList(tenantDb, tenantId);
+    // Get or create campaign config to use the saved template and segment
+    const campaignConfig = await getOrCreateCampaignConfig(tenantDb, tenantId, 1);
+    const result = await previewTargetList(tenantDb, tenantId, campaignConfig.segmentId);
     
     // Get last run info
     const campaigns = await getCampaigns(tenantDb, tenantId);
@@ -65,8 +68,6 @@ router.get('/admin/preview', async (req, res) => {
       new Date(c.startedAt) > oneHourAgo
     );
     
-    // Get or create campaign config to use the saved template
-    const campaignConfig = await getOrCreateCampaignConfig(tenantDb, tenantId, 1);
     const savedTemplate = campaignConfig.smsTemplate || DEFAULT_SMS_TEMPLATE;
     const ctaUrl = campaignConfig.ctaUrl || 'https://cleanmachinetulsa.com/book';
     const points = (campaignConfig.pointsPerCustomer || 500).toString();
@@ -161,9 +162,12 @@ router.post('/admin/run', async (req, res) => {
       });
     }
     
+    // USE the existing draft campaign (with user's saved settings) instead of creating new one
+    const existingDraft = campaigns.find(c => c.status === 'draft');
+    
     // If dry run, just return preview data
     if (dryRun) {
-      const result = await previewTargetList(tenantDb, tenantId);
+      const result = await previewTargetList(tenantDb, tenantId, existingDraft?.segmentId);
       return res.json({
         success: true,
         dryRun: true,
@@ -176,9 +180,6 @@ router.post('/admin/run', async (req, res) => {
     const isProduction = process.env.NODE_ENV === 'production';
     const forceDevSend = process.env.FORCE_DEV_SMS_SEND === 'true';
     
-    // USE the existing draft campaign (with user's saved settings) instead of creating new one
-    const existingDraft = campaigns.find(c => c.status === 'draft');
-    
     let campaignToRun: any;
     let targetCount: number;
     
@@ -190,7 +191,7 @@ router.post('/admin/run', async (req, res) => {
       
       // If no targets, rebuild them
       if (targetCount === 0) {
-        const { targets, stats } = await previewTargetList(tenantDb, tenantId);
+        const { targets, stats } = await previewTargetList(tenantDb, tenantId, existingDraft.segmentId);
         targetCount = stats.totalUnique;
       }
     } else {
@@ -271,6 +272,7 @@ router.put('/admin/campaign', async (req, res) => {
       smsEnabled,
       emailEnabled,
       pointsPerCustomer,
+      segmentId,
     } = req.body;
     
     if (!campaignId) {
@@ -287,8 +289,10 @@ router.put('/admin/campaign', async (req, res) => {
       smsEnabled,
       emailEnabled,
       pointsPerCustomer,
+      segmentId,
     });
     
+    const previousCampaign = await getCampaign(tenantDb, campaignId);
     const updatedCampaign = await updateCampaign(tenantDb, campaignId, {
       smsTemplate,
       emailSubject,
@@ -297,6 +301,7 @@ router.put('/admin/campaign', async (req, res) => {
       smsEnabled,
       emailEnabled,
       pointsPerCustomer,
+      segmentId,
     });
     
     if (!updatedCampaign) {
@@ -306,6 +311,11 @@ router.put('/admin/campaign', async (req, res) => {
       });
     }
     
+    // A new segment means a new audience - rebuild the draft's targets to match
+    if (segmentId !== undefined && previousCampaign?.segmentId !== updatedCampaign.segmentId) {
+      updatedCampaign.totalTargets = await rebuildDraftCampaignTargets(tenantDb, tenantId, updatedCampaign);
+    }
+    
     res.json({
       success: true,
       campaign: updatedCampaign,
@@ -376,8 +386,9 @@ router.get('/preview', async (req, res) => {
   try {
     const tenantId = (req.session as any)?.tenantId || 'root';
     const tenantDb = wrapTenantDb(db, tenantId);
+    const segmentId = req.query.segmentId ? parseInt(req.query.segmentId as string) : null;
     
-    const result = await previewTargetList(tenantDb, tenantId);
+    const result = await previewTargetList(tenantDb, tenantId, segmentId);
     
     res.json({
       success: true,
@@ -402,13 +413,15 @@ router.post('/campaigns', async (req, res) => {
     const userId = req.session?.userId;
     const tenantDb = wrapTenantDb(db, tenantId);
     
-    const { name } = req.body;
+    const { name, segmentId } = req.body;
     
     const result = await createPortRecoveryCampaign(
       tenantDb,
       tenantId,
       userId || 1,
-      name || undefined
+      name || undefined,
+      null,
+      segmentId ?? null
     );
     
     res.json({
@@ -16,6 +16,10 @@ import {
 } from '@shared/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { requireAuth } from './authMiddleware';
+import { requireRole } from './rbacMiddleware';
+import { appointmentChangePolicySchema } from '@shared/appointmentChangePolicy';
+import { loadAppointmentChangePolicy, updateAppointmentChangePolicy } from './services/portalAppointmentService';
+import { DepositRefundError, listOpenDepositRefunds, processDepositRefund } from './services/depositRefundService';
 import { getPortalActionsForIndustry, getPortalSettingsForIndustry } from '@shared/portalDefaults';
 import type { IndustryPackId } from '@shared/industryPacks';
 
@@ -119,6 +123,81 @@ router.put('/settings', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================
+// APPOINTMENT CHANGES
+// ============================================================
+
+/**
+ * GET /api/admin/portal/change-policy
+ * Minimum notice, late-cancel fee and reschedule cap for portal self-service
+ */
+router.get('/change-policy', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const policy = await loadAppointmentChangePolicy(req.tenantDb!.tenantId);
+    res.json({ success: true, policy });
+  } catch (error) {
+    console.error('[PORTAL ADMIN] Error fetching change policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch change policy' });
+  }
+});
+
+/**
+ * PUT /api/admin/portal/change-policy
+ */
+router.put('/change-policy', requireAuth, requireRole('owner', 'manager'), async (req: Request, res: Response) => {
+  try {
+    const parsed = appointmentChangePolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: parsed.error.issues[0]?.message || 'Invalid change policy' });
+    }
+
+    const policy = await updateAppointmentChangePolicy(req.tenantDb!.tenantId, parsed.data);
+    if (!policy) {
+      return res.status(404).json({ success: false, error: 'Tenant configuration not found' });
+    }
+    res.json({ success: true, policy });
+  } catch (error) {
+    console.error('[PORTAL ADMIN] Error updating change policy:', error);
+    res.status(500).json({ success: false, error: 'Failed to update change policy' });
+  }
+});
+
+/**
+ * GET /api/admin/portal/deposit-refunds
+ * Deposit money still owed to customers who cancelled from the portal
+ */
+router.get('/deposit-refunds', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const refunds = await listOpenDepositRefunds(req.tenantDb!);
+    res.json({ success: true, refunds });
+  } catch (error) {
+    console.error('[PORTAL ADMIN] Error fetching deposit refunds:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch deposit refunds' });
+  }
+});
+
+/**
+ * POST /api/admin/portal/deposit-refunds/:id/refund
+ * Body: { method: 'stripe' | 'manual' } - manual marks money paid back outside Stripe
+ */
+router.post('/deposit-refunds/:id/refund', requireAuth, requireRole('owner', 'manager'), async (req: Request, res: Response) => {
+  const method = req.body?.method;
+  if (method !== 'stripe' && method !== 'manual') {
+    return res.status(400).json({ success: false, error: 'method must be stripe or manual' });
+  }
+
+  try {
+    const refund = await processDepositRefund(req.tenantDb!, parseInt(req.params.id), method, (req as any).user?.id);
+    res.json({ success: true, refund });
+  } catch (error) {
+    if (error instanceof DepositRefundError) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
+    console.error('[PORTAL ADMIN] Error processing deposit refund:', error);
+    res.status(500).json({ success: false, error: 'Failed to refund deposit' });
+  }
+});
+
 // ============================================================
 // PORTAL ACTIONS
 // ============================================================
@@ -0,0 +1,193 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuth } from "./authMiddleware";
+import { requireRole } from "./rbacMiddleware";
+import {
+  PriceBookError,
+  createPriceModifier,
+  deletePriceModifier,
+  estimatePrice,
+  getPriceModifier,
+  loadPriceBook,
+  setServicePrice,
+  setVehicleClass,
+  updatePriceModifier,
+  updateTaxSettings,
+} from "./services/priceBookService";
+import {
+  VEHICLE_CLASSES,
+  priceEstimateRequestSchema,
+  priceModifierError,
+  priceModifierInputSchema,
+  servicePriceInputSchema,
+  taxSettingsInputSchema,
+  type PriceAdjustmentType,
+  type PriceModifierKind,
+} from "@shared/priceBook";
+
+function sendPriceBookError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof PriceBookError) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`[PRICE BOOK] ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+export function registerPriceBookRoutes(app: Express) {
+  const guard = [requireAuth, requireRole("owner", "manager")];
+
+  // Services with base prices, modifiers, add-on prices and tax
+  app.get("/api/admin/price-book", ...guard, async (req: Request, res: Response) => {
+    try {
+      const priceBook = await loadPriceBook(req.tenantDb!);
+      return res.json({ success: true, priceBook });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to load price book");
+    }
+  });
+
+  app.put("/api/admin/price-book/services/:serviceId", ...guard, async (req: Request, res: Response) => {
+    try {
+      const serviceId = parseInt(req.params.serviceId);
+      const parsed = servicePriceInputSchema.safeParse(req.body);
+      if (isNaN(serviceId) || !parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid service price",
+          errors: parsed.success ? undefined : parsed.error.issues,
+        });
+      }
+
+      const price = await setServicePrice(req.tenantDb!, serviceId, parsed.data);
+      return res.json({ success: true, price });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to save service price");
+    }
+  });
+
+  app.post("/api/admin/price-book/modifiers", ...guard, async (req: Request, res: Response) => {
+    try {
+      const parsed = priceModifierInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid price modifier",
+          errors: parsed.error.issues,
+        });
+      }
+      const invalid = priceModifierError(parsed.data);
+      if (invalid) {
+        return res.status(400).json({ success: false, message: invalid });
+      }
+
+      const modifier = await createPriceModifier(req.tenantDb!, parsed.data);
+      return res.status(201).json({ success: true, modifier });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to create price modifier");
+    }
+  });
+
+  app.patch("/api/admin/price-book/modifiers/:id", ...guard, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = priceModifierInputSchema.partial().safeParse(req.body);
+      if (isNaN(id) || !parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid price modifier",
+          errors: parsed.success ? undefined : parsed.error.issues,
+        });
+      }
+
+      const existing = await getPriceModifier(req.tenantDb!, id);
+      if (!existing) {
+        return res.status(404).json({ success: false, message: "Price modifier not found" });
+      }
+      const invalid = priceModifierError({
+        kind: parsed.data.kind ?? (existing.kind as PriceModifierKind),
+        key: parsed.data.key ?? existing.key,
+        adjustmentType: parsed.data.adjustmentType ?? (existing.adjustmentType as PriceAdjustmentType),
+        amount: parsed.data.amount ?? parseFloat(existing.amount),
+      });
+      if (invalid) {
+        return res.status(400).json({ success: false, message: invalid });
+      }
+
+      const modifier = await updatePriceModifier(req.tenantDb!, id, parsed.data);
+      return res.json({ success: true, modifier });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to update price modifier");
+    }
+  });
+
+  app.delete("/api/admin/price-book/modifiers/:id", ...guard, async (req: Request, res: Response) => {
+    try {
+      const deleted = await deletePriceModifier(req.tenantDb!, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ success: false, message: "Price modifier not found" });
+      }
+      return res.json({ success: true, message: "Price modifier deleted" });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to delete price modifier");
+    }
+  });
+
+  app.put("/api/admin/price-book/tax", ...guard, async (req: Request, res: Response) => {
+    try {
+      const parsed = taxSettingsInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid tax settings",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const tax = await updateTaxSettings(req.tenantDb!.tenantId, parsed.data);
+      return res.json({ success: true, tax });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to save tax settings");
+    }
+  });
+
+  // Itemized estimate for staff (quotes, invoices, phone bookings)
+  app.post("/api/price-book/estimate", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parsed = priceEstimateRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid estimate request",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const estimate = await estimatePrice(req.tenantDb!, parsed.data);
+      return res.json({ success: true, estimate });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to build estimate");
+    }
+  });
+
+  // Correct the size class guessed from a vehicle's make and model
+  app.put("/api/price-book/vehicles/:vehicleId/class", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const parsed = z.object({ vehicleClass: z.enum(VEHICLE_CLASSES).nullable() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid vehicle class",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const updated = await setVehicleClass(req.tenantDb!, parseInt(req.params.vehicleId), parsed.data.vehicleClass);
+      if (!updated) {
+        return res.status(404).json({ success: false, message: "Vehicle not found" });
+      }
+      return res.json({ success: true, vehicleClass: parsed.data.vehicleClass });
+    } catch (error) {
+      return sendPriceBookError(res, error, "Failed to update vehicle class");
+    }
+  });
+}
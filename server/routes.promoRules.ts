@@ -0,0 +1,101 @@
+import type { Express, Request, Response } from "express";
+import { requireAuth } from "./authMiddleware";
+import { requireRole } from "./rbacMiddleware";
+import {
+  deletePromoRule,
+  dryRunPromoRule,
+  getPromoRule,
+  listPromoRules,
+  upsertPromoRule,
+} from "./services/promoRuleService";
+import { promoRuleInputSchema } from "@shared/promoRules";
+
+export function registerPromoRuleRoutes(app: Express) {
+  const guard = [requireAuth, requireRole("owner", "manager")];
+
+  // Tenant promo rules, including built-in defaults not yet overridden
+  app.get("/api/admin/promo-rules", ...guard, async (req: Request, res: Response) => {
+    try {
+      const rules = await listPromoRules(req.tenantDb!);
+      return res.json({ success: true, rules });
+    } catch (error) {
+      console.error("[PROMO RULES] Error listing rules:", error);
+      return res.status(500).json({ success: false, message: "Failed to load promo rules" });
+    }
+  });
+
+  // Create or replace a rule (keyed by promoKey)
+  app.put("/api/admin/promo-rules", ...guard, async (req: Request, res: Response) => {
+    try {
+      const parsed = promoRuleInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid promo rule",
+          errors: parsed.error.issues,
+        });
+      }
+
+      const rule = await upsertPromoRule(req.tenantDb!, parsed.data, (req as any).user?.id ?? null);
+      return res.json({ success: true, rule });
+    } catch (error) {
+      console.error("[PROMO RULES] Error saving rule:", error);
+      return res.status(500).json({ success: false, message: "Failed to save promo rule" });
+    }
+  });
+
+  // Remove a tenant rule; built-in promos revert to their defaults
+  app.delete("/api/admin/promo-rules/:promoKey", ...guard, async (req: Request, res: Response) => {
+    try {
+      const deleted = await deletePromoRule(req.tenantDb!, req.params.promoKey);
+      if (!deleted) {
+        return res.status(404).json({ success: false, message: "Promo rule not found" });
+      }
+      return res.json({ success: true, message: "Promo rule deleted" });
+    } catch (error) {
+      console.error("[PROMO RULES] Error deleting rule:", error);
+      return res.status(500).json({ success: false, message: "Failed to delete promo rule" });
+    }
+  });
+
+  // Preview who would qualify. Accepts an unsaved draft in the body, or
+  // evaluates the saved rule for :promoKey.
+  app.post("/api/admin/promo-rules/dry-run", ...guard, async (req: Request, res: Response) => {
+    try {
+      let rule;
+      if (req.body?.draft) {
+        const parsed = promoRuleInputSchema.safeParse(req.body.draft);
+        if (!parsed.success) {
+          return res.status(400).json({
+            success: false,
+            message: "Invalid promo rule",
+            errors: parsed.error.issues,
+          });
+        }
+        rule = {
+          ...parsed.data,
+          description: parsed.data.description ?? null,
+          defaultPoints: parsed.data.defaultPoints ?? null,
+          perCustomerLifetimeMax: parsed.data.perCustomerLifetimeMax ?? null,
+          perCustomerPerYearMax: parsed.data.perCustomerPerYearMax ?? null,
+          perHouseholdPerYearMax: parsed.data.perHouseholdPerYearMax ?? null,
+          validFrom: parsed.data.validFrom ?? null,
+          validUntil: parsed.data.validUntil ?? null,
+        };
+      } else if (typeof req.body?.promoKey === "string") {
+        rule = await getPromoRule(req.tenantDb!, req.body.promoKey);
+        if (!rule) {
+          return res.status(404).json({ success: false, message: "Promo rule not found" });
+        }
+      } else {
+        return res.status(400).json({ success: false, message: "Provide a promoKey or a draft rule" });
+      }
+
+      const result = await dryRunPromoRule(req.tenantDb!, rule);
+      return res.json({ success: true, result });
+    } catch (error) {
+      console.error("[PROMO RULES] Error running dry run:", error);
+      return res.status(500).json({ success: false, message: "Failed to run promo dry run" });
+    }
+  });
+}
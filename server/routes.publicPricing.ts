@@ -1,18 +1,49 @@
 /**
- * Public Pricing Endpoint
+ * Public Pricing Endpoints
  * 
  * Provides pricing plans and feature comparison data for the public pricing page
- * and in-app upgrade flows.
+ * and in-app upgrade flows, plus each tenant's service price book for their
+ * generated website.
  * 
- * This endpoint is PUBLIC and does not require authentication.
+ * These endpoints are PUBLIC and do not require authentication.
  */
 
 import { Router, Request, Response } from 'express';
+import { eq } from 'drizzle-orm';
+import rateLimit from 'express-rate-limit';
+import { db } from './db';
+import { wrapTenantDb } from './tenantDb';
+import { tenants } from '@shared/schema';
 import { PRICING_PLANS, PRICING_FEATURES, PRICING_MARKETING, type PricingPlanId } from '@shared/pricingConfig';
 import { TIER_FEATURES, type FeatureKey } from '@shared/features';
+import { priceEstimateRequestSchema } from '@shared/priceBook';
+import { PriceBookError, estimatePrice, loadPriceBook } from './services/priceBookService';
 
 const router = Router();
 
+// Estimates are cheap but hit the database; same budget as the public site
+const publicPriceBookLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 100,
+  message: 'Too many requests from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Subdomain → tenant, hiding suspended and cancelled tenants
+ */
+async function findPublicTenant(subdomain: string): Promise<string | null> {
+  const [tenant] = await db
+    .select({ id: tenants.id, status: tenants.status })
+    .from(tenants)
+    .where(eq(tenants.subdomain, subdomain))
+    .limit(1);
+
+  if (!tenant || tenant.status === 'suspended' || tenant.status === 'cancelled') return null;
+  return tenant.id;
+}
+
 /**
  * GET /api/public/pricing
  * 
@@ -63,4 +94,80 @@ router.get('/pricing', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/public/price-book/:subdomain
+ * 
+ * The tenant's published price list: priced services, vehicle class and
+ * condition adjustments, add-ons and sales tax. Services without a base
+ * price are left out so the site falls back to their price range text.
+ */
+router.get('/price-book/:subdomain', publicPriceBookLimiter, async (req: Request, res: Response) => {
+  try {
+    const tenantId = await findPublicTenant(req.params.subdomain);
+    if (!tenantId) {
+      res.set('Cache-Control', 'public, max-age=300');
+      return res.status(404).json({ success: false, error: 'site_not_found', message: 'Site not found' });
+    }
+
+    const priceBook = await loadPriceBook(wrapTenantDb(db, tenantId));
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json({
+      success: true,
+      services: priceBook.services
+        .filter((service) => service.isActive && service.basePrice !== null)
+        .map(({ id, name, basePrice }) => ({ id, name, basePrice })),
+      modifiers: priceBook.modifiers
+        .filter((modifier) => modifier.isActive)
+        .map(({ kind, key, label, adjustmentType, amount, serviceId }) => ({ kind, key, label, adjustmentType, amount, serviceId })),
+      addOns: priceBook.addOns,
+      tax: priceBook.tax,
+    });
+  } catch (error) {
+    console.error('[PUBLIC PRICING] Price book error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load price book',
+    });
+  }
+});
+
+/**
+ * POST /api/public/price-book/:subdomain/estimate
+ * 
+ * Itemized estimate for the website's instant quote widget. Same calculation
+ * the AI agent and staff quotes use; saved customer vehicles can't be
+ * referenced from here.
+ */
+router.post('/price-book/:subdomain/estimate', publicPriceBookLimiter, async (req: Request, res: Response) => {
+  try {
+    const tenantId = await findPublicTenant(req.params.subdomain);
+    if (!tenantId) {
+      return res.status(404).json({ success: false, error: 'site_not_found', message: 'Site not found' });
+    }
+
+    const parsed = priceEstimateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid estimate request',
+        errors: parsed.error.issues,
+      });
+    }
+
+    const vehicles = parsed.data.vehicles?.map(({ vehicleId, ...vehicle }) => vehicle);
+    const estimate = await estimatePrice(wrapTenantDb(db, tenantId), { ...parsed.data, vehicles });
+    res.json({ success: true, estimate });
+  } catch (error) {
+    if (error instanceof PriceBookError) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error('[PUBLIC PRICING] Estimate error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build estimate',
+    });
+  }
+});
+
 export default router;
@@ -5,6 +5,9 @@ import { getEnhancedCustomerServiceHistory } from './enhancedCustomerSearch';
 import { recordAppointmentCreated } from './customerBookingStats';
 import { getRefereeRewardDescriptor } from './referralConfigService';
 import { validateReferralCode } from './referralService';
+import { attributeAppointment } from './services/attributionService';
+import { bookingSource } from '@shared/attribution';
+import { lockTenantSchedule } from './services/scheduleLock';
 
 /**
  * Register Quick Booking routes for returning customers
@@ -269,6 +272,7 @@ export function registerQuickBookingRoutes(app: Express) {
       
       let statsRecorded = false;
       await req.tenantDb!.transaction(async (tx) => {
+        await lockTenantSchedule(tx, req.tenantDb!.tenantId);
         const [newAppointment] = await tx.insert(appointments).values({
           customerId: customer.id,
           serviceId: serviceId || 1, // Default to service ID 1 if not provided
@@ -304,6 +308,9 @@ export function registerQuickBookingRoutes(app: Express) {
       const statsMsg = statsRecorded ? 'recorded=true' : 'recorded=false reason=transaction-failed';
       console.log(`[BOOKING STATS] ${statsMsg} bookingId=${bookingId}`);
       
+      // Credit the booking to the link, referral or site visit it came from (fail-open)
+      await attributeAppointment(req.tenantDb!, appointment.id, appointment.customerId, bookingSource(req.body.attribution, appliedDiscountCode));
+      
       // SP-BOOKING-ADDRESS+PRICING-FIX: Create escalation for extended area bookings
       // Only create escalation if isExtendedArea is explicitly true and has valid travel time
       if (isExtendedArea === true && typeof extendedTravelMinutes === 'number' && extendedTravelMinutes > 0) {
@@ -76,10 +76,16 @@ router.get("/:id", async (req, res) => {
       return res.status(404).json({ success: false, error: "Quote request not found" });
     }
 
-    // Get AI pricing suggestions
+    // Get AI pricing suggestions, plus a price book baseline when the admin
+    // is comparing against a standard service (?serviceId=)
+    const baselineServiceId = parseInt(String(req.query.serviceId ?? ''));
     const pricingSuggestions = await getPricingSuggestions(
+      req.tenantDb!,
       quoteData.quoteRequest.damageType,
-      quoteData.quoteRequest.issueDescription
+      quoteData.quoteRequest.issueDescription,
+      isNaN(baselineServiceId)
+        ? undefined
+        : { serviceId: baselineServiceId, customerId: quoteData.quoteRequest.customerId }
     );
 
     res.json({
@@ -87,6 +93,7 @@ router.get("/:id", async (req, res) => {
       data: {
         ...quoteData,
         pricingSuggestions: pricingSuggestions.suggestions,
+        priceBookEstimate: pricingSuggestions.estimate,
       },
     });
   } catch (error) {
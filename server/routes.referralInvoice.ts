@@ -1,9 +1,10 @@
 import { Express, Request, Response } from 'express';
-import { referrals, customers, invoices } from '@shared/schema';
+import { referrals, customers } from '@shared/schema';
 import { eq, and, isNull, sql } from 'drizzle-orm';
 import { validateReferralCode } from './referralService';
 import { getRefereeRewardDescriptor, formatRewardDescription } from './referralConfigService';
 import { requireAuth } from './authMiddleware';
+import { InvoiceLedgerError, applyInvoiceDiscount, getInvoiceLedger } from './services/invoiceLedgerService';
 
 /**
  * Register referral invoice routes
@@ -106,122 +107,52 @@ export function registerReferralInvoiceRoutes(app: Express) {
       const code = referralCode.toUpperCase().trim();
       const user = (req as any).user;
       
-      // Use transaction for atomic discount application
-      const result = await req.tenantDb!.transaction(async (tx) => {
-        // Get and lock the invoice row
-        const [invoice] = await tx
-          .select()
-          .from(invoices)
-          .where(eq(invoices.id, invoiceId))
-          .limit(1);
-        
-        if (!invoice) {
-          throw new Error('Invoice not found');
-        }
-        
-        // Security: Verify user has access to this invoice (customers can only modify their own)
-        if (user.role === 'customer' && invoice.customerId !== user.customerId) {
-          throw new Error('Unauthorized: You can only apply codes to your own invoices');
-        }
-        
-        // Check if invoice is already paid
-        if (invoice.paymentStatus === 'paid' || invoice.paymentStatus === 'refunded') {
-          throw new Error('Cannot apply referral code to a paid or refunded invoice');
-        }
-        
-        // Check if referral code already applied
-        if (invoice.referralCode) {
-          throw new Error(`A referral code has already been applied to this invoice: ${invoice.referralCode}`);
-        }
-        
-        // Validate the referral code
-        const validation = await validateReferralCode(req.tenantDb!, code);
-        
-        if (!validation.valid) {
-          throw new Error(validation.message || 'Invalid or expired referral code');
-        }
-        
-        // Get reward configuration
-        const rewardDescriptor = await getRefereeRewardDescriptor(req.tenantDb!);
-        
-        if (!rewardDescriptor) {
-          throw new Error('Referral program configuration not found');
-        }
-        
-        // Calculate discount based on reward type
-        let discountAmount = 0;
-        const originalAmount = Number(invoice.amount);
-        
-        switch (rewardDescriptor.rewardType) {
-          case 'fixed_discount':
-            discountAmount = Number(rewardDescriptor.value);
-            break;
-          
-          case 'percent_discount':
-            const percentage = Number(rewardDescriptor.value);
-            discountAmount = (originalAmount * percentage) / 100;
-            break;
-          
-          default:
-            // Other reward types (loyalty_points, service_credit, etc.) don't apply to invoice amount
-            // Return success with informational message
-            return {
-              success: true,
-              isInformational: true,
-              message: `This referral code provides ${formatRewardDescription(rewardDescriptor)}, which will be applied after your first service is completed.`,
-              rewardType: rewardDescriptor.rewardType,
-              rewardValue: rewardDescriptor.value
-            };
-        }
-        
-        // Ensure discount doesn't exceed invoice amount
-        discountAmount = Math.min(discountAmount, originalAmount);
-        const newAmount = Math.max(0, originalAmount - discountAmount);
-        
-        // Recalculate all derived fields
-        const updates: any = {
-          referralCode: code,
-          referralDiscount: discountAmount.toFixed(2),
-          referralRewardType: rewardDescriptor.rewardType,
-          referralRewardValue: rewardDescriptor.value.toString(),
-          referralOriginalAmount: originalAmount.toFixed(2),
-          amount: newAmount.toFixed(2),
-          updatedAt: new Date(),
-        };
-        
-        // Update totalAmount if it exists (for third-party billing)
-        if (invoice.totalAmount) {
-          const newTotalAmount = Math.max(0, Number(invoice.totalAmount) - discountAmount);
-          updates.totalAmount = newTotalAmount.toFixed(2);
-        }
-        
-        // Update balanceDue if it exists
-        if (invoice.balanceDue) {
-          const newBalanceDue = Math.max(0, Number(invoice.balanceDue) - discountAmount);
-          updates.balanceDue = newBalanceDue.toFixed(2);
-        }
-        
-        // Apply the referral code to the invoice
-        await tx
-          .update(invoices)
-          .set(updates)
-          .where(eq(invoices.id, invoiceId));
-        
-        console.log(`[REFERRAL INVOICE] Applied code ${code} to invoice ${invoiceId}: $${originalAmount} → $${newAmount} (saved $${discountAmount})`);
-        
-        return {
-          success: true,
-          isInformational: false,
-          message: `Referral code applied! You saved $${discountAmount.toFixed(2)}`,
-          originalAmount,
-          discountAmount,
-          newAmount,
-          referralCode: code
-        };
+      const before = await getInvoiceLedger(req.tenantDb!, invoiceId);
+      if (!before) {
+        return res.status(404).json({
+          success: false,
+          message: 'Invoice not found'
+        });
+      }
+      
+      // Security: Verify user has access to this invoice (customers can only modify their own)
+      if (user.role === 'customer' && before.invoice.customerId !== user.customerId) {
+        return res.status(403).json({
+          success: false,
+          message: 'Unauthorized: You can only apply codes to your own invoices'
+        });
+      }
+      
+      // The discount becomes a line on the invoice; totals are re-derived from the ledger
+      const { ledger, applied, message } = await applyInvoiceDiscount(req.tenantDb!, invoiceId, {
+        source: 'referral',
+        code,
       });
       
+      const result = applied > 0
+        ? {
+            success: true,
+            isInformational: false,
+            message,
+            originalAmount: before.balance.balanceDue,
+            discountAmount: applied,
+            newAmount: ledger.balance.balanceDue,
+            referralCode: code
+          }
+        : {
+            success: true,
+            isInformational: true,
+            message
+          };
+      
       res.json(result);
     } catch (error) {
+      if (error instanceof InvoiceLedgerError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+      }
       console.error('[REFERRAL INVOICE] Error applying code:', error);
       res.status(500).json({
         success: false,
@@ -3,6 +3,7 @@ import { campaignRecipients, emailSuppressionList } from '@shared/schema';
 import { eq, sql } from 'drizzle-orm';
 import crypto from 'crypto';
 import { json } from 'express';
+import { recordConsent } from './services/consentLedgerService';
 
 const router = Router();
 
@@ -316,6 +317,21 @@ router.get('/api/email/unsubscribe', async (req: Request, res: Response) => {
       campaign ? `Campaign ${campaign}: Manual unsubscribe` : 'Manual unsubscribe'
     );
     
+    // Record the revocation in the consent ledger
+    await recordConsent(req.tenantDb!, {
+      email,
+      channel: 'email',
+      purposes: ['marketing'],
+      granted: false,
+      source: 'web_form',
+      evidence: {
+        form: 'one_click_unsubscribe',
+        campaignId: campaign ? String(campaign) : null,
+        ipAddress: req.ip || null,
+        userAgent: req.headers['user-agent'] || null,
+      },
+    });
+    
     // Update recipient if campaign provided
     if (campaign) {
       await req.tenantDb!
@@ -1,6 +1,7 @@
 import type { Express, Request, Response } from "express";
 import { customers } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { recordConsent } from "./services/consentLedgerService";
 
 export function registerSMSConsentRoutes(app: Express) {
   // Record SMS consent from public form
@@ -48,6 +49,21 @@ export function registerSMSConsentRoutes(app: Express) {
         console.log(`[SMS CONSENT] Created new customer - ${name} (${phone}) from IP ${ipAddress}`);
       }
 
+      // Web form opt-in covers every SMS purpose; keep the form evidence for audits
+      await recordConsent(req.tenantDb!, {
+        phone,
+        channel: "sms",
+        purposes: "all",
+        granted: true,
+        source: "web_form",
+        evidence: {
+          ipAddress,
+          userAgent: req.headers["user-agent"] || null,
+          referer: req.headers["referer"] || null,
+          name,
+        },
+      });
+
       return res.json({
         success: true,
         message: "Consent recorded successfully",
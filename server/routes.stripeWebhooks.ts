@@ -36,6 +36,7 @@ import {
   incrementFailedAttempts,
   resetFailedAttempts,
 } from './services/billingService';
+import { recordStripePayment, syncStripeRefunds } from './services/invoiceLedgerService';
 
 const router = Router();
 
@@ -273,7 +274,12 @@ async function handleCheckoutSessionCompleted(req: Request, session: Stripe.Chec
     console.log(`[STRIPE WEBHOOK] Deposit paid for appointment ${appointmentId}`);
   } else if (type === 'balance') {
     // Mark invoice as paid
-    await markInvoicePaid(req, parseInt(appointmentId), session.payment_intent as string);
+    await markInvoicePaid(
+      req.tenantDb!,
+      parseInt(appointmentId),
+      session.payment_intent as string,
+      (session.amount_total ?? 0) / 100
+    );
 
     console.log(`[STRIPE WEBHOOK] Balance paid for appointment ${appointmentId}`);
   }
@@ -366,6 +372,20 @@ async function handlePaymentIntentFailed(req: Request, paymentIntent: Stripe.Pay
 async function handleChargeRefunded(req: Request, charge: Stripe.Charge) {
   console.log('[STRIPE WEBHOOK] Charge refunded:', charge.id);
 
+  // Pull the refund(s) into the invoice payments ledger
+  const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+  if (paymentIntentId && stripe) {
+    let tenantId = charge.metadata?.tenantId;
+    if (!tenantId) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      tenantId = paymentIntent.metadata?.tenantId;
+    }
+    const tenantDb = (await resolveTenantContext(tenantId))?.tenantDb ?? req.tenantDb;
+    if (tenantDb) {
+      await syncStripeRefunds(tenantDb, paymentIntentId);
+    }
+  }
+
   const appointmentId = charge.metadata?.appointmentId;
 
   if (!appointmentId) {
@@ -381,7 +401,7 @@ async function handleChargeRefunded(req: Request, charge: Stripe.Charge) {
     details: {
       chargeId: charge.id,
       amountRefunded: charge.amount_refunded / 100, // Convert from cents
-      refundReason: charge.refund?.reason,
+      refundReason: charge.refunds?.data[0]?.reason,
     },
   });
 
@@ -389,12 +409,13 @@ async function handleChargeRefunded(req: Request, charge: Stripe.Charge) {
 }
 
 /**
- * Mark invoice as paid
+ * Record the balance payment on the appointment's invoice
  */
 async function markInvoicePaid(
   tenantDb: TenantDb,
   appointmentId: number,
-  stripePaymentIntentId: string
+  stripePaymentIntentId: string,
+  amount: number
 ): Promise<void> {
   try {
     const [invoice] = await tenantDb
@@ -407,17 +428,8 @@ async function markInvoicePaid(
       return;
     }
 
-    // Update invoice with both legacy and new payment status fields
-    await tenantDb
-      .update(invoices)
-      .set({
-        status: 'paid',                    // Legacy field - backward compatibility
-        paymentStatus: 'paid',             // Primary payment status field
-        paymentMethod: 'Stripe',           // Payment method
-        paidAt: new Date(),                // Payment timestamp
-        stripePaymentIntentId,             // Stripe payment intent ID
-      })
-      .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, invoice.id)));
+    // Payment status and balance are derived from the ledger
+    const ledger = await recordStripePayment(tenantDb, invoice.id, stripePaymentIntentId, amount);
 
     // Log payment
     await tenantDb.insert(auditLog).values({
@@ -427,12 +439,13 @@ async function markInvoicePaid(
       details: {
         appointmentId,
         stripePaymentIntentId,
-        amount: invoice.amount,
+        amount: amount.toFixed(2),
+        balanceDue: ledger.balance.balanceDue.toFixed(2),
         paymentMethod: 'Stripe',
       },
     });
 
-    console.log(`[STRIPE WEBHOOK] Invoice ${invoice.id} marked as paid via Stripe`);
+    console.log(`[STRIPE WEBHOOK] Invoice ${invoice.id} Stripe payment recorded, status ${ledger.balance.paymentStatus}`);
   } catch (error) {
     console.error('[STRIPE WEBHOOK] Error marking invoice paid:', error);
   }
@@ -1,53 +1,40 @@
 import { Router, Request, Response } from 'express';
 import type { TenantDb } from './tenantDb';
+import type { Appointment } from '@shared/schema';
 import { appointments, conversations, messages as messagesTable, customers, jobPhotos, invoices, technicianDeposits, users, customerServiceHistory, services } from '@shared/schema';
 import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
 import { requireTechnician } from './technicianMiddleware';
 import { startOfDay, endOfDay, format } from 'date-fns';
 import multer from 'multer';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as os from 'os';
-import { getDriveClient, getAuthClient } from './googleIntegration';
+import { getAuthClient } from './googleIntegration';
 import { google } from 'googleapis';
 import { createInvoice } from './invoiceService';
+import { applyInvoiceDiscount, recordInvoicePayment, recordPerformedServices } from './services/invoiceLedgerService';
 import { sendSMS } from './notifications';
 import { sendPushNotification } from './pushNotificationService';
 import { recordAppointmentCompleted } from './customerBookingStats';
+import { planTechnicianDay } from './services/routeOptimizer';
+import {
+  isAcceptedImage,
+  MAX_IMAGE_UPLOAD_BYTES,
+  MediaProcessingError,
+  signedMediaUrl,
+  storeImage,
+} from './services/mediaPipeline';
 
 const router = Router();
 
-// Multer configuration for job photo uploads
-const jobPhotoStorage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadDir = path.join(os.tmpdir(), 'job-photos');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
-    cb(null, `job-photo-${uniqueSuffix}${ext}`);
-  }
-});
-
+// Job photos are processed in memory and written to media storage - no temp files
 const jobPhotoUpload = multer({
-  storage: jobPhotoStorage,
+  storage: multer.memoryStorage(),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB max size
+    fileSize: MAX_IMAGE_UPLOAD_BYTES,
   },
   fileFilter: (req, file, cb) => {
-    // Accept only image files
-    const allowedTypes = /jpeg|jpg|png|gif|webp/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    const mimetype = allowedTypes.test(file.mimetype);
-    
-    if (extname && mimetype) {
+    if (isAcceptedImage(file)) {
       return cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed!'));
+      cb(new Error('Only JPEG, PNG, GIF, WebP and HEIC photos are allowed!'));
     }
   }
 });
@@ -237,6 +224,109 @@ router.get('/jobs/today', requireTechnician, async (req: Request, res: Response)
   }
 });
 
+/**
+ * Resolve which technician's route to plan.
+ * Managers/owners (admin override, id -1) must pass an explicit technicianId.
+ */
+function resolveRouteTechnicianId(req: Request): number | null {
+  const technician = (req as any).technician;
+  if (technician.id > 0) {
+    return technician.id;
+  }
+  const requested = parseInt((req.query.technicianId ?? req.body?.technicianId) as string);
+  return Number.isFinite(requested) ? requested : null;
+}
+
+/**
+ * Get the planned route for a day
+ * GET /api/tech/route/today
+ *
+ * Query params:
+ * - date: string (YYYY-MM-DD, tenant local) - defaults to today
+ * - technicianId: number - required for manager/owner override
+ *
+ * Returns visit order, arrival windows, total drive time and unfittable jobs
+ */
+router.get('/route/today', requireTechnician, async (req: Request, res: Response) => {
+  try {
+    const technicianId = resolveRouteTechnicianId(req);
+    if (!technicianId) {
+      return res.status(400).json({
+        success: false,
+        error: 'technicianId is required',
+      });
+    }
+
+    const date = req.query.date as string | undefined;
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({
+        success: false,
+        error: 'date must be YYYY-MM-DD',
+      });
+    }
+
+    const route = await planTechnicianDay(req.tenant!.id, { technicianId, date });
+
+    res.json({
+      success: true,
+      route,
+    });
+  } catch (error) {
+    console.error('[TECH JOBS] Error planning route:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to plan route',
+    });
+  }
+});
+
+/**
+ * Re-optimize the rest of today's route
+ * POST /api/tech/route/reoptimize
+ *
+ * Body:
+ * - latitude: number (optional) - technician's current position
+ * - longitude: number (optional)
+ * - technicianId: number - required for manager/owner override
+ *
+ * Re-plans remaining jobs starting now, from the active job or current position.
+ * Suggestion only - appointment times are not changed.
+ */
+router.post('/route/reoptimize', requireTechnician, async (req: Request, res: Response) => {
+  try {
+    const technicianId = resolveRouteTechnicianId(req);
+    if (!technicianId) {
+      return res.status(400).json({
+        success: false,
+        error: 'technicianId is required',
+      });
+    }
+
+    const { latitude, longitude } = req.body || {};
+    const currentLocation =
+      typeof latitude === 'number' && typeof longitude === 'number'
+        ? { lat: latitude, lng: longitude }
+        : null;
+
+    const route = await planTechnicianDay(req.tenant!.id, {
+      technicianId,
+      fromNow: true,
+      currentLocation,
+    });
+
+    res.json({
+      success: true,
+      route,
+    });
+  } catch (error) {
+    console.error('[TECH JOBS] Error re-optimizing route:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to re-optimize route',
+    });
+  }
+});
+
 /**
  * Update job status
  * POST /api/tech/jobs/:id/status
@@ -327,49 +417,25 @@ router.post('/jobs/:id/status', requireTechnician, async (req: Request, res: Res
 
     console.log(`[TECH JOBS] Job ${appointmentId} status updated to: ${status}`);
 
-    // ✅ CUSTOMER NOTIFICATION: Send SMS when technician arrives on-site
-    if (status === 'on_site') {
-      try {
-        // Get customer phone number
-        const [customer] = await req.tenantDb!
-          .select({ phone: customers.phone, name: customers.name })
-          .from(customers)
-          .where(req.tenantDb!.withTenantFilter(customers, eq(customers.id, appointment.customerId)))
-          .limit(1);
-
-        if (customer && customer.phone) {
-          const { sendSMS } = await import('./notifications');
-          const { renderSmsTemplateOrFallback } = await import('./templateRenderer');
-          const firstName = customer.name ? customer.name.split(' ')[0] : 'there';
-          
-          // Render SMS from template with fallback to legacy message
-          const templateResult = await renderSmsTemplateOrFallback(
-            'on_site_arrival',
-            { firstName },
-            () => `Hey ${firstName}! 👋 Your Clean Machine technician has arrived and will be with you shortly. Get ready for that showroom shine! ✨`
-          );
-          
-          await sendSMS(customer.phone, templateResult.message);
-          console.log(`[TECH JOBS] On-site SMS notification sent to customer ${appointment.customerId}`);
-        }
-      } catch (smsError) {
-        // Log error but don't fail the status update
-        console.error('[TECH JOBS] Failed to send on-site SMS notification:', smsError);
-      }
-    }
-
-    // Broadcast status update via WebSocket for real-time dashboard updates
-    try {
-      const { broadcastJobStatusUpdate } = await import('./websocketService');
-      broadcastJobStatusUpdate(appointmentId, status, updatedAppointment);
-    } catch (wsError) {
-      // Log error but don't fail the status update
-      console.error('[TECH JOBS] Failed to broadcast WebSocket update:', wsError);
-    }
+    // Timeline, customer texts (ETA when heading out) and dashboard broadcast
+    const { recordJobStatusTransition } = await import('./services/jobTrackingService');
+    const tracking = await recordJobStatusTransition(req.tenantDb!, {
+      previous: appointment,
+      updated: updatedAppointment as Appointment,
+      status,
+      latitude,
+      longitude,
+    });
 
     res.json({
       success: true,
       appointment: updatedAppointment,
+      tracking: tracking && {
+        trackingUrl: tracking.trackingUrl,
+        etaMinutes: tracking.etaMinutes,
+        etaAt: tracking.etaAt,
+        customerNotified: tracking.customerNotified,
+      },
       message: `Job status updated to ${status}`,
     });
   } catch (error) {
@@ -482,16 +548,53 @@ router.get('/jobs/:id/messages', requireTechnician, async (req: Request, res: Re
 });
 
 /**
- * Upload job photo to Google Drive
+ * List photos for a job
+ * GET /api/tech/jobs/:id/photos
+ * 
+ * Stored photos get freshly signed URLs; older Google Drive uploads keep their link
+ */
+router.get('/jobs/:id/photos', requireTechnician, async (req: Request, res: Response) => {
+  try {
+    const appointmentId = parseInt(req.params.id);
+
+    const photos = await req.tenantDb!
+      .select()
+      .from(jobPhotos)
+      .where(req.tenantDb!.withTenantFilter(jobPhotos, eq(jobPhotos.appointmentId, appointmentId)))
+      .orderBy(jobPhotos.uploadedAt);
+
+    res.json({
+      success: true,
+      photos: photos.map(photo => ({
+        id: photo.id,
+        url: photo.storageKey ? signedMediaUrl(photo.storageKey) : photo.photoUrl,
+        thumbnailUrl: photo.thumb96Key ? signedMediaUrl(photo.thumb96Key) : photo.photoUrl,
+        photoType: photo.photoType,
+        caption: photo.caption,
+        fileName: photo.fileName,
+        size: photo.fileSize,
+        uploadedAt: photo.uploadedAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error('[TECH JOBS] Error fetching photos:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch photos',
+    });
+  }
+});
+
+/**
+ * Upload job photo
  * POST /api/tech/jobs/:id/photos
  * 
  * Requires technician authentication
  * Verifies job ownership before allowing upload
- * Creates record in jobPhotos table with Google Drive link
+ * Stores the photo and its thumbnail/MMS renditions in media storage and
+ * creates a jobPhotos record; the response carries short-lived signed URLs
  */
 router.post('/jobs/:id/photos', requireTechnician, jobPhotoUpload.single('photo'), async (req: Request, res: Response) => {
-  let tempFilePath: string | null = null;
-
   try {
     const appointmentId = parseInt(req.params.id);
     const technician = (req as any).technician;
@@ -503,22 +606,15 @@ router.post('/jobs/:id/photos', requireTechnician, jobPhotoUpload.single('photo'
       });
     }
 
-    tempFilePath = req.file.path;
-
     console.log(`[TECH JOBS] Photo upload request for job ${appointmentId} by technician ${technician.id}`);
 
-    // Get appointment with customer info and verify ownership
+    // Get appointment and verify ownership
     const [appointmentData] = await req.tenantDb!
       .select({
         id: appointments.id,
-        customerId: appointments.customerId,
         technicianId: appointments.technicianId,
-        calendarEventId: appointments.calendarEventId,
-        customerPhone: customers.phone,
-        customerName: customers.name,
       })
       .from(appointments)
-      .leftJoin(customers, eq(appointments.customerId, customers.id))
       .where(req.tenantDb!.withTenantFilter(appointments, eq(appointments.id, appointmentId)))
       .limit(1);
 
@@ -539,160 +635,52 @@ router.post('/jobs/:id/photos', requireTechnician, jobPhotoUpload.single('photo'
       });
     }
 
-    // Upload to Google Drive
-    const drive = getDriveClient();
-    if (!drive) {
-      return res.status(503).json({
-        success: false,
-        error: 'Google Drive service not available',
-      });
-    }
-
-    try {
-      // Create folder name: "Job Photos - [Customer Name] - [Date]"
-      const folderDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-      const customerName = appointmentData.customerName || 'Unknown Customer';
-      const folderName = `Job Photos - ${customerName} - ${folderDate}`;
-
-      // Escape single quotes in folder name for query (prevents errors with names like "O'Reilly")
-      const escapedFolderName = folderName.replace(/'/g, "\\'");
-
-      // Find or create folder
-      const folderQuery = `name='${escapedFolderName}' and mimeType='application/vnd.google-apps.folder' and trashed=false`;
-      const folderSearch = await drive.files.list({
-        q: folderQuery,
-        fields: 'files(id, name, webViewLink)',
-        spaces: 'drive'
-      });
-
-      let folderId: string;
-      let folderLink: string;
-
-      if (folderSearch.data.files && folderSearch.data.files.length > 0) {
-        folderId = folderSearch.data.files[0].id!;
-        folderLink = folderSearch.data.files[0].webViewLink!;
-        console.log(`[TECH JOBS] Using existing folder: ${folderLink}`);
-      } else {
-        // Create new folder
-        const folderMetadata = {
-          name: folderName,
-          mimeType: 'application/vnd.google-apps.folder'
-        };
-        const folder = await drive.files.create({
-          requestBody: folderMetadata,
-          fields: 'id, webViewLink'
-        });
-        folderId = folder.data.id!;
-        folderLink = folder.data.webViewLink!;
-        console.log(`[TECH JOBS] Created new folder: ${folderLink}`);
-
-        // Set permissions to allow link access
-        try {
-          await drive.permissions.create({
-            fileId: folderId,
-            requestBody: {
-              role: 'reader',
-              type: 'anyone'
-            }
-          });
-        } catch (permError) {
-          console.warn('[TECH JOBS] Failed to set folder permissions:', permError);
-        }
-      }
-
-      // Generate unique filename with timestamp
-      const timestamp = new Date().toISOString().replace(/[\W_]+/g, '').slice(0, 14);
-      const ext = path.extname(req.file.originalname);
-      const fileName = `job_${appointmentId}_${timestamp}${ext}`;
-
-      // Upload file to Drive
-      const fileMetadata = {
-        name: fileName,
-        parents: [folderId]
-      };
-
-      const media = {
-        mimeType: req.file.mimetype,
-        body: fs.createReadStream(req.file.path)
-      };
-
-      const uploadedFile = await drive.files.create({
-        requestBody: fileMetadata,
-        media: media,
-        fields: 'id, name, webViewLink, webContentLink, mimeType, size'
-      });
-
-      // Make file publicly viewable
-      try {
-        await drive.permissions.create({
-          fileId: uploadedFile.data.id!,
-          requestBody: {
-            role: 'reader',
-            type: 'anyone'
-          }
-        });
-      } catch (permError) {
-        console.warn('[TECH JOBS] Failed to set file permissions:', permError);
-      }
-
-      const photoUrl = uploadedFile.data.webViewLink!;
-      const fileSize = uploadedFile.data.size ? parseInt(uploadedFile.data.size) : null;
-
-      console.log(`[TECH JOBS] Photo uploaded successfully: ${photoUrl}`);
-
-      // Create record in jobPhotos table
-      const [photoRecord] = await req.tenantDb!
-        .insert(jobPhotos)
-        .values({
-          appointmentId,
-          technicianId: technician.id,
-          photoUrl,
-          fileSize,
-          mimeType: uploadedFile.data.mimeType || req.file.mimetype,
-          fileName: uploadedFile.data.name || fileName,
-        })
-        .returning();
+    const stored = await storeImage(req.file.buffer, {
+      tenantId: req.tenantDb!.tenantId,
+      scope: `job-photos/${appointmentId}`,
+    });
 
-      console.log(`[TECH JOBS] Created photo record #${photoRecord.id} for job ${appointmentId}`);
+    const [photoRecord] = await req.tenantDb!
+      .insert(jobPhotos)
+      .values({
+        appointmentId,
+        technicianId: technician.id,
+        storageKey: stored.storageKey,
+        thumb96Key: stored.thumb96Key,
+        mms640Key: stored.mms640Key,
+        fileSize: stored.fileSize,
+        mimeType: stored.mimeType,
+        fileName: req.file.originalname,
+      })
+      .returning();
 
-      res.json({
-        success: true,
-        photo: {
-          id: photoRecord.id,
-          url: photoUrl,
-          fileName: uploadedFile.data.name,
-          size: fileSize,
-          uploadedAt: photoRecord.uploadedAt,
-        },
-        message: 'Photo uploaded successfully',
-      });
+    console.log(`[TECH JOBS] Created photo record #${photoRecord.id} for job ${appointmentId} (${stored.storageKey})`);
 
-    } catch (driveError: any) {
-      console.error('[TECH JOBS] Google Drive error:', driveError);
-      return res.status(500).json({
+    res.json({
+      success: true,
+      photo: {
+        id: photoRecord.id,
+        url: signedMediaUrl(stored.storageKey),
+        thumbnailUrl: signedMediaUrl(stored.thumb96Key),
+        fileName: req.file.originalname,
+        size: stored.fileSize,
+        uploadedAt: photoRecord.uploadedAt,
+      },
+      message: 'Photo uploaded successfully',
+    });
+  } catch (error: any) {
+    if (error instanceof MediaProcessingError) {
+      return res.status(error.statusCode).json({
         success: false,
-        error: 'Failed to upload to Google Drive',
-        message: driveError.message,
+        error: error.message,
       });
     }
-
-  } catch (error: any) {
     console.error('[TECH JOBS] Error uploading photo:', error);
     res.status(500).json({
       success: false,
       error: 'Internal server error',
       message: error.message || 'An unexpected error occurred',
     });
-  } finally {
-    // Always clean up temp file
-    if (tempFilePath && fs.existsSync(tempFilePath)) {
-      try {
-        fs.unlinkSync(tempFilePath);
-        console.log(`[TECH JOBS] Cleaned up temp file: ${tempFilePath}`);
-      } catch (cleanupError) {
-        console.error(`[TECH JOBS] Failed to clean up temp file:`, cleanupError);
-      }
-    }
   }
 });
 
@@ -707,8 +695,9 @@ router.post('/jobs/:id/photos', requireTechnician, jobPhotoUpload.single('photo'
  * 
  * Flow:
  * 1. Fetch appointment details
- * 2. Create invoice with technician ID
- * 3. Update invoice payment method and status
+ * 2. Create invoice with technician ID, bill the performed services and
+ *    record free/cash/check settlement in the ledger (which derives status)
+ * 3. Update invoice payment method and technician
  * 4. Update job status to completed
  * 5. Update/create today's deposit record (cash/check only)
  * 6. Send notifications to owner
@@ -773,19 +762,36 @@ router.post('/jobs/:jobId/complete', requireTechnician, async (req: Request, res
     // ATOMIC TRANSACTION: Create invoice, update job, update deposit
     // TODO: Wrap tx with tenant context for full tenant isolation within transactions
     const result = await req.tenantDb!.raw.transaction(async (tx) => {
-      // 1. Create invoice using invoiceService
-      const invoice = await createInvoice(req.tenantDb!, jobId);
+      // 1. Create invoice using invoiceService, itemized and taxed from the price book
+      const invoice = await createInvoice(req.tenantDb!, jobId, tx);
 
       console.log(`[TECH JOBS] Invoice created: ${invoice.id}`);
 
-      // 2. Update invoice with payment method, technician, and status
+      // 1b. Bill what was actually performed if it isn't what was booked
+      const ledger = await recordPerformedServices(req.tenantDb!, invoice.id, servicesPerformed, tx);
+
+      // 1c. Settle through the ledger so balance due and payment status stay derived:
+      // a free job is discounted to zero, cash/check collected on site is a payment,
+      // and online jobs stay open until the customer pays
+      const balanceDue = ledger.balance.balanceDue;
+      if (paymentMethod === 'free' && balanceDue > 0) {
+        await applyInvoiceDiscount(req.tenantDb!, invoice.id, {
+          source: 'manual',
+          description: 'No charge',
+          amount: balanceDue,
+        }, tx);
+      } else if ((paymentMethod === 'cash' || paymentMethod === 'check') && balanceDue > 0 && Number(amount) > 0) {
+        await recordInvoicePayment(req.tenantDb!, invoice.id, {
+          method: paymentMethod,
+          amount: Math.min(Number(amount), balanceDue),
+          note: `Collected by ${technician.fullName || technician.username || 'technician'} at job completion`,
+        }, null, tx);
+      }
+
+      // 2. Update invoice with payment method and technician
       const invoiceUpdate: any = {
         paymentMethod,
-        paymentStatus: paymentMethod === 'free' ? 'paid' : 
-                      paymentMethod === 'online' ? 'pending' : 
-                      'pending',
         technicianId: technician.id,
-        amount: amount.toString(),
       };
       
       // Add itemized services to invoice notes if provided
@@ -1,6 +1,5 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import sharp from 'sharp';
 import { nanoid } from 'nanoid';
 import fs from 'fs/promises';
 import path from 'path';
@@ -9,6 +8,7 @@ import { eq, and } from 'drizzle-orm';
 import OpenAI from 'openai';
 import { z } from 'zod';
 import { requireRole } from './rbacMiddleware';
+import { isAcceptedImage, MMS_SIZE_LIMIT, renderMmsImage, renderThumbnail } from './services/mediaPipeline';
 
 const router = Router();
 
@@ -19,11 +19,10 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB max upload
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/jpg'];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (isAcceptedImage(file)) {
       cb(null, true);
     } else {
-      cb(new Error('Only JPEG and PNG images are allowed'));
+      cb(new Error('Only JPEG, PNG, GIF, WebP and HEIC images are allowed'));
     }
   },
 });
@@ -71,58 +70,22 @@ router.post('/api/tech/profile/photo', requireRole('manager', 'owner'), upload.s
     const imageBuffer = req.file.buffer;
     
     // 96x96 thumbnail
-    const thumb96 = await sharp(imageBuffer)
-      .resize(96, 96, { fit: 'cover', position: 'center' })
-      .jpeg({ quality: 85, mozjpeg: true })
-      .toBuffer();
+    const thumb96 = await renderThumbnail(imageBuffer, 96);
     
     // 320x320 card size
-    const card320 = await sharp(imageBuffer)
-      .resize(320, 320, { fit: 'cover', position: 'center' })
-      .jpeg({ quality: 85, mozjpeg: true })
-      .toBuffer();
+    const card320 = await renderThumbnail(imageBuffer, 320);
     
-    // 640x640 for MMS (optimized for size)
-    let mms640 = await sharp(imageBuffer)
-      .resize(640, 640, { fit: 'cover', position: 'center' })
-      .jpeg({ quality: 75, mozjpeg: true }) // Lower quality for MMS size limit
-      .toBuffer();
-
-    // Verify MMS size is under 350KB, compress further if needed
-    const MMS_SIZE_LIMIT = 350000; // 350KB in bytes
+    // 640x640 for MMS, stepped down until it fits the MMS size limit
+    const mms640 = await renderMmsImage(imageBuffer);
+
+    // Reject if even the smallest rendition is over the limit
     if (mms640.length > MMS_SIZE_LIMIT) {
-      console.log(`[TECH PROFILES] MMS photo ${mms640.length} bytes, compressing further...`);
-      // Try with lower quality
-      mms640 = await sharp(imageBuffer)
-        .resize(640, 640, { fit: 'cover', position: 'center' })
-        .jpeg({ quality: 60, mozjpeg: true })
-        .toBuffer();
-      
-      // If still too large, try even lower quality
-      if (mms640.length > MMS_SIZE_LIMIT) {
-        mms640 = await sharp(imageBuffer)
-          .resize(640, 640, { fit: 'cover', position: 'center' })
-          .jpeg({ quality: 50, mozjpeg: true })
-          .toBuffer();
-      }
-      
-      // If STILL too large, reduce resolution
-      if (mms640.length > MMS_SIZE_LIMIT) {
-        mms640 = await sharp(imageBuffer)
-          .resize(480, 480, { fit: 'cover', position: 'center' })
-          .jpeg({ quality: 60, mozjpeg: true })
-          .toBuffer();
-      }
-      
-      // Final size check - reject if still over limit
-      if (mms640.length > MMS_SIZE_LIMIT) {
-        console.error(`[TECH PROFILES] Failed to compress photo under ${MMS_SIZE_LIMIT} bytes. Final size: ${mms640.length}`);
-        return res.status(422).json({ 
-          error: 'Photo file is too large for MMS. Please use a smaller image or crop it more tightly.',
-          currentSize: mms640.length,
-          maxSize: MMS_SIZE_LIMIT,
-        });
-      }
+      console.error(`[TECH PROFILES] Failed to compress photo under ${MMS_SIZE_LIMIT} bytes. Final size: ${mms640.length}`);
+      return res.status(422).json({ 
+        error: 'Photo file is too large for MMS. Please use a smaller image or crop it more tightly.',
+        currentSize: mms640.length,
+        maxSize: MMS_SIZE_LIMIT,
+      });
     }
 
     // Save all sizes
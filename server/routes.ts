@@ -54,7 +54,7 @@ import voiceWebhookRoutes from './routes.voiceWebhook';
 import twilioVoiceRoutes from './routes.twilioVoice';
 import twilmlRoutes from './routes.twiml';
 import { registerCanonicalVoiceRoutes } from './routes.twilioVoiceCanonical';
-import { registerTwilioVoiceAiRoutes } from './routes.twilioVoiceAi';
+import { registerTwilioVoiceAiRoutes, attachAiVoiceMediaStream } from './routes.twilioVoiceAi';
 import techJobRoutes from './routes.techJobs';
 import notificationRoutes from './routes.notifications';
 import twilioStatusCallbackRoutes from './routes.twilioStatusCallback';
@@ -125,6 +125,11 @@ import galleryRoutes from './routes.gallery';
 import subscriptionRoutes from './routes.subscriptions';
 import analyticsRoutes from './routes.analytics';
 import { registerSMSConsentRoutes } from './routes.smsConsent';
+import { registerConsentRoutes } from './routes.consent';
+import { registerPromoRuleRoutes } from './routes.promoRules';
+import { registerJobTrackingRoutes } from './routes.jobTracking';
+import { registerPriceBookRoutes } from './routes.priceBook';
+import { registerKnowledgeBaseRoutes } from './routes.knowledgeBase';
 import recurringServicesRoutes from './routes.recurringServices';
 import { registerContactsRoutes } from './routes.contacts';
 import quoteRequestsRoutes from './routes.quoteRequests';
@@ -409,6 +414,8 @@ export async function registerRoutes(app: Express) {
       '/api/loyalty/validate-redemption', // Loyalty Redemption Journey v2 - validate before booking
       '/api/public/site',           // CM-4: Public site data endpoint for generated websites
       '/api/public/pricing',        // Public pricing page data
+      '/api/public/price-book',     // Tenant price list and itemized estimates for public sites
+      '/api/public/track',          // Customer job tracking page (token in texted link)
     ];
 
     // CRITICAL: Use req.originalUrl (includes /api) instead of req.path (stripped)
@@ -1827,19 +1834,17 @@ export async function registerRoutes(app: Express) {
         snoozeDuration: `${snoozeDays} days`,
       });
       
-      // Update original job status
+      // Update original job status and drop its queued message
       await req.tenantDb!.update(reminderJobs)
         .set({ status: 'snoozed' })
         .where(req.tenantDb!.withTenantFilter(reminderJobs, eq(reminderJobs.id, payload.jobId)));
+      const { cancelOutboundForSource } = await import('./services/outboundDispatchService');
+      await cancelOutboundForSource(req.tenantDb!, 'reminder_job', payload.jobId);
       
-      // Create new job scheduled for snoozedUntil date
-      await req.tenantDb!.insert(reminderJobs).values({
-        ruleId: job.ruleId,
-        customerId: job.customerId,
-        scheduledFor: snoozedUntil,
-        status: 'pending',
-        messageContent: null, // Will be regenerated when sent
-      });
+      // Create and queue a new job for the snoozedUntil date (fresh action links for the new job)
+      const { createReminderJob, queueReminderJob } = await import('./reminderService');
+      const snoozedJobId = await createReminderJob(req.tenantDb!, job.customerId, job.ruleId, snoozedUntil);
+      await queueReminderJob(req.tenantDb!, snoozedJobId);
       
       // Log event
       await req.tenantDb!.insert(reminderEvents).values({
@@ -2033,29 +2038,28 @@ export async function registerRoutes(app: Express) {
         // Check if this is a damage assessment photo
         const { conversationState } = await import('./conversationState');
         const { handleDamagePhotoUpload } = await import('./damageAssessment');
-        const { processCustomerPhoto } = await import('./googleIntegration');
+        const { fetchImage, storeImage } = await import('./services/mediaPipeline');
+        const { recordCustomerMedia } = await import('./services/customerMediaService');
         
-        const state = conversationState.getState(phone);
+        const state = await conversationState.load(phone, req.tenantDb!.tenantId);
         const isDamageAssessment = (state as any).damageAssessmentRequested;
         
         try {
-          // Process photo and store in Google Drive
-          const customerName = state.customerName || 'Customer';
-          const vehicleInfo = state.vehicles?.[0] ? 
-            `${state.vehicles[0].year || ''} ${state.vehicles[0].make || ''} ${state.vehicles[0].model || ''}`.trim() : 
-            'Unknown Vehicle';
-          
-          const result = await processCustomerPhoto(
-            MediaUrl0,
+          // Store the photo (EXIF stripped) in media storage
+          const stored = await storeImage(await fetchImage(MediaUrl0), {
+            tenantId: req.tenantDb!.tenantId,
+            scope: 'customer-uploads',
+          });
+          await recordCustomerMedia(req.tenantDb!, stored, {
+            source: 'mms',
+            purpose: isDamageAssessment ? 'damage_assessment' : 'photo',
             phone,
-            customerName,
-            vehicleInfo,
-            state.customerEmail || ''
-          );
+            note: message.trim() || null,
+          });
           
           if (isDamageAssessment) {
             // Send damage assessment alert
-            await handleDamagePhotoUpload(phone, result || MediaUrl0, MediaContentType0 || 'image/jpeg');
+            await handleDamagePhotoUpload(phone, stored, req.tenantDb!.tenantId);
             
             // Send confirmation to customer
             const confirmMessage = "Thanks for the photo! I've sent it to the business owner for review. They'll reach out shortly. Let's continue with your appointment...";
@@ -2063,7 +2067,7 @@ export async function registerRoutes(app: Express) {
             return res.send(`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(confirmMessage)}</Message></Response>`);
           } else {
             // Regular photo upload - send standard confirmation
-            const confirmMessage = "Photo received! I've saved it to your customer folder. What else can I help you with?";
+            const confirmMessage = "Photo received! I've saved it with your details. What else can I help you with?";
             res.set('Content-Type', 'text/xml');
             return res.send(`<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(confirmMessage)}</Message></Response>`);
           }
@@ -3523,6 +3527,10 @@ Follow up with this lead to set up their 14-day trial!
   const { registerIvrRoutes } = await import('./routes.twilioVoiceIvr');
   registerIvrRoutes(app);
   
+  // Automated appointment confirmation calls (answer + status callbacks)
+  const { registerConfirmationCallRoutes } = await import('./routes.twilioConfirmationCall');
+  registerConfirmationCallRoutes(app);
+  
   // PHASE 4: AI Voice route (provider-agnostic entry point)
   registerTwilioVoiceAiRoutes(app);
   
@@ -3828,6 +3836,11 @@ Follow up with this lead to set up their 14-day trial!
   
   // SMS Consent routes
   registerSMSConsentRoutes(app);
+  registerConsentRoutes(app);
+  registerPromoRuleRoutes(app);
+  registerJobTrackingRoutes(app);
+  registerPriceBookRoutes(app);
+  registerKnowledgeBaseRoutes(app);
   
   // Register recurring services routes
   app.use('/api/recurring-services', recurringServicesRoutes);
@@ -4581,6 +4594,35 @@ Follow up with this lead to set up their 14-day trial!
     }
   });
 
+  // GET /api/admin/technician-utilization - Booked vs. available time per technician
+  app.get('/api/admin/technician-utilization', requireAuth, async (req: Request, res: Response) => {
+    try {
+      // RBAC check
+      const role = (req as any).user?.role;
+      if (role !== 'owner' && role !== 'manager') {
+        return res.status(403).json({ success: false, message: 'Access denied' });
+      }
+
+      const { startDate, endDate } = req.query;
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+      if (!datePattern.test(String(startDate)) || !datePattern.test(String(endDate))) {
+        return res.status(400).json({ success: false, message: 'startDate and endDate (YYYY-MM-DD) are required' });
+      }
+
+      const { getTechnicianUtilization } = await import('./services/schedulingEngine');
+      const utilization = await getTechnicianUtilization(req.tenantDb!.tenantId, startDate as string, endDate as string);
+
+      return res.json({ success: true, utilization });
+    } catch (error) {
+      console.error('[ADMIN SHIFTS] Error computing technician utilization:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
   // POST /api/admin/shifts - Create new shift assignment
   app.post('/api/admin/shifts', requireAuth, async (req: Request, res: Response) => {
     try {
@@ -5244,6 +5286,9 @@ Follow up with this lead to set up their 14-day trial!
 
   initializeWebSocket(io);
 
+  // Twilio Media Streams for the AI voice receptionist (raw websockets, not socket.io)
+  attachAiVoiceMediaStream(server);
+
   io.on('connection', (socket) => {
     console.log('Client connected:', socket.id);
 
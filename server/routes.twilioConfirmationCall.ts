@@ -0,0 +1,120 @@
+/**
+ * Appointment Confirmation Call Routes
+ *
+ * Twilio webhooks for the automated calls placed by confirmationCallService.
+ *
+ * ROUTE SUMMARY:
+ * - POST /twilio/voice/confirmation-call - Call answered / Gather result (1 confirm, 2 reschedule, 3 talk to someone)
+ * - POST /twilio/voice/confirmation-call/status - Call status callback (ringing, completed, no-answer...)
+ */
+
+import type { Express, Request, Response } from 'express';
+import { db } from './db';
+import { wrapTenantDb } from './tenantDb';
+import { verifyTwilioSignature } from './twilioSignatureMiddleware';
+import { resolveTenantFromCallSid, updateCallEvent } from './callLoggingService';
+import {
+  CONFIRMATION_CALL_MAX_PROMPTS,
+  buildConfirmationCallTwiml,
+  buildConfirmationResultTwiml,
+  buildConfirmationVoicemailTwiml,
+  parseConfirmationChoice,
+} from '@shared/confirmationCall';
+import {
+  attachConfirmationCallSid,
+  getConfirmationCallContext,
+  recordConfirmationChoice,
+} from './services/confirmationCallService';
+
+function getCallbackBaseUrl(req: Request): string {
+  const protocol = req.headers['x-forwarded-proto'] || 'https';
+  const host = req.headers['host'] || req.headers['x-forwarded-host'] || process.env.REPLIT_DEV_DOMAIN;
+  return `${protocol}://${host}`;
+}
+
+function sendTwiml(res: Response, twiml: string) {
+  res.type('text/xml').send(twiml);
+}
+
+/**
+ * Tenant for a confirmation call webhook. Calls are placed with their tenant
+ * and callEvents row in the (Twilio-signed) URL, so the first callbacks work
+ * even if they arrive before the CallSid has been stored.
+ */
+async function resolveConfirmationCallTenant(req: Request, callSid: string): Promise<string> {
+  const tenantId = typeof req.query.tenantId === 'string' ? req.query.tenantId : null;
+  const callEventId = parseInt(req.query.callEventId as string);
+  if (!tenantId || !callEventId) {
+    return resolveTenantFromCallSid(callSid);
+  }
+  await attachConfirmationCallSid(tenantId, callEventId, callSid);
+  return tenantId;
+}
+
+async function handleConfirmationCall(req: Request, res: Response) {
+  const { CallSid, AnsweredBy, Digits, SpeechResult } = req.body;
+  const attempt = parseInt(req.query.attempt as string) || 0;
+
+  try {
+    const tenantId = await resolveConfirmationCallTenant(req, CallSid);
+    const context = await getConfirmationCallContext(tenantId, CallSid);
+    if (!context) {
+      console.warn(`[CONFIRMATION CALL] No confirmation call found for ${CallSid}`);
+      return sendTwiml(res, buildConfirmationResultTwiml(null, {}));
+    }
+
+    const gatherUrl = `${getCallbackBaseUrl(req)}/twilio/voice/confirmation-call`;
+
+    // First request for the call: machine detection has run, nothing gathered yet
+    if (attempt === 0) {
+      if (AnsweredBy) {
+        await updateCallEvent(wrapTenantDb(db, tenantId), CallSid, { answeredBy: AnsweredBy });
+      }
+      if (typeof AnsweredBy === 'string' && AnsweredBy.startsWith('machine')) {
+        return sendTwiml(res, buildConfirmationVoicemailTwiml(context.script));
+      }
+      return sendTwiml(res, buildConfirmationCallTwiml(context.script, gatherUrl, 1));
+    }
+
+    const choice = parseConfirmationChoice(Digits, SpeechResult);
+    if (!choice) {
+      if (attempt < CONFIRMATION_CALL_MAX_PROMPTS) {
+        return sendTwiml(res, buildConfirmationCallTwiml(context.script, gatherUrl, attempt + 1));
+      }
+      return sendTwiml(res, buildConfirmationResultTwiml(null, {}));
+    }
+
+    await recordConfirmationChoice(context, CallSid, choice);
+    sendTwiml(res, buildConfirmationResultTwiml(choice, {
+      transferNumber: context.forwardingNumber,
+      callerId: context.businessLine || undefined,
+    }));
+  } catch (error) {
+    console.error(`[CONFIRMATION CALL] Error handling call ${CallSid}:`, error);
+    sendTwiml(res, buildConfirmationResultTwiml(null, {}));
+  }
+}
+
+async function handleConfirmationCallStatus(req: Request, res: Response) {
+  const { CallSid, CallStatus, CallDuration, AnsweredBy } = req.body;
+
+  try {
+    const tenantId = await resolveConfirmationCallTenant(req, CallSid);
+    await updateCallEvent(wrapTenantDb(db, tenantId), CallSid, {
+      status: CallStatus,
+      duration: CallDuration ? parseInt(CallDuration) : undefined,
+      answeredBy: AnsweredBy || undefined,
+      startedAt: CallStatus === 'in-progress' ? new Date() : undefined,
+      endedAt: CallStatus === 'completed' ? new Date() : undefined,
+    });
+  } catch (error) {
+    console.error(`[CONFIRMATION CALL] Error updating status for ${CallSid}:`, error);
+  }
+
+  res.sendStatus(204);
+}
+
+export function registerConfirmationCallRoutes(app: Express) {
+  app.post('/twilio/voice/confirmation-call', verifyTwilioSignature, handleConfirmationCall);
+  app.post('/twilio/voice/confirmation-call/status', verifyTwilioSignature, handleConfirmationCallStatus);
+}
@@ -1,17 +1,21 @@
 import type { Express, Request, Response } from 'express';
+import type { Server } from 'http';
+import { WebSocketServer } from 'ws';
 import { eq } from 'drizzle-orm';
 import { verifyTwilioSignature } from './twilioSignatureMiddleware';
 import { resolveTenantFromInbound } from './services/tenantCommRouter';
-import { handleAiVoiceRequest, buildAiVoiceErrorTwiML } from './services/aiVoiceSession';
+import { handleAiVoiceRequest, buildAiVoiceErrorTwiML, AI_VOICE_STREAM_PATH } from './services/aiVoiceSession';
+import { handleAiVoiceStream } from './services/aiVoiceBridge';
 import { db } from './db';
 import { tenants, tenantConfig } from '@shared/schema';
 import { hasFeature } from '@shared/features';
+import twilio from 'twilio';
 
 /**
  * AI Voice Route (Phase 4)
  * 
- * Provider-agnostic AI voice endpoint for ivrMode = 'ai-voice'
- * Currently returns placeholder TwiML, ready for future streaming AI integration
+ * AI voice endpoint for ivrMode = 'ai-voice'. Answers with TwiML that
+ * connects the call to a media stream (see attachAiVoiceMediaStream).
  */
 export function registerTwilioVoiceAiRoutes(app: Express) {
   /**
@@ -80,10 +84,14 @@ export function registerTwilioVoiceAiRoutes(app: Express) {
       // All guards passed - handle AI voice request
       console.log(`[AI VOICE ROUTE] Processing AI voice call for tenant '${enrichedTenant.id}' (${enrichedTenant.name})`);
 
+      const protocol = req.headers['x-forwarded-proto'] || 'https';
+      const host = req.headers['host'] || req.headers['x-forwarded-host'] || process.env.REPLIT_DEV_DOMAIN;
+
       const result = await handleAiVoiceRequest({
         tenant: enrichedTenant,
         phoneConfig: resolution.phoneConfig,
         body: req.body,
+        callbackBaseUrl: `${protocol}://${host}`,
       });
 
       return res.type('text/xml').send(result.twiml);
@@ -96,4 +104,34 @@ export function registerTwilioVoiceAiRoutes(app: Express) {
       return res.type('text/xml').send(fallbackTwiml);
     }
   });
+
+  /**
+   * POST /twilio/voice/ai/whisper
+   * 
+   * Played to the person picking up a warm transfer from the AI receptionist,
+   * before the caller is connected
+   */
+  app.post('/twilio/voice/ai/whisper', verifyTwilioSignature, (req: Request, res: Response) => {
+    const summary = typeof req.query.summary === 'string' ? req.query.summary : '';
+    const twiml = new twilio.twiml.VoiceResponse();
+    twiml.say({ voice: 'Polly.Joanna' }, summary ? `Transfer from the A I receptionist. ${summary}` : 'Transfer from the A I receptionist.');
+    res.type('text/xml').send(twiml.toString());
+  });
+}
+
+/**
+ * Accept Twilio Media Stream websockets for AI voice calls on the shared
+ * HTTP server. Other upgrade paths (socket.io) are left alone.
+ */
+export function attachAiVoiceMediaStream(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const pathname = (req.url || '').split('?')[0];
+    if (pathname !== AI_VOICE_STREAM_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleAiVoiceStream(ws);
+    });
+  });
 }
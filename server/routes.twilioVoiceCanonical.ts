@@ -35,7 +35,7 @@ import {
   getIvrConfigForTenant,
   buildConfigDrivenMenuTwiml,
 } from './services/ivrHelper';
-import { getOrCreateDefaultMenuForTenant } from './services/ivrConfigService';
+import { resolveIvrMenuForCall } from './services/ivrConfigService';
 import { handleAiVoiceRequest } from './services/aiVoiceSession';
 import { sendSMS } from './notifications';
 
@@ -341,6 +341,7 @@ async function handleIvrMode(
   const attempt = parseInt(req.query.attempt as string) || parseInt(req.body.attempt as string) || 1;
   const noInputRetry = req.query.noInputRetry === 'true' || req.body.noInputRetry === 'true';
   const invalidRetry = req.query.invalidRetry === 'true' || req.body.invalidRetry === 'true';
+  const menuId = parseInt(req.query.menuId as string) || null;
   
   console.log(`[CANONICAL VOICE] mode=ivr, tenant=${tenantId}, action=main-menu, attempt=${attempt}`);
   
@@ -352,8 +353,8 @@ async function handleIvrMode(
   console.log(`[CANONICAL VOICE] IVR callback base URL: ${callbackBaseUrl}`);
   
   try {
-    // Load IVR menu from database (or seed default if missing)
-    const menu = await getOrCreateDefaultMenuForTenant(tenantId);
+    // Load the requested menu (main by default), following its business-hours/holiday routing
+    const menu = await resolveIvrMenuForCall(tenantId, req.body.To || null, menuId);
     
     console.log(`[CANONICAL VOICE] Using config-driven IVR menu: ${menu.name} (id=${menu.id})`);
     
@@ -414,10 +415,14 @@ async function handleAiVoiceMode(
     };
     
     // Call AI voice handler
+    const protocol = req.headers['x-forwarded-proto'] || 'https';
+    const host = req.headers['host'] || req.headers['x-forwarded-host'] || process.env.REPLIT_DEV_DOMAIN;
+
     const result = await handleAiVoiceRequest({
       tenant,
       phoneConfig,
       body: req.body,
+      callbackBaseUrl: `${protocol}://${host}`,
     });
     
     res.type('text/xml');
@@ -21,7 +21,8 @@ import type { Express, Request, Response } from 'express';
 import { db } from './db';
 import { wrapTenantDb } from './tenantDb';
 import { tenantPhoneConfig, tenantConfig, users, phoneLines, ivrMenus, tenantTelephonySettings, callSmsState } from '../shared/schema';
-import { eq, and } from 'drizzle-orm';
+import type { IvrMenuWithItems, IvrVoicemailBox } from '../shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
 import {
   buildServicesOverviewTwiml,
   buildForwardToPersonTwiml,
@@ -38,13 +39,19 @@ import {
   buildConfigDrivenInvalidTwiml,
   buildConfigDrivenNoInputTwiml,
 } from './services/ivrHelper';
-import { getActiveMenuForTenant, getOrCreateDefaultMenuForTenant } from './services/ivrConfigService';
+import {
+  getActiveMenuForTenant,
+  getMenuByIdForTenant,
+  getOrCreateDefaultMenuForTenant,
+  getVoicemailBoxForTenant,
+} from './services/ivrConfigService';
 import { verifyTwilioSignature } from './twilioSignatureMiddleware';
 import { TWILIO_TEST_SMS_NUMBER } from './twilioClient';
 import { syncVoicemailIntoConversation } from './services/voicemailConversationService';
 import { sendPushToAllUsers, sendPushNotification } from './pushNotificationService';
 import { handleConversationalScheduling } from './conversationalScheduling';
 import { sendSMS } from './notifications';
+import { sendBusinessEmail } from './emailService';
 
 /**
  * CM-VOICEMAIL-MISSED-CALL-SMS-FIX: Per-call SMS deduplication using atomic database claims
@@ -128,6 +135,29 @@ function normalizePhoneNumber(phone: string | undefined): string | null {
   return null;
 }
 
+/**
+ * The menu a Gather/Redirect callback refers to, falling back to main for
+ * calls that started before menus were linked (or after one was deleted)
+ */
+async function loadCallbackMenu(tenantId: string, menuId: number | null): Promise<IvrMenuWithItems> {
+  const menu = menuId ? await getMenuByIdForTenant(tenantId, menuId) : null;
+  return menu ?? getOrCreateDefaultMenuForTenant(tenantId);
+}
+
+/**
+ * Voicemail box named on a recording callback (?boxId=), if it still exists
+ */
+async function loadVoicemailBox(tenantId: string, boxId: unknown): Promise<IvrVoicemailBox | null> {
+  const id = parseInt(boxId as string);
+  if (!id) return null;
+  try {
+    return await getVoicemailBoxForTenant(tenantId, id);
+  } catch (error) {
+    console.error(`[IVR VOICEMAIL] Error loading voicemail box ${id}:`, error);
+    return null;
+  }
+}
+
 /**
  * Get callback base URL from request headers
  * Works correctly in both development and production
@@ -214,8 +244,8 @@ async function handleIvrSelection(req: Request, res: Response) {
   }
   
   try {
-    // Load IVR menu from database
-    const menu = await getOrCreateDefaultMenuForTenant(tenantId);
+    // Load the menu the caller was gathering on
+    const menu = await loadCallbackMenu(tenantId, menuId || null);
     
     // Find menu item for the pressed digit
     const menuItem = findMenuItemByDigit(menu, Digits);
@@ -240,8 +270,13 @@ async function handleIvrSelection(req: Request, res: Response) {
       });
     }
     
+    // Department voicemail: the box's greeting and staff replace the line defaults
+    const voicemailBox = menuItem.actionType === 'VOICEMAIL'
+      ? await loadVoicemailBox(tenantId, menuItem.actionPayload?.voicemailBoxId)
+      : null;
+    
     // Build TwiML for the action (pass voicemail greeting URL for VOICEMAIL actions)
-    const twiml = buildActionTwiml(menuItem, menu, From, callbackBaseUrl, voicemailGreetingUrl);
+    const twiml = buildActionTwiml(menuItem, menu, From, callbackBaseUrl, voicemailGreetingUrl, voicemailBox);
     res.type('text/xml');
     res.send(twiml);
     
@@ -320,8 +355,8 @@ async function handleNoInput(req: Request, res: Response) {
   const tenantId = phoneConfig[0]?.tenantId || 'root';
   
   try {
-    // Load IVR menu from database
-    const menu = await getOrCreateDefaultMenuForTenant(tenantId);
+    // Load the menu the caller was gathering on
+    const menu = await loadCallbackMenu(tenantId, menuId || null);
     
     // Use config-driven no-input response
     const twiml = buildConfigDrivenNoInputTwiml(menu, callbackBaseUrl, attempt);
@@ -557,8 +592,9 @@ async function handleRecordingStatus(req: Request, res: Response) {
         console.error('[RECORDING STATUS] Error syncing voicemail to conversation:', syncError);
       }
       
-      // Notify tenant owner about voicemail (SMS + Push)
-      notifyVoicemail(tenantId, From, RecordingUrl, RecordingSid, To).catch(err => {
+      // Notify tenant owner about voicemail (SMS + Push), or the box's staff for department voicemail
+      const voicemailBox = await loadVoicemailBox(tenantId, req.query.boxId);
+      notifyVoicemail(tenantId, From, RecordingUrl, RecordingSid, To, voicemailBox).catch(err => {
         console.error('[RECORDING STATUS] Error notifying voicemail:', err);
       });
     }
@@ -669,7 +705,8 @@ async function handleVoicemailTranscribed(req: Request, res: Response) {
     console.log(`[VOICEMAIL TRANSCRIBED] Updated conversation ${syncResult.conversationId} with transcription`);
     
     // Send another push notification with the transcription summary
-    sendVoicemailTranscriptionPush(tenantId, From, TranscriptionText).catch(err => {
+    const voicemailBox = await loadVoicemailBox(tenantId, req.query.boxId);
+    sendVoicemailTranscriptionPush(tenantId, From, TranscriptionText, voicemailBox).catch(err => {
       console.error('[VOICEMAIL TRANSCRIBED] Error sending transcription push:', err);
     });
     
@@ -691,7 +728,9 @@ async function handleVoicemailTranscribed(req: Request, res: Response) {
         const aiResponse = await handleConversationalScheduling(
           TranscriptionText,
           From,
-          'sms'
+          'sms',
+          undefined,
+          tenantId
         );
         
         // Send AI-generated contextual response back to customer
@@ -805,14 +844,56 @@ async function getTwilioClient() {
   return twilio.default(accountSid, authToken);
 }
 
+/**
+ * Staff a department voicemail box routes to. Empty when the box has no
+ * one assigned, in which case the usual owner/all-users notifications apply.
+ */
+async function getVoicemailBoxRecipients(tenantId: string, box: IvrVoicemailBox | null) {
+  if (!box || box.notifyUserIds.length === 0) return [];
+  
+  const tenantDb = wrapTenantDb(db, tenantId);
+  return tenantDb
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(tenantDb.withTenantFilter(users, inArray(users.id, box.notifyUserIds)));
+}
+
 async function notifyVoicemail(
   tenantId: string,
   callerNumber: string,
   recordingUrl: string,
   recordingSid: string,
-  toNumber: string
+  toNumber: string,
+  box: IvrVoicemailBox | null = null
 ) {
   try {
+    const recipients = await getVoicemailBoxRecipients(tenantId, box);
+    if (recipients.length > 0) {
+      const pushPayload = {
+        title: `🎙️ New ${box!.name} Voicemail`,
+        body: `Voicemail from ${callerNumber}`,
+        tag: `voicemail-${recordingSid}`,
+        requireInteraction: true,
+        data: {
+          type: 'voicemail',
+          callerNumber,
+          recordingUrl,
+          recordingSid,
+          toNumber,
+          voicemailBoxId: box!.id,
+          url: '/messages',
+        },
+        actions: [
+          { action: 'view', title: 'View' },
+          { action: 'dismiss', title: 'Dismiss' },
+        ],
+      };
+      
+      await Promise.all(recipients.map(user => sendPushNotification(user.id, pushPayload)));
+      console.log(`[IVR VOICEMAIL] Push sent to ${recipients.length} ${box!.name} staff for voicemail from ${callerNumber}`);
+      return;
+    }
+    
     // 1. Send SMS notification to business owner
     const twilioClient = await getTwilioClient();
     
@@ -867,7 +948,8 @@ async function notifyVoicemail(
 async function sendVoicemailTranscriptionPush(
   tenantId: string,
   callerNumber: string,
-  transcription: string
+  transcription: string,
+  box: IvrVoicemailBox | null = null
 ) {
   try {
     // Truncate transcription for push notification
@@ -887,8 +969,22 @@ async function sendVoicemailTranscriptionPush(
       },
     };
     
-    await sendPushToAllUsers(pushPayload);
-    console.log(`[IVR VOICEMAIL] Transcription push sent for ${callerNumber}`);
+    const recipients = await getVoicemailBoxRecipients(tenantId, box);
+    if (recipients.length === 0) {
+      await sendPushToAllUsers(pushPayload);
+      console.log(`[IVR VOICEMAIL] Transcription push sent for ${callerNumber}`);
+      return;
+    }
+    
+    // Department voicemail: push and email the full transcription to the box's staff
+    const subject = `${box!.name} voicemail from ${callerNumber}`;
+    await Promise.all(recipients.map(async (user) => {
+      await sendPushNotification(user.id, { ...pushPayload, title: `📝 ${box!.name} Voicemail Transcribed` });
+      if (user.email) {
+        await sendBusinessEmail(user.email, subject, `New voicemail from ${callerNumber}:\n\n${transcription}`);
+      }
+    }));
+    console.log(`[IVR VOICEMAIL] Transcription sent to ${recipients.length} ${box!.name} staff for ${callerNumber}`);
   } catch (error) {
     console.error('[IVR VOICEMAIL] Error sending transcription push:', error);
   }
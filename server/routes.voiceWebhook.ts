@@ -703,7 +703,9 @@ router.post('/transcription', verifyTwilioSignature, async (req: Request, res: R
       const aiResponse = await handleConversationalScheduling(
         transcriptionText,
         callerPhone,
-        'sms'
+        'sms',
+        undefined,
+        req.tenantDb.tenantId
       );
 
       // Send AI-generated contextual response back to customer
@@ -747,7 +749,9 @@ async function sendMissedCallSMS(req: Request, toPhone: string) {
       const result = await handleConversationalScheduling(
         initialMessage,
         toPhone,
-        'sms'
+        'sms',
+        undefined,
+        req.tenantDb?.tenantId
       );
 
       // Send the AI-generated response with real calendar availability
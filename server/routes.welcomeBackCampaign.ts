@@ -139,6 +139,7 @@ const sendCampaignSchema = z.object({
   audience: z.enum(['vip', 'regular']),
   previewOnly: z.boolean().optional().default(false),
   includeNonLoyalty: z.boolean().optional().default(false),
+  segmentId: z.number().int().positive().nullable().optional(),
 });
 
 router.post('/welcome-back/send', async (req: Request, res: Response) => {
@@ -156,7 +157,7 @@ router.post('/welcome-back/send', async (req: Request, res: Response) => {
       });
     }
 
-    const { audience, previewOnly, includeNonLoyalty } = validation.data;
+    const { audience, previewOnly, includeNonLoyalty, segmentId } = validation.data;
     
     console.log(`[WELCOME_BACK] ${previewOnly ? 'Previewing' : 'Sending'} ${audience} campaign for tenant ${tenantId} ${includeNonLoyalty ? '(ALL customers)' : '(loyalty opt-ins only)'}`);
 
@@ -165,6 +166,7 @@ router.post('/welcome-back/send', async (req: Request, res: Response) => {
       audience,
       previewOnly,
       includeNonLoyalty,
+      segmentId,
     });
     
     res.json({
@@ -246,7 +246,9 @@ async function handleServiceProInboundSms(req: Request, res: Response, dedupeMes
     
     const conversation = await getOrCreateTestConversation(tenantDb, From);
     
-    // Hydrate customer memory from DB for returning customers (before AI response)
+    // Pick up this customer's booking session, then hydrate customer memory
+    // from DB for returning customers (before AI response)
+    await conversationState.load(From, tenantId);
     await hydrateSmsConversationStateFromDb({ tenantDb, tenantId, fromPhone: From });
     
     // Add customer message
@@ -270,7 +272,7 @@ async function handleServiceProInboundSms(req: Request, res: Response, dedupeMes
     let persistedState = await getSmsBookingState(tenantDb, conversation.id);
     
     // Prefill booking state from customer memory if missing
-    const st = conversationState.getState(From);
+    const st = conversationState.getState(From, tenantId);
     // Check canonical address first (hydrated by hydrator), then preferredAddress
     const hydratedAddress = st?.address || st?.preferredAddress;
     if (!persistedState.address && hydratedAddress) {
@@ -326,6 +328,7 @@ async function handleServiceProInboundSms(req: Request, res: Response, dedupeMes
         persistedState
       );
       await updateSmsBookingState(tenantDb, conversation.id, newState);
+      conversationState.resetSession(From, tenantId, { preserveAddress: newState.address, newService: newState.service });
       persistedState = newState;
       
       // Rebuild context with new session window - CRITICAL for preventing stale messages
@@ -504,6 +507,7 @@ async function handleServiceProInboundSms(req: Request, res: Response, dedupeMes
           persistedState
         );
         await updateSmsBookingState(tenantDb, conversation.id, newState);
+        conversationState.resetSession(From, tenantId, { preserveAddress: newState.address, newService: newState.service });
         const rescheduleReply = truncateSmsResponse(`No problem! Let's find a new time for your ${upcomingBooking.service}. When would work better for you?`);
         await addMessage(tenantDb, conversation.id, rescheduleReply, 'ai');
         twimlResponse.message(rescheduleReply);
@@ -788,7 +792,8 @@ Customer text: "${Body}"`,
               vehicles: smsBookingState.vehicle ? [{ description: smsBookingState.vehicle }] : [],
               notes: `Booked via SMS. Slot: ${slotSelection.chosenSlotLabel}`,
               smsConsent: true,
-            }
+            },
+            tenantDb,
           };
           
           const bookingRes = {
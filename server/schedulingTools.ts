@@ -9,6 +9,11 @@ import { checkDistanceToBusinessLocation } from './googleMapsApi';
 import { getActiveUpsellOffers } from './upsellService';
 import { handleGetAvailable, handleBook } from './calendarApi';
 import { sheetsData } from './knowledge';
+import { db } from './db';
+import { wrapTenantDb } from './tenantDb';
+import { lockTenantSchedule } from './services/scheduleLock';
+import { detectConditions, formatEstimateLines } from '@shared/priceBook';
+import { estimatePrice, loadPriceBook, PriceBookError, type PriceBookEstimate } from './services/priceBookService';
 
 interface CustomerDatabaseResult {
   found: boolean;
@@ -66,7 +71,7 @@ interface UpsellOffer {
  * Tool 1: Check Customer Database
  * Looks up customer in Google Sheets to greet by name and know their history
  */
-export async function checkCustomerDatabase(phone: string): Promise<CustomerDatabaseResult> {
+export async function checkCustomerDatabase(phone: string, tenantId: string = 'root'): Promise<CustomerDatabaseResult> {
   try {
     // First check in-memory customer store
     const memoryCustomer = customerMemory.getCustomer(phone);
@@ -113,7 +118,7 @@ export async function checkCustomerDatabase(phone: string): Promise<CustomerData
           customerName: name,
           customerEmail: email || undefined,
           isExistingCustomer: true,
-        });
+        }, tenantId);
         
         customerMemory.updateCustomer(phone, {
           name,
@@ -140,7 +145,7 @@ export async function checkCustomerDatabase(phone: string): Promise<CustomerData
     }
     
     // Not found in sheets, mark as new customer
-    conversationState.updateState(phone, { isExistingCustomer: false });
+    conversationState.updateState(phone, { isExistingCustomer: false }, tenantId);
     return { found: false };
     
   } catch (error) {
@@ -156,7 +161,7 @@ export async function checkCustomerDatabase(phone: string): Promise<CustomerData
  * 
  * HOTFIX-SMS-CM: Guards against undefined/null address with early validation
  */
-export async function validateAddress(phone: string, address: string | undefined | null): Promise<AddressValidationResult> {
+export async function validateAddress(phone: string, address: string | undefined | null, tenantId: string = 'root'): Promise<AddressValidationResult> {
   // HOTFIX-SMS-CM: Guard against missing address before calling Maps API
   if (!address || typeof address !== 'string' || !address.trim()) {
     console.warn('[VALIDATE ADDRESS] Missing or empty address provided', { phone, address });
@@ -193,7 +198,7 @@ export async function validateAddress(phone: string, address: string | undefined
         address: suggestedAddress,
         addressValidated: false, // Flag as unverified
         isInServiceArea: true, // Allow booking to proceed
-      });
+      }, tenantId);
       
       customerMemory.updateCustomer(phone, {
         address: suggestedAddress,
@@ -215,8 +220,8 @@ export async function validateAddress(phone: string, address: string | undefined
       addressValidated: true,
       isInServiceArea: inServiceArea,
       driveTimeMinutes: driveTime,
-    });
-    conversationState.completeStep(phone, 'addressValidated');
+    }, tenantId);
+    conversationState.completeStep(phone, 'addressValidated', tenantId);
     
     // Also update customer memory
     customerMemory.updateCustomer(phone, {
@@ -254,25 +259,25 @@ export async function validateAddress(phone: string, address: string | undefined
 
 /**
  * Tool 3: Get Available Time Slots
- * Fetches real availability from Google Calendar
+ * Computes availability with the database-native scheduling engine
+ * (Google Calendar is only an optional overlay)
  */
-export async function getAvailableSlots(phone: string, service: string): Promise<TimeSlot[]> {
+export async function getAvailableSlots(phone: string, service: string, tenantId: string = 'root'): Promise<TimeSlot[]> {
   console.log(`[SCHEDULING TOOLS] ========== GET AVAILABLE SLOTS CALLED ==========`);
-  console.log(`[SCHEDULING TOOLS] Service: ${service}, Customer: ${phone}`);
+  console.log(`[SCHEDULING TOOLS] Service: ${service}, Customer: ${phone}, Tenant: ${tenantId}`);
   
   try {
-    // Import the calendar function directly
-    const { generateAvailableSlots } = await import('./calendarApi');
+    const { getNativeAvailability } = await import('./services/schedulingEngine');
     
-    console.log(`[SCHEDULING TOOLS] Calling generateAvailableSlots for service: "${service}"`);
+    console.log(`[SCHEDULING TOOLS] Calling getNativeAvailability for service: "${service}"`);
     
-    // Get slots from Google Calendar
-    const slots = await generateAvailableSlots(service);
+    const { slots: openSlots, timezone } = await getNativeAvailability(tenantId, { serviceName: service });
+    const slots = openSlots.map(slot => slot.startIso);
     
-    console.log(`[SCHEDULING TOOLS] ✅ Calendar returned ${slots.length} available slots`);
+    console.log(`[SCHEDULING TOOLS] ✅ Scheduling engine returned ${slots.length} available slots`);
     
     if (slots.length === 0) {
-      console.warn(`[SCHEDULING TOOLS] ⚠️ No slots returned - calendar may be fully booked or service not found`);
+      console.warn(`[SCHEDULING TOOLS] ⚠️ No slots returned - schedule may be fully booked or service not found`);
     }
     
     // Format slots for AI (limit to 5 for readability)
@@ -284,7 +289,7 @@ export async function getAvailableSlots(phone: string, service: string): Promise
         day: 'numeric',
         hour: 'numeric',
         minute: '2-digit',
-        timeZone: 'America/Chicago',
+        timeZone: timezone,
       };
       const formattedTime = date.toLocaleString('en-US', options);
       
@@ -303,13 +308,13 @@ export async function getAvailableSlots(phone: string, service: string): Promise
     // Store offered slots in conversation state
     conversationState.updateState(phone, {
       offeredTimeSlots: formattedSlots,
-    });
+    }, tenantId);
     
     console.log(`[SCHEDULING TOOLS] ========== END GET AVAILABLE SLOTS ==========`);
     return formattedSlots;
     
   } catch (error) {
-    console.error('[SCHEDULING TOOLS] ❌ CALENDAR API ERROR - Failed to get available slots');
+    console.error('[SCHEDULING TOOLS] ❌ SCHEDULING ENGINE ERROR - Failed to get available slots');
     console.error('[SCHEDULING TOOLS] Error:', error);
     console.error('[SCHEDULING TOOLS] Stack:', (error as Error).stack);
     // Return empty array but log the issue clearly
@@ -322,7 +327,7 @@ export async function getAvailableSlots(phone: string, service: string): Promise
  * Tool 4: Get Upsell Offers
  * Retrieves SMART, relevant add-on recommendations based on selected service
  */
-export async function getUpsellOffers(phone: string, service: string): Promise<UpsellOffer[]> {
+export async function getUpsellOffers(phone: string, service: string, tenantId: string = 'root'): Promise<UpsellOffer[]> {
   try {
     console.log(`[SCHEDULING TOOLS] Getting smart upsell recommendations for ${service}, customer: ${phone}`);
     
@@ -377,8 +382,8 @@ export async function getUpsellOffers(phone: string, service: string): Promise<U
     // Store in conversation state
     conversationState.updateState(phone, {
       offeredUpsells: topOffers,
-    });
-    conversationState.completeStep(phone, 'upsellsOffered');
+    }, tenantId);
+    conversationState.completeStep(phone, 'upsellsOffered', tenantId);
     
     return topOffers;
     
@@ -394,20 +399,20 @@ export async function getUpsellOffers(phone: string, service: string): Promise<U
  * Tool 5: Create Appointment
  * Books the appointment in Google Calendar on behalf of customer
  */
-export async function createAppointment(phone: string): Promise<{
+export async function createAppointment(phone: string, tenantId: string = 'root'): Promise<{
   success: boolean;
   message: string;
   appointmentId?: string;
   eventLink?: string;
 }> {
   try {
-    const state = conversationState.getState(phone);
+    const state = conversationState.getState(phone, tenantId);
     
     // Validate we have all required information
     if (!state.customerName || !state.address || !state.service || !state.selectedTimeSlot) {
       return {
         success: false,
-        message: 'Missing required information. Please provide: ' + conversationState.getMissingFields(phone).join(', '),
+        message: 'Missing required information. Please provide: ' + conversationState.getMissingFields(phone, tenantId).join(', '),
       };
     }
     
@@ -426,9 +431,11 @@ export async function createAppointment(phone: string): Promise<{
       isExtendedAreaRequest: !state.isInServiceArea,
     };
     
-    // Create mock request/response for handleBook
+    // Create mock request/response for handleBook - scoped to this tenant so the
+    // technician comes from the same crew getAvailableSlots offered
     const mockReq = {
       body: bookingData,
+      tenantDb: wrapTenantDb(db, tenantId),
     };
     
     let bookingResult: any = {};
@@ -447,7 +454,7 @@ export async function createAppointment(phone: string): Promise<{
     
     if (bookingResult.success) {
       // Mark conversation as complete
-      conversationState.completeStep(phone, 'finalConfirmation');
+      conversationState.completeStep(phone, 'finalConfirmation', tenantId);
       
       // Update customer service history
       customerMemory.updateCustomer(phone, {
@@ -484,12 +491,48 @@ export async function createAppointment(phone: string): Promise<{
   }
 }
 
+/**
+ * Price book estimate for the service, vehicles and add-ons collected so far.
+ * Null when the tenant hasn't priced the service, so the summary just
+ * leaves the price off rather than guessing.
+ */
+async function estimateForConversation(phone: string, tenantId: string): Promise<PriceBookEstimate | null> {
+  const state = conversationState.getState(phone, tenantId);
+  if (!state.service) return null;
+
+  try {
+    const tenantDb = wrapTenantDb(db, tenantId);
+    const priceBook = await loadPriceBook(tenantDb);
+    const conditionLabels = priceBook.modifiers
+      .filter(m => m.kind === 'condition')
+      .map(m => ({ key: m.key, label: m.label }));
+
+    return await estimatePrice(tenantDb, {
+      serviceName: state.service,
+      vehicles: (state.vehicles || []).map(v => ({
+        year: v.year,
+        make: v.make,
+        model: v.model,
+        conditions: detectConditions((v.condition || []).join(', '), conditionLabels),
+      })),
+      addOnNames: state.addOns,
+    }, priceBook);
+  } catch (error) {
+    if (!(error instanceof PriceBookError)) {
+      console.error('[BOOKING SUMMARY] Price book estimate failed:', error);
+    }
+    return null;
+  }
+}
+
 /**
  * Helper: Build Invoice-Style Summary
- * Creates a clean, formatted summary of the appointment for confirmation
+ * Creates a clean, formatted summary of the appointment for confirmation,
+ * itemized from the tenant's price book when the service is priced
  */
-export function buildInvoiceSummary(phone: string): string {
-  const state = conversationState.getState(phone);
+export async function buildInvoiceSummary(phone: string, tenantId: string = 'root'): Promise<string> {
+  const state = conversationState.getState(phone, tenantId);
+  const estimate = await estimateForConversation(phone, tenantId);
   
   let summary = '📋 APPOINTMENT SUMMARY\n';
   summary += '━━━━━━━━━━━━━━━━━━━━\n\n';
@@ -542,6 +585,13 @@ export function buildInvoiceSummary(phone: string): string {
     });
   }
   
+  if (estimate) {
+    summary += '\n💵 Estimate:\n';
+    formatEstimateLines(estimate).forEach(line => {
+      summary += `   ${line}\n`;
+    });
+  }
+  
   summary += '\n━━━━━━━━━━━━━━━━━━━━\n';
   summary += '\nReply "CONFIRM" to book this appointment, or let me know if you need any changes.';
   
@@ -627,7 +677,7 @@ export async function getExistingAppointment(phone: string): Promise<{
  * Tool 7: Update Appointment Address
  * Modify the address for an existing appointment
  */
-export async function updateAppointmentAddress(phone: string, newAddress: string): Promise<{
+export async function updateAppointmentAddress(phone: string, newAddress: string, tenantId: string = 'root'): Promise<{
   success: boolean;
   message: string;
   updatedAddress?: string;
@@ -689,7 +739,7 @@ export async function updateAppointmentAddress(phone: string, newAddress: string
       address: validation.formattedAddress || newAddress,
       addressValidated: true,
       isInServiceArea: true,
-    });
+    }, tenantId);
     
     customerMemory.updateCustomer(phone, {
       address: validation.formattedAddress || newAddress,
@@ -834,11 +884,14 @@ export async function rescheduleAppointment(phone: string, newDateTime: string):
       };
     }
     
-    await db.update(appointments)
-      .set({
-        scheduledTime: newDate,
-      })
-      .where(eq(appointments.customerId, customer[0].id));
+    await db.transaction(async (tx) => {
+      await lockTenantSchedule(tx, customer[0].tenantId);
+      await tx.update(appointments)
+        .set({
+          scheduledTime: newDate,
+        })
+        .where(eq(appointments.customerId, customer[0].id));
+    });
     
     // Update Google Calendar event if applicable
     // TODO: Integrate with Google Calendar API to update the event
@@ -2,6 +2,7 @@ import { Express, Request, Response } from 'express';
 import type { TenantDb } from './tenantDb';
 import { services } from '../shared/schema';
 import { eq } from 'drizzle-orm';
+import { invalidateKnowledgeBase } from './services/knowledgeBaseService';
 
 export function registerServiceManagementRoutes(app: Express) {
   // Get all services from database
@@ -51,7 +52,7 @@ export function registerServiceManagementRoutes(app: Express) {
   app.post('/api/admin/services', async (req: Request, res: Response) => {
     try {
       const tenantDb = (req as any).tenantDb as TenantDb;
-      const { name, priceRange, overview, detailedDescription, duration, durationHours, minDurationHours, maxDurationHours, imageUrl } = req.body;
+      const { name, priceRange, overview, detailedDescription, duration, durationHours, minDurationHours, maxDurationHours, minSkillLevel, imageUrl } = req.body;
       
       if (!name || !priceRange || !overview || !detailedDescription || !duration) {
         return res.status(400).json({ 
@@ -69,9 +70,11 @@ export function registerServiceManagementRoutes(app: Express) {
         durationHours: durationHours?.toString() || '2',
         minDurationHours: minDurationHours?.toString() || '2',
         maxDurationHours: maxDurationHours?.toString() || '2',
+        minSkillLevel: minSkillLevel ? Number(minSkillLevel) : 1,
         imageUrl: imageUrl || null
       }).returning();
 
+      await invalidateKnowledgeBase(tenantDb.tenantId);
       res.json({ success: true, service: newService[0] });
     } catch (error) {
       console.error('Error creating service:', error);
@@ -87,7 +90,7 @@ export function registerServiceManagementRoutes(app: Express) {
     try {
       const tenantDb = (req as any).tenantDb as TenantDb;
       const serviceId = parseInt(req.params.id);
-      const { name, priceRange, overview, detailedDescription, duration, durationHours, minDurationHours, maxDurationHours, imageUrl } = req.body;
+      const { name, priceRange, overview, detailedDescription, duration, durationHours, minDurationHours, maxDurationHours, minSkillLevel, imageUrl } = req.body;
 
       const updateData: any = {};
       if (name !== undefined) updateData.name = name;
@@ -98,6 +101,7 @@ export function registerServiceManagementRoutes(app: Express) {
       if (durationHours !== undefined) updateData.durationHours = durationHours.toString();
       if (minDurationHours !== undefined) updateData.minDurationHours = minDurationHours.toString();
       if (maxDurationHours !== undefined) updateData.maxDurationHours = maxDurationHours.toString();
+      if (minSkillLevel !== undefined) updateData.minSkillLevel = Number(minSkillLevel);
       if (imageUrl !== undefined) updateData.imageUrl = imageUrl;
 
       const updatedService = await tenantDb
@@ -113,6 +117,7 @@ export function registerServiceManagementRoutes(app: Express) {
         });
       }
 
+      await invalidateKnowledgeBase(tenantDb.tenantId);
       res.json({ success: true, service: updatedService[0] });
     } catch (error) {
       console.error('Error updating service:', error);
@@ -141,6 +146,7 @@ export function registerServiceManagementRoutes(app: Express) {
         });
       }
 
+      await invalidateKnowledgeBase(tenantDb.tenantId);
       res.json({ success: true, message: 'Service deleted successfully' });
     } catch (error) {
       console.error('Error deleting service:', error);
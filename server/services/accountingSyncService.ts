@@ -0,0 +1,435 @@
+/**
+ * Accounting Sync
+ *
+ * Pushes services, customers and paid jobs to an accounting package through
+ * a provider, and pulls the package's own ids back in. Sync state is kept per
+ * record (accountingSyncRecords) so exports are idempotent: a record goes out
+ * again only when something that reaches the books has changed.
+ *
+ * The first provider is file-based - it renders an IIF or CSV journal (see
+ * shared/accountingExport.ts) that is imported by hand, and reads back a CSV
+ * of the ids the package assigned. API-backed providers (QuickBooks Online,
+ * Xero) can implement the same interface.
+ */
+
+import type { TenantDb } from '../tenantDb';
+import {
+  accountingExports,
+  accountingSyncRecords,
+  customers,
+  invoiceLineItems,
+  invoicePayments,
+  invoices,
+  servicePrices,
+  services,
+} from '@shared/schema';
+import type { AccountingExport } from '@shared/schema';
+import { and, desc, eq, gte, inArray, lt } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  countAccountingRecords,
+  listAccountingRecords,
+  parseAcknowledgementCsv,
+  renderAccountingExport,
+  selectPendingRecords,
+  type AccountingAcknowledgement,
+  type AccountingBatch,
+  type AccountingExportFormat,
+  type AccountingReceipt,
+  type AccountingReceiptLine,
+  type AccountingRecordType,
+} from '@shared/accountingExport';
+import { getTenantTimezone } from '../timezoneUtils';
+
+export class AccountingSyncError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'AccountingSyncError';
+  }
+}
+
+export interface AccountingProvider {
+  readonly name: string;
+  readonly formats: readonly AccountingExportFormat[];
+  exportBatch(batch: AccountingBatch, format: AccountingExportFormat): Promise<{ fileName: string; content: string }>;
+  parseAcknowledgements(payload: string): { acknowledgements: AccountingAcknowledgement[]; errors: string[] };
+}
+
+export class FileAccountingProvider implements AccountingProvider {
+  readonly name = 'file';
+  readonly formats = ['iif', 'csv'] as const;
+
+  async exportBatch(batch: AccountingBatch, format: AccountingExportFormat) {
+    const stamp = new Date().toISOString().slice(0, 10);
+    return {
+      fileName: `accounting-export-${stamp}.${format}`,
+      content: renderAccountingExport(batch, format),
+    };
+  }
+
+  parseAcknowledgements(payload: string) {
+    return parseAcknowledgementCsv(payload);
+  }
+}
+
+const PROVIDERS: Record<string, AccountingProvider> = {
+  file: new FileAccountingProvider(),
+};
+
+export function getAccountingProvider(name: string): AccountingProvider {
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new AccountingSyncError(`Unknown accounting provider "${name}"`);
+  }
+  return provider;
+}
+
+export function listAccountingProviders(): Array<{ name: string; formats: readonly AccountingExportFormat[] }> {
+  return Object.values(PROVIDERS).map(provider => ({ name: provider.name, formats: provider.formats }));
+}
+
+export interface AccountingPeriod {
+  start?: Date;
+  end?: Date;
+}
+
+const money = (value: string | number | null | undefined) => Number(value ?? 0) || 0;
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Everything that could go to the books for a period: all services and
+ * customers involved, sales receipts for invoices paid in the period, and
+ * refund receipts for refunds issued in it
+ */
+export async function loadAccountingBatch(tenantDb: TenantDb, period: AccountingPeriod = {}): Promise<AccountingBatch> {
+  const timezone = await getTenantTimezone(tenantDb);
+  const toDate = (date: Date) => formatInTimeZone(date, timezone, 'yyyy-MM-dd');
+  const inPeriod = (column: typeof invoices.paidAt | typeof invoicePayments.receivedAt) => [
+    ...(period.start ? [gte(column, period.start)] : []),
+    ...(period.end ? [lt(column, period.end)] : []),
+  ];
+
+  const serviceRows = await tenantDb
+    .select({ service: services, basePrice: servicePrices.basePrice })
+    .from(services)
+    .leftJoin(
+      servicePrices,
+      and(eq(servicePrices.serviceId, services.id), eq(servicePrices.isActive, true))
+    )
+    .where(tenantDb.withTenantFilter(services));
+  const serviceNames = new Map(serviceRows.map(row => [row.service.id, row.service.name]));
+
+  const paidRows = await tenantDb
+    .select({ invoice: invoices, customerName: customers.name })
+    .from(invoices)
+    .innerJoin(customers, eq(invoices.customerId, customers.id))
+    .where(
+      tenantDb.withTenantFilter(
+        invoices,
+        and(inArray(invoices.paymentStatus, ['paid', 'refunded']), ...inPeriod(invoices.paidAt))
+      )
+    );
+
+  const refundRows = await tenantDb
+    .select({ payment: invoicePayments, invoice: invoices, customerName: customers.name })
+    .from(invoicePayments)
+    .innerJoin(invoices, eq(invoicePayments.invoiceId, invoices.id))
+    .innerJoin(customers, eq(invoices.customerId, customers.id))
+    .where(
+      tenantDb.withTenantFilter(
+        invoicePayments,
+        and(eq(invoicePayments.kind, 'refund'), eq(invoicePayments.status, 'succeeded'), ...inPeriod(invoicePayments.receivedAt))
+      )
+    );
+
+  const invoiceIds = paidRows.map(row => row.invoice.id);
+  const lineRows = invoiceIds.length === 0 ? [] : await tenantDb
+    .select()
+    .from(invoiceLineItems)
+    .where(tenantDb.withTenantFilter(invoiceLineItems, inArray(invoiceLineItems.invoiceId, invoiceIds)))
+    .orderBy(invoiceLineItems.sortOrder, invoiceLineItems.id);
+  const paymentRows = invoiceIds.length === 0 ? [] : await tenantDb
+    .select()
+    .from(invoicePayments)
+    .where(
+      tenantDb.withTenantFilter(
+        invoicePayments,
+        and(inArray(invoicePayments.invoiceId, invoiceIds), eq(invoicePayments.kind, 'payment'), eq(invoicePayments.status, 'succeeded'))
+      )
+    )
+    .orderBy(desc(invoicePayments.receivedAt));
+
+  const receipts: AccountingReceipt[] = paidRows.map(({ invoice, customerName }) => {
+    const lines = lineRows.filter(line => line.invoiceId === invoice.id);
+    const tax = lines.length > 0
+      ? roundMoney(lines.reduce((sum, line) => sum + money(line.taxAmount), 0))
+      : money(invoice.taxAmount);
+
+    // Legacy invoices have no line items - book the whole pre-tax amount as one line
+    const receiptLines: AccountingReceiptLine[] = lines.length > 0
+      ? lines.map(line => ({
+          itemName: line.kind === 'service' && line.serviceId ? serviceNames.get(line.serviceId) ?? null : null,
+          account: line.kind === 'discount' ? 'discounts' : 'income',
+          description: line.description,
+          quantity: money(line.quantity),
+          amount: money(line.amount),
+        }))
+      : [{
+          itemName: null,
+          account: 'income',
+          description: invoice.serviceDescription,
+          quantity: 1,
+          amount: roundMoney(money(invoice.totalAmount ?? invoice.amount) - tax),
+        }];
+
+    const latestPayment = paymentRows.find(payment => payment.invoiceId === invoice.id);
+    const createdYear = (invoice.createdAt ?? invoice.paidAt ?? new Date()).getFullYear();
+
+    return {
+      localId: invoice.id,
+      type: 'sales_receipt',
+      number: `INV-${createdYear}-${String(invoice.id).padStart(6, '0')}`,
+      date: toDate(invoice.paidAt ?? invoice.createdAt ?? new Date()),
+      customerName,
+      paymentMethod: latestPayment?.method ?? invoice.paymentMethod ?? 'other',
+      memo: invoice.serviceDescription,
+      lines: receiptLines,
+      tax,
+      // Computed from the lines so every receipt balances
+      total: roundMoney(receiptLines.reduce((sum, line) => sum + line.amount, 0) + tax),
+    };
+  });
+
+  for (const { payment, invoice, customerName } of refundRows) {
+    const amount = money(payment.amount);
+    receipts.push({
+      localId: payment.id,
+      type: 'refund_receipt',
+      number: `REF-${String(payment.id).padStart(6, '0')}`,
+      date: toDate(payment.receivedAt),
+      customerName,
+      paymentMethod: payment.method,
+      memo: payment.note || `Refund for ${invoice.serviceDescription}`,
+      lines: [{ itemName: null, account: 'income', description: `Refund - ${invoice.serviceDescription}`, quantity: 1, amount }],
+      tax: 0,
+      total: amount,
+    });
+  }
+
+  const customerIds = Array.from(new Set([
+    ...paidRows.map(row => row.invoice.customerId),
+    ...refundRows.map(row => row.invoice.customerId),
+  ]));
+  const customerRows = customerIds.length === 0 ? [] : await tenantDb
+    .select()
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, inArray(customers.id, customerIds)));
+
+  return {
+    items: serviceRows.map(({ service, basePrice }) => ({
+      localId: service.id,
+      name: service.name,
+      description: service.overview,
+      price: money(basePrice),
+    })),
+    customers: customerRows.map(customer => ({
+      localId: customer.id,
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address,
+    })),
+    receipts,
+  };
+}
+
+async function loadSyncState(tenantDb: TenantDb, provider: string) {
+  return tenantDb
+    .select()
+    .from(accountingSyncRecords)
+    .where(tenantDb.withTenantFilter(accountingSyncRecords, eq(accountingSyncRecords.provider, provider)));
+}
+
+export interface AccountingExportPreview {
+  pending: Record<AccountingRecordType, number>;
+  total: Record<AccountingRecordType, number>;
+}
+
+export async function previewAccountingExport(
+  tenantDb: TenantDb,
+  providerName: string,
+  period: AccountingPeriod
+): Promise<AccountingExportPreview> {
+  const provider = getAccountingProvider(providerName);
+  const batch = await loadAccountingBatch(tenantDb, period);
+  const state = await loadSyncState(tenantDb, provider.name);
+  return {
+    pending: countAccountingRecords(selectPendingRecords(batch, state)),
+    total: countAccountingRecords(batch),
+  };
+}
+
+/**
+ * Renders the records that are new or changed since the last export and
+ * records what was sent. With includeUnchanged everything in the period goes
+ * out again (e.g. the previous file was lost before it was imported).
+ */
+export async function createAccountingExport(
+  tenantDb: TenantDb,
+  input: {
+    provider: string;
+    format: AccountingExportFormat;
+    period: AccountingPeriod;
+    includeUnchanged?: boolean;
+    userId?: number | null;
+  }
+): Promise<Omit<AccountingExport, 'content'>> {
+  const provider = getAccountingProvider(input.provider);
+  if (!provider.formats.includes(input.format)) {
+    throw new AccountingSyncError(`The ${provider.name} provider can't produce ${input.format} files`);
+  }
+
+  const batch = await loadAccountingBatch(tenantDb, input.period);
+  const pending = input.includeUnchanged
+    ? batch
+    : selectPendingRecords(batch, await loadSyncState(tenantDb, provider.name));
+  const records = listAccountingRecords(pending);
+  if (records.length === 0) {
+    throw new AccountingSyncError('Nothing new to export for this period', 409);
+  }
+
+  const file = await provider.exportBatch(pending, input.format);
+
+  // The export row and the sync state it explains are written together or not at all
+  const exportRow = await tenantDb.transaction(async (tx) => {
+    const [exportRow] = await tx
+      .insert(accountingExports)
+      .values({
+        tenantId: tenantDb.tenantId,
+        provider: provider.name,
+        format: input.format,
+        periodStart: input.period.start ?? null,
+        periodEnd: input.period.end ?? null,
+        recordCounts: countAccountingRecords(pending),
+        fileName: file.fileName,
+        content: file.content,
+        createdBy: input.userId ?? null,
+      })
+      .returning();
+
+    const now = new Date();
+    for (const record of records) {
+      // A changed record has to be matched up in the books again, so its external id stays but goes back to exported
+      await tx
+        .insert(accountingSyncRecords)
+        .values({
+          tenantId: tenantDb.tenantId,
+          provider: provider.name,
+          recordType: record.recordType,
+          localId: record.localId,
+          fingerprint: record.fingerprint,
+          status: 'exported',
+          lastExportId: exportRow.id,
+          syncedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [
+            accountingSyncRecords.tenantId,
+            accountingSyncRecords.provider,
+            accountingSyncRecords.recordType,
+            accountingSyncRecords.localId,
+          ],
+          set: { fingerprint: record.fingerprint, status: 'exported', lastExportId: exportRow.id, syncedAt: now, updatedAt: now },
+        });
+    }
+    return exportRow;
+  });
+
+  console.log(`[ACCOUNTING] Tenant ${tenantDb.tenantId} exported ${records.length} records as ${input.format} (export ${exportRow.id})`);
+  const { content, ...summary } = exportRow;
+  return summary;
+}
+
+export async function listAccountingExports(tenantDb: TenantDb, limit = 50) {
+  return tenantDb
+    .select({
+      id: accountingExports.id,
+      provider: accountingExports.provider,
+      format: accountingExports.format,
+      periodStart: accountingExports.periodStart,
+      periodEnd: accountingExports.periodEnd,
+      recordCounts: accountingExports.recordCounts,
+      fileName: accountingExports.fileName,
+      createdAt: accountingExports.createdAt,
+    })
+    .from(accountingExports)
+    .where(tenantDb.withTenantFilter(accountingExports))
+    .orderBy(desc(accountingExports.createdAt))
+    .limit(limit);
+}
+
+export async function getAccountingExport(tenantDb: TenantDb, exportId: number): Promise<AccountingExport> {
+  const [row] = await tenantDb
+    .select()
+    .from(accountingExports)
+    .where(tenantDb.withTenantFilter(accountingExports, eq(accountingExports.id, exportId)))
+    .limit(1);
+  if (!row) {
+    throw new AccountingSyncError('Export not found', 404);
+  }
+  return row;
+}
+
+/**
+ * The return leg: stores the ids the accounting package assigned. Only
+ * records that were actually exported can be acknowledged.
+ */
+export async function importAccountingAcknowledgements(
+  tenantDb: TenantDb,
+  providerName: string,
+  payload: string
+): Promise<{ acknowledged: number; unmatched: number; errors: string[] }> {
+  const provider = getAccountingProvider(providerName);
+  const { acknowledgements, errors } = provider.parseAcknowledgements(payload);
+
+  let acknowledged = 0;
+  let unmatched = 0;
+  const now = new Date();
+  for (const ack of acknowledgements) {
+    const updated = await tenantDb
+      .update(accountingSyncRecords)
+      .set({ externalId: ack.externalId, status: 'acknowledged', acknowledgedAt: now, updatedAt: now })
+      .where(
+        tenantDb.withTenantFilter(
+          accountingSyncRecords,
+          and(
+            eq(accountingSyncRecords.provider, provider.name),
+            eq(accountingSyncRecords.recordType, ack.recordType),
+            eq(accountingSyncRecords.localId, ack.localId)
+          )
+        )
+      )
+      .returning({ id: accountingSyncRecords.id });
+
+    if (updated.length > 0) {
+      acknowledged++;
+    } else {
+      unmatched++;
+    }
+  }
+
+  console.log(`[ACCOUNTING] Tenant ${tenantDb.tenantId} acknowledged ${acknowledged} records (${unmatched} unmatched, ${errors.length} bad rows)`);
+  return { acknowledged, unmatched, errors };
+}
+
+export async function getAccountingSyncSummary(tenantDb: TenantDb, providerName: string) {
+  const provider = getAccountingProvider(providerName);
+  const state = await loadSyncState(tenantDb, provider.name);
+  const summary = { exported: 0, acknowledged: 0, lastSyncedAt: null as Date | null };
+  for (const row of state) {
+    if (row.status === 'acknowledged') summary.acknowledged++;
+    else summary.exported++;
+    if (!summary.lastSyncedAt || row.syncedAt > summary.lastSyncedAt) summary.lastSyncedAt = row.syncedAt;
+  }
+  return summary;
+}
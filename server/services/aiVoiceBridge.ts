@@ -0,0 +1,467 @@
+/**
+ * AI Voice Bridge
+ *
+ * Relays one Twilio Media Stream to an OpenAI Realtime session. Caller audio
+ * goes straight through (both sides speak G.711 mu-law), the model's server
+ * VAD decides when the caller has finished, and speaking over the agent
+ * stops its playback. Scheduling runs on the same tools as the SMS agent,
+ * keyed on the caller's number, so a booking started by phone can be
+ * finished by text and vice versa.
+ *
+ * When the stream ends the transcript is stored on the call event and the
+ * call is metered as voice minutes plus AI tokens.
+ */
+
+import type { WebSocket, RawData } from 'ws';
+import OpenAI from 'openai';
+import { OpenAIRealtimeWS } from 'openai/beta/realtime/ws';
+import { and, eq } from 'drizzle-orm';
+import { callEvents, tenantPhoneConfig } from '@shared/schema';
+import {
+  AI_VOICE_SCHEDULING_TOOLS,
+  appendTranscriptTurn,
+  buildWarmTransferTwiml,
+  formatVoiceTranscript,
+  heardAudioMs,
+  mulawPayloadMs,
+  parseTwilioStreamMessage,
+  resolveTransferTarget,
+  type AiVoiceSessionTool,
+  type VoiceTranscriptTurn,
+} from '@shared/aiVoice';
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import { conversationState } from '../conversationState';
+import { executeFunctionCall, getRealtimeSchedulingTools } from '../openai';
+import { logCallEvent, updateCallEvent } from '../callLoggingService';
+import { buildKnowledgeContext } from './knowledgeBaseService';
+import { getActiveMenuForTenant } from './ivrConfigService';
+import { recordAiUsage, recordVoiceUsage } from './usageEventService';
+import { verifyAiVoiceStreamToken } from './aiVoiceSession';
+
+export const AI_VOICE_MODEL = process.env.AI_VOICE_MODEL || 'gpt-4o-realtime-preview';
+const AI_VOICE_VOICE = process.env.AI_VOICE_VOICE || 'alloy';
+
+// Twilio echoes a mark once everything queued before it has played
+const HANDOFF_MARK = 'handoff';
+
+const SESSION_TOOLS: Array<{ type: 'function'; name: AiVoiceSessionTool; description: string; parameters: Record<string, any> }> = [
+  {
+    type: 'function',
+    name: 'update_booking_details',
+    description: 'Save booking details the caller has given (name, email, service, chosen time, add-ons, vehicle). Call this as details are confirmed, and always before create_appointment.',
+    parameters: {
+      type: 'object',
+      properties: {
+        customerName: { type: 'string', description: "Caller's full name" },
+        customerEmail: { type: 'string', description: "Caller's email address" },
+        service: { type: 'string', description: 'Service the caller wants' },
+        selectedTimeSlot: { type: 'string', description: 'Appointment time the caller chose, as returned by get_available_slots' },
+        addOns: { type: 'array', items: { type: 'string' }, description: 'Add-on services the caller accepted' },
+        vehicle: {
+          type: 'object',
+          properties: {
+            year: { type: 'string' },
+            make: { type: 'string' },
+            model: { type: 'string' },
+            color: { type: 'string' },
+          },
+        },
+      },
+    },
+  },
+  {
+    type: 'function',
+    name: 'lookup_business_info',
+    description: 'Search the business knowledge base (policies, pricing notes, FAQs, service details) to answer a question.',
+    parameters: {
+      type: 'object',
+      properties: { question: { type: 'string', description: "The caller's question" } },
+      required: ['question'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'transfer_to_human',
+    description: 'Connect the caller to a person. Use when they ask for one, are upset, or need something you cannot do. Tell the caller you are connecting them first.',
+    parameters: {
+      type: 'object',
+      properties: { reason: { type: 'string', description: 'One sentence on what the caller needs, read to the person before they are connected' } },
+      required: ['reason'],
+    },
+  },
+  {
+    type: 'function',
+    name: 'end_call',
+    description: 'Hang up after saying goodbye, once the caller has nothing else.',
+    parameters: { type: 'object', properties: {} },
+  },
+];
+
+interface StreamStart {
+  streamSid: string;
+  callSid: string;
+  tenantId: string;
+  businessName: string;
+  from: string;
+  to: string;
+  callbackBaseUrl: string;
+}
+
+function buildInstructions(start: StreamStart, bookingSummary: string): string {
+  return `You are the phone receptionist for ${start.businessName}, a mobile auto detailing business. You are speaking with a caller on the phone; they have already been greeted.
+
+Keep every reply short and conversational: one or two sentences, no lists, no URLs, no markdown. Spell out times and prices the way a person would say them.
+
+The caller's phone number is ${start.from}. Use it as the phone argument for every scheduling tool.
+
+To book: find out the service and vehicle, get and validate the service address, offer two or three times from get_available_slots, record what the caller chose with update_booking_details, read the booking back, and only then call create_appointment. For an existing appointment use get_existing_appointment and reschedule_appointment.
+
+Use lookup_business_info for questions about policies, pricing or services instead of guessing. If the caller asks for a person or you cannot help, call transfer_to_human. When the caller is done, say goodbye and call end_call.
+
+${bookingSummary}`;
+}
+
+async function getTwilioClient() {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!accountSid || !authToken) return null;
+  const twilio = (await import('twilio')).default;
+  return twilio(accountSid, authToken);
+}
+
+async function findForwardingNumber(tenantId: string, to: string): Promise<string | null> {
+  const [config] = await db
+    .select({ forwardingNumber: tenantPhoneConfig.forwardingNumber })
+    .from(tenantPhoneConfig)
+    .where(and(eq(tenantPhoneConfig.tenantId, tenantId), eq(tenantPhoneConfig.phoneNumber, to)))
+    .limit(1);
+  return config?.forwardingNumber ?? null;
+}
+
+async function saveCallRecord(
+  tenantDb: TenantDb,
+  start: StreamStart,
+  transcript: VoiceTranscriptTurn[],
+  startedAt: Date,
+  endedAt: Date
+): Promise<void> {
+  const transcriptionText = formatVoiceTranscript(transcript);
+  const [existing] = await tenantDb
+    .select({ id: callEvents.id })
+    .from(callEvents)
+    .where(tenantDb.withTenantFilter(callEvents, eq(callEvents.callSid, start.callSid)))
+    .limit(1);
+
+  if (existing) {
+    // Status and duration come from Twilio's status callback
+    await updateCallEvent(tenantDb, start.callSid, {
+      transcriptionText,
+      transcriptionStatus: 'completed',
+      aiTranscript: transcript,
+    });
+    return;
+  }
+
+  await logCallEvent(tenantDb, {
+    callSid: start.callSid,
+    direction: 'inbound',
+    from: start.from,
+    to: start.to,
+    status: 'completed',
+    duration: Math.round((endedAt.getTime() - startedAt.getTime()) / 1000),
+    startedAt,
+    endedAt,
+    transcriptionText,
+    transcriptionStatus: 'completed',
+    aiTranscript: transcript,
+  });
+}
+
+/**
+ * Run the agent for one media stream connection. Resolves nothing; the
+ * session lives until either socket closes.
+ */
+export function handleAiVoiceStream(twilioWs: WebSocket): void {
+  let start: StreamStart | null = null;
+  let tenantDb: TenantDb | null = null;
+  let realtime: OpenAIRealtimeWS | null = null;
+  let startedAt = new Date();
+  let transcript: VoiceTranscriptTurn[] = [];
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let finished = false;
+
+  // Playback of the reply currently being spoken, for barge-in
+  let speakingItemId: string | null = null;
+  let playbackStartedAt: number | null = null;
+  let sentAudioMs = 0;
+
+  // Set by transfer_to_human / end_call; carried out once the agent's last words have played
+  let pendingHandoff: { kind: 'transfer'; twiml: string } | { kind: 'hangup' } | null = null;
+  let handoffMarked = false;
+
+  const sendToTwilio = (message: Record<string, any>) => {
+    if (twilioWs.readyState === twilioWs.OPEN) twilioWs.send(JSON.stringify(message));
+  };
+
+  const resetPlayback = () => {
+    speakingItemId = null;
+    playbackStartedAt = null;
+    sentAudioMs = 0;
+  };
+
+  const finish = async (reason: string) => {
+    if (finished) return;
+    finished = true;
+    realtime?.close();
+    if (twilioWs.readyState === twilioWs.OPEN) twilioWs.close();
+    if (!start || !tenantDb) return;
+
+    const endedAt = new Date();
+    const durationSeconds = Math.max(1, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+    console.log(`[AI VOICE] Call ${start.callSid} ended (${reason}) after ${durationSeconds}s, ${transcript.length} turns`);
+
+    try {
+      await saveCallRecord(tenantDb, start, transcript, startedAt, endedAt);
+    } catch (error) {
+      console.error(`[AI VOICE] Failed to save transcript for ${start.callSid}:`, error);
+    }
+    try {
+      await recordVoiceUsage(start.tenantId, durationSeconds, 'ai_voice', { callSid: start.callSid });
+      if (inputTokens + outputTokens > 0) {
+        await recordAiUsage(start.tenantId, 'ai_voice', inputTokens, outputTokens, AI_VOICE_MODEL);
+      }
+    } catch (error) {
+      console.error(`[AI VOICE] Failed to record usage for ${start.callSid}:`, error);
+    }
+  };
+
+  const carryOutHandoff = async () => {
+    if (!start || !pendingHandoff) return;
+    const handoff = pendingHandoff;
+    pendingHandoff = null;
+    try {
+      const client = await getTwilioClient();
+      if (client) {
+        if (handoff.kind === 'transfer') {
+          await client.calls(start.callSid).update({ twiml: handoff.twiml });
+        } else {
+          await client.calls(start.callSid).update({ status: 'completed' });
+        }
+      }
+    } catch (error) {
+      console.error(`[AI VOICE] ${handoff.kind} failed for ${start.callSid}:`, error);
+    }
+    // Without REST credentials, closing the stream moves the call on to the goodbye
+    await finish(handoff.kind);
+  };
+
+  const runSessionTool = async (name: AiVoiceSessionTool, args: Record<string, any>): Promise<string> => {
+    const { tenantId, from } = start!;
+    switch (name) {
+      case 'update_booking_details': {
+        const current = conversationState.getState(from, tenantId);
+        const steps = { ...current.stepsCompleted };
+        const updates: Record<string, any> = {};
+        if (args.customerName) { updates.customerName = args.customerName; steps.customerIdentified = true; }
+        if (args.customerEmail) updates.customerEmail = args.customerEmail;
+        if (args.service) { updates.service = args.service; steps.serviceSelected = true; }
+        if (args.selectedTimeSlot) { updates.selectedTimeSlot = args.selectedTimeSlot; steps.timeSlotSelected = true; }
+        if (Array.isArray(args.addOns)) { updates.addOns = args.addOns; steps.upsellsOffered = true; }
+        if (args.vehicle) updates.vehicles = [...(current.vehicles || []), args.vehicle];
+        conversationState.updateState(from, { ...updates, stepsCompleted: steps }, tenantId);
+        return JSON.stringify({ success: true, summary: conversationState.buildSummary(from, tenantId) });
+      }
+
+      case 'lookup_business_info': {
+        const context = await buildKnowledgeContext(tenantDb!, String(args.question || ''));
+        return JSON.stringify(context ? { found: true, info: context } : { found: false });
+      }
+
+      case 'transfer_to_human': {
+        const menu = await getActiveMenuForTenant(tenantId, 'main');
+        const target = resolveTransferTarget(menu?.items ?? [], await findForwardingNumber(tenantId, start!.to));
+        if (!target) {
+          return JSON.stringify({ success: false, message: 'Nobody is available to take the call. Offer to have someone text the caller back.' });
+        }
+        const state = conversationState.getState(from, tenantId);
+        const summary = [
+          `Call from ${state.customerName || from}`,
+          args.reason,
+          state.service ? `Interested in ${state.service}` : null,
+        ].filter(Boolean).join('. ');
+        pendingHandoff = {
+          kind: 'transfer',
+          twiml: buildWarmTransferTwiml({ target, callerNumber: start!.to, callbackBaseUrl: start!.callbackBaseUrl, summary }),
+        };
+        console.log(`[AI VOICE] Transferring ${start!.callSid} to ${target.kind} ${target.address}`);
+        return JSON.stringify({ success: true, message: 'Tell the caller you are connecting them now.' });
+      }
+
+      case 'end_call':
+        pendingHandoff = { kind: 'hangup' };
+        return JSON.stringify({ success: true });
+    }
+  };
+
+  const handleToolCall = async (callId: string, name: string, rawArgs: string) => {
+    let args: Record<string, any> = {};
+    try {
+      args = rawArgs ? JSON.parse(rawArgs) : {};
+    } catch {
+      console.warn(`[AI VOICE] Unparseable arguments for ${name}: ${rawArgs}`);
+    }
+
+    let output: string;
+    if ((AI_VOICE_SCHEDULING_TOOLS as readonly string[]).includes(name)) {
+      // Always the caller's own number, whatever the model passed
+      output = await executeFunctionCall(name, { ...args, phone: start!.from }, false, start!.tenantId);
+    } else if (SESSION_TOOLS.some((tool) => tool.name === name)) {
+      output = await runSessionTool(name as AiVoiceSessionTool, args);
+    } else {
+      output = JSON.stringify({ error: `Unknown function: ${name}` });
+    }
+
+    realtime?.send({ type: 'conversation.item.create', item: { type: 'function_call_output', call_id: callId, output } });
+    realtime?.send({ type: 'response.create' });
+  };
+
+  const connectRealtime = async () => {
+    const { tenantId, from, callSid } = start!;
+    await conversationState.load(from, tenantId);
+
+    const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY! });
+    realtime = new OpenAIRealtimeWS({ model: AI_VOICE_MODEL }, client);
+
+    realtime.socket.on('open', () => {
+      realtime!.send({
+        type: 'session.update',
+        session: {
+          modalities: ['audio', 'text'],
+          voice: AI_VOICE_VOICE,
+          instructions: buildInstructions(start!, conversationState.buildSummary(from, tenantId)),
+          input_audio_format: 'g711_ulaw',
+          output_audio_format: 'g711_ulaw',
+          input_audio_transcription: { model: 'whisper-1' },
+          turn_detection: { type: 'server_vad' },
+          tools: [...getRealtimeSchedulingTools(AI_VOICE_SCHEDULING_TOOLS), ...SESSION_TOOLS],
+          tool_choice: 'auto',
+        },
+      });
+    });
+
+    realtime.on('response.audio.delta', (event) => {
+      if (speakingItemId !== event.item_id) {
+        speakingItemId = event.item_id;
+        playbackStartedAt = Date.now();
+        sentAudioMs = 0;
+      }
+      sentAudioMs += mulawPayloadMs(event.delta);
+      sendToTwilio({ event: 'media', streamSid: start!.streamSid, media: { payload: event.delta } });
+    });
+
+    realtime.on('input_audio_buffer.speech_started', () => {
+      if (!speakingItemId) return;
+      // Caller talked over the agent: drop queued audio and tell the model how much was heard
+      sendToTwilio({ event: 'clear', streamSid: start!.streamSid });
+      realtime!.send({
+        type: 'conversation.item.truncate',
+        item_id: speakingItemId,
+        content_index: 0,
+        audio_end_ms: heardAudioMs(playbackStartedAt, sentAudioMs, Date.now()),
+      });
+      resetPlayback();
+    });
+
+    realtime.on('conversation.item.input_audio_transcription.completed', (event) => {
+      transcript = appendTranscriptTurn(transcript, 'caller', event.transcript);
+    });
+
+    realtime.on('response.audio_transcript.done', (event) => {
+      transcript = appendTranscriptTurn(transcript, 'agent', event.transcript);
+    });
+
+    realtime.on('response.function_call_arguments.done', (event) => {
+      const item = event as typeof event & { name?: string };
+      handleToolCall(event.call_id, item.name || '', event.arguments).catch((error) => {
+        console.error(`[AI VOICE] Tool ${item.name} failed on ${callSid}:`, error);
+      });
+    });
+
+    realtime.on('response.done', (event) => {
+      inputTokens += event.response.usage?.input_tokens ?? 0;
+      outputTokens += event.response.usage?.output_tokens ?? 0;
+      resetPlayback();
+      if (pendingHandoff && !handoffMarked) {
+        handoffMarked = true;
+        sendToTwilio({ event: 'mark', streamSid: start!.streamSid, mark: { name: HANDOFF_MARK } });
+      }
+    });
+
+    realtime.on('error', (error) => {
+      console.error(`[AI VOICE] Realtime error on ${callSid}:`, error.message);
+    });
+
+    realtime.socket.on('close', () => {
+      finish('model disconnected');
+    });
+  };
+
+  twilioWs.on('message', (data: RawData) => {
+    const message = parseTwilioStreamMessage(data.toString());
+    if (!message) return;
+
+    switch (message.event) {
+      case 'start': {
+        const params = message.start.customParameters || {};
+        if (!params.tenantId || !verifyAiVoiceStreamToken(params.tenantId, message.start.callSid, params.token)) {
+          console.warn(`[AI VOICE] Rejected media stream for ${message.start.callSid}: bad token`);
+          finish('unauthorized');
+          return;
+        }
+        start = {
+          streamSid: message.streamSid,
+          callSid: message.start.callSid,
+          tenantId: params.tenantId,
+          businessName: params.businessName || 'our business',
+          from: params.from || '',
+          to: params.to || '',
+          callbackBaseUrl: params.callbackBaseUrl || '',
+        };
+        tenantDb = wrapTenantDb(db, start.tenantId);
+        startedAt = new Date();
+        console.log(`[AI VOICE] Media stream started for ${start.callSid} (tenant ${start.tenantId})`);
+        connectRealtime().catch((error) => {
+          console.error(`[AI VOICE] Could not start realtime session for ${start?.callSid}:`, error);
+          finish('setup failed');
+        });
+        break;
+      }
+
+      case 'media':
+        if (realtime && realtime.socket.readyState === realtime.socket.OPEN) {
+          realtime.send({ type: 'input_audio_buffer.append', audio: message.media.payload });
+        }
+        break;
+
+      case 'mark':
+        if (message.mark.name === HANDOFF_MARK) {
+          carryOutHandoff();
+        }
+        break;
+
+      case 'stop':
+        finish('caller hung up');
+        break;
+    }
+  });
+
+  twilioWs.on('close', () => {
+    finish('stream closed');
+  });
+
+  twilioWs.on('error', (error) => {
+    console.error('[AI VOICE] Media stream socket error:', error);
+  });
+}
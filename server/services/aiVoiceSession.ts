@@ -1,11 +1,13 @@
+import crypto from 'crypto';
 import type { TenantPhoneConfig } from '@shared/schema';
 
 /**
  * AI Voice Session Service (Phase 4)
  * 
- * Provider-agnostic entry point for AI voice calls.
- * Currently returns static TwiML placeholder.
- * Future: Will integrate streaming AI (OpenAI Realtime API, ElevenLabs, etc.)
+ * Entry point for AI voice calls. Answers with a short greeting and then
+ * connects the call to a Twilio Media Stream, which aiVoiceBridge relays to
+ * the OpenAI Realtime API. Without an OpenAI key (or a public callback URL)
+ * the caller is asked to text instead.
  */
 
 export interface TenantRow {
@@ -23,6 +25,7 @@ export interface AiVoiceRequestContext {
   tenant: TenantRow;
   phoneConfig: TenantPhoneConfig;
   body: Record<string, any>; // Twilio webhook body
+  callbackBaseUrl?: string; // Public https origin; the media stream connects back to it over wss
 }
 
 export interface AiVoiceResult {
@@ -51,16 +54,47 @@ function escapeXml(unsafe: string): string {
     .replace(/'/g, '&apos;');
 }
 
+export const AI_VOICE_STREAM_PATH = '/twilio/voice/ai/stream';
+
+// No fallback: an empty HMAC key would let anyone mint a valid token
+function streamSigningKey(): string | null {
+  return process.env.TWILIO_AUTH_TOKEN || process.env.SESSION_SECRET || null;
+}
+
+/**
+ * Token passed to the media stream as a custom parameter. The websocket
+ * upgrade carries no Twilio signature, so this is what ties a stream to a
+ * call we actually answered for that tenant.
+ */
+export function signAiVoiceStreamToken(tenantId: string, callSid: string): string {
+  const key = streamSigningKey();
+  if (!key) {
+    throw new Error('AI voice stream tokens need TWILIO_AUTH_TOKEN or SESSION_SECRET');
+  }
+  return crypto.createHmac('sha256', key).update(`${tenantId}:${callSid}`).digest('hex');
+}
+
+export function verifyAiVoiceStreamToken(tenantId: string, callSid: string, token: string): boolean {
+  if (!streamSigningKey()) return false;
+  const expected = Buffer.from(signAiVoiceStreamToken(tenantId, callSid));
+  const given = Buffer.from(token || '');
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export function isAiVoiceStreamingEnabled(): boolean {
+  return !!process.env.OPENAI_API_KEY && !!streamSigningKey();
+}
+
 /**
  * Handle AI voice request
  * 
- * Phase 4: Returns static TwiML placeholder
- * Future: Will initiate streaming AI conversation
+ * Greets the caller, then hands the call to the streaming agent. When the
+ * stream ends without a transfer the call continues to the goodbye below.
  */
 export async function handleAiVoiceRequest(
   ctx: AiVoiceRequestContext
 ): Promise<AiVoiceResult> {
-  const { tenant, phoneConfig, body } = ctx;
+  const { tenant, body, callbackBaseUrl } = ctx;
   const callSid = body.CallSid || 'unknown';
 
   // Log the incoming AI voice call
@@ -70,27 +104,54 @@ export async function handleAiVoiceRequest(
   const businessName = tenant.businessName || tenant.name || 'our business';
   const safeBusinessName = escapeXml(businessName);
 
-  // Build placeholder TwiML greeting
-  const greeting = `
+  if (!isAiVoiceStreamingEnabled() || !callbackBaseUrl) {
+    console.warn(`[AI VOICE] Streaming unavailable for tenant '${tenant.id}' (OpenAI key, stream signing secret or callback URL missing)`);
+    const unavailable = `
     <Say voice="Polly.Joanna">
       Hello! You've reached ${safeBusinessName}.
       You're speaking with our A I receptionist, currently in beta.
-      Please tell me briefly what you need help with, and I'll do my best to assist you.
-    </Say>
-    <Pause length="2"/>
-    <Say voice="Polly.Joanna">
-      I'm sorry, our A I voice system is still being configured.
-      Please send us a text message or try calling back later.
+      I'm sorry, I can't take calls right now.
+      Please send us a text message and tell us what you need help with, or try calling back later.
       Thank you!
     </Say>
     <Hangup/>
   `.trim();
+    return { twiml: buildTwiML(unavailable) };
+  }
+
+  const streamUrl = `${callbackBaseUrl.replace(/^http/, 'ws')}${AI_VOICE_STREAM_PATH}`;
+  const parameters: Record<string, string> = {
+    tenantId: tenant.id,
+    businessName,
+    from: body.From || '',
+    to: body.To || '',
+    callbackBaseUrl,
+    token: signAiVoiceStreamToken(tenant.id, callSid),
+  };
+  const parameterTags = Object.entries(parameters)
+    .map(([name, value]) => `<Parameter name="${name}" value="${escapeXml(value)}"/>`)
+    .join('\n        ');
 
-  const twiml = buildTwiML(greeting);
+  const content = `
+    <Say voice="Polly.Joanna">
+      Hello! You've reached ${safeBusinessName}.
+      You're speaking with our A I receptionist, currently in beta.
+      Go ahead and tell me what you need help with.
+    </Say>
+    <Connect>
+      <Stream url="${escapeXml(streamUrl)}">
+        ${parameterTags}
+      </Stream>
+    </Connect>
+    <Say voice="Polly.Joanna">
+      Thanks for calling ${safeBusinessName}. Goodbye!
+    </Say>
+    <Hangup/>
+  `.trim();
 
-  console.log(`[AI VOICE] Generated placeholder TwiML for tenant '${tenant.id}'`);
+  console.log(`[AI VOICE] Connecting call ${callSid} to media stream for tenant '${tenant.id}'`);
 
-  return { twiml };
+  return { twiml: buildTwiML(content) };
 }
 
 /**
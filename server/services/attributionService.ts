@@ -0,0 +1,236 @@
+/**
+ * Booking Attribution Service
+ *
+ * Ties bookings and their paid invoices back to the campaign, referral or
+ * channel that produced them (see shared/attribution.ts):
+ * - Tracked link clicks (SMS campaign and journey links) record a touch
+ *   for the customer who clicked.
+ * - When an appointment is booked, attributeAppointment() stores the last
+ *   touch (the booking's own source, or else the latest touch in the
+ *   attribution window) and the first touch in that window on the row.
+ * - getAttributionReport() rolls recent bookings and paid revenue up by
+ *   campaign, channel or referrer under either model.
+ *
+ * Attribution is bookkeeping: failures are logged and never block a booking.
+ */
+
+import type { TenantDb } from '../tenantDb';
+import {
+  appointments,
+  attributionTouches,
+  emailCampaigns,
+  invoices,
+  journeys,
+  portRecoveryCampaigns,
+  smsCampaigns,
+  type AttributionTouch,
+} from '@shared/schema';
+import { and, asc, eq, gte, inArray, sql } from 'drizzle-orm';
+import {
+  ATTRIBUTION_WINDOW_DAYS,
+  summarizeAttribution,
+  type AttributedBooking,
+  type AttributionChannel,
+  type AttributionDimension,
+  type AttributionModel,
+  type AttributionRow,
+  type AttributionSource,
+} from '@shared/attribution';
+
+const LOG_PREFIX = '[ATTRIBUTION]';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toSource(touch: AttributionTouch): AttributionSource {
+  return {
+    channel: touch.channel as AttributionChannel,
+    ...(touch.campaignId ? { campaignId: touch.campaignId } : {}),
+    ...(touch.referrer ? { referrer: touch.referrer } : {}),
+    ...(touch.detail ? { detail: touch.detail } : {}),
+  };
+}
+
+/**
+ * Remember that a customer engaged with a source (clicked a tracked link,
+ * or booked from it)
+ */
+export async function recordAttributionTouch(
+  tenantDb: TenantDb,
+  customerId: number,
+  source: AttributionSource,
+  options: { appointmentId?: number; touchedAt?: Date } = {}
+): Promise<void> {
+  if (source.channel === 'direct') return;
+  try {
+    await tenantDb.insert(attributionTouches).values({
+      tenantId: tenantDb.tenantId,
+      customerId,
+      channel: source.channel,
+      campaignId: source.campaignId ?? null,
+      referrer: source.referrer ?? null,
+      detail: source.detail ?? null,
+      appointmentId: options.appointmentId ?? null,
+      touchedAt: options.touchedAt ?? new Date(),
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Failed to record touch for customer ${customerId}:`, error);
+  }
+}
+
+/**
+ * Store the last and first touch on a new appointment. `source` is what the
+ * booking itself came in with (null when unknown, e.g. booked by phone).
+ */
+export async function attributeAppointment(
+  tenantDb: TenantDb,
+  appointmentId: number,
+  customerId: number,
+  source: AttributionSource | null,
+  now: Date = new Date()
+): Promise<{ lastTouch: AttributionSource | null; firstTouch: AttributionSource | null } | null> {
+  try {
+    const since = new Date(now.getTime() - ATTRIBUTION_WINDOW_DAYS * DAY_MS);
+    const touches: AttributionTouch[] = await tenantDb
+      .select()
+      .from(attributionTouches)
+      .where(tenantDb.withTenantFilter(attributionTouches, and(
+        eq(attributionTouches.customerId, customerId),
+        gte(attributionTouches.touchedAt, since)
+      )))
+      .orderBy(asc(attributionTouches.touchedAt));
+
+    const explicit = source && source.channel !== 'direct' ? source : null;
+    const lastTouch = explicit ?? (touches.length > 0 ? toSource(touches[touches.length - 1]) : null);
+    const firstTouch = touches.length > 0 ? toSource(touches[0]) : lastTouch;
+
+    await tenantDb
+      .update(appointments)
+      .set({ attributionSource: lastTouch, firstTouchSource: firstTouch })
+      .where(tenantDb.withTenantFilter(appointments, eq(appointments.id, appointmentId)));
+
+    if (explicit) {
+      await recordAttributionTouch(tenantDb, customerId, explicit, { appointmentId, touchedAt: now });
+    }
+
+    return { lastTouch, firstTouch };
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Failed to attribute appointment ${appointmentId}:`, error);
+    return null;
+  }
+}
+
+export interface AttributionReport {
+  model: AttributionModel;
+  dimension: AttributionDimension;
+  days: number;
+  totals: { bookings: number; paidBookings: number; revenue: number; attributedRevenue: number };
+  rows: AttributionRow[];
+}
+
+/**
+ * Campaign and journey names for the campaign view, keyed "channel.id"
+ */
+async function loadCampaignNames(tenantDb: TenantDb, rows: AttributionRow[]): Promise<Map<string, string>> {
+  const idsFor = (channel: AttributionChannel) =>
+    rows.filter(row => row.channel === channel && row.campaignId).map(row => row.campaignId!);
+
+  const names = new Map<string, string>();
+  const add = (channel: AttributionChannel, found: Array<{ id: number; name: string }>) => {
+    for (const row of found) names.set(`${channel}.${row.id}`, row.name);
+  };
+
+  const smsIds = idsFor('sms_campaign');
+  if (smsIds.length > 0) {
+    add('sms_campaign', await tenantDb
+      .select({ id: smsCampaigns.id, name: smsCampaigns.name })
+      .from(smsCampaigns)
+      .where(tenantDb.withTenantFilter(smsCampaigns, inArray(smsCampaigns.id, smsIds))));
+  }
+  const emailIds = idsFor('email_campaign');
+  if (emailIds.length > 0) {
+    add('email_campaign', await tenantDb
+      .select({ id: emailCampaigns.id, name: emailCampaigns.name })
+      .from(emailCampaigns)
+      .where(tenantDb.withTenantFilter(emailCampaigns, inArray(emailCampaigns.id, emailIds))));
+  }
+  const journeyIds = idsFor('journey');
+  if (journeyIds.length > 0) {
+    add('journey', await tenantDb
+      .select({ id: journeys.id, name: journeys.name })
+      .from(journeys)
+      .where(tenantDb.withTenantFilter(journeys, inArray(journeys.id, journeyIds))));
+  }
+  const portIds = idsFor('port_recovery');
+  if (portIds.length > 0) {
+    // Port recovery campaigns aren't tenant-wrapped; filter by tenant explicitly
+    add('port_recovery', await tenantDb
+      .select({ id: portRecoveryCampaigns.id, name: portRecoveryCampaigns.name })
+      .from(portRecoveryCampaigns)
+      .where(and(eq(portRecoveryCampaigns.tenantId, tenantDb.tenantId), inArray(portRecoveryCampaigns.id, portIds))));
+  }
+
+  return names;
+}
+
+/**
+ * Bookings made in the last `days` days (cancellations excluded) and their
+ * paid invoice revenue, credited under the chosen model
+ */
+export async function getAttributionReport(
+  tenantDb: TenantDb,
+  options: { model: AttributionModel; dimension: AttributionDimension; days: number },
+  now: Date = new Date()
+): Promise<AttributionReport> {
+  const since = new Date(now.getTime() - options.days * DAY_MS);
+
+  const booked: Array<{
+    id: number;
+    lastTouch: AttributionSource | null;
+    firstTouch: AttributionSource | null;
+    revenue: string | number | null;
+  }> = await tenantDb
+    .select({
+      id: appointments.id,
+      lastTouch: appointments.attributionSource,
+      firstTouch: appointments.firstTouchSource,
+      revenue: sql<string>`COALESCE((
+        SELECT SUM(${invoices.amount}) FROM ${invoices}
+        WHERE ${invoices.appointmentId} = ${appointments.id}
+          AND ${invoices.tenantId} = ${appointments.tenantId}
+          AND ${invoices.paymentStatus} = 'paid'
+      ), 0)`,
+    })
+    .from(appointments)
+    .where(tenantDb.withTenantFilter(appointments, and(
+      gte(appointments.createdAt, since),
+      sql`COALESCE(${appointments.status}, '') <> 'cancelled'`
+    )));
+
+  const bookings: AttributedBooking[] = booked.map(row => ({
+    appointmentId: row.id,
+    lastTouch: row.lastTouch,
+    firstTouch: row.firstTouch,
+    revenue: Number(row.revenue) || 0,
+  }));
+
+  const rows = summarizeAttribution(bookings, options.model, options.dimension);
+  if (options.dimension === 'campaign') {
+    const names = await loadCampaignNames(tenantDb, rows);
+    for (const row of rows) {
+      row.label = names.get(row.key) ?? row.label;
+    }
+  }
+
+  const revenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+  const direct = rows.filter(row => row.channel === 'direct').reduce((sum, row) => sum + row.revenue, 0);
+
+  return {
+    ...options,
+    totals: {
+      bookings: bookings.length,
+      paidBookings: bookings.filter(booking => booking.revenue > 0).length,
+      revenue: Math.round(revenue * 100) / 100,
+      attributedRevenue: Math.round((revenue - direct) * 100) / 100,
+    },
+    rows,
+  };
+}
@@ -5,6 +5,7 @@
 
 import { db } from '../db';
 import { bookingInitiationEvents } from '@shared/schema';
+import type { AttributionSource } from '@shared/attribution';
 
 const LOG_PREFIX = '[BOOKING ANALYTICS]';
 
@@ -12,11 +13,12 @@ export interface BookingInitiationParams {
   tenantId: string;
   source: 'chat' | 'site' | 'other';
   context?: Record<string, any>;
+  attributionSource?: AttributionSource | null; // Campaign, referral or referring site behind the visit
 }
 
 export async function logBookingInitiation(params: BookingInitiationParams): Promise<{ success: boolean; id?: number }> {
   try {
-    const { tenantId, source, context = {} } = params;
+    const { tenantId, source, context = {}, attributionSource = null } = params;
     
     console.log(`${LOG_PREFIX} Logging initiation for tenant "${tenantId}" from source "${source}"`);
     
@@ -24,6 +26,7 @@ export async function logBookingInitiation(params: BookingInitiationParams): Pro
       tenantId,
       source,
       context,
+      attributionSource,
     }).returning({ id: bookingInitiationEvents.id });
     
     const insertedId = result[0]?.id;
@@ -4,6 +4,8 @@ import { conversations, customers, services } from '@shared/schema';
 import type { BookingDraft } from '@shared/bookingDraft';
 import { eq } from 'drizzle-orm';
 import { conversationState } from '../conversationState';
+import { loadSmsState, saveSmsState } from './bookingSessionStore';
+import { BOOKING_SESSION_TTL_HOURS } from '@shared/bookingSession';
 import { normalizeTimePreference } from './timePreferenceParser';
 import { resolveServiceFromNaturalText } from './serviceNameResolver';
 import { findOrCreateVehicleCard } from './vehicleCardService';
@@ -84,7 +86,7 @@ export function extractVehicleFromText(text: string): string | undefined {
 }
 
 /**
- * SMS Booking State - persisted in behaviorSettings.smsBookingState
+ * SMS Booking State - persisted in booking_sessions.sms_state
  * Tracks slot offerings and selections to prevent "looping" behavior
  */
 export interface SmsBookingState {
@@ -358,50 +360,22 @@ export function extractSmsBookingStateFromHistory(historyMessages: HistoryMessag
 }
 
 /**
- * Get SMS booking state from conversation's behaviorSettings
+ * Get SMS booking state from the conversation's booking session
  */
 export async function getSmsBookingState(tenantDb: any, conversationId: number): Promise<SmsBookingState> {
-  const [conv] = await tenantDb
-    .select({ behaviorSettings: conversations.behaviorSettings })
-    .from(conversations)
-    .where(eq(conversations.id, conversationId))
-    .limit(1);
-  
-  const settings = conv?.behaviorSettings as Record<string, any> | null;
-  return settings?.smsBookingState || {};
+  return loadSmsState(tenantDb, conversationId);
 }
 
 /**
- * Update SMS booking state in conversation's behaviorSettings
+ * Merge a patch into the conversation's booking session
  */
 export async function updateSmsBookingState(
   tenantDb: any, 
   conversationId: number, 
   patch: Partial<SmsBookingState>
 ): Promise<void> {
-  // Get current settings
-  const [conv] = await tenantDb
-    .select({ behaviorSettings: conversations.behaviorSettings })
-    .from(conversations)
-    .where(eq(conversations.id, conversationId))
-    .limit(1);
-  
-  const currentSettings = (conv?.behaviorSettings as Record<string, any>) || {};
-  const currentState = currentSettings.smsBookingState || {};
-  
-  // Merge patch into current state
-  const newState = { ...currentState, ...patch };
-  
-  // Update with merged settings
-  await tenantDb
-    .update(conversations)
-    .set({
-      behaviorSettings: {
-        ...currentSettings,
-        smsBookingState: newState,
-      },
-    })
-    .where(eq(conversations.id, conversationId));
+  const currentState = await loadSmsState(tenantDb, conversationId);
+  await saveSmsState(tenantDb, conversationId, { ...currentState, ...patch });
 }
 
 /**
@@ -419,7 +393,7 @@ export function getSmsBookingStateSummary(state: SmsBookingState): string {
 }
 
 // Session staleness thresholds
-const SESSION_STALE_HOURS = 24;
+const SESSION_STALE_HOURS = BOOKING_SESSION_TTL_HOURS;
 const ADDRESS_VERIFICATION_HOURS = 24;
 
 /**
@@ -582,10 +556,10 @@ export async function buildBookingDraftFromConversation(
     customer = cust || null;
   }
 
-  // 3) Load conversation state from in-memory state manager
+  // 3) Load the booking session for this customer
   // Use customerPhone from conversation (already in E.164 format)
   const phone = conversation.customerPhone;
-  const state = phone ? conversationState.getState(phone) : null;
+  const state = phone ? await conversationState.load(phone, tenantId) : null;
 
   // 3.1) Vehicle Auto-Create: Detect vehicle from conversation state and create/link vehicle card
   let vehicleSummary: string | null = null;
@@ -0,0 +1,131 @@
+/**
+ * Booking Session Store
+ *
+ * Reads and writes booking_sessions rows: the AI agent's scheduling state
+ * (conversationState) and the SMS flow's SmsBookingState for one customer
+ * phone within one tenant. Rows are upserted on (tenant_id, customer_phone)
+ * and linked to the SMS conversation when there is one.
+ */
+
+import { eq } from 'drizzle-orm';
+import { bookingSessions, conversations, type BookingSession } from '@shared/schema';
+import {
+  BOOKING_SESSION_TTL_HOURS,
+  isBookingSessionExpired,
+  resetSchedulingInfo,
+  reviveSchedulingInfo,
+  type SchedulingInfo,
+} from '@shared/bookingSession';
+import type { TenantDb } from '../tenantDb';
+import type { SmsBookingState } from './bookingDraftService';
+
+function expiresAt(from: Date): Date {
+  return new Date(from.getTime() + BOOKING_SESSION_TTL_HOURS * 60 * 60 * 1000);
+}
+
+async function findSession(tenantDb: TenantDb, phone: string): Promise<BookingSession | undefined> {
+  const [row] = await tenantDb
+    .select()
+    .from(bookingSessions)
+    .where(tenantDb.withTenantFilter(bookingSessions, eq(bookingSessions.customerPhone, phone)))
+    .limit(1);
+  return row;
+}
+
+async function upsertSession(
+  tenantDb: TenantDb,
+  phone: string,
+  values: Partial<Pick<BookingSession, 'conversationId' | 'sessionId' | 'schedulingState' | 'smsState' | 'resetReason' | 'startedAt'>>
+): Promise<void> {
+  const now = new Date();
+  const touched = { ...values, lastActivityAt: now, expiresAt: expiresAt(now), updatedAt: now };
+  await tenantDb
+    .insert(bookingSessions)
+    .values({ customerPhone: phone, ...touched })
+    .onConflictDoUpdate({
+      target: [bookingSessions.tenantId, bookingSessions.customerPhone],
+      set: touched,
+    });
+}
+
+/**
+ * Scheduling state for a phone, or null when there is no session yet.
+ * A session idle past the TTL comes back reset, keeping only who the
+ * customer is.
+ */
+export async function loadSchedulingState(tenantDb: TenantDb, phone: string): Promise<SchedulingInfo | null> {
+  const row = await findSession(tenantDb, phone);
+  if (!row) return null;
+
+  const state = reviveSchedulingInfo(row.schedulingState, phone);
+  if (isBookingSessionExpired(row.lastActivityAt)) {
+    console.log(`[BOOKING SESSION] tenantId=${tenantDb.tenantId} session for ${phone} expired, starting over`);
+    return resetSchedulingInfo(state);
+  }
+  return state;
+}
+
+export async function saveSchedulingState(tenantDb: TenantDb, phone: string, state: SchedulingInfo): Promise<void> {
+  await upsertSession(tenantDb, phone, { schedulingState: state as unknown as Record<string, any> });
+}
+
+export async function clearSchedulingState(tenantDb: TenantDb, phone: string): Promise<void> {
+  await tenantDb
+    .update(bookingSessions)
+    .set({ schedulingState: {}, updatedAt: new Date() })
+    .where(eq(bookingSessions.customerPhone, phone));
+}
+
+async function getConversationPhone(tenantDb: TenantDb, conversationId: number) {
+  const [conv] = await tenantDb
+    .select({ customerPhone: conversations.customerPhone, behaviorSettings: conversations.behaviorSettings })
+    .from(conversations)
+    .where(tenantDb.withTenantFilter(conversations, eq(conversations.id, conversationId)))
+    .limit(1);
+  return conv;
+}
+
+/**
+ * SMS booking state for a conversation. Conversations whose state was
+ * written before booking_sessions existed still have it in
+ * behaviorSettings.smsBookingState; that copy is used until the next write.
+ */
+export async function loadSmsState(tenantDb: TenantDb, conversationId: number): Promise<SmsBookingState> {
+  const [row] = await tenantDb
+    .select({ smsState: bookingSessions.smsState })
+    .from(bookingSessions)
+    .where(tenantDb.withTenantFilter(bookingSessions, eq(bookingSessions.conversationId, conversationId)))
+    .limit(1);
+  if (row && Object.keys(row.smsState).length > 0) {
+    return row.smsState as SmsBookingState;
+  }
+
+  const conv = await getConversationPhone(tenantDb, conversationId);
+  const settings = conv?.behaviorSettings as Record<string, any> | null;
+  return settings?.smsBookingState || {};
+}
+
+export async function saveSmsState(
+  tenantDb: TenantDb,
+  conversationId: number,
+  state: SmsBookingState
+): Promise<void> {
+  const conv = await getConversationPhone(tenantDb, conversationId);
+  if (!conv?.customerPhone) {
+    // No phone to key a session on (e.g. web chat) - keep it on the conversation
+    const currentSettings = (conv?.behaviorSettings as Record<string, any>) || {};
+    await tenantDb
+      .update(conversations)
+      .set({ behaviorSettings: { ...currentSettings, smsBookingState: state } })
+      .where(eq(conversations.id, conversationId));
+    return;
+  }
+
+  await upsertSession(tenantDb, conv.customerPhone, {
+    conversationId,
+    smsState: state as Record<string, any>,
+    sessionId: state.bookingSessionId ?? null,
+    resetReason: state.lastResetReason ?? null,
+    ...(state.bookingSessionStartedAt ? { startedAt: new Date(state.bookingSessionStartedAt) } : {}),
+  });
+}
@@ -0,0 +1,425 @@
+/**
+ * Campaign A/B Test Service
+ *
+ * Ties the pure split/stats logic in shared/campaignExperiments.ts to SMS
+ * and email campaigns:
+ * - When a campaign with variants starts sending, its pending recipients
+ *   are split into test cells (variantId set) and a held-back remainder
+ *   (status 'held').
+ * - The hourly campaign scheduler calls decideDueExperiments(); once the
+ *   test window is over the leading variant's content is copied onto the
+ *   campaign and the held recipients go back to 'pending', so the normal
+ *   send path delivers the winner to them.
+ *
+ * Results per variant are measured from the test cells only: replies
+ * (any inbound message), tracked link clicks, bookings made and opt-outs
+ * recorded within the attribution window after each send.
+ */
+
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import {
+  campaignExperiments,
+  campaignRecipients,
+  campaignVariants,
+  emailCampaigns,
+  smsCampaignRecipients,
+  smsCampaigns,
+  type CampaignExperiment,
+  type CampaignVariant,
+} from '@shared/schema';
+import { and, asc, eq, inArray, lte, sql } from 'drizzle-orm';
+import {
+  VARIANT_LABELS,
+  evaluateExperiment,
+  splitIntoTestCells,
+  type ExperimentEvaluation,
+  type ExperimentMetric,
+  type ExperimentSettings,
+  type VariantCounts,
+} from '@shared/campaignExperiments';
+import { getTenantPublicBaseUrl } from './portRecoveryService';
+import { recordAttributionTouch } from './attributionService';
+import { withAttributionCode } from '@shared/attribution';
+
+export type ExperimentChannel = 'sms' | 'email';
+
+export class CampaignExperimentError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CampaignExperimentError';
+  }
+}
+
+export type VariantContent = { message: string } | { subject: string; content: string };
+
+/**
+ * Attach variants to a freshly created campaign. The first variant is the
+ * campaign's own content (A); the test doesn't start until it sends.
+ */
+export async function createCampaignExperiment(
+  tenantDb: TenantDb,
+  channel: ExperimentChannel,
+  campaignId: number,
+  settings: ExperimentSettings,
+  variants: VariantContent[]
+): Promise<CampaignExperiment> {
+  if (variants.length < 2 || variants.length > VARIANT_LABELS.length) {
+    throw new CampaignExperimentError(`An A/B test needs between 2 and ${VARIANT_LABELS.length} variants`);
+  }
+
+  const [experiment] = (await tenantDb
+    .insert(campaignExperiments)
+    .values({ channel, campaignId, status: 'draft', ...settings })
+    .returning()) as CampaignExperiment[];
+
+  await tenantDb.insert(campaignVariants).values(
+    variants.map((variant, i) => ({
+      experimentId: experiment.id,
+      label: VARIANT_LABELS[i],
+      ...('message' in variant ? { message: variant.message } : { subject: variant.subject, content: variant.content }),
+    }))
+  );
+  return experiment;
+}
+
+async function findExperiment(tenantDb: TenantDb, channel: ExperimentChannel, campaignId: number): Promise<CampaignExperiment | null> {
+  const [experiment] = await tenantDb
+    .select()
+    .from(campaignExperiments)
+    .where(tenantDb.withTenantFilter(campaignExperiments, and(
+      eq(campaignExperiments.channel, channel),
+      eq(campaignExperiments.campaignId, campaignId)
+    )))
+    .limit(1);
+  return experiment ?? null;
+}
+
+async function loadVariants(tenantDb: TenantDb, experimentId: number): Promise<CampaignVariant[]> {
+  return tenantDb
+    .select()
+    .from(campaignVariants)
+    .where(tenantDb.withTenantFilter(campaignVariants, eq(campaignVariants.experimentId, experimentId)))
+    .orderBy(asc(campaignVariants.label));
+}
+
+export async function getCampaignVariant(tenantDb: TenantDb, variantId: number): Promise<CampaignVariant | null> {
+  const [variant] = await tenantDb
+    .select()
+    .from(campaignVariants)
+    .where(tenantDb.withTenantFilter(campaignVariants, eq(campaignVariants.id, variantId)))
+    .limit(1);
+  return variant ?? null;
+}
+
+/**
+ * Split the campaign's pending recipients into test cells and a held-back
+ * remainder. Called at the start of every processing pass; only the first
+ * call for a draft experiment does anything.
+ */
+export async function startCampaignExperiment(
+  tenantDb: TenantDb,
+  channel: ExperimentChannel,
+  campaignId: number,
+  now: Date = new Date()
+): Promise<void> {
+  const experiment = await findExperiment(tenantDb, channel, campaignId);
+  if (!experiment || experiment.status !== 'draft') return;
+
+  const variants = await loadVariants(tenantDb, experiment.id);
+  const recipientTable = channel === 'sms' ? smsCampaignRecipients : campaignRecipients;
+  const pending = await tenantDb
+    .select({ id: recipientTable.id })
+    .from(recipientTable)
+    .where(tenantDb.withTenantFilter(recipientTable, and(
+      eq(recipientTable.campaignId, campaignId),
+      eq(recipientTable.status, 'pending')
+    )));
+
+  const { cells, holdout } = splitIntoTestCells(pending.map(row => row.id), variants.length, experiment.samplePercent);
+
+  for (let i = 0; i < cells.length; i++) {
+    if (cells[i].length === 0) continue;
+    await tenantDb
+      .update(recipientTable)
+      .set({ variantId: variants[i].id })
+      .where(tenantDb.withTenantFilter(recipientTable, inArray(recipientTable.id, cells[i])));
+  }
+  if (holdout.length > 0) {
+    await tenantDb
+      .update(recipientTable)
+      .set({ status: 'held' })
+      .where(tenantDb.withTenantFilter(recipientTable, inArray(recipientTable.id, holdout)));
+  }
+
+  await tenantDb
+    .update(campaignExperiments)
+    .set({
+      status: 'testing',
+      testStartedAt: now,
+      decideAt: new Date(now.getTime() + experiment.decideAfterHours * 60 * 60 * 1000),
+    })
+    .where(tenantDb.withTenantFilter(campaignExperiments, eq(campaignExperiments.id, experiment.id)));
+
+  console.log(
+    `[CAMPAIGN AB] ${channel} campaign ${campaignId}: ${cells.map((cell, i) => `${variants[i].label}=${cell.length}`).join(' ')} held=${holdout.length}`
+  );
+}
+
+/**
+ * Per-variant counts for the test cells
+ */
+async function measureVariants(
+  tenantDb: TenantDb,
+  experiment: CampaignExperiment,
+  variants: CampaignVariant[]
+): Promise<VariantCounts[]> {
+  const days = experiment.attributionDays;
+  const sms = experiment.channel === 'sms';
+  const recipientTable = sql.raw(sms ? 'sms_campaign_recipients' : 'campaign_recipients');
+  const optOutMatch = sms
+    ? sql`e.channel = 'sms' AND (e.customer_id = r.customer_id OR e.phone = r.phone_number)`
+    : sql`e.channel = 'email' AND (e.customer_id = r.customer_id OR lower(e.email) = lower(r.email))`;
+  // Spam complaints count as opt-outs for email
+  const complained = sms ? sql`false` : sql`r.complained_at IS NOT NULL`;
+
+  const result = await tenantDb.execute(sql`
+    SELECT
+      r.variant_id,
+      COUNT(*)::int AS recipients,
+      COUNT(*) FILTER (WHERE EXISTS (
+        SELECT 1 FROM messages m
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE c.tenant_id = r.tenant_id AND c.customer_id = r.customer_id
+          AND m.from_customer = true
+          AND m.timestamp >= r.sent_at AND m.timestamp < r.sent_at + make_interval(days => ${days}::int)
+      ))::int AS replies,
+      COUNT(*) FILTER (WHERE r.clicked_at IS NOT NULL)::int AS clicks,
+      COUNT(*) FILTER (WHERE EXISTS (
+        SELECT 1 FROM appointments a
+        WHERE a.tenant_id = r.tenant_id AND a.customer_id = r.customer_id
+          AND a.status IS DISTINCT FROM 'cancelled'
+          AND a.created_at >= r.sent_at AND a.created_at < r.sent_at + make_interval(days => ${days}::int)
+      ))::int AS bookings,
+      COUNT(*) FILTER (WHERE ${complained} OR EXISTS (
+        SELECT 1 FROM consent_events e
+        WHERE e.tenant_id = r.tenant_id AND e.granted = false AND ${optOutMatch}
+          AND e.recorded_at >= r.sent_at AND e.recorded_at < r.sent_at + make_interval(days => ${days}::int)
+      ))::int AS opt_outs
+    FROM ${recipientTable} r
+    WHERE r.tenant_id = ${tenantDb.tenantId}
+      AND r.campaign_id = ${experiment.campaignId}
+      AND r.variant_id IS NOT NULL
+      AND r.sent_at IS NOT NULL
+    GROUP BY r.variant_id
+  `);
+
+  const rows = new Map((result.rows as any[]).map(row => [Number(row.variant_id), row]));
+  return variants.map(variant => {
+    const row = rows.get(variant.id);
+    return {
+      variantId: variant.id,
+      label: variant.label,
+      recipients: Number(row?.recipients ?? 0),
+      replies: Number(row?.replies ?? 0),
+      clicks: Number(row?.clicks ?? 0),
+      bookings: Number(row?.bookings ?? 0),
+      optOuts: Number(row?.opt_outs ?? 0),
+    };
+  });
+}
+
+async function countHeld(tenantDb: TenantDb, channel: ExperimentChannel, campaignId: number): Promise<number> {
+  const recipientTable = channel === 'sms' ? smsCampaignRecipients : campaignRecipients;
+  const [row] = await tenantDb
+    .select({ count: sql<number>`count(*)::int` })
+    .from(recipientTable)
+    .where(tenantDb.withTenantFilter(recipientTable, and(
+      eq(recipientTable.campaignId, campaignId),
+      eq(recipientTable.status, 'held')
+    )));
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Pick the winner and send it to the held-back recipients. With nothing
+ * held back (100% sample) this only records the result.
+ */
+export async function decideCampaignExperiment(
+  tenantDb: TenantDb,
+  experiment: CampaignExperiment,
+  now: Date = new Date()
+): Promise<CampaignExperiment> {
+  if (experiment.status !== 'testing') {
+    throw new CampaignExperimentError('Only a running test can pick a winner', 409);
+  }
+
+  const variants = await loadVariants(tenantDb, experiment.id);
+  const counts = await measureVariants(tenantDb, experiment, variants);
+  const evaluation = evaluateExperiment(counts, experiment.winnerMetric as ExperimentMetric);
+  const winner = variants.find(variant => variant.id === evaluation.leaderId) ?? variants[0];
+
+  const campaignTable = experiment.channel === 'sms' ? smsCampaigns : emailCampaigns;
+  const [campaign] = await tenantDb
+    .select({ status: campaignTable.status })
+    .from(campaignTable)
+    .where(tenantDb.withTenantFilter(campaignTable, eq(campaignTable.id, experiment.campaignId)))
+    .limit(1);
+  const cancelled = !campaign || campaign.status === 'cancelled';
+
+  const changes = {
+    status: cancelled ? 'cancelled' : 'complete',
+    decidedAt: now,
+    winnerVariantId: winner.id,
+    winnerSignificant: evaluation.significant,
+    results: { counts, evaluation },
+  };
+  await tenantDb
+    .update(campaignExperiments)
+    .set(changes)
+    .where(tenantDb.withTenantFilter(campaignExperiments, eq(campaignExperiments.id, experiment.id)));
+  if (cancelled) return { ...experiment, ...changes };
+
+  // Remainder recipients have no variant, so they get the campaign's own content
+  if (experiment.channel === 'sms') {
+    await tenantDb
+      .update(smsCampaigns)
+      .set({ message: winner.message! })
+      .where(tenantDb.withTenantFilter(smsCampaigns, eq(smsCampaigns.id, experiment.campaignId)));
+  } else {
+    await tenantDb
+      .update(emailCampaigns)
+      .set({ subject: winner.subject!, content: winner.content! })
+      .where(tenantDb.withTenantFilter(emailCampaigns, eq(emailCampaigns.id, experiment.campaignId)));
+  }
+
+  const recipientTable = experiment.channel === 'sms' ? smsCampaignRecipients : campaignRecipients;
+  const released = await tenantDb
+    .update(recipientTable)
+    .set({ status: 'pending' })
+    .where(tenantDb.withTenantFilter(recipientTable, and(
+      eq(recipientTable.campaignId, experiment.campaignId),
+      eq(recipientTable.status, 'held')
+    )))
+    .returning({ id: recipientTable.id });
+
+  // The SMS processor only picks up scheduled campaigns
+  if (released.length > 0 && experiment.channel === 'sms') {
+    await tenantDb
+      .update(smsCampaigns)
+      .set({ status: 'scheduled', scheduledDate: now })
+      .where(tenantDb.withTenantFilter(smsCampaigns, eq(smsCampaigns.id, experiment.campaignId)));
+  }
+
+  console.log(
+    `[CAMPAIGN AB] ${experiment.channel} campaign ${experiment.campaignId}: variant ${winner.label} wins on ` +
+    `${experiment.winnerMetric}${evaluation.significant ? '' : ' (not significant)'}, sending to ${released.length} held recipients`
+  );
+  return { ...experiment, ...changes };
+}
+
+export async function decideCampaignExperimentNow(
+  tenantDb: TenantDb,
+  channel: ExperimentChannel,
+  campaignId: number
+): Promise<CampaignExperiment> {
+  const experiment = await findExperiment(tenantDb, channel, campaignId);
+  if (!experiment) {
+    throw new CampaignExperimentError('This campaign has no A/B test', 404);
+  }
+  return decideCampaignExperiment(tenantDb, experiment);
+}
+
+/**
+ * Called by the hourly campaign scheduler before campaigns are processed
+ */
+export async function decideDueExperiments(tenantDb: TenantDb, now: Date = new Date()): Promise<void> {
+  const due = await tenantDb
+    .select()
+    .from(campaignExperiments)
+    .where(tenantDb.withTenantFilter(campaignExperiments, and(
+      eq(campaignExperiments.status, 'testing'),
+      lte(campaignExperiments.decideAt, now)
+    )));
+
+  for (const experiment of due) {
+    try {
+      await decideCampaignExperiment(tenantDb, experiment, now);
+    } catch (error) {
+      console.error(`[CAMPAIGN AB] Failed to decide experiment ${experiment.id}:`, error);
+    }
+  }
+}
+
+export interface ExperimentReport {
+  experiment: CampaignExperiment;
+  variants: Array<Pick<CampaignVariant, 'id' | 'label' | 'message' | 'subject'> & VariantCounts>;
+  evaluation: ExperimentEvaluation;
+  heldCount: number;
+}
+
+/**
+ * Live results for the analytics view. Counts keep moving until the
+ * attribution window closes, so this is measured on every request rather
+ * than read from the decision snapshot.
+ */
+export async function getExperimentReport(
+  tenantDb: TenantDb,
+  channel: ExperimentChannel,
+  campaignId: number
+): Promise<ExperimentReport | null> {
+  const experiment = await findExperiment(tenantDb, channel, campaignId);
+  if (!experiment) return null;
+
+  const variants = await loadVariants(tenantDb, experiment.id);
+  const [counts, heldCount] = await Promise.all([
+    measureVariants(tenantDb, experiment, variants),
+    countHeld(tenantDb, channel, campaignId),
+  ]);
+
+  return {
+    experiment,
+    variants: variants.map((variant, i) => ({
+      ...counts[i],
+      id: variant.id,
+      message: variant.message,
+      subject: variant.subject,
+    })),
+    evaluation: evaluateExperiment(counts, experiment.winnerMetric as ExperimentMetric),
+    heldCount,
+  };
+}
+
+/**
+ * Record a click on a campaign SMS tracked link. The link is public, so the
+ * token is looked up across tenants. Returns where to send the visitor.
+ */
+export async function recordSmsCampaignClick(token: string, now: Date = new Date()): Promise<string | null> {
+  const [recipient] = await db
+    .select({
+      id: smsCampaignRecipients.id,
+      tenantId: smsCampaignRecipients.tenantId,
+      campaignId: smsCampaignRecipients.campaignId,
+      customerId: smsCampaignRecipients.customerId,
+      clickedAt: smsCampaignRecipients.clickedAt,
+    })
+    .from(smsCampaignRecipients)
+    .where(eq(smsCampaignRecipients.clickToken, token))
+    .limit(1);
+  if (!recipient) return null;
+
+  const tenantDb = wrapTenantDb(db, recipient.tenantId);
+  if (!recipient.clickedAt) {
+    await tenantDb
+      .update(smsCampaignRecipients)
+      .set({ clickedAt: now })
+      .where(tenantDb.withTenantFilter(smsCampaignRecipients, eq(smsCampaignRecipients.id, recipient.id)));
+  }
+
+  const source = { channel: 'sms_campaign' as const, campaignId: recipient.campaignId };
+  if (recipient.customerId) {
+    await recordAttributionTouch(tenantDb, recipient.customerId, source, { touchedAt: now });
+  }
+
+  return withAttributionCode(`${await getTenantPublicBaseUrl(recipient.tenantId)}/book`, source);
+}
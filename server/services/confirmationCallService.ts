@@ -0,0 +1,453 @@
+/**
+ * Appointment Confirmation Call Service
+ *
+ * Places short automated calls to customers whose appointment is still
+ * pending close to its start time, for tenants that turn this on. The
+ * caller presses (or says) 1 to confirm, 2 to reschedule or 3 to talk to
+ * someone; the answer updates the appointment and is logged on the
+ * callEvents row for the call.
+ *
+ * Calls go through the same consent ledger (voice / reminders) and quiet
+ * hours as automated texts. A call that would land in the customer's quiet
+ * hours is simply left for a later pass.
+ *
+ * Gated by PLATFORM_BG_JOBS_ENABLED env var
+ */
+
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import { appointments, callEvents, customers, services, tenantConfig } from '@shared/schema';
+import { and, eq, gte, inArray, isNull, like, lte, or } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  CONFIRMATION_CALL_MIN_LEAD_MS,
+  CONFIRMATION_CALL_OUTCOMES,
+  CONFIRMATION_CALL_PURPOSE,
+  CONFIRMATION_CALL_SEND_PURPOSE,
+  DEFAULT_CONFIRMATION_CALL_LEAD_HOURS,
+  isDueForConfirmationCall,
+  type ConfirmationCallChoice,
+  type ConfirmationCallScript,
+  type ConfirmationCallSettings,
+} from '@shared/confirmationCall';
+import { inferRecipientTimezone, isWithinQuietHours } from '@shared/sendWindow';
+import { logCallEvent, updateCallEvent } from '../callLoggingService';
+import { getTenantTimezone } from '../timezoneUtils';
+import { getTenantVoiceConfig } from './voiceConfigService';
+import { checkConsentForSend } from './consentLedgerService';
+import { enqueueOutbound, loadDispatchPolicy } from './outboundDispatchService';
+import { sendPushToAllUsers } from '../pushNotificationService';
+
+let twilioClient: any = null;
+
+async function getTwilioClient() {
+  if (!twilioClient) {
+    const twilio = (await import('twilio')).default;
+    twilioClient = twilio(
+      process.env.TWILIO_ACCOUNT_SID,
+      process.env.TWILIO_AUTH_TOKEN
+    );
+  }
+  return twilioClient;
+}
+
+function getBaseUrl(): string {
+  return process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : process.env.PUBLIC_URL || 'https://cleanmachine.app';
+}
+
+// callEvents.callSid is required, so a call is logged under a placeholder until Twilio assigns its sid
+const PENDING_CALL_SID_PREFIX = 'pending-';
+
+function formatAppointmentTime(scheduledTime: Date, timezone: string): string {
+  return formatInTimeZone(scheduledTime, timezone, "EEEE, MMMM d 'at' h:mm a");
+}
+
+/**
+ * Tenant on/off switch and lead time, shown on the phone settings page
+ */
+export async function getConfirmationCallSettings(tenantId: string): Promise<ConfirmationCallSettings> {
+  const [config] = await db
+    .select({
+      enabled: tenantConfig.confirmationCallsEnabled,
+      leadHours: tenantConfig.confirmationCallLeadHours,
+    })
+    .from(tenantConfig)
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .limit(1);
+
+  return {
+    enabled: config?.enabled ?? false,
+    leadHours: config?.leadHours ?? DEFAULT_CONFIRMATION_CALL_LEAD_HOURS,
+  };
+}
+
+export async function updateConfirmationCallSettings(
+  tenantId: string,
+  input: ConfirmationCallSettings
+): Promise<ConfirmationCallSettings | null> {
+  const rows = await db
+    .update(tenantConfig)
+    .set({
+      confirmationCallsEnabled: input.enabled,
+      confirmationCallLeadHours: input.leadHours,
+      updatedAt: new Date(),
+    })
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .returning({ tenantId: tenantConfig.tenantId });
+
+  if (rows.length === 0) return null;
+  console.log(`[CONFIRMATION CALL] tenantId=${tenantId} enabled=${input.enabled} leadHours=${input.leadHours}`);
+  return getConfirmationCallSettings(tenantId);
+}
+
+export interface ConfirmationCallContext {
+  tenantId: string;
+  appointmentId: number;
+  customerId: number;
+  customerPhone: string;
+  customerAddress: string | null;
+  script: ConfirmationCallScript;
+  businessLine: string | null;
+  forwardingNumber: string | null;
+}
+
+/**
+ * Everything the webhook needs to script a confirmation call, looked up
+ * from the callEvents row logged when the call was placed. Null when the
+ * call isn't a confirmation call (or its appointment is gone).
+ */
+export async function getConfirmationCallContext(
+  tenantId: string,
+  callSid: string
+): Promise<ConfirmationCallContext | null> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+
+  const [row] = await tenantDb
+    .select({
+      appointmentId: appointments.id,
+      scheduledTime: appointments.scheduledTime,
+      address: appointments.address,
+      customerId: customers.id,
+      customerPhone: customers.phone,
+      serviceName: services.name,
+      callTo: callEvents.to,
+    })
+    .from(callEvents)
+    .innerJoin(appointments, eq(callEvents.appointmentId, appointments.id))
+    .innerJoin(customers, eq(appointments.customerId, customers.id))
+    .leftJoin(services, eq(appointments.serviceId, services.id))
+    .where(
+      tenantDb.withTenantFilter(
+        callEvents,
+        and(eq(callEvents.callSid, callSid), eq(callEvents.purpose, CONFIRMATION_CALL_PURPOSE))
+      )
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const [config] = await db
+    .select({ businessName: tenantConfig.businessName })
+    .from(tenantConfig)
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .limit(1);
+  const voiceConfig = await getTenantVoiceConfig(tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+
+  return {
+    tenantId,
+    appointmentId: row.appointmentId,
+    customerId: row.customerId,
+    customerPhone: row.customerPhone || row.callTo,
+    customerAddress: row.address,
+    script: {
+      businessName: config?.businessName || 'our team',
+      serviceName: row.serviceName || 'service',
+      appointmentTime: formatAppointmentTime(row.scheduledTime, timezone),
+    },
+    businessLine: voiceConfig?.phoneNumber || null,
+    forwardingNumber: voiceConfig?.forwardingNumber || null,
+  };
+}
+
+/**
+ * Apply the caller's answer. Confirm moves the appointment out of pending;
+ * reschedule texts the customer so the SMS agent can find a new slot (the
+ * appointment stays pending until it's moved); transfer is dialed by the
+ * webhook, or flagged to staff for a call back when there's no one to dial.
+ */
+export async function recordConfirmationChoice(
+  context: ConfirmationCallContext,
+  callSid: string,
+  choice: ConfirmationCallChoice
+): Promise<void> {
+  const tenantDb = wrapTenantDb(db, context.tenantId);
+
+  await updateCallEvent(tenantDb, callSid, { outcome: CONFIRMATION_CALL_OUTCOMES[choice] });
+
+  if (choice === 'confirm') {
+    // Only a still-pending appointment is confirmed; staff may have moved it on meanwhile
+    await tenantDb
+      .update(appointments)
+      .set({ status: 'confirmed', statusUpdatedAt: new Date() })
+      .where(
+        tenantDb.withTenantFilter(
+          appointments,
+          and(
+            eq(appointments.id, context.appointmentId),
+            or(isNull(appointments.status), eq(appointments.status, 'pending'))
+          )
+        )
+      );
+    console.log(`[CONFIRMATION CALL] Appointment ${context.appointmentId} confirmed by phone (${callSid})`);
+    return;
+  }
+
+  if (choice === 'reschedule') {
+    await enqueueOutbound(tenantDb, {
+      channel: 'sms',
+      purpose: CONFIRMATION_CALL_SEND_PURPOSE,
+      to: context.customerPhone,
+      body: `Hi from ${context.script.businessName}! You asked to reschedule your ${context.script.serviceName} on ${context.script.appointmentTime}. ` +
+        'Reply with a day and time that works better and we\'ll get you moved.',
+      customerId: context.customerId,
+      recipientAddress: context.customerAddress,
+      sourceType: 'confirmation_call',
+      sourceId: context.appointmentId,
+      dedupeKey: `confirmation_call_reschedule:${callSid}`,
+    });
+    console.log(`[CONFIRMATION CALL] Reschedule requested for appointment ${context.appointmentId} (${callSid})`);
+    return;
+  }
+
+  if (!context.forwardingNumber) {
+    await sendPushToAllUsers({
+      title: '📞 Call Back Requested',
+      body: `${context.customerPhone} wants to talk about their ${context.script.serviceName} on ${context.script.appointmentTime}`,
+      tag: `confirmation-callback-${callSid}`,
+      requireInteraction: true,
+      data: {
+        type: 'confirmation_callback',
+        callerPhone: context.customerPhone,
+        appointmentId: context.appointmentId,
+        callSid,
+      },
+    });
+  }
+  console.log(`[CONFIRMATION CALL] Transfer requested for appointment ${context.appointmentId} (${callSid})`);
+}
+
+/**
+ * Put Twilio's CallSid on the callEvents row logged before the call was
+ * placed. Twilio can post the first status callback before calls.create()
+ * returns, so the webhooks call this too, with the row id from their URL.
+ */
+export async function attachConfirmationCallSid(
+  tenantId: string,
+  callEventId: number,
+  callSid: string
+): Promise<void> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+  await tenantDb
+    .update(callEvents)
+    .set({ callSid })
+    .where(
+      tenantDb.withTenantFilter(
+        callEvents,
+        and(eq(callEvents.id, callEventId), like(callEvents.callSid, `${PENDING_CALL_SID_PREFIX}%`))
+      )
+    );
+}
+
+interface ConfirmationCallCandidate {
+  id: number;
+  customerId: number;
+  scheduledTime: Date;
+  status: string | null;
+  address: string;
+  phone: string | null;
+}
+
+async function findCandidates(
+  tenantDb: TenantDb,
+  now: Date,
+  leadHours: number
+): Promise<ConfirmationCallCandidate[]> {
+  return tenantDb
+    .select({
+      id: appointments.id,
+      customerId: appointments.customerId,
+      scheduledTime: appointments.scheduledTime,
+      status: appointments.status,
+      address: appointments.address,
+      phone: customers.phone,
+    })
+    .from(appointments)
+    .innerJoin(customers, eq(appointments.customerId, customers.id))
+    .where(
+      tenantDb.withTenantFilter(
+        appointments,
+        and(
+          or(isNull(appointments.status), eq(appointments.status, 'pending')),
+          gte(appointments.scheduledTime, new Date(now.getTime() + CONFIRMATION_CALL_MIN_LEAD_MS)),
+          lte(appointments.scheduledTime, new Date(now.getTime() + leadHours * 60 * 60 * 1000))
+        )
+      )
+    );
+}
+
+/**
+ * One pass over every tenant with confirmation calls enabled
+ */
+export async function runConfirmationCalls(now: Date = new Date()): Promise<void> {
+  if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
+    console.warn('[CONFIRMATION CALL] Twilio credentials not configured, skipping');
+    return;
+  }
+
+  const enabledTenants = await db
+    .select({ tenantId: tenantConfig.tenantId, leadHours: tenantConfig.confirmationCallLeadHours })
+    .from(tenantConfig)
+    .where(eq(tenantConfig.confirmationCallsEnabled, true));
+
+  let placed = 0;
+  let skippedConsent = 0;
+  let skippedQuietHours = 0;
+
+  for (const { tenantId, leadHours } of enabledTenants) {
+    try {
+      const voiceConfig = await getTenantVoiceConfig(tenantId);
+      if (!voiceConfig?.phoneNumber || !voiceConfig.voiceEnabled) {
+        console.log(`[CONFIRMATION CALL] Tenant ${tenantId} has no voice line, skipping`);
+        continue;
+      }
+
+      const tenantDb = wrapTenantDb(db, tenantId);
+      const lead = leadHours ?? DEFAULT_CONFIRMATION_CALL_LEAD_HOURS;
+      const candidates = await findCandidates(tenantDb, now, lead);
+      if (candidates.length === 0) continue;
+
+      const attempts = await tenantDb
+        .select({
+          appointmentId: callEvents.appointmentId,
+          createdAt: callEvents.createdAt,
+          status: callEvents.status,
+          outcome: callEvents.outcome,
+        })
+        .from(callEvents)
+        .where(
+          tenantDb.withTenantFilter(
+            callEvents,
+            and(
+              eq(callEvents.purpose, CONFIRMATION_CALL_PURPOSE),
+              inArray(callEvents.appointmentId, candidates.map((c) => c.id))
+            )
+          )
+        );
+
+      const tenantTimezone = await getTenantTimezone(tenantDb);
+      const { quietHours } = await loadDispatchPolicy(tenantId);
+      const client = await getTwilioClient();
+      const baseUrl = getBaseUrl();
+
+      for (const appointment of candidates) {
+        const previous = attempts.filter((attempt) => attempt.appointmentId === appointment.id);
+        if (!appointment.phone || !isDueForConfirmationCall(appointment, previous, now, lead)) continue;
+
+        const consent = await checkConsentForSend(
+          tenantDb,
+          { customerId: appointment.customerId, phone: appointment.phone },
+          'voice',
+          CONFIRMATION_CALL_SEND_PURPOSE
+        );
+        if (!consent.allowed) {
+          skippedConsent++;
+          continue;
+        }
+
+        const recipientTimezone = inferRecipientTimezone(
+          { address: appointment.address, phone: appointment.phone },
+          tenantTimezone
+        );
+        if (isWithinQuietHours(now, recipientTimezone, quietHours)) {
+          skippedQuietHours++;
+          continue;
+        }
+
+        let callEventId: number | null = null;
+        try {
+          // Log first so the webhooks can find the call from the moment Twilio places it
+          callEventId = await logCallEvent(tenantDb, {
+            callSid: `${PENDING_CALL_SID_PREFIX}${tenantId}-${appointment.id}-${now.getTime()}`,
+            direction: 'outbound',
+            from: voiceConfig.phoneNumber,
+            to: appointment.phone,
+            status: 'queued',
+            appointmentId: appointment.id,
+            purpose: CONFIRMATION_CALL_PURPOSE,
+          });
+
+          const callRef = `tenantId=${encodeURIComponent(tenantId)}&callEventId=${callEventId}`;
+          const call = await client.calls.create({
+            to: appointment.phone,
+            from: voiceConfig.phoneNumber,
+            url: `${baseUrl}/twilio/voice/confirmation-call?${callRef}`,
+            machineDetection: 'DetectMessageEnd',
+            statusCallback: `${baseUrl}/twilio/voice/confirmation-call/status?${callRef}`,
+            statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+            statusCallbackMethod: 'POST',
+          });
+
+          await attachConfirmationCallSid(tenantId, callEventId, call.sid);
+          placed++;
+        } catch (error) {
+          console.error(`[CONFIRMATION CALL] Failed to call for appointment ${appointment.id}:`, error);
+          if (callEventId) {
+            // Keep the row so the failed attempt still counts towards the retry limit
+            await tenantDb
+              .update(callEvents)
+              .set({ status: 'failed' })
+              .where(tenantDb.withTenantFilter(callEvents, eq(callEvents.id, callEventId)))
+              .catch(() => undefined);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[CONFIRMATION CALL] Error processing tenant ${tenantId}:`, error);
+    }
+  }
+
+  console.log(
+    `[CONFIRMATION CALL] tenants=${enabledTenants.length} placed=${placed} ` +
+    `skipped_consent=${skippedConsent} skipped_quiet_hours=${skippedQuietHours}`
+  );
+}
+
+export function startConfirmationCallCron(): void {
+  // STRICT: Only run if explicitly enabled (matches quiet mode contract)
+  if (process.env.PLATFORM_BG_JOBS_ENABLED !== '1') {
+    console.log('[CONFIRMATION CALL] Disabled (PLATFORM_BG_JOBS_ENABLED !== 1)');
+    return;
+  }
+
+  // Hourly keeps calls within an hour of the lead window without piling up retries
+  const intervalMs = 60 * 60 * 1000;
+
+  console.log('[CONFIRMATION CALL] Starting hourly confirmation calls');
+
+  setInterval(async () => {
+    try {
+      await runConfirmationCalls();
+    } catch (error) {
+      console.error('[CONFIRMATION CALL] Error in cron:', error);
+    }
+  }, intervalMs);
+
+  setTimeout(() => {
+    runConfirmationCalls().catch((err) => {
+      console.error('[CONFIRMATION CALL] Error in initial run:', err);
+    });
+  }, 45000);
+}
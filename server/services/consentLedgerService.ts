@@ -0,0 +1,230 @@
+/**
+ * Consent Ledger Service
+ *
+ * Records consent grants/revocations per channel and purpose, and answers
+ * "may we send this?" before SMS, email, push or voice goes out. Rows are
+ * never updated or deleted - the latest row for a channel + purpose pair is
+ * the current state, and the full history is exportable for TCPA audits.
+ *
+ * customers.smsConsent is kept in sync with the SMS marketing state so older
+ * code paths that still read the flag see the same answer.
+ */
+
+import type { TenantDb } from '../tenantDb';
+import { consentEvents, customers, type ConsentEvent } from '@shared/schema';
+import { and, asc, eq, or, type SQL } from 'drizzle-orm';
+import {
+  CONSENT_PURPOSES,
+  consentPurposeForSend,
+  resolveConsentDecision,
+  summarizeConsent,
+  type ConsentChannel,
+  type ConsentDecision,
+  type ConsentPurpose,
+  type ConsentSource,
+} from '@shared/consentLedger';
+
+export interface RecordConsentParams {
+  customerId?: number | null;
+  phone?: string | null;
+  email?: string | null;
+  channel: ConsentChannel;
+  purposes: ConsentPurpose[] | 'all';
+  granted: boolean;
+  source: ConsentSource;
+  evidence?: Record<string, unknown> | null;
+  recordedBy?: number | null;
+}
+
+export interface ConsentSubject {
+  customerId?: number | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Normalize phone to E.164 format so ledger rows match customer records
+ */
+function normalizeE164(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  const cleaned = phone.trim().replace(/[\s\-()]/g, '');
+  if (!cleaned) return null;
+
+  if (cleaned.startsWith('+')) {
+    return /^\+[1-9]\d{1,14}$/.test(cleaned) ? cleaned : null;
+  }
+
+  const digits = cleaned.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+function normalizeEmail(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed ? trimmed : null;
+}
+
+async function findCustomer(tenantDb: TenantDb, subject: ConsentSubject) {
+  // An explicit customer id wins over phone/email, which may be shared
+  const conditions: SQL[] = [];
+  if (subject.customerId) {
+    conditions.push(eq(customers.id, subject.customerId));
+  }
+  const phone = subject.customerId ? null : normalizeE164(subject.phone);
+  if (phone) conditions.push(eq(customers.phone, phone));
+  const email = subject.customerId ? null : normalizeEmail(subject.email);
+  if (email) conditions.push(eq(customers.email, email));
+  if (conditions.length === 0) return null;
+
+  const [customer] = await tenantDb
+    .select({
+      id: customers.id,
+      phone: customers.phone,
+      email: customers.email,
+      smsConsent: customers.smsConsent,
+    })
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, or(...conditions)))
+    .limit(1);
+
+  return customer ?? null;
+}
+
+/**
+ * Ledger rows for a subject: anything recorded against the customer id, or
+ * against their phone/email before a customer record existed.
+ */
+async function loadEvents(
+  tenantDb: TenantDb,
+  subject: ConsentSubject,
+  channel?: ConsentChannel
+): Promise<ConsentEvent[]> {
+  const conditions: SQL[] = [];
+  if (subject.customerId) conditions.push(eq(consentEvents.customerId, subject.customerId));
+  const phone = normalizeE164(subject.phone);
+  if (phone) conditions.push(eq(consentEvents.phone, phone));
+  const email = normalizeEmail(subject.email);
+  if (email) conditions.push(eq(consentEvents.email, email));
+  if (conditions.length === 0) return [];
+
+  const match = or(...conditions)!;
+  return tenantDb
+    .select()
+    .from(consentEvents)
+    .where(tenantDb.withTenantFilter(
+      consentEvents,
+      channel ? and(match, eq(consentEvents.channel, channel)) : match
+    ))
+    .orderBy(asc(consentEvents.recordedAt), asc(consentEvents.id));
+}
+
+/**
+ * Append consent events (one per purpose) to the ledger
+ */
+export async function recordConsent(
+  tenantDb: TenantDb,
+  params: RecordConsentParams
+): Promise<ConsentEvent[]> {
+  const phone = normalizeE164(params.phone);
+  const email = normalizeEmail(params.email);
+  const customer = await findCustomer(tenantDb, { customerId: params.customerId, phone, email });
+  const purposes = params.purposes === 'all' ? [...CONSENT_PURPOSES] : params.purposes;
+  const recordedAt = new Date();
+
+  if (purposes.length === 0) return [];
+
+  const rows = await tenantDb
+    .insert(consentEvents)
+    .values(purposes.map(purpose => ({
+      customerId: customer?.id ?? params.customerId ?? null,
+      phone: phone ?? normalizeE164(customer?.phone) ?? null,
+      email: email ?? normalizeEmail(customer?.email) ?? null,
+      channel: params.channel,
+      purpose,
+      granted: params.granted,
+      source: params.source,
+      evidence: params.evidence ?? null,
+      recordedBy: params.recordedBy ?? null,
+      recordedAt,
+    })))
+    .returning();
+
+  if (customer && params.channel === 'sms' && purposes.includes('marketing')) {
+    await tenantDb
+      .update(customers)
+      .set({ smsConsent: params.granted, smsConsentTimestamp: recordedAt })
+      .where(tenantDb.withTenantFilter(customers, eq(customers.id, customer.id)));
+  }
+
+  console.log(
+    `[CONSENT LEDGER] tenantId=${tenantDb.tenantId} customer=${customer?.id ?? 'none'} channel=${params.channel} ` +
+    `purposes=${purposes.join('|')} granted=${params.granted} source=${params.source}`
+  );
+
+  return rows as ConsentEvent[];
+}
+
+/**
+ * Decide whether a message may go out. Non-transactional checks fail closed
+ * if the ledger cannot be read; transactional checks fail open so a database
+ * hiccup never blocks a booking confirmation.
+ */
+export async function checkConsent(
+  tenantDb: TenantDb,
+  subject: ConsentSubject,
+  channel: ConsentChannel,
+  purpose: ConsentPurpose
+): Promise<ConsentDecision> {
+  try {
+    const customer = await findCustomer(tenantDb, subject);
+    const events = await loadEvents(tenantDb, {
+      customerId: customer?.id ?? subject.customerId,
+      phone: subject.phone ?? customer?.phone,
+      email: subject.email ?? customer?.email,
+    }, channel);
+    return resolveConsentDecision(events, channel, purpose, { smsConsent: customer?.smsConsent ?? null });
+  } catch (error: any) {
+    console.error(`[CONSENT LEDGER] Consent check failed (${channel}/${purpose}): ${error.message}`);
+    return purpose === 'transactional'
+      ? { allowed: true, reason: 'implied_transactional', decidedBy: null }
+      : { allowed: false, reason: 'no_consent', decidedBy: null };
+  }
+}
+
+/**
+ * Consent check keyed by an outbound send purpose (e.g. 'sms_campaign').
+ * Staff/admin/test traffic is always allowed.
+ */
+export async function checkConsentForSend(
+  tenantDb: TenantDb,
+  subject: ConsentSubject,
+  channel: ConsentChannel,
+  sendPurpose: string
+): Promise<ConsentDecision> {
+  const purpose = consentPurposeForSend(sendPurpose);
+  if (!purpose) {
+    return { allowed: true, reason: 'implied_transactional', decidedBy: null };
+  }
+  return checkConsent(tenantDb, subject, channel, purpose);
+}
+
+/**
+ * Full consent history and current state for one customer
+ */
+export async function getConsentHistory(tenantDb: TenantDb, customerId: number) {
+  const customer = await findCustomer(tenantDb, { customerId });
+  if (!customer) return null;
+
+  const events = await loadEvents(tenantDb, {
+    customerId: customer.id,
+    phone: customer.phone,
+    email: customer.email,
+  });
+
+  return {
+    customerId: customer.id,
+    events,
+    current: summarizeConsent(events, { smsConsent: customer.smsConsent }),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Customer Media
+ *
+ * Photos customers send in - the website upload form, a photo link in chat,
+ * or an MMS - go through the media pipeline and are recorded here by storage
+ * key. No signed URL is ever stored: app links are signed on every load,
+ * and the longer-lived links in owner SMS alerts are signed at send time.
+ */
+
+import { and, desc, eq, isNull, or } from 'drizzle-orm';
+import { customerMedia, customers, type CustomerMedia } from '@shared/schema';
+import type { TenantDb } from '../tenantDb';
+import { MEDIA_URL_TTL_SECONDS, signedMediaUrl, type StoredImage } from './mediaPipeline';
+
+export type CustomerMediaSource = 'upload' | 'url' | 'mms';
+export type CustomerMediaPurpose = 'photo' | 'damage_assessment';
+
+async function findCustomerId(tenantDb: TenantDb, phone?: string | null, email?: string | null): Promise<number | null> {
+  const match = phone ? eq(customers.phone, phone) : email ? eq(customers.email, email) : null;
+  if (!match) return null;
+
+  const [customer] = await tenantDb
+    .select({ id: customers.id })
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, match))
+    .limit(1);
+  return customer?.id ?? null;
+}
+
+/**
+ * Record a stored photo against whoever sent it
+ */
+export async function recordCustomerMedia(
+  tenantDb: TenantDb,
+  stored: StoredImage,
+  input: {
+    source: CustomerMediaSource;
+    purpose?: CustomerMediaPurpose;
+    phone?: string | null;
+    email?: string | null;
+    vehicleInfo?: string | null;
+    note?: string | null;
+  }
+): Promise<CustomerMedia> {
+  const [media] = await tenantDb
+    .insert(customerMedia)
+    .values({
+      customerId: await findCustomerId(tenantDb, input.phone, input.email),
+      phone: input.phone || null,
+      email: input.email || null,
+      source: input.source,
+      purpose: input.purpose ?? 'photo',
+      storageKey: stored.storageKey,
+      thumb96Key: stored.thumb96Key,
+      mms640Key: stored.mms640Key,
+      mimeType: stored.mimeType,
+      fileSize: stored.fileSize,
+      width: stored.width,
+      height: stored.height,
+      vehicleInfo: input.vehicleInfo || null,
+      note: input.note || null,
+    })
+    .returning() as CustomerMedia[];
+  return media;
+}
+
+/**
+ * A customer's photos, newest first. Photos sent from their number before
+ * they were a customer are included.
+ */
+export async function listCustomerMedia(
+  tenantDb: TenantDb,
+  customer: { id: number; phone: string | null },
+  purpose?: CustomerMediaPurpose
+): Promise<CustomerMedia[]> {
+  const owner = customer.phone
+    ? or(eq(customerMedia.customerId, customer.id), and(isNull(customerMedia.customerId), eq(customerMedia.phone, customer.phone)))
+    : eq(customerMedia.customerId, customer.id);
+
+  return tenantDb
+    .select()
+    .from(customerMedia)
+    .where(tenantDb.withTenantFilter(customerMedia, purpose ? and(owner, eq(customerMedia.purpose, purpose)) : owner))
+    .orderBy(desc(customerMedia.createdAt));
+}
+
+export function signCustomerMedia(media: CustomerMedia, expiresInSeconds: number = MEDIA_URL_TTL_SECONDS) {
+  return {
+    id: media.id,
+    url: signedMediaUrl(media.storageKey, expiresInSeconds),
+    thumbnailUrl: signedMediaUrl(media.thumb96Key, expiresInSeconds),
+    source: media.source,
+    purpose: media.purpose,
+    vehicleInfo: media.vehicleInfo,
+    note: media.note,
+    createdAt: media.createdAt,
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Customer Segment Service
+ *
+ * Saves segment definitions and compiles them to SQL over the customers
+ * table (see shared/customerSegments.ts for the rule types). Campaigns and
+ * target lists call getSegmentCustomers() with the channel they send on so
+ * customers without a phone or email never reach them.
+ */
+
+import type { TenantDb } from '../tenantDb';
+import {
+  appointments,
+  conversationTags,
+  conversations,
+  customerSegments,
+  customerServiceHistory,
+  customerVehicles,
+  customers,
+  emailSubscribers,
+  emailSuppressionList,
+  services,
+} from '@shared/schema';
+import type { CustomerSegment } from '@shared/schema';
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import {
+  ZIP_PATTERN_SOURCE,
+  pickOnePerHousehold,
+  segmentDefinitionSchema,
+  type SegmentDefinition,
+  type SegmentRule,
+} from '@shared/customerSegments';
+
+const SAMPLE_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SegmentError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'SegmentError';
+  }
+}
+
+export type SegmentChannel = 'sms' | 'email';
+
+export interface SegmentCustomer {
+  id: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  householdId: number | null;
+  smsConsent: boolean | null;
+  lastAppointmentAt: Date | null;
+  lifetimeValue: string | null;
+  loyaltyTier: string | null;
+  isVip: boolean | null;
+}
+
+const combine = (match: 'all' | 'any', conditions: SQL[]): SQL | undefined =>
+  conditions.length === 0 ? undefined : match === 'all' ? and(...conditions) : or(...conditions);
+
+const negate = (condition: SQL) => sql`NOT COALESCE(${condition}, false)`;
+
+// Postgres reads the same pattern the client uses; (?i) makes it case-insensitive
+const zipExpression = sql`substring(${customers.address} from ${`(?i)${ZIP_PATTERN_SOURCE}`})`;
+
+function compileRule(rule: SegmentRule, tenantId: string, now: Date): SQL | undefined {
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  switch (rule.type) {
+    case 'last_appointment':
+      if (rule.op === 'never') return isNull(customers.lastAppointmentAt);
+      return rule.op === 'before'
+        ? and(isNotNull(customers.lastAppointmentAt), lt(customers.lastAppointmentAt, daysAgo(rule.daysAgo)))
+        : gte(customers.lastAppointmentAt, daysAgo(rule.daysAgo));
+
+    case 'lifetime_value':
+      return rule.op === 'gte'
+        ? sql`COALESCE(${customers.lifetimeValue}, 0) >= ${rule.amount}`
+        : sql`COALESCE(${customers.lifetimeValue}, 0) <= ${rule.amount}`;
+
+    case 'loyalty_tier':
+      return inArray(customers.loyaltyTier, rule.tiers);
+
+    case 'vip':
+      return rule.value ? eq(customers.isVip, true) : sql`COALESCE(${customers.isVip}, false) = false`;
+
+    case 'tag': {
+      // Tags live on conversations; a customer carries every tag on any of their conversations
+      const tagged = sql`EXISTS (
+        SELECT 1 FROM ${conversationTags}
+        INNER JOIN ${conversations} ON ${conversations.id} = ${conversationTags.conversationId}
+        WHERE ${conversations.customerId} = ${customers.id}
+          AND ${conversationTags.tenantId} = ${tenantId}
+          AND ${inArray(conversationTags.tagId, rule.tagIds)}
+      )`;
+      return rule.match === 'none' ? sql`NOT ${tagged}` : tagged;
+    }
+
+    case 'service_history': {
+      const since = rule.withinDays ? daysAgo(rule.withinDays) : null;
+      // Completed appointments, plus imported history rows matched to a service by name
+      const had = sql`(EXISTS (
+        SELECT 1 FROM ${appointments}
+        WHERE ${appointments.customerId} = ${customers.id}
+          AND ${appointments.tenantId} = ${tenantId}
+          AND (${appointments.completed} = true OR ${appointments.status} = 'completed')
+          AND ${inArray(appointments.serviceId, rule.serviceIds)}
+          ${since ? sql`AND ${appointments.scheduledTime} >= ${since}` : sql``}
+      ) OR EXISTS (
+        SELECT 1 FROM ${customerServiceHistory}
+        INNER JOIN ${services} ON lower(${services.name}) = lower(${customerServiceHistory.serviceType})
+          AND ${services.tenantId} = ${tenantId}
+        WHERE ${customerServiceHistory.customerId} = ${customers.id}
+          AND ${customerServiceHistory.tenantId} = ${tenantId}
+          AND ${inArray(services.id, rule.serviceIds)}
+          ${since ? sql`AND ${customerServiceHistory.serviceDate} >= ${since}` : sql``}
+      ))`;
+      return rule.match === 'none' ? sql`NOT ${had}` : had;
+    }
+
+    case 'vehicle': {
+      const vehicleMatch = combine('any', [
+        ...(rule.classes.length > 0 ? [inArray(customerVehicles.vehicleClass, rule.classes)] : []),
+        ...(rule.makes.length > 0 ? [inArray(sql`lower(${customerVehicles.make})`, rule.makes.map(make => make.toLowerCase()))] : []),
+      ]);
+      return sql`EXISTS (
+        SELECT 1 FROM ${customerVehicles}
+        WHERE ${customerVehicles.customerId} = ${customers.id}
+          AND ${customerVehicles.tenantId} = ${tenantId}
+          ${vehicleMatch ? sql`AND ${vehicleMatch}` : sql``}
+      )`;
+    }
+
+    case 'household': {
+      // Self-join needs an alias, so this one is written out by hand
+      const shared = sql`(${customers.householdId} IS NOT NULL AND EXISTS (
+        SELECT 1 FROM customers housemate
+        WHERE housemate.household_id = ${customers.householdId}
+          AND housemate.id <> ${customers.id}
+          AND housemate.tenant_id = ${tenantId}
+      ))`;
+      return rule.value === 'shared' ? shared : sql`NOT ${shared}`;
+    }
+
+    case 'zip': {
+      const inArea = or(...rule.zips.map(zip =>
+        zip.length === 3 ? sql`${zipExpression} LIKE ${`${zip}%`}` : sql`${zipExpression} = ${zip}`
+      ))!;
+      // Unknown ZIPs are never "in" an area, so they are always "outside" it
+      return rule.match === 'none' ? negate(inArea) : sql`COALESCE(${inArea}, false)`;
+    }
+
+    case 'consent': {
+      if (rule.channel === 'sms') {
+        return rule.value ? eq(customers.smsConsent, true) : sql`COALESCE(${customers.smsConsent}, false) = false`;
+      }
+      const subscribed = sql`(EXISTS (
+        SELECT 1 FROM ${emailSubscribers}
+        WHERE lower(${emailSubscribers.email}) = lower(${customers.email})
+          AND ${emailSubscribers.tenantId} = ${tenantId}
+          AND ${emailSubscribers.subscribed} = true
+      ) AND NOT EXISTS (
+        SELECT 1 FROM ${emailSuppressionList}
+        WHERE lower(${emailSuppressionList.email}) = lower(${customers.email})
+          AND ${emailSuppressionList.tenantId} = ${tenantId}
+      ))`;
+      return rule.value ? subscribed : negate(subscribed);
+    }
+
+    case 'group':
+      return combine(rule.match, rule.rules
+        .map(nested => compileRule(nested, tenantId, now))
+        .filter((condition): condition is SQL => condition !== undefined));
+  }
+}
+
+/**
+ * The WHERE clause for a definition, without the tenant filter. Undefined
+ * means every customer.
+ */
+export function compileSegmentDefinition(definition: SegmentDefinition, tenantId: string, now: Date = new Date()): SQL | undefined {
+  return combine(definition.match, definition.rules
+    .map(rule => compileRule(rule, tenantId, now))
+    .filter((condition): condition is SQL => condition !== undefined));
+}
+
+function channelCondition(channel?: SegmentChannel): SQL | undefined {
+  if (channel === 'sms') return and(isNotNull(customers.phone), sql`${customers.phone} != ''`);
+  if (channel === 'email') return and(isNotNull(customers.email), sql`${customers.email} != ''`);
+  return undefined;
+}
+
+export async function resolveSegmentDefinition(
+  tenantDb: TenantDb,
+  definition: SegmentDefinition,
+  options: { channel?: SegmentChannel } = {}
+): Promise<SegmentCustomer[]> {
+  const rows = await tenantDb
+    .select({
+      id: customers.id,
+      name: customers.name,
+      phone: customers.phone,
+      email: customers.email,
+      householdId: customers.householdId,
+      smsConsent: customers.smsConsent,
+      lastAppointmentAt: customers.lastAppointmentAt,
+      lifetimeValue: customers.lifetimeValue,
+      loyaltyTier: customers.loyaltyTier,
+      isVip: customers.isVip,
+    })
+    .from(customers)
+    .where(
+      tenantDb.withTenantFilter(
+        customers,
+        and(compileSegmentDefinition(definition, tenantDb.tenantId), channelCondition(options.channel))
+      )
+    )
+    .orderBy(asc(customers.id));
+
+  return definition.onePerHousehold ? pickOnePerHousehold(rows) : rows;
+}
+
+export async function previewSegmentDefinition(
+  tenantDb: TenantDb,
+  definition: SegmentDefinition,
+  options: { channel?: SegmentChannel } = {}
+): Promise<{ count: number; sample: SegmentCustomer[] }> {
+  const matched = await resolveSegmentDefinition(tenantDb, definition, options);
+  return { count: matched.length, sample: matched.slice(0, SAMPLE_SIZE) };
+}
+
+export function parseSegmentDefinition(input: unknown): SegmentDefinition {
+  const parsed = segmentDefinitionSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new SegmentError(parsed.error.errors[0]?.message || 'Invalid segment definition');
+  }
+  return parsed.data;
+}
+
+export async function getSegment(tenantDb: TenantDb, segmentId: number): Promise<CustomerSegment> {
+  const [segment] = await tenantDb
+    .select()
+    .from(customerSegments)
+    .where(tenantDb.withTenantFilter(customerSegments, eq(customerSegments.id, segmentId)))
+    .limit(1);
+  if (!segment) {
+    throw new SegmentError('Segment not found', 404);
+  }
+  return segment;
+}
+
+/**
+ * Customers in a saved segment, as campaigns and target lists see them.
+ * Definitions are re-validated on read so an older saved shape can't
+ * produce a broken query.
+ */
+export async function getSegmentCustomers(
+  tenantDb: TenantDb,
+  segmentId: number,
+  options: { channel?: SegmentChannel } = {}
+): Promise<SegmentCustomer[]> {
+  const segment = await getSegment(tenantDb, segmentId);
+  return resolveSegmentDefinition(tenantDb, parseSegmentDefinition(segment.definition), options);
+}
+
+export async function listSegments(tenantDb: TenantDb): Promise<CustomerSegment[]> {
+  return tenantDb
+    .select()
+    .from(customerSegments)
+    .where(tenantDb.withTenantFilter(customerSegments))
+    .orderBy(desc(customerSegments.updatedAt));
+}
+
+export interface SegmentInput {
+  name: string;
+  description?: string | null;
+  definition: unknown;
+}
+
+export async function createSegment(tenantDb: TenantDb, input: SegmentInput, userId?: number | null): Promise<CustomerSegment> {
+  const definition = parseSegmentDefinition(input.definition);
+  const { count } = await previewSegmentDefinition(tenantDb, definition);
+  const now = new Date();
+
+  const [segment] = await tenantDb
+    .insert(customerSegments)
+    .values({
+      name: input.name,
+      description: input.description ?? null,
+      definition,
+      lastCount: count,
+      lastCountedAt: now,
+      createdBy: userId ?? null,
+    })
+    .returning();
+  return segment as CustomerSegment;
+}
+
+export async function updateSegment(tenantDb: TenantDb, segmentId: number, input: SegmentInput): Promise<CustomerSegment> {
+  const existing = await getSegment(tenantDb, segmentId);
+  const definition = parseSegmentDefinition(input.definition);
+  const { count } = await previewSegmentDefinition(tenantDb, definition);
+  const now = new Date();
+
+  const changes = {
+    name: input.name,
+    description: input.description ?? null,
+    definition,
+    lastCount: count,
+    lastCountedAt: now,
+    updatedAt: now,
+  };
+  await tenantDb
+    .update(customerSegments)
+    .set(changes)
+    .where(tenantDb.withTenantFilter(customerSegments, eq(customerSegments.id, segmentId)));
+  return { ...existing, ...changes };
+}
+
+/**
+ * Campaigns that used the segment keep their recipient lists; their
+ * segmentId is cleared by the foreign key
+ */
+export async function deleteSegment(tenantDb: TenantDb, segmentId: number): Promise<void> {
+  await getSegment(tenantDb, segmentId);
+  await tenantDb
+    .delete(customerSegments)
+    .where(tenantDb.withTenantFilter(customerSegments, eq(customerSegments.id, segmentId)));
+}
@@ -0,0 +1,168 @@
+/**
+ * Deposit Refunds
+ *
+ * When a customer cancels an appointment with a paid deposit, whatever the
+ * late-cancel fee doesn't keep is owed back. The cancellation records a
+ * pending deposit_refunds row in the same transaction, and staff settle it
+ * from Portal Settings:
+ * - a deposit paid through Stripe checkout is refunded through Stripe; the
+ *   row is claimed first and its id is the idempotency key, so retrying a
+ *   refund Stripe already made doesn't pay out twice
+ * - anything else (cash, Venmo, a deposit whose payment intent was never
+ *   recorded) is marked refunded by hand once staff have paid it back
+ */
+
+import Stripe from 'stripe';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { appointments, auditLog, customers, depositRefunds } from '@shared/schema';
+import type { DepositRefund } from '@shared/schema';
+import type { TenantDb } from '../tenantDb';
+
+const STRIPE_ENABLED = !!process.env.STRIPE_SECRET_KEY;
+
+const stripe = STRIPE_ENABLED ? new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-04-30.basil",
+}) : null;
+
+type Tx = Parameters<Parameters<TenantDb['transaction']>[0]>[0];
+
+export type DepositRefundMethod = 'stripe' | 'manual';
+
+export class DepositRefundError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'DepositRefundError';
+  }
+}
+
+/**
+ * markDepositPaid() logs the checkout's payment intent on the deposit_paid
+ * audit entry; that's the only place it is kept
+ */
+async function findDepositPaymentIntent(tx: Tx, tenantDb: TenantDb, appointmentId: number): Promise<string | null> {
+  const [entry] = await tx
+    .select({ paymentIntentId: sql<string | null>`${auditLog.details}->>'stripePaymentIntentId'` })
+    .from(auditLog)
+    .where(tenantDb.withTenantFilter(auditLog, and(
+      eq(auditLog.actionType, 'deposit_paid'),
+      eq(auditLog.entityType, 'appointment'),
+      eq(auditLog.entityId, appointmentId)
+    )))
+    .orderBy(desc(auditLog.timestamp))
+    .limit(1);
+  return entry?.paymentIntentId || null;
+}
+
+/**
+ * Record what's owed back for a cancelled appointment, inside the
+ * cancellation's transaction. Nothing is recorded when nothing is owed.
+ */
+export async function recordDepositRefund(
+  tx: Tx,
+  tenantDb: TenantDb,
+  input: { appointmentId: number; customerId: number; amount: number; feeKept: number }
+): Promise<DepositRefund | null> {
+  if (input.amount <= 0) return null;
+
+  const [refund] = await tx
+    .insert(depositRefunds)
+    .values({
+      tenantId: tenantDb.tenantId,
+      appointmentId: input.appointmentId,
+      customerId: input.customerId,
+      amount: input.amount.toFixed(2),
+      feeKept: input.feeKept.toFixed(2),
+      stripePaymentIntentId: await findDepositPaymentIntent(tx, tenantDb, input.appointmentId),
+    })
+    .onConflictDoNothing()
+    .returning();
+  return refund ?? null;
+}
+
+export interface DepositRefundListItem extends DepositRefund {
+  customerName: string | null;
+  scheduledTime: Date | null;
+}
+
+/**
+ * Refunds still owed (pending or failed), newest first
+ */
+export async function listOpenDepositRefunds(tenantDb: TenantDb): Promise<DepositRefundListItem[]> {
+  const rows = await tenantDb
+    .select({ refund: depositRefunds, customerName: customers.name, scheduledTime: appointments.scheduledTime })
+    .from(depositRefunds)
+    .leftJoin(customers, eq(depositRefunds.customerId, customers.id))
+    .leftJoin(appointments, eq(depositRefunds.appointmentId, appointments.id))
+    .where(tenantDb.withTenantFilter(depositRefunds, inArray(depositRefunds.status, ['pending', 'failed'])))
+    .orderBy(desc(depositRefunds.createdAt));
+
+  return rows.map(row => ({ ...row.refund, customerName: row.customerName, scheduledTime: row.scheduledTime }));
+}
+
+/**
+ * Settle an owed deposit refund, through Stripe or as paid back by hand
+ */
+export async function processDepositRefund(
+  tenantDb: TenantDb,
+  refundId: number,
+  method: DepositRefundMethod,
+  processedBy?: number | null
+): Promise<DepositRefund> {
+  const claimed = await tenantDb.transaction(async (tx) => {
+    const [refund] = await tx
+      .select()
+      .from(depositRefunds)
+      .where(tenantDb.withTenantFilter(depositRefunds, eq(depositRefunds.id, refundId)))
+      .for('update');
+    if (!refund) throw new DepositRefundError('Refund not found', 404);
+    if (refund.status === 'refunded') throw new DepositRefundError('This deposit has already been refunded', 409);
+
+    if (method === 'stripe') {
+      if (!refund.stripePaymentIntentId) {
+        throw new DepositRefundError('This deposit was not paid through Stripe. Refund it by hand and mark it refunded.', 409);
+      }
+      if (!stripe) throw new DepositRefundError('Stripe is not configured', 503);
+    }
+
+    const [updated] = await tx
+      .update(depositRefunds)
+      .set(method === 'manual'
+        ? { status: 'refunded', method, failureReason: null, processedBy: processedBy ?? null, processedAt: new Date() }
+        : { status: 'pending', method, failureReason: null, processedBy: processedBy ?? null })
+      .where(eq(depositRefunds.id, refund.id))
+      .returning();
+    return updated;
+  });
+
+  if (method === 'manual') {
+    console.log(`[DEPOSIT REFUNDS] Refund ${refundId} for appointment ${claimed.appointmentId} marked refunded by hand`);
+    return claimed;
+  }
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await stripe!.refunds.create({
+      payment_intent: claimed.stripePaymentIntentId!,
+      amount: Math.round(Number(claimed.amount) * 100),
+      metadata: {
+        appointmentId: String(claimed.appointmentId),
+        depositRefundId: String(claimed.id),
+        tenantId: tenantDb.tenantId,
+      },
+    }, { idempotencyKey: `deposit-refund-${tenantDb.tenantId}-${claimed.id}` });
+  } catch (error: any) {
+    await tenantDb
+      .update(depositRefunds)
+      .set({ status: 'failed', failureReason: `Stripe refund failed: ${error?.message || 'unknown error'}` })
+      .where(tenantDb.withTenantFilter(depositRefunds, eq(depositRefunds.id, claimed.id)));
+    throw new DepositRefundError(`Stripe refund failed: ${error?.message || 'unknown error'}`, 502);
+  }
+
+  const [settled] = await tenantDb
+    .update(depositRefunds)
+    .set({ status: 'refunded', stripeRefundId: stripeRefund.id, processedAt: new Date() })
+    .where(tenantDb.withTenantFilter(depositRefunds, eq(depositRefunds.id, claimed.id)))
+    .returning() as DepositRefund[];
+  console.log(`[DEPOSIT REFUNDS] Stripe refund ${stripeRefund.id} issued for appointment ${claimed.appointmentId}`);
+  return settled;
+}
@@ -1,11 +1,13 @@
 import { eq, and, sql, or } from 'drizzle-orm';
 import { giftCards, giftCardRedemptions, tenants, type GiftCard, type InsertGiftCard } from '@shared/schema';
-import { wrapTenantDb } from '../tenantDb';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
 import { db } from '../db';
 import { SquareClient, SquareEnvironment, GiftCardsApi } from 'square';
 
 const LOG_PREFIX = '[GIFT CARD SQUARE]';
 
+type GiftCardTx = Parameters<Parameters<TenantDb['transaction']>[0]>[0];
+
 export interface SquareGiftCardSummary {
   providerCardId: string;
   gan: string;
@@ -321,12 +323,18 @@ export function applyGiftCardToAmount(
   };
 }
 
+/**
+ * Redeem part of a card's balance. The card row is locked while the balance
+ * is checked and written; pass `outerTx` to redeem as part of a larger write
+ * (e.g. an invoice discount) so both commit or roll back together.
+ */
 export async function recordRedemption(
   tenantId: string,
   giftCardId: number,
   amountCents: number,
   bookingId?: number,
-  metadata?: Record<string, any>
+  metadata?: Record<string, any>,
+  outerTx?: GiftCardTx
 ): Promise<{ success: boolean; error?: string }> {
   if (!tenantId) {
     return { success: false, error: 'Invalid tenant context' };
@@ -334,8 +342,8 @@ export async function recordRedemption(
 
   const tenantDb = wrapTenantDb(tenantId);
 
-  try {
-    const cards = await tenantDb
+  const redeem = async (tx: GiftCardTx): Promise<{ success: boolean; error?: string }> => {
+    const [card] = await tx
       .select()
       .from(giftCards)
       .where(
@@ -344,38 +352,45 @@ export async function recordRedemption(
           eq(giftCards.tenantId, tenantId)
         )
       )
-      .limit(1);
+      .limit(1)
+      .for('update');
 
-    if (cards.length === 0) {
+    if (!card) {
       return { success: false, error: 'Gift card not found for this tenant' };
     }
 
-    const card = cards[0];
     const newBalance = card.currentBalanceCents - amountCents;
 
     if (newBalance < 0) {
       return { success: false, error: 'Insufficient gift card balance' };
     }
 
-    await tenantDb.transaction(async (tx) => {
-      await tx.insert(giftCardRedemptions).values({
-        tenantId,
-        giftCardId,
-        bookingId,
-        amountCents,
-        metadata: metadata || {},
-      });
-
-      await tx
-        .update(giftCards)
-        .set({
-          currentBalanceCents: newBalance,
-          status: newBalance === 0 ? 'REDEEMED' : 'ACTIVE',
-          updatedAt: new Date(),
-        })
-        .where(eq(giftCards.id, giftCardId));
+    await tx.insert(giftCardRedemptions).values({
+      tenantId,
+      giftCardId,
+      bookingId,
+      amountCents,
+      metadata: metadata || {},
     });
 
+    await tx
+      .update(giftCards)
+      .set({
+        currentBalanceCents: newBalance,
+        status: newBalance === 0 ? 'REDEEMED' : 'ACTIVE',
+        updatedAt: new Date(),
+      })
+      .where(eq(giftCards.id, giftCardId));
+
+    return { success: true };
+  };
+
+  try {
+    const result = outerTx ? await redeem(outerTx) : await tenantDb.transaction(redeem);
+    if (!result.success) {
+      return result;
+    }
+
     console.log(`${LOG_PREFIX} Recorded redemption: $${(amountCents / 100).toFixed(2)} from card ${giftCardId} for tenant ${tenantId}`);
     return { success: true };
   } catch (error: any) {
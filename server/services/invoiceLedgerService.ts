@@ -0,0 +1,908 @@
+/**
+ * Invoice Ledger Service
+ *
+ * Owns invoice_line_items and invoice_payments. Every change to lines,
+ * discounts, payments or refunds goes through here and ends in
+ * recomputeInvoice(), which re-derives tax, totals, balance due and payment
+ * status and caches them on the invoices row for older screens and reports.
+ *
+ * Invoices created before line items existed are materialized on first
+ * access: one tax-exempt service line for the stored amount (prices were
+ * tax-inclusive), the legacy referral discount, and a single payment if the
+ * invoice was already marked paid.
+ */
+
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import Stripe from 'stripe';
+import {
+  invoiceLineItems,
+  invoicePayments,
+  invoices,
+  redeemedRewards,
+  type InsertInvoiceLineItem,
+  type Invoice,
+  type InvoiceLineItem,
+  type InvoicePayment,
+} from '@shared/schema';
+import {
+  PAYMENT_METHODS,
+  computeInvoiceTotals,
+  refundableAmount,
+  summarizeLedger,
+  type InvoiceDiscountInput,
+  type InvoiceLineInput,
+  type InvoicePaymentInput,
+  type InvoiceRefundInput,
+  type InvoiceTotals,
+  type LedgerBalance,
+  type LedgerEntry,
+  type LedgerEntryStatus,
+  type PaymentMethod,
+  type TaxRates,
+} from '@shared/invoiceLedger';
+import type { TenantDb } from '../tenantDb';
+import { getTaxSettings } from './priceBookService';
+import { validateReferralCode } from '../referralService';
+import { formatRewardDescription, getRefereeRewardDescriptor } from '../referralConfigService';
+import { applyCredit } from '../creditLedgerService';
+import { recordRedemption, validateGiftCardCode } from './giftCardSquareService';
+
+const STRIPE_ENABLED = !!process.env.STRIPE_SECRET_KEY;
+
+const stripe = STRIPE_ENABLED ? new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2025-04-30.basil",
+}) : null;
+
+export type LedgerTx = Parameters<Parameters<TenantDb['transaction']>[0]>[0];
+
+export class InvoiceLedgerError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'InvoiceLedgerError';
+  }
+}
+
+export interface InvoiceLedger {
+  invoice: Invoice;
+  lines: InvoiceLineItem[];
+  payments: InvoicePayment[];
+  taxRates: TaxRates;
+  totals: InvoiceTotals;
+  balance: LedgerBalance;
+}
+
+export interface DiscountResult {
+  ledger: InvoiceLedger;
+  applied: number;
+  message: string;
+}
+
+function money(value: number): string {
+  return value.toFixed(2);
+}
+
+function parseMoney(value: string | null | undefined): number {
+  return parseFloat(value || '0') || 0;
+}
+
+function normalizePaymentMethod(method: string | null | undefined): PaymentMethod {
+  const normalized = (method || '').toLowerCase();
+  return (PAYMENT_METHODS as readonly string[]).includes(normalized) ? normalized as PaymentMethod : 'other';
+}
+
+function stripeRefundStatus(status: string | null | undefined): LedgerEntryStatus {
+  if (status === 'succeeded') return 'succeeded';
+  if (status === 'failed' || status === 'canceled') return 'failed';
+  return 'pending';
+}
+
+function toLedgerEntry(payment: InvoicePayment): LedgerEntry {
+  return { kind: payment.kind, amount: parseMoney(payment.amount), status: payment.status };
+}
+
+async function getTaxRates(tenantId: string): Promise<TaxRates> {
+  const tax = await getTaxSettings(tenantId);
+  return { standard: tax.rate, reduced: tax.reducedRate ?? 0, exempt: 0 };
+}
+
+async function lockInvoice(tx: LedgerTx, tenantDb: TenantDb, invoiceId: number): Promise<Invoice> {
+  const [invoice] = await tx
+    .select()
+    .from(invoices)
+    .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, invoiceId)))
+    .for('update');
+  if (!invoice) throw new InvoiceLedgerError('Invoice not found', 404);
+  return invoice;
+}
+
+async function loadLines(executor: TenantDb | LedgerTx, tenantDb: TenantDb, invoiceId: number): Promise<InvoiceLineItem[]> {
+  return executor
+    .select()
+    .from(invoiceLineItems)
+    .where(tenantDb.withTenantFilter(invoiceLineItems, eq(invoiceLineItems.invoiceId, invoiceId)))
+    .orderBy(asc(invoiceLineItems.sortOrder), asc(invoiceLineItems.id));
+}
+
+async function loadPayments(executor: TenantDb | LedgerTx, tenantDb: TenantDb, invoiceId: number): Promise<InvoicePayment[]> {
+  return executor
+    .select()
+    .from(invoicePayments)
+    .where(tenantDb.withTenantFilter(invoicePayments, eq(invoicePayments.invoiceId, invoiceId)))
+    .orderBy(asc(invoicePayments.receivedAt), asc(invoicePayments.id));
+}
+
+/**
+ * Back-fill line items (and the payment, if already paid) for an invoice
+ * created before the ledger existed. No-op once the invoice has lines.
+ */
+async function materializeLegacyInvoice(tx: LedgerTx, tenantDb: TenantDb, invoice: Invoice): Promise<void> {
+  const existing = await loadLines(tx, tenantDb, invoice.id);
+  if (existing.length > 0) return;
+
+  const referralDiscount = parseMoney(invoice.referralDiscount);
+  const chargeAmount = referralDiscount > 0 && invoice.referralOriginalAmount
+    ? parseMoney(invoice.referralOriginalAmount)
+    : parseMoney(invoice.amount);
+
+  const lines: InsertInvoiceLineItem[] = [{
+    tenantId: tenantDb.tenantId,
+    invoiceId: invoice.id,
+    kind: 'service',
+    description: invoice.serviceDescription,
+    unitPrice: money(chargeAmount),
+    amount: money(chargeAmount),
+    taxCategory: 'exempt',
+    sortOrder: 0,
+  }];
+  if (referralDiscount > 0) {
+    lines.push({
+      tenantId: tenantDb.tenantId,
+      invoiceId: invoice.id,
+      kind: 'discount',
+      description: invoice.referralCode ? `Referral discount (${invoice.referralCode})` : 'Referral discount',
+      unitPrice: money(referralDiscount),
+      amount: money(-referralDiscount),
+      taxCategory: 'exempt',
+      discountSource: 'referral',
+      sourceRef: invoice.referralCode,
+      sortOrder: 1,
+    });
+  }
+  await tx.insert(invoiceLineItems).values(lines);
+
+  const payments = await loadPayments(tx, tenantDb, invoice.id);
+  if (invoice.paymentStatus === 'paid' && payments.length === 0) {
+    await tx.insert(invoicePayments).values({
+      tenantId: tenantDb.tenantId,
+      invoiceId: invoice.id,
+      kind: 'payment',
+      method: normalizePaymentMethod(invoice.paymentMethod),
+      amount: invoice.amount,
+      stripePaymentIntentId: invoice.stripePaymentIntentId,
+      paypalOrderId: invoice.paypalOrderId,
+      note: 'Recorded before the payments ledger',
+      receivedAt: invoice.paidAt ?? invoice.createdAt ?? new Date(),
+    });
+  }
+}
+
+/**
+ * Derive tax, totals and balance from the stored rows without writing
+ */
+function buildLedger(
+  invoice: Invoice,
+  lines: InvoiceLineItem[],
+  payments: InvoicePayment[],
+  taxRates: TaxRates
+): InvoiceLedger {
+  const computed = computeInvoiceTotals(
+    lines.map((line) => ({
+      kind: line.kind,
+      quantity: parseFloat(line.quantity),
+      unitPrice: parseMoney(line.unitPrice),
+      taxCategory: line.taxCategory,
+      discountSource: line.discountSource,
+    })),
+    taxRates
+  );
+
+  return {
+    invoice,
+    lines: lines.map((line, i) => ({
+      ...line,
+      amount: money(computed.lines[i].amount),
+      taxAmount: money(computed.lines[i].taxAmount),
+      taxRate: (line.kind === 'discount' ? 0 : taxRates[line.taxCategory] ?? 0).toFixed(3),
+    })),
+    payments,
+    taxRates,
+    totals: computed.totals,
+    balance: summarizeLedger(computed.totals.total, payments.map(toLedgerEntry)),
+  };
+}
+
+async function readLedger(executor: TenantDb | LedgerTx, tenantDb: TenantDb, invoice: Invoice): Promise<InvoiceLedger> {
+  const [lines, payments, taxRates] = await Promise.all([
+    loadLines(executor, tenantDb, invoice.id),
+    loadPayments(executor, tenantDb, invoice.id),
+    getTaxRates(tenantDb.tenantId),
+  ]);
+  return buildLedger(invoice, lines, payments, taxRates);
+}
+
+/**
+ * Re-derive line tax, totals, balance due and payment status, and cache them
+ * on the invoice row. Must run inside the transaction that changed the ledger.
+ */
+async function recomputeInvoice(tx: LedgerTx, tenantDb: TenantDb, invoice: Invoice): Promise<InvoiceLedger> {
+  const stored = await loadLines(tx, tenantDb, invoice.id);
+  const ledger = await readLedger(tx, tenantDb, invoice);
+
+  for (let i = 0; i < stored.length; i++) {
+    const { amount, taxAmount, taxRate } = ledger.lines[i];
+    if (amount === stored[i].amount && taxAmount === stored[i].taxAmount && taxRate === stored[i].taxRate) continue;
+    await tx
+      .update(invoiceLineItems)
+      .set({ amount, taxAmount, taxRate })
+      .where(eq(invoiceLineItems.id, stored[i].id));
+  }
+
+  const { totals, balance, payments } = ledger;
+  const lastPayment = [...payments].reverse().find((p) => p.kind === 'payment' && p.status === 'succeeded');
+
+  const [updatedInvoice] = await tx
+    .update(invoices)
+    .set({
+      amount: money(totals.total),
+      subtotal: money(totals.subtotal),
+      taxAmount: money(totals.taxTotal),
+      totalAmount: money(totals.total),
+      balanceDue: money(balance.balanceDue),
+      status: balance.paymentStatus, // Legacy field - mirrors paymentStatus
+      paymentStatus: balance.paymentStatus,
+      paymentMethod: lastPayment?.method ?? invoice.paymentMethod,
+      paidAt: balance.paymentStatus === 'paid'
+        ? invoice.paidAt ?? new Date()
+        : balance.paymentStatus === 'refunded' ? invoice.paidAt : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(invoices.id, invoice.id))
+    .returning() as Invoice[];
+
+  return { ...ledger, invoice: updatedInvoice };
+}
+
+/**
+ * Run a ledger change with the invoice row locked, then recompute. Pass
+ * `outerTx` to make the change part of the caller's transaction.
+ */
+async function withInvoiceLedger<T>(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  change: (tx: LedgerTx, ledger: InvoiceLedger) => Promise<T>,
+  outerTx?: LedgerTx
+): Promise<{ ledger: InvoiceLedger; result: T }> {
+  const run = async (tx: LedgerTx) => {
+    const invoice = await lockInvoice(tx, tenantDb, invoiceId);
+    await materializeLegacyInvoice(tx, tenantDb, invoice);
+    const result = await change(tx, await readLedger(tx, tenantDb, invoice));
+    const ledger = await recomputeInvoice(tx, tenantDb, invoice);
+    return { ledger, result };
+  };
+  return outerTx ? run(outerTx) : tenantDb.transaction(run);
+}
+
+/**
+ * Lines, payments and derived totals for one invoice
+ */
+export async function getInvoiceLedger(tenantDb: TenantDb, invoiceId: number): Promise<InvoiceLedger | null> {
+  const [invoice] = await tenantDb
+    .select()
+    .from(invoices)
+    .where(tenantDb.withTenantFilter(invoices, eq(invoices.id, invoiceId)))
+    .limit(1);
+  if (!invoice) return null;
+
+  const ledger = await readLedger(tenantDb, tenantDb, invoice);
+  if (ledger.lines.length > 0) return ledger;
+
+  // Created before line items existed - back-fill once
+  const { ledger: materialized } = await withInvoiceLedger(tenantDb, invoiceId, async () => undefined);
+  return materialized;
+}
+
+/**
+ * Write the charge lines for a newly created invoice inside the caller's
+ * transaction. Discounts are added with addInvoiceDiscountLine().
+ */
+export async function insertInvoiceLines(
+  tx: LedgerTx,
+  tenantDb: TenantDb,
+  invoiceId: number,
+  lines: Array<Omit<InsertInvoiceLineItem, 'tenantId' | 'invoiceId' | 'amount'>>
+): Promise<void> {
+  if (lines.length === 0) return;
+  await tx.insert(invoiceLineItems).values(lines.map((line, index) => ({
+    ...line,
+    tenantId: tenantDb.tenantId,
+    invoiceId,
+    amount: money(parseFloat(String(line.quantity ?? '1')) * parseMoney(line.unitPrice)),
+    sortOrder: line.sortOrder ?? index,
+  })));
+}
+
+/**
+ * Recompute a freshly created invoice inside the caller's transaction
+ */
+export async function finalizeInvoiceTotals(tx: LedgerTx, tenantDb: TenantDb, invoice: Invoice): Promise<Invoice> {
+  const ledger = await recomputeInvoice(tx, tenantDb, invoice);
+  return ledger.invoice;
+}
+
+async function nextSortOrder(tx: LedgerTx, tenantDb: TenantDb, invoiceId: number): Promise<number> {
+  const lines = await loadLines(tx, tenantDb, invoiceId);
+  return lines.reduce((max, line) => Math.max(max, line.sortOrder), -1) + 1;
+}
+
+/**
+ * Add a discount line. Exported for createInvoice, which adds the referral
+ * discount inside its own transaction before the first recompute.
+ */
+export async function addInvoiceDiscountLine(
+  tx: LedgerTx,
+  tenantDb: TenantDb,
+  invoiceId: number,
+  discount: { source: InvoiceDiscountInput['source']; description: string; amount: number; sourceRef?: string | null }
+): Promise<void> {
+  await tx.insert(invoiceLineItems).values({
+    tenantId: tenantDb.tenantId,
+    invoiceId,
+    kind: 'discount',
+    description: discount.description,
+    unitPrice: money(discount.amount),
+    amount: money(-discount.amount),
+    taxCategory: 'exempt',
+    discountSource: discount.source,
+    sourceRef: discount.sourceRef ?? null,
+    sortOrder: await nextSortOrder(tx, tenantDb, invoiceId),
+  });
+}
+
+function assertOpen(ledger: InvoiceLedger): void {
+  if (ledger.balance.paymentStatus === 'refunded') {
+    throw new InvoiceLedgerError('Invoice has been refunded', 409);
+  }
+}
+
+export async function addInvoiceLine(tenantDb: TenantDb, invoiceId: number, input: InvoiceLineInput): Promise<InvoiceLedger> {
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    await tx.insert(invoiceLineItems).values({
+      tenantId: tenantDb.tenantId,
+      invoiceId,
+      kind: input.kind,
+      description: input.description,
+      quantity: input.quantity.toString(),
+      unitPrice: money(input.unitPrice),
+      amount: money(input.quantity * input.unitPrice),
+      taxCategory: input.taxCategory,
+      serviceId: input.serviceId ?? null,
+      addonId: input.addonId ?? null,
+      sortOrder: await nextSortOrder(tx, tenantDb, invoiceId),
+    });
+  });
+  return ledger;
+}
+
+/**
+ * Replace every charge line, keeping discounts. Used when the technician
+ * records what was actually performed at job completion.
+ */
+export async function replaceInvoiceCharges(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  lines: InvoiceLineInput[],
+  tx?: LedgerTx
+): Promise<InvoiceLedger> {
+  if (lines.length === 0) throw new InvoiceLedgerError('At least one line is required');
+
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    const chargeIds = current.lines.filter((line) => line.kind !== 'discount').map((line) => line.id);
+    if (chargeIds.length > 0) {
+      await tx.delete(invoiceLineItems).where(inArray(invoiceLineItems.id, chargeIds));
+    }
+    // Keep discounts after the new charges
+    const discounts = current.lines.filter((line) => line.kind === 'discount');
+    for (let i = 0; i < discounts.length; i++) {
+      await tx
+        .update(invoiceLineItems)
+        .set({ sortOrder: lines.length + i })
+        .where(eq(invoiceLineItems.id, discounts[i].id));
+    }
+    await tx.insert(invoiceLineItems).values(lines.map((line, index) => ({
+      tenantId: tenantDb.tenantId,
+      invoiceId,
+      kind: line.kind,
+      description: line.description,
+      quantity: line.quantity.toString(),
+      unitPrice: money(line.unitPrice),
+      amount: money(line.quantity * line.unitPrice),
+      taxCategory: line.taxCategory,
+      serviceId: line.serviceId ?? null,
+      addonId: line.addonId ?? null,
+      sortOrder: index,
+    })));
+  }, tx);
+  return ledger;
+}
+
+/**
+ * Bill the services a technician recorded at job completion. When they are
+ * the services already on the invoice, its price-book lines (vehicle and
+ * condition modifiers, add-ons) stay as they are; otherwise the charges are
+ * replaced, taxed like the service lines they replace.
+ */
+export async function recordPerformedServices(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  performed: Array<{ serviceId?: number; serviceName: string; price: number }>,
+  tx?: LedgerTx
+): Promise<InvoiceLedger> {
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    const serviceLines = current.lines.filter((line) => line.kind === 'service');
+    const key = (serviceId: number | null | undefined, name: string) => serviceId ? `id:${serviceId}` : `name:${name.trim().toLowerCase()}`;
+    const billed = serviceLines.map((line) => key(line.serviceId, line.description)).sort();
+    const done = performed.map((s) => key(s.serviceId, s.serviceName)).sort();
+    if (performed.length === 0 || billed.join('|') === done.join('|')) return;
+
+    const defaultTax = serviceLines[0]?.taxCategory ?? 'standard';
+    const lines: InvoiceLineInput[] = performed.map((s) => ({
+      kind: 'service',
+      description: s.serviceName,
+      quantity: 1,
+      unitPrice: s.price,
+      taxCategory: serviceLines.find((line) => s.serviceId && line.serviceId === s.serviceId)?.taxCategory ?? defaultTax,
+      serviceId: s.serviceId,
+    }));
+    await replaceInvoiceCharges(tenantDb, invoiceId, lines, tx);
+  }, tx);
+  return ledger;
+}
+
+/**
+ * Remove a charge or discount line. Credit and gift card lines were redeemed
+ * against the customer's balance and can't simply be deleted.
+ */
+export async function removeInvoiceLine(tenantDb: TenantDb, invoiceId: number, lineId: number): Promise<InvoiceLedger> {
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    const line = current.lines.find((l) => l.id === lineId);
+    if (!line) throw new InvoiceLedgerError('Line item not found', 404);
+    if (line.discountSource === 'credit' || line.discountSource === 'gift_card') {
+      throw new InvoiceLedgerError('Store credit and gift card lines have already been redeemed and cannot be removed', 409);
+    }
+
+    await tx.delete(invoiceLineItems).where(eq(invoiceLineItems.id, line.id));
+
+    if (line.discountSource === 'referral') {
+      await tx
+        .update(invoices)
+        .set({
+          referralCode: null,
+          referralDiscount: null,
+          referralRewardType: null,
+          referralRewardValue: null,
+          referralOriginalAmount: null,
+        })
+        .where(eq(invoices.id, invoiceId));
+    }
+  });
+  return ledger;
+}
+
+/**
+ * Apply a discount from one of the supported sources. Referral, promo and
+ * manual discounts reduce the taxable amount; store credit and gift cards are
+ * redeemed against the balance due after tax.
+ */
+export async function applyInvoiceDiscount(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  input: InvoiceDiscountInput,
+  tx?: LedgerTx
+): Promise<DiscountResult> {
+  if (input.source === 'gift_card') {
+    return applyGiftCard(tenantDb, invoiceId, input.code, input.amount, tx);
+  }
+
+  const { ledger, result } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    if (current.balance.balanceDue <= 0) {
+      throw new InvoiceLedgerError('Invoice is already paid in full', 409);
+    }
+
+    switch (input.source) {
+      case 'referral':
+        return applyReferral(tx, tenantDb, current, input.code);
+
+      case 'promo': {
+        let sourceRef: string | null = null;
+        if (input.redeemedRewardId) {
+          const [reward] = await tx
+            .select()
+            .from(redeemedRewards)
+            .where(tenantDb.withTenantFilter(redeemedRewards, and(
+              eq(redeemedRewards.id, input.redeemedRewardId),
+              eq(redeemedRewards.customerId, current.invoice.customerId)
+            )))
+            .limit(1);
+          if (!reward) throw new InvoiceLedgerError('Loyalty offer not found for this customer', 404);
+          if (reward.status === 'completed' || reward.status === 'expired') {
+            throw new InvoiceLedgerError(`Loyalty offer is already ${reward.status}`, 409);
+          }
+          await tx
+            .update(redeemedRewards)
+            .set({ status: 'completed', appointmentId: current.invoice.appointmentId ?? reward.appointmentId })
+            .where(eq(redeemedRewards.id, reward.id));
+          sourceRef = String(reward.id);
+        }
+        await addInvoiceDiscountLine(tx, tenantDb, invoiceId, {
+          source: 'promo',
+          description: input.description,
+          amount: input.amount,
+          sourceRef,
+        });
+        return { applied: input.amount, message: `${input.description} applied` };
+      }
+
+      case 'manual':
+        await addInvoiceDiscountLine(tx, tenantDb, invoiceId, {
+          source: 'manual',
+          description: input.description,
+          amount: input.amount,
+        });
+        return { applied: input.amount, message: 'Discount applied' };
+
+      case 'credit': {
+        const requested = Math.min(input.amount ?? current.balance.balanceDue, current.balance.balanceDue);
+        const credit = await applyCredit(current.invoice.customerId, invoiceId, requested, tx);
+        if (credit.amountApplied <= 0) {
+          throw new InvoiceLedgerError('Customer has no store credit available', 422);
+        }
+        await addInvoiceDiscountLine(tx, tenantDb, invoiceId, {
+          source: 'credit',
+          description: 'Store credit',
+          amount: credit.amountApplied,
+        });
+        return {
+          applied: credit.amountApplied,
+          message: `Applied $${credit.amountApplied.toFixed(2)} store credit ($${credit.remainingBalance.toFixed(2)} remaining)`,
+        };
+      }
+    }
+  }, tx);
+
+  return { ledger, ...result };
+}
+
+async function applyReferral(
+  tx: LedgerTx,
+  tenantDb: TenantDb,
+  current: InvoiceLedger,
+  rawCode: string
+): Promise<{ applied: number; message: string }> {
+  const code = rawCode.toUpperCase().trim();
+  if (current.invoice.referralCode || current.lines.some((line) => line.discountSource === 'referral')) {
+    throw new InvoiceLedgerError(
+      `A referral code has already been applied to this invoice${current.invoice.referralCode ? `: ${current.invoice.referralCode}` : ''}`,
+      409
+    );
+  }
+
+  const validation = await validateReferralCode(tenantDb, code);
+  if (!validation.valid) {
+    throw new InvoiceLedgerError(validation.message || 'Invalid or expired referral code', 422);
+  }
+
+  const reward = await getRefereeRewardDescriptor(tenantDb);
+  if (!reward) throw new InvoiceLedgerError('Referral program configuration not found', 404);
+
+  let discount: number;
+  if (reward.type === 'fixed_discount') {
+    discount = reward.amount;
+  } else if (reward.type === 'percent_discount') {
+    discount = Math.round(current.totals.subtotal * reward.amount) / 100;
+  } else {
+    // Points, credits and other rewards are granted after the first service
+    return {
+      applied: 0,
+      message: `This referral code provides ${formatRewardDescription(reward)}, which will be applied after your first service is completed.`,
+    };
+  }
+  discount = Math.min(discount, current.totals.subtotal - current.totals.discountTotal);
+  if (discount <= 0) throw new InvoiceLedgerError('Nothing left to discount on this invoice', 422);
+
+  await addInvoiceDiscountLine(tx, tenantDb, current.invoice.id, {
+    source: 'referral',
+    description: `Referral discount (${code})`,
+    amount: discount,
+    sourceRef: code,
+  });
+  await tx
+    .update(invoices)
+    .set({
+      referralCode: code,
+      referralDiscount: money(discount),
+      referralRewardType: reward.type,
+      referralRewardValue: reward.amount.toString(),
+      referralOriginalAmount: money(current.totals.total),
+    })
+    .where(eq(invoices.id, current.invoice.id));
+
+  console.log(`[INVOICE LEDGER] Referral ${code} applied to invoice ${current.invoice.id}: -$${discount.toFixed(2)}`);
+  return { applied: discount, message: `Referral code applied! You saved $${discount.toFixed(2)}` };
+}
+
+/**
+ * Redeem a gift card against the balance due. The amount is worked out under
+ * the invoice lock and the card is redeemed in the same transaction as the
+ * discount line, so a failed ledger write never leaves a card charged.
+ */
+async function applyGiftCard(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  code: string,
+  requestedAmount?: number,
+  outerTx?: LedgerTx
+): Promise<DiscountResult> {
+  const card = await validateGiftCardCode(tenantDb.tenantId, code);
+  if (!card.valid || !card.giftCardId || !card.currentBalanceCents) {
+    throw new InvoiceLedgerError(card.error || 'Gift card is not valid', 422);
+  }
+  const giftCardId = card.giftCardId;
+
+  const { ledger, result } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    if (current.balance.balanceDue <= 0) throw new InvoiceLedgerError('Invoice is already paid in full', 409);
+
+    const wantedCents = Math.round(Math.min(requestedAmount ?? current.balance.balanceDue, current.balance.balanceDue) * 100);
+    const appliedCents = Math.min(card.currentBalanceCents!, wantedCents);
+    const redemption = await recordRedemption(tenantDb.tenantId, giftCardId, appliedCents, undefined, { invoiceId }, tx);
+    if (!redemption.success) {
+      throw new InvoiceLedgerError(redemption.error || 'Failed to redeem gift card', 422);
+    }
+
+    const applied = appliedCents / 100;
+    await addInvoiceDiscountLine(tx, tenantDb, invoiceId, {
+      source: 'gift_card',
+      description: `Gift card ${card.referenceCode || ''}`.trim(),
+      amount: applied,
+      sourceRef: String(giftCardId),
+    });
+    return { applied, leftCents: card.currentBalanceCents! - appliedCents };
+  }, outerTx);
+
+  return {
+    ledger,
+    applied: result.applied,
+    message: `Applied $${result.applied.toFixed(2)} from gift card ($${(result.leftCents / 100).toFixed(2)} left on the card)`,
+  };
+}
+
+/**
+ * Record a payment received outside Stripe checkout (cash, check, card
+ * terminal, PayPal, ...). Overpayments are rejected.
+ */
+export async function recordInvoicePayment(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  input: InvoicePaymentInput,
+  recordedBy?: number | null,
+  outerTx?: LedgerTx
+): Promise<InvoiceLedger> {
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    assertOpen(current);
+    if (Math.round(input.amount * 100) > Math.round(current.balance.balanceDue * 100)) {
+      throw new InvoiceLedgerError(`Payment exceeds the balance due of $${current.balance.balanceDue.toFixed(2)}`, 422);
+    }
+    await tx.insert(invoicePayments).values({
+      tenantId: tenantDb.tenantId,
+      invoiceId,
+      kind: 'payment',
+      method: input.method,
+      amount: money(input.amount),
+      reference: input.reference ?? null,
+      note: input.note ?? null,
+      recordedBy: recordedBy ?? null,
+      receivedAt: input.receivedAt ?? new Date(),
+    });
+  }, outerTx);
+  console.log(`[INVOICE LEDGER] $${input.amount.toFixed(2)} ${input.method} payment on invoice ${invoiceId}, balance $${ledger.balance.balanceDue.toFixed(2)}`);
+  return ledger;
+}
+
+/**
+ * Record a succeeded Stripe PaymentIntent. Safe to call more than once for
+ * the same intent (webhook retries, checkout + intent events).
+ */
+export async function recordStripePayment(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  paymentIntentId: string,
+  amount: number
+): Promise<InvoiceLedger> {
+  const { ledger } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    if (current.payments.some((p) => p.kind === 'payment' && p.stripePaymentIntentId === paymentIntentId)) {
+      return;
+    }
+    await tx.insert(invoicePayments).values({
+      tenantId: tenantDb.tenantId,
+      invoiceId,
+      kind: 'payment',
+      method: 'stripe',
+      amount: money(amount),
+      stripePaymentIntentId: paymentIntentId,
+    });
+    await tx
+      .update(invoices)
+      .set({ stripePaymentIntentId: paymentIntentId })
+      .where(eq(invoices.id, invoiceId));
+  });
+  return ledger;
+}
+
+/**
+ * Refund all or part of a payment. Stripe payments are refunded through
+ * Stripe; anything else records money handed back to the customer.
+ *
+ * A Stripe refund is written as a pending ledger row first and sent to
+ * Stripe after that commits, with the row id as the idempotency key and in
+ * the refund metadata, so a refund Stripe made is never lost to a rollback
+ * (syncStripeRefunds re-attaches it if the final update doesn't happen).
+ */
+export async function refundInvoicePayment(
+  tenantDb: TenantDb,
+  invoiceId: number,
+  paymentId: number,
+  input: InvoiceRefundInput,
+  recordedBy?: number | null
+): Promise<InvoiceLedger> {
+  const { ledger, result: pending } = await withInvoiceLedger(tenantDb, invoiceId, async (tx, current) => {
+    const payment = current.payments.find((p) => p.id === paymentId && p.kind === 'payment');
+    if (!payment) throw new InvoiceLedgerError('Payment not found', 404);
+    if (payment.status !== 'succeeded') throw new InvoiceLedgerError('Only settled payments can be refunded', 409);
+
+    const refunds = current.payments.filter((p) => p.refundOfPaymentId === payment.id);
+    const available = refundableAmount(parseMoney(payment.amount), refunds.map(toLedgerEntry));
+    const amount = input.amount ?? available;
+    if (amount <= 0 || Math.round(amount * 100) > Math.round(available * 100)) {
+      throw new InvoiceLedgerError(`Refund exceeds the refundable amount of $${available.toFixed(2)}`, 422);
+    }
+
+    const viaStripe = payment.method === 'stripe' && !!payment.stripePaymentIntentId;
+    if (viaStripe && !stripe) throw new InvoiceLedgerError('Stripe is not configured', 503);
+
+    const [refund] = await tx
+      .insert(invoicePayments)
+      .values({
+        tenantId: tenantDb.tenantId,
+        invoiceId,
+        kind: 'refund',
+        method: payment.method,
+        amount: money(amount),
+        status: viaStripe ? 'pending' : 'succeeded',
+        refundOfPaymentId: payment.id,
+        stripePaymentIntentId: payment.stripePaymentIntentId,
+        note: input.reason ?? null,
+        recordedBy: recordedBy ?? null,
+      })
+      .returning() as InvoicePayment[];
+
+    return viaStripe ? { refund, paymentIntentId: payment.stripePaymentIntentId!, amount } : null;
+  });
+
+  if (!pending) {
+    console.log(`[INVOICE LEDGER] Refund recorded on invoice ${invoiceId} payment ${paymentId}, status ${ledger.balance.paymentStatus}`);
+    return ledger;
+  }
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await stripe!.refunds.create({
+      payment_intent: pending.paymentIntentId,
+      amount: Math.round(pending.amount * 100),
+      metadata: {
+        invoiceId: String(invoiceId),
+        paymentId: String(paymentId),
+        ledgerRefundId: String(pending.refund.id),
+        tenantId: tenantDb.tenantId,
+      },
+    }, { idempotencyKey: `invoice-refund-${tenantDb.tenantId}-${pending.refund.id}` });
+  } catch (error: any) {
+    await withInvoiceLedger(tenantDb, invoiceId, async (tx) => {
+      await tx
+        .update(invoicePayments)
+        .set({ status: 'failed', note: `Stripe refund failed: ${error?.message || 'unknown error'}` })
+        .where(eq(invoicePayments.id, pending.refund.id));
+    });
+    throw new InvoiceLedgerError(`Stripe refund failed: ${error?.message || 'unknown error'}`, 502);
+  }
+
+  const { ledger: settled } = await withInvoiceLedger(tenantDb, invoiceId, async (tx) => {
+    await tx
+      .update(invoicePayments)
+      .set({ status: stripeRefundStatus(stripeRefund.status), stripeRefundId: stripeRefund.id })
+      .where(eq(invoicePayments.id, pending.refund.id));
+  });
+  console.log(`[INVOICE LEDGER] Stripe refund ${stripeRefund.id} recorded on invoice ${invoiceId} payment ${paymentId}, status ${settled.balance.paymentStatus}`);
+  return settled;
+}
+
+/**
+ * Pull refunds for a PaymentIntent from Stripe into the ledger: refunds
+ * issued from the Stripe dashboard are added and pending ones get their
+ * final status. Returns the number of ledger rows inserted or updated.
+ */
+export async function syncStripeRefunds(tenantDb: TenantDb, paymentIntentId: string): Promise<number> {
+  if (!stripe) return 0;
+
+  const [payment] = await tenantDb
+    .select()
+    .from(invoicePayments)
+    .where(tenantDb.withTenantFilter(invoicePayments, and(
+      eq(invoicePayments.stripePaymentIntentId, paymentIntentId),
+      eq(invoicePayments.kind, 'payment')
+    )))
+    .limit(1);
+  if (!payment) {
+    console.warn(`[INVOICE LEDGER] No ledger payment for PaymentIntent ${paymentIntentId}, skipping refund sync`);
+    return 0;
+  }
+
+  const stripeRefunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+
+  const { result: changed } = await withInvoiceLedger(tenantDb, payment.invoiceId, async (tx, current) => {
+    let count = 0;
+    for (const refund of stripeRefunds.data) {
+      const status = stripeRefundStatus(refund.status);
+      // Refunds issued from here carry their ledger row id until the row gets the Stripe id
+      const existing = current.payments.find((p) => p.stripeRefundId === refund.id)
+        ?? current.payments.find((p) => !p.stripeRefundId && String(p.id) === refund.metadata?.ledgerRefundId);
+      if (existing) {
+        if (existing.status !== status || existing.stripeRefundId !== refund.id) {
+          await tx
+            .update(invoicePayments)
+            .set({ status, stripeRefundId: refund.id })
+            .where(eq(invoicePayments.id, existing.id));
+          count++;
+        }
+        continue;
+      }
+      await tx
+        .insert(invoicePayments)
+        .values({
+          tenantId: tenantDb.tenantId,
+          invoiceId: payment.invoiceId,
+          kind: 'refund',
+          method: 'stripe',
+          amount: money(refund.amount / 100),
+          status,
+          refundOfPaymentId: payment.id,
+          stripePaymentIntentId: paymentIntentId,
+          stripeRefundId: refund.id,
+          note: refund.reason ? `Stripe: ${refund.reason}` : 'Refunded in Stripe',
+          receivedAt: new Date(refund.created * 1000),
+        })
+        .onConflictDoNothing();
+      count++;
+    }
+    return count;
+  });
+
+  if (changed > 0) {
+    console.log(`[INVOICE LEDGER] Synced ${changed} Stripe refund(s) for invoice ${payment.invoiceId}`);
+  }
+  return changed;
+}
@@ -7,6 +7,7 @@
  * - Clean Machine's current IVR as default for root tenant
  * - Generic fallback menus for other tenants
  * - Safe fallbacks when config is missing/broken
+ * - Submenus, hours routing and voicemail boxes for the flow editor
  * 
  * MULTI-TENANT SAFETY:
  * - All functions require explicit tenantId parameter
@@ -19,14 +20,37 @@ import { db } from '../db';
 import { 
   ivrMenus, 
   ivrMenuItems, 
+  ivrVoicemailBoxes,
+  phoneLines,
+  phoneSchedules,
   tenantConfig, 
   tenantPhoneConfig,
   type IvrMenu,
   type IvrMenuItem,
   type IvrMenuWithItems,
   type IvrActionType,
+  type IvrVoicemailBox,
 } from '../../shared/schema';
-import { eq, and, asc } from 'drizzle-orm';
+import {
+  findIvrFlowCycle,
+  ivrFlowDepth,
+  ivrFlowEdges,
+  resolveEntryMenu,
+  IVR_MAX_MENU_DEPTH,
+  type IvrFlowMenu,
+  type IvrHoursRouting,
+  type IvrScheduleWindow,
+} from '../../shared/ivrFlow';
+import { wrapTenantDb } from '../tenantDb';
+import { getTenantTimezone } from '../timezoneUtils';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+
+export class IvrConfigError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'IvrConfigError';
+  }
+}
 
 /**
  * Default Clean Machine IVR configuration
@@ -197,6 +221,179 @@ export async function getActiveMenuForTenant(tenantId: string, menuKey: string =
   }
 }
 
+/**
+ * Get one of a tenant's menus by id (submenus, closed/holiday menus)
+ * 
+ * MULTI-TENANT: Filters by tenantId so a menuId from a callback URL can't
+ * reach another tenant's menu
+ */
+export async function getMenuByIdForTenant(tenantId: string, menuId: number): Promise<IvrMenuWithItems | null> {
+  try {
+    const [menu] = await db
+      .select()
+      .from(ivrMenus)
+      .where(and(
+        eq(ivrMenus.tenantId, tenantId),
+        eq(ivrMenus.id, menuId),
+        eq(ivrMenus.isActive, true)
+      ))
+      .limit(1);
+
+    if (!menu) {
+      return null;
+    }
+
+    const items = await db
+      .select()
+      .from(ivrMenuItems)
+      .where(eq(ivrMenuItems.menuId, menu.id))
+      .orderBy(asc(ivrMenuItems.orderIndex));
+
+    return { ...menu, items };
+  } catch (error) {
+    console.error(`[IVR CONFIG] Error loading menu ${menuId} for tenant ${tenantId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * All active menus for a tenant with their items - the nodes of the flow
+ */
+export async function listMenusForTenant(tenantId: string): Promise<IvrMenuWithItems[]> {
+  const menus = await db
+    .select()
+    .from(ivrMenus)
+    .where(and(
+      eq(ivrMenus.tenantId, tenantId),
+      eq(ivrMenus.isActive, true)
+    ))
+    .orderBy(asc(ivrMenus.id));
+
+  if (menus.length === 0) {
+    return [];
+  }
+
+  const items = await db
+    .select()
+    .from(ivrMenuItems)
+    .where(inArray(ivrMenuItems.menuId, menus.map(menu => menu.id)))
+    .orderBy(asc(ivrMenuItems.orderIndex));
+
+  return menus.map(menu => ({ ...menu, items: items.filter(item => item.menuId === menu.id) }));
+}
+
+/**
+ * Create an empty submenu for a tenant
+ * The editor links it in with a SUBMENU item or hours routing afterwards
+ */
+export async function createMenuForTenant(
+  tenantId: string,
+  input: { name: string; greetingText: string; voiceName?: string }
+): Promise<IvrMenuWithItems> {
+  const [menu] = await db
+    .insert(ivrMenus)
+    .values({
+      tenantId, // CRITICAL: Always set tenantId
+      key: `menu_${Date.now().toString(36)}`,
+      name: input.name,
+      greetingText: input.greetingText,
+      noInputMessage: "We didn't receive any input. Let me repeat the options.",
+      invalidInputMessage: "Sorry, that's not a valid option.",
+      maxAttempts: 3,
+      voiceName: input.voiceName || 'alice',
+      isActive: true,
+    })
+    .returning();
+
+  console.log(`[IVR CONFIG] Created menu ${menu.id} (${menu.name}) for tenant ${tenantId}`);
+  return { ...menu, items: [] };
+}
+
+/**
+ * Delete a submenu. The main menu can't be deleted (use reset), and a menu
+ * other menus still lead to must be unlinked first.
+ */
+export async function deleteMenuForTenant(tenantId: string, menuId: number): Promise<void> {
+  const menus = await listMenusForTenant(tenantId);
+  const menu = menus.find(m => m.id === menuId);
+
+  if (!menu) {
+    throw new IvrConfigError('Menu not found', 404);
+  }
+  if (menu.key === 'main') {
+    throw new IvrConfigError('The main menu cannot be deleted');
+  }
+
+  const linkedFrom = menus.filter(m => m.id !== menuId && ivrFlowEdges(m).some(edge => edge.to === menuId));
+  if (linkedFrom.length > 0) {
+    throw new IvrConfigError(`"${menu.name}" is still used by ${linkedFrom.map(m => `"${m.name}"`).join(', ')}`);
+  }
+
+  await db.delete(ivrMenuItems).where(eq(ivrMenuItems.menuId, menuId));
+  await db
+    .delete(ivrMenus)
+    .where(and(
+      eq(ivrMenus.id, menuId),
+      eq(ivrMenus.tenantId, tenantId) // Defense in depth
+    ));
+
+  console.log(`[IVR CONFIG] Deleted menu ${menuId} for tenant ${tenantId}`);
+}
+
+/**
+ * Business hours for the line a call came in on, from phone_schedules,
+ * plus the tenant's timezone. Lines without a schedule are always open.
+ */
+export async function getIvrScheduleForLine(
+  tenantId: string,
+  phoneNumber: string | null
+): Promise<{ schedules: IvrScheduleWindow[]; timezone: string }> {
+  const timezone = await getTenantTimezone(wrapTenantDb(db, tenantId));
+  if (!phoneNumber) {
+    return { schedules: [], timezone };
+  }
+
+  // Phone lines are shared telephony assets - look up by number like the voice routes do
+  const [line] = await db
+    .select({ id: phoneLines.id })
+    .from(phoneLines)
+    .where(eq(phoneLines.phoneNumber, phoneNumber))
+    .limit(1);
+  if (!line) {
+    return { schedules: [], timezone };
+  }
+
+  const schedules = await db
+    .select()
+    .from(phoneSchedules)
+    .where(eq(phoneSchedules.phoneLineId, line.id));
+  return { schedules, timezone };
+}
+
+/**
+ * The menu a call should hear: the requested menu (main when none), after
+ * following its closed/holiday routing for the current time
+ */
+export async function resolveIvrMenuForCall(
+  tenantId: string,
+  phoneNumber: string | null,
+  menuId?: number | null
+): Promise<IvrMenuWithItems> {
+  const menus = await listMenusForTenant(tenantId);
+  const start = (menuId ? menus.find(m => m.id === menuId) : undefined)
+    ?? menus.find(m => m.key === 'main');
+  if (!start) {
+    return getOrCreateDefaultMenuForTenant(tenantId);
+  }
+
+  const { schedules, timezone } = await getIvrScheduleForLine(tenantId, phoneNumber);
+  const resolved = resolveEntryMenu(menus, start.id, schedules, new Date(), timezone);
+  if (resolved && resolved.hops.length > 0) {
+    console.log(`[IVR CONFIG] tenant=${tenantId} menu ${start.id} routed to ${resolved.menu.id} (${resolved.hops.map(h => h.branch).join(' → ')})`);
+  }
+  return resolved?.menu ?? start;
+}
+
 /**
  * Get or create the default IVR menu for a tenant
  * 
@@ -399,6 +596,7 @@ function getSafeFallbackMenu(tenantId: string): IvrMenuWithItems {
     invalidInputMessage: "That's not a valid option.",
     maxAttempts: 2,
     voiceName: 'alice',
+    hoursRouting: null,
     isActive: true,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -432,11 +630,13 @@ function getSafeFallbackMenu(tenantId: string): IvrMenuWithItems {
 export async function updateMenuForTenant(
   tenantId: string,
   menuUpdate: {
+    name?: string;
     greetingText?: string;
     noInputMessage?: string;
     invalidInputMessage?: string;
     maxAttempts?: number;
     voiceName?: string;
+    hoursRouting?: IvrHoursRouting | null;
     items?: Array<{
       id?: number;
       digit: string;
@@ -446,12 +646,18 @@ export async function updateMenuForTenant(
       isHidden?: boolean;
       orderIndex?: number;
     }>;
-  }
+  },
+  menuId?: number
 ): Promise<IvrMenuWithItems> {
-  // Get existing menu (or create if doesn't exist)
-  let menu = await getActiveMenuForTenant(tenantId, 'main');
+  // Get existing menu (or create if doesn't exist); a menuId targets a submenu
+  let menu = menuId !== undefined
+    ? await getMenuByIdForTenant(tenantId, menuId)
+    : await getActiveMenuForTenant(tenantId, 'main');
   
   if (!menu) {
+    if (menuId !== undefined) {
+      throw new IvrConfigError('Menu not found', 404);
+    }
     // Create new menu first
     menu = await getOrCreateDefaultMenuForTenant(tenantId);
   }
@@ -463,11 +669,13 @@ export async function updateMenuForTenant(
 
   // Update menu properties
   const menuValues: Partial<IvrMenu> = {};
+  if (menuUpdate.name !== undefined) menuValues.name = menuUpdate.name;
   if (menuUpdate.greetingText !== undefined) menuValues.greetingText = menuUpdate.greetingText;
   if (menuUpdate.noInputMessage !== undefined) menuValues.noInputMessage = menuUpdate.noInputMessage;
   if (menuUpdate.invalidInputMessage !== undefined) menuValues.invalidInputMessage = menuUpdate.invalidInputMessage;
   if (menuUpdate.maxAttempts !== undefined) menuValues.maxAttempts = menuUpdate.maxAttempts;
   if (menuUpdate.voiceName !== undefined) menuValues.voiceName = menuUpdate.voiceName;
+  if (menuUpdate.hoursRouting !== undefined) menuValues.hoursRouting = menuUpdate.hoursRouting;
   menuValues.updatedAt = new Date();
 
   if (Object.keys(menuValues).length > 0) {
@@ -505,7 +713,7 @@ export async function updateMenuForTenant(
   }
 
   // Return updated menu
-  const updated = await getActiveMenuForTenant(tenantId, 'main');
+  const updated = await getMenuByIdForTenant(tenantId, menu.id);
   if (!updated) {
     throw new Error('Failed to retrieve updated menu');
   }
@@ -551,19 +759,31 @@ export async function resetMenuToDefaults(tenantId: string): Promise<IvrMenuWith
 /**
  * Validate IVR menu configuration
  * Returns list of validation errors (empty if valid)
+ * 
+ * Pass the tenant's other menus as `flow` to also check the links out of this
+ * menu: submenu and hours-routing targets must exist, must not lead back
+ * into a loop, and must not nest deeper than IVR_MAX_MENU_DEPTH.
  */
-export function validateIvrMenu(menu: {
-  greetingText?: string;
-  noInputMessage?: string;
-  invalidInputMessage?: string;
-  maxAttempts?: number;
-  items?: Array<{
-    digit: string;
-    label: string;
-    actionType: string;
-    actionPayload?: Record<string, any>;
-  }>;
-}): string[] {
+export function validateIvrMenu(
+  menu: {
+    greetingText?: string;
+    noInputMessage?: string;
+    invalidInputMessage?: string;
+    maxAttempts?: number;
+    hoursRouting?: IvrHoursRouting | null;
+    items?: Array<{
+      digit: string;
+      label: string;
+      actionType: string;
+      actionPayload?: Record<string, any>;
+    }>;
+  },
+  flow?: {
+    menuId: number;
+    menus: IvrFlowMenu[];
+    voicemailBoxIds?: number[];
+  }
+): string[] {
   const errors: string[] = [];
 
   // Validate greeting
@@ -612,12 +832,142 @@ export function validateIvrMenu(menu: {
       if ((item.actionType === 'PLAY_MESSAGE' || item.actionType === 'EASTER_EGG') && !item.actionPayload?.message) {
         errors.push(`Message is required for ${item.actionType} action on digit ${item.digit}`);
       }
+      if (item.actionType === 'SUBMENU' && !item.actionPayload?.submenuId) {
+        errors.push(`Submenu is required for SUBMENU action on digit ${item.digit}`);
+      }
     }
   }
 
+  if (flow) {
+    errors.push(...validateIvrMenuLinks(menu, flow));
+  }
+
   return errors;
 }
 
+function validateIvrMenuLinks(
+  menu: Parameters<typeof validateIvrMenu>[0],
+  flow: NonNullable<Parameters<typeof validateIvrMenu>[1]>
+): string[] {
+  const errors: string[] = [];
+  const existing = flow.menus.find(m => m.id === flow.menuId);
+  const edited: IvrFlowMenu = {
+    id: flow.menuId,
+    name: existing?.name || 'This menu',
+    key: existing?.key,
+    hoursRouting: menu.hoursRouting !== undefined ? menu.hoursRouting : existing?.hoursRouting,
+    items: menu.items ?? existing?.items ?? [],
+  };
+  const menus = [...flow.menus.filter(m => m.id !== flow.menuId), edited];
+  const names = new Map(menus.map(m => [m.id, m.name]));
+
+  for (const edge of ivrFlowEdges(edited)) {
+    const where = edge.via === 'submenu' ? `digit ${edge.digit}` : `${edge.via} routing`;
+    if (!names.has(edge.to)) {
+      errors.push(`Menu ${edge.to} used by ${where} does not exist`);
+    } else if (edge.to === edited.id) {
+      errors.push(`${where.charAt(0).toUpperCase()}${where.slice(1)} points back to this menu. Use REPLAY_MENU to repeat it`);
+    }
+  }
+
+  if (flow.voicemailBoxIds) {
+    for (const item of edited.items) {
+      const boxId = item.actionPayload?.voicemailBoxId;
+      if (item.actionType === 'VOICEMAIL' && boxId && !flow.voicemailBoxIds.includes(Number(boxId))) {
+        errors.push(`Voicemail box ${boxId} on digit ${item.digit} does not exist`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const cycle = findIvrFlowCycle(menus);
+  if (cycle) {
+    errors.push(`Menus loop back on themselves: ${cycle.map(id => names.get(id)).join(' → ')}`);
+  } else if (ivrFlowDepth(menus, edited.id) > IVR_MAX_MENU_DEPTH) {
+    errors.push(`Menus are nested too deeply (more than ${IVR_MAX_MENU_DEPTH} levels below this menu)`);
+  }
+
+  return errors;
+}
+
+// ============================================================
+// VOICEMAIL BOXES
+// ============================================================
+
+export async function listVoicemailBoxesForTenant(tenantId: string): Promise<IvrVoicemailBox[]> {
+  return db
+    .select()
+    .from(ivrVoicemailBoxes)
+    .where(and(
+      eq(ivrVoicemailBoxes.tenantId, tenantId),
+      eq(ivrVoicemailBoxes.isActive, true)
+    ))
+    .orderBy(asc(ivrVoicemailBoxes.name));
+}
+
+export async function getVoicemailBoxForTenant(tenantId: string, boxId: number): Promise<IvrVoicemailBox | null> {
+  const [box] = await db
+    .select()
+    .from(ivrVoicemailBoxes)
+    .where(and(
+      eq(ivrVoicemailBoxes.tenantId, tenantId),
+      eq(ivrVoicemailBoxes.id, boxId),
+      eq(ivrVoicemailBoxes.isActive, true)
+    ))
+    .limit(1);
+  return box || null;
+}
+
+export async function saveVoicemailBoxForTenant(
+  tenantId: string,
+  input: { name: string; greetingText?: string | null; notifyUserIds?: number[]; transcribe?: boolean },
+  boxId?: number
+): Promise<IvrVoicemailBox> {
+  if (boxId === undefined) {
+    const [created] = await db
+      .insert(ivrVoicemailBoxes)
+      .values({ tenantId, ...input })
+      .returning();
+    return created;
+  }
+
+  const [updated] = await db
+    .update(ivrVoicemailBoxes)
+    .set({ ...input, updatedAt: new Date() })
+    .where(and(
+      eq(ivrVoicemailBoxes.id, boxId),
+      eq(ivrVoicemailBoxes.tenantId, tenantId)
+    ))
+    .returning();
+  if (!updated) {
+    throw new IvrConfigError('Voicemail box not found', 404);
+  }
+  return updated;
+}
+
+/**
+ * Delete a voicemail box that no menu option still sends callers to
+ */
+export async function deleteVoicemailBoxForTenant(tenantId: string, boxId: number): Promise<void> {
+  const menus = await listMenusForTenant(tenantId);
+  const usedBy = menus.filter(menu => menu.items.some(item =>
+    item.actionType === 'VOICEMAIL' && Number(item.actionPayload?.voicemailBoxId) === boxId
+  ));
+  if (usedBy.length > 0) {
+    throw new IvrConfigError(`This voicemail box is still used by ${usedBy.map(m => `"${m.name}"`).join(', ')}`);
+  }
+
+  await db
+    .delete(ivrVoicemailBoxes)
+    .where(and(
+      eq(ivrVoicemailBoxes.id, boxId),
+      eq(ivrVoicemailBoxes.tenantId, tenantId)
+    ));
+}
+
 /**
  * Check if IVR is configured for a tenant
  */
@@ -37,6 +37,12 @@ export interface IvrConfig {
   sipUsername: string;
 }
 
+export interface VoicemailBoxTwimlOptions {
+  id: number;
+  greetingText?: string | null;
+  transcribe?: boolean;
+}
+
 // Valid DTMF digits for the IVR menu (7 is secret easter egg - not mentioned in prompt)
 export const VALID_IVR_DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '#'];
 
@@ -135,13 +141,15 @@ export function findMenuItemByDigit(menu: IvrMenuWithItems, digit: string): IvrM
  * @param callerNumber - Caller's phone number
  * @param callbackBaseUrl - Base URL for callbacks
  * @param voicemailGreetingUrl - Optional custom voicemail greeting MP3 URL
+ * @param voicemailBox - Department box for a VOICEMAIL item with voicemailBoxId
  */
 export function buildActionTwiml(
   item: IvrMenuItem,
   menu: IvrMenuWithItems,
   callerNumber: string,
   callbackBaseUrl: string,
-  voicemailGreetingUrl?: string | null
+  voicemailGreetingUrl?: string | null,
+  voicemailBox?: VoicemailBoxTwimlOptions | null
 ): string {
   const voiceName = menu.voiceName || 'alice';
   const payload = item.actionPayload || {};
@@ -160,7 +168,7 @@ export function buildActionTwiml(
       return buildForwardPhoneTwiml(payload.phoneNumber || '', callerNumber, callbackBaseUrl, voiceName);
       
     case 'VOICEMAIL':
-      return buildVoicemailTwiml(callbackBaseUrl, voiceName, voicemailGreetingUrl);
+      return buildVoicemailTwiml(callbackBaseUrl, voiceName, voicemailGreetingUrl, voicemailBox);
       
     case 'SUBMENU':
       // For submenu, we redirect to the incoming handler with the submenu ID
@@ -416,11 +424,14 @@ export function buildForwardToPersonTwiml(config: IvrConfig, callerNumber: strin
 export function buildVoicemailTwiml(
   callbackBaseUrl: string, 
   voiceName: string = 'alice',
-  voicemailGreetingUrl?: string | null
+  voicemailGreetingUrl?: string | null,
+  voicemailBox?: VoicemailBoxTwimlOptions | null
 ): string {
-  // Build greeting: use custom MP3 if available, otherwise TTS
+  // Build greeting: a department box's own greeting first, then custom MP3, otherwise TTS
   let greetingTwiml: string;
-  if (voicemailGreetingUrl) {
+  if (voicemailBox?.greetingText) {
+    greetingTwiml = `<Say voice="${voiceName}">${escapeXml(voicemailBox.greetingText)}</Say>`;
+  } else if (voicemailGreetingUrl) {
     // Custom MP3 greeting
     greetingTwiml = `<Play>${escapeXml(voicemailGreetingUrl)}</Play>`;
   } else {
@@ -428,10 +439,14 @@ export function buildVoicemailTwiml(
     greetingTwiml = `<Say voice="${voiceName}">Please leave your name, vehicle, and what you're looking to get done, and we'll text you back. Press any key when you're finished.</Say>`;
   }
   
+  // Box id rides along on the callbacks so the voicemail reaches that box's staff
+  const boxQuery = voicemailBox ? `?boxId=${voicemailBox.id}` : '';
+  const transcribe = voicemailBox?.transcribe === false ? 'false' : 'true';
+  
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
   ${greetingTwiml}
-  <Record maxLength="120" playBeep="true" transcribe="true" action="${callbackBaseUrl}/twilio/voice/voicemail-complete" method="POST" recordingStatusCallback="${callbackBaseUrl}/twilio/voice/recording-status" recordingStatusCallbackMethod="POST" transcribeCallback="${callbackBaseUrl}/twilio/voice/voicemail-transcribed" finishOnKey="any"/>
+  <Record maxLength="120" playBeep="true" transcribe="${transcribe}" action="${callbackBaseUrl}/twilio/voice/voicemail-complete" method="POST" recordingStatusCallback="${callbackBaseUrl}/twilio/voice/recording-status${boxQuery}" recordingStatusCallbackMethod="POST" transcribeCallback="${callbackBaseUrl}/twilio/voice/voicemail-transcribed${boxQuery}" finishOnKey="any"/>
   <Say voice="${voiceName}">We didn't receive your message. Goodbye.</Say>
   <Hangup/>
 </Response>`;
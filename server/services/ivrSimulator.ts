@@ -0,0 +1,134 @@
+/**
+ * IVR Test Call Simulator
+ *
+ * Walks a tenant's IVR flow the way Twilio would for a caller pressing a
+ * given sequence of digits, using the same TwiML builders as the live
+ * routes. Lets the flow editor show exactly what a caller hears (and which
+ * hours branch they took) without placing a call.
+ */
+
+import type { IvrMenuWithItems } from '../../shared/schema';
+import { resolveEntryMenu, type IvrHoursBranch, type IvrScheduleWindow } from '../../shared/ivrFlow';
+import {
+  buildActionTwiml,
+  buildConfigDrivenInvalidTwiml,
+  buildConfigDrivenMenuTwiml,
+  findMenuItemByDigit,
+  type VoicemailBoxTwimlOptions,
+} from './ivrHelper';
+
+export interface IvrSimulationStep {
+  kind: 'hours' | 'menu' | 'digit' | 'invalid' | 'end';
+  menuId: number;
+  menuName: string;
+  description: string;
+  digit?: string;
+  branch?: IvrHoursBranch;
+  actionType?: string;
+  twiml?: string;
+}
+
+export interface IvrSimulationInput {
+  menus: IvrMenuWithItems[];
+  entryMenuId: number;
+  digits: string[];
+  schedules: IvrScheduleWindow[];
+  now: Date;
+  timezone: string;
+  callerNumber?: string;
+  callbackBaseUrl?: string;
+  voicemailBoxes?: Array<VoicemailBoxTwimlOptions & { name: string }>;
+}
+
+export interface IvrSimulationResult {
+  steps: IvrSimulationStep[];
+  finished: boolean; // false = caller is still sitting at a menu
+}
+
+const MAX_SIMULATION_STEPS = 50;
+
+export function simulateIvrCall(input: IvrSimulationInput): IvrSimulationResult {
+  const callbackBaseUrl = input.callbackBaseUrl || 'https://example.com';
+  const callerNumber = input.callerNumber || '+15555550100';
+  const byId = new Map(input.menus.map(menu => [menu.id, menu]));
+  const steps: IvrSimulationStep[] = [];
+
+  const enter = (menuId: number): IvrMenuWithItems | null => {
+    const resolved = resolveEntryMenu(input.menus, menuId, input.schedules, input.now, input.timezone);
+    if (!resolved) {
+      steps.push({ kind: 'end', menuId, menuName: `Menu ${menuId}`, description: `Menu ${menuId} does not exist - the call would fail here` });
+      return null;
+    }
+
+    resolved.hops.forEach((hop, index) => {
+      const from = byId.get(hop.menuId)!;
+      const to = byId.get(resolved.hops[index + 1]?.menuId ?? resolved.menu.id)!;
+      steps.push({
+        kind: 'hours',
+        menuId: from.id,
+        menuName: from.name,
+        branch: hop.branch,
+        description: `${hop.branch === 'holiday' ? 'Holiday' : 'Closed'} - sent from "${from.name}" to "${to.name}"`,
+      });
+    });
+
+    steps.push({
+      kind: 'menu',
+      menuId: resolved.menu.id,
+      menuName: resolved.menu.name,
+      description: `Caller hears "${resolved.menu.name}"`,
+      twiml: buildConfigDrivenMenuTwiml(resolved.menu, callbackBaseUrl, 1),
+    });
+    return resolved.menu;
+  };
+
+  let current = enter(input.entryMenuId);
+  let attempt = 1;
+
+  for (const digit of input.digits) {
+    if (!current || steps.length >= MAX_SIMULATION_STEPS) break;
+
+    const item = findMenuItemByDigit(current, digit);
+    if (!item) {
+      const twiml = buildConfigDrivenInvalidTwiml(current, callbackBaseUrl, attempt);
+      const hangsUp = attempt >= (current.maxAttempts || 3);
+      steps.push({
+        kind: 'invalid',
+        menuId: current.id,
+        menuName: current.name,
+        digit,
+        description: hangsUp ? `No option for ${digit} - out of attempts, call ends` : `No option for ${digit} - menu repeats`,
+        twiml,
+      });
+      if (hangsUp) return { steps, finished: true };
+      attempt++;
+      continue;
+    }
+
+    const boxId = Number(item.actionPayload?.voicemailBoxId);
+    const box = item.actionType === 'VOICEMAIL' && boxId
+      ? input.voicemailBoxes?.find(b => b.id === boxId) ?? null
+      : null;
+    steps.push({
+      kind: 'digit',
+      menuId: current.id,
+      menuName: current.name,
+      digit,
+      actionType: item.actionType,
+      description: box ? `Pressed ${digit}: ${item.label} (${box.name} voicemail)` : `Pressed ${digit}: ${item.label}`,
+      twiml: buildActionTwiml(item, current, callerNumber, callbackBaseUrl, null, box),
+    });
+
+    if (item.actionType === 'SUBMENU') {
+      current = enter(Number(item.actionPayload?.submenuId));
+      attempt = 1;
+    } else if (item.actionType === 'REPLAY_MENU') {
+      current = enter(current.id);
+      attempt = 1;
+    } else {
+      return { steps, finished: true };
+    }
+  }
+
+  return { steps, finished: current === null };
+}
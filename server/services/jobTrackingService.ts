@@ -0,0 +1,374 @@
+/**
+ * Job Tracking Service
+ *
+ * Turns technician status transitions into the customer's day-of experience:
+ * records each transition on the job timeline, estimates arrival when the
+ * tech heads out, texts the customer (with the tech's photo as MMS when the
+ * profile is approved for sharing), and broadcasts the update to dashboards.
+ * Customers follow along on /track/:token without logging in.
+ */
+
+import { asc, eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { appointments, customers, jobStatusEvents, technicians } from '@shared/schema';
+import type { Appointment, JobStatusEvent, Technician } from '@shared/schema';
+import {
+  buildJobTimeline,
+  computeEta,
+  minutesUntil,
+  progressIndex,
+  shouldNotifyCustomer,
+  type JobTimelineStep,
+} from '@shared/jobTracking';
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import { getTravelTimeMinutes } from './travelTimeService';
+import { getTenantTimezone } from '../timezoneUtils';
+
+export interface JobStatusTransition {
+  previous: Appointment;
+  updated: Appointment;
+  status: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface JobTrackingUpdate {
+  event: JobStatusEvent;
+  trackingToken: string | null;
+  trackingUrl: string | null;
+  etaMinutes: number | null;
+  etaAt: Date | null;
+  customerNotified: boolean;
+}
+
+export interface PublicTechProfile {
+  publicId: string;
+  preferredName: string;
+  city: string | null;
+  bioAbout: string | null;
+  bioTags: unknown;
+  photoCard320Url: string | null;
+  verified: boolean;
+}
+
+export interface JobTrackingView {
+  status: string;
+  progress: JobTimelineStep[];
+  scheduledTime: Date;
+  serviceType: string | null;
+  etaAt: Date | null;
+  etaMinutes: number | null;
+  technician: PublicTechProfile | null;
+  updatedAt: Date | null;
+}
+
+function getBaseUrl(): string {
+  if (process.env.REPLIT_DEV_DOMAIN) {
+    return `https://${process.env.REPLIT_DEV_DOMAIN}`;
+  }
+  return process.env.PUBLIC_URL || 'https://cleanmachine.app';
+}
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function trackingUrlFor(token: string): string {
+  return `${getBaseUrl()}/track/${token}`;
+}
+
+/**
+ * Fields from a technician profile that are safe to show customers - the
+ * same data the /p/:publicId page serves. Null until an admin approves the
+ * profile and the tech has consented to sharing it.
+ */
+export function toPublicTechProfile(tech: Technician): PublicTechProfile | null {
+  if (!tech.profileReviewed || tech.consentPublicProfile === false) return null;
+  return {
+    publicId: tech.publicId,
+    preferredName: tech.preferredName,
+    city: tech.city,
+    bioAbout: tech.bioAbout,
+    bioTags: tech.bioTags,
+    photoCard320Url: tech.photoCard320,
+    verified: !!tech.profileReviewed,
+  };
+}
+
+// Managers acting through the admin override carry a placeholder technician
+// id, so the job's assigned technician is always read back from the table
+async function loadTechnician(tenantDb: TenantDb, technicianId: number | null): Promise<Technician | null> {
+  if (!technicianId || technicianId <= 0) return null;
+  const [tech] = await tenantDb
+    .select()
+    .from(technicians)
+    .where(tenantDb.withTenantFilter(technicians, eq(technicians.id, technicianId)))
+    .limit(1);
+  return tech ?? null;
+}
+
+/**
+ * Drive-time estimate from the tech's current position to the job. The
+ * status endpoint overwrites appointments.latitude/longitude with the tech's
+ * GPS, so the geocoded address (or the pre-update coordinates) is the target.
+ */
+async function estimateArrival(tenantDb: TenantDb, transition: JobStatusTransition, now: Date) {
+  const { previous, latitude, longitude } = transition;
+  const jobLat = toNumber(previous.addressLat) ?? toNumber(previous.latitude);
+  const jobLng = toNumber(previous.addressLng) ?? toNumber(previous.longitude);
+  const techLat = toNumber(latitude);
+  const techLng = toNumber(longitude);
+  if (jobLat === null || jobLng === null || techLat === null || techLng === null) {
+    return null;
+  }
+
+  try {
+    const timezone = await getTenantTimezone(tenantDb);
+    const minutes = await getTravelTimeMinutes(techLat, techLng, jobLat, jobLng, {
+      tenantId: tenantDb.tenantId,
+      departAt: now,
+      timezone,
+    });
+    return computeEta(now, minutes);
+  } catch (error) {
+    console.error('[JOB TRACKING] ETA estimate failed:', error);
+    return null;
+  }
+}
+
+async function buildCustomerMessage(
+  tenantDb: TenantDb,
+  status: string,
+  payload: { firstName: string; techName: string; serviceName: string; trackingUrl: string; etaMinutes: number | null }
+): Promise<string | null> {
+  const { renderSmsTemplateOrFallback } = await import('../templateRenderer');
+  const { firstName, techName, serviceName, trackingUrl, etaMinutes } = payload;
+
+  if (status === 'en_route') {
+    if (etaMinutes !== null) {
+      const result = await renderSmsTemplateOrFallback(
+        tenantDb,
+        'technician_en_route',
+        { firstName, techName, etaMinutes: String(etaMinutes), trackingUrl },
+        () => `Hi ${firstName}! ${techName} is on the way - ETA ${etaMinutes} min. Follow along: ${trackingUrl}`
+      );
+      return result.message;
+    }
+    const result = await renderSmsTemplateOrFallback(
+      tenantDb,
+      'technician_en_route_no_eta',
+      { firstName, techName, trackingUrl },
+      () => `Hi ${firstName}! ${techName} is on the way. Follow along: ${trackingUrl}`
+    );
+    return result.message;
+  }
+
+  if (status === 'on_site') {
+    const result = await renderSmsTemplateOrFallback(
+      tenantDb,
+      'on_site_arrival',
+      { firstName },
+      () => `Hey ${firstName}! 👋 Your Clean Machine technician has arrived and will be with you shortly. Get ready for that showroom shine! ✨`
+    );
+    return result.message;
+  }
+
+  if (status === 'completed') {
+    const result = await renderSmsTemplateOrFallback(
+      tenantDb,
+      'service_complete',
+      { firstName, serviceName },
+      () => `Thanks for choosing Clean Machine, ${firstName}! Your ${serviceName} is complete. Questions? Reply anytime.`
+    );
+    return result.message;
+  }
+
+  return null;
+}
+
+async function notifyCustomer(
+  tenantDb: TenantDb,
+  transition: JobStatusTransition,
+  technician: Technician | null,
+  trackingUrl: string,
+  etaMinutes: number | null
+): Promise<boolean> {
+  const { updated, status } = transition;
+
+  const [customer] = await tenantDb
+    .select({ phone: customers.phone, name: customers.name })
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, eq(customers.id, updated.customerId)))
+    .limit(1);
+
+  if (!customer?.phone) {
+    return false;
+  }
+
+  const firstName = customer.name ? customer.name.split(' ')[0] : 'there';
+  const message = await buildCustomerMessage(tenantDb, status, {
+    firstName,
+    techName: technician?.preferredName || 'Your technician',
+    serviceName: updated.serviceType || 'service',
+    trackingUrl,
+    etaMinutes,
+  });
+  if (!message) return false;
+
+  // Attach the tech's photo to the "on my way" text when the profile may be shared
+  const profile = technician ? toPublicTechProfile(technician) : null;
+  const mediaUrls = status === 'en_route' && profile && technician?.photoMms640
+    ? [new URL(technician.photoMms640, getBaseUrl()).toString()]
+    : undefined;
+
+  const { sendSMS } = await import('../notifications');
+  const result = await sendSMS(tenantDb, customer.phone, message, undefined, undefined, undefined, mediaUrls);
+  if (!result.success) {
+    console.warn(`[JOB TRACKING] Customer text for job ${updated.id} (${status}) not sent:`, result.error);
+  }
+  return result.success;
+}
+
+/**
+ * Record a technician status transition and fan it out. Never throws - a
+ * failed text or broadcast must not fail the tech's status update.
+ */
+export async function recordJobStatusTransition(
+  tenantDb: TenantDb,
+  transition: JobStatusTransition,
+  now: Date = new Date()
+): Promise<JobTrackingUpdate | null> {
+  const { previous, updated, status, latitude, longitude } = transition;
+
+  try {
+    const technician = await loadTechnician(tenantDb, updated.technicianId);
+    const onTimeline = progressIndex(status) >= 0;
+    const eta = status === 'en_route' ? await estimateArrival(tenantDb, transition, now) : null;
+
+    // Issue the tracking link the first time the job moves onto the timeline
+    let trackingToken = updated.trackingToken ?? null;
+    const appointmentChanges: Partial<Appointment> = {};
+    if (onTimeline && !trackingToken) {
+      trackingToken = nanoid(24);
+      appointmentChanges.trackingToken = trackingToken;
+    }
+    if (status === 'en_route') {
+      appointmentChanges.etaAt = eta?.etaAt ?? null;
+    } else if (progressIndex(status) > progressIndex('en_route')) {
+      appointmentChanges.etaAt = null;
+    }
+    if (Object.keys(appointmentChanges).length > 0) {
+      await tenantDb
+        .update(appointments)
+        .set(appointmentChanges)
+        .where(tenantDb.withTenantFilter(appointments, eq(appointments.id, updated.id)));
+    }
+
+    const [event] = (await tenantDb
+      .insert(jobStatusEvents)
+      .values({
+        appointmentId: updated.id,
+        technicianId: technician?.id ?? null,
+        previousStatus: previous.status,
+        status,
+        latitude: toNumber(latitude)?.toString() ?? null,
+        longitude: toNumber(longitude)?.toString() ?? null,
+        etaMinutes: eta?.etaMinutes ?? null,
+        etaAt: eta?.etaAt ?? null,
+      })
+      .returning()) as JobStatusEvent[];
+
+    const trackingUrl = trackingToken ? trackingUrlFor(trackingToken) : null;
+    let customerNotified = false;
+    if (trackingUrl && shouldNotifyCustomer(previous.status, status)) {
+      try {
+        customerNotified = await notifyCustomer(tenantDb, transition, technician, trackingUrl, eta?.etaMinutes ?? null);
+      } catch (error) {
+        console.error(`[JOB TRACKING] Failed to text customer for job ${updated.id}:`, error);
+      }
+      if (customerNotified) {
+        await tenantDb
+          .update(jobStatusEvents)
+          .set({ customerNotified: true })
+          .where(tenantDb.withTenantFilter(jobStatusEvents, eq(jobStatusEvents.id, event.id)));
+        event.customerNotified = true;
+      }
+    }
+
+    try {
+      const { broadcastJobStatusUpdate } = await import('../websocketService');
+      broadcastJobStatusUpdate(updated.id, status, { ...updated, ...appointmentChanges }, {
+        trackingUrl,
+        etaMinutes: eta?.etaMinutes ?? null,
+        etaAt: eta?.etaAt ?? null,
+        customerNotified,
+      });
+    } catch (error) {
+      console.error('[JOB TRACKING] Failed to broadcast status update:', error);
+    }
+
+    return {
+      event,
+      trackingToken,
+      trackingUrl,
+      etaMinutes: eta?.etaMinutes ?? null,
+      etaAt: eta?.etaAt ?? null,
+      customerNotified,
+    };
+  } catch (error) {
+    console.error(`[JOB TRACKING] Failed to record status transition for job ${updated.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Public view of a job for the tracking page. Exposes progress, arrival
+ * estimate and the tech's public profile - never the customer's address,
+ * phone or pricing.
+ */
+export async function getJobTrackingView(token: string, now: Date = new Date()): Promise<JobTrackingView | null> {
+  // The link is opened by a logged-out customer, so the token (unique across
+  // tenants) decides which tenant's data is read
+  const [owner] = await db
+    .select({ tenantId: appointments.tenantId })
+    .from(appointments)
+    .where(eq(appointments.trackingToken, token))
+    .limit(1);
+  if (!owner) return null;
+
+  const tenantDb = wrapTenantDb(db, owner.tenantId);
+  const [appointment] = await tenantDb
+    .select()
+    .from(appointments)
+    .where(tenantDb.withTenantFilter(appointments, eq(appointments.trackingToken, token)))
+    .limit(1);
+
+  if (!appointment || appointment.status === 'cancelled') {
+    return null;
+  }
+
+  const events = await tenantDb
+    .select({ status: jobStatusEvents.status, createdAt: jobStatusEvents.createdAt })
+    .from(jobStatusEvents)
+    .where(tenantDb.withTenantFilter(jobStatusEvents, eq(jobStatusEvents.appointmentId, appointment.id)))
+    .orderBy(asc(jobStatusEvents.createdAt));
+
+  const tech = await loadTechnician(tenantDb, appointment.technicianId);
+  const technician = tech ? toPublicTechProfile(tech) : null;
+
+  const status = appointment.status || 'pending';
+  const enRoute = status === 'en_route';
+  return {
+    status,
+    progress: buildJobTimeline(status, events),
+    scheduledTime: appointment.scheduledTime,
+    serviceType: appointment.serviceType,
+    etaAt: enRoute ? appointment.etaAt : null,
+    etaMinutes: enRoute ? minutesUntil(appointment.etaAt, now) : null,
+    technician,
+    updatedAt: appointment.statusUpdatedAt,
+  };
+}
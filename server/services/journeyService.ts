@@ -0,0 +1,909 @@
+/**
+ * Customer Journey Service
+ *
+ * Runs the multi-step journeys defined in shared/journeys.ts. A runner pass
+ * (every few minutes) does two things per tenant with active journeys:
+ * 1. Enrolls customers whose trigger fired since the journey was activated
+ *    (job completed, quote sent, no visit in N days). The trigger key on
+ *    each enrollment makes this safe to repeat.
+ * 2. Walks every due enrollment forward until it reaches a wait that isn't
+ *    over yet or the end of the journey. Exit conditions are checked before
+ *    each step.
+ *
+ * Messages go through the outbound queue with the 'journey' purpose, so
+ * quiet hours, rate limits and marketing consent apply as for campaigns.
+ *
+ * Gated by PLATFORM_BG_JOBS_ENABLED env var
+ */
+
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import {
+  appointments,
+  conversations,
+  customers,
+  journeyEnrollments,
+  journeyEvents,
+  journeys,
+  journeyTasks,
+  messages,
+  quoteRequests,
+  tenantConfig,
+  type Journey,
+  type JourneyEnrollment,
+  type JourneyTask,
+  type OutboundMessage,
+} from '@shared/schema';
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, lte, ne, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import {
+  JOURNEY_SEND_PURPOSE,
+  JOURNEY_TRIGGERS,
+  journeyDefinitionSchema,
+  journeyTriggerConfigSchema,
+  nextStepId,
+  renderJourneyTemplate,
+  summarizeJourneySteps,
+  waitDurationMs,
+  type JourneyCondition,
+  type JourneyDefinition,
+  type JourneyEnrollmentStatus,
+  type JourneyStep,
+  type JourneyStepSummary,
+} from '@shared/journeys';
+import { checkConsent } from './consentLedgerService';
+import { cancelOutboundForSource, enqueueOutbound, type DispatchOutcome } from './outboundDispatchService';
+import { getTenantPublicBaseUrl } from './portRecoveryService';
+import { getSegmentCustomers } from './customerSegmentService';
+import { recordAttributionTouch } from './attributionService';
+import { withAttributionCode } from '@shared/attribution';
+import { awardPoints } from '../gamificationService';
+import { sendPushToAllUsers } from '../pushNotificationService';
+
+export class JourneyError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'JourneyError';
+  }
+}
+
+export const JOURNEY_STATUSES = ['draft', 'active', 'paused', 'archived'] as const;
+export type JourneyStatus = typeof JOURNEY_STATUSES[number];
+
+const journeyInputSchema = z.object({
+  name: z.string().trim().min(1, 'Journey name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  trigger: z.enum(JOURNEY_TRIGGERS),
+  triggerConfig: journeyTriggerConfigSchema.default({}),
+  definition: journeyDefinitionSchema,
+  allowReentry: z.boolean().default(false),
+});
+
+export type JourneyInput = z.infer<typeof journeyInputSchema>;
+
+// Per-tenant work per pass, so one busy tenant can't starve the rest
+const TRIGGER_SCAN_LIMIT = 500;
+const DUE_ENROLLMENT_LIMIT = 500;
+
+export function parseJourneyInput(input: unknown): JourneyInput {
+  const parsed = journeyInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new JourneyError(parsed.error.errors[0]?.message || 'Invalid journey');
+  }
+  return parsed.data;
+}
+
+function parseDefinition(journey: Journey): JourneyDefinition {
+  const parsed = journeyDefinitionSchema.safeParse(journey.definition);
+  if (!parsed.success) {
+    throw new JourneyError(`Journey ${journey.id} has an invalid definition: ${parsed.error.errors[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+export function journeyDedupeKey(enrollmentId: number, stepId: string): string {
+  return `journey:${enrollmentId}:${stepId}`;
+}
+
+// ============================================================
+// Journeys
+// ============================================================
+
+export async function listJourneys(tenantDb: TenantDb) {
+  const rows = await tenantDb
+    .select()
+    .from(journeys)
+    .where(tenantDb.withTenantFilter(journeys, ne(journeys.status, 'archived')))
+    .orderBy(desc(journeys.updatedAt));
+  if (rows.length === 0) return [];
+
+  const counts = await tenantDb
+    .select({
+      journeyId: journeyEnrollments.journeyId,
+      status: journeyEnrollments.status,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(journeyEnrollments)
+    .where(tenantDb.withTenantFilter(journeyEnrollments, inArray(journeyEnrollments.journeyId, rows.map(row => row.id))))
+    .groupBy(journeyEnrollments.journeyId, journeyEnrollments.status);
+
+  return rows.map(journey => ({
+    ...journey,
+    enrollmentCounts: Object.fromEntries(
+      counts.filter(count => count.journeyId === journey.id).map(count => [count.status, Number(count.count)])
+    ) as Record<string, number>,
+  }));
+}
+
+export async function getJourney(tenantDb: TenantDb, journeyId: number): Promise<Journey> {
+  const [journey] = await tenantDb
+    .select()
+    .from(journeys)
+    .where(tenantDb.withTenantFilter(journeys, eq(journeys.id, journeyId)))
+    .limit(1);
+  if (!journey) {
+    throw new JourneyError('Journey not found', 404);
+  }
+  return journey;
+}
+
+export async function createJourney(tenantDb: TenantDb, input: JourneyInput, userId: number | null): Promise<Journey> {
+  const [journey] = (await tenantDb
+    .insert(journeys)
+    .values({
+      name: input.name,
+      description: input.description ?? null,
+      trigger: input.trigger,
+      triggerConfig: input.triggerConfig,
+      definition: input.definition,
+      allowReentry: input.allowReentry,
+      status: 'draft',
+      createdBy: userId,
+    })
+    .returning()) as Journey[];
+  return journey;
+}
+
+/**
+ * Replace a journey's settings and steps. Active enrollments parked on a
+ * step that no longer exists are exited rather than guessed forward.
+ */
+export async function updateJourney(tenantDb: TenantDb, journeyId: number, input: JourneyInput): Promise<Journey> {
+  const existing = await getJourney(tenantDb, journeyId);
+  if (existing.status === 'archived') {
+    throw new JourneyError('Archived journeys cannot be edited', 409);
+  }
+
+  const changes = {
+    name: input.name,
+    description: input.description ?? null,
+    trigger: input.trigger,
+    triggerConfig: input.triggerConfig,
+    definition: input.definition,
+    allowReentry: input.allowReentry,
+    updatedAt: new Date(),
+  };
+  await tenantDb
+    .update(journeys)
+    .set(changes)
+    .where(tenantDb.withTenantFilter(journeys, eq(journeys.id, journeyId)));
+
+  const stepIds = input.definition.steps.map(step => step.id);
+  const orphaned = await tenantDb
+    .select({ id: journeyEnrollments.id, currentStepId: journeyEnrollments.currentStepId })
+    .from(journeyEnrollments)
+    .where(tenantDb.withTenantFilter(journeyEnrollments, and(
+      eq(journeyEnrollments.journeyId, journeyId),
+      eq(journeyEnrollments.status, 'active'),
+      sql`${journeyEnrollments.currentStepId} NOT IN (${sql.join(stepIds.map(id => sql`${id}`), sql`, `)})`
+    )));
+  for (const enrollment of orphaned) {
+    await finishEnrollment(tenantDb, journeyId, enrollment.id, enrollment.currentStepId, 'exited', 'step_removed');
+  }
+
+  return { ...existing, ...changes };
+}
+
+/**
+ * Activate, pause or archive. Activation stamps activatedAt so only trigger
+ * events from now on enroll anyone; archiving exits everyone still inside.
+ */
+export async function setJourneyStatus(tenantDb: TenantDb, journeyId: number, status: JourneyStatus): Promise<Journey> {
+  const existing = await getJourney(tenantDb, journeyId);
+  if (existing.status === 'archived') {
+    throw new JourneyError('Archived journeys cannot be changed', 409);
+  }
+  if (status === 'active') {
+    parseDefinition(existing);
+  }
+
+  const changes: Partial<Journey> = { status, updatedAt: new Date() };
+  if (status === 'active' && existing.status !== 'active') {
+    changes.activatedAt = new Date();
+  }
+  await tenantDb
+    .update(journeys)
+    .set(changes)
+    .where(tenantDb.withTenantFilter(journeys, eq(journeys.id, journeyId)));
+
+  if (status === 'archived') {
+    const active = await tenantDb
+      .select({ id: journeyEnrollments.id, currentStepId: journeyEnrollments.currentStepId })
+      .from(journeyEnrollments)
+      .where(tenantDb.withTenantFilter(journeyEnrollments, and(
+        eq(journeyEnrollments.journeyId, journeyId),
+        eq(journeyEnrollments.status, 'active')
+      )));
+    for (const enrollment of active) {
+      await finishEnrollment(tenantDb, journeyId, enrollment.id, enrollment.currentStepId, 'exited', 'journey_archived');
+    }
+  }
+
+  return { ...existing, ...changes };
+}
+
+// ============================================================
+// Enrollment
+// ============================================================
+
+async function logEvent(
+  tenantDb: TenantDb,
+  journeyId: number,
+  enrollmentId: number,
+  stepId: string | null,
+  eventType: string,
+  detail: Record<string, unknown> | null = null
+): Promise<void> {
+  await tenantDb.insert(journeyEvents).values({ journeyId, enrollmentId, stepId, eventType, detail });
+}
+
+/**
+ * A completed enrollment's last message may still be waiting for its send
+ * window and should go out; one that exited (replied, booked, archived...)
+ * or failed takes its queued messages with it
+ */
+async function finishEnrollment(
+  tenantDb: TenantDb,
+  journeyId: number,
+  enrollmentId: number,
+  stepId: string | null,
+  status: 'completed' | 'exited' | 'failed',
+  reason: string | null = null
+): Promise<void> {
+  await tenantDb
+    .update(journeyEnrollments)
+    .set({ status, exitReason: reason, nextRunAt: null, finishedAt: new Date() })
+    .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.id, enrollmentId)));
+  const cancelled = status === 'completed' ? 0 : await cancelOutboundForSource(tenantDb, 'journey_enrollment', enrollmentId);
+  const detail: Record<string, unknown> = {};
+  if (reason) detail.reason = reason;
+  if (cancelled > 0) detail.cancelledMessages = cancelled;
+  await logEvent(tenantDb, journeyId, enrollmentId, stepId, status, Object.keys(detail).length > 0 ? detail : null);
+}
+
+/**
+ * Enroll one customer. Returns null when the trigger was already handled,
+ * the customer is mid-journey, or re-entry is off and they've been through
+ * it before.
+ */
+export async function enrollCustomer(
+  tenantDb: TenantDb,
+  journey: Journey,
+  customerId: number,
+  triggerKey: string,
+  context: JourneyEnrollment['context'] = {},
+  now: Date = new Date()
+): Promise<JourneyEnrollment | null> {
+  const definition = parseDefinition(journey);
+
+  const previous = await tenantDb
+    .select({ status: journeyEnrollments.status })
+    .from(journeyEnrollments)
+    .where(tenantDb.withTenantFilter(journeyEnrollments, and(
+      eq(journeyEnrollments.journeyId, journey.id),
+      eq(journeyEnrollments.customerId, customerId)
+    )));
+  if (previous.some(row => row.status === 'active')) return null;
+  if (previous.length > 0 && !journey.allowReentry) return null;
+
+  const [enrollment] = (await tenantDb
+    .insert(journeyEnrollments)
+    .values({
+      journeyId: journey.id,
+      customerId,
+      triggerKey,
+      status: 'active',
+      currentStepId: definition.entryStepId,
+      stepStartedAt: now,
+      nextRunAt: now,
+      context,
+      clickToken: nanoid(24),
+      enrolledAt: now,
+    })
+    .onConflictDoNothing({ target: [journeyEnrollments.journeyId, journeyEnrollments.triggerKey] })
+    .returning()) as JourneyEnrollment[];
+  if (!enrollment) return null;
+
+  await logEvent(tenantDb, journey.id, enrollment.id, definition.entryStepId, 'entered');
+  return enrollment;
+}
+
+/**
+ * Manually enroll a list of customers or a saved segment
+ */
+export async function enrollManually(
+  tenantDb: TenantDb,
+  journeyId: number,
+  target: { customerIds?: number[]; segmentId?: number },
+  now: Date = new Date()
+): Promise<{ enrolled: number; skipped: number }> {
+  const journey = await getJourney(tenantDb, journeyId);
+  if (journey.status !== 'active') {
+    throw new JourneyError('Activate the journey before enrolling customers', 409);
+  }
+
+  const customerIds = target.segmentId
+    ? (await getSegmentCustomers(tenantDb, target.segmentId)).map(customer => customer.id)
+    : target.customerIds ?? [];
+  const day = now.toISOString().slice(0, 10);
+
+  let enrolled = 0;
+  for (const customerId of customerIds) {
+    const enrollment = await enrollCustomer(tenantDb, journey, customerId, `manual:${customerId}:${day}`, {}, now);
+    if (enrollment) enrolled++;
+  }
+  return { enrolled, skipped: customerIds.length - enrolled };
+}
+
+/**
+ * Trigger events the journey can still act on: nothing enrolled for the
+ * event yet, the customer isn't mid-journey and, without re-entry, has never
+ * been through it. Filtering in SQL rather than after the LIMIT keeps the
+ * scan from filling up with events an earlier pass already handled.
+ */
+function notYetEnrolled(tenantDb: TenantDb, journey: Journey, customerId: SQL | AnyColumn, triggerKey: SQL): SQL {
+  return sql`not exists (
+    select 1 from ${journeyEnrollments}
+    where ${journeyEnrollments.tenantId} = ${tenantDb.tenantId}
+      and ${journeyEnrollments.journeyId} = ${journey.id}
+      and (
+        ${journeyEnrollments.triggerKey} = ${triggerKey}
+        or (${journeyEnrollments.customerId} = ${customerId}
+          and (${journeyEnrollments.status} = 'active' or ${!journey.allowReentry}::boolean))
+      )
+  )`;
+}
+
+/**
+ * Enroll customers whose trigger fired since the journey was activated
+ */
+export async function scanJourneyTriggers(tenantDb: TenantDb, journey: Journey, now: Date = new Date()): Promise<number> {
+  const since = journey.activatedAt ?? now;
+  let candidates: Array<{ customerId: number; triggerKey: string; context: JourneyEnrollment['context'] }> = [];
+
+  if (journey.trigger === 'job_completed') {
+    const rows = await tenantDb
+      .select({ id: appointments.id, customerId: appointments.customerId })
+      .from(appointments)
+      .where(tenantDb.withTenantFilter(appointments, and(
+        eq(appointments.status, 'completed'),
+        gte(appointments.completedAt, since),
+        notYetEnrolled(tenantDb, journey, appointments.customerId, sql`'appointment:' || ${appointments.id}`)
+      )))
+      .orderBy(asc(appointments.completedAt), asc(appointments.id))
+      .limit(TRIGGER_SCAN_LIMIT);
+    candidates = rows.map(row => ({ customerId: row.customerId, triggerKey: `appointment:${row.id}`, context: { appointmentId: row.id } }));
+  } else if (journey.trigger === 'quote_sent') {
+    const rows = await tenantDb
+      .select({ id: quoteRequests.id, customerId: quoteRequests.customerId })
+      .from(quoteRequests)
+      .where(tenantDb.withTenantFilter(quoteRequests, and(
+        isNotNull(quoteRequests.customerId),
+        gte(quoteRequests.quotedAt, since),
+        notYetEnrolled(tenantDb, journey, quoteRequests.customerId, sql`'quote:' || ${quoteRequests.id}`)
+      )))
+      .orderBy(asc(quoteRequests.quotedAt), asc(quoteRequests.id))
+      .limit(TRIGGER_SCAN_LIMIT);
+    candidates = rows.map(row => ({ customerId: row.customerId!, triggerKey: `quote:${row.id}`, context: { quoteId: row.id } }));
+  } else if (journey.trigger === 'inactive') {
+    // Keyed on the last visit, so someone who comes back and lapses again re-qualifies
+    const { inactiveDays } = journeyTriggerConfigSchema.parse(journey.triggerConfig ?? {});
+    const cutoff = new Date(now.getTime() - inactiveDays * 24 * 60 * 60 * 1000);
+    const rows = await tenantDb
+      .select({
+        customerId: appointments.customerId,
+        lastAppointmentId: sql<number>`max(${appointments.id})`,
+      })
+      .from(appointments)
+      .where(tenantDb.withTenantFilter(appointments, ne(appointments.status, 'cancelled')))
+      .groupBy(appointments.customerId)
+      .having(and(
+        lte(sql`max(${appointments.scheduledTime})`, cutoff),
+        notYetEnrolled(tenantDb, journey, appointments.customerId, sql`'inactive:' || max(${appointments.id})`)
+      ))
+      .orderBy(asc(sql`max(${appointments.scheduledTime})`), asc(appointments.customerId))
+      .limit(TRIGGER_SCAN_LIMIT);
+    candidates = rows.map(row => ({ customerId: row.customerId, triggerKey: `inactive:${row.lastAppointmentId}`, context: {} }));
+  }
+
+  let enrolled = 0;
+  for (const candidate of candidates) {
+    const enrollment = await enrollCustomer(tenantDb, journey, candidate.customerId, candidate.triggerKey, candidate.context, now);
+    if (enrollment) enrolled++;
+  }
+  return enrolled;
+}
+
+// ============================================================
+// Runner
+// ============================================================
+
+type CustomerRow = { id: number; name: string; phone: string | null; email: string | null; address: string | null };
+
+async function evaluateCondition(
+  tenantDb: TenantDb,
+  enrollment: JourneyEnrollment,
+  customer: CustomerRow,
+  condition: JourneyCondition
+): Promise<boolean> {
+  switch (condition) {
+    case 'booked': {
+      const [booking] = await tenantDb
+        .select({ id: appointments.id })
+        .from(appointments)
+        .where(tenantDb.withTenantFilter(appointments, and(
+          eq(appointments.customerId, customer.id),
+          ne(appointments.status, 'cancelled'),
+          gt(appointments.scheduledTime, enrollment.enrolledAt),
+          enrollment.context?.appointmentId ? ne(appointments.id, enrollment.context.appointmentId) : undefined
+        )))
+        .limit(1);
+      return Boolean(booking);
+    }
+    case 'replied': {
+      const [reply] = await tenantDb
+        .select({ id: messages.id })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(tenantDb.withTenantFilter(messages, and(
+          eq(conversations.customerId, customer.id),
+          eq(messages.fromCustomer, true),
+          gte(messages.timestamp, enrollment.enrolledAt)
+        )))
+        .limit(1);
+      return Boolean(reply);
+    }
+    case 'clicked':
+      return enrollment.lastClickedAt !== null;
+    case 'opted_out': {
+      // Opted out = no channel left that marketing may use
+      const [sms, email] = await Promise.all([
+        checkConsent(tenantDb, { customerId: customer.id, phone: customer.phone }, 'sms', 'marketing'),
+        checkConsent(tenantDb, { customerId: customer.id, email: customer.email }, 'email', 'marketing'),
+      ]);
+      return !sms.allowed && !email.allowed;
+    }
+  }
+}
+
+function firstName(name: string): string {
+  return name.trim().split(/\s+/)[0] || name;
+}
+
+function emailHtml(body: string): string {
+  const escaped = body
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return `<div style="font-family: sans-serif; line-height: 1.5">${escaped.replace(/\n/g, '<br>')}</div>`;
+}
+
+interface RunContext {
+  baseUrl: string;
+  businessName: string;
+}
+
+/**
+ * Perform one non-wait step. Returns the branch result for branch steps.
+ */
+async function executeStep(
+  tenantDb: TenantDb,
+  journey: Journey,
+  enrollment: JourneyEnrollment,
+  customer: CustomerRow,
+  step: Exclude<JourneyStep, { type: 'wait' }>,
+  run: RunContext,
+  now: Date
+): Promise<boolean | undefined> {
+  const vars = {
+    firstName: firstName(customer.name),
+    name: customer.name,
+    businessName: run.businessName,
+    bookingLink: withAttributionCode(`${run.baseUrl}/book`, { channel: 'journey', campaignId: journey.id }),
+    link: `${run.baseUrl}/api/journeys/click/${enrollment.clickToken}`,
+  };
+
+  switch (step.type) {
+    case 'send_sms':
+    case 'send_email': {
+      const channel = step.type === 'send_sms' ? 'sms' : 'email';
+      const to = channel === 'sms' ? customer.phone : customer.email;
+      if (!to) {
+        await logEvent(tenantDb, journey.id, enrollment.id, step.id, 'skipped', { reason: `no_${channel === 'sms' ? 'phone' : 'email'}` });
+        return undefined;
+      }
+      const body = renderJourneyTemplate(step.body, vars);
+      const queued = await enqueueOutbound(tenantDb, {
+        channel,
+        purpose: JOURNEY_SEND_PURPOSE,
+        to,
+        body,
+        subject: step.type === 'send_email' ? renderJourneyTemplate(step.subject, vars) : undefined,
+        html: step.type === 'send_email' ? emailHtml(body) : undefined,
+        customerId: customer.id,
+        recipientAddress: customer.address,
+        sourceType: 'journey_enrollment',
+        sourceId: enrollment.id,
+        dedupeKey: journeyDedupeKey(enrollment.id, step.id),
+      });
+      await logEvent(tenantDb, journey.id, enrollment.id, step.id, 'sent', { channel, outboundMessageId: queued?.id ?? null });
+      return undefined;
+    }
+    case 'branch': {
+      const result = await evaluateCondition(tenantDb, enrollment, customer, step.condition);
+      await logEvent(tenantDb, journey.id, enrollment.id, step.id, 'branched', { condition: step.condition, result });
+      return result;
+    }
+    case 'award_points': {
+      const award = await awardPoints(tenantDb, customer.id, step.points, 'journey', enrollment.id, `${journey.name} bonus`);
+      await logEvent(tenantDb, journey.id, enrollment.id, step.id, award.success ? 'points' : 'skipped', { points: step.points });
+      return undefined;
+    }
+    case 'create_task': {
+      const title = renderJourneyTemplate(step.title, vars);
+      await tenantDb.insert(journeyTasks).values({
+        journeyId: journey.id,
+        enrollmentId: enrollment.id,
+        customerId: customer.id,
+        title,
+        dueAt: new Date(now.getTime() + step.dueInDays * 24 * 60 * 60 * 1000),
+      });
+      await logEvent(tenantDb, journey.id, enrollment.id, step.id, 'task', { title });
+      try {
+        await sendPushToAllUsers({
+          title: 'New follow-up task',
+          body: `${title} (${customer.name})`,
+          tag: `journey-task-${enrollment.id}-${step.id}`,
+          data: { url: '/admin/journeys' },
+        });
+      } catch (error) {
+        console.error('[JOURNEYS] Failed to push task notification:', error);
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Walk one enrollment forward until it parks on an unfinished wait or ends
+ */
+export async function advanceEnrollment(
+  tenantDb: TenantDb,
+  journey: Journey,
+  enrollment: JourneyEnrollment,
+  run: RunContext,
+  now: Date = new Date()
+): Promise<JourneyEnrollmentStatus> {
+  const definition = parseDefinition(journey);
+  const steps = new Map(definition.steps.map(step => [step.id, step]));
+
+  const [customer] = await tenantDb
+    .select({ id: customers.id, name: customers.name, phone: customers.phone, email: customers.email, address: customers.address })
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, eq(customers.id, enrollment.customerId)))
+    .limit(1);
+  if (!customer) {
+    await finishEnrollment(tenantDb, journey.id, enrollment.id, enrollment.currentStepId, 'failed', 'customer_missing');
+    return 'failed';
+  }
+
+  let current = enrollment;
+  // Graphs are loop-free, so a pass can never visit more steps than exist
+  for (let visited = 0; visited <= definition.steps.length; visited++) {
+    const stepId = current.currentStepId;
+    if (!stepId) {
+      await finishEnrollment(tenantDb, journey.id, current.id, null, 'completed');
+      return 'completed';
+    }
+
+    for (const condition of definition.exitOn) {
+      if (await evaluateCondition(tenantDb, current, customer, condition)) {
+        await finishEnrollment(tenantDb, journey.id, current.id, stepId, 'exited', condition);
+        return 'exited';
+      }
+    }
+
+    const step = steps.get(stepId);
+    if (!step) {
+      await finishEnrollment(tenantDb, journey.id, current.id, stepId, 'exited', 'step_removed');
+      return 'exited';
+    }
+
+    let branchResult: boolean | undefined;
+    if (step.type === 'wait') {
+      const due = new Date(current.stepStartedAt.getTime() + waitDurationMs(step));
+      if (due > now) {
+        await tenantDb
+          .update(journeyEnrollments)
+          .set({ nextRunAt: due })
+          .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.id, current.id)));
+        return 'active';
+      }
+    } else {
+      branchResult = await executeStep(tenantDb, journey, current, customer, step, run, now);
+    }
+
+    const next = nextStepId(step, branchResult);
+    await tenantDb
+      .update(journeyEnrollments)
+      .set({ currentStepId: next, stepStartedAt: now, nextRunAt: now })
+      .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.id, current.id)));
+    if (next) {
+      await logEvent(tenantDb, journey.id, current.id, next, 'entered');
+    }
+    current = { ...current, currentStepId: next, stepStartedAt: now, nextRunAt: now };
+  }
+
+  await finishEnrollment(tenantDb, journey.id, current.id, current.currentStepId, 'failed', 'step_limit');
+  return 'failed';
+}
+
+/**
+ * One pass over a tenant's active journeys: enroll, then advance due enrollments
+ */
+export async function runTenantJourneys(tenantDb: TenantDb, now: Date = new Date()) {
+  const stats = { enrolled: 0, advanced: 0, completed: 0, exited: 0, failed: 0 };
+
+  const active = await tenantDb
+    .select()
+    .from(journeys)
+    .where(tenantDb.withTenantFilter(journeys, eq(journeys.status, 'active')));
+  if (active.length === 0) return stats;
+
+  const [config] = await db
+    .select({ businessName: tenantConfig.businessName })
+    .from(tenantConfig)
+    .where(eq(tenantConfig.tenantId, tenantDb.tenantId))
+    .limit(1);
+  const run: RunContext = {
+    baseUrl: await getTenantPublicBaseUrl(tenantDb.tenantId),
+    businessName: config?.businessName ?? 'Our Business',
+  };
+
+  for (const journey of active) {
+    try {
+      stats.enrolled += await scanJourneyTriggers(tenantDb, journey, now);
+
+      const due = await tenantDb
+        .select()
+        .from(journeyEnrollments)
+        .where(tenantDb.withTenantFilter(journeyEnrollments, and(
+          eq(journeyEnrollments.journeyId, journey.id),
+          eq(journeyEnrollments.status, 'active'),
+          lte(journeyEnrollments.nextRunAt, now)
+        )))
+        .orderBy(asc(journeyEnrollments.nextRunAt))
+        .limit(DUE_ENROLLMENT_LIMIT);
+
+      for (const enrollment of due) {
+        try {
+          const status = await advanceEnrollment(tenantDb, journey, enrollment, run, now);
+          stats.advanced++;
+          if (status !== 'active') stats[status]++;
+        } catch (error) {
+          console.error(`[JOURNEYS] Enrollment ${enrollment.id} failed:`, error);
+          await finishEnrollment(tenantDb, journey.id, enrollment.id, enrollment.currentStepId, 'failed', 'error');
+          stats.failed++;
+        }
+      }
+    } catch (error) {
+      console.error(`[JOURNEYS] Journey ${journey.id} failed:`, error);
+    }
+  }
+  return stats;
+}
+
+/**
+ * One pass over every tenant with an active journey
+ */
+export async function runJourneys(now: Date = new Date()): Promise<void> {
+  const tenants = await db
+    .selectDistinct({ tenantId: journeys.tenantId })
+    .from(journeys)
+    .where(eq(journeys.status, 'active'));
+
+  for (const { tenantId } of tenants) {
+    try {
+      const stats = await runTenantJourneys(wrapTenantDb(db, tenantId), now);
+      console.log(
+        `[JOURNEYS] tenant=${tenantId} enrolled=${stats.enrolled} advanced=${stats.advanced} ` +
+        `completed=${stats.completed} exited=${stats.exited} failed=${stats.failed}`
+      );
+    } catch (error) {
+      console.error(`[JOURNEYS] Error processing tenant ${tenantId}:`, error);
+    }
+  }
+}
+
+export function startJourneyRunner(): void {
+  // STRICT: Only run if explicitly enabled (matches quiet mode contract)
+  if (process.env.PLATFORM_BG_JOBS_ENABLED !== '1') {
+    console.log('[JOURNEYS] Disabled (PLATFORM_BG_JOBS_ENABLED !== 1)');
+    return;
+  }
+
+  // Waits are measured in hours and days; five minutes is plenty of resolution
+  const intervalMs = 5 * 60 * 1000;
+  let running = false;
+
+  console.log('[JOURNEYS] Starting journey runner (every 5 minutes)');
+
+  setInterval(async () => {
+    if (running) return; // Previous pass still working
+    running = true;
+    try {
+      await runJourneys();
+    } catch (error) {
+      console.error('[JOURNEYS] Error in runner:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
+
+// ============================================================
+// Clicks, delivery results, tasks and analytics
+// ============================================================
+
+/**
+ * Record a click on a journey's tracked link. Looked up by token across
+ * tenants since the link is public. Returns where to send the visitor.
+ */
+export async function recordJourneyClick(token: string, now: Date = new Date()): Promise<string | null> {
+  const [enrollment] = await db
+    .select()
+    .from(journeyEnrollments)
+    .where(eq(journeyEnrollments.clickToken, token))
+    .limit(1);
+  if (!enrollment) return null;
+
+  const tenantDb = wrapTenantDb(db, enrollment.tenantId);
+  await tenantDb
+    .update(journeyEnrollments)
+    .set({ lastClickedAt: now })
+    .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.id, enrollment.id)));
+  await logEvent(tenantDb, enrollment.journeyId, enrollment.id, enrollment.currentStepId, 'clicked');
+  const source = { channel: 'journey' as const, campaignId: enrollment.journeyId };
+  await recordAttributionTouch(tenantDb, enrollment.customerId, source, { touchedAt: now });
+
+  return withAttributionCode(`${await getTenantPublicBaseUrl(enrollment.tenantId)}/book`, source);
+}
+
+/**
+ * Called by the outbound dispatcher when a journey message fails or is
+ * skipped (usually consent), so the journey's log shows what really went out
+ */
+export async function recordJourneyDispatchResult(
+  tenantDb: TenantDb,
+  enrollmentId: number,
+  message: OutboundMessage,
+  outcome: DispatchOutcome
+): Promise<void> {
+  if (outcome.status === 'sent') return;
+
+  const [enrollment] = await tenantDb
+    .select({ journeyId: journeyEnrollments.journeyId })
+    .from(journeyEnrollments)
+    .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.id, enrollmentId)))
+    .limit(1);
+  if (!enrollment) return;
+
+  const stepId = message.dedupeKey?.split(':')[2] ?? null;
+  await logEvent(tenantDb, enrollment.journeyId, enrollmentId, stepId, 'undelivered', {
+    channel: message.channel,
+    status: outcome.status,
+    error: outcome.error,
+  });
+}
+
+export async function listOpenJourneyTasks(tenantDb: TenantDb) {
+  return tenantDb
+    .select({
+      id: journeyTasks.id,
+      title: journeyTasks.title,
+      dueAt: journeyTasks.dueAt,
+      createdAt: journeyTasks.createdAt,
+      journeyId: journeyTasks.journeyId,
+      journeyName: journeys.name,
+      customerId: journeyTasks.customerId,
+      customerName: customers.name,
+      customerPhone: customers.phone,
+    })
+    .from(journeyTasks)
+    .innerJoin(journeys, eq(journeyTasks.journeyId, journeys.id))
+    .leftJoin(customers, eq(journeyTasks.customerId, customers.id))
+    .where(tenantDb.withTenantFilter(journeyTasks, eq(journeyTasks.status, 'open')))
+    .orderBy(asc(journeyTasks.dueAt));
+}
+
+export async function completeJourneyTask(tenantDb: TenantDb, taskId: number, userId: number | null): Promise<JourneyTask> {
+  const [task] = await tenantDb
+    .select()
+    .from(journeyTasks)
+    .where(tenantDb.withTenantFilter(journeyTasks, eq(journeyTasks.id, taskId)))
+    .limit(1);
+  if (!task) {
+    throw new JourneyError('Task not found', 404);
+  }
+
+  const changes = { status: 'done', completedAt: new Date(), completedBy: userId };
+  await tenantDb
+    .update(journeyTasks)
+    .set(changes)
+    .where(tenantDb.withTenantFilter(journeyTasks, eq(journeyTasks.id, taskId)));
+  return { ...task, ...changes };
+}
+
+export interface JourneyAnalytics {
+  byStatus: Record<string, number>;
+  exitReasons: Record<string, number>;
+  steps: JourneyStepSummary[];
+}
+
+/**
+ * How many customers are at each step, how many ever reached it, and why
+ * people left early
+ */
+export async function getJourneyAnalytics(tenantDb: TenantDb, journeyId: number): Promise<JourneyAnalytics> {
+  const journey = await getJourney(tenantDb, journeyId);
+  const definition = parseDefinition(journey);
+
+  const [enrollmentRows, reachedRows] = await Promise.all([
+    tenantDb
+      .select({
+        status: journeyEnrollments.status,
+        currentStepId: journeyEnrollments.currentStepId,
+        exitReason: journeyEnrollments.exitReason,
+      })
+      .from(journeyEnrollments)
+      .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.journeyId, journeyId))),
+    tenantDb
+      .select({
+        stepId: journeyEvents.stepId,
+        count: sql<number>`count(distinct ${journeyEvents.enrollmentId})::int`,
+      })
+      .from(journeyEvents)
+      .where(tenantDb.withTenantFilter(journeyEvents, and(
+        eq(journeyEvents.journeyId, journeyId),
+        eq(journeyEvents.eventType, 'entered')
+      )))
+      .groupBy(journeyEvents.stepId),
+  ]);
+
+  const byStatus: Record<string, number> = {};
+  const exitReasons: Record<string, number> = {};
+  for (const row of enrollmentRows) {
+    byStatus[row.status] = (byStatus[row.status] ?? 0) + 1;
+    if (row.status === 'exited' && row.exitReason) {
+      exitReasons[row.exitReason] = (exitReasons[row.exitReason] ?? 0) + 1;
+    }
+  }
+
+  const reachedByStep = Object.fromEntries(
+    reachedRows.filter(row => row.stepId).map(row => [row.stepId!, Number(row.count)])
+  );
+  const active = enrollmentRows.filter(row => row.status === 'active');
+
+  return { byStatus, exitReasons, steps: summarizeJourneySteps(definition, active, reachedByStep) };
+}
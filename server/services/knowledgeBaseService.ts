@@ -0,0 +1,301 @@
+/**
+ * Knowledge Base Service
+ *
+ * Builds each tenant's retrieval index from faq_entries, services (with
+ * price book base prices), service_addons, tenant_config and uploaded
+ * knowledge_documents, caches it in the tenant cache and answers
+ * retrieval queries for the AI agent. Service, price, FAQ and document
+ * edits call invalidateKnowledgeBase() so the next query rebuilds the
+ * index; business profile edits are picked up when the cached index expires.
+ */
+
+import { asc, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  businessSettings,
+  faqEntries,
+  knowledgeDocuments,
+  serviceAddons,
+  servicePrices,
+  services,
+  tenantConfig,
+  tenantPhoneConfig,
+  type KnowledgeDocument,
+} from '@shared/schema';
+import {
+  buildKnowledgeIndex,
+  chunkText,
+  formatKnowledgeSnippets,
+  searchKnowledge,
+  type KnowledgeChunk,
+  type KnowledgeDocumentInput,
+  type KnowledgeHit,
+  type KnowledgeIndex,
+} from '@shared/knowledgeBase';
+import { CacheKeys, CacheTags, CacheTTL, getTenantCache } from '../cacheService';
+import type { TenantDb } from '../tenantDb';
+
+export class KnowledgeBaseError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'KnowledgeBaseError';
+  }
+}
+
+export interface KnowledgeDocumentSummary {
+  id: number;
+  title: string;
+  fileName: string | null;
+  mimeType: string | null;
+  enabled: boolean;
+  characters: number;
+  chunks: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatClock(hour: number, minute: number): string {
+  const suffix = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+async function loadBusinessChunks(tenantDb: TenantDb): Promise<KnowledgeChunk[]> {
+  const tenantId = tenantDb.tenantId;
+  const [[config], [phone]] = await Promise.all([
+    db.select().from(tenantConfig).where(eq(tenantConfig.tenantId, tenantId)).limit(1),
+    db
+      .select({ phoneNumber: tenantPhoneConfig.phoneNumber })
+      .from(tenantPhoneConfig)
+      .where(eq(tenantPhoneConfig.tenantId, tenantId))
+      .limit(1),
+  ]);
+
+  const chunks: KnowledgeChunk[] = [];
+  if (config) {
+    const profile = [
+      `${config.businessName}${config.industry ? ` is a ${config.industry.replace(/[-_]/g, ' ')} business` : ''}${config.primaryCity ? ` based in ${config.primaryCity}` : ''}.`,
+      phone?.phoneNumber ? `Phone and text: ${phone.phoneNumber}.` : '',
+      config.primaryContactEmail ? `Email: ${config.primaryContactEmail}.` : '',
+      config.websiteUrl ? `Website: ${config.websiteUrl}.` : '',
+    ].filter(Boolean).join(' ');
+    chunks.push({ id: 'business:profile', source: 'business', title: 'Business contact information', text: profile });
+
+    if (config.serviceAreaMaxMinutes) {
+      chunks.push({
+        id: 'business:service_area',
+        source: 'business',
+        title: 'Service area and travel',
+        text: [
+          `We travel to customers within about ${config.serviceAreaMaxMinutes} minutes drive${config.primaryCity ? ` of ${config.primaryCity}` : ''}.`,
+          config.serviceAreaSoftDeclineMessage ?? '',
+        ].filter(Boolean).join(' '),
+      });
+    }
+  }
+
+  // business_settings is still a single global row that belongs to the root
+  // tenant; other tenants must not inherit its hours
+  if (tenantId === 'root') {
+    const [settings] = await db.select().from(businessSettings).limit(1);
+    if (settings) {
+      const days = (settings.daysOfWeek ?? []).map((day) => DAY_NAMES[day]).filter(Boolean);
+      chunks.push({
+        id: 'business:hours',
+        source: 'business',
+        title: 'Business hours and booking notice',
+        text: [
+          `Open ${days.join(', ')} from ${formatClock(settings.startHour, settings.startMinute)} to ${formatClock(settings.endHour, settings.endMinute)}.`,
+          settings.allowWeekendBookings ? 'Weekend bookings are available.' : 'We do not book weekends.',
+          `Appointments need at least ${settings.minimumNoticeHours} hours notice.`,
+        ].join(' '),
+      });
+      if (settings.excludedServices && settings.excludedServices.length > 0) {
+        chunks.push({
+          id: 'business:excluded_services',
+          source: 'business',
+          title: 'Services we do not offer',
+          text: `We do not offer: ${settings.excludedServices.join(', ')}.`,
+        });
+      }
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Every chunk for the tenant, in source order
+ */
+async function loadKnowledgeChunks(tenantDb: TenantDb): Promise<KnowledgeChunk[]> {
+  const [faqRows, serviceRows, priceRows, addOnRows, documentRows, businessChunks] = await Promise.all([
+    tenantDb
+      .select()
+      .from(faqEntries)
+      .where(tenantDb.withTenantFilter(faqEntries, eq(faqEntries.enabled, true)))
+      .orderBy(asc(faqEntries.displayOrder)),
+    tenantDb.select().from(services).where(tenantDb.withTenantFilter(services)).orderBy(asc(services.name)),
+    tenantDb
+      .select()
+      .from(servicePrices)
+      .where(tenantDb.withTenantFilter(servicePrices, eq(servicePrices.isActive, true))),
+    tenantDb
+      .select()
+      .from(serviceAddons)
+      .where(tenantDb.withTenantFilter(serviceAddons, eq(serviceAddons.isActive, true)))
+      .orderBy(asc(serviceAddons.sortOrder)),
+    tenantDb
+      .select()
+      .from(knowledgeDocuments)
+      .where(tenantDb.withTenantFilter(knowledgeDocuments, eq(knowledgeDocuments.enabled, true))),
+    loadBusinessChunks(tenantDb),
+  ]);
+
+  const chunks: KnowledgeChunk[] = [...businessChunks];
+
+  for (const faq of faqRows) {
+    chunkText(faq.answer).forEach((text, part) => {
+      chunks.push({ id: `faq:${faq.id}:${part}`, source: 'faq', title: faq.question, text });
+    });
+  }
+
+  const basePrices = new Map(priceRows.map((row) => [row.serviceId, parseFloat(row.basePrice)]));
+  for (const service of serviceRows) {
+    const basePrice = basePrices.get(service.id);
+    const price = basePrice !== undefined ? `Starts at $${basePrice.toFixed(2)}` : `Price: ${service.priceRange}`;
+    const summary = `${price}. Takes ${service.duration}. ${service.overview}`;
+    const body = [summary, service.detailedDescription].filter(Boolean).join('\n\n');
+    chunkText(body).forEach((text, part) => {
+      chunks.push({ id: `service:${service.id}:${part}`, source: 'service', title: service.name, text });
+    });
+  }
+
+  for (const addOn of addOnRows) {
+    const text = [`$${parseFloat(addOn.value).toFixed(2)} add-on`, addOn.category ? `(${addOn.category})` : '', addOn.description ?? '']
+      .filter(Boolean)
+      .join(' ');
+    chunks.push({ id: `add_on:${addOn.id}`, source: 'add_on', title: addOn.name, text });
+  }
+
+  for (const document of documentRows) {
+    chunkText(document.content).forEach((text, part) => {
+      chunks.push({ id: `document:${document.id}:${part}`, source: 'document', title: document.title, text });
+    });
+  }
+
+  return chunks;
+}
+
+export async function getKnowledgeIndex(tenantDb: TenantDb): Promise<KnowledgeIndex> {
+  return getTenantCache(tenantDb.tenantId).wrap(
+    CacheKeys.knowledgeIndex(),
+    { ttlSeconds: CacheTTL.LONG, tags: [CacheTags.KNOWLEDGE] },
+    async () => {
+      const index = buildKnowledgeIndex(await loadKnowledgeChunks(tenantDb));
+      console.log(`[KNOWLEDGE BASE] Indexed ${index.chunks.length} chunks for tenant ${tenantDb.tenantId}`);
+      return index;
+    }
+  );
+}
+
+/**
+ * Call after editing FAQs, services, add-ons, prices, business profile or documents
+ */
+export async function invalidateKnowledgeBase(tenantId: string): Promise<void> {
+  await getTenantCache(tenantId).invalidateTags([CacheTags.KNOWLEDGE]);
+}
+
+export async function retrieveKnowledge(tenantDb: TenantDb, query: string, limit = 4): Promise<KnowledgeHit[]> {
+  const index = await getKnowledgeIndex(tenantDb);
+  return searchKnowledge(index, query, { limit });
+}
+
+/**
+ * Snippets relevant to a customer message, formatted for a system prompt.
+ * Returns '' when nothing matches or the index can't be built, so callers
+ * can skip the section entirely.
+ */
+export async function buildKnowledgeContext(tenantDb: TenantDb, query: string, limit = 4): Promise<string> {
+  if (!query.trim()) return '';
+  try {
+    return formatKnowledgeSnippets(await retrieveKnowledge(tenantDb, query, limit));
+  } catch (error) {
+    console.error(`[KNOWLEDGE BASE] Retrieval failed for tenant ${tenantDb.tenantId}:`, error);
+    return '';
+  }
+}
+
+function toSummary(document: KnowledgeDocument): KnowledgeDocumentSummary {
+  return {
+    id: document.id,
+    title: document.title,
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    enabled: document.enabled,
+    characters: document.content.length,
+    chunks: chunkText(document.content).length,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+  };
+}
+
+export async function listKnowledgeDocuments(tenantDb: TenantDb): Promise<KnowledgeDocumentSummary[]> {
+  const rows = await tenantDb
+    .select()
+    .from(knowledgeDocuments)
+    .where(tenantDb.withTenantFilter(knowledgeDocuments))
+    .orderBy(desc(knowledgeDocuments.createdAt));
+  return rows.map(toSummary);
+}
+
+export async function createKnowledgeDocument(
+  tenantDb: TenantDb,
+  input: KnowledgeDocumentInput & { fileName?: string | null; mimeType?: string | null },
+  uploadedBy?: number
+): Promise<KnowledgeDocumentSummary> {
+  const rows = await tenantDb
+    .insert(knowledgeDocuments)
+    .values({
+      title: input.title,
+      content: input.content,
+      fileName: input.fileName ?? null,
+      mimeType: input.mimeType ?? null,
+      uploadedBy: uploadedBy ?? null,
+    })
+    .returning();
+
+  await invalidateKnowledgeBase(tenantDb.tenantId);
+  const document = (rows as KnowledgeDocument[])[0];
+  console.log(`[KNOWLEDGE BASE] tenantId=${tenantDb.tenantId} added document ${document.id} "${document.title}"`);
+  return toSummary(document);
+}
+
+export async function setKnowledgeDocumentEnabled(
+  tenantDb: TenantDb,
+  id: number,
+  enabled: boolean
+): Promise<KnowledgeDocumentSummary> {
+  const rows = await tenantDb
+    .update(knowledgeDocuments)
+    .set({ enabled, updatedAt: new Date() })
+    .where(eq(knowledgeDocuments.id, id))
+    .returning();
+  const document = (rows as KnowledgeDocument[])[0];
+  if (!document) throw new KnowledgeBaseError('Document not found', 404);
+
+  await invalidateKnowledgeBase(tenantDb.tenantId);
+  return toSummary(document);
+}
+
+export async function deleteKnowledgeDocument(tenantDb: TenantDb, id: number): Promise<void> {
+  const rows = await tenantDb
+    .delete(knowledgeDocuments)
+    .where(eq(knowledgeDocuments.id, id))
+    .returning({ id: knowledgeDocuments.id });
+  if ((rows as Array<{ id: number }>).length === 0) {
+    throw new KnowledgeBaseError('Document not found', 404);
+  }
+  await invalidateKnowledgeBase(tenantDb.tenantId);
+}
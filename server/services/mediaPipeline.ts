@@ -0,0 +1,210 @@
+/**
+ * Photo pipeline
+ *
+ * Every uploaded photo (job photos, customer and damage-assessment uploads)
+ * is decoded once and re-encoded as JPEG before it is stored:
+ * - the main image, auto-rotated and capped at 2048px
+ * - a 96x96 thumbnail and a 640px MMS rendition under the carrier size
+ *   limit, the same derivatives technician profile photos get
+ *
+ * Re-encoding drops EXIF/XMP metadata, so GPS location from the phone never
+ * reaches a shared link. HEIC/HEIF and WebP are accepted; HEIC decoding
+ * depends on the libvips build (prebuilt sharp only decodes AVIF-coded
+ * HEIF), so an undecodable HEIC gets a clear 415 instead of a stored blob.
+ */
+
+import sharp from 'sharp';
+import { nanoid } from 'nanoid';
+import { mediaStorage, type MediaStorageDriver } from './mediaStorage';
+
+export class MediaProcessingError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'MediaProcessingError';
+  }
+}
+
+export const ACCEPTED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+];
+const ACCEPTED_IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|heic|heif)$/i;
+
+export const MAX_IMAGE_UPLOAD_BYTES = 15 * 1024 * 1024;
+export const MMS_SIZE_LIMIT = 350000; // 350KB in bytes
+
+const MAX_DIMENSION = 2048;
+
+// Links shown in the app are re-signed on every load; links sent by SMS have to last a while
+export const MEDIA_URL_TTL_SECONDS = 60 * 60;
+export const SHARED_MEDIA_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Multer fileFilter check. Some phones send HEIC as application/octet-stream,
+ * so the extension decides in that case.
+ */
+export function isAcceptedImage(file: { originalname: string; mimetype: string }): boolean {
+  if (!ACCEPTED_IMAGE_EXTENSIONS.test(file.originalname)) return false;
+  return ACCEPTED_IMAGE_TYPES.includes(file.mimetype.toLowerCase()) || file.mimetype === 'application/octet-stream';
+}
+
+/**
+ * ISO-BMFF brands used by HEIC/HEIF files ("....ftypheic")
+ */
+export function looksLikeHeic(buffer: Buffer): boolean {
+  if (buffer.length < 12 || buffer.toString('ascii', 4, 8) !== 'ftyp') return false;
+  return ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(buffer.toString('ascii', 8, 12));
+}
+
+/**
+ * Square thumbnail, center-cropped
+ */
+export async function renderThumbnail(input: Buffer, size: number): Promise<Buffer> {
+  return sharp(input)
+    .rotate()
+    .resize(size, size, { fit: 'cover', position: 'center' })
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer();
+}
+
+/**
+ * 640x640 rendition for MMS. Steps quality (then resolution) down until it
+ * fits MMS_SIZE_LIMIT; callers decide what to do if even the last step is
+ * too large.
+ */
+export async function renderMmsImage(input: Buffer): Promise<Buffer> {
+  const steps = [
+    { size: 640, quality: 75 },
+    { size: 640, quality: 60 },
+    { size: 640, quality: 50 },
+    { size: 480, quality: 60 },
+  ];
+
+  let rendered = Buffer.alloc(0);
+  for (const step of steps) {
+    rendered = await sharp(input)
+      .rotate()
+      .resize(step.size, step.size, { fit: 'cover', position: 'center' })
+      .jpeg({ quality: step.quality, mozjpeg: true })
+      .toBuffer();
+    if (rendered.length <= MMS_SIZE_LIMIT) break;
+  }
+  return rendered;
+}
+
+export interface ProcessedImage {
+  main: Buffer;
+  thumb96: Buffer;
+  mms640: Buffer | null; // null when it can't be squeezed under the MMS limit
+  width: number;
+  height: number;
+}
+
+/**
+ * Decode, orient, strip metadata and build the derivatives
+ */
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  let main: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    main = await sharp(input)
+      .rotate()
+      .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 85, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    if (looksLikeHeic(input)) {
+      throw new MediaProcessingError('HEIC photos can\'t be read on this server. Please send the photo as JPEG.', 415);
+    }
+    throw new MediaProcessingError('The file could not be read as an image', 415);
+  }
+
+  const [thumb96, mms640] = await Promise.all([renderThumbnail(input, 96), renderMmsImage(input)]);
+
+  return {
+    main: main.data,
+    thumb96,
+    mms640: mms640.length <= MMS_SIZE_LIMIT ? mms640 : null,
+    width: main.info.width,
+    height: main.info.height,
+  };
+}
+
+export interface StoredImage {
+  storageKey: string;
+  thumb96Key: string;
+  mms640Key: string | null;
+  mimeType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Process an upload and write all renditions. `scope` groups keys by
+ * feature, e.g. "job-photos/123" or "customer-uploads".
+ */
+export async function storeImage(
+  input: Buffer,
+  options: { tenantId: string; scope: string; storage?: MediaStorageDriver; now?: Date }
+): Promise<StoredImage> {
+  const storage = options.storage ?? mediaStorage;
+  const processed = await processImage(input);
+
+  const month = (options.now ?? new Date()).toISOString().slice(0, 7);
+  const base = `${options.tenantId}/${options.scope}/${month}/${nanoid(16)}`;
+  const storageKey = `${base}.jpg`;
+  const thumb96Key = `${base}_thumb_96.jpg`;
+  const mms640Key = processed.mms640 ? `${base}_mms_640.jpg` : null;
+
+  await Promise.all([
+    storage.put(storageKey, processed.main, 'image/jpeg'),
+    storage.put(thumb96Key, processed.thumb96, 'image/jpeg'),
+    mms640Key && processed.mms640 ? storage.put(mms640Key, processed.mms640, 'image/jpeg') : Promise.resolve(),
+  ]);
+
+  return {
+    storageKey,
+    thumb96Key,
+    mms640Key,
+    mimeType: 'image/jpeg',
+    fileSize: processed.main.length,
+    width: processed.width,
+    height: processed.height,
+  };
+}
+
+/**
+ * Download a photo someone linked to (MMS media, chat URL uploads) with the
+ * same size limit as direct uploads
+ */
+export async function fetchImage(url: string): Promise<Buffer> {
+  if (!/^https?:\/\//i.test(url)) {
+    throw new MediaProcessingError('Photo URL must be http or https', 400);
+  }
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(15000) });
+  } catch {
+    throw new MediaProcessingError('Could not download the photo', 502);
+  }
+  if (!response.ok) {
+    throw new MediaProcessingError(`Could not download the photo (${response.status})`, 502);
+  }
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_IMAGE_UPLOAD_BYTES) {
+    throw new MediaProcessingError('Photo is too large', 413);
+  }
+  const body = Buffer.from(await response.arrayBuffer());
+  if (body.length > MAX_IMAGE_UPLOAD_BYTES) {
+    throw new MediaProcessingError('Photo is too large', 413);
+  }
+  return body;
+}
+
+export function signedMediaUrl(key: string, expiresInSeconds: number = MEDIA_URL_TTL_SECONDS): string {
+  return mediaStorage.signedUrl(key, expiresInSeconds);
+}
@@ -0,0 +1,294 @@
+/**
+ * Media Storage
+ *
+ * Where uploaded photos live. Callers deal in storage keys
+ * ("<tenant>/<scope>/<yyyy-mm>/<id>.jpg") and never in file paths or bucket
+ * URLs; anything handed to a browser or an SMS is a signed URL that expires.
+ *
+ * Drivers:
+ * - local: files under MEDIA_STORAGE_DIR (default ./storage/media), served by
+ *   GET /api/media/<key>?expires=&sig= with an HMAC signature keyed on
+ *   MEDIA_URL_SECRET (or SESSION_SECRET). Without one, no link is signed
+ *   and none verifies.
+ * - s3: any S3-compatible bucket (AWS, R2, MinIO...). Set
+ *   MEDIA_STORAGE_DRIVER=s3 plus MEDIA_S3_BUCKET, MEDIA_S3_ACCESS_KEY_ID,
+ *   MEDIA_S3_SECRET_ACCESS_KEY and optionally MEDIA_S3_REGION /
+ *   MEDIA_S3_ENDPOINT. Requests and links are SigV4 presigned URLs, so no SDK
+ *   is needed.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export class MediaStorageError extends Error {
+  constructor(message: string, public statusCode: number = 500) {
+    super(message);
+    this.name = 'MediaStorageError';
+  }
+}
+
+export interface MediaStorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  signedUrl(key: string, expiresInSeconds: number, now?: Date): string;
+}
+
+const LOG_PREFIX = '[MEDIA STORAGE]';
+const KEY_PATTERN = /^[A-Za-z0-9][A-Za-z0-9/_.-]*$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Keys come from our own code, but they end up in paths and URLs - refuse
+ * anything that could climb out of the storage root
+ */
+export function assertValidMediaKey(key: string): void {
+  if (!KEY_PATTERN.test(key) || key.split('/').some(part => part === '' || part === '.' || part === '..')) {
+    throw new MediaStorageError(`Invalid media key: ${key}`, 400);
+  }
+}
+
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function getBaseUrl(): string {
+  return process.env.REPLIT_DEV_DOMAIN
+    ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+    : process.env.PUBLIC_URL || 'https://cleanmachine.app';
+}
+
+function urlSigningKey(): string | null {
+  return process.env.MEDIA_URL_SECRET || process.env.SESSION_SECRET || null;
+}
+
+export const MEDIA_ROUTE_PREFIX = '/api/media';
+
+/**
+ * Files on the server's disk. Fine for a single instance and for running
+ * offline; use the S3 driver when several instances share uploads.
+ */
+export class LocalDiskMediaStorage implements MediaStorageDriver {
+  readonly name = 'local';
+
+  constructor(
+    private root: string,
+    private options: { baseUrl?: string; secret?: string } = {}
+  ) {}
+
+  resolvePath(key: string): string {
+    assertValidMediaKey(key);
+    return path.join(this.root, ...key.split('/'));
+  }
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  private signingKey(): string | null {
+    return this.options.secret || urlSigningKey();
+  }
+
+  private signature(secret: string, key: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${key}:${expires}`)
+      .digest('base64url');
+  }
+
+  signedUrl(key: string, expiresInSeconds: number, now: Date = new Date()): string {
+    assertValidMediaKey(key);
+    const secret = this.signingKey();
+    if (!secret) {
+      throw new MediaStorageError('MEDIA_URL_SECRET or SESSION_SECRET must be set to sign media links');
+    }
+    const expires = Math.floor(now.getTime() / 1000) + expiresInSeconds;
+    const base = this.options.baseUrl ?? getBaseUrl();
+    return `${base}${MEDIA_ROUTE_PREFIX}/${key}?expires=${expires}&sig=${this.signature(secret, key, expires)}`;
+  }
+
+  verify(
+    key: string,
+    expires: string | undefined,
+    sig: string | undefined,
+    now: Date = new Date()
+  ): 'ok' | 'malformed' | 'bad_sig' | 'expired' {
+    const expiresAt = Number(expires);
+    if (!sig || !Number.isInteger(expiresAt) || !KEY_PATTERN.test(key)) return 'malformed';
+
+    const secret = this.signingKey();
+    if (!secret) return 'bad_sig';
+    const expected = Buffer.from(this.signature(secret, key, expiresAt));
+    const given = Buffer.from(sig);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) return 'bad_sig';
+    if (expiresAt < Math.floor(now.getTime() / 1000)) return 'expired';
+    return 'ok';
+  }
+}
+
+export interface S3MediaStorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // Custom endpoint for R2/MinIO etc; path-style addressing is used
+}
+
+// RFC 3986 encoding as SigV4 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value).digest();
+}
+
+/**
+ * S3-compatible object storage. Every call (including put/get/delete) goes
+ * through a short-lived presigned URL.
+ */
+export class S3MediaStorage implements MediaStorageDriver {
+  readonly name = 's3';
+
+  constructor(private config: S3MediaStorageConfig) {}
+
+  private objectUrl(key: string): URL {
+    assertValidMediaKey(key);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    if (this.config.endpoint) {
+      const endpoint = this.config.endpoint.replace(/\/+$/, '');
+      return new URL(`${endpoint}/${this.config.bucket}/${encodedKey}`);
+    }
+    const host = this.config.region === 'us-east-1'
+      ? 's3.amazonaws.com'
+      : `s3.${this.config.region}.amazonaws.com`;
+    return new URL(`https://${this.config.bucket}.${host}/${encodedKey}`);
+  }
+
+  /**
+   * SigV4 query-string presigning (UNSIGNED-PAYLOAD, host as the only signed header)
+   */
+  presign(method: 'GET' | 'PUT' | 'DELETE', key: string, expiresInSeconds: number, now: Date = new Date()): string {
+    const url = this.objectUrl(key);
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const query: Array<[string, string]> = [
+      ['X-Amz-Algorithm', 'AWS4-HMAC-SHA256'],
+      ['X-Amz-Credential', `${this.config.accessKeyId}/${scope}`],
+      ['X-Amz-Date', amzDate],
+      ['X-Amz-Expires', String(expiresInSeconds)],
+      ['X-Amz-SignedHeaders', 'host'],
+    ];
+    const canonicalQuery = query
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .sort()
+      .join('&');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      `host:${url.host}\n`,
+      'host',
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'),
+      'aws4_request'
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await fetch(this.presign('PUT', key, 300), {
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      body,
+    });
+    if (!response.ok) {
+      throw new MediaStorageError(`S3 upload of ${key} failed with ${response.status}`, 502);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await fetch(this.presign('GET', key, 300));
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new MediaStorageError(`S3 download of ${key} failed with ${response.status}`, 502);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await fetch(this.presign('DELETE', key, 300), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new MediaStorageError(`S3 delete of ${key} failed with ${response.status}`, 502);
+    }
+  }
+
+  signedUrl(key: string, expiresInSeconds: number, now: Date = new Date()): string {
+    return this.presign('GET', key, expiresInSeconds, now);
+  }
+}
+
+function createDefaultStorage(): MediaStorageDriver {
+  if (process.env.MEDIA_STORAGE_DRIVER === 's3') {
+    const bucket = process.env.MEDIA_S3_BUCKET;
+    const accessKeyId = process.env.MEDIA_S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.MEDIA_S3_SECRET_ACCESS_KEY;
+    if (bucket && accessKeyId && secretAccessKey) {
+      return new S3MediaStorage({
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        region: process.env.MEDIA_S3_REGION || 'us-east-1',
+        endpoint: process.env.MEDIA_S3_ENDPOINT || undefined,
+      });
+    }
+    console.warn(`${LOG_PREFIX} MEDIA_STORAGE_DRIVER=s3 but bucket credentials are missing - using local disk`);
+  }
+  if (!urlSigningKey()) {
+    console.warn(`${LOG_PREFIX} MEDIA_URL_SECRET/SESSION_SECRET not set - local media links can't be signed or opened`);
+  }
+  return new LocalDiskMediaStorage(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'storage', 'media'));
+}
+
+export const mediaStorage: MediaStorageDriver = createDefaultStorage();
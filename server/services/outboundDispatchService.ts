@@ -0,0 +1,414 @@
+/**
+ * Outbound Dispatch Service
+ *
+ * Central queue for every automated SMS and email. Producers call
+ * enqueueOutbound() instead of Twilio/SendGrid; the dispatcher worker then
+ * sends due messages while enforcing:
+ * - per-tenant quiet hours in the recipient's local timezone
+ * - per-tenant, per-channel rate limits (messages per minute)
+ * - the consent ledger for the message purpose
+ * - retries with exponential backoff, up to maxAttempts
+ *
+ * When a message reaches a terminal state the producer is told via its
+ * sourceType (campaign recipient rows, reminder jobs, ...).
+ */
+
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import { outboundMessages, tenantConfig, type OutboundMessage } from '@shared/schema';
+import { and, asc, eq, lt, lte, sql } from 'drizzle-orm';
+import {
+  DEFAULT_QUIET_HOURS,
+  inferRecipientTimezone,
+  isWithinQuietHours,
+  nextAllowedSendTime,
+  retryBackoffMs,
+  type QuietHours,
+} from '@shared/sendWindow';
+import { getTenantTimezone } from '../timezoneUtils';
+import { checkConsentForSend } from './consentLedgerService';
+import { MARKETING_SEND_PURPOSES } from '@shared/consentLedger';
+
+export type OutboundChannel = 'sms' | 'email';
+
+export interface OutboundMessageRequest {
+  channel: OutboundChannel;
+  purpose: string;
+  to: string;
+  body: string;
+  subject?: string;
+  html?: string;
+  customerId?: number | null;
+  phoneLineId?: number | null;
+  recipientAddress?: string | null; // Used to infer the recipient's timezone
+  recipientTimezone?: string | null; // Explicit override (e.g. campaign recipient row)
+  respectQuietHours?: boolean;       // Default true
+  sendAfter?: Date;
+  maxAttempts?: number;
+  sourceType?: string;
+  sourceId?: number;
+  dedupeKey?: string;
+}
+
+export interface DispatchPolicy {
+  quietHours: QuietHours;
+  smsPerMinute: number;
+  emailPerMinute: number;
+}
+
+export type DispatchOutcome =
+  | { status: 'sent'; providerMessageId: string | null }
+  | { status: 'failed'; error: string }
+  | { status: 'skipped'; error: string };
+
+const DEFAULT_POLICY: DispatchPolicy = {
+  quietHours: DEFAULT_QUIET_HOURS,
+  smsPerMinute: 60,
+  emailPerMinute: 120,
+};
+
+// Messages stuck in 'sending' longer than this (worker crashed mid-send) are retried
+const STALE_SENDING_MS = 15 * 60 * 1000;
+
+// Reminders, replies and other transactional sends go out before marketing
+const MARKETING_LAST = sql`CASE WHEN lower(${outboundMessages.purpose}) IN (${sql.join(
+  Array.from(MARKETING_SEND_PURPOSES).map((purpose) => sql`${purpose}`),
+  sql`, `
+)}) THEN 1 ELSE 0 END`;
+
+/**
+ * Per-tenant quiet hours and rate limits from tenant_config
+ */
+export async function loadDispatchPolicy(tenantId: string): Promise<DispatchPolicy> {
+  try {
+    const [config] = await db
+      .select({
+        quietHoursStart: tenantConfig.quietHoursStart,
+        quietHoursEnd: tenantConfig.quietHoursEnd,
+        outboundSmsPerMinute: tenantConfig.outboundSmsPerMinute,
+        outboundEmailPerMinute: tenantConfig.outboundEmailPerMinute,
+      })
+      .from(tenantConfig)
+      .where(eq(tenantConfig.tenantId, tenantId))
+      .limit(1);
+
+    if (!config) return DEFAULT_POLICY;
+
+    return {
+      quietHours: {
+        startHour: config.quietHoursStart ?? DEFAULT_QUIET_HOURS.startHour,
+        endHour: config.quietHoursEnd ?? DEFAULT_QUIET_HOURS.endHour,
+      },
+      smsPerMinute: config.outboundSmsPerMinute ?? DEFAULT_POLICY.smsPerMinute,
+      emailPerMinute: config.outboundEmailPerMinute ?? DEFAULT_POLICY.emailPerMinute,
+    };
+  } catch (error) {
+    console.error(`[OUTBOUND] Failed to load dispatch policy for ${tenantId}, using defaults:`, error);
+    return DEFAULT_POLICY;
+  }
+}
+
+/**
+ * Queue an SMS or email. The scheduled time is pushed past the recipient's
+ * quiet hours up front so the queue reflects when it will really go out.
+ * Returns null if a message with the same dedupeKey was already queued.
+ */
+export async function enqueueOutbound(
+  tenantDb: TenantDb,
+  request: OutboundMessageRequest
+): Promise<OutboundMessage | null> {
+  const respectQuietHours = request.respectQuietHours ?? true;
+  const recipientTimezone = request.recipientTimezone || inferRecipientTimezone(
+    { address: request.recipientAddress, phone: request.channel === 'sms' ? request.to : null },
+    await getTenantTimezone(tenantDb)
+  );
+
+  const earliest = request.sendAfter && request.sendAfter > new Date() ? request.sendAfter : new Date();
+  const scheduledFor = respectQuietHours
+    ? nextAllowedSendTime(earliest, recipientTimezone, (await loadDispatchPolicy(tenantDb.tenantId)).quietHours)
+    : earliest;
+
+  const [queued] = await tenantDb
+    .insert(outboundMessages)
+    .values({
+      channel: request.channel,
+      purpose: request.purpose,
+      toAddress: request.to,
+      subject: request.subject ?? null,
+      body: request.body,
+      html: request.html ?? null,
+      customerId: request.customerId ?? null,
+      phoneLineId: request.phoneLineId ?? null,
+      recipientTimezone,
+      respectQuietHours,
+      scheduledFor,
+      maxAttempts: request.maxAttempts ?? 5,
+      sourceType: request.sourceType ?? null,
+      sourceId: request.sourceId ?? null,
+      dedupeKey: request.dedupeKey ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!queued) {
+    console.log(`[OUTBOUND] tenantId=${tenantDb.tenantId} dedupe_hit key=${request.dedupeKey}`);
+    return null;
+  }
+
+  console.log(
+    `[OUTBOUND] tenantId=${tenantDb.tenantId} queued id=${queued.id} channel=${request.channel} ` +
+    `purpose=${request.purpose} tz=${recipientTimezone} scheduledFor=${scheduledFor.toISOString()}`
+  );
+  return queued as OutboundMessage;
+}
+
+async function deliver(tenantDb: TenantDb, message: OutboundMessage): Promise<DispatchOutcome> {
+  const consent = await checkConsentForSend(
+    tenantDb,
+    message.channel === 'sms'
+      ? { customerId: message.customerId, phone: message.toAddress }
+      : { customerId: message.customerId, email: message.toAddress },
+    message.channel as OutboundChannel,
+    message.purpose
+  );
+  if (!consent.allowed) {
+    return { status: 'skipped', error: `no_consent (${consent.reason})` };
+  }
+
+  if (message.channel === 'sms') {
+    const { sendSMS } = await import('../notifications');
+    const result = await sendSMS(
+      tenantDb,
+      message.toAddress,
+      message.body,
+      undefined,
+      undefined,
+      message.phoneLineId ?? undefined
+    );
+    return result.success
+      ? { status: 'sent', providerMessageId: result.messageSid ?? null }
+      : { status: 'failed', error: String(result.error ?? 'SMS send failed') };
+  }
+
+  const { sendBusinessEmail } = await import('../emailService');
+  const result = await sendBusinessEmail(
+    message.toAddress,
+    message.subject ?? '',
+    message.body,
+    message.html ?? undefined
+  );
+  return result.success
+    ? { status: 'sent', providerMessageId: null }
+    : { status: 'failed', error: String(result.error?.message ?? result.error ?? 'Email send failed') };
+}
+
+/**
+ * Tell the producer its message reached a terminal state
+ */
+async function notifySource(
+  tenantDb: TenantDb,
+  message: OutboundMessage,
+  outcome: DispatchOutcome
+): Promise<void> {
+  if (!message.sourceType || message.sourceId == null) return;
+
+  try {
+    switch (message.sourceType) {
+      case 'sms_campaign_recipient': {
+        const { recordCampaignDispatchResult } = await import('../smsCampaignService');
+        await recordCampaignDispatchResult(tenantDb, message.sourceId, outcome);
+        break;
+      }
+      case 'reminder_job': {
+        const { markReminderSent, markReminderFailed } = await import('../reminderService');
+        if (outcome.status === 'sent') {
+          await markReminderSent(tenantDb, message.sourceId, message.channel as OutboundChannel);
+        } else {
+          await markReminderFailed(tenantDb, message.sourceId, outcome.error);
+        }
+        break;
+      }
+      case 'scheduled_message': {
+        const { recordScheduledDispatchResult } = await import('./scheduledMessageService');
+        await recordScheduledDispatchResult(tenantDb, message.sourceId, message, outcome);
+        break;
+      }
+      case 'journey_enrollment': {
+        const { recordJourneyDispatchResult } = await import('./journeyService');
+        await recordJourneyDispatchResult(tenantDb, message.sourceId, message, outcome);
+        break;
+      }
+      default:
+        break;
+    }
+  } catch (error) {
+    console.error(`[OUTBOUND] Failed to notify ${message.sourceType}#${message.sourceId}:`, error);
+  }
+}
+
+async function dispatchOne(
+  tenantDb: TenantDb,
+  message: OutboundMessage,
+  policy: DispatchPolicy,
+  now: Date
+): Promise<DispatchOutcome['status'] | 'retried' | 'deferred'> {
+  // Retries (and messages queued before a policy change) can come due at night
+  if (message.respectQuietHours && isWithinQuietHours(now, message.recipientTimezone, policy.quietHours)) {
+    const resumeAt = nextAllowedSendTime(now, message.recipientTimezone, policy.quietHours);
+    await tenantDb
+      .update(outboundMessages)
+      .set({ scheduledFor: resumeAt, updatedAt: now })
+      .where(eq(outboundMessages.id, message.id));
+    return 'deferred';
+  }
+
+  // Claim the row so a second worker can't send it too
+  const claimed = await tenantDb
+    .update(outboundMessages)
+    .set({ status: 'sending', updatedAt: now })
+    .where(and(eq(outboundMessages.id, message.id), eq(outboundMessages.status, 'pending')))
+    .returning({ id: outboundMessages.id });
+  if (claimed.length === 0) return 'deferred';
+
+  let outcome: DispatchOutcome;
+  try {
+    outcome = await deliver(tenantDb, message);
+  } catch (error: any) {
+    outcome = { status: 'failed', error: error?.message || 'unknown' };
+  }
+
+  const attemptCount = message.attemptCount + 1;
+
+  if (outcome.status === 'failed' && attemptCount < message.maxAttempts) {
+    const retryAt = new Date(now.getTime() + retryBackoffMs(attemptCount));
+    await tenantDb
+      .update(outboundMessages)
+      .set({ status: 'pending', attemptCount, lastError: outcome.error, scheduledFor: retryAt, updatedAt: new Date() })
+      .where(eq(outboundMessages.id, message.id));
+    console.warn(`[OUTBOUND] id=${message.id} attempt=${attemptCount} failed, retry at ${retryAt.toISOString()}: ${outcome.error}`);
+    return 'retried';
+  }
+
+  await tenantDb
+    .update(outboundMessages)
+    .set({
+      status: outcome.status,
+      attemptCount,
+      lastError: outcome.status === 'sent' ? null : outcome.error,
+      providerMessageId: outcome.status === 'sent' ? outcome.providerMessageId : null,
+      sentAt: outcome.status === 'sent' ? new Date() : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(outboundMessages.id, message.id));
+
+  await notifySource(tenantDb, { ...message, attemptCount }, outcome);
+  return outcome.status;
+}
+
+/**
+ * One dispatcher pass: send what's due, per tenant and channel, up to that
+ * tenant's per-minute limit. Each tenant only loads its own share, so one
+ * tenant's backlog can't hold up anyone else's messages; whatever is left
+ * stays pending for the next pass.
+ */
+export async function processOutboundQueue(now: Date = new Date()) {
+  const stats = { sent: 0, failed: 0, skipped: 0, retried: 0, deferred: 0 };
+
+  // Recover rows orphaned by a crash mid-send
+  await db
+    .update(outboundMessages)
+    .set({ status: 'pending', updatedAt: now })
+    .where(and(
+      eq(outboundMessages.status, 'sending'),
+      lt(outboundMessages.updatedAt, new Date(now.getTime() - STALE_SENDING_MS))
+    ));
+
+  const isDue = and(eq(outboundMessages.status, 'pending'), lte(outboundMessages.scheduledFor, now));
+
+  // Cross-tenant scan for who has work; each tenant's messages are then
+  // loaded and handled through its own db
+  const queues = await db
+    .selectDistinct({ tenantId: outboundMessages.tenantId, channel: outboundMessages.channel })
+    .from(outboundMessages)
+    .where(isDue);
+
+  const policies = new Map<string, DispatchPolicy>();
+  let handled = 0;
+
+  for (const { tenantId, channel } of queues) {
+    const tenantDb = wrapTenantDb(db, tenantId);
+    if (!policies.has(tenantId)) policies.set(tenantId, await loadDispatchPolicy(tenantId));
+    const policy = policies.get(tenantId)!;
+    const limit = channel === 'sms' ? policy.smsPerMinute : policy.emailPerMinute;
+
+    const due = await tenantDb
+      .select()
+      .from(outboundMessages)
+      .where(tenantDb.withTenantFilter(outboundMessages, and(isDue, eq(outboundMessages.channel, channel))))
+      .orderBy(MARKETING_LAST, asc(outboundMessages.scheduledFor), asc(outboundMessages.id))
+      .limit(limit);
+
+    for (const message of due) {
+      const result = await dispatchOne(tenantDb, message, policy, now);
+      stats[result]++;
+      handled++;
+    }
+  }
+
+  if (handled > 0) {
+    console.log(
+      `[OUTBOUND] pass complete: sent=${stats.sent} failed=${stats.failed} skipped=${stats.skipped} ` +
+      `retried=${stats.retried} deferred=${stats.deferred}`
+    );
+  }
+  return stats;
+}
+
+/**
+ * Cancel queued messages for a producer record (e.g. a reminder that was snoozed)
+ */
+export async function cancelOutboundForSource(
+  tenantDb: TenantDb,
+  sourceType: string,
+  sourceId: number
+): Promise<number> {
+  const cancelled = await tenantDb
+    .update(outboundMessages)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(
+      eq(outboundMessages.sourceType, sourceType),
+      eq(outboundMessages.sourceId, sourceId),
+      eq(outboundMessages.status, 'pending')
+    ))
+    .returning({ id: outboundMessages.id });
+  return cancelled.length;
+}
+
+let workerStarted = false;
+
+/**
+ * Start the once-a-minute dispatcher (only when background jobs are enabled)
+ */
+export function startOutboundDispatchWorker(): void {
+  if (workerStarted) return;
+  if (process.env.PLATFORM_BG_JOBS_ENABLED !== '1') {
+    console.log('[OUTBOUND] Dispatcher disabled (PLATFORM_BG_JOBS_ENABLED !== 1)');
+    return;
+  }
+
+  workerStarted = true;
+  let running = false;
+  setInterval(async () => {
+    if (running) return; // Previous pass still sending
+    running = true;
+    try {
+      await processOutboundQueue();
+    } catch (error) {
+      console.error('[OUTBOUND] Dispatcher pass failed:', error);
+    } finally {
+      running = false;
+    }
+  }, 60 * 1000);
+
+  console.log('[OUTBOUND] Dispatcher started - runs every minute');
+}
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { wrapTenantDb } from '../tenantDb';
 import { sql } from 'drizzle-orm';
 import { getParserImport, markImportApplied } from './parserIntegrationService';
+import { invalidateKnowledgeBase } from './knowledgeBaseService';
 
 const LOG_PREFIX = '[PARSER APPLY]';
 
@@ -80,6 +81,8 @@ export async function applyParserKnowledge(
       toneProfile: flags.applyTone,
     });
 
+    await invalidateKnowledgeBase(tenantId);
+
     result.success = true;
     console.log(`${LOG_PREFIX} Apply complete:`, result);
     return result;
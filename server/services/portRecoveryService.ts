@@ -32,6 +32,9 @@ import { awardPoints, awardCampaignPointsOnce } from '../gamificationService';
 import { generateRewardsToken } from '../routes.loyalty';
 import { tenantDomains } from '@shared/schema';
 import { formatInTimeZone } from 'date-fns-tz';
+import { isWithinQuietHours, nextAllowedSendTime, type QuietHours } from '@shared/sendWindow';
+import { withAttributionCode } from '@shared/attribution';
+import { getSegmentCustomers } from './customerSegmentService';
 import { 
   sendPortRecoverySms as sendPortRecoverySmsStrict,
   computeCampaignKey,
@@ -39,8 +42,7 @@ import {
 
 // Oklahoma quiet hours: 8pm-8am CST - no campaign messages during this time
 const OKLAHOMA_TIMEZONE = 'America/Chicago';
-const QUIET_HOURS_START = 20; // 8:00 PM
-const QUIET_HOURS_END = 8;    // 8:00 AM
+const OKLAHOMA_QUIET_HOURS: QuietHours = { startHour: 20, endHour: 8 };
 
 /**
  * Check if current time is within Oklahoma quiet hours (8pm-8am CST)
@@ -49,15 +51,10 @@ const QUIET_HOURS_END = 8;    // 8:00 AM
  */
 export function isQuietHours(): boolean {
   const now = new Date();
-  // Get current hour in Oklahoma timezone
-  const oklahomaNow = formatInTimeZone(now, OKLAHOMA_TIMEZONE, 'HH');
-  const currentHour = parseInt(oklahomaNow, 10);
-  
-  // Quiet hours are 8pm (20:00) to 8am (08:00)
-  // So blocked hours are: 20, 21, 22, 23, 0, 1, 2, 3, 4, 5, 6, 7
-  const isInQuietHours = currentHour >= QUIET_HOURS_START || currentHour < QUIET_HOURS_END;
+  const isInQuietHours = isWithinQuietHours(now, OKLAHOMA_TIMEZONE, OKLAHOMA_QUIET_HOURS);
   
   if (isInQuietHours) {
+    const currentHour = formatInTimeZone(now, OKLAHOMA_TIMEZONE, 'H');
     console.log(`[PORT RECOVERY] QUIET HOURS: Current Oklahoma time ${currentHour}:00 - SMS blocked until 8:00 AM CST`);
   }
   
@@ -69,33 +66,7 @@ export function isQuietHours(): boolean {
  * @returns Date object for when sending is next allowed
  */
 export function getNextAllowedSendTime(): Date {
-  const now = new Date();
-  // Create a date for 8:00 AM Oklahoma time today
-  const today8am = new Date();
-  today8am.setHours(0, 0, 0, 0);
-  
-  // Get current Oklahoma hour
-  const oklahomaNow = formatInTimeZone(now, OKLAHOMA_TIMEZONE, 'HH');
-  const currentHour = parseInt(oklahomaNow, 10);
-  
-  // If before 8am, next allowed is today at 8am
-  // If after 8pm, next allowed is tomorrow at 8am
-  if (currentHour < QUIET_HOURS_END) {
-    // Before 8am today - can send at 8am today
-    const nextSend = new Date();
-    // Set to 8am in Oklahoma timezone
-    nextSend.setUTCHours(14, 0, 0, 0); // 8am CST = 14:00 UTC (standard time)
-    return nextSend;
-  } else if (currentHour >= QUIET_HOURS_START) {
-    // After 8pm - can send at 8am tomorrow
-    const nextSend = new Date();
-    nextSend.setDate(nextSend.getDate() + 1);
-    nextSend.setUTCHours(14, 0, 0, 0); // 8am CST = 14:00 UTC
-    return nextSend;
-  }
-  
-  // Currently in allowed hours
-  return now;
+  return nextAllowedSendTime(new Date(), OKLAHOMA_TIMEZONE, OKLAHOMA_QUIET_HOURS);
 }
 
 // Default SMS template for port recovery (holiday gift-card campaign version)
@@ -284,10 +255,12 @@ function isValidEmail(email: string | null): boolean {
 /**
  * Build consolidated target list from all customer sources
  * Returns unique customers by normalized phone/email
+ * @param segmentId - Optional: only target customers in this saved segment (skips conversations)
  */
 export async function buildTargetListForPortRecovery(
   tenantDb: TenantDb,
-  tenantId: string
+  tenantId: string,
+  segmentId?: number | null
 ): Promise<{
   targets: Array<{
     customerId: number | null;
@@ -328,16 +301,18 @@ export async function buildTargetListForPortRecovery(
   
   // 1. Pull from customers table - include ALL customers, defer SMS consent check to send step
   // This ensures every customer gets their customer_id set for points awarding
-  const customerRows = await tenantDb
-    .select({
-      id: customers.id,
-      phone: customers.phone,
-      email: customers.email,
-      name: customers.name,
-      smsConsent: customers.smsConsent,
-    })
-    .from(customers)
-    .where(eq(customers.tenantId, tenantId));
+  const customerRows = segmentId
+    ? await getSegmentCustomers(tenantDb, segmentId)
+    : await tenantDb
+      .select({
+        id: customers.id,
+        phone: customers.phone,
+        email: customers.email,
+        name: customers.name,
+        smsConsent: customers.smsConsent,
+      })
+      .from(customers)
+      .where(eq(customers.tenantId, tenantId));
   
   for (const c of customerRows) {
     totalFromCustomers++;
@@ -368,7 +343,8 @@ export async function buildTargetListForPortRecovery(
   }
   
   // 2. Pull from conversations (unique participant phones)
-  const conversationParticipants = await tenantDb
+  // A segment is a list of customers, so unlinked conversation phones can't be in it
+  const conversationParticipants = segmentId ? [] : await tenantDb
     .select({
       customerPhone: conversations.customerPhone,
       customerName: conversations.customerName,
@@ -427,13 +403,14 @@ export async function createPortRecoveryCampaign(
   tenantId: string,
   createdByUserId: number,
   campaignName: string = '2024-number-port-recovery',
-  previousCampaign?: PortRecoveryCampaign | null
+  previousCampaign?: PortRecoveryCampaign | null,
+  segmentId: number | null = previousCampaign?.segmentId ?? null
 ): Promise<{
   campaign: PortRecoveryCampaign;
   targetCount: number;
 }> {
   // Build target list
-  const { targets, stats } = await buildTargetListForPortRecovery(tenantDb, tenantId);
+  const { targets, stats } = await buildTargetListForPortRecovery(tenantDb, tenantId, segmentId);
   
   // Use settings from previous campaign if available, otherwise use defaults
   // This preserves user's custom SMS text across runs!
@@ -464,34 +441,71 @@ export async function createPortRecoveryCampaign(
       emailSubject,
       emailHtmlTemplate,
       ctaUrl,
+      segmentId,
     })
     .returning();
   
-  // Insert targets
-  if (targets.length > 0) {
-    const targetValues: InsertPortRecoveryTarget[] = targets.map(t => ({
-      campaignId: campaign.id,
-      tenantId,
-      customerId: t.customerId,
-      phone: t.phone,
-      email: t.email,
-      customerName: t.customerName,
-      smsStatus: 'pending' as const,
-      emailStatus: 'pending' as const,
-      pointsGranted: 0,
-    }));
-    
-    // Insert in batches to avoid query size limits
-    const batchSize = 500;
-    for (let i = 0; i < targetValues.length; i += batchSize) {
-      const batch = targetValues.slice(i, i + batchSize);
-      await tenantDb.insert(portRecoveryTargets).values(batch);
-    }
-  }
+  await insertCampaignTargets(tenantDb, tenantId, campaign.id as number, targets);
   
   return { campaign, targetCount: targets.length };
 }
 
+async function insertCampaignTargets(
+  tenantDb: TenantDb,
+  tenantId: string,
+  campaignId: number,
+  targets: Awaited<ReturnType<typeof buildTargetListForPortRecovery>>['targets']
+): Promise<void> {
+  if (targets.length === 0) return;
+  
+  const targetValues: InsertPortRecoveryTarget[] = targets.map(t => ({
+    campaignId,
+    tenantId,
+    customerId: t.customerId,
+    phone: t.phone,
+    email: t.email,
+    customerName: t.customerName,
+    smsStatus: 'pending' as const,
+    emailStatus: 'pending' as const,
+    pointsGranted: 0,
+  }));
+  
+  // Insert in batches to avoid query size limits
+  const batchSize = 500;
+  for (let i = 0; i < targetValues.length; i += batchSize) {
+    const batch = targetValues.slice(i, i + batchSize);
+    await tenantDb.insert(portRecoveryTargets).values(batch);
+  }
+}
+
+/**
+ * Rebuild a draft campaign's targets after its segment changes.
+ * Only drafts are rebuilt - once sending starts the target list is fixed.
+ */
+export async function rebuildDraftCampaignTargets(
+  tenantDb: TenantDb,
+  tenantId: string,
+  campaign: PortRecoveryCampaign
+): Promise<number> {
+  if (campaign.status !== 'draft') {
+    return campaign.totalTargets || 0;
+  }
+  
+  const { targets, stats } = await buildTargetListForPortRecovery(tenantDb, tenantId, campaign.segmentId);
+  
+  await tenantDb
+    .delete(portRecoveryTargets)
+    .where(eq(portRecoveryTargets.campaignId, campaign.id));
+  await insertCampaignTargets(tenantDb, tenantId, campaign.id, targets);
+  await tenantDb
+    .update(portRecoveryCampaigns)
+    .set({ totalTargets: stats.totalUnique, updatedAt: new Date() })
+    .where(eq(portRecoveryCampaigns.id, campaign.id));
+  
+  console.log(`[PORT RECOVERY] Rebuilt ${targets.length} targets for draft campaign ${campaign.id} (segment: ${campaign.segmentId ?? 'all customers'})`);
+  return stats.totalUnique;
+}
+
 /**
  * Get campaign by ID
  */
@@ -987,7 +1001,8 @@ export async function runPortRecoveryBatch(
   let errors = 0;
   
   const fromNumber = process.env.MAIN_PHONE_NUMBER || process.env.TWILIO_TEST_SMS_NUMBER || '';
-  const ctaUrl = campaign.ctaUrl || DEFAULT_CTA_URL;
+  // Tag the booking link so bookings from this blast are credited to it
+  const ctaUrl = withAttributionCode(campaign.ctaUrl || DEFAULT_CTA_URL, { channel: 'port_recovery', campaignId: campaign.id });
   const smsTemplate = campaign.smsTemplate || DEFAULT_SMS_TEMPLATE;
   const emailSubject = campaign.emailSubject || DEFAULT_EMAIL_SUBJECT;
   const emailHtmlTemplate = campaign.emailHtmlTemplate || DEFAULT_EMAIL_HTML_TEMPLATE;
@@ -1583,6 +1598,7 @@ export async function updateCampaign(
     smsEnabled?: boolean;
     emailEnabled?: boolean;
     pointsPerCustomer?: number;
+    segmentId?: number | null;
   }
 ): Promise<PortRecoveryCampaign | null> {
   // Filter out undefined values to prevent overwriting existing fields with NULL
@@ -1691,7 +1707,8 @@ export async function getOrCreateCampaignConfig(
  */
 export async function previewTargetList(
   tenantDb: TenantDb,
-  tenantId: string
+  tenantId: string,
+  segmentId?: number | null
 ): Promise<{
   stats: {
     totalFromCustomers: number;
@@ -1708,7 +1725,7 @@ export async function previewTargetList(
     source: string;
   }>;
 }> {
-  const { targets, stats } = await buildTargetListForPortRecovery(tenantDb, tenantId);
+  const { targets, stats } = await buildTargetListForPortRecovery(tenantDb, tenantId, segmentId);
   
   // Return first 10 as sample
   const sampleTargets = targets.slice(0, 10).map(t => ({
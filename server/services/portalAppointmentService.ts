@@ -0,0 +1,377 @@
+/**
+ * Portal Appointment Self-Service
+ *
+ * Lets a signed-in customer move or cancel their own appointment from the
+ * customer portal under the tenant's change policy (minimum notice,
+ * late-cancel fee, reschedule cap - see shared/appointmentChangePolicy.ts).
+ * Reschedules only land on slots the scheduling engine says are open; the
+ * slot re-check and the move happen under the tenant's schedule lock (see
+ * scheduleLock.ts) so no other booking can take the same slot meanwhile. A cancellation that leaves part of a
+ * paid deposit owed records a pending deposit refund for staff. Every change
+ * is mirrored to Google Calendar when connected, audited and pushed to staff.
+ */
+
+import { db } from '../db';
+import type { TenantDb } from '../tenantDb';
+import { appointments, auditLog, cancellationFeedback, services, tenantConfig } from '@shared/schema';
+import type { Appointment, Customer } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  APPOINTMENT_CHANGE_BLOCK_MESSAGES,
+  DEFAULT_APPOINTMENT_CHANGE_POLICY,
+  checkAppointmentChange,
+  type AppointmentChangeCheck,
+  type AppointmentChangePolicy,
+  type CancellationCategory,
+} from '@shared/appointmentChangePolicy';
+import type { OpenSlot } from '@shared/schedulingEngine';
+import { getNativeAvailability } from './schedulingEngine';
+import { getTenantTimezone } from '../timezoneUtils';
+import { invalidateAppointmentCaches } from '../cacheService';
+import { sendPushToAllUsers } from '../pushNotificationService';
+import { recordDepositRefund } from './depositRefundService';
+import { lockTenantSchedule, type ScheduleTx } from './scheduleLock';
+
+const RESCHEDULE_HORIZON_DAYS = 21;
+
+export class PortalAppointmentError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PortalAppointmentError';
+  }
+}
+
+export async function loadAppointmentChangePolicy(tenantId: string): Promise<AppointmentChangePolicy> {
+  try {
+    const [config] = await db
+      .select({
+        minNoticeHours: tenantConfig.portalMinNoticeHours,
+        lateCancelFee: tenantConfig.portalLateCancelFee,
+        maxReschedules: tenantConfig.portalMaxReschedules,
+      })
+      .from(tenantConfig)
+      .where(eq(tenantConfig.tenantId, tenantId))
+      .limit(1);
+
+    if (!config) return DEFAULT_APPOINTMENT_CHANGE_POLICY;
+
+    return {
+      minNoticeHours: config.minNoticeHours ?? DEFAULT_APPOINTMENT_CHANGE_POLICY.minNoticeHours,
+      lateCancelFee: Number(config.lateCancelFee ?? DEFAULT_APPOINTMENT_CHANGE_POLICY.lateCancelFee),
+      maxReschedules: config.maxReschedules ?? DEFAULT_APPOINTMENT_CHANGE_POLICY.maxReschedules,
+    };
+  } catch (error) {
+    console.error('[PORTAL APPOINTMENTS] Failed to load change policy, using defaults:', error);
+    return DEFAULT_APPOINTMENT_CHANGE_POLICY;
+  }
+}
+
+export async function updateAppointmentChangePolicy(
+  tenantId: string,
+  input: AppointmentChangePolicy
+): Promise<AppointmentChangePolicy | null> {
+  const rows = await db
+    .update(tenantConfig)
+    .set({
+      portalMinNoticeHours: input.minNoticeHours,
+      portalLateCancelFee: input.lateCancelFee.toFixed(2),
+      portalMaxReschedules: input.maxReschedules,
+      updatedAt: new Date(),
+    })
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .returning({ tenantId: tenantConfig.tenantId });
+
+  if (rows.length === 0) return null;
+  console.log(`[PORTAL APPOINTMENTS] tenantId=${tenantId} change policy: notice=${input.minNoticeHours}h fee=$${input.lateCancelFee} maxReschedules=${input.maxReschedules}`);
+  return loadAppointmentChangePolicy(tenantId);
+}
+
+async function loadCustomerAppointment(
+  executor: TenantDb | ScheduleTx,
+  tenantDb: TenantDb,
+  customerId: number,
+  appointmentId: number,
+  options: { lock?: boolean } = {}
+): Promise<{ appointment: Appointment; serviceName: string }> {
+  const query = executor
+    .select({ appointment: appointments, serviceName: services.name })
+    .from(appointments)
+    .leftJoin(services, eq(appointments.serviceId, services.id))
+    .where(
+      tenantDb.withTenantFilter(
+        appointments,
+        and(eq(appointments.id, appointmentId), eq(appointments.customerId, customerId))
+      )
+    )
+    .limit(1);
+  const [row] = options.lock ? await query.for('update', { of: appointments }) : await query;
+
+  if (!row) {
+    throw new PortalAppointmentError('Appointment not found', 404);
+  }
+  return { appointment: row.appointment, serviceName: row.serviceName || row.appointment.serviceType || 'Appointment' };
+}
+
+/**
+ * Google Calendar is optional: with no connector, or an appointment that
+ * never got an event, there's nothing to sync. Failures are logged, never
+ * thrown - the appointment change has already been saved.
+ */
+async function syncCalendarEvent(
+  appointment: Appointment,
+  change: { start: Date; end: Date } | 'delete'
+): Promise<void> {
+  if (!appointment.calendarEventId || !process.env.REPLIT_CONNECTORS_HOSTNAME) return;
+
+  try {
+    const { getGoogleCalendarClient } = await import('../googleCalendarConnector');
+    const calendarService = await getGoogleCalendarClient();
+    const calendarId = process.env.GOOGLE_CALENDAR_ID || 'primary';
+
+    if (change === 'delete') {
+      await calendarService.events.delete({ calendarId, eventId: appointment.calendarEventId });
+    } else {
+      await calendarService.events.patch({
+        calendarId,
+        eventId: appointment.calendarEventId,
+        requestBody: {
+          start: { dateTime: change.start.toISOString() },
+          end: { dateTime: change.end.toISOString() },
+        },
+      });
+    }
+  } catch (error: any) {
+    console.error(`[PORTAL APPOINTMENTS] Calendar sync failed for appointment ${appointment.id}:`, error?.message || error);
+  }
+}
+
+async function notifyStaff(title: string, body: string, appointmentId: number, type: string): Promise<void> {
+  try {
+    await sendPushToAllUsers({
+      title,
+      body,
+      tag: `${type}-${appointmentId}-${Date.now()}`,
+      data: { type, appointmentId, url: '/dashboard' },
+    });
+  } catch (error) {
+    console.error('[PORTAL APPOINTMENTS] Staff notification failed:', error);
+  }
+}
+
+export interface RescheduleOptions {
+  check: AppointmentChangeCheck;
+  policy: AppointmentChangePolicy;
+  timezone: string;
+  slots: OpenSlot[];
+}
+
+/**
+ * What the customer may do with an appointment right now, plus the open
+ * slots it could move to (empty when rescheduling isn't allowed)
+ */
+export async function getRescheduleOptions(
+  tenantDb: TenantDb,
+  customerId: number,
+  appointmentId: number
+): Promise<RescheduleOptions> {
+  const { appointment } = await loadCustomerAppointment(tenantDb, tenantDb, customerId, appointmentId);
+  const policy = await loadAppointmentChangePolicy(tenantDb.tenantId);
+  const check = checkAppointmentChange(appointment, policy, new Date());
+
+  if (!check.canReschedule) {
+    return { check, policy, timezone: await getTenantTimezone(tenantDb), slots: [] };
+  }
+
+  const availability = await getNativeAvailability(tenantDb.tenantId, {
+    serviceId: appointment.serviceId,
+    horizonDays: RESCHEDULE_HORIZON_DAYS,
+    excludeAppointmentId: appointment.id,
+  });
+  const current = new Date(appointment.scheduledTime).getTime();
+
+  return {
+    check,
+    policy,
+    timezone: availability.timezone,
+    slots: availability.slots.filter(slot => new Date(slot.startIso).getTime() !== current),
+  };
+}
+
+export async function rescheduleAppointmentForCustomer(
+  tenantDb: TenantDb,
+  customer: Customer,
+  appointmentId: number,
+  startIso: string
+): Promise<Appointment> {
+  const start = new Date(startIso);
+  if (isNaN(start.getTime())) {
+    throw new PortalAppointmentError('Invalid time selected');
+  }
+
+  const policy = await loadAppointmentChangePolicy(tenantDb.tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+
+  const { appointment, serviceName, slot, changes } = await tenantDb.transaction(async (tx) => {
+    await lockTenantSchedule(tx, tenantDb.tenantId);
+    const { appointment, serviceName } = await loadCustomerAppointment(tx, tenantDb, customer.id, appointmentId, { lock: true });
+    const check = checkAppointmentChange(appointment, policy, new Date());
+    if (!check.canReschedule) {
+      throw new PortalAppointmentError(APPOINTMENT_CHANGE_BLOCK_MESSAGES[check.rescheduleBlockedBy!], 409);
+    }
+
+    // Re-check the slot against live availability - it may have been taken since the list was loaded.
+    // Anything booked before we took the lock has committed and is visible here.
+    const availability = await getNativeAvailability(tenantDb.tenantId, {
+      serviceId: appointment.serviceId,
+      startDate: formatInTimeZone(start, timezone, 'yyyy-MM-dd'),
+      horizonDays: 1,
+      excludeAppointmentId: appointment.id,
+    });
+    const slot = availability.slots.find(s => new Date(s.startIso).getTime() === start.getTime());
+    if (!slot) {
+      throw new PortalAppointmentError('That time is no longer available. Please pick another.', 409);
+    }
+
+    // Keep the assigned tech when they're free for the new slot
+    const technicianId = slot.technicianIds.length === 0 ||
+      (appointment.technicianId !== null && slot.technicianIds.includes(appointment.technicianId))
+      ? appointment.technicianId
+      : slot.technicianIds[0];
+
+    const changes = {
+      scheduledTime: start,
+      technicianId,
+      rescheduleCount: (appointment.rescheduleCount ?? 0) + 1,
+      reminderSent: false,
+    };
+    await tx
+      .update(appointments)
+      .set(changes)
+      .where(tenantDb.withTenantFilter(appointments, eq(appointments.id, appointment.id)));
+
+    await tx.insert(auditLog).values({
+      tenantId: tenantDb.tenantId,
+      actionType: 'schedule_change',
+      entityType: 'appointment',
+      entityId: appointment.id,
+      technicianId: technicianId ?? undefined,
+      details: {
+        source: 'customer_portal',
+        customerId: customer.id,
+        from: appointment.scheduledTime,
+        to: start.toISOString(),
+        rescheduleCount: changes.rescheduleCount,
+      },
+    });
+
+    return { appointment, serviceName, slot, changes };
+  });
+  await invalidateAppointmentCaches(tenantDb.tenantId);
+
+  await syncCalendarEvent(appointment, { start, end: new Date(slot.endIso) });
+
+  const when = (date: Date | string) => formatInTimeZone(new Date(date), timezone, "EEE MMM d 'at' h:mm a");
+  await notifyStaff(
+    '📅 Appointment Rescheduled',
+    `${customer.name} moved their ${serviceName} from ${when(appointment.scheduledTime)} to ${when(start)}`,
+    appointment.id,
+    'portal_reschedule'
+  );
+
+  console.log(`[PORTAL APPOINTMENTS] Appointment ${appointment.id} rescheduled by customer ${customer.id} to ${start.toISOString()}`);
+  return { ...appointment, ...changes };
+}
+
+export interface PortalCancellationInput {
+  category: CancellationCategory;
+  reason: string;
+  additionalComments?: string;
+  wouldReschedule?: boolean;
+}
+
+export async function cancelAppointmentForCustomer(
+  tenantDb: TenantDb,
+  customer: Customer,
+  appointmentId: number,
+  input: PortalCancellationInput
+): Promise<{ appointment: Appointment; check: AppointmentChangeCheck }> {
+  const policy = await loadAppointmentChangePolicy(tenantDb.tenantId);
+
+  const { appointment, serviceName, check, changes, refund } = await tenantDb.transaction(async (tx) => {
+    const { appointment, serviceName } = await loadCustomerAppointment(tx, tenantDb, customer.id, appointmentId, { lock: true });
+    const check = checkAppointmentChange(appointment, policy, new Date());
+    if (!check.canCancel) {
+      throw new PortalAppointmentError(APPOINTMENT_CHANGE_BLOCK_MESSAGES[check.cancelBlockedBy!], 409);
+    }
+
+    const now = new Date();
+    const changes = {
+      status: 'cancelled',
+      statusUpdatedAt: now,
+      cancelledAt: now,
+      cancellationFee: check.lateCancelFee > 0 ? check.lateCancelFee.toFixed(2) : null,
+    };
+    await tx
+      .update(appointments)
+      .set(changes)
+      .where(tenantDb.withTenantFilter(appointments, eq(appointments.id, appointment.id)));
+
+    await tx.insert(cancellationFeedback).values({
+      tenantId: tenantDb.tenantId,
+      appointmentId: appointment.id,
+      customerId: customer.id,
+      customerName: customer.name,
+      serviceName,
+      appointmentDate: appointment.scheduledTime,
+      reason: input.reason,
+      category: input.category,
+      additionalComments: input.additionalComments || null,
+      wouldReschedule: input.wouldReschedule ?? false,
+      wantsFullCancellation: !input.wouldReschedule,
+    });
+
+    const refund = await recordDepositRefund(tx, tenantDb, {
+      appointmentId: appointment.id,
+      customerId: customer.id,
+      amount: check.depositRefund,
+      feeKept: check.lateCancelFee,
+    });
+
+    await tx.insert(auditLog).values({
+      tenantId: tenantDb.tenantId,
+      actionType: 'appointment_cancelled',
+      entityType: 'appointment',
+      entityId: appointment.id,
+      details: {
+        source: 'customer_portal',
+        customerId: customer.id,
+        category: input.category,
+        lateCancel: check.isLateCancel,
+        lateCancelFee: check.lateCancelFee,
+        depositRefund: check.depositRefund,
+        depositRefundId: refund?.id ?? null,
+      },
+    });
+
+    return { appointment, serviceName, check, changes, refund };
+  });
+  await invalidateAppointmentCaches(tenantDb.tenantId);
+
+  await syncCalendarEvent(appointment, 'delete');
+
+  const timezone = await getTenantTimezone(tenantDb);
+  const when = formatInTimeZone(new Date(appointment.scheduledTime), timezone, "EEE MMM d 'at' h:mm a");
+  const money = check.lateCancelFee > 0 || check.depositRefund > 0
+    ? ` Late fee $${check.lateCancelFee.toFixed(2)} kept${refund ? `, $${check.depositRefund.toFixed(2)} of the deposit to refund under Portal Settings` : ''}.`
+    : '';
+  await notifyStaff(
+    '❌ Appointment Cancelled',
+    `${customer.name} cancelled their ${serviceName} on ${when} (${input.category}).${money}`,
+    appointment.id,
+    'portal_cancellation'
+  );
+
+  console.log(`[PORTAL APPOINTMENTS] Appointment ${appointment.id} cancelled by customer ${customer.id} (late=${check.isLateCancel}, refund=${refund?.id ?? 'none'})`);
+  return { appointment: { ...appointment, ...changes }, check };
+}
@@ -0,0 +1,380 @@
+/**
+ * Price Book Service
+ *
+ * Loads a tenant's structured prices (service_prices, price_modifiers,
+ * service_addons and the tax settings on tenant_config) and turns an
+ * estimate request into an itemized PriceEstimate. The AI booking summary,
+ * quote suggestions and the public estimate endpoint all go through
+ * estimatePrice() so customers see the same numbers everywhere.
+ */
+
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  customerVehicles,
+  priceModifiers,
+  serviceAddons,
+  servicePrices,
+  services,
+  tenantConfig,
+  type PriceModifier,
+  type ServicePrice,
+} from '@shared/schema';
+import {
+  buildEstimate,
+  classifyVehicle,
+  type EstimateVehicle,
+  type EstimateVehicleRequest,
+  type PriceAdjustmentType,
+  type PriceEstimate,
+  type PriceEstimateRequest,
+  type PriceModifierInput,
+  type PriceModifierKind,
+  type PriceModifierRule,
+  type TaxSettings,
+  type VehicleClass,
+} from '@shared/priceBook';
+import type { TenantDb } from '../tenantDb';
+import { invalidateKnowledgeBase } from './knowledgeBaseService';
+
+export class PriceBookError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PriceBookError';
+  }
+}
+
+export interface PriceBookService {
+  id: number;
+  name: string;
+  priceRange: string; // Legacy free-text range, shown until a base price is set
+  basePrice: number | null;
+  isActive: boolean;
+}
+
+export interface PriceBookAddOn {
+  id: number;
+  name: string;
+  category: string | null;
+  price: number;
+}
+
+export interface PriceBook {
+  services: PriceBookService[];
+  modifiers: Array<PriceModifierRule & { id: number; isActive: boolean; sortOrder: number }>;
+  addOns: PriceBookAddOn[];
+  tax: TaxSettings;
+}
+
+export interface PriceBookEstimate extends PriceEstimate {
+  unpricedAddOns: string[]; // Requested add-ons the price book doesn't know
+}
+
+const DEFAULT_TAX: TaxSettings = { rate: 0, label: 'Sales tax' };
+
+function toRule(row: PriceModifier): PriceModifierRule & { id: number; isActive: boolean; sortOrder: number } {
+  return {
+    id: row.id,
+    kind: row.kind as PriceModifierKind,
+    key: row.key,
+    label: row.label,
+    adjustmentType: row.adjustmentType as PriceAdjustmentType,
+    amount: parseFloat(row.amount),
+    serviceId: row.serviceId,
+    isActive: row.isActive,
+    sortOrder: row.sortOrder,
+  };
+}
+
+/**
+ * Sales tax from tenant_config; tenants that never set it are untaxed
+ */
+export async function getTaxSettings(tenantId: string): Promise<TaxSettings> {
+  const [config] = await db
+    .select({
+      salesTaxRate: tenantConfig.salesTaxRate,
+      salesTaxLabel: tenantConfig.salesTaxLabel,
+      reducedTaxRate: tenantConfig.reducedTaxRate,
+    })
+    .from(tenantConfig)
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .limit(1);
+
+  if (!config) return DEFAULT_TAX;
+  return {
+    rate: parseFloat(config.salesTaxRate || '0') || 0,
+    label: config.salesTaxLabel || DEFAULT_TAX.label,
+    reducedRate: parseFloat(config.reducedTaxRate || '0') || 0,
+  };
+}
+
+export async function updateTaxSettings(
+  tenantId: string,
+  input: { salesTaxRate: number; salesTaxLabel?: string; reducedTaxRate?: number }
+): Promise<TaxSettings> {
+  const rows = await db
+    .update(tenantConfig)
+    .set({
+      salesTaxRate: input.salesTaxRate.toFixed(3),
+      ...(input.salesTaxLabel !== undefined && { salesTaxLabel: input.salesTaxLabel }),
+      ...(input.reducedTaxRate !== undefined && { reducedTaxRate: input.reducedTaxRate.toFixed(3) }),
+      updatedAt: new Date(),
+    })
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .returning({ tenantId: tenantConfig.tenantId });
+
+  if (rows.length === 0) throw new PriceBookError('Tenant configuration not found', 404);
+  console.log(`[PRICE BOOK] tenantId=${tenantId} sales tax set to ${input.salesTaxRate}%`);
+  return getTaxSettings(tenantId);
+}
+
+/**
+ * Everything the admin price book screen needs in one read
+ */
+export async function loadPriceBook(tenantDb: TenantDb): Promise<PriceBook> {
+  const [serviceRows, priceRows, modifierRows, addOnRows, tax] = await Promise.all([
+    tenantDb
+      .select({ id: services.id, name: services.name, priceRange: services.priceRange })
+      .from(services)
+      .where(tenantDb.withTenantFilter(services))
+      .orderBy(asc(services.name)),
+    tenantDb.select().from(servicePrices).where(tenantDb.withTenantFilter(servicePrices)),
+    tenantDb
+      .select()
+      .from(priceModifiers)
+      .where(tenantDb.withTenantFilter(priceModifiers))
+      .orderBy(asc(priceModifiers.kind), asc(priceModifiers.sortOrder), asc(priceModifiers.id)),
+    tenantDb
+      .select()
+      .from(serviceAddons)
+      .where(tenantDb.withTenantFilter(serviceAddons, eq(serviceAddons.isActive, true)))
+      .orderBy(asc(serviceAddons.sortOrder), asc(serviceAddons.name)),
+    getTaxSettings(tenantDb.tenantId),
+  ]);
+
+  const pricesByService = new Map((priceRows as ServicePrice[]).map((row) => [row.serviceId, row]));
+
+  return {
+    services: serviceRows.map((service) => {
+      const price = pricesByService.get(service.id);
+      return {
+        id: service.id,
+        name: service.name,
+        priceRange: service.priceRange,
+        basePrice: price ? parseFloat(price.basePrice) : null,
+        isActive: price?.isActive ?? false,
+      };
+    }),
+    modifiers: (modifierRows as PriceModifier[]).map(toRule),
+    addOns: addOnRows.map((addOn) => ({
+      id: addOn.id,
+      name: addOn.name,
+      category: addOn.category,
+      price: parseFloat(addOn.value),
+    })),
+    tax,
+  };
+}
+
+/**
+ * Exact name first, then the closest partial match ("full detail" →
+ * "Full Detail Package")
+ */
+function findService(book: PriceBook, request: PriceEstimateRequest): PriceBookService | null {
+  if (request.serviceId !== undefined) {
+    return book.services.find((service) => service.id === request.serviceId) ?? null;
+  }
+  const wanted = (request.serviceName || '').toLowerCase();
+  return book.services.find((service) => service.name.toLowerCase() === wanted)
+    ?? book.services.find((service) => service.name.toLowerCase().includes(wanted))
+    ?? book.services.find((service) => wanted.includes(service.name.toLowerCase()))
+    ?? null;
+}
+
+async function resolveVehicles(tenantDb: TenantDb, requested: EstimateVehicleRequest[]): Promise<EstimateVehicle[]> {
+  const vehicleIds = requested.map((v) => v.vehicleId).filter((id): id is number => id !== undefined);
+  const stored = vehicleIds.length > 0
+    ? await tenantDb
+        .select()
+        .from(customerVehicles)
+        .where(tenantDb.withTenantFilter(customerVehicles, inArray(customerVehicles.id, vehicleIds)))
+    : [];
+  const storedById = new Map(stored.map((row) => [row.id, row]));
+
+  return requested.map((vehicle) => {
+    const row = vehicle.vehicleId !== undefined ? storedById.get(vehicle.vehicleId) : undefined;
+    const year = vehicle.year ?? row?.year ?? undefined;
+    const make = vehicle.make ?? row?.make ?? undefined;
+    const model = vehicle.model ?? row?.model ?? undefined;
+    return {
+      description: [year, make, model].filter(Boolean).join(' ') || undefined,
+      vehicleClass: vehicle.vehicleClass ?? row?.vehicleClass ?? classifyVehicle(make, model),
+      conditions: vehicle.conditions ?? [],
+    };
+  });
+}
+
+/**
+ * Itemized estimate for one service. Throws PriceBookError when the service
+ * doesn't exist (404) or has no active base price yet (422).
+ */
+export async function estimatePrice(
+  tenantDb: TenantDb,
+  request: PriceEstimateRequest,
+  book?: PriceBook
+): Promise<PriceBookEstimate> {
+  const priceBook = book ?? await loadPriceBook(tenantDb);
+
+  const service = findService(priceBook, request);
+  if (!service) throw new PriceBookError('Service not found', 404);
+  if (service.basePrice === null || !service.isActive) {
+    throw new PriceBookError(`No price book entry for ${service.name}`, 422);
+  }
+
+  const addOns: PriceBookAddOn[] = [];
+  const unpricedAddOns: string[] = [];
+  for (const addOnId of request.addOnIds ?? []) {
+    const addOn = priceBook.addOns.find((a) => a.id === addOnId);
+    if (addOn) addOns.push(addOn);
+    else unpricedAddOns.push(`#${addOnId}`);
+  }
+  for (const name of request.addOnNames ?? []) {
+    const addOn = priceBook.addOns.find((a) => a.name.toLowerCase() === name.toLowerCase());
+    if (addOn) addOns.push(addOn);
+    else unpricedAddOns.push(name);
+  }
+
+  const vehicles = await resolveVehicles(tenantDb, request.vehicles ?? []);
+
+  const estimate = buildEstimate({
+    service: { id: service.id, name: service.name, basePrice: service.basePrice },
+    vehicles,
+    addOns,
+    modifiers: priceBook.modifiers.filter((m) => m.isActive),
+    tax: priceBook.tax,
+  });
+
+  return { ...estimate, unpricedAddOns };
+}
+
+export async function setServicePrice(
+  tenantDb: TenantDb,
+  serviceId: number,
+  input: { basePrice: number; isActive?: boolean }
+): Promise<ServicePrice> {
+  const [service] = await tenantDb
+    .select({ id: services.id })
+    .from(services)
+    .where(tenantDb.withTenantFilter(services, eq(services.id, serviceId)))
+    .limit(1);
+  if (!service) throw new PriceBookError('Service not found', 404);
+
+  const values = {
+    basePrice: input.basePrice.toFixed(2),
+    isActive: input.isActive ?? true,
+    updatedAt: new Date(),
+  };
+
+  const rows = await tenantDb
+    .insert(servicePrices)
+    .values({ serviceId, ...values })
+    .onConflictDoUpdate({
+      target: [servicePrices.tenantId, servicePrices.serviceId],
+      set: values,
+    })
+    .returning();
+
+  await invalidateKnowledgeBase(tenantDb.tenantId);
+  console.log(`[PRICE BOOK] tenantId=${tenantDb.tenantId} service ${serviceId} base price ${values.basePrice}`);
+  return (rows as ServicePrice[])[0];
+}
+
+async function assertServiceBelongsToTenant(tenantDb: TenantDb, serviceId: number | null | undefined) {
+  if (serviceId === null || serviceId === undefined) return;
+  const [service] = await tenantDb
+    .select({ id: services.id })
+    .from(services)
+    .where(tenantDb.withTenantFilter(services, eq(services.id, serviceId)))
+    .limit(1);
+  if (!service) throw new PriceBookError('Service not found', 404);
+}
+
+export async function createPriceModifier(tenantDb: TenantDb, input: PriceModifierInput): Promise<PriceModifier> {
+  await assertServiceBelongsToTenant(tenantDb, input.serviceId);
+
+  const rows = await tenantDb
+    .insert(priceModifiers)
+    .values({
+      kind: input.kind,
+      key: input.key,
+      label: input.label,
+      adjustmentType: input.adjustmentType,
+      amount: input.amount.toFixed(2),
+      serviceId: input.serviceId ?? null,
+      isActive: input.isActive ?? true,
+      sortOrder: input.sortOrder ?? 0,
+    })
+    .returning();
+
+  return (rows as PriceModifier[])[0];
+}
+
+export async function updatePriceModifier(
+  tenantDb: TenantDb,
+  id: number,
+  input: Partial<PriceModifierInput>
+): Promise<PriceModifier | null> {
+  await assertServiceBelongsToTenant(tenantDb, input.serviceId);
+
+  const rows = await tenantDb
+    .update(priceModifiers)
+    .set({
+      ...(input.kind !== undefined && { kind: input.kind }),
+      ...(input.key !== undefined && { key: input.key }),
+      ...(input.label !== undefined && { label: input.label }),
+      ...(input.adjustmentType !== undefined && { adjustmentType: input.adjustmentType }),
+      ...(input.amount !== undefined && { amount: input.amount.toFixed(2) }),
+      ...(input.serviceId !== undefined && { serviceId: input.serviceId }),
+      ...(input.isActive !== undefined && { isActive: input.isActive }),
+      ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+      updatedAt: new Date(),
+    })
+    .where(tenantDb.withTenantFilter(priceModifiers, eq(priceModifiers.id, id)))
+    .returning();
+
+  return (rows as PriceModifier[])[0] ?? null;
+}
+
+export async function getPriceModifier(tenantDb: TenantDb, id: number): Promise<PriceModifier | null> {
+  const [row] = await tenantDb
+    .select()
+    .from(priceModifiers)
+    .where(tenantDb.withTenantFilter(priceModifiers, eq(priceModifiers.id, id)))
+    .limit(1);
+  return (row as PriceModifier | undefined) ?? null;
+}
+
+export async function deletePriceModifier(tenantDb: TenantDb, id: number): Promise<boolean> {
+  const result = await tenantDb
+    .delete(priceModifiers)
+    .where(tenantDb.withTenantFilter(priceModifiers, eq(priceModifiers.id, id)));
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Staff correction of the size class guessed from make/model
+ */
+export async function setVehicleClass(
+  tenantDb: TenantDb,
+  vehicleId: number,
+  vehicleClass: VehicleClass | null
+): Promise<boolean> {
+  const rows = await tenantDb
+    .update(customerVehicles)
+    .set({ vehicleClass, updatedAt: new Date() })
+    .where(tenantDb.withTenantFilter(customerVehicles, eq(customerVehicles.id, vehicleId)))
+    .returning({ id: customerVehicles.id });
+
+  return rows.length > 0;
+}
@@ -5,9 +5,13 @@
  * - Per-customer lifetime limits
  * - Per-customer annual limits
  * - Per-household annual limits (using Phase 16 household data)
- * - Eligibility requirements (e.g., must have existing completed job)
+ * - Eligibility requirements (completed jobs, loyalty tier, last visit recency)
+ * - Validity windows
  * - Award modes: immediate vs. pending until next job completion
  * 
+ * Rules are per-tenant (promo_rule_definitions), falling back to the built-in
+ * defaults in config/promoRules.ts.
+ *
  * This service is fully multi-tenant and generic for all service industries.
  */
 
@@ -18,10 +22,10 @@ import {
   pointsTransactions,
   customers, 
   households, 
-  appointments 
 } from '@shared/schema';
 import type { TenantDb } from '../tenantDb';
-import { PROMO_RULES, type PromoKey, getPromoRules } from '../config/promoRules';
+import { checkPromoWindow, evaluatePromoEligibility } from '@shared/promoRules';
+import { getPromoRule, loadCustomerPromoFacts } from './promoRuleService';
 
 // ============================================================
 // PUBLIC API
@@ -55,13 +59,19 @@ export async function awardPromoPoints(
 ): Promise<AwardPromoPointsResult> {
   const { tenantId, customerId, promoKey, basePoints, source, metadata = {} } = args;
 
-  // 1. Load rules for this promo
-  const rules = PROMO_RULES[promoKey as PromoKey];
+  // 1. Load rules for this promo (tenant definition or built-in default)
+  const rules = await getPromoRule(db, promoKey);
   if (!rules) {
     console.warn(`[PROMO ENGINE] Unknown promo key: ${promoKey}`);
     return { awarded: false, pointsGranted: 0, reason: 'no_rule' };
   }
 
+  const windowReason = checkPromoWindow(rules);
+  if (windowReason) {
+    console.log(`[PROMO ENGINE] ${promoKey} is not currently available (${windowReason})`);
+    return { awarded: false, pointsGranted: 0, reason: windowReason };
+  }
+
   console.log(`[PROMO ENGINE] Evaluating ${promoKey} for customer ${customerId} in tenant ${tenantId}`);
 
   // 1a. Expire stale pending promos before checking limits (prevents permanent household blocking)
@@ -70,7 +80,7 @@ export async function awardPromoPoints(
   // 2. Validate customer exists and is opted into loyalty program
   const customer = await db.query.customers.findFirst({
     where: db.withTenantFilter(customers, eq(customers.id, customerId)),
-    columns: { id: true, loyaltyProgramOptIn: true, householdId: true },
+    columns: { id: true, loyaltyProgramOptIn: true, householdId: true, loyaltyTier: true },
   });
 
   if (!customer) {
@@ -89,7 +99,7 @@ export async function awardPromoPoints(
   const endOfYear = new Date(now.getFullYear(), 11, 31, 23, 59, 59, 999);
 
   // 3. Check per-customer lifetime cap
-  if (rules.perCustomerLifetimeMax !== undefined) {
+  if (rules.perCustomerLifetimeMax !== null) {
     const lifetimeCount = await db
       .select({ count: count() })
       .from(loyaltyTransactions)
@@ -113,7 +123,7 @@ export async function awardPromoPoints(
   }
 
   // 4. Check per-customer annual cap
-  if (rules.perCustomerPerYearMax !== undefined) {
+  if (rules.perCustomerPerYearMax !== null) {
     const annualCount = await db
       .select({ count: count() })
       .from(loyaltyTransactions)
@@ -139,7 +149,7 @@ export async function awardPromoPoints(
   }
 
   // 5. Check per-household annual cap (if household limits exist)
-  if (rules.perHouseholdPerYearMax !== undefined) {
+  if (rules.perHouseholdPerYearMax !== null) {
     // Use customer's household from earlier validation
     if (customer.householdId) {
       // Find all customers in this household
@@ -184,26 +194,12 @@ export async function awardPromoPoints(
     }
   }
 
-  // 6. Check eligibility (e.g., require existing completed job)
-  if (rules.requireExistingJob) {
-    const completedJobCount = await db
-      .select({ count: count() })
-      .from(appointments)
-      .where(
-        db.withTenantFilter(
-          appointments,
-          and(
-            eq(appointments.customerId, customerId),
-            eq(appointments.status, 'completed')
-          )
-        )
-      );
-
-    const hasCompletedJob = (completedJobCount[0]?.count || 0) > 0;
-    if (!hasCompletedJob) {
-      console.log(`[PROMO ENGINE] Customer ${customerId} has no completed jobs (required for ${promoKey})`);
-      return { awarded: false, pointsGranted: 0, reason: 'no_completed_jobs' };
-    }
+  // 6. Check eligibility predicates (completed jobs, loyalty tier, last visit)
+  const facts = await loadCustomerPromoFacts(db, customerId, customer.loyaltyTier);
+  const ineligibleReason = evaluatePromoEligibility(rules.eligibility, facts, now);
+  if (ineligibleReason) {
+    console.log(`[PROMO ENGINE] Customer ${customerId} not eligible for ${promoKey} (${ineligibleReason})`);
+    return { awarded: false, pointsGranted: 0, reason: ineligibleReason };
   }
 
   // 7. Award points based on mode
@@ -0,0 +1,320 @@
+/**
+ * Promo Rule Service
+ *
+ * Per-tenant promo rule definitions for the promo engine. A tenant's row in
+ * promo_rule_definitions wins; otherwise the built-in default from
+ * server/config/promoRules.ts is used, so existing promo keys keep working
+ * for tenants that never open the rule builder.
+ */
+
+import { and, asc, count, eq, gte, inArray, max, sql } from 'drizzle-orm';
+import {
+  appointments,
+  customers,
+  loyaltyTransactions,
+  promoRuleDefinitions,
+  type PromoRuleDefinitionRow,
+} from '@shared/schema';
+import {
+  checkPromoWindow,
+  evaluatePromoEligibility,
+  type CustomerPromoFacts,
+  type PromoAwardMode,
+  type PromoDryRunCustomer,
+  type PromoDryRunResult,
+  type PromoEligibility,
+  type PromoRuleDefinition,
+  type PromoRuleInput,
+} from '@shared/promoRules';
+import type { TenantDb } from '../tenantDb';
+import { PROMO_RULES, isValidPromoKey } from '../config/promoRules';
+
+export interface ResolvedPromoRule extends PromoRuleDefinition {
+  id: number | null;      // null for built-in defaults
+  builtIn: boolean;
+}
+
+const DRY_RUN_CUSTOMER_LIMIT = 200;
+
+function fromRow(row: PromoRuleDefinitionRow): ResolvedPromoRule {
+  return {
+    id: row.id,
+    builtIn: false,
+    promoKey: row.promoKey,
+    name: row.name,
+    description: row.description,
+    defaultPoints: row.defaultPoints,
+    perCustomerLifetimeMax: row.perCustomerLifetimeMax,
+    perCustomerPerYearMax: row.perCustomerPerYearMax,
+    perHouseholdPerYearMax: row.perHouseholdPerYearMax,
+    awardMode: row.awardMode as PromoAwardMode,
+    eligibility: row.eligibility ?? {},
+    validFrom: row.validFrom,
+    validUntil: row.validUntil,
+    isActive: row.isActive,
+  };
+}
+
+function builtInRule(promoKey: string): ResolvedPromoRule | null {
+  if (!isValidPromoKey(promoKey)) return null;
+  const rule: {
+    name: string;
+    perCustomerLifetimeMax?: number;
+    perCustomerPerYearMax?: number;
+    perHouseholdPerYearMax?: number;
+    eligibility?: PromoEligibility;
+    awardMode: PromoAwardMode;
+  } = PROMO_RULES[promoKey];
+
+  return {
+    id: null,
+    builtIn: true,
+    promoKey,
+    name: rule.name,
+    description: null,
+    defaultPoints: null,
+    perCustomerLifetimeMax: rule.perCustomerLifetimeMax ?? null,
+    perCustomerPerYearMax: rule.perCustomerPerYearMax ?? null,
+    perHouseholdPerYearMax: rule.perHouseholdPerYearMax ?? null,
+    awardMode: rule.awardMode,
+    eligibility: rule.eligibility ?? {},
+    validFrom: null,
+    validUntil: null,
+    isActive: true,
+  };
+}
+
+/**
+ * Rule for a promo key: the tenant's definition, else the built-in default
+ */
+export async function getPromoRule(tenantDb: TenantDb, promoKey: string): Promise<ResolvedPromoRule | null> {
+  const [row] = await tenantDb
+    .select()
+    .from(promoRuleDefinitions)
+    .where(tenantDb.withTenantFilter(promoRuleDefinitions, eq(promoRuleDefinitions.promoKey, promoKey)))
+    .limit(1);
+
+  return row ? fromRow(row) : builtInRule(promoKey);
+}
+
+/**
+ * All rules visible to the tenant: their own definitions plus any built-in
+ * defaults they haven't overridden
+ */
+export async function listPromoRules(tenantDb: TenantDb): Promise<ResolvedPromoRule[]> {
+  const rows = await tenantDb
+    .select()
+    .from(promoRuleDefinitions)
+    .where(tenantDb.withTenantFilter(promoRuleDefinitions))
+    .orderBy(asc(promoRuleDefinitions.promoKey));
+
+  const rules = rows.map(fromRow);
+  const defined = new Set(rules.map(rule => rule.promoKey));
+  for (const promoKey of Object.keys(PROMO_RULES)) {
+    if (!defined.has(promoKey)) rules.push(builtInRule(promoKey)!);
+  }
+  return rules;
+}
+
+/**
+ * Create or replace the tenant's definition for a promo key
+ */
+export async function upsertPromoRule(
+  tenantDb: TenantDb,
+  input: PromoRuleInput,
+  updatedBy: number | null
+): Promise<ResolvedPromoRule> {
+  const values = {
+    name: input.name,
+    description: input.description ?? null,
+    defaultPoints: input.defaultPoints ?? null,
+    perCustomerLifetimeMax: input.perCustomerLifetimeMax ?? null,
+    perCustomerPerYearMax: input.perCustomerPerYearMax ?? null,
+    perHouseholdPerYearMax: input.perHouseholdPerYearMax ?? null,
+    awardMode: input.awardMode,
+    eligibility: input.eligibility,
+    validFrom: input.validFrom ?? null,
+    validUntil: input.validUntil ?? null,
+    isActive: input.isActive,
+    updatedBy,
+    updatedAt: new Date(),
+  };
+
+  const rows = await tenantDb
+    .insert(promoRuleDefinitions)
+    .values({ promoKey: input.promoKey, ...values })
+    .onConflictDoUpdate({
+      target: [promoRuleDefinitions.tenantId, promoRuleDefinitions.promoKey],
+      set: values,
+    })
+    .returning();
+
+  console.log(`[PROMO RULES] tenantId=${tenantDb.tenantId} saved rule ${input.promoKey} (active=${input.isActive})`);
+  return fromRow((rows as PromoRuleDefinitionRow[])[0]);
+}
+
+/**
+ * Delete the tenant's definition. Built-in promo keys fall back to their
+ * defaults afterwards.
+ */
+export async function deletePromoRule(tenantDb: TenantDb, promoKey: string): Promise<boolean> {
+  const result = await tenantDb
+    .delete(promoRuleDefinitions)
+    .where(tenantDb.withTenantFilter(promoRuleDefinitions, eq(promoRuleDefinitions.promoKey, promoKey)));
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Completed-job count and last completed visit per customer
+ */
+async function loadJobStats(tenantDb: TenantDb, customerIds: number[]) {
+  const stats = new Map<number, { completedJobs: number; lastVisitAt: Date | null }>();
+  if (customerIds.length === 0) return stats;
+
+  const rows = await tenantDb
+    .select({
+      customerId: appointments.customerId,
+      completedJobs: count(),
+      lastVisitAt: max(appointments.scheduledTime),
+    })
+    .from(appointments)
+    .where(tenantDb.withTenantFilter(
+      appointments,
+      and(inArray(appointments.customerId, customerIds), eq(appointments.status, 'completed'))
+    ))
+    .groupBy(appointments.customerId);
+
+  for (const row of rows) {
+    stats.set(row.customerId, { completedJobs: Number(row.completedJobs), lastVisitAt: row.lastVisitAt });
+  }
+  return stats;
+}
+
+/**
+ * Facts the eligibility predicates need for a single customer
+ */
+export async function loadCustomerPromoFacts(
+  tenantDb: TenantDb,
+  customerId: number,
+  loyaltyTier: string | null
+): Promise<CustomerPromoFacts> {
+  const stats = await loadJobStats(tenantDb, [customerId]);
+  const customerStats = stats.get(customerId);
+  return {
+    customerId,
+    loyaltyTier,
+    completedJobs: customerStats?.completedJobs ?? 0,
+    lastVisitAt: customerStats?.lastVisitAt ?? null,
+  };
+}
+
+/**
+ * Preview which loyalty members a rule would currently award, without
+ * writing anything. Applies the same checks as the promo engine: validity
+ * window, eligibility predicates and customer/household caps.
+ */
+export async function dryRunPromoRule(
+  tenantDb: TenantDb,
+  rule: PromoRuleDefinition,
+  now: Date = new Date()
+): Promise<PromoDryRunResult> {
+  const members = await tenantDb
+    .select({
+      id: customers.id,
+      name: customers.name,
+      loyaltyTier: customers.loyaltyTier,
+      householdId: customers.householdId,
+    })
+    .from(customers)
+    .where(tenantDb.withTenantFilter(customers, eq(customers.loyaltyProgramOptIn, true)))
+    .orderBy(asc(customers.name));
+
+  const result: PromoDryRunResult = {
+    promoKey: rule.promoKey,
+    evaluated: members.length,
+    eligible: 0,
+    ineligibleByReason: {},
+    customers: [],
+  };
+
+  const windowReason = checkPromoWindow(rule, now);
+  const memberIds = members.map(member => member.id);
+  const jobStats = windowReason ? new Map() : await loadJobStats(tenantDb, memberIds);
+
+  // Prior awards of this promo, matching how the engine counts usage
+  const startOfYear = new Date(now.getFullYear(), 0, 1);
+  const usage = new Map<number, { lifetime: number; thisYear: number; householdYear: number }>();
+  if (!windowReason && memberIds.length > 0) {
+    const usageRows = await tenantDb
+      .select({
+        customerId: loyaltyTransactions.customerId,
+        lifetime: count(),
+        thisYear: sql<number>`count(*) filter (where ${loyaltyTransactions.createdAt} >= ${startOfYear})`,
+        householdYear: sql<number>`count(*) filter (where ${loyaltyTransactions.createdAt} >= ${startOfYear} and ${loyaltyTransactions.status} in ('pending', 'fulfilled'))`,
+      })
+      .from(loyaltyTransactions)
+      .where(tenantDb.withTenantFilter(
+        loyaltyTransactions,
+        and(
+          inArray(loyaltyTransactions.customerId, memberIds),
+          eq(loyaltyTransactions.promoKey, rule.promoKey),
+          gte(loyaltyTransactions.pointsAwarded, 1)
+        )
+      ))
+      .groupBy(loyaltyTransactions.customerId);
+
+    for (const row of usageRows) {
+      usage.set(row.customerId, {
+        lifetime: Number(row.lifetime),
+        thisYear: Number(row.thisYear),
+        householdYear: Number(row.householdYear),
+      });
+    }
+  }
+
+  const householdUsage = new Map<number, number>();
+  for (const member of members) {
+    if (!member.householdId) continue;
+    const used = usage.get(member.id)?.householdYear ?? 0;
+    householdUsage.set(member.householdId, (householdUsage.get(member.householdId) ?? 0) + used);
+  }
+
+  for (const member of members) {
+    let reason: string | null = windowReason;
+    const used = usage.get(member.id);
+
+    if (!reason && rule.perCustomerLifetimeMax !== null && (used?.lifetime ?? 0) >= rule.perCustomerLifetimeMax) {
+      reason = 'customer_limit';
+    }
+    if (!reason && rule.perCustomerPerYearMax !== null && (used?.thisYear ?? 0) >= rule.perCustomerPerYearMax) {
+      reason = 'customer_limit';
+    }
+    if (!reason && rule.perHouseholdPerYearMax !== null && member.householdId
+      && (householdUsage.get(member.householdId) ?? 0) >= rule.perHouseholdPerYearMax) {
+      reason = 'household_limit';
+    }
+    if (!reason) {
+      const stats = jobStats.get(member.id);
+      reason = evaluatePromoEligibility(rule.eligibility, {
+        customerId: member.id,
+        loyaltyTier: member.loyaltyTier,
+        completedJobs: stats?.completedJobs ?? 0,
+        lastVisitAt: stats?.lastVisitAt ?? null,
+      }, now);
+    }
+
+    if (reason) {
+      result.ineligibleByReason[reason] = (result.ineligibleByReason[reason] ?? 0) + 1;
+    } else {
+      result.eligible++;
+    }
+
+    if (result.customers.length < DRY_RUN_CUSTOMER_LIMIT) {
+      const preview: PromoDryRunCustomer = { customerId: member.id, name: member.name, eligible: !reason, reason };
+      result.customers.push(preview);
+    }
+  }
+
+  return result;
+}
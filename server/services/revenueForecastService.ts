@@ -0,0 +1,192 @@
+/**
+ * Revenue Forecast Service
+ *
+ * Gathers the inputs for the shared forecast model (shared/revenueForecast.ts)
+ * from one tenant's data: paid invoice history, future appointments, active
+ * recurring services, open quotes, and the historical completion and quote
+ * acceptance rates used to weight them.
+ */
+
+import { and, eq, gte, inArray, lt, notInArray, sql } from 'drizzle-orm';
+import { appointments, invoices, quoteRequests, recurringServices } from '@shared/schema';
+import {
+  buildRevenueForecast,
+  monthKey,
+  recurringOccurrences,
+  smoothedRate,
+  type ForecastItem,
+  type RevenueForecast,
+} from '@shared/revenueForecast';
+import type { TenantDb } from '../tenantDb';
+
+// Priors for small samples: most booked jobs happen, a minority of quotes close
+const COMPLETION_PRIOR = 0.9;
+const ACCEPTANCE_PRIOR = 0.4;
+const PRIOR_WEIGHT = 10;
+
+function cents(value: number | null | undefined): number | null {
+  return value ? value / 100 : null;
+}
+
+function numeric(value: string | number | null | undefined): number | null {
+  const parsed = value === null || value === undefined ? NaN : Number(value);
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+/**
+ * Average paid ticket per service (and overall) over the last year, used to
+ * value appointments and recurring visits that don't carry their own price
+ */
+async function loadAverageTickets(tenantDb: TenantDb, since: Date) {
+  const rows = await tenantDb
+    .select({
+      serviceId: appointments.serviceId,
+      total: sql<string>`SUM(${invoices.amount})`,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(invoices)
+    .innerJoin(appointments, eq(invoices.appointmentId, appointments.id))
+    .where(tenantDb.withTenantFilter(invoices, and(
+      eq(invoices.paymentStatus, 'paid'),
+      gte(invoices.createdAt, since)
+    )))
+    .groupBy(appointments.serviceId);
+
+  const byService = new Map<number, number>();
+  let total = 0;
+  let count = 0;
+  for (const row of rows) {
+    const rowTotal = Number(row.total) || 0;
+    if (row.count > 0) byService.set(row.serviceId, rowTotal / row.count);
+    total += rowTotal;
+    count += row.count;
+  }
+  return { byService, overall: count > 0 ? total / count : 0 };
+}
+
+export async function generateRevenueForecast(
+  tenantDb: TenantDb,
+  now: Date = new Date(),
+  horizonMonths = 6
+): Promise<RevenueForecast> {
+  const historyStart = new Date(Date.UTC(now.getUTCFullYear() - 2, now.getUTCMonth(), 1));
+  const yearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
+  const horizonEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + horizonMonths + 1, 1));
+  const forecastStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  // Paid revenue per month for seasonality and year-over-year growth
+  const paidMonth = sql`TO_CHAR(COALESCE(${invoices.paidAt}, ${invoices.createdAt}), 'YYYY-MM')`;
+  const history = await tenantDb
+    .select({
+      month: sql<string>`${paidMonth}`,
+      revenue: sql<string>`SUM(${invoices.amount})`,
+    })
+    .from(invoices)
+    .where(tenantDb.withTenantFilter(invoices, and(
+      eq(invoices.paymentStatus, 'paid'),
+      gte(sql`COALESCE(${invoices.paidAt}, ${invoices.createdAt})`, historyStart)
+    )))
+    .groupBy(paidMonth)
+    .orderBy(paidMonth);
+
+  const tickets = await loadAverageTickets(tenantDb, yearAgo);
+
+  // Completion rate of appointments that were due in the last year
+  const [pastAppointments] = await tenantDb
+    .select({
+      total: sql<number>`COUNT(*)::int`,
+      completed: sql<number>`COUNT(*) FILTER (WHERE ${appointments.status} = 'completed' OR ${appointments.completed} = true)::int`,
+    })
+    .from(appointments)
+    .where(tenantDb.withTenantFilter(appointments, and(
+      gte(appointments.scheduledTime, yearAgo),
+      lt(appointments.scheduledTime, now)
+    )));
+  const completionRate = smoothedRate(
+    pastAppointments?.completed ?? 0,
+    pastAppointments?.total ?? 0,
+    COMPLETION_PRIOR,
+    PRIOR_WEIGHT
+  );
+
+  // Confirmed future appointments inside the horizon
+  const upcoming = await tenantDb
+    .select({
+      customerId: appointments.customerId,
+      serviceId: appointments.serviceId,
+      scheduledTime: appointments.scheduledTime,
+      finalTotalCents: appointments.finalTotalCents,
+      estimatedPrice: appointments.estimatedPrice,
+    })
+    .from(appointments)
+    .where(tenantDb.withTenantFilter(appointments, and(
+      gte(appointments.scheduledTime, forecastStart),
+      lt(appointments.scheduledTime, horizonEnd),
+      notInArray(appointments.status, ['cancelled', 'completed'])
+    )));
+
+  const booked: ForecastItem[] = [];
+  const bookedSlots = new Set<string>();
+  for (const appointment of upcoming) {
+    const month = monthKey(appointment.scheduledTime);
+    booked.push({
+      month,
+      amount: cents(appointment.finalTotalCents)
+        ?? numeric(appointment.estimatedPrice)
+        ?? tickets.byService.get(appointment.serviceId)
+        ?? tickets.overall,
+    });
+    bookedSlots.add(`${appointment.customerId}:${appointment.serviceId}:${month}`);
+  }
+
+  // Expected recurring visits not already on the books
+  const activeRecurring = await tenantDb
+    .select({
+      customerId: recurringServices.customerId,
+      serviceId: recurringServices.serviceId,
+      frequency: recurringServices.frequency,
+      nextScheduledDate: recurringServices.nextScheduledDate,
+      intervalCustomDates: recurringServices.intervalCustomDates,
+    })
+    .from(recurringServices)
+    .where(tenantDb.withTenantFilter(recurringServices, eq(recurringServices.status, 'active')));
+
+  const recurring: ForecastItem[] = [];
+  for (const schedule of activeRecurring) {
+    const amount = tickets.byService.get(schedule.serviceId) ?? tickets.overall;
+    for (const date of recurringOccurrences(schedule, forecastStart, horizonEnd)) {
+      const month = monthKey(date);
+      if (bookedSlots.has(`${schedule.customerId}:${schedule.serviceId}:${month}`)) continue;
+      recurring.push({ month, amount });
+    }
+  }
+
+  // Open quotes, weighted by how often decided quotes were approved
+  const openQuotes = await tenantDb
+    .select({ amount: quoteRequests.customQuoteAmount })
+    .from(quoteRequests)
+    .where(tenantDb.withTenantFilter(quoteRequests, eq(quoteRequests.status, 'quoted')));
+
+  const [decided] = await tenantDb
+    .select({
+      total: sql<number>`COUNT(*)::int`,
+      approved: sql<number>`COUNT(*) FILTER (WHERE ${quoteRequests.status} = 'approved')::int`,
+    })
+    .from(quoteRequests)
+    .where(tenantDb.withTenantFilter(quoteRequests, and(
+      inArray(quoteRequests.status, ['approved', 'declined']),
+      gte(quoteRequests.createdAt, yearAgo)
+    )));
+  const quoteAcceptanceRate = smoothedRate(decided?.approved ?? 0, decided?.total ?? 0, ACCEPTANCE_PRIOR, PRIOR_WEIGHT);
+
+  return buildRevenueForecast({
+    now,
+    horizonMonths,
+    history: history.map(row => ({ month: row.month, revenue: Number(row.revenue) || 0 })),
+    booked,
+    recurring,
+    openQuotes: openQuotes.map(quote => numeric(quote.amount)).filter((amount): amount is number => amount !== null),
+    completionRate,
+    quoteAcceptanceRate,
+  });
+}
@@ -1,9 +1,18 @@
 import { wrapTenantDb } from '../tenantDb';
 import { db } from '../db';
-import { appointments, tenantConfig } from '@shared/schema';
-import { eq, and, gte, lte, asc } from 'drizzle-orm';
-import { getTravelTimeMinutes } from './travelTimeService';
-import { RouteSuggestion } from '@shared/routeOptimization';
+import { appointments, tenantConfig, services, customers, businessSettings } from '@shared/schema';
+import { eq, and, or, gte, lt, lte, asc, isNull, notInArray } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getTravelMatrix, getTravelTimeMinutes } from './travelTimeService';
+import { getTenantTimezone, setLocalTimeAndConvertToUtc } from '../timezoneUtils';
+import {
+  RouteSuggestion,
+  DayRoutePlan,
+  GeoPoint,
+  RouteStopInput,
+  TravelMatrix,
+  planDayRoute,
+} from '@shared/routeOptimization';
 
 /**
  * Generates route-optimized booking suggestions based on location and nearby jobs
@@ -57,21 +66,18 @@ export async function generateRouteSuggestion(
 
   let best: RouteSuggestion | null = null;
 
-  // Compare target against each upcoming job
-  for (const job of upcomingJobs) {
-    if (!job.latitude || !job.longitude) continue;
-
-    const jobLat = Number(job.latitude);
-    const jobLng = Number(job.longitude);
-
-    const travelTime = await getTravelTimeMinutes(
-      jobLat,
-      jobLng,
-      targetLat,
-      targetLng
-    );
+  // One batched lookup for every geocoded job instead of a request per job
+  const geocodedJobs = upcomingJobs.filter(job => job.latitude && job.longitude);
+  const { minutes: jobTravel, estimated: jobTravelEstimated } = await getTravelMatrix(
+    geocodedJobs.map(job => ({ lat: Number(job.latitude), lng: Number(job.longitude) })),
+    [{ lat: targetLat, lng: targetLng }],
+    { tenantId }
+  );
 
-    if (travelTime == null) continue;
+  // Compare target against each upcoming job
+  for (let index = 0; index < geocodedJobs.length; index++) {
+    const job = geocodedJobs[index];
+    const travelTime = jobTravel[index][0];
 
     // If nearby (< 12 min travel time), suggest adjacent time slot
     if (travelTime <= 12) {
@@ -92,7 +98,7 @@ export async function generateRouteSuggestion(
         suggestedDate,
         suggestedStart,
         suggestedEnd,
-        confidence: 0.9,
+        confidence: jobTravelEstimated[index][0] ? 0.75 : 0.9, // Lower when drive time is an offline estimate
         nearbyJobIds: [job.id],
         travelMinutes: travelTime,
       };
@@ -106,7 +112,8 @@ export async function generateRouteSuggestion(
       homeBaseLat,
       homeBaseLng,
       targetLat,
-      targetLng
+      targetLng,
+      { tenantId }
     );
 
     best = {
@@ -121,3 +128,179 @@ export async function generateRouteSuggestion(
 
   return best;
 }
+
+// ============================================================
+// Multi-stop day planning for technicians
+// ============================================================
+
+// Statuses that no longer need a visit (or are already underway)
+const FINISHED_STATUSES = ['completed', 'cancelled'];
+const ACTIVE_STATUSES = ['on_site', 'in_progress', 'paused'];
+
+export interface PlanTechnicianDayOptions {
+  technicianId: number;
+  date?: string;                 // YYYY-MM-DD in tenant timezone (defaults to today)
+  fromNow?: boolean;             // Re-optimize the remainder of today
+  currentLocation?: GeoPoint | null;
+}
+
+function toGeoPoint(lat: unknown, lng: unknown): GeoPoint | null {
+  if (lat == null || lng == null) return null;
+  const point = { lat: Number(lat), lng: Number(lng) };
+  return Number.isFinite(point.lat) && Number.isFinite(point.lng) ? point : null;
+}
+
+/**
+ * Plans the visit order, arrival windows and total drive time for a
+ * technician's assigned appointments on a given day.
+ *
+ * With `fromNow`, only the remaining jobs are re-planned, starting from the
+ * job the technician is currently on (or their reported location).
+ */
+export async function planTechnicianDay(
+  tenantId: string,
+  options: PlanTechnicianDayOptions
+): Promise<DayRoutePlan> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+  const now = new Date();
+  const date = options.date || formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  const dayDate = new Date(`${date}T00:00:00Z`);
+
+  // businessSettings is a singleton table (one row), not tenant-scoped
+  const [settings] = await db.select().from(businessSettings).limit(1);
+  const startHour = settings?.startHour ?? 9;
+  const startMinute = settings?.startMinute ?? 0;
+  const endHour = settings?.endHour ?? 17;
+  const endMinute = settings?.endMinute ?? 0;
+
+  const dayStart = setLocalTimeAndConvertToUtc(dayDate, startHour, startMinute, timezone);
+  const dayEnd = setLocalTimeAndConvertToUtc(dayDate, endHour, endMinute, timezone);
+  const midnight = setLocalTimeAndConvertToUtc(dayDate, 0, 0, timezone);
+  const nextMidnight = new Date(midnight.getTime() + 24 * 60 * 60 * 1000);
+
+  const [config] = await tenantDb
+    .select()
+    .from(tenantConfig)
+    .where(eq(tenantConfig.tenantId, tenantId))
+    .limit(1);
+  const homeBase = toGeoPoint(config?.homeBaseLat, config?.homeBaseLng);
+
+  const jobs = await tenantDb
+    .select({
+      id: appointments.id,
+      scheduledTime: appointments.scheduledTime,
+      status: appointments.status,
+      statusUpdatedAt: appointments.statusUpdatedAt,
+      address: appointments.address,
+      addressLat: appointments.addressLat,
+      addressLng: appointments.addressLng,
+      latitude: appointments.latitude,
+      longitude: appointments.longitude,
+      maxDurationHours: services.maxDurationHours,
+      customerName: customers.name,
+    })
+    .from(appointments)
+    .leftJoin(services, eq(appointments.serviceId, services.id))
+    .leftJoin(customers, eq(appointments.customerId, customers.id))
+    .where(
+      tenantDb.withTenantFilter(
+        appointments,
+        and(
+          eq(appointments.technicianId, options.technicianId),
+          gte(appointments.scheduledTime, midnight),
+          lt(appointments.scheduledTime, nextMidnight),
+          or(isNull(appointments.status), notInArray(appointments.status, FINISHED_STATUSES))
+        )
+      )
+    )
+    .orderBy(asc(appointments.scheduledTime));
+
+  const toStop = (job: typeof jobs[number]): RouteStopInput => ({
+    appointmentId: job.id,
+    // Prefer the geocoded booking address; fall back to the tech-reported pin
+    location: toGeoPoint(job.addressLat, job.addressLng) ?? toGeoPoint(job.latitude, job.longitude),
+    durationMinutes: Math.round(Number(job.maxDurationHours ?? 2) * 60),
+    scheduledTime: job.scheduledTime,
+    customerName: job.customerName,
+    address: job.address,
+  });
+
+  let origin: GeoPoint | null = homeBase;
+  let originLabel: DayRoutePlan['originLabel'] = 'home_base';
+  let start = dayStart;
+  let pending = jobs;
+
+  if (options.fromNow) {
+    start = now > dayStart ? now : dayStart;
+
+    // A job that is already underway anchors the route at its location
+    const active = jobs.find(j => j.status && ACTIVE_STATUSES.includes(j.status));
+    if (active) {
+      const activeStop = toStop(active);
+      pending = jobs.filter(j => j.id !== active.id);
+      if (activeStop.location) {
+        origin = activeStop.location;
+        originLabel = 'active_job';
+      }
+      const startedAt = active.statusUpdatedAt ?? active.scheduledTime;
+      const expectedDone = new Date(new Date(startedAt).getTime() + activeStop.durationMinutes * 60000);
+      if (expectedDone > start) start = expectedDone;
+    } else if (options.currentLocation) {
+      origin = options.currentLocation;
+      originLabel = 'current_location';
+    }
+  }
+
+  const stops = pending.map(toStop);
+
+  // Without a home base, start the day at the first booked stop
+  if (!origin) {
+    const first = stops.find(s => s.location);
+    origin = first?.location ?? null;
+    originLabel = 'first_stop';
+  }
+
+  const returnToOrigin = originLabel === 'home_base';
+  let matrix: TravelMatrix = [[0]];
+  let usedEstimates = false;
+
+  if (origin) {
+    const points = [origin, ...stops.map(s => s.location ?? origin!)];
+    const travel = await getTravelMatrix(points, points, { tenantId, timezone, departAt: start });
+    matrix = travel.minutes;
+    usedEstimates = travel.estimated.some(row => row.some(Boolean));
+  }
+
+  const result = planDayRoute({
+    stops: origin ? stops : stops.map(s => ({ ...s, location: null })),
+    matrix,
+    dayStart: start,
+    dayEnd,
+    returnToOrigin,
+    origin,
+    bookedTimeToleranceMinutes: config?.routeBookedTimeToleranceMinutes ?? undefined,
+  });
+
+  console.log(
+    `[ROUTE OPTIMIZER] Planned ${result.stops.length} stops for technician ${options.technicianId} on ${date} ` +
+    `(${result.totalDriveMinutes} min driving, ${result.unfittable.length} unfittable)`
+  );
+
+  return {
+    technicianId: options.technicianId,
+    date,
+    origin,
+    originLabel,
+    stops: result.stops,
+    unfittable: result.unfittable,
+    totalDriveMinutes: result.totalDriveMinutes,
+    totalServiceMinutes: result.totalServiceMinutes,
+    returnDriveMinutes: result.returnDriveMinutes,
+    dayStart: start.toISOString(),
+    dayEnd: dayEnd.toISOString(),
+    projectedFinish: result.projectedFinish.toISOString(),
+    usedEstimatedTravelTimes: usedEstimates,
+    generatedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Schedule Lock
+ *
+ * One per-tenant advisory lock, held until the end of the transaction, for
+ * every write that books an appointment or moves its time or technician
+ * (web and SMS/voice bookings, staff bookings, recurring jobs, portal
+ * reschedules). A path that checks availability before writing takes it
+ * first, so anything another path booked has committed by the time it looks.
+ */
+
+import { sql } from 'drizzle-orm';
+import type { TenantDb } from '../tenantDb';
+
+export type ScheduleTx = Parameters<Parameters<TenantDb['transaction']>[0]>[0];
+
+export async function lockTenantSchedule(tx: ScheduleTx, tenantId: string): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`schedule:${tenantId}`}))`);
+}
@@ -0,0 +1,452 @@
+/**
+ * Scheduled Message Service
+ *
+ * "Send later" for the messages inbox. Staff compose a reply with a send
+ * time; the dispatcher delivers it when due over the conversation's channel
+ * (SMS, email, Facebook/Instagram, or web chat), writes it into the thread
+ * via addMessage (which broadcasts it to open inboxes) and records failures.
+ * Transient failures retry with backoff up to SCHEDULED_MESSAGE_MAX_ATTEMPTS;
+ * permanent ones (opted out, no address, rejected by the provider) fail at once.
+ *
+ * SMS is handed to the outbound dispatch queue like every other automated
+ * text, so quiet hours, rate limits and the consent ledger apply; the queue
+ * reports the result back through recordScheduledDispatchResult.
+ */
+
+import axios from 'axios';
+import { and, asc, desc, eq, lt, lte, or, isNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import {
+  conversations,
+  facebookPageTokens,
+  scheduledMessages,
+  type OutboundMessage,
+  type ScheduledMessage,
+} from '@shared/schema';
+import {
+  nextScheduledAttempt,
+  SCHEDULED_MESSAGE_MAX_ATTEMPTS,
+  type ScheduledMessageChannel,
+  type ScheduledMessageInput,
+} from '@shared/scheduledMessages';
+import { enqueueOutbound, type DispatchOutcome } from './outboundDispatchService';
+
+type Conversation = typeof conversations.$inferSelect;
+
+// Rows stuck in 'sending' longer than this (worker crashed mid-send) are retried
+const STALE_SENDING_MS = 15 * 60 * 1000;
+const BATCH_LIMIT = 200;
+
+export class ScheduledMessageError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ScheduledMessageError';
+  }
+}
+
+export async function listScheduledMessages(tenantDb: TenantDb, conversationId: number): Promise<ScheduledMessage[]> {
+  return tenantDb
+    .select()
+    .from(scheduledMessages)
+    .where(tenantDb.withTenantFilter(scheduledMessages, eq(scheduledMessages.conversationId, conversationId)))
+    .orderBy(desc(scheduledMessages.scheduledFor));
+}
+
+export async function createScheduledMessage(
+  tenantDb: TenantDb,
+  conversationId: number,
+  input: ScheduledMessageInput,
+  userId: number | null
+): Promise<ScheduledMessage> {
+  const [conversation] = await tenantDb
+    .select({ id: conversations.id, platform: conversations.platform, phoneLineId: conversations.phoneLineId })
+    .from(conversations)
+    .where(tenantDb.withTenantFilter(conversations, eq(conversations.id, conversationId)))
+    .limit(1);
+
+  if (!conversation) {
+    throw new ScheduledMessageError('Conversation not found', 404);
+  }
+
+  const [row] = (await tenantDb
+    .insert(scheduledMessages)
+    .values({
+      conversationId,
+      userId,
+      content: input.content,
+      channel: input.channel ?? conversation.platform,
+      scheduledFor: input.scheduledFor,
+      status: 'pending',
+      metadata: input.phoneLineId ? { phoneLineId: input.phoneLineId } : null,
+    })
+    .returning()) as ScheduledMessage[];
+  return row;
+}
+
+/**
+ * Edit or cancel a message that hasn't gone out yet. Rows already being sent
+ * (or finished) are left alone so an edit can't race the dispatcher.
+ */
+export async function updateScheduledMessage(
+  tenantDb: TenantDb,
+  conversationId: number,
+  id: number,
+  changes: { content?: string; scheduledFor?: Date; status?: 'cancelled' }
+): Promise<ScheduledMessage> {
+  const updated = (await tenantDb
+    .update(scheduledMessages)
+    .set({
+      ...changes,
+      // A rescheduled message starts over
+      ...(changes.scheduledFor ? { nextAttemptAt: null, attemptCount: 0, errorMessage: null } : {}),
+      updatedAt: new Date(),
+    })
+    .where(tenantDb.withTenantFilter(scheduledMessages, and(
+      eq(scheduledMessages.id, id),
+      eq(scheduledMessages.conversationId, conversationId),
+      eq(scheduledMessages.status, 'pending')
+    )))
+    .returning()) as ScheduledMessage[];
+
+  if (updated.length > 0) return updated[0];
+
+  const [existing] = await tenantDb
+    .select({ status: scheduledMessages.status })
+    .from(scheduledMessages)
+    .where(tenantDb.withTenantFilter(scheduledMessages, and(
+      eq(scheduledMessages.id, id),
+      eq(scheduledMessages.conversationId, conversationId)
+    )))
+    .limit(1);
+
+  if (!existing) {
+    throw new ScheduledMessageError('Scheduled message not found', 404);
+  }
+  throw new ScheduledMessageError(`Scheduled message is already ${existing.status}`, 409);
+}
+
+async function sendMessengerText(tenantDb: TenantDb, conversation: Conversation, text: string): Promise<DispatchOutcome> {
+  if (!conversation.facebookSenderId || !conversation.facebookPageId) {
+    return { status: 'skipped', error: 'No Facebook sender ID or page ID for this conversation' };
+  }
+
+  const [pageToken] = await tenantDb
+    .select()
+    .from(facebookPageTokens)
+    .where(tenantDb.withTenantFilter(facebookPageTokens, eq(facebookPageTokens.pageId, conversation.facebookPageId)))
+    .limit(1);
+
+  if (!pageToken || !pageToken.isActive) {
+    return { status: 'skipped', error: 'Facebook page not configured or inactive' };
+  }
+
+  try {
+    const response = await axios.post(
+      'https://graph.facebook.com/v18.0/me/messages',
+      {
+        recipient: { id: conversation.facebookSenderId },
+        message: { text },
+        messaging_type: 'RESPONSE',
+      },
+      { params: { access_token: pageToken.pageAccessToken } }
+    );
+    return { status: 'sent', providerMessageId: response.data?.message_id ?? null };
+  } catch (error: any) {
+    const status = error.response?.status;
+    const detail = error.response?.data?.error?.message || error.message || 'Facebook send failed';
+    // 4xx means Meta rejected the message (e.g. outside the messaging window) - retrying won't help
+    return status && status >= 400 && status < 500
+      ? { status: 'skipped', error: detail }
+      : { status: 'failed', error: detail };
+  }
+}
+
+/**
+ * Deliver a message over a conversation's channel with the existing senders.
+ * SMS never comes through here - see queueScheduledSms.
+ */
+async function deliver(
+  tenantDb: TenantDb,
+  conversation: Conversation,
+  channel: ScheduledMessageChannel,
+  content: string,
+  phoneLineId: number | undefined
+): Promise<DispatchOutcome> {
+  switch (channel) {
+    case 'email': {
+      if (!conversation.emailAddress) {
+        return { status: 'skipped', error: 'No customer email address for email delivery' };
+      }
+      const { sendBusinessEmail } = await import('../emailService');
+      const subject = conversation.emailSubject ? `Re: ${conversation.emailSubject}` : 'Message from Clean Machine Auto Detail';
+      const result = await sendBusinessEmail(conversation.emailAddress, subject, content);
+      return result.success
+        ? { status: 'sent', providerMessageId: null }
+        : { status: 'failed', error: String(result.error?.message ?? result.error ?? 'Email send failed') };
+    }
+    case 'facebook':
+    case 'instagram':
+      return sendMessengerText(tenantDb, conversation, content);
+    case 'web':
+    default:
+      // Web chat has no external delivery - the thread message is the delivery
+      return { status: 'sent', providerMessageId: null };
+  }
+}
+
+/**
+ * Hand a scheduled SMS to the outbound queue. Returns an outcome only when it
+ * can't be queued at all; null means it's queued and the result comes later.
+ */
+async function queueScheduledSms(
+  tenantDb: TenantDb,
+  scheduled: ScheduledMessage,
+  conversation: Conversation,
+  content: string,
+  phoneLineId: number | undefined
+): Promise<DispatchOutcome | null> {
+  if (!conversation.customerPhone) {
+    return { status: 'skipped', error: 'No customer phone number for SMS delivery' };
+  }
+  const { isOptedOut } = await import('../smsConsentService');
+  if (await isOptedOut(tenantDb, conversation.id)) {
+    return { status: 'skipped', error: 'Customer has opted out of SMS messages' };
+  }
+
+  await enqueueOutbound(tenantDb, {
+    channel: 'sms',
+    purpose: 'conversation_reply',
+    to: conversation.customerPhone,
+    body: content,
+    customerId: conversation.customerId,
+    phoneLineId: phoneLineId ?? null,
+    maxAttempts: SCHEDULED_MESSAGE_MAX_ATTEMPTS,
+    sourceType: 'scheduled_message',
+    sourceId: scheduled.id,
+    dedupeKey: `scheduled_message:${scheduled.id}`,
+  });
+  return null;
+}
+
+/**
+ * Write a delivered message into the thread (addMessage broadcasts it to open
+ * inboxes) and mark it sent
+ */
+async function recordDelivered(
+  tenantDb: TenantDb,
+  scheduled: ScheduledMessage,
+  conversationId: number,
+  channel: ScheduledMessageChannel,
+  content: string,
+  phoneLineId: number | undefined,
+  attemptCount: number
+): Promise<void> {
+  let sentMessageId: number | null = null;
+  try {
+    const { addMessage } = await import('../conversationService');
+    const message = await addMessage(tenantDb, conversationId, content, 'agent', channel, {
+      scheduledMessageId: scheduled.id,
+    }, phoneLineId);
+    sentMessageId = (message as { id?: number } | undefined)?.id ?? null;
+  } catch (error) {
+    // Delivered but not recorded in the thread; still mark sent so it never goes out twice
+    console.error(`[SCHEDULED MESSAGES] id=${scheduled.id} delivered but failed to save to thread:`, error);
+  }
+
+  await tenantDb
+    .update(scheduledMessages)
+    .set({ status: 'sent', attemptCount, sentAt: new Date(), sentMessageId, errorMessage: null, updatedAt: new Date() })
+    .where(eq(scheduledMessages.id, scheduled.id));
+}
+
+/**
+ * Outbound queue callback for a scheduled SMS that reached a terminal state
+ */
+export async function recordScheduledDispatchResult(
+  tenantDb: TenantDb,
+  scheduledId: number,
+  message: OutboundMessage,
+  outcome: DispatchOutcome
+): Promise<void> {
+  const [scheduled] = (await tenantDb
+    .select()
+    .from(scheduledMessages)
+    .where(tenantDb.withTenantFilter(scheduledMessages, and(
+      eq(scheduledMessages.id, scheduledId),
+      eq(scheduledMessages.status, 'queued')
+    )))
+    .limit(1)) as ScheduledMessage[];
+  if (!scheduled) return;
+
+  const attemptCount = scheduled.attemptCount + message.attemptCount;
+  if (outcome.status === 'sent') {
+    await recordDelivered(
+      tenantDb,
+      scheduled,
+      scheduled.conversationId,
+      'sms',
+      message.body,
+      message.phoneLineId ?? undefined,
+      attemptCount
+    );
+    return;
+  }
+
+  await tenantDb
+    .update(scheduledMessages)
+    .set({ status: 'failed', attemptCount, errorMessage: outcome.error, updatedAt: new Date() })
+    .where(eq(scheduledMessages.id, scheduled.id));
+  console.error(`[SCHEDULED MESSAGES] id=${scheduled.id} failed in the outbound queue: ${outcome.error}`);
+}
+
+async function dispatchOne(tenantDb: TenantDb, scheduled: ScheduledMessage, now: Date): Promise<'sent' | 'queued' | 'failed' | 'retried' | 'skipped'> {
+  // Claim the row so a second worker (or an edit) can't touch it mid-send
+  const claimed = await tenantDb
+    .update(scheduledMessages)
+    .set({ status: 'sending', updatedAt: now })
+    .where(and(eq(scheduledMessages.id, scheduled.id), eq(scheduledMessages.status, 'pending')))
+    .returning({ id: scheduledMessages.id });
+  if (claimed.length === 0) return 'skipped';
+
+  const [conversation] = await tenantDb
+    .select()
+    .from(conversations)
+    .where(tenantDb.withTenantFilter(conversations, eq(conversations.id, scheduled.conversationId)))
+    .limit(1);
+
+  const channel = (scheduled.channel || conversation?.platform || 'web') as ScheduledMessageChannel;
+  const phoneLineId = (scheduled.metadata as { phoneLineId?: number } | null)?.phoneLineId
+    ?? conversation?.phoneLineId
+    ?? undefined;
+
+  let outcome: DispatchOutcome;
+  let content = scheduled.content;
+  if (!conversation) {
+    outcome = { status: 'skipped', error: 'Conversation no longer exists' };
+  } else {
+    try {
+      // Variables resolve at send time so {{next_available_slot}} is current
+      const { replaceTemplateVariables } = await import('../templateVariableService');
+      content = await replaceTemplateVariables(tenantDb, scheduled.content, {
+        conversationId: conversation.id,
+        userId: scheduled.userId ?? undefined,
+      });
+      if (channel === 'sms') {
+        const rejected = await queueScheduledSms(tenantDb, scheduled, conversation, content, phoneLineId);
+        if (!rejected) {
+          await tenantDb
+            .update(scheduledMessages)
+            .set({ status: 'queued', updatedAt: new Date() })
+            .where(eq(scheduledMessages.id, scheduled.id));
+          return 'queued';
+        }
+        outcome = rejected;
+      } else {
+        outcome = await deliver(tenantDb, conversation, channel, content, phoneLineId);
+      }
+    } catch (error: any) {
+      outcome = { status: 'failed', error: error?.message || 'unknown' };
+    }
+  }
+
+  const attemptCount = scheduled.attemptCount + 1;
+
+  if (outcome.status === 'failed') {
+    const retryAt = nextScheduledAttempt(attemptCount, now, SCHEDULED_MESSAGE_MAX_ATTEMPTS);
+    if (retryAt) {
+      await tenantDb
+        .update(scheduledMessages)
+        .set({ status: 'pending', attemptCount, nextAttemptAt: retryAt, errorMessage: outcome.error, updatedAt: new Date() })
+        .where(eq(scheduledMessages.id, scheduled.id));
+      console.warn(`[SCHEDULED MESSAGES] id=${scheduled.id} attempt=${attemptCount} failed, retry at ${retryAt.toISOString()}: ${outcome.error}`);
+      return 'retried';
+    }
+  }
+
+  if (outcome.status !== 'sent') {
+    await tenantDb
+      .update(scheduledMessages)
+      .set({ status: 'failed', attemptCount, errorMessage: outcome.error, updatedAt: new Date() })
+      .where(eq(scheduledMessages.id, scheduled.id));
+    console.error(`[SCHEDULED MESSAGES] id=${scheduled.id} failed after ${attemptCount} attempt(s): ${outcome.error}`);
+    return 'failed';
+  }
+
+  await recordDelivered(tenantDb, scheduled, conversation!.id, channel, content, phoneLineId, attemptCount);
+  return 'sent';
+}
+
+/**
+ * One dispatcher pass over every tenant's due messages
+ */
+export async function processScheduledMessages(now: Date = new Date()) {
+  const stats = { sent: 0, queued: 0, failed: 0, retried: 0, skipped: 0 };
+
+  // Recover rows orphaned by a crash mid-send
+  await db
+    .update(scheduledMessages)
+    .set({ status: 'pending', updatedAt: now })
+    .where(and(
+      eq(scheduledMessages.status, 'sending'),
+      lt(scheduledMessages.updatedAt, new Date(now.getTime() - STALE_SENDING_MS))
+    ));
+
+  // Cross-tenant scan; each message is then handled through its tenant's db
+  const due = await db
+    .select()
+    .from(scheduledMessages)
+    .where(and(
+      eq(scheduledMessages.status, 'pending'),
+      lte(scheduledMessages.scheduledFor, now),
+      or(isNull(scheduledMessages.nextAttemptAt), lte(scheduledMessages.nextAttemptAt, now))
+    ))
+    .orderBy(asc(sql`COALESCE(${scheduledMessages.nextAttemptAt}, ${scheduledMessages.scheduledFor})`), asc(scheduledMessages.id))
+    .limit(BATCH_LIMIT);
+
+  for (const scheduled of due) {
+    const tenantDb = wrapTenantDb(db, scheduled.tenantId);
+    try {
+      stats[await dispatchOne(tenantDb, scheduled, now)]++;
+    } catch (error) {
+      console.error(`[SCHEDULED MESSAGES] id=${scheduled.id} dispatch error:`, error);
+    }
+  }
+
+  if (due.length > 0) {
+    console.log(
+      `[SCHEDULED MESSAGES] pass complete: sent=${stats.sent} queued=${stats.queued} failed=${stats.failed} ` +
+      `retried=${stats.retried} skipped=${stats.skipped}`
+    );
+  }
+  return stats;
+}
+
+let dispatcherStarted = false;
+
+/**
+ * Start the once-a-minute dispatcher (only when background jobs are enabled)
+ */
+export function startScheduledMessageDispatcher(): void {
+  if (dispatcherStarted) return;
+  if (process.env.PLATFORM_BG_JOBS_ENABLED !== '1') {
+    console.log('[SCHEDULED MESSAGES] Dispatcher disabled (PLATFORM_BG_JOBS_ENABLED !== 1)');
+    return;
+  }
+
+  dispatcherStarted = true;
+  let running = false;
+  setInterval(async () => {
+    if (running) return; // Previous pass still sending
+    running = true;
+    try {
+      await processScheduledMessages();
+    } catch (error) {
+      console.error('[SCHEDULED MESSAGES] Dispatcher pass failed:', error);
+    } finally {
+      running = false;
+    }
+  }, 60 * 1000);
+
+  console.log('[SCHEDULED MESSAGES] Dispatcher started - runs every minute');
+}
@@ -0,0 +1,527 @@
+import { wrapTenantDb, type TenantDb } from '../tenantDb';
+import { db } from '../db';
+import {
+  appointments,
+  services,
+  businessSettings,
+  serviceLimits,
+  technicians,
+  technicianAvailability,
+  shifts,
+  ptoRequests,
+} from '@shared/schema';
+import { eq, and, or, gte, lte, ne, isNull, isNotNull, notInArray } from 'drizzle-orm';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getTenantTimezone } from '../timezoneUtils';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  BusinessHoursConfig,
+  BusyInterval,
+  OpenSlot,
+  TechnicianSchedule,
+  TechnicianUtilization,
+  addDaysToDateString,
+  checkSlotCapacity,
+  computeOpenSlots,
+  computeTechnicianUtilization,
+  parseClockTime,
+} from '@shared/schedulingEngine';
+
+const FINISHED_STATUSES = ['completed', 'cancelled'];
+const DEFAULT_HORIZON_DAYS = 14;
+const DEFAULT_BLOCK_MINUTES = 120;
+const DEFAULT_FIT_MINUTES = 90;
+
+export interface NativeAvailabilityOptions {
+  serviceName?: string;
+  serviceId?: number;
+  durationMinutes?: number;     // Used when the caller only knows a duration, not a service
+  startDate?: string;           // Local YYYY-MM-DD; defaults to today
+  horizonDays?: number;
+  includeCalendarBusy?: boolean; // Overlay Google Calendar events when connected (default true)
+  excludeAppointmentId?: number; // Appointment being rescheduled - its current slot doesn't count as busy
+}
+
+export interface NativeAvailabilityResult {
+  slots: OpenSlot[];
+  timezone: string;
+  hours: BusinessHoursConfig;
+  serviceId: number | null;
+  blockMinutes: number;
+  calendarOverlay: 'applied' | 'skipped' | 'unavailable';
+}
+
+/**
+ * Loads business hours from the businessSettings singleton, folding the
+ * weekend toggle into the working-day list the same way slot generation
+ * always has.
+ */
+export async function loadBusinessHoursConfig(): Promise<BusinessHoursConfig> {
+  // businessSettings is a singleton table (one row), not tenant-scoped
+  const [settings] = await db.select().from(businessSettings).limit(1);
+
+  const workingDays = [...(settings?.daysOfWeek ?? [1, 2, 3, 4, 5])];
+  if (settings?.allowWeekendBookings) {
+    for (const weekend of [0, 6]) {
+      if (!workingDays.includes(weekend)) workingDays.push(weekend);
+    }
+  }
+
+  return {
+    startMinutes: (settings?.startHour ?? 9) * 60 + (settings?.startMinute ?? 0),
+    endMinutes: (settings?.endHour ?? 15) * 60 + (settings?.endMinute ?? 0),
+    lunchStartMinutes: settings?.enableLunchBreak === false
+      ? null
+      : (settings?.lunchHour ?? 12) * 60 + (settings?.lunchMinute ?? 0),
+    lunchDurationMinutes: 60,
+    workingDays,
+    slotIncrementMinutes: settings?.halfHourIncrements === false ? 60 : 30,
+    minimumNoticeHours: settings?.minimumNoticeHours ?? 24,
+  };
+}
+
+/**
+ * Google Calendar events that have no matching appointment (personal
+ * blocks, bookings made directly in the calendar) become unassigned busy
+ * time. The calendar is optional: any failure just skips the overlay.
+ */
+async function loadCalendarBusy(
+  rangeStart: Date,
+  rangeEnd: Date,
+  knownEventIds: Set<string>,
+  knownStartTimes: Set<number>
+): Promise<{ busy: BusyInterval[]; status: 'applied' | 'unavailable' }> {
+  // No connector configured means this tenant has no calendar to sync with
+  if (!process.env.REPLIT_CONNECTORS_HOSTNAME) {
+    return { busy: [], status: 'unavailable' };
+  }
+
+  try {
+    const { getGoogleCalendarClient } = await import('../googleCalendarConnector');
+    const calendarService = await getGoogleCalendarClient();
+    const response = await calendarService.events.list({
+      calendarId: process.env.GOOGLE_CALENDAR_ID || 'primary',
+      timeMin: rangeStart.toISOString(),
+      timeMax: rangeEnd.toISOString(),
+      singleEvents: true,
+      orderBy: 'startTime',
+    });
+
+    const busy = (response.data.items || [])
+      .filter(event => event.start?.dateTime && event.end?.dateTime)
+      // Skip events we created for appointments (legacy rows never stored the event id)
+      .filter(event => !knownEventIds.has(event.id || '') && !knownStartTimes.has(new Date(event.start!.dateTime!).getTime()))
+      .map(event => ({
+        start: new Date(event.start!.dateTime!),
+        end: new Date(event.end!.dateTime!),
+        technicianId: null,
+      }));
+
+    return { busy, status: 'applied' };
+  } catch (error: any) {
+    console.warn('[SCHEDULING ENGINE] Calendar overlay unavailable, using database only:', error?.message || error);
+    return { busy: [], status: 'unavailable' };
+  }
+}
+
+interface ServiceProfile {
+  serviceId: number | null;
+  serviceName: string | undefined;
+  blockMinutes: number;
+  fitMinutes: number;
+  minSkillLevel: number;
+}
+
+async function resolveServiceProfile(
+  tenantDb: TenantDb,
+  options: NativeAvailabilityOptions
+): Promise<ServiceProfile> {
+  const profile: ServiceProfile = {
+    serviceId: options.serviceId ?? null,
+    serviceName: options.serviceName,
+    blockMinutes: options.durationMinutes ?? DEFAULT_BLOCK_MINUTES,
+    fitMinutes: options.durationMinutes ?? DEFAULT_FIT_MINUTES,
+    minSkillLevel: 1,
+  };
+
+  if (!options.serviceId && !options.serviceName) {
+    return profile;
+  }
+
+  const [service] = await tenantDb
+    .select({
+      id: services.id,
+      name: services.name,
+      minDurationHours: services.minDurationHours,
+      maxDurationHours: services.maxDurationHours,
+      minSkillLevel: services.minSkillLevel,
+    })
+    .from(services)
+    .where(
+      tenantDb.withTenantFilter(
+        services,
+        options.serviceId ? eq(services.id, options.serviceId) : eq(services.name, options.serviceName!)
+      )
+    )
+    .limit(1);
+
+  if (!service) {
+    console.warn(`[SCHEDULING ENGINE] Service "${options.serviceName ?? options.serviceId}" not found - using default durations`);
+    return profile;
+  }
+
+  const blockMinutes = Math.round(Number(service.maxDurationHours) * 60) || DEFAULT_BLOCK_MINUTES;
+  return {
+    serviceId: service.id,
+    serviceName: service.name,
+    blockMinutes,
+    fitMinutes: Math.min(Math.round(Number(service.minDurationHours) * 60) || DEFAULT_FIT_MINUTES, blockMinutes),
+    minSkillLevel: service.minSkillLevel ?? 1,
+  };
+}
+
+/**
+ * Open appointments in a UTC range, blocked for their service's
+ * worst-case duration.
+ */
+async function loadBookings(tenantDb: TenantDb, rangeStart: Date, rangeEnd: Date, excludeAppointmentId?: number) {
+  const rows = await tenantDb
+    .select({
+      id: appointments.id,
+      scheduledTime: appointments.scheduledTime,
+      serviceId: appointments.serviceId,
+      technicianId: appointments.technicianId,
+      calendarEventId: appointments.calendarEventId,
+      maxDurationHours: services.maxDurationHours,
+    })
+    .from(appointments)
+    .leftJoin(services, eq(appointments.serviceId, services.id))
+    .where(
+      tenantDb.withTenantFilter(
+        appointments,
+        and(
+          gte(appointments.scheduledTime, rangeStart),
+          lte(appointments.scheduledTime, rangeEnd),
+          or(isNull(appointments.status), notInArray(appointments.status, FINISHED_STATUSES))
+        )
+      )
+    );
+
+  const booked = excludeAppointmentId ? rows.filter(appt => appt.id !== excludeAppointmentId) : rows;
+  const busy: BusyInterval[] = booked.map(appt => {
+    const start = new Date(appt.scheduledTime);
+    const minutes = Math.round(Number(appt.maxDurationHours ?? 2) * 60);
+    return {
+      start,
+      end: new Date(start.getTime() + minutes * 60000),
+      technicianId: appt.technicianId ?? null,
+    };
+  });
+
+  // The excluded appointment still has a calendar event that mustn't read as outside busy time
+  return { booked, busy, calendarKnown: rows };
+}
+
+/**
+ * Active technicians with their weekly preferences, shifts, approved PTO
+ * and the number of jobs already assigned on each local date.
+ */
+async function loadTechnicianSchedules(
+  tenantDb: TenantDb,
+  startDate: string,
+  endDate: string,
+  timezone: string,
+  busy: BusyInterval[]
+): Promise<Map<number, TechnicianSchedule>> {
+  const crew = await tenantDb
+    .select({
+      id: technicians.id,
+      skillLevel: technicians.skillLevel,
+      specialties: technicians.specialties,
+      maxJobsPerDay: technicians.maxJobsPerDay,
+    })
+    .from(technicians)
+    .where(tenantDb.withTenantFilter(technicians, eq(technicians.employmentStatus, 'active')));
+
+  const schedules = new Map<number, TechnicianSchedule>();
+  for (const tech of crew) {
+    schedules.set(tech.id, {
+      technicianId: tech.id,
+      weekly: {},
+      shifts: {},
+      pto: [],
+      skillLevel: tech.skillLevel ?? 1,
+      specialties: tech.specialties ?? [],
+      maxJobsPerDay: tech.maxJobsPerDay ?? null,
+      jobsByDate: {},
+    });
+  }
+
+  if (schedules.size === 0) {
+    return schedules;
+  }
+
+  for (const interval of busy) {
+    const schedule = interval.technicianId !== null ? schedules.get(interval.technicianId) : undefined;
+    if (!schedule) continue;
+    const date = formatInTimeZone(interval.start, timezone, 'yyyy-MM-dd');
+    schedule.jobsByDate[date] = (schedule.jobsByDate[date] ?? 0) + 1;
+  }
+
+  const weeklyRows = await tenantDb
+    .select()
+    .from(technicianAvailability)
+    .where(tenantDb.withTenantFilter(technicianAvailability));
+  for (const row of weeklyRows) {
+    const schedule = schedules.get(row.technicianId);
+    if (!schedule) continue;
+    schedule.weekly[row.dayOfWeek] = {
+      available: row.available !== false,
+      startMinutes: parseClockTime(row.preferredStartTime),
+      endMinutes: parseClockTime(row.preferredEndTime),
+    };
+  }
+
+  const shiftRows = await tenantDb
+    .select({
+      technicianId: shifts.technicianId,
+      shiftDate: shifts.shiftDate,
+      startTime: shifts.startTime,
+      endTime: shifts.endTime,
+    })
+    .from(shifts)
+    .where(
+      tenantDb.withTenantFilter(
+        shifts,
+        and(
+          isNotNull(shifts.technicianId),
+          gte(shifts.shiftDate, startDate),
+          lte(shifts.shiftDate, endDate),
+          ne(shifts.status, 'cancelled')
+        )
+      )
+    );
+  for (const row of shiftRows) {
+    const schedule = schedules.get(row.technicianId!);
+    const startMinutes = parseClockTime(row.startTime);
+    const endMinutes = parseClockTime(row.endTime);
+    if (!schedule || startMinutes === null || endMinutes === null) continue;
+    (schedule.shifts[row.shiftDate] ??= []).push({ startMinutes, endMinutes });
+  }
+
+  const ptoRows = await tenantDb
+    .select({
+      technicianId: ptoRequests.technicianId,
+      startDate: ptoRequests.startDate,
+      endDate: ptoRequests.endDate,
+    })
+    .from(ptoRequests)
+    .where(
+      tenantDb.withTenantFilter(
+        ptoRequests,
+        and(
+          eq(ptoRequests.status, 'approved'),
+          lte(ptoRequests.startDate, endDate),
+          gte(ptoRequests.endDate, startDate)
+        )
+      )
+    );
+  for (const row of ptoRows) {
+    schedules.get(row.technicianId)?.pto.push({ startDate: row.startDate, endDate: row.endDate });
+  }
+
+  return schedules;
+}
+
+// Pad query ranges by a day on each side so timezone offsets never drop a booking
+function paddedRange(startDate: string, endDate: string) {
+  return {
+    rangeStart: new Date(`${addDaysToDateString(startDate, -1)}T00:00:00Z`),
+    rangeEnd: new Date(`${addDaysToDateString(endDate, 2)}T00:00:00Z`),
+  };
+}
+
+/**
+ * Computes open booking slots for a tenant from appointments, service
+ * durations, technician skills/capacity/availability, shifts, approved PTO
+ * and business hours. Google Calendar is only consulted as an optional
+ * overlay, so tenants without a connected calendar can still book.
+ */
+export async function getNativeAvailability(
+  tenantId: string,
+  options: NativeAvailabilityOptions = {}
+): Promise<NativeAvailabilityResult> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+  const now = new Date();
+  const hours = await loadBusinessHoursConfig();
+
+  const startDate = options.startDate || formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  const days = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const endDate = addDaysToDateString(startDate, days - 1);
+  const { rangeStart, rangeEnd } = paddedRange(startDate, endDate);
+
+  const service = await resolveServiceProfile(tenantDb, options);
+  const { booked, busy, calendarKnown } = await loadBookings(tenantDb, rangeStart, rangeEnd, options.excludeAppointmentId);
+
+  const bookedByDate: Record<string, number> = {};
+  if (service.serviceId) {
+    for (const appt of booked) {
+      if (appt.serviceId !== service.serviceId) continue;
+      const date = formatInTimeZone(appt.scheduledTime, timezone, 'yyyy-MM-dd');
+      bookedByDate[date] = (bookedByDate[date] ?? 0) + 1;
+    }
+  }
+
+  const limits = service.serviceId
+    ? await tenantDb
+        .select({
+          dailyLimit: serviceLimits.dailyLimit,
+          effectiveFrom: serviceLimits.effectiveFrom,
+          effectiveTo: serviceLimits.effectiveTo,
+        })
+        .from(serviceLimits)
+        .where(
+          tenantDb.withTenantFilter(
+            serviceLimits,
+            and(eq(serviceLimits.serviceId, service.serviceId), eq(serviceLimits.isActive, true))
+          )
+        )
+    : [];
+
+  const dailyLimitFor = (date: string): number | null => {
+    const limit = limits.find(l =>
+      (!l.effectiveFrom || date >= l.effectiveFrom) && (!l.effectiveTo || date <= l.effectiveTo)
+    );
+    return limit ? limit.dailyLimit : null;
+  };
+
+  const schedules = await loadTechnicianSchedules(tenantDb, startDate, endDate, timezone, busy);
+
+  // Optional Google Calendar overlay
+  let calendarOverlay: NativeAvailabilityResult['calendarOverlay'] = 'skipped';
+  if (options.includeCalendarBusy !== false) {
+    const knownEventIds = new Set(calendarKnown.map(b => b.calendarEventId).filter((id): id is string => !!id));
+    const knownStartTimes = new Set(calendarKnown.map(b => new Date(b.scheduledTime).getTime()));
+    const overlay = await loadCalendarBusy(rangeStart, rangeEnd, knownEventIds, knownStartTimes);
+    busy.push(...overlay.busy);
+    calendarOverlay = overlay.status;
+  }
+
+  const slots = computeOpenSlots({
+    now,
+    timezone,
+    startDate,
+    days,
+    hours,
+    blockMinutes: service.blockMinutes,
+    fitMinutes: service.fitMinutes,
+    technicians: Array.from(schedules.values()),
+    busy,
+    serviceName: service.serviceName,
+    requiredSkillLevel: service.minSkillLevel,
+    dailyLimitFor,
+    bookedByDate,
+  });
+
+  console.log(`[SCHEDULING ENGINE] tenant=${tenantId} service=${service.serviceName ?? 'n/a'} days=${days} slots=${slots.length} techs=${schedules.size} calendar=${calendarOverlay}`);
+
+  return {
+    slots,
+    timezone,
+    hours,
+    serviceId: service.serviceId,
+    blockMinutes: service.blockMinutes,
+    calendarOverlay,
+  };
+}
+
+/**
+ * Open slot start times as ISO strings - the same shape the calendar-based
+ * generateAvailableSlots() has always returned.
+ */
+export async function getNativeSlotTimes(
+  tenantId: string,
+  serviceName: string,
+  horizonDays: number = DEFAULT_HORIZON_DAYS
+): Promise<string[]> {
+  const { slots } = await getNativeAvailability(tenantId, { serviceName, horizonDays });
+  return slots.map(slot => slot.startIso);
+}
+
+export type TechnicianAssignment =
+  | { status: 'assigned'; technicianId: number }
+  | { status: 'no_crew'; technicianId: null }        // Tenant has no technicians on file
+  | { status: 'no_capacity'; technicianId: null };   // Nobody qualified is free
+
+/**
+ * Picks the technician for a new booking: the best-ranked qualified tech
+ * who is on shift, under maxJobsPerDay and not already busy at that time.
+ */
+export async function assignTechnicianForBooking(
+  tenantId: string,
+  serviceName: string,
+  start: Date
+): Promise<TechnicianAssignment> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+  const hours = await loadBusinessHoursConfig();
+
+  const date = formatInTimeZone(start, timezone, 'yyyy-MM-dd');
+  const { rangeStart, rangeEnd } = paddedRange(date, date);
+
+  const service = await resolveServiceProfile(tenantDb, { serviceName });
+  const { busy } = await loadBookings(tenantDb, rangeStart, rangeEnd);
+  const schedules = await loadTechnicianSchedules(tenantDb, date, date, timezone, busy);
+
+  if (schedules.size === 0) {
+    return { status: 'no_crew', technicianId: null };
+  }
+
+  const capacity = checkSlotCapacity({
+    now: new Date(),
+    timezone,
+    startDate: date,
+    days: 1,
+    hours,
+    blockMinutes: service.blockMinutes,
+    fitMinutes: service.fitMinutes,
+    technicians: Array.from(schedules.values()),
+    busy,
+    serviceName: service.serviceName,
+    requiredSkillLevel: service.minSkillLevel,
+  }, start);
+
+  if (!capacity.open) {
+    return { status: 'no_capacity', technicianId: null };
+  }
+
+  return { status: 'assigned', technicianId: capacity.technicianIds[0] };
+}
+
+/**
+ * Per-technician utilization (booked vs. available minutes and job counts)
+ * for the admin scheduling dashboard.
+ */
+export async function getTechnicianUtilization(
+  tenantId: string,
+  startDate: string,
+  endDate: string
+): Promise<TechnicianUtilization[]> {
+  const tenantDb = wrapTenantDb(db, tenantId);
+  const timezone = await getTenantTimezone(tenantDb);
+  const hours = await loadBusinessHoursConfig();
+  const { rangeStart, rangeEnd } = paddedRange(startDate, endDate);
+
+  const { busy } = await loadBookings(tenantDb, rangeStart, rangeEnd);
+  const inRange = busy.filter(b => {
+    const date = formatInTimeZone(b.start, timezone, 'yyyy-MM-dd');
+    return date >= startDate && date <= endDate;
+  });
+  const schedules = await loadTechnicianSchedules(tenantDb, startDate, endDate, timezone, inRange);
+
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+  return Array.from(schedules.values()).map(tech =>
+    computeTechnicianUtilization(tech, startDate, days, hours, inRange)
+  );
+}
@@ -126,7 +126,8 @@ export async function evaluateServiceArea(
     homeBaseLat,
     homeBaseLng,
     targetLat,
-    targetLng
+    targetLng,
+    { tenantId }
   );
 
   // SP-BOOKING-ADDRESS+PRICING-FIX: Return UNKNOWN when travel time calculation fails
@@ -138,7 +139,7 @@ export async function evaluateServiceArea(
       targetLng,
       homeBaseLat,
       homeBaseLng,
-      reason: 'Distance Matrix API failed or returned no data',
+      reason: 'Invalid coordinates for travel time lookup',
     });
     return { 
       classification: 'UNKNOWN',
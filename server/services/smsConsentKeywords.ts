@@ -11,11 +11,14 @@
  * START keywords: START, UNSTOP
  *   -> Set sms_consent=true
  *   -> Return optional confirmation TwiML
+ *
+ * Both also append SMS consent events (all purposes) to the consent ledger.
  */
 
 import type { TenantDb } from '../tenantDb';
 import { customers } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { recordConsent } from './consentLedgerService';
 
 // STOP keywords - case insensitive, exact match only
 const STOP_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
@@ -141,6 +144,30 @@ async function updateSmsConsent(
   }
 }
 
+/**
+ * Append the keyword to the consent ledger. STOP/START apply to every SMS
+ * purpose, matching carrier-level opt-out behaviour.
+ */
+async function recordKeywordConsent(
+  tenantDb: TenantDb,
+  phone: string,
+  granted: boolean,
+  keyword: string
+): Promise<void> {
+  try {
+    await recordConsent(tenantDb, {
+      phone,
+      channel: 'sms',
+      purposes: 'all',
+      granted,
+      source: 'keyword',
+      evidence: { keyword, receivedAt: new Date().toISOString() },
+    });
+  } catch (error: any) {
+    console.error(`[SMS CONSENT] Failed to record ledger event for ${phone}: ${error.message}`);
+  }
+}
+
 /**
  * Handle SMS consent keywords
  * 
@@ -166,6 +193,7 @@ export async function handleSmsConsentKeywords(params: {
     console.log(`[SMS CONSENT] STOP keyword detected: "${normalized}" from ${fromPhone}`);
     
     await updateSmsConsent(tenantDb, tenantId, fromPhone, false);
+    await recordKeywordConsent(tenantDb, fromPhone, false, normalized);
     
     return {
       handled: true,
@@ -180,6 +208,7 @@ export async function handleSmsConsentKeywords(params: {
     console.log(`[SMS CONSENT] START keyword detected: "${normalized}" from ${fromPhone}`);
     
     await updateSmsConsent(tenantDb, tenantId, fromPhone, true);
+    await recordKeywordConsent(tenantDb, fromPhone, true, normalized);
     
     // Optional confirmation message
     const confirmMessage = "You've been re-subscribed to Clean Machine Auto Detail messages. Reply STOP to opt out anytime.";
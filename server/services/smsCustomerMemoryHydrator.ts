@@ -47,7 +47,7 @@ export async function hydrateSmsConversationStateFromDb(opts: {
   const fromPhone = normalizePhone(opts.fromPhone);
   const debug = process.env.DEBUG_SMS_TRACE === "1";
 
-  const current = conversationState.getState(fromPhone);
+  const current = conversationState.getState(fromPhone, opts.tenantId);
 
   const customer = await opts.tenantDb
     .select()
@@ -126,7 +126,7 @@ export async function hydrateSmsConversationStateFromDb(opts: {
 
   next.isExistingCustomer = true;
 
-  conversationState.updateState(fromPhone, next);
+  conversationState.updateState(fromPhone, next, opts.tenantId);
 
   if (debug) console.log("[SMS MEMORY] hydrated", {
     tenantId: opts.tenantId,
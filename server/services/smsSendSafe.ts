@@ -5,6 +5,7 @@
  * - E.164 normalization
  * - Prevents to_equals_from errors
  * - Ensures FROM is the tenant's inbound To number
+ * - Checks the consent ledger for the send purpose
  * - Detailed logging
  */
 
@@ -56,6 +57,7 @@ function normalizeE164(phone: string | null | undefined): string | null {
  * 
  * - Normalizes E.164
  * - Skips if to == from
+ * - Skips if the recipient has not consented for this purpose
  * - Logs all sends with purpose
  * - Never throws
  */
@@ -85,6 +87,19 @@ export async function sendSmsSafe(params: SmsSendParams): Promise<SmsSendResult>
     return { success: false, skipReason: 'empty_body' };
   }
   
+  try {
+    const { db } = await import('../db');
+    const { wrapTenantDb } = await import('../tenantDb');
+    const { checkConsentForSend } = await import('./consentLedgerService');
+    const consent = await checkConsentForSend(wrapTenantDb(db, tenantId), { phone: normalizedTo }, 'sms', purpose);
+    if (!consent.allowed) {
+      console.warn(`[SMS OUT] tenantId=${tenantId} purpose=${purpose} skip_reason=no_consent consent=${consent.reason} to=${normalizedTo}`);
+      return { success: false, skipReason: 'no_consent' };
+    }
+  } catch (err: any) {
+    console.error(`[SMS OUT] tenantId=${tenantId} purpose=${purpose} consent_check_error=${err?.message || 'unknown'}`);
+  }
+  
   try {
     const twilioClient = twilio(
       process.env.TWILIO_ACCOUNT_SID,
@@ -243,3 +243,25 @@ export function buildAvailabilitySms(
     },
   };
 }
+
+/**
+ * Build the availability SMS for a service straight from the scheduling
+ * engine, using the tenant's timezone for labels
+ */
+export async function buildServiceAvailabilitySms(
+  tenantId: string,
+  serviceName: string,
+  options: { horizonDays?: number; includeNextWeekPreview?: boolean } = {}
+): Promise<BuildAvailabilitySmsResult> {
+  const { getNativeAvailability } = await import('./schedulingEngine');
+  const horizonDays = options.horizonDays ?? 10;
+  const { slots, timezone } = await getNativeAvailability(tenantId, { serviceName, horizonDays });
+
+  return buildAvailabilitySms({
+    availableSlots: slots,
+    nowIso: new Date().toISOString(),
+    defaultHorizonDays: horizonDays,
+    includeNextWeekPreview: options.includeNextWeekPreview,
+    timezone,
+  });
+}
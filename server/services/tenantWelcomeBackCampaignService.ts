@@ -1,8 +1,9 @@
 import { db } from '../db';
 import type { TenantDb } from '../tenantDb';
 import { campaignConfigs, campaignSends, customers, loyaltyPoints, pointsTransactions, tenants, tenantDomains } from '@shared/schema';
-import { eq, and, sql } from 'drizzle-orm';
-import { sendSMS, sendEmail } from '../notifications';
+import { eq, and, sql, inArray } from 'drizzle-orm';
+import { enqueueOutbound } from './outboundDispatchService';
+import { getSegmentCustomers } from './customerSegmentService';
 import { addMonths } from 'date-fns';
 import { hasFeature } from '@shared/features';
 import { awardPromoPoints } from './promoEngine'; // Phase 14: Unified promo engine
@@ -46,6 +47,7 @@ export interface TenantWelcomeBackSendOptions {
   audience: CampaignAudience;
   previewOnly?: boolean;
   includeNonLoyalty?: boolean; // Send to ALL customers, not just loyalty opt-ins
+  segmentId?: number | null; // Saved segment replaces the VIP/regular split; audience still picks templates
 }
 
 export interface TenantWelcomeBackSendResult {
@@ -430,7 +432,7 @@ export async function sendTenantWelcomeBackCampaign(
   tenantDb: TenantDb,
   options: TenantWelcomeBackSendOptions
 ): Promise<TenantWelcomeBackSendResult> {
-  const { tenantId, audience, previewOnly = false, includeNonLoyalty = false } = options;
+  const { tenantId, audience, previewOnly = false, includeNonLoyalty = false, segmentId } = options;
 
   // Load tenant and verify feature access
   const [tenant] = await db
@@ -468,10 +470,14 @@ export async function sendTenantWelcomeBackCampaign(
 
   // Load target customers
   // Build filter conditions
-  const filters = [
-    eq(customers.tenantId, tenantId),
-    eq(customers.isVip, audience === 'vip')
-  ];
+  const filters = [eq(customers.tenantId, tenantId)];
+  
+  if (segmentId) {
+    const segmentCustomerIds = (await getSegmentCustomers(tenantDb, segmentId)).map(c => c.id);
+    filters.push(segmentCustomerIds.length > 0 ? inArray(customers.id, segmentCustomerIds) : sql`false`);
+  } else {
+    filters.push(eq(customers.isVip, audience === 'vip'));
+  }
   
   // Only filter by loyalty opt-in if includeNonLoyalty is false
   if (!includeNonLoyalty) {
@@ -581,8 +587,8 @@ export async function sendTenantWelcomeBackCampaign(
       let smsSent = false;
       let emailSent = false;
 
-      // Send SMS
-      if (customer.phone && customer.smsConsent) {
+      // Queue SMS (marketing consent and quiet hours are enforced by the dispatcher)
+      if (customer.phone) {
         let smsMessage = interpolateTemplate(smsTemplate, templateVars);
         
         // Auto-append rewards link if template doesn't include it
@@ -590,10 +596,15 @@ export async function sendTenantWelcomeBackCampaign(
           smsMessage += `\n\nView your rewards: ${personalizedRewardsLink}`;
         }
         
-        const smsResult = await sendSMS(tenantDb, customer.phone, smsMessage);
-        if (!smsResult.success) {
-          throw new Error(`SMS failed: ${smsResult.error}`);
-        }
+        await enqueueOutbound(tenantDb, {
+          channel: 'sms',
+          purpose: 'welcome_back',
+          to: customer.phone,
+          body: smsMessage,
+          customerId: customer.id,
+          recipientAddress: customer.address,
+          dedupeKey: `${config.campaignKey}_${audience}:${customer.id}:sms`,
+        });
         smsSent = true;
         
         // Log sample link for debugging (first customer only)
@@ -602,7 +613,7 @@ export async function sendTenantWelcomeBackCampaign(
         }
       }
 
-      // Send Email
+      // Queue Email
       if (customer.email && emailTemplate) {
         let emailBody = interpolateTemplate(emailTemplate, templateVars);
         
@@ -612,10 +623,16 @@ export async function sendTenantWelcomeBackCampaign(
         }
         
         try {
-          await sendEmail({
+          await enqueueOutbound(tenantDb, {
+            channel: 'email',
+            purpose: 'welcome_back',
             to: customer.email,
             subject: `Welcome Back! ${pointsBonus} Bonus Points Added 🎉`,
+            body: emailBody.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim(),
             html: emailBody,
+            customerId: customer.id,
+            recipientAddress: customer.address,
+            dedupeKey: `${config.campaignKey}_${audience}:${customer.id}:email`,
           });
           emailSent = true;
         } catch (emailError) {
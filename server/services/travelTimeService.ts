@@ -1,39 +1,415 @@
 /**
  * Travel Time Service
- * Uses Google Distance Matrix API to calculate travel time between two locations
+ *
+ * Drive times between coordinates, behind a pluggable provider:
+ * - GoogleDistanceMatrixProvider: live routing, batched (one request per matrix chunk)
+ * - OfflineDistanceProvider: haversine × road factor at an average speed (no network)
+ *
+ * Results are cached in-process (LRU) and persisted in travel_time_cache, keyed on
+ * rounded coordinates and a time-of-day bucket. Any leg the live provider cannot
+ * answer falls back to the offline estimate, so callers always get a number in
+ * dev, in tests and during outages.
  */
 
-export async function getTravelTimeMinutes(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
-): Promise<number | null> {
-  try {
-    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-    if (!apiKey) {
-      console.warn('[TRAVEL TIME] Google Maps API key not configured');
-      return null;
+import { formatInTimeZone } from 'date-fns-tz';
+import { LRUCache } from '../cache/lruCache';
+import { estimateDriveMinutes, type GeoPoint } from '@shared/routeOptimization';
+
+export type TimeOfDayBucket = 'am_peak' | 'midday' | 'pm_peak' | 'off_peak';
+
+export interface TravelMatrixOptions {
+  departAt?: Date;
+  timezone?: string;                 // Used to pick the time-of-day bucket
+  tenantId?: string;                 // Applies tenant offline-estimator tuning
+}
+
+export interface TravelMatrixResult {
+  minutes: number[][];               // [origin][destination]
+  estimated: boolean[][];            // true where the offline model was used
+}
+
+export interface OfflineEstimatorSettings {
+  roadFactor: number;
+  averageSpeedMph: number;
+}
+
+/**
+ * A source of drive times. Returns null for any pair it cannot answer.
+ */
+export interface TravelTimeProvider {
+  readonly name: string;
+  getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[],
+    departAt?: Date
+  ): Promise<(number | null)[][]>;
+}
+
+const DEFAULT_TIMEZONE = 'America/Chicago';
+const COORDINATE_PRECISION = 3;      // ~110m - nearby addresses share cache entries
+const PERSISTED_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MEMORY_TTL_MS = 6 * 60 * 60 * 1000;          // 6 hours
+const GOOGLE_MAX_ELEMENTS = 100;     // Distance Matrix per-request element limit
+const GOOGLE_MAX_SIDE = 25;          // Max origins or destinations per request
+
+export const DEFAULT_OFFLINE_SETTINGS: OfflineEstimatorSettings = {
+  roadFactor: 1.3,
+  averageSpeedMph: 30,
+};
+
+// ============================================================
+// Providers
+// ============================================================
+
+export class GoogleDistanceMatrixProvider implements TravelTimeProvider {
+  readonly name = 'google';
+
+  constructor(private readonly apiKey: string) {}
+
+  async getMatrix(
+    origins: GeoPoint[],
+    destinations: GeoPoint[],
+    departAt?: Date
+  ): Promise<(number | null)[][]> {
+    const result: (number | null)[][] = origins.map(() => destinations.map(() => null));
+
+    // Chunk so each request stays within Google's element limits
+    const destChunk = Math.min(GOOGLE_MAX_SIDE, destinations.length || 1);
+    const originChunk = Math.max(1, Math.min(GOOGLE_MAX_SIDE, Math.floor(GOOGLE_MAX_ELEMENTS / destChunk)));
+
+    for (let o = 0; o < origins.length; o += originChunk) {
+      for (let d = 0; d < destinations.length; d += destChunk) {
+        const originSlice = origins.slice(o, o + originChunk);
+        const destSlice = destinations.slice(d, d + destChunk);
+
+        try {
+          const url =
+            `https://maps.googleapis.com/maps/api/distancematrix/json` +
+            `?origins=${originSlice.map(p => `${p.lat},${p.lng}`).join('|')}` +
+            `&destinations=${destSlice.map(p => `${p.lat},${p.lng}`).join('|')}` +
+            (departAt && departAt > new Date() ? `&departure_time=${Math.floor(departAt.getTime() / 1000)}` : '') +
+            `&key=${this.apiKey}`;
+
+          const res = await fetch(url);
+          const json = await res.json();
+
+          if (json.status && json.status !== 'OK') {
+            console.warn('[TRAVEL TIME] Distance Matrix request failed:', json.status, json.error_message);
+            continue;
+          }
+
+          json.rows?.forEach((row: any, i: number) => {
+            row.elements?.forEach((element: any, j: number) => {
+              const seconds = element?.duration_in_traffic?.value ?? element?.duration?.value;
+              if (element?.status === 'OK' && typeof seconds === 'number') {
+                result[o + i][d + j] = Math.round(seconds / 60); // seconds → minutes
+              }
+            });
+          });
+        } catch (err) {
+          console.error('[TRAVEL TIME ERROR]', err);
+        }
+      }
     }
 
-    const url =
-      `https://maps.googleapis.com/maps/api/distancematrix/json` +
-      `?origins=${lat1},${lng1}` +
-      `&destinations=${lat2},${lng2}` +
-      `&key=${apiKey}`;
+    return result;
+  }
+}
+
+export class OfflineDistanceProvider implements TravelTimeProvider {
+  readonly name = 'offline';
+
+  constructor(private readonly settings: OfflineEstimatorSettings = DEFAULT_OFFLINE_SETTINGS) {}
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<number[][]> {
+    return origins.map(o =>
+      destinations.map(d => estimateDriveMinutes(o, d, this.settings.averageSpeedMph, this.settings.roadFactor))
+    );
+  }
+}
+
+let providerOverride: TravelTimeProvider | null = null;
+
+/**
+ * Replace the live provider (tests, alternate routing vendors).
+ * Pass null to restore the environment-based default.
+ */
+export function setTravelTimeProvider(provider: TravelTimeProvider | null): void {
+  providerOverride = provider;
+  memoryCache.clear();
+}
+
+/**
+ * The live provider, or null when only offline estimates are available.
+ * TRAVEL_TIME_PROVIDER=offline forces offline mode even with an API key.
+ */
+export function getLiveTravelTimeProvider(): TravelTimeProvider | null {
+  if (providerOverride) return providerOverride;
+  if (process.env.TRAVEL_TIME_PROVIDER === 'offline') return null;
+
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  return apiKey ? new GoogleDistanceMatrixProvider(apiKey) : null;
+}
+
+// ============================================================
+// Cache keys
+// ============================================================
+
+export function coordinateKey(point: GeoPoint): string {
+  return `${point.lat.toFixed(COORDINATE_PRECISION)},${point.lng.toFixed(COORDINATE_PRECISION)}`;
+}
+
+/**
+ * Coarse traffic bucket for the departure time, in the tenant's local time.
+ */
+export function getTimeOfDayBucket(departAt: Date, timezone: string = DEFAULT_TIMEZONE): TimeOfDayBucket {
+  const hour = parseInt(formatInTimeZone(departAt, timezone, 'H'), 10);
+  if (hour >= 7 && hour < 9) return 'am_peak';
+  if (hour >= 9 && hour < 16) return 'midday';
+  if (hour >= 16 && hour < 19) return 'pm_peak';
+  return 'off_peak';
+}
+
+const memoryCache = new LRUCache<number>({ maxSize: 10000, defaultTTL: MEMORY_TTL_MS });
+
+function cacheKey(origin: GeoPoint, destination: GeoPoint, bucket: TimeOfDayBucket): string {
+  return `travel:${coordinateKey(origin)}:${coordinateKey(destination)}:${bucket}`;
+}
+
+// ============================================================
+// Persistent cache (travel_time_cache)
+// ============================================================
 
-    const res = await fetch(url);
-    const json = await res.json();
+// db is imported lazily so the estimator stays usable without a database (tests, scripts)
+async function loadPersistedTravelTimes(
+  pairs: { originKey: string; destinationKey: string }[],
+  bucket: TimeOfDayBucket
+): Promise<Map<string, number>> {
+  const found = new Map<string, number>();
+  if (pairs.length === 0 || !process.env.DATABASE_URL) return found;
+
+  try {
+    const { db } = await import('../db');
+    const { travelTimeCache } = await import('@shared/schema');
+    const { and, eq, gt, inArray } = await import('drizzle-orm');
 
-    const duration = json.rows?.[0]?.elements?.[0]?.duration?.value;
-    if (!duration) {
-      console.warn('[TRAVEL TIME] No duration data returned from Google Maps API');
-      return null;
+    const rows = await db
+      .select()
+      .from(travelTimeCache)
+      .where(
+        and(
+          inArray(travelTimeCache.originKey, Array.from(new Set(pairs.map(p => p.originKey)))),
+          inArray(travelTimeCache.destinationKey, Array.from(new Set(pairs.map(p => p.destinationKey)))),
+          eq(travelTimeCache.timeBucket, bucket),
+          gt(travelTimeCache.expiresAt, new Date())
+        )
+      );
+
+    for (const row of rows) {
+      found.set(`${row.originKey}|${row.destinationKey}`, row.durationMinutes);
     }
+  } catch (err) {
+    console.error('[TRAVEL TIME] Failed to read travel time cache:', err);
+  }
+
+  return found;
+}
+
+async function persistTravelTimes(
+  entries: { originKey: string; destinationKey: string; minutes: number }[],
+  bucket: TimeOfDayBucket,
+  provider: string
+): Promise<void> {
+  if (entries.length === 0 || !process.env.DATABASE_URL) return;
+
+  try {
+    const { db } = await import('../db');
+    const { travelTimeCache } = await import('@shared/schema');
+    const { sql } = await import('drizzle-orm');
+    const expiresAt = new Date(Date.now() + PERSISTED_TTL_MS);
+
+    await db
+      .insert(travelTimeCache)
+      .values(entries.map(e => ({
+        originKey: e.originKey,
+        destinationKey: e.destinationKey,
+        timeBucket: bucket,
+        durationMinutes: e.minutes,
+        provider,
+        expiresAt,
+      })))
+      .onConflictDoUpdate({
+        target: [travelTimeCache.originKey, travelTimeCache.destinationKey, travelTimeCache.timeBucket],
+        set: {
+          durationMinutes: sql`excluded.duration_minutes`,
+          provider: sql`excluded.provider`,
+          expiresAt: sql`excluded.expires_at`,
+        },
+      });
+  } catch (err) {
+    console.error('[TRAVEL TIME] Failed to write travel time cache:', err);
+  }
+}
+
+// ============================================================
+// Tenant tuning
+// ============================================================
+
+const tuningCache = new LRUCache<OfflineEstimatorSettings>({ maxSize: 500, defaultTTL: 5 * 60 * 1000 });
+
+/**
+ * Offline estimator settings for a tenant (tenant_config.travelRoadFactor / travelAverageSpeedMph).
+ */
+export async function getOfflineEstimatorSettings(tenantId?: string): Promise<OfflineEstimatorSettings> {
+  if (!tenantId || !process.env.DATABASE_URL) return DEFAULT_OFFLINE_SETTINGS;
 
-    return Math.round(duration / 60); // convert seconds → minutes
+  const cached = tuningCache.get(tenantId);
+  if (cached) return cached;
+
+  try {
+    const { db } = await import('../db');
+    const { tenantConfig } = await import('@shared/schema');
+    const { eq } = await import('drizzle-orm');
+
+    const [config] = await db
+      .select({
+        travelRoadFactor: tenantConfig.travelRoadFactor,
+        travelAverageSpeedMph: tenantConfig.travelAverageSpeedMph,
+      })
+      .from(tenantConfig)
+      .where(eq(tenantConfig.tenantId, tenantId))
+      .limit(1);
+
+    const settings: OfflineEstimatorSettings = {
+      roadFactor: Number(config?.travelRoadFactor) || DEFAULT_OFFLINE_SETTINGS.roadFactor,
+      averageSpeedMph: config?.travelAverageSpeedMph || DEFAULT_OFFLINE_SETTINGS.averageSpeedMph,
+    };
+    tuningCache.set(tenantId, settings);
+    return settings;
   } catch (err) {
-    console.error('[TRAVEL TIME ERROR]', err);
+    console.error('[TRAVEL TIME] Failed to load offline estimator settings:', err);
+    return DEFAULT_OFFLINE_SETTINGS;
+  }
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Drive-time matrix between every origin and destination.
+ *
+ * Lookup order per pair: in-memory cache → travel_time_cache → one batched
+ * live request for all remaining pairs → offline estimate.
+ */
+export async function getTravelMatrix(
+  origins: GeoPoint[],
+  destinations: GeoPoint[],
+  options: TravelMatrixOptions = {}
+): Promise<TravelMatrixResult> {
+  const departAt = options.departAt ?? new Date();
+  const bucket = getTimeOfDayBucket(departAt, options.timezone);
+
+  const minutes: (number | null)[][] = origins.map(() => destinations.map(() => null));
+  const estimated: boolean[][] = origins.map(() => destinations.map(() => false));
+  const misses: { i: number; j: number }[] = [];
+
+  // 1. Same point and in-memory hits
+  origins.forEach((o, i) => {
+    destinations.forEach((d, j) => {
+      if (coordinateKey(o) === coordinateKey(d)) {
+        minutes[i][j] = 0;
+        return;
+      }
+      const hit = memoryCache.get(cacheKey(o, d, bucket));
+      if (hit != null) {
+        minutes[i][j] = hit;
+      } else {
+        misses.push({ i, j });
+      }
+    });
+  });
+
+  // 2. Persistent cache
+  if (misses.length > 0) {
+    const persisted = await loadPersistedTravelTimes(
+      misses.map(({ i, j }) => ({ originKey: coordinateKey(origins[i]), destinationKey: coordinateKey(destinations[j]) })),
+      bucket
+    );
+    for (const { i, j } of misses) {
+      const value = persisted.get(`${coordinateKey(origins[i])}|${coordinateKey(destinations[j])}`);
+      if (value != null) {
+        minutes[i][j] = value;
+        memoryCache.set(cacheKey(origins[i], destinations[j], bucket), value);
+      }
+    }
+  }
+
+  // 3. Live provider - one batched matrix over the origins/destinations still missing
+  const remaining = misses.filter(({ i, j }) => minutes[i][j] == null);
+  const live = getLiveTravelTimeProvider();
+
+  if (remaining.length > 0 && live) {
+    const originIdx = Array.from(new Set(remaining.map(m => m.i)));
+    const destIdx = Array.from(new Set(remaining.map(m => m.j)));
+    const liveMatrix = await live.getMatrix(
+      originIdx.map(i => origins[i]),
+      destIdx.map(j => destinations[j]),
+      departAt
+    );
+
+    const toPersist: { originKey: string; destinationKey: string; minutes: number }[] = [];
+    originIdx.forEach((i, a) => {
+      destIdx.forEach((j, b) => {
+        const value = liveMatrix[a]?.[b];
+        if (value == null || minutes[i][j] != null) return;
+        minutes[i][j] = value;
+        memoryCache.set(cacheKey(origins[i], destinations[j], bucket), value);
+        toPersist.push({
+          originKey: coordinateKey(origins[i]),
+          destinationKey: coordinateKey(destinations[j]),
+          minutes: value,
+        });
+      });
+    });
+
+    await persistTravelTimes(toPersist, bucket, live.name);
+  }
+
+  // 4. Offline estimate for anything left (not cached - it is cheap to recompute)
+  const unresolved = misses.filter(({ i, j }) => minutes[i][j] == null);
+  if (unresolved.length > 0) {
+    const settings = await getOfflineEstimatorSettings(options.tenantId);
+    for (const { i, j } of unresolved) {
+      minutes[i][j] = estimateDriveMinutes(origins[i], destinations[j], settings.averageSpeedMph, settings.roadFactor);
+      estimated[i][j] = true;
+    }
+  }
+
+  return { minutes: minutes as number[][], estimated };
+}
+
+/**
+ * Drive time in minutes between two points.
+ * Falls back to the offline estimate when live routing is unavailable, so
+ * this only returns null for invalid coordinates.
+ */
+export async function getTravelTimeMinutes(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+  options: TravelMatrixOptions = {}
+): Promise<number | null> {
+  if (![lat1, lng1, lat2, lng2].every(Number.isFinite)) {
+    console.warn('[TRAVEL TIME] Invalid coordinates', { lat1, lng1, lat2, lng2 });
     return null;
   }
+
+  const { minutes } = await getTravelMatrix(
+    [{ lat: lat1, lng: lng1 }],
+    [{ lat: lat2, lng: lng2 }],
+    options
+  );
+  return minutes[0][0];
 }
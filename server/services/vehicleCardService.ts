@@ -1,6 +1,7 @@
 import { wrapTenantDb } from '../tenantDb';
 import { db } from '../db';
 import { customerVehicles } from '@shared/schema';
+import { classifyVehicle } from '@shared/priceBook';
 import { eq, and, desc, isNull } from 'drizzle-orm';
 
 /**
@@ -84,6 +85,7 @@ export async function findOrCreateVehicleCard(
       make: normalizedMake,
       model: normalizedModel,
       color: normalizedColor,
+      vehicleClass: classifyVehicle(normalizedMake, normalizedModel), // Price book size class; staff can correct it
       isPrimary: false, // Will be set to true if this is the first vehicle
     })
     .returning();
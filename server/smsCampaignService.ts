@@ -1,11 +1,16 @@
 import { db } from './db';
 import { sql } from 'drizzle-orm';
 import { eq, and, or, lte, isNull, inArray } from 'drizzle-orm';
-import Bottleneck from 'bottleneck';
 import twilio from 'twilio';
-import { fromZonedTime, toZonedTime, formatInTimeZone } from 'date-fns-tz';
-import { addDays } from 'date-fns';
 import type { TenantDb } from './tenantDb';
+import { checkConsent } from './services/consentLedgerService';
+import { enqueueOutbound, type DispatchOutcome } from './services/outboundDispatchService';
+import { getSegmentCustomers } from './services/customerSegmentService';
+import { getTenantTimezone } from './timezoneUtils';
+import { createCampaignExperiment, getCampaignVariant, startCampaignExperiment } from './services/campaignExperimentService';
+import { getTenantPublicBaseUrl } from './services/portRecoveryService';
+import type { ExperimentSettings } from '@shared/campaignExperiments';
+import { nanoid } from 'nanoid';
 
 const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID;
 const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
@@ -30,6 +35,7 @@ const smsCampaigns = {
   completedAt: 'completed_at',
   status: 'status',
   targetAudience: 'target_audience',
+  segmentId: 'segment_id',
   recipientCount: 'recipient_count',
   sentCount: 'sent_count',
   failedCount: 'failed_count',
@@ -55,6 +61,9 @@ const smsCampaignRecipients = {
   twilioSid: 'twilio_sid',
   deliveryStatusId: 'delivery_status_id',
   timezone: 'timezone',
+  variantId: 'variant_id',
+  clickToken: 'click_token',
+  clickedAt: 'clicked_at',
   metadata: 'metadata',
   createdAt: 'created_at'
 };
@@ -75,85 +84,6 @@ const smsSuppressionList = {
   addedAt: 'added_at'
 };
 
-// Twilio rate limiter - 600 requests/min
-const twilioLimiter = new Bottleneck({
-  reservoir: 600,
-  reservoirRefreshAmount: 600,
-  reservoirRefreshInterval: 60 * 1000,
-  maxConcurrent: 10,
-  minTime: 100
-});
-
-console.log('[SMS CAMPAIGN] Bottleneck rate limiter initialized: 600 req/min for Twilio API');
-
-/**
- * TCPA Compliance: Check if current time is within quiet hours (9 PM - 8 AM) for a timezone
- * Uses date-fns-tz formatInTimeZone for timezone-aware hour extraction
- */
-function isQuietHours(timezone: string = 'America/Chicago'): boolean {
-  const now = new Date();
-  
-  // Get hour in recipient's timezone using formatInTimeZone (avoids server-timezone drift)
-  const hourStr = formatInTimeZone(now, timezone, 'H');
-  const hour = parseInt(hourStr, 10);
-  
-  // Quiet hours: 9 PM (21:00) to 8 AM (08:00)
-  return hour >= 21 || hour < 8;
-}
-
-/**
- * Calculate when quiet hours end for a timezone
- * Returns Date object (in UTC) for next 8 AM in that timezone
- * Ensures the returned time is strictly in the future
- */
-function getNextSendTime(timezone: string = 'America/Chicago'): Date {
-  const now = new Date();
-  
-  // Get current date/time in recipient's timezone
-  const dateStr = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
-  const hourStr = formatInTimeZone(now, timezone, 'H');
-  const hour = parseInt(hourStr, 10);
-  
-  // Build 8 AM date string in recipient's timezone
-  let targetDateStr = `${dateStr} 08:00:00`;
-  
-  // If we're at or past 8 AM local time, schedule for tomorrow
-  if (hour >= 8) {
-    const tomorrow = addDays(now, 1);
-    const tomorrowDateStr = formatInTimeZone(tomorrow, timezone, 'yyyy-MM-dd');
-    targetDateStr = `${tomorrowDateStr} 08:00:00`;
-  }
-  
-  // fromZonedTime accepts a Date object and interprets it AS IF it were in the target timezone
-  // We need to create a Date with the exact values we want (8 AM on target date)
-  // The Date constructor uses LOCAL timezone, but fromZonedTime will reinterpret it
-  const parts = targetDateStr.split(/[\s:-]/).map(p => parseInt(p));
-  
-  // Create a Date using the values we want (year, month-1, day, hour, minute, second)
-  // This Date will be WRONG in absolute time (it's in server timezone)
-  // But fromZonedTime will reinterpret these component values as being in the target timezone
-  const dateWithTargetComponents = new Date(
-    parts[0],      // year
-    parts[1] - 1,  // month (0-indexed)
-    parts[2],      // day  
-    parts[3],      // hour = 8
-    parts[4],      // minute = 0
-    parts[5]       // second = 0
-  );
-  
-  // fromZonedTime takes this date's components (year, month, day, 8, 0, 0)
-  // and interprets them as being in the target timezone, then converts to UTC
-  const nextSendUtc = fromZonedTime(dateWithTargetComponents, timezone);
-  
-  // Safety check: ensure scheduled time is strictly in the future
-  if (nextSendUtc <= now) {
-    // Add 24 hours if we somehow got a past time
-    return addDays(nextSendUtc, 1);
-  }
-  
-  return nextSendUtc;
-}
-
 /**
  * Estimate SMS segments (160 chars = 1 segment, 70 for Unicode)
  */
@@ -257,11 +187,29 @@ async function getRecipientsByAudience(tenantDb: TenantDb, targetAudience: strin
   return [];
 }
 
+/**
+ * Get recipients from a saved customer segment (SMS opt-ins only, like every built-in audience)
+ */
+async function getRecipientsBySegment(tenantDb: TenantDb, segmentId: number): Promise<Array<{ phone: string; customerId?: number; timezone?: string }>> {
+  const timezone = await getTenantTimezone(tenantDb);
+  const segmentCustomers = await getSegmentCustomers(tenantDb, segmentId, { channel: 'sms' });
+  
+  return segmentCustomers
+    .filter(customer => customer.smsConsent === true)
+    .map(customer => ({
+      phone: customer.phone!,
+      customerId: customer.id,
+      timezone
+    }));
+}
+
 /**
  * Create campaign recipients in database
  */
-async function populateCampaignRecipients(tenantDb: TenantDb, campaignId: number, targetAudience: string): Promise<number> {
-  const recipients = await getRecipientsByAudience(tenantDb, targetAudience);
+async function populateCampaignRecipients(tenantDb: TenantDb, campaignId: number, targetAudience: string, segmentId?: number | null): Promise<number> {
+  const recipients = segmentId
+    ? await getRecipientsBySegment(tenantDb, segmentId)
+    : await getRecipientsByAudience(tenantDb, targetAudience);
   
   if (recipients.length === 0) {
     throw new Error('No recipients found for target audience');
@@ -344,6 +292,9 @@ async function processSingleCampaign(tenantDb: TenantDb, campaign: any) {
       WHERE id = ${campaign.id}
     `);
     
+    // A/B tests: split recipients into test cells on the first pass
+    await startCampaignExperiment(tenantDb, 'sms', campaign.id);
+    
     // Get pending recipients (including deferred ones whose scheduledFor has arrived)
     const recipients = await tenantDb.execute(sql`
       SELECT * FROM sms_campaign_recipients
@@ -356,11 +307,12 @@ async function processSingleCampaign(tenantDb: TenantDb, campaign: any) {
     `);
     
     if (recipients.rows.length === 0) {
-      // Check if campaign is complete (all recipients in terminal states)
+      // Check if campaign is complete (all recipients in terminal states;
+      // 'held' recipients are waiting for an A/B test winner)
       const pending = await tenantDb.execute(sql`
         SELECT COUNT(*) as count FROM sms_campaign_recipients
         WHERE campaign_id = ${campaign.id}
-          AND status = 'pending'
+          AND status IN ('pending', 'held')
       `);
       
       if ((pending.rows[0] as any).count === 0) {
@@ -393,7 +345,8 @@ async function processSingleCampaign(tenantDb: TenantDb, campaign: any) {
 }
 
 /**
- * Send individual SMS with TCPA compliance and rate limiting
+ * Queue an individual campaign SMS after suppression, consent and daily-limit checks.
+ * Quiet hours and rate limiting are applied by the outbound dispatcher.
  */
 async function sendSingleCampaignSMS(tenantDb: TenantDb, campaign: any, recipient: any) {
   try {
@@ -413,29 +366,24 @@ async function sendSingleCampaignSMS(tenantDb: TenantDb, campaign: any, recipien
       return;
     }
     
-    // TCPA Compliance: Check quiet hours for recipient's timezone
-    if (isQuietHours(recipient.timezone || 'America/Chicago')) {
-      const nextSendTime = getNextSendTime(recipient.timezone || 'America/Chicago');
-      console.log(`[SMS CAMPAIGN] Quiet hours for ${recipient.phone_number}, deferring until ${nextSendTime.toISOString()}`);
-      
+    // Consent ledger: campaigns need SMS marketing consent
+    const consent = await checkConsent(
+      tenantDb,
+      { customerId: recipient.customer_id, phone: recipient.phone_number },
+      'sms',
+      'marketing'
+    );
+    if (!consent.allowed) {
+      console.log(`[SMS CAMPAIGN] Skipping ${recipient.phone_number} - no marketing consent (${consent.reason})`);
       await tenantDb.execute(sql`
         UPDATE sms_campaign_recipients
-        SET 
-          status = 'pending',
-          scheduled_for = ${nextSendTime.toISOString()}
+        SET status = 'suppressed', last_error = ${`No SMS marketing consent (${consent.reason})`}
         WHERE id = ${recipient.id}
       `);
       return;
     }
     
-    // Mark as sending
-    await tenantDb.execute(sql`
-      UPDATE sms_campaign_recipients
-      SET status = 'sending'
-      WHERE id = ${recipient.id}
-    `);
-    
-    // Atomically claim a send slot BEFORE calling Twilio (prevents overage)
+    // Atomically claim a send slot BEFORE queueing (prevents overage)
     const incrementSuccess = await incrementSmsCounterAtomic(tenantDb);
     
     if (!incrementSuccess) {
@@ -451,8 +399,11 @@ async function sendSingleCampaignSMS(tenantDb: TenantDb, campaign: any, recipien
       return;
     }
     
+    // A/B test cells get their variant's text instead of the campaign message
+    const variant = recipient.variant_id ? await getCampaignVariant(tenantDb, recipient.variant_id) : null;
+    
     // Personalize message (replace {{name}}, {name}, or similar with customer name)
-    let personalizedMessage = campaign.message;
+    let personalizedMessage: string = variant?.message ?? campaign.message;
     let customerName = 'there'; // Default fallback if no name found
     
     if (recipient.customer_id) {
@@ -475,49 +426,45 @@ async function sendSingleCampaignSMS(tenantDb: TenantDb, campaign: any, recipien
       .replace(/\{name\}/gi, customerName)
       .replace(/\{\{firstName\}\}/gi, customerName.split(' ')[0]); // Use first name for firstName variant
     
-    // Add opt-out message
-    const finalMessage = `${personalizedMessage}\n\nReply STOP to unsubscribe`;
-    
-    // Send with rate limiting (slot already claimed above, so we're guaranteed within limit)
-    await twilioLimiter.schedule(async () => {
-      // CRITICAL FIX: Use sendSMS() from notifications.ts with phoneLineId
-      // Campaigns use Main Line (ID 1) for automated messages
-      const { sendSMS } = await import('./notifications');
-      
-      const result = await sendSMS(
-        tenantDb, // ✅ FIXED: tenantDb in correct position (first argument)
-        recipient.phone_number,
-        finalMessage,
-        undefined, // conversationId
-        undefined, // messageId
-        1 // phoneLineId: Main Line for campaigns
-      );
-      
-      if (!result.success) {
-        throw new Error(result.error || 'SMS send failed');
-      }
-      
-      // Update recipient status
+    // {{link}} becomes a per-recipient tracked link to the booking page
+    if (personalizedMessage.includes('{{link}}')) {
+      const clickToken = nanoid(16);
       await tenantDb.execute(sql`
         UPDATE sms_campaign_recipients
-        SET 
-          status = 'sent',
-          sent_at = NOW(),
-          attempt_count = attempt_count + 1,
-          twilio_sid = ${result.messageSid || null}
+        SET click_token = ${clickToken}
         WHERE id = ${recipient.id}
       `);
-      
-      // Increment campaign sent counter
-      await tenantDb.execute(sql`
-        UPDATE sms_campaigns
-        SET sent_count = sent_count + 1
-        WHERE id = ${campaign.id}
-      `);
-      
-      console.log(`[SMS CAMPAIGN] Sent SMS to ${recipient.phone_number} (SID: ${result.messageSid})`);
+      const trackedLink = `${await getTenantPublicBaseUrl(tenantDb.tenantId)}/api/campaigns/sms/click/${clickToken}`;
+      personalizedMessage = personalizedMessage.replace(/\{\{link\}\}/g, trackedLink);
+    }
+    
+    // Add opt-out message
+    const finalMessage = `${personalizedMessage}\n\nReply STOP to unsubscribe`;
+    
+    // Hand off to the outbound dispatcher; recordCampaignDispatchResult() is
+    // called back once the message is sent or gives up.
+    // Campaigns use Main Line (ID 1) for automated messages
+    await enqueueOutbound(tenantDb, {
+      channel: 'sms',
+      purpose: 'sms_campaign',
+      to: recipient.phone_number,
+      body: finalMessage,
+      customerId: recipient.customer_id ?? null,
+      phoneLineId: 1,
+      recipientTimezone: recipient.timezone || null,
+      sourceType: 'sms_campaign_recipient',
+      sourceId: recipient.id,
+      dedupeKey: `sms_campaign:${campaign.id}:${recipient.id}`,
     });
     
+    await tenantDb.execute(sql`
+      UPDATE sms_campaign_recipients
+      SET status = 'queued'
+      WHERE id = ${recipient.id}
+    `);
+    
+    console.log(`[SMS CAMPAIGN] Queued SMS to ${recipient.phone_number} (campaign ${campaign.id})`);
+    
   } catch (error: any) {
     console.error(`[SMS CAMPAIGN] Error sending to ${recipient.phone_number}:`, error);
     
@@ -544,6 +491,51 @@ async function sendSingleCampaignSMS(tenantDb: TenantDb, campaign: any, recipien
   }
 }
 
+/**
+ * Outbound dispatcher callback: record the final result for a campaign recipient
+ */
+export async function recordCampaignDispatchResult(
+  tenantDb: TenantDb,
+  recipientId: number,
+  outcome: DispatchOutcome
+) {
+  if (outcome.status === 'sent') {
+    await tenantDb.execute(sql`
+      UPDATE sms_campaign_recipients
+      SET 
+        status = 'sent',
+        sent_at = NOW(),
+        attempt_count = attempt_count + 1,
+        twilio_sid = ${outcome.providerMessageId}
+      WHERE id = ${recipientId}
+    `);
+    await tenantDb.execute(sql`
+      UPDATE sms_campaigns
+      SET sent_count = sent_count + 1
+      WHERE id = (SELECT campaign_id FROM sms_campaign_recipients WHERE id = ${recipientId})
+    `);
+    return;
+  }
+  
+  await tenantDb.execute(sql`
+    UPDATE sms_campaign_recipients
+    SET 
+      status = ${outcome.status === 'skipped' ? 'suppressed' : 'failed'},
+      attempt_count = attempt_count + 1,
+      last_error = ${outcome.error},
+      failed_at = ${outcome.status === 'failed' ? new Date().toISOString() : null}
+    WHERE id = ${recipientId}
+  `);
+  
+  if (outcome.status === 'failed') {
+    await tenantDb.execute(sql`
+      UPDATE sms_campaigns
+      SET failed_count = failed_count + 1
+      WHERE id = (SELECT campaign_id FROM sms_campaign_recipients WHERE id = ${recipientId})
+    `);
+  }
+}
+
 /**
  * Create a new SMS campaign
  */
@@ -551,9 +543,11 @@ export async function createSMSCampaign(tenantDb: TenantDb, data: {
   name: string;
   message: string;
   targetAudience: string;
+  segmentId?: number | null;
   scheduledDate?: Date;
   fromNumber?: string;
   createdBy?: number;
+  abTest?: ExperimentSettings & { variants: string[] }; // Variants B-D; the campaign message is A
 }) {
   try {
     const segments = estimateSmsSegments(data.message);
@@ -565,6 +559,7 @@ export async function createSMSCampaign(tenantDb: TenantDb, data: {
         scheduled_date,
         status,
         target_audience,
+        segment_id,
         from_number,
         estimated_segments,
         created_by
@@ -574,6 +569,7 @@ export async function createSMSCampaign(tenantDb: TenantDb, data: {
         ${data.scheduledDate?.toISOString() || null},
         ${data.scheduledDate ? 'scheduled' : 'draft'},
         ${data.targetAudience},
+        ${data.segmentId ?? null},
         ${data.fromNumber || process.env.MAIN_PHONE_NUMBER || null},
         ${segments},
         ${data.createdBy || null}
@@ -583,9 +579,16 @@ export async function createSMSCampaign(tenantDb: TenantDb, data: {
     
     const campaign = result.rows[0];
     
+    if (data.abTest) {
+      await createCampaignExperiment(tenantDb, 'sms', (campaign as any).id, data.abTest, [
+        { message: data.message },
+        ...data.abTest.variants.map(message => ({ message })),
+      ]);
+    }
+    
     // If scheduled, populate recipients
     if (data.scheduledDate) {
-      await populateCampaignRecipients(tenantDb, (campaign as any).id, data.targetAudience);
+      await populateCampaignRecipients(tenantDb, (campaign as any).id, data.targetAudience, data.segmentId);
     }
     
     return campaign;
@@ -625,7 +628,7 @@ export async function sendSMSCampaignNow(tenantDb: TenantDb, id: number) {
     
     // Populate recipients if not already done
     if (campaignData.recipient_count === 0) {
-      await populateCampaignRecipients(tenantDb, id, campaignData.target_audience || 'all');
+      await populateCampaignRecipients(tenantDb, id, campaignData.target_audience || 'all', campaignData.segment_id);
     }
     
     // Trigger campaign processing immediately (respects all limits and quotas)
@@ -159,6 +159,17 @@ async function updateCustomerSmsConsent(
         }
       }
     }
+
+    // Append to the consent ledger (keywords cover every SMS purpose)
+    const { recordConsent } = await import('./services/consentLedgerService');
+    await recordConsent(tenantDb, {
+      phone,
+      channel: 'sms',
+      purposes: 'all',
+      granted: consent,
+      source: 'keyword',
+      evidence: { keyword: consent ? 'START' : 'STOP', conversationId },
+    });
   } catch (error) {
     console.error('[SMS CONSENT] Error updating customer sms_consent:', error);
   }
@@ -257,9 +268,11 @@ async function handleReminderOptOut(tenantDb: TenantDb, conversationId: number):
       ))
       .returning({ id: reminderJobs.id });
     
-    // Log opt-out events for each cancelled job
+    // Log opt-out events for each cancelled job and drop its queued message
     if (cancelledJobs.length > 0) {
+      const { cancelOutboundForSource } = await import('./services/outboundDispatchService');
       for (const job of cancelledJobs) {
+        await cancelOutboundForSource(tenantDb, 'reminder_job', job.id);
         await tenantDb.insert(reminderEvents).values({
           jobId: job.id,
           eventType: 'opted_out',
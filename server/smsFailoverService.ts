@@ -115,7 +115,8 @@ export async function sendSMSWithFailover(
   statusCallback?: string,
   messagingServiceSid?: string | null,
   purpose: string = 'customer_sms',
-  allowAdmin: boolean = false
+  allowAdmin: boolean = false,
+  mediaUrls?: string[]
 ): Promise<{ success: boolean; messageSid?: string; error?: any; usedBackup: boolean; fromNumber?: string }> {
   
   if (!twilio) {
@@ -165,6 +166,11 @@ export async function sendSMSWithFailover(
       smsParams.statusCallback = statusCallback;
     }
 
+    // MMS attachments (e.g. technician photo)
+    if (mediaUrls && mediaUrls.length > 0) {
+      smsParams.mediaUrl = mediaUrls;
+    }
+
     try {
       const response = await twilio.messages.create(smsParams);
       const sendMethod = usingMessagingService ? `Messaging Service ${messagingServiceSid}` : `primary line ${validatedFrom}`;
@@ -197,6 +203,9 @@ export async function sendSMSWithFailover(
               if (statusCallback) {
                 msgSvcParams.statusCallback = statusCallback;
               }
+              if (mediaUrls && mediaUrls.length > 0) {
+                msgSvcParams.mediaUrl = mediaUrls;
+              }
               
               const msgSvcResponse = await twilio.messages.create(msgSvcParams);
               console.log(`[SMS FAILOVER] ✅ SUCCESS via Messaging Service failover - SID: ${msgSvcResponse.sid}`);
@@ -246,6 +255,9 @@ export async function sendSMSWithFailover(
         if (statusCallback) {
           backupParams.statusCallback = statusCallback;
         }
+        if (mediaUrls && mediaUrls.length > 0) {
+          backupParams.mediaUrl = mediaUrls;
+        }
 
         try {
           const backupResponse = await twilio.messages.create(backupParams);
@@ -3,12 +3,13 @@ import { eq, and, SQL } from 'drizzle-orm';
 import type { PgTable } from 'drizzle-orm/pg-core';
 import type { TenantInfo } from './tenantMiddleware';
 import { 
-  users, customers, appointments, services, conversations, messages, invoices,
-  jobPhotos, quoteRequests, technicianDeposits, messageReactions,
+  users, customers, appointments, services, servicePrices, priceModifiers, conversations, messages, invoices,
+  invoiceLineItems, invoicePayments,
+  jobPhotos, jobStatusEvents, quoteRequests, technicianDeposits, messageReactions,
   messageEditHistory, scheduledMessages, humanEscalationRequests,
   callEvents, phoneLines, phoneSchedules, recurringServices,
   smsDeliveryStatus, loyaltyPoints, loyaltyTiers, achievements,
-  rewardServices, pointsTransactions, loyaltyTransactions, customerAchievements,
+  rewardServices, pointsTransactions, loyaltyTransactions, promoRuleDefinitions, customerAchievements,
   redeemedRewards, referrals, referralProgramConfig, rewardAudit,
   qrCodeActions, upsellOffers, appointmentUpsells, emailCampaigns,
   campaignRecipients, emailSuppressionList, smsCampaigns,
@@ -26,8 +27,11 @@ import {
   creditTransactions, serviceAddons, customerAddonCredits,
   milestoneDefinitions, customerMilestoneProgress, reminderRules,
   reminderJobs, reminderEvents, reminderSnoozes, reminderOptOuts,
-  reminderConsent, customerVehicles, customerServiceHistory, households, 
-  migrationLog, customerIdentities, customerOtps, customerSessions
+  reminderConsent, consentEvents, outboundMessages, customerVehicles, customerServiceHistory, households, 
+  migrationLog, customerIdentities, customerOtps, customerSessions, knowledgeDocuments, bookingSessions,
+  accountingSyncRecords, accountingExports, customerSegments,
+  journeys, journeyEnrollments, journeyEvents, journeyTasks,
+  campaignExperiments, campaignVariants, attributionTouches, depositRefunds, customerMedia
 } from '@shared/schema';
 
 const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
@@ -35,10 +39,16 @@ const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
   [customers, { tenantIdColumn: customers.tenantId }],
   [appointments, { tenantIdColumn: appointments.tenantId }],
   [services, { tenantIdColumn: services.tenantId }],
+  [servicePrices, { tenantIdColumn: servicePrices.tenantId }],
+  [priceModifiers, { tenantIdColumn: priceModifiers.tenantId }],
   [conversations, { tenantIdColumn: conversations.tenantId }],
   [messages, { tenantIdColumn: messages.tenantId }],
   [invoices, { tenantIdColumn: invoices.tenantId }],
+  [invoiceLineItems, { tenantIdColumn: invoiceLineItems.tenantId }],
+  [invoicePayments, { tenantIdColumn: invoicePayments.tenantId }],
   [jobPhotos, { tenantIdColumn: jobPhotos.tenantId }],
+  [customerMedia, { tenantIdColumn: customerMedia.tenantId }],
+  [jobStatusEvents, { tenantIdColumn: jobStatusEvents.tenantId }],
   [quoteRequests, { tenantIdColumn: quoteRequests.tenantId }],
   [technicianDeposits, { tenantIdColumn: technicianDeposits.tenantId }],
   [messageReactions, { tenantIdColumn: messageReactions.tenantId }],
@@ -56,6 +66,7 @@ const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
   [rewardServices, { tenantIdColumn: rewardServices.tenantId }],
   [pointsTransactions, { tenantIdColumn: pointsTransactions.tenantId }],
   [loyaltyTransactions, { tenantIdColumn: loyaltyTransactions.tenantId }], // Phase 14: Promo engine
+  [promoRuleDefinitions, { tenantIdColumn: promoRuleDefinitions.tenantId }],
   [customerAchievements, { tenantIdColumn: customerAchievements.tenantId }],
   [redeemedRewards, { tenantIdColumn: redeemedRewards.tenantId }],
   [referrals, { tenantIdColumn: referrals.tenantId }],
@@ -101,6 +112,7 @@ const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
   [applicants, { tenantIdColumn: applicants.tenantId }],
   [authorizations, { tenantIdColumn: authorizations.tenantId }],
   [paymentLinks, { tenantIdColumn: paymentLinks.tenantId }],
+  [depositRefunds, { tenantIdColumn: depositRefunds.tenantId }],
   [giftCards, { tenantIdColumn: giftCards.tenantId }],
   [giftCardRedemptions, { tenantIdColumn: giftCardRedemptions.tenantId }],
   [creditLedger, { tenantIdColumn: creditLedger.tenantId }],
@@ -115,6 +127,8 @@ const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
   [reminderSnoozes, { tenantIdColumn: reminderSnoozes.tenantId }],
   [reminderOptOuts, { tenantIdColumn: reminderOptOuts.tenantId }],
   [reminderConsent, { tenantIdColumn: reminderConsent.tenantId }],
+  [consentEvents, { tenantIdColumn: consentEvents.tenantId }],
+  [outboundMessages, { tenantIdColumn: outboundMessages.tenantId }],
   [customerVehicles, { tenantIdColumn: customerVehicles.tenantId }],
   [customerServiceHistory, { tenantIdColumn: customerServiceHistory.tenantId }],
   [contacts, { tenantIdColumn: contacts.tenantId }],
@@ -124,6 +138,18 @@ const TABLE_METADATA = new Map<any, { tenantIdColumn: any }>([
   [customerOtps, { tenantIdColumn: customerOtps.tenantId }],
   [customerSessions, { tenantIdColumn: customerSessions.tenantId }],
   [migrationLog, { tenantIdColumn: migrationLog.tenantId }],
+  [knowledgeDocuments, { tenantIdColumn: knowledgeDocuments.tenantId }],
+  [bookingSessions, { tenantIdColumn: bookingSessions.tenantId }],
+  [accountingSyncRecords, { tenantIdColumn: accountingSyncRecords.tenantId }],
+  [accountingExports, { tenantIdColumn: accountingExports.tenantId }],
+  [customerSegments, { tenantIdColumn: customerSegments.tenantId }],
+  [journeys, { tenantIdColumn: journeys.tenantId }],
+  [journeyEnrollments, { tenantIdColumn: journeyEnrollments.tenantId }],
+  [journeyEvents, { tenantIdColumn: journeyEvents.tenantId }],
+  [journeyTasks, { tenantIdColumn: journeyTasks.tenantId }],
+  [campaignExperiments, { tenantIdColumn: campaignExperiments.tenantId }],
+  [campaignVariants, { tenantIdColumn: campaignVariants.tenantId }],
+  [attributionTouches, { tenantIdColumn: attributionTouches.tenantId }],
 ]);
 
 export interface TenantDb {
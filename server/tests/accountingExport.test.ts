@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fingerprintAccountingRecord,
+  listAccountingRecords,
+  parseAcknowledgementCsv,
+  renderCsvJournal,
+  renderIifJournal,
+  selectPendingRecords,
+  type AccountingBatch,
+} from '@shared/accountingExport';
+
+/**
+ * Unit Tests for the accounting export: IIF/CSV journals that balance,
+ * fingerprint-based idempotency and reading external ids back in
+ */
+
+const BATCH: AccountingBatch = {
+  items: [{ localId: 1, name: 'Full Detail', description: 'Inside and out', price: 200 }],
+  customers: [{ localId: 7, name: 'Jane Smith', email: 'jane@example.com', phone: '+15125550100', address: '1 Main St, Austin' }],
+  receipts: [
+    {
+      localId: 42,
+      type: 'sales_receipt',
+      number: 'INV-2026-000042',
+      date: '2026-03-09',
+      customerName: 'Jane Smith',
+      paymentMethod: 'card',
+      memo: 'Full Detail',
+      lines: [
+        { itemName: 'Full Detail', account: 'income', description: 'Full Detail', quantity: 1, amount: 200 },
+        { itemName: null, account: 'discounts', description: 'Referral discount', quantity: 1, amount: -20 },
+      ],
+      tax: 14.85,
+      total: 194.85,
+    },
+    {
+      localId: 9,
+      type: 'refund_receipt',
+      number: 'REF-000009',
+      date: '2026-03-10',
+      customerName: 'Jane Smith',
+      paymentMethod: 'card',
+      memo: 'Refund for Full Detail',
+      lines: [{ itemName: null, account: 'income', description: 'Refund - Full Detail', quantity: 1, amount: 50 }],
+      tax: 0,
+      total: 50,
+    },
+  ],
+};
+
+describe('Accounting Export - Unit Tests', () => {
+  it('should write IIF lists and cash sale transactions whose splits sum to zero', () => {
+    const iif = renderIifJournal(BATCH);
+    const rows = iif.trim().split('\r\n').map(row => row.split('\t'));
+
+    expect(rows).toContainEqual(['CUST', 'Jane Smith', 'jane@example.com', '+15125550100', '1 Main St, Austin', 'customer', '7']);
+    expect(rows).toContainEqual(['INVITEM', 'Full Detail', 'SERV', 'Inside and out', '200.00', 'Services Income', 'item', '1']);
+
+    const sale = rows.filter(row => (row[0] === 'TRNS' || row[0] === 'SPL') && row[1] === 'CASH SALE');
+    expect(sale[0]).toEqual(['TRNS', 'CASH SALE', '03/09/2026', 'Undeposited Funds', 'Jane Smith', '194.85', 'INV-2026-000042', 'Full Detail', 'card', 'sales_receipt', '42']);
+    expect(sale.reduce((sum, row) => sum + Number(row[5]), 0)).toBeCloseTo(0, 2);
+    expect(sale.find(row => row[3] === 'Sales Tax Payable')?.[5]).toBe('-14.85');
+
+    const refund = rows.filter(row => (row[0] === 'TRNS' || row[0] === 'SPL') && row[1] === 'CASH REFUND');
+    expect(refund[0][5]).toBe('-50.00');
+    expect(refund.reduce((sum, row) => sum + Number(row[5]), 0)).toBeCloseTo(0, 2);
+  });
+
+  it('should write a balanced CSV journal with refunds reversed', () => {
+    const lines = renderCsvJournal(BATCH).trim().split('\r\n');
+    expect(lines[0]).toBe('Date,Reference,Type,Account,Name,Description,Debit,Credit,Record Type,Local ID');
+
+    const entries = lines.slice(1).map(line => line.split(','));
+    const debits = entries.reduce((sum, row) => sum + Number(row[6] || 0), 0);
+    const credits = entries.reduce((sum, row) => sum + Number(row[7] || 0), 0);
+    expect(debits).toBeCloseTo(credits, 2);
+
+    expect(lines).toContain('2026-03-09,INV-2026-000042,Sales Receipt,Discounts Given,Jane Smith,Referral discount,20.00,,sales_receipt,42');
+    expect(lines).toContain('2026-03-10,REF-000009,Refund Receipt,Undeposited Funds,Jane Smith,Refund for Full Detail,,50.00,refund_receipt,9');
+  });
+
+  it('should only select records that are new or changed since the last export', () => {
+    const state = listAccountingRecords(BATCH);
+    const unchanged = selectPendingRecords(BATCH, state);
+    expect(unchanged).toEqual({ items: [], customers: [], receipts: [] });
+
+    const changed: AccountingBatch = {
+      ...BATCH,
+      customers: [{ ...BATCH.customers[0], phone: '+15125550199' }],
+    };
+    const pending = selectPendingRecords(changed, state);
+    expect(pending.customers).toHaveLength(1);
+    expect(pending.items).toHaveLength(0);
+    expect(pending.receipts).toHaveLength(0);
+
+    // Key order never changes the fingerprint
+    expect(fingerprintAccountingRecord({ a: 1, b: [1, 2] })).toBe(fingerprintAccountingRecord({ b: [1, 2], a: 1 }));
+  });
+
+  it('should read acknowledged ids back and report bad rows', () => {
+    const { acknowledgements, errors } = parseAcknowledgementCsv(
+      'external_id,record_type,local_id,note\r\n' +
+      '"80000001-1234",customer,7,"Smith, Jane"\r\n' +
+      'ABC,sales_receipt,42,\r\n' +
+      'XYZ,invoice,3,\r\n' +
+      ',item,1,\r\n'
+    );
+
+    expect(acknowledgements).toEqual([
+      { recordType: 'customer', localId: 7, externalId: '80000001-1234' },
+      { recordType: 'sales_receipt', localId: 42, externalId: 'ABC' },
+    ]);
+    expect(errors).toEqual(['Row 4: unknown record type "invoice"', 'Row 5: missing external id']);
+    expect(parseAcknowledgementCsv('id,name\n1,x').errors[0]).toContain('record_type');
+  });
+
+  it('should accept an exported CSV journal back once external ids are added', () => {
+    const journal = renderCsvJournal(BATCH).trim().split('\r\n');
+    const filledIn = [
+      `${journal[0]},external_id`,
+      ...journal.slice(1).map(line => `${line},${line.includes('refund_receipt') ? 'QB-R9' : 'QB-S42'}`),
+    ].join('\r\n');
+
+    const { acknowledgements, errors } = parseAcknowledgementCsv(filledIn);
+    expect(errors).toEqual([]);
+    expect(acknowledgements).toEqual([
+      { recordType: 'sales_receipt', localId: 42, externalId: 'QB-S42' },
+      { recordType: 'refund_receipt', localId: 9, externalId: 'QB-R9' },
+    ]);
+  });
+});
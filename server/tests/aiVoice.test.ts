@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendTranscriptTurn,
+  buildWarmTransferTwiml,
+  formatVoiceTranscript,
+  heardAudioMs,
+  mulawPayloadMs,
+  parseTwilioStreamMessage,
+  resolveTransferTarget,
+  WHISPER_SUMMARY_MAX_CHARS,
+  type VoiceTranscriptTurn,
+} from '@shared/aiVoice';
+
+/**
+ * Unit Tests for the AI voice receptionist helpers: stream messages,
+ * transcripts, barge-in timing and warm transfer
+ */
+
+describe('AI Voice - Unit Tests', () => {
+  it('should parse Twilio stream messages and ignore junk', () => {
+    const start = parseTwilioStreamMessage(JSON.stringify({
+      event: 'start',
+      streamSid: 'MZ1',
+      start: { streamSid: 'MZ1', callSid: 'CA1', accountSid: 'AC1', tracks: ['inbound'], customParameters: { tenantId: 't1' } },
+    }));
+    expect(start?.event).toBe('start');
+    expect(parseTwilioStreamMessage('not json')).toBeNull();
+    expect(parseTwilioStreamMessage(JSON.stringify({ foo: 'bar' }))).toBeNull();
+  });
+
+  it('should fold consecutive turns from the same side', () => {
+    const at = new Date('2026-04-01T10:00:00Z');
+    let turns: VoiceTranscriptTurn[] = [];
+    turns = appendTranscriptTurn(turns, 'agent', 'How can I help?', at);
+    turns = appendTranscriptTurn(turns, 'caller', 'I need a detail', at);
+    turns = appendTranscriptTurn(turns, 'caller', '  for my truck. ', at);
+    turns = appendTranscriptTurn(turns, 'caller', '   ', at);
+
+    expect(turns).toHaveLength(2);
+    expect(turns[1]).toEqual({ role: 'caller', text: 'I need a detail for my truck.', at: '2026-04-01T10:00:00.000Z' });
+    expect(formatVoiceTranscript(turns)).toBe('Agent: How can I help?\nCaller: I need a detail for my truck.');
+  });
+
+  it('should measure mu-law audio and cap heard audio at what was sent', () => {
+    // 160 bytes = 20ms at 8kHz
+    const frame = Buffer.alloc(160).toString('base64');
+    expect(mulawPayloadMs(frame)).toBe(20);
+    expect(mulawPayloadMs('')).toBe(0);
+
+    expect(heardAudioMs(null, 500, 10_000)).toBe(0);
+    expect(heardAudioMs(10_000, 500, 10_200)).toBe(200);
+    expect(heardAudioMs(10_000, 500, 12_000)).toBe(500);
+  });
+
+  it('should transfer to the first forward action, then the forwarding number', () => {
+    const items = [
+      { actionType: 'PLAY_MESSAGE', label: 'Hours', actionPayload: { message: 'Open 9-5' } },
+      { actionType: 'FORWARD_SIP', label: 'Front desk', actionPayload: { sipUri: 'sip:desk@example.sip.twilio.com' } },
+      { actionType: 'FORWARD_PHONE', label: 'Owner', actionPayload: { phoneNumber: '+19185550000' } },
+    ];
+    expect(resolveTransferTarget(items, '+19185551111')).toEqual({
+      kind: 'sip', address: 'sip:desk@example.sip.twilio.com', label: 'Front desk',
+    });
+    expect(resolveTransferTarget(items.slice(0, 1), '+19185551111')).toEqual({ kind: 'phone', address: '+19185551111' });
+    expect(resolveTransferTarget([], null)).toBeNull();
+  });
+
+  it('should build warm transfer TwiML with a whispered summary', () => {
+    const twiml = buildWarmTransferTwiml({
+      target: { kind: 'phone', address: '+19185550000' },
+      callerNumber: '+19185551234',
+      callbackBaseUrl: 'https://example.com',
+      summary: 'Call from Dana. Wants to move a booking & add wax. ' + 'x'.repeat(WHISPER_SUMMARY_MAX_CHARS),
+    });
+
+    expect(twiml).toContain('<Dial callerId="+19185551234" timeout="25" action="https://example.com/twilio/voice/dial-status" method="POST">');
+    expect(twiml).toContain('>+19185550000</Number>');
+    const url = new URL(twiml.match(/url="([^"]+)"/)![1].replace(/&amp;/g, '&'));
+    expect(url.pathname).toBe('/twilio/voice/ai/whisper');
+    expect(url.searchParams.get('summary')).toMatch(/^Call from Dana\. Wants to move a booking & add wax\./);
+    expect(url.searchParams.get('summary')!.length).toBe(WHISPER_SUMMARY_MAX_CHARS);
+
+    const sip = buildWarmTransferTwiml({
+      target: { kind: 'sip', address: 'sip:desk@example.sip.twilio.com' },
+      callerNumber: '+19185551234',
+      callbackBaseUrl: 'https://example.com',
+      summary: 'Call from Dana',
+    });
+    expect(sip).toContain('>sip:desk@example.sip.twilio.com</Sip>');
+  });
+});
@@ -1,11 +1,17 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { handleAiVoiceRequest, buildAiVoiceErrorTwiML } from '../services/aiVoiceSession';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  handleAiVoiceRequest,
+  buildAiVoiceErrorTwiML,
+  signAiVoiceStreamToken,
+  verifyAiVoiceStreamToken,
+} from '../services/aiVoiceSession';
 import type { AiVoiceRequestContext } from '../services/aiVoiceSession';
 
 /**
  * Unit Tests for AI Voice Session Service (Phase 4)
  * 
- * Tests the placeholder TwiML generation for AI voice calls
+ * Tests the TwiML that greets AI voice calls and connects them to the
+ * media stream, and the fallback when streaming is unavailable
  */
 
 describe('AI Voice Session Service - Unit Tests (Phase 4)', () => {
@@ -148,6 +154,66 @@ describe('AI Voice Session Service - Unit Tests (Phase 4)', () => {
     });
   });
 
+  describe('media stream connection', () => {
+    const originalKey = process.env.OPENAI_API_KEY;
+    const originalAuthToken = process.env.TWILIO_AUTH_TOKEN;
+    const originalSessionSecret = process.env.SESSION_SECRET;
+
+    beforeEach(() => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.SESSION_SECRET = 'test-session-secret';
+    });
+
+    afterEach(() => {
+      if (originalKey === undefined) delete process.env.OPENAI_API_KEY;
+      else process.env.OPENAI_API_KEY = originalKey;
+      if (originalAuthToken === undefined) delete process.env.TWILIO_AUTH_TOKEN;
+      else process.env.TWILIO_AUTH_TOKEN = originalAuthToken;
+      if (originalSessionSecret === undefined) delete process.env.SESSION_SECRET;
+      else process.env.SESSION_SECRET = originalSessionSecret;
+    });
+
+    it('should connect the call to a signed media stream', async () => {
+      const result = await handleAiVoiceRequest({ ...mockContext, callbackBaseUrl: 'https://example.com' });
+
+      expect(result.twiml).toContain('<Connect>');
+      expect(result.twiml).toContain('<Stream url="wss://example.com/twilio/voice/ai/stream">');
+      expect(result.twiml).toContain('<Parameter name="tenantId" value="test-tenant"/>');
+      expect(result.twiml).toContain('<Parameter name="from" value="+14155551234"/>');
+      const token = signAiVoiceStreamToken('test-tenant', 'CA1234567890abcdef');
+      expect(result.twiml).toContain(`<Parameter name="token" value="${token}"/>`);
+      expect(result.twiml).toContain('<Hangup/>');
+    });
+
+    it('should fall back when there is no callback URL to stream to', async () => {
+      const result = await handleAiVoiceRequest(mockContext);
+
+      expect(result.twiml).not.toContain('<Connect>');
+      expect(result.twiml.toLowerCase()).toContain('text message');
+    });
+
+    it('should only accept stream tokens for the same tenant and call', () => {
+      const token = signAiVoiceStreamToken('test-tenant', 'CA1');
+
+      expect(verifyAiVoiceStreamToken('test-tenant', 'CA1', token)).toBe(true);
+      expect(verifyAiVoiceStreamToken('other-tenant', 'CA1', token)).toBe(false);
+      expect(verifyAiVoiceStreamToken('test-tenant', 'CA2', token)).toBe(false);
+      expect(verifyAiVoiceStreamToken('test-tenant', 'CA1', '')).toBe(false);
+    });
+
+    it('should refuse to stream without a signing secret', async () => {
+      const token = signAiVoiceStreamToken('test-tenant', 'CA1');
+      delete process.env.TWILIO_AUTH_TOKEN;
+      delete process.env.SESSION_SECRET;
+
+      expect(() => signAiVoiceStreamToken('test-tenant', 'CA1')).toThrow();
+      expect(verifyAiVoiceStreamToken('test-tenant', 'CA1', token)).toBe(false);
+
+      const result = await handleAiVoiceRequest({ ...mockContext, callbackBaseUrl: 'https://example.com' });
+      expect(result.twiml).not.toContain('<Connect>');
+    });
+  });
+
   describe('buildAiVoiceErrorTwiML', () => {
     it('should return valid TwiML for error messages', () => {
       const errorMessage = 'This line is not configured for AI voice.';
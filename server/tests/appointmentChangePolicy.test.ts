@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appointmentChangePolicySchema,
+  checkAppointmentChange,
+  type AppointmentChangePolicy,
+} from '@shared/appointmentChangePolicy';
+
+/**
+ * Unit Tests for the customer portal reschedule/cancel policy: minimum
+ * notice, reschedule cap and the late-cancel fee kept from the deposit
+ */
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const POLICY: AppointmentChangePolicy = { minNoticeHours: 24, lateCancelFee: 50, maxReschedules: 2 };
+
+function appointment(hoursAway: number, overrides: Record<string, any> = {}) {
+  return {
+    scheduledTime: new Date(NOW.getTime() + hoursAway * 60 * 60 * 1000),
+    status: 'confirmed',
+    rescheduleCount: 0,
+    depositPaid: true,
+    depositAmount: '75.00',
+    ...overrides,
+  };
+}
+
+describe('Appointment Change Policy - Unit Tests', () => {
+  it('should allow both changes with plenty of notice and refund the whole deposit', () => {
+    const check = checkAppointmentChange(appointment(72), POLICY, NOW);
+    expect(check).toMatchObject({
+      canReschedule: true,
+      canCancel: true,
+      isLateCancel: false,
+      lateCancelFee: 0,
+      depositRefund: 75,
+      reschedulesLeft: 2,
+    });
+  });
+
+  it('should refuse late reschedules but let late cancels through with the fee', () => {
+    const check = checkAppointmentChange(appointment(6), POLICY, NOW);
+    expect(check.canReschedule).toBe(false);
+    expect(check.rescheduleBlockedBy).toBe('min_notice');
+    expect(check.canCancel).toBe(true);
+    expect(check.isLateCancel).toBe(true);
+    expect(check.lateCancelFee).toBe(50);
+    expect(check.depositRefund).toBe(25);
+  });
+
+  it('should never charge more than the deposit actually paid', () => {
+    expect(checkAppointmentChange(appointment(6, { depositAmount: '30' }), POLICY, NOW))
+      .toMatchObject({ lateCancelFee: 30, depositRefund: 0 });
+    expect(checkAppointmentChange(appointment(6, { depositPaid: false }), POLICY, NOW))
+      .toMatchObject({ isLateCancel: true, lateCancelFee: 0, depositRefund: 0 });
+  });
+
+  it('should cap reschedules and lock appointments once work has started', () => {
+    expect(checkAppointmentChange(appointment(72, { rescheduleCount: 2 }), POLICY, NOW)).toMatchObject({
+      canReschedule: false,
+      rescheduleBlockedBy: 'max_reschedules',
+      canCancel: true,
+    });
+
+    const enRoute = checkAppointmentChange(appointment(1, { status: 'en_route' }), POLICY, NOW);
+    expect(enRoute.cancelBlockedBy).toBe('not_changeable');
+    expect(enRoute.rescheduleBlockedBy).toBe('not_changeable');
+
+    expect(checkAppointmentChange(appointment(-1), POLICY, NOW).cancelBlockedBy).toBe('past');
+  });
+
+  it('should validate the policy staff save from portal settings', () => {
+    expect(appointmentChangePolicySchema.safeParse(POLICY).success).toBe(true);
+    expect(appointmentChangePolicySchema.safeParse({ ...POLICY, minNoticeHours: 0, maxReschedules: 0 }).success).toBe(true);
+    expect(appointmentChangePolicySchema.safeParse({ ...POLICY, minNoticeHours: 12.5 }).success).toBe(false);
+    expect(appointmentChangePolicySchema.safeParse({ ...POLICY, lateCancelFee: -5 }).success).toBe(false);
+    expect(appointmentChangePolicySchema.safeParse({ ...POLICY, maxReschedules: 11 }).success).toBe(false);
+    expect(appointmentChangePolicySchema.safeParse({ minNoticeHours: 24 }).success).toBe(false);
+  });
+});
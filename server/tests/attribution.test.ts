@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bookingSource,
+  channelForPlatform,
+  formatAttributionCode,
+  parseAttributionCode,
+  sourceFromLanding,
+  summarizeAttribution,
+  withAttributionCode,
+  type AttributedBooking,
+} from '@shared/attribution';
+
+/**
+ * Unit Tests for booking attribution: tracked link codes, landing-page
+ * source detection, booking sources and the revenue roll-up under last and
+ * first touch
+ */
+
+describe('Booking Attribution - Unit Tests', () => {
+  it('should round-trip campaign codes and reject unknown ones', () => {
+    expect(formatAttributionCode({ channel: 'sms_campaign', campaignId: 12 })).toBe('sms_campaign.12');
+    expect(formatAttributionCode({ channel: 'facebook' })).toBe('facebook');
+
+    expect(parseAttributionCode('sms_campaign.12')).toEqual({ channel: 'sms_campaign', campaignId: 12 });
+    expect(parseAttributionCode('facebook')).toEqual({ channel: 'facebook' });
+    expect(parseAttributionCode('tiktok.3')).toBeNull();
+    expect(parseAttributionCode('journey.abc')).toBeNull();
+    expect(parseAttributionCode('')).toBeNull();
+  });
+
+  it('should add the code to booking links with or without a query', () => {
+    expect(withAttributionCode('https://example.com/book', { channel: 'journey', campaignId: 4 }))
+      .toBe('https://example.com/book?src=journey.4');
+    expect(withAttributionCode('https://example.com/book?promo=spring', { channel: 'port_recovery', campaignId: 2 }))
+      .toBe('https://example.com/book?promo=spring&src=port_recovery.2');
+  });
+
+  it('should detect the landing source in priority order', () => {
+    expect(sourceFromLanding({ src: 'email_campaign.7', ref: 'JOHN-ABC' })).toEqual({ channel: 'email_campaign', campaignId: 7 });
+    expect(sourceFromLanding({ ref: 'john-abc', utmSource: 'facebook' })).toEqual({ channel: 'referral', referrer: 'JOHN-ABC' });
+    expect(sourceFromLanding({ utmSource: 'FB', utmCampaign: 'spring' })).toEqual({ channel: 'facebook', referrer: 'fb', detail: 'spring' });
+    expect(sourceFromLanding({ referrerHost: 'l.facebook.com', ownHost: 'example.com' })).toEqual({ channel: 'facebook', referrer: 'l.facebook.com' });
+    expect(sourceFromLanding({ referrerHost: 'www.google.com', ownHost: 'example.com' })).toEqual({ channel: 'site', referrer: 'google.com' });
+  });
+
+  it('should ignore internal navigation and empty landings', () => {
+    expect(sourceFromLanding({ referrerHost: 'www.example.com', ownHost: 'example.com' })).toBeNull();
+    expect(sourceFromLanding({})).toBeNull();
+    expect(sourceFromLanding({ src: 'bogus' })).toBeNull();
+  });
+
+  it('should take the booking page source, then the referral code', () => {
+    expect(bookingSource({ channel: 'sms_campaign', campaignId: 3 }, 'JOHN-ABC')).toEqual({ channel: 'sms_campaign', campaignId: 3 });
+    expect(bookingSource({ channel: 'nope' }, ' jane-xyz ')).toEqual({ channel: 'referral', referrer: 'JANE-XYZ' });
+    expect(bookingSource({ channel: 'direct' }, null)).toBeNull();
+    expect(bookingSource(undefined)).toBeNull();
+
+    expect(channelForPlatform('facebook')).toBe('facebook');
+    expect(channelForPlatform('web')).toBe('chat');
+    expect(channelForPlatform('email')).toBe('direct');
+  });
+
+  it('should roll revenue up by campaign under last and first touch', () => {
+    const bookings: AttributedBooking[] = [
+      { appointmentId: 1, lastTouch: { channel: 'sms_campaign', campaignId: 5 }, firstTouch: { channel: 'facebook', referrer: 'facebook.com' }, revenue: 200 },
+      { appointmentId: 2, lastTouch: { channel: 'sms_campaign', campaignId: 5 }, firstTouch: { channel: 'sms_campaign', campaignId: 5 }, revenue: 0 },
+      { appointmentId: 3, lastTouch: { channel: 'referral', referrer: 'JOHN-ABC' }, firstTouch: null, revenue: 150.555 },
+      { appointmentId: 4, lastTouch: null, firstTouch: null, revenue: 80 },
+    ];
+
+    const lastTouch = summarizeAttribution(bookings, 'last_touch', 'campaign');
+    expect(lastTouch.map(row => [row.key, row.bookings, row.paidBookings, row.revenue])).toEqual([
+      ['sms_campaign.5', 2, 1, 200],
+      ['referral', 1, 1, 150.56],
+      ['direct', 1, 1, 80],
+    ]);
+    expect(lastTouch[0]).toMatchObject({ channel: 'sms_campaign', campaignId: 5, label: 'SMS campaign #5' });
+
+    const firstTouch = summarizeAttribution(bookings, 'first_touch', 'channel');
+    expect(firstTouch.map(row => [row.key, row.bookings, row.revenue])).toEqual([
+      ['facebook', 1, 200],
+      ['referral', 1, 150.56],
+      ['direct', 1, 80],
+      ['sms_campaign', 1, 0],
+    ]);
+
+    const byReferrer = summarizeAttribution(bookings, 'last_touch', 'referrer');
+    expect(byReferrer.find(row => row.key === 'referral:JOHN-ABC')).toMatchObject({ referrer: 'JOHN-ABC', label: 'JOHN-ABC (Referral)' });
+  });
+});
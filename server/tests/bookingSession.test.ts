@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BOOKING_SESSION_TTL_HOURS,
+  createSchedulingInfo,
+  isBookingSessionExpired,
+  mergeSchedulingInfo,
+  resetSchedulingInfo,
+  reviveSchedulingInfo,
+  type SchedulingInfo,
+} from '@shared/bookingSession';
+
+/**
+ * Unit Tests for booking session state, expiry and reset
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+function bookedState(): SchedulingInfo {
+  const at = new Date('2026-03-01T15:00:00Z');
+  return mergeSchedulingInfo(createSchedulingInfo('+15551234567', at), {
+    customerName: 'Dana',
+    customerEmail: 'dana@example.com',
+    isExistingCustomer: true,
+    address: '12 Main St',
+    addressValidated: true,
+    isInServiceArea: true,
+    driveTimeMinutes: 18,
+    service: 'Full Detail',
+    selectedTimeSlot: 'Tue 10:00 AM',
+    addOns: ['Pet Hair Removal'],
+    vehicles: [{ year: '2020', make: 'Honda', model: 'CR-V' }],
+    stepsCompleted: {
+      customerIdentified: true,
+      addressValidated: true,
+      serviceSelected: true,
+      timeSlotSelected: true,
+      upsellsOffered: true,
+      finalConfirmation: false,
+    },
+  }, at);
+}
+
+describe('Booking Session - Unit Tests', () => {
+  it('should merge updates without dropping completed steps', () => {
+    const now = new Date('2026-03-01T16:00:00Z');
+    const state = mergeSchedulingInfo(
+      createSchedulingInfo('+15551234567'),
+      { customerName: 'Dana', stepsCompleted: { customerIdentified: true } as SchedulingInfo['stepsCompleted'] },
+      now
+    );
+    const next = mergeSchedulingInfo(state, { service: 'Full Detail' }, now);
+
+    expect(next.customerName).toBe('Dana');
+    expect(next.service).toBe('Full Detail');
+    expect(next.stepsCompleted.customerIdentified).toBe(true);
+    expect(next.stepsCompleted.serviceSelected).toBe(false);
+    expect(next.lastUpdated).toBe(now);
+  });
+
+  it('should expire sessions idle longer than the TTL', () => {
+    const now = Date.parse('2026-03-02T12:00:00Z');
+    expect(isBookingSessionExpired(new Date(now - (BOOKING_SESSION_TTL_HOURS - 1) * HOUR), now)).toBe(false);
+    expect(isBookingSessionExpired(new Date(now - (BOOKING_SESSION_TTL_HOURS + 1) * HOUR), now)).toBe(true);
+    expect(isBookingSessionExpired(new Date(now - (BOOKING_SESSION_TTL_HOURS + 1) * HOUR).toISOString(), now)).toBe(true);
+    expect(isBookingSessionExpired(null, now)).toBe(false);
+    expect(isBookingSessionExpired('not a date', now)).toBe(true);
+  });
+
+  it('should keep who the customer is but drop the booking on reset', () => {
+    const reset = resetSchedulingInfo(bookedState());
+
+    expect(reset.customerPhone).toBe('+15551234567');
+    expect(reset.customerName).toBe('Dana');
+    expect(reset.customerEmail).toBe('dana@example.com');
+    expect(reset.vehicles).toEqual([{ year: '2020', make: 'Honda', model: 'CR-V' }]);
+    expect(reset.address).toBeUndefined();
+    expect(reset.service).toBeUndefined();
+    expect(reset.selectedTimeSlot).toBeUndefined();
+    expect(reset.addOns).toBeUndefined();
+    expect(reset.stepsCompleted).toEqual({
+      customerIdentified: true,
+      addressValidated: false,
+      serviceSelected: false,
+      timeSlotSelected: false,
+      upsellsOffered: false,
+      finalConfirmation: false,
+    });
+  });
+
+  it('should carry a preserved address and new service into the reset session', () => {
+    const sameAddress = resetSchedulingInfo(bookedState(), { preserveAddress: '12 Main St', newService: 'Interior Detail' });
+    expect(sameAddress.address).toBe('12 Main St');
+    expect(sameAddress.driveTimeMinutes).toBe(18);
+    expect(sameAddress.stepsCompleted.addressValidated).toBe(true);
+    expect(sameAddress.service).toBe('Interior Detail');
+    expect(sameAddress.stepsCompleted.serviceSelected).toBe(true);
+
+    // A different address has not been validated yet
+    const newAddress = resetSchedulingInfo(bookedState(), { preserveAddress: '99 Oak Ave' });
+    expect(newAddress.address).toBe('99 Oak Ave');
+    expect(newAddress.addressValidated).toBeUndefined();
+    expect(newAddress.stepsCompleted.addressValidated).toBe(false);
+  });
+
+  it('should revive state read back from JSON', () => {
+    const stored = JSON.parse(JSON.stringify(bookedState()));
+    const revived = reviveSchedulingInfo(stored, '+15551234567');
+
+    expect(revived.lastUpdated).toBeInstanceOf(Date);
+    expect(revived.lastUpdated.toISOString()).toBe('2026-03-01T15:00:00.000Z');
+    expect(revived.stepsCompleted.upsellsOffered).toBe(true);
+
+    const empty = reviveSchedulingInfo({}, '+15559876543');
+    expect(empty.customerPhone).toBe('+15559876543');
+    expect(empty.stepsCompleted.customerIdentified).toBe(false);
+    expect(reviveSchedulingInfo(null, '+15559876543').customerPhone).toBe('+15559876543');
+  });
+});
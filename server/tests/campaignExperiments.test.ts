@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateExperiment,
+  experimentSettingsSchema,
+  normalCdf,
+  splitIntoTestCells,
+  twoProportionPValue,
+  type VariantCounts,
+} from '@shared/campaignExperiments';
+
+/**
+ * Unit Tests for campaign A/B tests: splitting the list into test cells,
+ * the two-proportion significance test and winner selection
+ */
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function variant(variantId: number, label: string, recipients: number, counts: Partial<VariantCounts> = {}): VariantCounts {
+  return { variantId, label, recipients, replies: 0, clicks: 0, bookings: 0, optOuts: 0, ...counts };
+}
+
+describe('Campaign A/B Tests - Unit Tests', () => {
+  it('should fill in default settings', () => {
+    expect(experimentSettingsSchema.parse({})).toEqual({
+      samplePercent: 20,
+      winnerMetric: 'replies',
+      decideAfterHours: 24,
+      attributionDays: 7,
+    });
+    expect(experimentSettingsSchema.safeParse({ samplePercent: 5 }).success).toBe(false);
+  });
+
+  it('should split a sample evenly into cells and hold back the rest', () => {
+    const ids = Array.from({ length: 100 }, (_, i) => i);
+    const { cells, holdout } = splitIntoTestCells(ids, 2, 20, seededRandom(7));
+
+    expect(cells.map(cell => cell.length)).toEqual([10, 10]);
+    expect(holdout).toHaveLength(80);
+    expect([...cells.flat(), ...holdout].sort((a, b) => a - b)).toEqual(ids);
+
+    // Same seed, same split
+    expect(splitIntoTestCells(ids, 2, 20, seededRandom(7)).cells).toEqual(cells);
+  });
+
+  it('should give every cell a recipient on small lists and take everyone at 100%', () => {
+    const small = splitIntoTestCells(['a', 'b', 'c', 'd', 'e'], 3, 10, seededRandom(1));
+    expect(small.cells.map(cell => cell.length)).toEqual([1, 1, 1]);
+    expect(small.holdout).toHaveLength(2);
+
+    const all = splitIntoTestCells(['a', 'b', 'c', 'd', 'e'], 2, 100, seededRandom(1));
+    expect(all.cells.map(cell => cell.length)).toEqual([3, 2]);
+    expect(all.holdout).toEqual([]);
+  });
+
+  it('should compute normal tail probabilities and two-proportion p-values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+
+    expect(twoProportionPValue(10, 100, 10, 100)).toBeCloseTo(1, 6);
+    expect(twoProportionPValue(30, 100, 10, 100)).toBeLessThan(0.001);
+    expect(twoProportionPValue(12, 100, 10, 100)).toBeGreaterThan(0.5);
+    expect(twoProportionPValue(0, 0, 5, 50)).toBe(1);
+    expect(twoProportionPValue(0, 50, 0, 50)).toBe(1);
+  });
+
+  it('should pick a significant leader and report p-values against it', () => {
+    const evaluation = evaluateExperiment([
+      variant(1, 'A', 200, { replies: 10 }),
+      variant(2, 'B', 200, { replies: 40 }),
+    ], 'replies');
+
+    expect(evaluation.leaderId).toBe(2);
+    expect(evaluation.significant).toBe(true);
+    expect(evaluation.variants[0].rate).toBeCloseTo(0.05, 6);
+    expect(evaluation.variants[0].pValue).toBeLessThan(0.05);
+    expect(evaluation.variants[1].pValue).toBeNull();
+  });
+
+  it('should fall back to variant A on ties and flag close results as not significant', () => {
+    const tied = evaluateExperiment([
+      variant(1, 'A', 50, { clicks: 5 }),
+      variant(2, 'B', 50, { clicks: 5 }),
+    ], 'clicks');
+    expect(tied.leaderId).toBe(1);
+    expect(tied.significant).toBe(false);
+
+    const close = evaluateExperiment([
+      variant(1, 'A', 100, { bookings: 4 }),
+      variant(2, 'B', 100, { bookings: 6 }),
+      variant(3, 'C', 0),
+    ], 'bookings');
+    expect(close.leaderId).toBe(2);
+    expect(close.significant).toBe(false);
+  });
+
+  it('should treat fewer opt-outs as better', () => {
+    const evaluation = evaluateExperiment([
+      variant(1, 'A', 300, { optOuts: 30 }),
+      variant(2, 'B', 300, { optOuts: 3 }),
+    ], 'opt_outs');
+
+    expect(evaluation.leaderId).toBe(2);
+    expect(evaluation.significant).toBe(true);
+  });
+});
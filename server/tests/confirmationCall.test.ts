@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildConfirmationCallTwiml,
+  buildConfirmationResultTwiml,
+  buildConfirmationVoicemailTwiml,
+  confirmationCallSettingsSchema,
+  isDueForConfirmationCall,
+  parseConfirmationChoice,
+} from '@shared/confirmationCall';
+
+/**
+ * Unit Tests for appointment confirmation calls: who is due a call, reading
+ * the caller's answer and the TwiML script
+ */
+
+const NOW = new Date('2026-03-10T15:00:00Z');
+const hoursFromNow = (hours: number) => new Date(NOW.getTime() + hours * 60 * 60 * 1000);
+const SCRIPT = {
+  businessName: 'Clean Machine',
+  serviceName: 'Full Detail',
+  appointmentTime: 'Wednesday, March 11 at 9:00 AM',
+};
+
+describe('Confirmation Calls - Unit Tests', () => {
+  it('should only call pending appointments inside the lead window', () => {
+    expect(isDueForConfirmationCall({ scheduledTime: hoursFromNow(20), status: 'pending' }, [], NOW, 24)).toBe(true);
+    expect(isDueForConfirmationCall({ scheduledTime: hoursFromNow(20), status: null }, [], NOW, 24)).toBe(true);
+    expect(isDueForConfirmationCall({ scheduledTime: hoursFromNow(20), status: 'confirmed' }, [], NOW, 24)).toBe(false);
+    expect(isDueForConfirmationCall({ scheduledTime: hoursFromNow(30), status: 'pending' }, [], NOW, 24)).toBe(false);
+    // Starting within the hour - too late to bother calling
+    expect(isDueForConfirmationCall({ scheduledTime: hoursFromNow(0.5), status: 'pending' }, [], NOW, 24)).toBe(false);
+  });
+
+  it('should retry unanswered calls after a gap, up to the attempt limit', () => {
+    const appointment = { scheduledTime: hoursFromNow(20), status: 'pending' };
+    const noAnswer = (hoursAgo: number) => ({ createdAt: hoursFromNow(-hoursAgo), status: 'no-answer', outcome: null });
+
+    expect(isDueForConfirmationCall(appointment, [noAnswer(1)], NOW, 24)).toBe(false);
+    expect(isDueForConfirmationCall(appointment, [noAnswer(3)], NOW, 24)).toBe(true);
+    expect(isDueForConfirmationCall(appointment, [noAnswer(6), noAnswer(3)], NOW, 24)).toBe(false);
+    // An answer on an earlier call (even reschedule) means no more calls
+    expect(isDueForConfirmationCall(
+      appointment,
+      [{ createdAt: hoursFromNow(-3), status: 'completed', outcome: 'reschedule_requested' }],
+      NOW,
+      24
+    )).toBe(false);
+  });
+
+  it('should read key presses before speech and prefer reschedule over a bare yes', () => {
+    expect(parseConfirmationChoice('1', 'I need to reschedule')).toBe('confirm');
+    expect(parseConfirmationChoice('2')).toBe('reschedule');
+    expect(parseConfirmationChoice('3')).toBe('transfer');
+    expect(parseConfirmationChoice('9')).toBeNull();
+
+    expect(parseConfirmationChoice(null, 'One.')).toBe('confirm');
+    expect(parseConfirmationChoice(null, 'Yes, confirm please')).toBe('confirm');
+    expect(parseConfirmationChoice(null, 'Yes but I need to reschedule')).toBe('reschedule');
+    expect(parseConfirmationChoice(null, 'Can I talk to someone')).toBe('transfer');
+    expect(parseConfirmationChoice(null, 'hmm')).toBeNull();
+    expect(parseConfirmationChoice('', '')).toBeNull();
+  });
+
+  it('should gather an answer and come back to the same handler on silence', () => {
+    const twiml = buildConfirmationCallTwiml(SCRIPT, 'https://example.com/twilio/voice/confirmation-call', 1);
+    expect(twiml).toContain('Clean Machine calling about your Full Detail appointment on Wednesday, March 11 at 9:00 AM');
+    expect(twiml).toContain('<Gather input="dtmf speech"');
+    expect(twiml).toContain('action="https://example.com/twilio/voice/confirmation-call?attempt=1"');
+    expect(twiml).toContain('<Redirect method="POST">https://example.com/twilio/voice/confirmation-call?attempt=1</Redirect>');
+
+    const retry = buildConfirmationCallTwiml(SCRIPT, 'https://example.com/twilio/voice/confirmation-call', 2);
+    expect(retry).toContain('didn&apos;t catch that');
+    expect(retry).not.toContain('Full Detail');
+  });
+
+  it('should dial staff for a transfer and otherwise say goodbye', () => {
+    expect(buildConfirmationVoicemailTwiml(SCRIPT)).toContain('<Hangup/>');
+    expect(buildConfirmationResultTwiml('confirm', {})).toContain('your appointment is confirmed');
+    expect(buildConfirmationResultTwiml('reschedule', {})).toContain('text you now');
+
+    const transfer = buildConfirmationResultTwiml('transfer', { transferNumber: '+15125550100', callerId: '+15125550199' });
+    expect(transfer).toContain('<Dial timeout="25" callerId="+15125550199">+15125550100</Dial>');
+    expect(buildConfirmationResultTwiml('transfer', { transferNumber: null })).toContain('call you back');
+    expect(buildConfirmationResultTwiml(null, {})).toContain('couldn&apos;t get your answer');
+  });
+
+  it('should only accept lead times that leave room for a retry', () => {
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: true, leadHours: 24 }).success).toBe(true);
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: false, leadHours: 3 }).success).toBe(true);
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: true, leadHours: 2 }).success).toBe(false);
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: true, leadHours: 96 }).success).toBe(false);
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: true, leadHours: 12.5 }).success).toBe(false);
+    expect(confirmationCallSettingsSchema.safeParse({ enabled: 'yes', leadHours: 24 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  consentHistoryToCsv,
+  consentPurposeForSend,
+  resolveConsentDecision,
+  summarizeConsent,
+  type ConsentHistoryRow,
+} from '@shared/consentLedger';
+
+/**
+ * Unit Tests for the consent ledger decision logic
+ */
+
+const event = (
+  channel: string,
+  purpose: string,
+  granted: boolean,
+  recordedAt: string,
+  id = 1
+) => ({ id, channel, purpose, granted, recordedAt: new Date(recordedAt) });
+
+describe('Consent Ledger - Unit Tests', () => {
+  it('should let the latest event for a channel and purpose win', () => {
+    const events = [
+      event('sms', 'marketing', true, '2025-01-01T00:00:00Z', 1),
+      event('sms', 'marketing', false, '2025-02-01T00:00:00Z', 2),
+      event('sms', 'reminders', true, '2025-03-01T00:00:00Z', 3),
+    ];
+    const decision = resolveConsentDecision(events, 'sms', 'marketing');
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toBe('revoked');
+    expect(resolveConsentDecision(events, 'sms', 'reminders').allowed).toBe(true);
+  });
+
+  it('should break same-timestamp ties by id', () => {
+    const events = [
+      event('email', 'marketing', false, '2025-01-01T00:00:00Z', 8),
+      event('email', 'marketing', true, '2025-01-01T00:00:00Z', 7),
+    ];
+    expect(resolveConsentDecision(events, 'email', 'marketing').allowed).toBe(false);
+  });
+
+  it('should fall back to the legacy smsConsent flag when the ledger is empty', () => {
+    expect(resolveConsentDecision([], 'sms', 'marketing', { smsConsent: true }).reason).toBe('legacy_opt_in');
+    expect(resolveConsentDecision([], 'sms', 'reminders', { smsConsent: false }).allowed).toBe(false);
+    expect(resolveConsentDecision([], 'sms', 'marketing').reason).toBe('no_consent');
+  });
+
+  it('should allow transactional messages unless explicitly revoked', () => {
+    expect(resolveConsentDecision([], 'sms', 'transactional', { smsConsent: false }).allowed).toBe(true);
+
+    const stopped = [event('sms', 'transactional', false, '2025-01-01T00:00:00Z')];
+    expect(resolveConsentDecision(stopped, 'sms', 'transactional').allowed).toBe(false);
+  });
+
+  it('should require explicit consent for voice marketing only', () => {
+    expect(resolveConsentDecision([], 'voice', 'marketing').allowed).toBe(false);
+    expect(resolveConsentDecision([], 'voice', 'reminders').allowed).toBe(true);
+    expect(resolveConsentDecision([], 'email', 'marketing').reason).toBe('opt_out_default');
+  });
+
+  it('should map send purposes onto consent purposes', () => {
+    expect(consentPurposeForSend('sms_campaign')).toBe('marketing');
+    expect(consentPurposeForSend('appointment_reminder')).toBe('reminders');
+    expect(consentPurposeForSend('booking_confirmation')).toBe('transactional');
+    expect(consentPurposeForSend('admin_alert')).toBeNull();
+  });
+
+  it('should summarize every channel and purpose', () => {
+    const summary = summarizeConsent([event('push', 'marketing', false, '2025-01-01T00:00:00Z')]);
+    expect(summary.push.marketing.allowed).toBe(false);
+    expect(summary.push.reminders.allowed).toBe(true);
+    expect(Object.keys(summary)).toEqual(['sms', 'email', 'push', 'voice']);
+  });
+
+  it('should export history as CSV oldest first with escaped evidence', () => {
+    const base = { customerId: 4, phone: '+19185550100', email: null, recordedBy: null };
+    const rows: ConsentHistoryRow[] = [
+      { ...base, ...event('sms', 'marketing', false, '2025-02-01T00:00:00Z', 2), source: 'keyword', evidence: { keyword: 'STOP' } },
+      { ...base, ...event('sms', 'marketing', true, '2025-01-01T00:00:00Z', 1), source: 'web_form', evidence: null },
+    ];
+    const lines = consentHistoryToCsv(rows).split('\n');
+    expect(lines[0]).toBe('recordedAt,customerId,phone,email,channel,purpose,granted,source,recordedBy,evidence');
+    expect(lines[1]).toBe('2025-01-01T00:00:00.000Z,4,+19185550100,,sms,marketing,true,web_form,,');
+    expect(lines[2]).toBe('2025-02-01T00:00:00.000Z,4,+19185550100,,sms,marketing,false,keyword,,"{""keyword"":""STOP""}"');
+  });
+});
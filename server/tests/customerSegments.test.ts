@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SEGMENT_RULES,
+  describeSegmentDefinition,
+  extractZip,
+  pickOnePerHousehold,
+  segmentDefinitionSchema,
+  zipMatches,
+} from '@shared/customerSegments';
+
+/**
+ * Unit Tests for customer segments: definition validation and limits, ZIP
+ * matching against free-text addresses, household de-duplication and the
+ * one-line summaries shown in campaign pickers
+ */
+
+describe('Customer Segments - Unit Tests', () => {
+  it('should accept nested definitions and fill in defaults', () => {
+    const parsed = segmentDefinitionSchema.parse({
+      rules: [
+        { type: 'last_appointment', op: 'before', daysAgo: 90 },
+        {
+          type: 'group',
+          match: 'any',
+          rules: [
+            { type: 'loyalty_tier', tiers: ['gold', 'platinum'] },
+            { type: 'vip', value: true },
+          ],
+        },
+        { type: 'vehicle' },
+      ],
+    });
+
+    expect(parsed.match).toBe('all');
+    expect(parsed.onePerHousehold).toBe(false);
+    expect(parsed.rules[2]).toEqual({ type: 'vehicle', classes: [], makes: [] });
+  });
+
+  it('should reject unknown rules, bad ZIPs and definitions over the limits', () => {
+    expect(segmentDefinitionSchema.safeParse({ rules: [{ type: 'birthday' }] }).success).toBe(false);
+    expect(segmentDefinitionSchema.safeParse({ rules: [{ type: 'zip', zips: ['7410'] }] }).success).toBe(false);
+    expect(segmentDefinitionSchema.safeParse({ rules: [{ type: 'tag', tagIds: [] }] }).success).toBe(false);
+
+    const tooMany = Array.from({ length: MAX_SEGMENT_RULES + 1 }, () => ({ type: 'vip', value: true }));
+    const manyResult = segmentDefinitionSchema.safeParse({ rules: tooMany });
+    expect(manyResult.success).toBe(false);
+    expect(manyResult.error?.errors[0].message).toContain(`${MAX_SEGMENT_RULES} rules`);
+
+    const nest = (depth: number): any =>
+      depth === 0 ? { type: 'vip', value: true } : { type: 'group', match: 'all', rules: [nest(depth - 1)] };
+    expect(segmentDefinitionSchema.safeParse({ rules: [nest(2)] }).success).toBe(true);
+    expect(segmentDefinitionSchema.safeParse({ rules: [nest(3)] }).success).toBe(false);
+  });
+
+  it('should read the ZIP at the end of an address and match exact ZIPs or 3-digit areas', () => {
+    expect(extractZip('123 Main St, Tulsa, OK 74103')).toBe('74103');
+    expect(extractZip('9 Elm Ave, Broken Arrow, OK 74012-1234, USA')).toBe('74012');
+    expect(extractZip('Suite 74103, Tulsa')).toBeNull();
+    expect(extractZip(null)).toBeNull();
+
+    expect(zipMatches('74103', ['74103'])).toBe(true);
+    expect(zipMatches('74012', ['741'])).toBe(false);
+    expect(zipMatches('74012', ['740', '741'])).toBe(true);
+    expect(zipMatches(null, ['741'])).toBe(false);
+  });
+
+  it('should keep the lowest id per household and everyone without one', () => {
+    const rows = [
+      { id: 5, householdId: 1 },
+      { id: 2, householdId: 1 },
+      { id: 3, householdId: null },
+      { id: 4, householdId: 2 },
+      { id: 1, householdId: null },
+    ];
+
+    expect(pickOnePerHousehold(rows).map(row => row.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should describe definitions with tag and service names when known', () => {
+    const definition = segmentDefinitionSchema.parse({
+      match: 'all',
+      rules: [
+        { type: 'tag', tagIds: [7, 8] },
+        { type: 'service_history', serviceIds: [3], match: 'none', withinDays: 365 },
+        { type: 'group', match: 'any', rules: [{ type: 'vip', value: true }, { type: 'zip', zips: ['741'] }] },
+      ],
+    });
+
+    expect(describeSegmentDefinition(definition, {
+      tags: new Map([[7, 'Fleet']]),
+      services: new Map([[3, 'Ceramic Coating']]),
+    })).toBe('Tagged Fleet, #8 and Never had Ceramic Coating in the last 365 days and (VIP customers or In ZIP 741)');
+    expect(describeSegmentDefinition(segmentDefinitionSchema.parse({}))).toBe('All customers');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeInvoiceTotals,
+  invoiceDiscountInputSchema,
+  refundableAmount,
+  summarizeLedger,
+  type LedgerLine,
+  type TaxRates,
+} from '@shared/invoiceLedger';
+
+/**
+ * Unit Tests for invoice line totals, tax categories, discounts and the payments ledger
+ */
+
+const rates: TaxRates = { standard: 8.25, reduced: 4, exempt: 0 };
+
+const fullDetail: LedgerLine = { kind: 'service', quantity: 1, unitPrice: 200, taxCategory: 'standard' };
+const tireShine: LedgerLine = { kind: 'add_on', quantity: 2, unitPrice: 10, taxCategory: 'reduced' };
+const travelFee: LedgerLine = { kind: 'fee', quantity: 1, unitPrice: 30, taxCategory: 'exempt' };
+
+describe('Invoice Ledger - Unit Tests', () => {
+  it('should tax each line by its own category', () => {
+    const { lines, totals } = computeInvoiceTotals([fullDetail, tireShine, travelFee], rates);
+
+    expect(lines.map((line) => line.taxAmount)).toEqual([16.5, 0.8, 0]);
+    expect(totals).toEqual({ subtotal: 250, discountTotal: 0, taxTotal: 17.3, creditTotal: 0, total: 267.3 });
+  });
+
+  it('should spread pre-tax discounts across lines before computing tax', () => {
+    const referral: LedgerLine = { kind: 'discount', quantity: 1, unitPrice: 25, taxCategory: 'exempt', discountSource: 'referral' };
+    const { lines, totals } = computeInvoiceTotals([fullDetail, travelFee, referral], rates);
+
+    // $25 split 200:30 -> $21.74 off the taxable service line
+    expect(lines[0].taxAmount).toBe(14.71);
+    expect(lines[2]).toEqual({ amount: -25, taxAmount: 0 });
+    expect(totals.discountTotal).toBe(25);
+    expect(totals.total).toBe(219.71);
+  });
+
+  it('should apply store credit and gift cards after tax', () => {
+    const credit: LedgerLine = { kind: 'discount', quantity: 1, unitPrice: 50, taxCategory: 'exempt', discountSource: 'credit' };
+    const giftCard: LedgerLine = { kind: 'discount', quantity: 1, unitPrice: 20, taxCategory: 'exempt', discountSource: 'gift_card' };
+    const { totals } = computeInvoiceTotals([fullDetail, credit, giftCard], rates);
+
+    expect(totals.taxTotal).toBe(16.5);
+    expect(totals.creditTotal).toBe(70);
+    expect(totals.total).toBe(146.5);
+  });
+
+  it('should never take the total below zero', () => {
+    const promo: LedgerLine = { kind: 'discount', quantity: 1, unitPrice: 500, taxCategory: 'exempt', discountSource: 'promo' };
+    const credit: LedgerLine = { kind: 'discount', quantity: 1, unitPrice: 100, taxCategory: 'exempt', discountSource: 'credit' };
+    const { totals } = computeInvoiceTotals([travelFee, promo, credit], rates);
+
+    expect(totals.discountTotal).toBe(30);
+    expect(totals.creditTotal).toBe(0);
+    expect(totals.total).toBe(0);
+  });
+
+  it('should derive balance and status from partial payments', () => {
+    expect(summarizeLedger(267.3, [])).toMatchObject({ balanceDue: 267.3, paymentStatus: 'unpaid' });
+
+    const partial = summarizeLedger(267.3, [
+      { kind: 'payment', amount: 100, status: 'succeeded' },
+      { kind: 'payment', amount: 50, status: 'pending' },
+      { kind: 'payment', amount: 40, status: 'failed' },
+    ]);
+    expect(partial).toEqual({ amountPaid: 100, amountRefunded: 0, netPaid: 100, balanceDue: 167.3, paymentStatus: 'partial' });
+
+    const paid = summarizeLedger(267.3, [
+      { kind: 'payment', amount: 100, status: 'succeeded' },
+      { kind: 'payment', amount: 167.3, status: 'succeeded' },
+    ]);
+    expect(paid).toMatchObject({ balanceDue: 0, paymentStatus: 'paid' });
+  });
+
+  it('should keep partially refunded invoices paid and mark full refunds', () => {
+    const payment = { kind: 'payment' as const, amount: 200, status: 'succeeded' as const };
+
+    expect(summarizeLedger(200, [payment, { kind: 'refund', amount: 50, status: 'succeeded' }]))
+      .toMatchObject({ amountRefunded: 50, netPaid: 150, balanceDue: 0, paymentStatus: 'paid' });
+    expect(summarizeLedger(200, [{ ...payment, amount: 100 }, { kind: 'refund', amount: 40, status: 'succeeded' }]))
+      .toMatchObject({ balanceDue: 100, paymentStatus: 'partial' });
+    expect(summarizeLedger(200, [payment, { kind: 'refund', amount: 200, status: 'succeeded' }]))
+      .toMatchObject({ netPaid: 0, paymentStatus: 'refunded' });
+    expect(summarizeLedger(200, [payment, { kind: 'refund', amount: 200, status: 'pending' }]))
+      .toMatchObject({ paymentStatus: 'paid' });
+  });
+
+  it('should count pending refunds against what is still refundable', () => {
+    expect(refundableAmount(200, [])).toBe(200);
+    expect(refundableAmount(200, [
+      { kind: 'refund', amount: 50, status: 'succeeded' },
+      { kind: 'refund', amount: 25.5, status: 'pending' },
+      { kind: 'refund', amount: 100, status: 'failed' },
+    ])).toBe(124.5);
+  });
+
+  it('should validate discounts per source', () => {
+    expect(invoiceDiscountInputSchema.safeParse({ source: 'referral', code: 'JOHN-ABC123' }).success).toBe(true);
+    expect(invoiceDiscountInputSchema.safeParse({ source: 'credit' }).success).toBe(true);
+    expect(invoiceDiscountInputSchema.safeParse({ source: 'gift_card' }).success).toBe(false);
+    expect(invoiceDiscountInputSchema.safeParse({ source: 'manual', amount: -5, description: 'Oops' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findIvrFlowCycle,
+  ivrFlowDepth,
+  resolveEntryMenu,
+  resolveHoursBranch,
+  type IvrFlowMenu,
+  type IvrScheduleWindow,
+} from '@shared/ivrFlow';
+import { simulateIvrCall } from '../services/ivrSimulator';
+import type { IvrMenuWithItems } from '@shared/schema';
+
+/**
+ * Unit Tests for the IVR flow graph: loop and depth checks, business hours
+ * routing and the test call simulator
+ */
+
+const TZ = 'America/Chicago';
+// Weekdays 9-5
+const SCHEDULE: IvrScheduleWindow[] = [1, 2, 3, 4, 5].map(dayOfWeek => ({
+  dayOfWeek,
+  startTime: '09:00',
+  endTime: '17:00',
+  action: 'forward',
+}));
+const TUESDAY_NOON = new Date('2026-03-10T17:00:00Z'); // 12:00 CDT
+const TUESDAY_NIGHT = new Date('2026-03-11T03:00:00Z'); // 22:00 CDT
+
+function submenu(digit: string, submenuId: number) {
+  return { digit, label: `Menu ${submenuId}`, actionType: 'SUBMENU', actionPayload: { submenuId } };
+}
+
+function menu(id: number, overrides: Partial<IvrMenuWithItems> = {}): IvrMenuWithItems {
+  return {
+    id,
+    tenantId: 'root',
+    key: id === 1 ? 'main' : `menu_${id}`,
+    name: `Menu ${id}`,
+    greetingText: `Welcome to menu ${id}`,
+    noInputMessage: "We didn't hear anything.",
+    invalidInputMessage: "That's not an option.",
+    maxAttempts: 2,
+    voiceName: 'alice',
+    isActive: true,
+    hoursRouting: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    items: [],
+    ...overrides,
+  } as IvrMenuWithItems;
+}
+
+function item(menuId: number, digit: string, actionType: string, actionPayload: Record<string, any> = {}) {
+  return {
+    id: menuId * 100 + Number(digit),
+    menuId,
+    digit,
+    label: `${actionType} ${digit}`,
+    actionType,
+    actionPayload,
+    orderIndex: Number(digit),
+    isHidden: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as IvrMenuWithItems['items'][number];
+}
+
+describe('IVR Flow - Unit Tests', () => {
+  it('should find submenu and hours routing loops', () => {
+    const tree: IvrFlowMenu[] = [
+      { id: 1, name: 'Main', items: [submenu('1', 2), submenu('2', 3)] },
+      { id: 2, name: 'Sales', items: [submenu('1', 4)] },
+      { id: 3, name: 'Service', items: [submenu('1', 4)] },
+      { id: 4, name: 'Leaf', items: [] },
+    ];
+    expect(findIvrFlowCycle(tree)).toBeNull();
+    expect(ivrFlowDepth(tree, 1)).toBe(3);
+
+    const looped = tree.map(m => m.id === 4 ? { ...m, items: [submenu('9', 2)] } : m);
+    expect(findIvrFlowCycle(looped)).toEqual([2, 4, 2]);
+
+    const hoursLoop: IvrFlowMenu[] = [
+      { id: 1, name: 'Main', hoursRouting: { closedMenuId: 2 }, items: [] },
+      { id: 2, name: 'Closed', hoursRouting: { holidayMenuId: 1 }, items: [] },
+    ];
+    expect(findIvrFlowCycle(hoursLoop)).toEqual([1, 2, 1]);
+  });
+
+  it('should branch on schedule windows and holidays in the tenant timezone', () => {
+    expect(resolveHoursBranch(SCHEDULE, [], TUESDAY_NOON, TZ)).toBe('open');
+    expect(resolveHoursBranch(SCHEDULE, [], TUESDAY_NIGHT, TZ)).toBe('closed');
+    expect(resolveHoursBranch(SCHEDULE, ['2026-03-10'], TUESDAY_NOON, TZ)).toBe('holiday');
+    // 22:00 CDT on the 10th is already the 11th in UTC - holidays use the local date
+    expect(resolveHoursBranch(SCHEDULE, ['2026-03-11'], TUESDAY_NIGHT, TZ)).toBe('closed');
+    // No schedule means always open
+    expect(resolveHoursBranch([], undefined, TUESDAY_NIGHT, TZ)).toBe('open');
+  });
+
+  it('should follow closed and holiday routing to the menu that plays', () => {
+    const menus: IvrFlowMenu[] = [
+      { id: 1, name: 'Main', hoursRouting: { closedMenuId: 2, holidays: ['2026-03-10'] }, items: [] },
+      { id: 2, name: 'After hours', items: [] },
+    ];
+
+    expect(resolveEntryMenu(menus, 1, SCHEDULE, TUESDAY_NOON, TZ)).toEqual({
+      menu: menus[1],
+      hops: [{ menuId: 1, branch: 'holiday' }], // holiday falls back to the closed menu
+    });
+    expect(resolveEntryMenu(menus, 1, SCHEDULE, new Date('2026-03-12T17:00:00Z'), TZ)?.menu.id).toBe(1);
+    expect(resolveEntryMenu(menus, 99, SCHEDULE, TUESDAY_NOON, TZ)).toBeNull();
+  });
+
+  it('should simulate a call through a submenu into a department voicemail box', () => {
+    const menus = [
+      menu(1, { items: [item(1, '1', 'SUBMENU', { submenuId: 2 }), item(1, '9', 'REPLAY_MENU')] }),
+      menu(2, { name: 'Fleet', items: [item(2, '3', 'VOICEMAIL', { voicemailBoxId: 7 })] }),
+    ];
+
+    const result = simulateIvrCall({
+      menus,
+      entryMenuId: 1,
+      digits: ['9', '1', '3'],
+      schedules: SCHEDULE,
+      now: TUESDAY_NOON,
+      timezone: TZ,
+      callbackBaseUrl: 'https://example.com',
+      voicemailBoxes: [{ id: 7, name: 'Fleet Accounts', greetingText: 'Leave your fleet account number.', transcribe: true }],
+    });
+
+    expect(result.finished).toBe(true);
+    expect(result.steps.map(step => [step.kind, step.menuId])).toEqual([
+      ['menu', 1], ['digit', 1], ['menu', 1], ['digit', 1], ['menu', 2], ['digit', 2],
+    ]);
+    const voicemail = result.steps[result.steps.length - 1];
+    expect(voicemail.description).toContain('Fleet Accounts');
+    expect(voicemail.twiml).toContain('Leave your fleet account number.');
+    expect(voicemail.twiml).toContain('/twilio/voice/recording-status?boxId=7');
+  });
+
+  it('should show hours hops and hang up after too many invalid digits', () => {
+    const menus = [
+      menu(1, { hoursRouting: { closedMenuId: 2 }, items: [item(1, '1', 'REPLAY_MENU')] }),
+      menu(2, { name: 'After hours', items: [item(2, '1', 'REPLAY_MENU')] }),
+    ];
+
+    const result = simulateIvrCall({
+      menus,
+      entryMenuId: 1,
+      digits: ['5', '6', '7'],
+      schedules: SCHEDULE,
+      now: TUESDAY_NIGHT,
+      timezone: TZ,
+    });
+
+    expect(result.steps[0]).toMatchObject({ kind: 'hours', menuId: 1, branch: 'closed' });
+    expect(result.steps[1]).toMatchObject({ kind: 'menu', menuId: 2 });
+    expect(result.steps.slice(2).map(step => step.kind)).toEqual(['invalid', 'invalid']);
+    expect(result.steps[3].twiml).toContain('<Hangup/>');
+    expect(result.finished).toBe(true);
+
+    const waiting = simulateIvrCall({ menus, entryMenuId: 1, digits: [], schedules: SCHEDULE, now: TUESDAY_NOON, timezone: TZ });
+    expect(waiting.finished).toBe(false);
+    expect(waiting.steps).toHaveLength(1);
+  });
+});
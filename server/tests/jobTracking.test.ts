@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildJobTimeline,
+  computeEta,
+  minutesUntil,
+  progressIndex,
+  shouldNotifyCustomer,
+} from '@shared/jobTracking';
+
+/**
+ * Unit Tests for day-of job tracking
+ */
+
+const now = new Date('2025-06-02T15:00:00Z');
+
+describe('Job Tracking - Unit Tests', () => {
+  it('should place statuses on the timeline', () => {
+    expect(progressIndex('assigned')).toBe(0);
+    expect(progressIndex('completed')).toBe(4);
+    expect(progressIndex('paused')).toBe(progressIndex('in_progress'));
+    expect(progressIndex('confirmed')).toBe(-1);
+    expect(progressIndex('cancelled')).toBe(-1);
+    expect(progressIndex(null)).toBe(-1);
+  });
+
+  it('should text the customer only on forward moves to notifying steps', () => {
+    expect(shouldNotifyCustomer('assigned', 'en_route')).toBe(true);
+    expect(shouldNotifyCustomer('confirmed', 'en_route')).toBe(true);
+    expect(shouldNotifyCustomer('en_route', 'on_site')).toBe(true);
+    expect(shouldNotifyCustomer('in_progress', 'completed')).toBe(true);
+
+    // Re-tapping or stepping back doesn't resend
+    expect(shouldNotifyCustomer('en_route', 'en_route')).toBe(false);
+    expect(shouldNotifyCustomer('on_site', 'en_route')).toBe(false);
+    // Steps without a customer text
+    expect(shouldNotifyCustomer('on_site', 'in_progress')).toBe(false);
+    expect(shouldNotifyCustomer('en_route', 'paused')).toBe(false);
+  });
+
+  it('should round drive time up into an arrival time', () => {
+    const eta = computeEta(now, 13.2);
+    expect(eta?.etaMinutes).toBe(14);
+    expect(eta?.etaAt.toISOString()).toBe('2025-06-02T15:14:00.000Z');
+    expect(computeEta(now, 0)?.etaMinutes).toBe(1);
+    expect(computeEta(now, null)).toBeNull();
+    expect(computeEta(now, NaN)).toBeNull();
+  });
+
+  it('should count down to a stored ETA', () => {
+    expect(minutesUntil('2025-06-02T15:10:30Z', now)).toBe(11);
+    expect(minutesUntil('2025-06-02T14:50:00Z', now)).toBe(0);
+    expect(minutesUntil(null, now)).toBeNull();
+  });
+
+  it('should build the customer timeline from transition events', () => {
+    const timeline = buildJobTimeline('on_site', [
+      { status: 'on_site', createdAt: '2025-06-02T15:20:00Z' },
+      { status: 'en_route', createdAt: '2025-06-02T15:00:00Z' },
+      { status: 'en_route', createdAt: '2025-06-02T15:05:00Z' },
+    ]);
+
+    expect(timeline.map(step => step.state)).toEqual(['done', 'done', 'current', 'upcoming', 'upcoming']);
+    // Skipped steps count as done but have no time
+    expect(timeline[0].reachedAt).toBeNull();
+    // First time a step was reached wins
+    expect(timeline[1].reachedAt).toBe('2025-06-02T15:00:00.000Z');
+    expect(timeline[2].reachedAt).toBe('2025-06-02T15:20:00.000Z');
+    expect(timeline[3].reachedAt).toBeNull();
+  });
+
+  it('should mark every step done once the job is complete', () => {
+    const timeline = buildJobTimeline('completed', [{ status: 'completed', createdAt: now }]);
+    expect(timeline.every(step => step.state === 'done')).toBe(true);
+    expect(buildJobTimeline('confirmed', []).every(step => step.state === 'upcoming')).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Journey trigger scan - Integration Tests
+ *
+ * Trigger events that already produced an enrollment must not use up the
+ * per-pass scan limit, or a journey with more handled events than the limit
+ * never sees a new one again
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { db } from '../db';
+import { appointments, journeyEnrollments, journeys, type Journey } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { createTenantDb } from '../tenantDb';
+import { scanJourneyTriggers } from '../services/journeyService';
+import {
+  TENANT_A,
+  cleanupTestTenants,
+  createTestCustomer,
+  createTestService,
+  setupTestTenants,
+} from './setupTenantDb';
+
+const PRIOR_TRIGGERS = 600; // More than one scan pass looks at
+
+describe('Journey Trigger Scan - Integration Tests', () => {
+  const tenantDb = createTenantDb(TENANT_A);
+  const activatedAt = new Date('2026-01-01T00:00:00Z');
+  let journey: Journey;
+  let customerId: number;
+  let newAppointmentId: number;
+
+  beforeAll(async () => {
+    await setupTestTenants();
+    const customer = await createTestCustomer(TENANT_A, { name: 'Journey Test', phone: '+15125550142' });
+    const service = await createTestService(TENANT_A, { name: 'Full Detail' });
+    customerId = customer.id;
+
+    [journey] = await tenantDb.insert(journeys).values({
+      name: 'Thanks for your visit',
+      status: 'active',
+      trigger: 'job_completed',
+      definition: { entryStepId: 'pause', exitOn: [], steps: [{ id: 'pause', type: 'wait', days: 1, hours: 0, next: null }] },
+      allowReentry: true,
+      activatedAt,
+    }).returning() as Journey[];
+
+    const completed = (i: number) => ({
+      customerId,
+      serviceId: service.id,
+      scheduledTime: new Date(activatedAt.getTime() + i * 60 * 60 * 1000),
+      completedAt: new Date(activatedAt.getTime() + i * 60 * 60 * 1000),
+      address: '1 Main St, Austin',
+      status: 'completed',
+    });
+
+    // Every earlier visit already went through the journey
+    const prior = await tenantDb
+      .insert(appointments)
+      .values(Array.from({ length: PRIOR_TRIGGERS }, (_, i) => completed(i)))
+      .returning({ id: appointments.id });
+    await tenantDb.insert(journeyEnrollments).values(prior.map(row => ({
+      journeyId: journey.id,
+      customerId,
+      triggerKey: `appointment:${row.id}`,
+      status: 'completed',
+      currentStepId: null,
+      nextRunAt: null,
+      clickToken: `scan-test-${row.id}`,
+      finishedAt: new Date(),
+    })));
+
+    const [latest] = await tenantDb
+      .insert(appointments)
+      .values(completed(PRIOR_TRIGGERS))
+      .returning({ id: appointments.id });
+    newAppointmentId = latest.id;
+  });
+
+  afterAll(async () => {
+    await db.delete(journeys).where(eq(journeys.tenantId, TENANT_A.id));
+    await cleanupTestTenants();
+  });
+
+  it('should enroll a new trigger event behind more handled events than the scan limit', async () => {
+    const enrolled = await scanJourneyTriggers(tenantDb, journey, new Date('2026-03-01T00:00:00Z'));
+    expect(enrolled).toBe(1);
+
+    const [enrollment] = await tenantDb
+      .select()
+      .from(journeyEnrollments)
+      .where(tenantDb.withTenantFilter(journeyEnrollments, eq(journeyEnrollments.triggerKey, `appointment:${newAppointmentId}`)));
+    expect(enrollment).toMatchObject({ journeyId: journey.id, customerId, status: 'active' });
+
+    // The customer is mid-journey now, and the event is handled either way
+    expect(await scanJourneyTriggers(tenantDb, journey, new Date('2026-03-01T00:00:00Z'))).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  journeyDefinitionSchema,
+  nextStepId,
+  orderJourneySteps,
+  renderJourneyTemplate,
+  summarizeJourneySteps,
+  validateJourneySteps,
+  waitDurationMs,
+  type JourneyStep,
+} from '@shared/journeys';
+
+/**
+ * Unit Tests for customer journeys: graph validation (dangling edges,
+ * loops), step ordering, branch routing, message templates and the
+ * per-step analytics summary
+ */
+
+const steps: JourneyStep[] = [
+  { id: 'thanks', type: 'send_sms', body: 'Thanks {{firstName}}!', next: 'pause' },
+  { id: 'pause', type: 'wait', days: 3, hours: 6, next: 'check' },
+  { id: 'check', type: 'branch', condition: 'booked', onTrue: 'reward', onFalse: 'nudge' },
+  { id: 'nudge', type: 'send_email', subject: 'Come back', body: 'Book: {{bookingLink}}', next: null },
+  { id: 'reward', type: 'award_points', points: 50, next: null },
+];
+
+describe('Customer Journeys - Unit Tests', () => {
+  it('should accept a valid graph and fill in defaults', () => {
+    const parsed = journeyDefinitionSchema.parse({
+      entryStepId: 'thanks',
+      steps: [
+        { id: 'thanks', type: 'send_sms', body: 'Thanks!', next: 'later' },
+        { id: 'later', type: 'wait', next: 'call' },
+        { id: 'call', type: 'create_task', title: 'Call them', next: null },
+      ],
+    });
+
+    expect(parsed.exitOn).toEqual([]);
+    expect(parsed.steps[1]).toEqual({ id: 'later', type: 'wait', days: 0, hours: 0, next: 'call' });
+    expect(parsed.steps[2]).toMatchObject({ dueInDays: 1 });
+  });
+
+  it('should reject duplicate ids, missing entry steps, dangling edges and loops', () => {
+    expect(validateJourneySteps({ entryStepId: 'thanks', steps })).toEqual([]);
+
+    expect(validateJourneySteps({ entryStepId: 'nope', steps })).toEqual(['Entry step "nope" does not exist']);
+    expect(validateJourneySteps({ entryStepId: 'thanks', steps: [...steps, steps[0]] }))
+      .toContain('Step id "thanks" is used more than once');
+    expect(validateJourneySteps({
+      entryStepId: 'thanks',
+      steps: steps.map(step => step.id === 'reward' ? { ...step, next: 'gone' } : step),
+    })).toEqual(['Step "reward" points at missing step "gone"']);
+
+    const looped = steps.map(step => step.id === 'nudge' ? { ...step, next: 'pause' } : step);
+    expect(validateJourneySteps({ entryStepId: 'thanks', steps: looped })).toEqual(['Steps must not loop back on themselves']);
+    expect(journeyDefinitionSchema.safeParse({ entryStepId: 'thanks', steps: looped }).success).toBe(false);
+  });
+
+  it('should order steps from the entry and put unreachable steps last', () => {
+    const stray: JourneyStep = { id: 'stray', type: 'award_points', points: 5, next: null };
+    const ordered = orderJourneySteps({ entryStepId: 'thanks', steps: [stray, ...steps].reverse() });
+
+    expect(ordered.map(step => step.id)).toEqual(['thanks', 'pause', 'check', 'reward', 'nudge', 'stray']);
+  });
+
+  it('should route branches on the condition result and measure waits', () => {
+    expect(nextStepId(steps[2], true)).toBe('reward');
+    expect(nextStepId(steps[2], false)).toBe('nudge');
+    expect(nextStepId(steps[0])).toBe('pause');
+    expect(nextStepId(steps[3])).toBeNull();
+
+    expect(waitDurationMs(steps[1] as Extract<JourneyStep, { type: 'wait' }>)).toBe((3 * 24 + 6) * 60 * 60 * 1000);
+  });
+
+  it('should fill known placeholders and leave unknown ones visible', () => {
+    expect(renderJourneyTemplate('Hi {{ firstName }}, book at {{bookingLink}} {{oops}}', {
+      firstName: 'Dana',
+      bookingLink: 'https://example.com/book',
+    })).toBe('Hi Dana, book at https://example.com/book {{oops}}');
+    expect(renderJourneyTemplate('Points: {{points}}', { points: 0 })).toBe('Points: 0');
+  });
+
+  it('should count waiting and reached customers per step', () => {
+    const summary = summarizeJourneySteps(
+      { entryStepId: 'thanks', steps },
+      [{ currentStepId: 'pause' }, { currentStepId: 'pause' }, { currentStepId: null }],
+      { thanks: 5, pause: 5, check: 3, reward: 1 }
+    );
+
+    expect(summary.map(step => [step.stepId, step.reached, step.waiting])).toEqual([
+      ['thanks', 5, 0],
+      ['pause', 5, 2],
+      ['check', 3, 0],
+      ['reward', 1, 0],
+      ['nudge', 0, 0],
+    ]);
+    expect(summary[1].label).toBe('Wait 3d 6h');
+    expect(summary[2].label).toBe('If booked?');
+  });
+});
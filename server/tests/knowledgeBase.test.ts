@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildKnowledgeIndex,
+  chunkText,
+  formatKnowledgeSnippets,
+  knowledgeDocumentInputSchema,
+  searchKnowledge,
+  tokenize,
+  type KnowledgeChunk,
+} from '@shared/knowledgeBase';
+
+/**
+ * Unit Tests for knowledge base chunking and BM25 retrieval
+ */
+
+const chunks: KnowledgeChunk[] = [
+  { id: 'faq:1:0', source: 'faq', title: 'Do you remove pet hair?', text: 'Yes. Pet hair removal is $40 and is included in the Full Detail for light shedding.' },
+  { id: 'faq:2:0', source: 'faq', title: 'What is your cancellation policy?', text: 'Cancel or reschedule at least 24 hours ahead to avoid a $25 late cancellation fee.' },
+  { id: 'service:1:0', source: 'service', title: 'Full Detail', text: 'Starts at $199.99. Takes 3-4 hours. Interior and exterior detail with wax.' },
+  { id: 'add_on:1', source: 'add_on', title: 'Headlight Restoration', text: '$60.00 add-on (exterior) Restores cloudy, yellowed headlights.' },
+  { id: 'business:profile', source: 'business', title: 'Business contact information', text: 'Shine Co is a mobile detailing business based in Dallas.' },
+];
+
+describe('Knowledge Base - Unit Tests', () => {
+  it('should tokenize without stop words and fold simple suffixes', () => {
+    expect(tokenize("What's the price for detailing my SUVs?")).toEqual(['price', 'detail', 'suv']);
+    expect(tokenize('Headlights, headlight')).toEqual(['headlight', 'headlight']);
+    expect(tokenize('Café policies')).toEqual(['cafe', 'policy']);
+  });
+
+  it('should keep short paragraphs together and split long text with overlap', () => {
+    expect(chunkText('First paragraph.\n\nSecond paragraph.', { maxWords: 10 })).toEqual([
+      'First paragraph. Second paragraph.',
+    ]);
+
+    const words = Array.from({ length: 25 }, (_, i) => `w${i}`).join(' ');
+    const parts = chunkText(words, { maxWords: 10, overlapWords: 2 });
+    expect(parts).toHaveLength(3);
+    expect(parts[0].split(' ')).toHaveLength(10);
+    expect(parts[1].startsWith('w8 w9')).toBe(true);
+    expect(parts[2].endsWith('w24')).toBe(true);
+    expect(chunkText('   \n\n  ')).toEqual([]);
+  });
+
+  it('should rank the chunk that matches the question first', () => {
+    const index = buildKnowledgeIndex(chunks);
+
+    expect(searchKnowledge(index, 'my dog sheds a lot, can you get the hair out?')[0].chunk.id).toBe('faq:1:0');
+    expect(searchKnowledge(index, 'what happens if I need to cancel?')[0].chunk.id).toBe('faq:2:0');
+    expect(searchKnowledge(index, 'my headlights are yellow')[0].chunk.id).toBe('add_on:1');
+  });
+
+  it('should return nothing for off-topic or empty queries', () => {
+    const index = buildKnowledgeIndex(chunks);
+    expect(searchKnowledge(index, 'quantum entanglement')).toEqual([]);
+    expect(searchKnowledge(index, 'is it the?')).toEqual([]);
+    expect(searchKnowledge(buildKnowledgeIndex([]), 'pet hair')).toEqual([]);
+  });
+
+  it('should survive a JSON round trip through the cache', () => {
+    const index = JSON.parse(JSON.stringify(buildKnowledgeIndex(chunks)));
+    expect(searchKnowledge(index, 'full detail price', { limit: 1 })[0].chunk.title).toBe('Full Detail');
+  });
+
+  it('should format snippets with their source and respect the size budget', () => {
+    const index = buildKnowledgeIndex(chunks);
+    const hits = searchKnowledge(index, 'pet hair full detail', { limit: 2 });
+
+    expect(formatKnowledgeSnippets(hits).split('\n')[0]).toMatch(/^- \[FAQ\] Do you remove pet hair\?: Yes\./);
+    const trimmed = formatKnowledgeSnippets(hits, 60);
+    expect(trimmed.length).toBeLessThanOrEqual(60);
+    expect(trimmed.endsWith('...')).toBe(true);
+  });
+
+  it('should require a title and content for documents', () => {
+    expect(knowledgeDocumentInputSchema.safeParse({ title: 'Policies', content: 'No smoking in vehicles.' }).success).toBe(true);
+    expect(knowledgeDocumentInputSchema.safeParse({ title: ' ', content: 'x' }).success).toBe(false);
+    expect(knowledgeDocumentInputSchema.safeParse({ title: 'Empty', content: '' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEstimate,
+  classifyVehicle,
+  detectConditions,
+  formatEstimateLines,
+  priceEstimateRequestSchema,
+  priceModifierError,
+  resolveModifier,
+  type PriceModifierRule,
+} from '@shared/priceBook';
+
+/**
+ * Unit Tests for price book estimates, vehicle classing and condition detection
+ */
+
+const modifiers: PriceModifierRule[] = [
+  { kind: 'vehicle_class', key: 'suv', label: 'SUV upcharge', adjustmentType: 'flat', amount: 25, serviceId: null },
+  { kind: 'vehicle_class', key: 'truck', label: 'Truck upcharge', adjustmentType: 'percent', amount: 20, serviceId: null },
+  { kind: 'vehicle_class', key: 'truck', label: 'Truck (interior)', adjustmentType: 'flat', amount: 15, serviceId: 2 },
+  { kind: 'condition', key: 'pet_hair', label: 'Pet hair removal', adjustmentType: 'flat', amount: 40, serviceId: null },
+  { kind: 'condition', key: 'heavy_soil', label: 'Heavy soil', adjustmentType: 'percent', amount: 15, serviceId: null },
+];
+
+const fullDetail = { id: 1, name: 'Full Detail', basePrice: 199.99 };
+const noTax = { rate: 0, label: 'Sales tax' };
+
+describe('Price Book - Unit Tests', () => {
+  it('should classify common vehicles by model before make', () => {
+    expect(classifyVehicle('Ford', 'F-150')).toBe('truck');
+    expect(classifyVehicle('Ford', 'Explorer')).toBe('suv');
+    expect(classifyVehicle('Toyota', 'Sienna')).toBe('van');
+    expect(classifyVehicle('Honda', 'Civic')).toBe('sedan');
+    expect(classifyVehicle('Jeep', null)).toBe('suv');
+    expect(classifyVehicle(null, null)).toBeNull();
+    expect(classifyVehicle('Toyota', null)).toBeNull();
+  });
+
+  it('should not match model names inside other words', () => {
+    // "ram" must not match "Grand Marquis"
+    expect(classifyVehicle('Mercury', 'Grand Marquis')).toBe('sedan');
+  });
+
+  it('should detect built-in and tenant-defined conditions in free text', () => {
+    expect(detectConditions('Lots of dog hair in the back seat')).toEqual(['pet_hair']);
+    expect(detectConditions('Muddy floors and pet hair everywhere').sort()).toEqual(['heavy_soil', 'pet_hair']);
+    expect(detectConditions('Smoke odor from the previous owner', [{ key: 'smoke_odor', label: 'Smoke odor treatment' }]))
+      .toEqual(['smoke_odor']);
+    expect(detectConditions('Just a regular wash')).toEqual([]);
+    expect(detectConditions(null)).toEqual([]);
+  });
+
+  it('should prefer a service-specific modifier over the tenant-wide one', () => {
+    expect(resolveModifier(modifiers, 'vehicle_class', 'truck', 2)?.label).toBe('Truck (interior)');
+    expect(resolveModifier(modifiers, 'vehicle_class', 'truck', 1)?.label).toBe('Truck upcharge');
+    expect(resolveModifier(modifiers, 'vehicle_class', 'van', 1)).toBeNull();
+  });
+
+  it('should itemize vehicle class, conditions and add-ons with tax in cents', () => {
+    const estimate = buildEstimate({
+      service: fullDetail,
+      vehicles: [{ vehicleClass: 'truck', conditions: ['pet_hair', 'heavy_soil', 'unknown_condition'] }],
+      addOns: [{ name: 'Tire Shine', price: 10 }],
+      modifiers,
+      tax: { rate: 8.25, label: 'Sales tax' },
+    });
+
+    expect(estimate.lines).toEqual([
+      { kind: 'service', label: 'Full Detail', amount: 199.99, vehicleIndex: undefined },
+      { kind: 'vehicle_class', label: 'Truck upcharge', amount: 40, vehicleIndex: undefined },
+      { kind: 'condition', label: 'Pet hair removal', amount: 40, vehicleIndex: undefined },
+      { kind: 'condition', label: 'Heavy soil', amount: 30, vehicleIndex: undefined },
+      { kind: 'add_on', label: 'Tire Shine', amount: 10 },
+    ]);
+    expect(estimate.subtotal).toBe(319.99);
+    expect(estimate.tax).toBe(26.4);
+    expect(estimate.total).toBe(346.39);
+  });
+
+  it('should price each vehicle separately and add add-ons once', () => {
+    const estimate = buildEstimate({
+      service: fullDetail,
+      vehicles: [
+        { description: '2020 Honda Civic', vehicleClass: 'sedan' },
+        { description: '2019 Toyota RAV4', vehicleClass: 'suv' },
+      ],
+      addOns: [{ name: 'Air Freshener', price: 5 }],
+      modifiers,
+      tax: noTax,
+    });
+
+    expect(estimate.lines.filter((line) => line.kind === 'service').map((line) => line.label)).toEqual([
+      'Full Detail (2020 Honda Civic)',
+      'Full Detail (2019 Toyota RAV4)',
+    ]);
+    expect(estimate.lines.find((line) => line.kind === 'vehicle_class')?.vehicleIndex).toBe(1);
+    expect(estimate.subtotal).toBe(199.99 * 2 + 25 + 5);
+    expect(estimate.tax).toBe(0);
+  });
+
+  it('should price the base service when no vehicle is known', () => {
+    const estimate = buildEstimate({ service: fullDetail, vehicles: [], addOns: [], modifiers, tax: noTax });
+    expect(estimate.lines).toHaveLength(1);
+    expect(estimate.total).toBe(199.99);
+    expect(formatEstimateLines(estimate)).toEqual([
+      'Full Detail: $199.99',
+      'Subtotal: $199.99',
+      'Estimated total: $199.99',
+    ]);
+  });
+
+  it('should require a service on estimate requests', () => {
+    expect(priceEstimateRequestSchema.safeParse({ vehicles: [] }).success).toBe(false);
+    const parsed = priceEstimateRequestSchema.safeParse({
+      serviceName: 'Full Detail',
+      vehicles: [{ make: 'Ford', model: 'F-150', conditions: ['Pet_Hair'] }],
+    });
+    expect(parsed.success).toBe(true);
+    if (parsed.success) expect(parsed.data.vehicles?.[0].conditions).toEqual(['pet_hair']);
+  });
+
+  it('should reject unknown vehicle classes and out-of-range percentages', () => {
+    expect(priceModifierError({ kind: 'vehicle_class', key: 'bus', adjustmentType: 'flat', amount: 10 })).toMatch(/Vehicle class/);
+    expect(priceModifierError({ kind: 'condition', key: 'pet_hair', adjustmentType: 'percent', amount: 900 })).toMatch(/Percent/);
+    expect(priceModifierError({ kind: 'condition', key: 'pet_hair', adjustmentType: 'percent', amount: 25 })).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkPromoWindow,
+  evaluatePromoEligibility,
+  promoRuleInputSchema,
+  type CustomerPromoFacts,
+} from '@shared/promoRules';
+
+/**
+ * Unit Tests for declarative promo rule evaluation
+ */
+
+const now = new Date('2025-06-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const facts = (overrides: Partial<CustomerPromoFacts> = {}): CustomerPromoFacts => ({
+  customerId: 1,
+  loyaltyTier: 'silver',
+  completedJobs: 2,
+  lastVisitAt: daysAgo(30),
+  ...overrides,
+});
+
+describe('Promo Rules - Unit Tests', () => {
+  it('should respect the active flag and validity window', () => {
+    const always = { isActive: true, validFrom: null, validUntil: null };
+    expect(checkPromoWindow(always, now)).toBeNull();
+    expect(checkPromoWindow({ ...always, isActive: false }, now)).toBe('promo_inactive');
+    expect(checkPromoWindow({ ...always, validFrom: '2025-07-01T00:00:00Z' }, now)).toBe('outside_validity_window');
+    expect(checkPromoWindow({ ...always, validUntil: '2025-06-01T00:00:00Z' }, now)).toBe('outside_validity_window');
+    expect(checkPromoWindow({ ...always, validFrom: '2025-06-01T00:00:00Z', validUntil: '2025-06-30T00:00:00Z' }, now)).toBeNull();
+  });
+
+  it('should allow everyone when no predicates are set', () => {
+    expect(evaluatePromoEligibility({}, facts({ completedJobs: 0, lastVisitAt: null, loyaltyTier: null }), now)).toBeNull();
+  });
+
+  it('should require completed jobs and a matching loyalty tier', () => {
+    expect(evaluatePromoEligibility({ minCompletedJobs: 1 }, facts({ completedJobs: 0 }), now)).toBe('no_completed_jobs');
+    expect(evaluatePromoEligibility({ minCompletedJobs: 2 }, facts(), now)).toBeNull();
+    expect(evaluatePromoEligibility({ loyaltyTiers: ['gold', 'platinum'] }, facts(), now)).toBe('loyalty_tier');
+    expect(evaluatePromoEligibility({ loyaltyTiers: ['silver'] }, facts(), now)).toBeNull();
+  });
+
+  it('should evaluate last visit recency', () => {
+    // Lapsed-customer promo: no visit in the last 90 days
+    expect(evaluatePromoEligibility({ lastVisitOlderThanDays: 90 }, facts(), now)).toBe('visited_too_recently');
+    expect(evaluatePromoEligibility({ lastVisitOlderThanDays: 90 }, facts({ lastVisitAt: daysAgo(120) }), now)).toBeNull();
+    expect(evaluatePromoEligibility({ lastVisitOlderThanDays: 90 }, facts({ lastVisitAt: null }), now)).toBeNull();
+
+    // Active-customer promo: visited within the last 60 days
+    expect(evaluatePromoEligibility({ lastVisitWithinDays: 60 }, facts(), now)).toBeNull();
+    expect(evaluatePromoEligibility({ lastVisitWithinDays: 60 }, facts({ lastVisitAt: null }), now)).toBe('no_recent_visit');
+  });
+
+  it('should validate rule input', () => {
+    const valid = promoRuleInputSchema.safeParse({
+      promoKey: 'spring_tuneup',
+      name: 'Spring Tune-up',
+      awardMode: 'immediate',
+      perCustomerPerYearMax: 1,
+      eligibility: { loyaltyTiers: ['gold'] },
+      validFrom: '2025-03-01',
+      validUntil: '2025-05-31',
+    });
+    expect(valid.success).toBe(true);
+    if (valid.success) {
+      expect(valid.data.isActive).toBe(true);
+      expect(valid.data.validFrom).toBeInstanceOf(Date);
+    }
+
+    expect(promoRuleInputSchema.safeParse({ promoKey: 'Bad Key', name: 'x', awardMode: 'immediate' }).success).toBe(false);
+    expect(promoRuleInputSchema.safeParse({ promoKey: 'x', name: 'x', awardMode: 'later' }).success).toBe(false);
+    expect(promoRuleInputSchema.safeParse({
+      promoKey: 'x', name: 'x', awardMode: 'immediate', validFrom: '2025-06-01', validUntil: '2025-05-01',
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRevenueForecast,
+  forecastMonthKeys,
+  normalizeHistory,
+  recurringOccurrences,
+  seasonalIndices,
+  smoothedRate,
+  yearOverYearGrowth,
+  type MonthlyRevenue,
+} from '@shared/revenueForecast';
+
+/**
+ * Unit Tests for the revenue forecast model
+ */
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+// 24 months ending May 2025: summer months earn double, year two is 10% up
+function seasonalHistory(): MonthlyRevenue[] {
+  const rows: MonthlyRevenue[] = [];
+  for (let i = 0; i < 24; i++) {
+    const date = new Date(Date.UTC(2023, 5 + i, 1));
+    const moy = date.getUTCMonth() + 1;
+    const base = moy >= 6 && moy <= 8 ? 2000 : 1000;
+    rows.push({ month: date.toISOString().slice(0, 7), revenue: i >= 12 ? base * 1.1 : base });
+  }
+  return rows;
+}
+
+const emptyInput = {
+  now,
+  horizonMonths: 6,
+  history: [],
+  booked: [],
+  recurring: [],
+  openQuotes: [],
+  completionRate: 0.9,
+  quoteAcceptanceRate: 0.4,
+};
+
+describe('Revenue Forecast - Unit Tests', () => {
+  it('should forecast the months after the current one', () => {
+    expect(forecastMonthKeys(now, 3)).toEqual(['2025-07', '2025-08', '2025-09']);
+    expect(forecastMonthKeys(new Date('2025-11-30T12:00:00Z'), 2)).toEqual(['2025-12', '2026-01']);
+  });
+
+  it('should not produce NaN for a brand new tenant', () => {
+    const forecast = buildRevenueForecast(emptyInput);
+    expect(forecast.months).toHaveLength(6);
+    for (const month of forecast.months) {
+      expect(month.predictedRevenue).toBe(0);
+      expect(month.low).toBe(0);
+      expect(month.confidence).toBe(0);
+    }
+    expect(forecast.metrics.growthRate).toBe(0);
+    expect(forecast.metrics.avgMonthlyRevenue).toBe(0);
+  });
+
+  it('should forecast known pipeline for a new tenant', () => {
+    const forecast = buildRevenueForecast({
+      ...emptyInput,
+      booked: [{ month: '2025-07', amount: 200 }, { month: '2025-07', amount: 300 }],
+      recurring: [{ month: '2025-08', amount: 100 }],
+      openQuotes: [1000],
+      completionRate: 1,
+      quoteAcceptanceRate: 0.5,
+    });
+    const [july, august] = forecast.months;
+    expect(july.breakdown).toEqual({ booked: 500, recurring: 0, quotes: 500, newBusiness: 0 });
+    expect(july.predictedRevenue).toBe(1000);
+    expect(july.low).toBeLessThan(1000);
+    expect(july.high).toBeGreaterThan(1000);
+    expect(august.predictedRevenue).toBe(100);
+    // Certain recurring revenue has no spread
+    expect(august.low).toBe(100);
+    expect(august.high).toBe(100);
+  });
+
+  it('should drop months before the first sale and fill gaps', () => {
+    const history = normalizeHistory([
+      { month: '2025-01', revenue: 0 },
+      { month: '2025-02', revenue: 500 },
+      { month: '2025-04', revenue: 700 },
+    ], now);
+    expect(history.map(row => row.month)).toEqual(['2025-02', '2025-03', '2025-04', '2025-05']);
+    expect(history[1].revenue).toBe(0);
+  });
+
+  it('should derive seasonality and year-over-year growth', () => {
+    const history = seasonalHistory();
+    const indices = seasonalIndices(history);
+    expect(indices['07']).toBeGreaterThan(1.5);
+    expect(indices['01']).toBeLessThan(1);
+    expect(seasonalIndices(history.slice(-6))['07']).toBe(1);
+
+    expect(yearOverYearGrowth(history)).toBeCloseTo(0.1, 5);
+    expect(yearOverYearGrowth(history.slice(-12))).toBe(0);
+  });
+
+  it('should fill unbooked demand from the seasonal baseline without double counting', () => {
+    const forecast = buildRevenueForecast({
+      ...emptyInput,
+      history: seasonalHistory(),
+      booked: [{ month: '2025-07', amount: 1500 }],
+      completionRate: 1,
+    });
+    const july = forecast.months[0];
+    const october = forecast.months[3];
+    expect(july.predictedRevenue).toBe(july.baseline);
+    expect(july.breakdown.booked).toBe(1500);
+    expect(july.breakdown.newBusiness).toBe(july.baseline - 1500);
+    expect(july.predictedRevenue).toBeGreaterThan(october.predictedRevenue);
+    // Uncertainty grows with the horizon
+    const spread = (month: typeof july) => (month.high - month.low) / month.predictedRevenue;
+    expect(spread(forecast.months[5])).toBeGreaterThan(spread(forecast.months[2]));
+  });
+
+  it('should expand recurring schedules into occurrences', () => {
+    const from = new Date('2025-07-01T00:00:00Z');
+    const to = new Date('2025-10-01T00:00:00Z');
+    expect(recurringOccurrences({ frequency: 'monthly', nextScheduledDate: '2025-06-20' }, from, to)).toHaveLength(3);
+    expect(recurringOccurrences({ frequency: 'quarterly', nextScheduledDate: '2025-07-10' }, from, to)).toHaveLength(1);
+    expect(recurringOccurrences({ frequency: 'biweekly', nextScheduledDate: '2025-07-01' }, from, to)).toHaveLength(7);
+    expect(recurringOccurrences({ frequency: 'monthly', nextScheduledDate: null }, from, to)).toHaveLength(0);
+    expect(recurringOccurrences({
+      frequency: 'custom_dates',
+      nextScheduledDate: null,
+      intervalCustomDates: ['2025-06-01', '2025-08-15', '2025-12-01'],
+    }, from, to)).toHaveLength(1);
+  });
+
+  it('should smooth small-sample rates toward the prior', () => {
+    expect(smoothedRate(0, 0, 0.9, 10)).toBe(0.9);
+    expect(smoothedRate(1, 1, 0.4, 10)).toBeCloseTo(5 / 11, 5);
+    expect(smoothedRate(900, 1000, 0.4, 10)).toBeCloseTo(0.895, 2);
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planDayRoute,
+  optimizeVisitOrder,
+  estimateDriveMinutes,
+  haversineMiles,
+  type RouteStopInput,
+  type TravelMatrix,
+  type VisitSchedule,
+} from '@shared/routeOptimization';
+
+/**
+ * Unit Tests for multi-stop day route planning
+ *
+ * Matrix index 0 is the origin (home base), 1..n are the stops.
+ */
+
+const day = (hhmm: string) => new Date(`2025-06-02T${hhmm}:00Z`);
+
+function stop(id: number, overrides: Partial<RouteStopInput> = {}): RouteStopInput {
+  return {
+    appointmentId: id,
+    location: { lat: 36.15, lng: -95.99 },
+    durationMinutes: 60,
+    scheduledTime: null,
+    customerName: `Customer ${id}`,
+    ...overrides,
+  };
+}
+
+// Booked stops may start up to an hour either side of the booking
+function schedule(booked: Record<number, string>, stops: number, durationMinutes = 60, start = '08:00'): VisitSchedule {
+  return {
+    start: day(start).getTime(),
+    durations: Array.from({ length: stops + 1 }, (_, i) => (i === 0 ? 0 : durationMinutes)),
+    windows: Array.from({ length: stops + 1 }, (_, i) => {
+      if (!booked[i]) return null;
+      const time = day(booked[i]).getTime();
+      return { open: time - 60 * 60000, close: time + 60 * 60000 };
+    }),
+  };
+}
+
+// Points on a line: origin(0) - A(1) at 10 min - B(2) at 20 min - C(3) at 30 min
+const lineMatrix: TravelMatrix = [
+  [0, 10, 20, 30],
+  [10, 0, 10, 20],
+  [20, 10, 0, 10],
+  [30, 20, 10, 0],
+];
+
+describe('Route Optimization - Day Planner', () => {
+  describe('haversine fallback', () => {
+    it('should measure roughly 69 miles per degree of latitude', () => {
+      const miles = haversineMiles({ lat: 36, lng: -96 }, { lat: 37, lng: -96 });
+      expect(miles).toBeGreaterThan(68);
+      expect(miles).toBeLessThan(70);
+    });
+
+    it('should estimate drive minutes from distance, road factor and speed', () => {
+      const a = { lat: 36, lng: -96 };
+      const b = { lat: 36.1, lng: -96 };
+      // ~6.9 mi * 1.3 road factor at 30 mph ≈ 18 min
+      expect(estimateDriveMinutes(a, b)).toBe(18);
+      expect(estimateDriveMinutes(a, b, 60, 1)).toBe(7);
+      expect(estimateDriveMinutes(a, a)).toBe(0);
+    });
+  });
+
+  describe('optimizeVisitOrder', () => {
+    it('should visit stops along the line instead of zig-zagging', () => {
+      expect(optimizeVisitOrder([3, 1, 2], lineMatrix, false)).toEqual([1, 2, 3]);
+    });
+
+    it('should find the cheapest order when nearest-neighbour is greedy', () => {
+      // Nearest neighbour from 0 picks 1 first, but 2 -> 1 -> 3 is cheaper overall
+      const matrix: TravelMatrix = [
+        [0, 5, 6, 50],
+        [5, 0, 20, 10],
+        [6, 20, 0, 60],
+        [50, 10, 60, 0],
+      ];
+      const order = optimizeVisitOrder([1, 2, 3], matrix, false);
+      expect(order).toEqual([2, 1, 3]);
+    });
+
+    it('should fall back to the heuristic for long days', () => {
+      // 12 stops on a line: the optimal open route walks outward in order
+      const n = 12;
+      const matrix: TravelMatrix = Array.from({ length: n + 1 }, (_, i) =>
+        Array.from({ length: n + 1 }, (_, j) => Math.abs(i - j) * 5)
+      );
+      const shuffled = [7, 3, 12, 1, 9, 5, 11, 2, 8, 4, 10, 6];
+      expect(optimizeVisitOrder(shuffled, matrix, false)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    });
+
+    it('should keep booked stops that are hours apart in booking order', () => {
+      // Shortest is 1 -> 2 -> 3, but 3 was booked two hours before 1
+      const short = optimizeVisitOrder([1, 2, 3], lineMatrix, false, schedule({ 1: '11:00', 3: '09:00' }, 3));
+      expect(short.indexOf(3)).toBeLessThan(short.indexOf(1));
+
+      const n = 12;
+      const matrix: TravelMatrix = Array.from({ length: n + 1 }, (_, i) =>
+        Array.from({ length: n + 1 }, (_, j) => Math.abs(i - j) * 5)
+      );
+      const order = optimizeVisitOrder(
+        [7, 3, 12, 1, 9, 5, 11, 2, 8, 4, 10, 6],
+        matrix,
+        false,
+        schedule({ 12: '08:00', 1: '16:00' }, n, 30, '07:00')
+      );
+      expect(order.indexOf(12)).toBeLessThan(order.indexOf(1));
+    });
+
+    it('should reorder booked stops within their tolerance to save driving', () => {
+      // Booking order 3 -> 1 -> 2 drives 60 min; 1 -> 2 -> 3 drives 30 and
+      // still reaches every stop inside its window
+      const order = optimizeVisitOrder(
+        [1, 2, 3],
+        lineMatrix,
+        false,
+        schedule({ 1: '09:30', 2: '10:00', 3: '09:00' }, 3, 30)
+      );
+      expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('should handle an empty stop list', () => {
+      expect(optimizeVisitOrder([], lineMatrix, true)).toEqual([]);
+    });
+  });
+
+  describe('planDayRoute', () => {
+    it('should produce arrival windows and total drive including the return leg', () => {
+      const result = planDayRoute({
+        stops: [stop(101), stop(102), stop(103)],
+        matrix: lineMatrix,
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: true,
+      });
+
+      expect(result.stops.map(s => s.appointmentId)).toEqual([101, 102, 103]);
+      expect(result.stops[0].estimatedArrival).toBe(day('08:10').toISOString());
+      expect(result.stops[0].arrivalWindowEnd).toBe(day('08:40').toISOString());
+      expect(result.stops[1].estimatedArrival).toBe(day('09:20').toISOString());
+      expect(result.stops[2].estimatedDeparture).toBe(day('11:30').toISOString());
+      expect(result.returnDriveMinutes).toBe(30);
+      expect(result.totalDriveMinutes).toBe(60);
+      expect(result.totalServiceMinutes).toBe(180);
+      expect(result.projectedFinish.toISOString()).toBe(day('12:00').toISOString());
+    });
+
+    it('should flag jobs without coordinates as missing_location', () => {
+      const result = planDayRoute({
+        stops: [stop(101), stop(102, { location: null })],
+        matrix: lineMatrix.slice(0, 3).map(row => row.slice(0, 3)),
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: true,
+      });
+
+      expect(result.stops).toHaveLength(1);
+      expect(result.unfittable).toEqual([
+        { appointmentId: 102, customerName: 'Customer 102', reason: 'missing_location' },
+      ]);
+    });
+
+    it('should flag jobs that would run past the end of the work day', () => {
+      const result = planDayRoute({
+        stops: [stop(101, { durationMinutes: 240 }), stop(102, { durationMinutes: 240 }), stop(103, { durationMinutes: 60 })],
+        matrix: lineMatrix,
+        dayStart: day('08:00'),
+        dayEnd: day('17:00'),
+        returnToOrigin: true,
+      });
+
+      expect(result.stops.map(s => s.appointmentId)).toEqual([101, 102]);
+      expect(result.unfittable).toEqual([
+        { appointmentId: 103, customerName: 'Customer 103', reason: 'exceeds_work_day' },
+      ]);
+      expect(result.projectedFinish <= day('17:00')).toBe(true);
+    });
+
+    it('should visit booked stops in booking order', () => {
+      const result = planDayRoute({
+        stops: [
+          stop(101, { scheduledTime: day('13:00') }),
+          stop(102),
+          stop(103, { scheduledTime: day('09:00') }),
+        ],
+        matrix: lineMatrix,
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: true,
+      });
+
+      const sequence = result.stops.map(s => s.appointmentId);
+      expect(sequence.indexOf(103)).toBeLessThan(sequence.indexOf(101));
+    });
+
+    it('should measure the first leg from the route origin', () => {
+      const origin = { lat: 36.0, lng: -96.0 };
+      const result = planDayRoute({
+        stops: [stop(101, { location: { lat: 36.1, lng: -96.0 } })],
+        matrix: lineMatrix.slice(0, 2).map(row => row.slice(0, 2)),
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: true,
+        origin,
+      });
+
+      expect(result.stops[0].distanceMilesFromPrevious).toBeCloseTo(6.9, 1);
+    });
+
+    it('should wait for a booked stop instead of arriving hours early', () => {
+      const plan = (bookedTimeToleranceMinutes?: number) => planDayRoute({
+        stops: [stop(101, { scheduledTime: day('11:00') })],
+        matrix: lineMatrix.slice(0, 2).map(row => row.slice(0, 2)),
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: false,
+        bookedTimeToleranceMinutes,
+      });
+
+      expect(plan().stops[0]).toMatchObject({
+        estimatedArrival: day('10:00').toISOString(),
+        estimatedDeparture: day('11:00').toISOString(),
+        minutesFromScheduled: -60,
+      });
+      expect(plan(0).stops[0]).toMatchObject({
+        estimatedArrival: day('11:00').toISOString(),
+        minutesFromScheduled: 0,
+      });
+    });
+
+    it('should check the work day against the booked time, not an early arrival', () => {
+      const result = planDayRoute({
+        stops: [stop(101, { scheduledTime: day('16:30') })],
+        matrix: lineMatrix.slice(0, 2).map(row => row.slice(0, 2)),
+        dayStart: day('08:00'),
+        dayEnd: day('17:00'),
+        returnToOrigin: false,
+        bookedTimeToleranceMinutes: 15,
+      });
+
+      expect(result.stops).toHaveLength(0);
+      expect(result.unfittable).toEqual([
+        { appointmentId: 101, customerName: 'Customer 101', reason: 'exceeds_work_day' },
+      ]);
+    });
+
+    it('should report how far each arrival moved from the booked time', () => {
+      const result = planDayRoute({
+        stops: [stop(101, { scheduledTime: day('09:00') })],
+        matrix: lineMatrix.slice(0, 2).map(row => row.slice(0, 2)),
+        dayStart: day('08:00'),
+        dayEnd: day('18:00'),
+        returnToOrigin: false,
+      });
+
+      expect(result.stops[0].minutesFromScheduled).toBe(-50);
+      expect(result.returnDriveMinutes).toBeNull();
+    });
+  });
+});
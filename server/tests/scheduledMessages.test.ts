@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  nextScheduledAttempt,
+  scheduledMessageInputSchema,
+  scheduledMessageUpdateSchema,
+  scheduleTimeError,
+  SCHEDULED_MESSAGE_MAX_ATTEMPTS,
+} from '@shared/scheduledMessages';
+
+/**
+ * Unit Tests for "send later" message validation and retry policy
+ */
+
+const now = new Date('2025-06-02T15:00:00Z');
+const noJitter = () => 0;
+
+describe('Scheduled Messages - Unit Tests', () => {
+  it('should accept a future send time and coerce ISO strings', () => {
+    const parsed = scheduledMessageInputSchema.safeParse({
+      content: '  See you tomorrow!  ',
+      scheduledFor: '2025-06-03T14:00:00Z',
+      channel: 'sms',
+    });
+    expect(parsed.success).toBe(true);
+    if (parsed.success) {
+      expect(parsed.data.content).toBe('See you tomorrow!');
+      expect(parsed.data.scheduledFor).toBeInstanceOf(Date);
+      expect(scheduleTimeError(parsed.data.scheduledFor, now)).toBeNull();
+    }
+  });
+
+  it('should reject empty content and unknown channels', () => {
+    expect(scheduledMessageInputSchema.safeParse({ content: '   ', scheduledFor: now }).success).toBe(false);
+    expect(scheduledMessageInputSchema.safeParse({ content: 'hi', scheduledFor: now, channel: 'fax' }).success).toBe(false);
+    expect(scheduledMessageUpdateSchema.safeParse({}).success).toBe(false);
+    expect(scheduledMessageUpdateSchema.safeParse({ content: 'edited' }).success).toBe(true);
+  });
+
+  it('should reject send times in the past or too far out', () => {
+    expect(scheduleTimeError(new Date('2025-06-02T14:59:30Z'), now)).toBeNull();
+    expect(scheduleTimeError(new Date('2025-06-02T14:00:00Z'), now)).toBe('Send time is in the past');
+    expect(scheduleTimeError(new Date('2026-07-01T00:00:00Z'), now)).toMatch(/within 365 days/);
+    expect(scheduleTimeError(new Date('not a date'), now)).toBe('Invalid send time');
+  });
+
+  it('should back off between retries and stop at the attempt limit', () => {
+    const first = nextScheduledAttempt(1, now, SCHEDULED_MESSAGE_MAX_ATTEMPTS, noJitter);
+    const second = nextScheduledAttempt(2, now, SCHEDULED_MESSAGE_MAX_ATTEMPTS, noJitter);
+    expect(first?.toISOString()).toBe('2025-06-02T15:01:00.000Z');
+    expect(second?.toISOString()).toBe('2025-06-02T15:02:00.000Z');
+    expect(nextScheduledAttempt(SCHEDULED_MESSAGE_MAX_ATTEMPTS, now)).toBeNull();
+  });
+
+  it('should cap the retry delay at an hour', () => {
+    const late = nextScheduledAttempt(10, now, 20, noJitter);
+    expect(late!.getTime() - now.getTime()).toBe(60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkSlotCapacity,
+  computeOpenSlots,
+  computeTechnicianUtilization,
+  getTechnicianWindows,
+  parseClockTime,
+  type BusinessHoursConfig,
+  type ComputeOpenSlotsOptions,
+  type TechnicianSchedule,
+} from '@shared/schedulingEngine';
+
+/**
+ * Unit Tests for the database-native scheduling engine
+ *
+ * All scenarios run in UTC on Monday 2025-06-02 so slot times read directly.
+ */
+
+const hours: BusinessHoursConfig = {
+  startMinutes: 9 * 60,
+  endMinutes: 15 * 60,
+  lunchStartMinutes: null,
+  lunchDurationMinutes: 60,
+  workingDays: [1, 2, 3, 4, 5],
+  slotIncrementMinutes: 60,
+  minimumNoticeHours: 0,
+};
+
+const at = (hhmm: string, date = '2025-06-02') => new Date(`${date}T${hhmm}:00Z`);
+
+function options(overrides: Partial<ComputeOpenSlotsOptions> = {}): ComputeOpenSlotsOptions {
+  return {
+    now: at('00:00'),
+    timezone: 'UTC',
+    startDate: '2025-06-02',
+    days: 1,
+    hours,
+    blockMinutes: 120,
+    fitMinutes: 60,
+    technicians: [],
+    busy: [],
+    ...overrides,
+  };
+}
+
+function tech(id: number, overrides: Partial<TechnicianSchedule> = {}): TechnicianSchedule {
+  return {
+    technicianId: id,
+    weekly: {},
+    shifts: {},
+    pto: [],
+    skillLevel: 1,
+    specialties: [],
+    maxJobsPerDay: null,
+    jobsByDate: {},
+    ...overrides,
+  };
+}
+
+const startTimes = (opts: ComputeOpenSlotsOptions) =>
+  computeOpenSlots(opts).map(s => s.startIso.slice(11, 16));
+
+describe('Scheduling Engine - Unit Tests', () => {
+  it('should parse HH:MM clock strings', () => {
+    expect(parseClockTime('08:30')).toBe(510);
+    expect(parseClockTime(null)).toBeNull();
+    expect(parseClockTime('noon')).toBeNull();
+  });
+
+  it('should offer slots that fit the best-case duration before close', () => {
+    expect(startTimes(options())).toEqual(['09:00', '10:00', '11:00', '12:00', '13:00', '14:00']);
+  });
+
+  it('should block existing bookings for their full duration in single-operator mode', () => {
+    const busy = [{ start: at('10:00'), end: at('12:00'), technicianId: null }];
+    // A new 2h block starting at 9 would overlap the 10:00 booking
+    expect(startTimes(options({ busy }))).toEqual(['12:00', '13:00', '14:00']);
+  });
+
+  it('should skip closed days, lunch and the minimum notice window', () => {
+    const lunch = { ...hours, lunchStartMinutes: 12 * 60, minimumNoticeHours: 2 };
+    expect(startTimes(options({ hours: lunch, now: at('08:30') }))).toEqual(['11:00', '13:00', '14:00']);
+    // 2025-06-01 is a Sunday
+    expect(computeOpenSlots(options({ startDate: '2025-06-01' }))).toEqual([]);
+  });
+
+  it('should stop offering a day once the service daily limit is reached', () => {
+    const slots = computeOpenSlots(options({
+      days: 2,
+      dailyLimitFor: () => 2,
+      bookedByDate: { '2025-06-02': 2 },
+    }));
+    expect(new Set(slots.map(s => s.date))).toEqual(new Set(['2025-06-03']));
+  });
+
+  it('should keep a slot open while another technician is free', () => {
+    const busy = [{ start: at('09:00'), end: at('11:00'), technicianId: 1 }];
+    const slots = computeOpenSlots(options({ technicians: [tech(1), tech(2)], busy }));
+    expect(slots[0].startIso).toBe(at('09:00').toISOString());
+    expect(slots[0].technicianIds).toEqual([2]);
+  });
+
+  it('should let unassigned bookings consume crew capacity', () => {
+    const busy = [
+      { start: at('09:00'), end: at('11:00'), technicianId: null },
+      { start: at('09:00'), end: at('11:00'), technicianId: null },
+    ];
+    expect(startTimes(options({ technicians: [tech(1), tech(2)], busy }))[0]).toBe('11:00');
+  });
+
+  it('should respect PTO, shifts and weekly preferences in that order', () => {
+    const onPto = tech(1, {
+      pto: [{ startDate: '2025-06-01', endDate: '2025-06-03' }],
+      shifts: { '2025-06-02': [{ startMinutes: 540, endMinutes: 900 }] },
+    });
+    expect(getTechnicianWindows(onPto, '2025-06-02', hours)).toEqual([]);
+
+    const shiftBeatsWeekly = tech(2, {
+      weekly: { 1: { available: false, startMinutes: null, endMinutes: null } },
+      shifts: { '2025-06-02': [{ startMinutes: 8 * 60, endMinutes: 12 * 60 }] },
+    });
+    // Shift starts before opening, so it is clamped to business hours
+    expect(getTechnicianWindows(shiftBeatsWeekly, '2025-06-02', hours)).toEqual([
+      { startMinutes: 540, endMinutes: 720 },
+    ]);
+
+    const weeklyOff = tech(3, { weekly: { 1: { available: false, startMinutes: null, endMinutes: null } } });
+    expect(getTechnicianWindows(weeklyOff, '2025-06-02', hours)).toEqual([]);
+  });
+
+  it('should close the day when nobody on the crew is working', () => {
+    const off = tech(1, { weekly: { 1: { available: false, startMinutes: null, endMinutes: null } } });
+    expect(computeOpenSlots(options({ technicians: [off] }))).toEqual([]);
+  });
+
+  it('should convert local business hours using the tenant timezone', () => {
+    const slots = computeOpenSlots(options({ timezone: 'America/Chicago' }));
+    // 9:00 AM CDT is 14:00 UTC
+    expect(slots[0].startIso).toBe('2025-06-02T14:00:00.000Z');
+  });
+
+  describe('technician-aware capacity', () => {
+    it('should only offer slots a qualified technician can take', () => {
+      const crew = [tech(1, { skillLevel: 2 }), tech(2, { skillLevel: 4 })];
+      const slots = computeOpenSlots(options({ technicians: crew, requiredSkillLevel: 3 }));
+      expect(slots.every(s => s.technicianIds.length === 1 && s.technicianIds[0] === 2)).toBe(true);
+
+      const tooHard = computeOpenSlots(options({ technicians: crew, requiredSkillLevel: 5 }));
+      expect(tooHard).toEqual([]);
+    });
+
+    it('should stop offering a technician once maxJobsPerDay is reached', () => {
+      const full = tech(1, { maxJobsPerDay: 2, jobsByDate: { '2025-06-02': 2 } });
+      expect(computeOpenSlots(options({ technicians: [full] }))).toEqual([]);
+
+      const slots = computeOpenSlots(options({ technicians: [full, tech(2)] }));
+      expect(slots[0].technicianIds).toEqual([2]);
+    });
+
+    it('should rank specialists first, then the lightest day', () => {
+      const crew = [
+        tech(1, { jobsByDate: { '2025-06-02': 3 } }),
+        tech(2, { jobsByDate: { '2025-06-02': 1 } }),
+        tech(3, { jobsByDate: { '2025-06-02': 4 }, specialties: ['Ceramic Coating'] }),
+      ];
+      const slots = computeOpenSlots(options({ technicians: crew, serviceName: 'ceramic coating' }));
+      expect(slots[0].technicianIds).toEqual([3, 2, 1]);
+    });
+
+    it('should take parallel jobs while technicians remain free', () => {
+      const busy = [{ start: at('10:00'), end: at('12:00'), technicianId: 1 }];
+      const capacity = checkSlotCapacity(options({ technicians: [tech(1), tech(2)], busy }), at('10:00'));
+      expect(capacity.open).toBe(true);
+      expect(capacity.technicianIds).toEqual([2]);
+
+      const bothBusy = [...busy, { start: at('10:00'), end: at('12:00'), technicianId: 2 }];
+      expect(checkSlotCapacity(options({ technicians: [tech(1), tech(2)], busy: bothBusy }), at('10:30')).open).toBe(false);
+    });
+
+    it('should report booked vs. available time per technician', () => {
+      const t = tech(1, { maxJobsPerDay: 4, jobsByDate: { '2025-06-02': 2 } });
+      const bookings = [
+        { start: at('09:00'), end: at('11:00'), technicianId: 1 },
+        { start: at('12:00'), end: at('13:00'), technicianId: 1 },
+        { start: at('09:00'), end: at('11:00'), technicianId: 2 },
+      ];
+      expect(computeTechnicianUtilization(t, '2025-06-02', 1, hours, bookings)).toEqual({
+        technicianId: 1,
+        jobs: 2,
+        maxJobs: 4,
+        bookedMinutes: 180,
+        availableMinutes: 360,
+        utilization: 0.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  inferRecipientTimezone,
+  isWithinQuietHours,
+  nextAllowedSendTime,
+  retryBackoffMs,
+  timezoneForAddress,
+  timezoneForPhone,
+} from '@shared/sendWindow';
+
+/**
+ * Unit Tests for the outbound send-window policy
+ *
+ * 2025-06-02 is in CDT (UTC-5) / EDT (UTC-4) / PDT (UTC-7).
+ */
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe('Send Window - Unit Tests', () => {
+  it('should detect quiet hours in the recipient timezone', () => {
+    // 02:30 UTC = 9:30 PM Chicago, but only 7:30 PM in Los Angeles
+    expect(isWithinQuietHours(utc('2025-06-03T02:30:00'), 'America/Chicago')).toBe(true);
+    expect(isWithinQuietHours(utc('2025-06-03T02:30:00'), 'America/Los_Angeles')).toBe(false);
+    // 13:00 UTC = 8:00 AM Chicago, sending resumes
+    expect(isWithinQuietHours(utc('2025-06-02T13:00:00'), 'America/Chicago')).toBe(false);
+  });
+
+  it('should support quiet windows that do not wrap midnight', () => {
+    const quiet = { startHour: 1, endHour: 6 };
+    expect(isWithinQuietHours(utc('2025-06-02T08:00:00'), 'America/Chicago', quiet)).toBe(true); // 3 AM
+    expect(isWithinQuietHours(utc('2025-06-02T12:00:00'), 'America/Chicago', quiet)).toBe(false); // 7 AM
+    expect(isWithinQuietHours(utc('2025-06-02T12:00:00'), 'UTC', { startHour: 0, endHour: 0 })).toBe(false);
+  });
+
+  it('should push sends to the next local end hour', () => {
+    // 10 PM Chicago -> 8 AM Chicago next day (13:00 UTC)
+    expect(nextAllowedSendTime(utc('2025-06-03T03:00:00'), 'America/Chicago').toISOString())
+      .toBe('2025-06-03T13:00:00.000Z');
+    // 2 AM Chicago -> 8 AM the same day
+    expect(nextAllowedSendTime(utc('2025-06-03T07:00:00'), 'America/Chicago').toISOString())
+      .toBe('2025-06-03T13:00:00.000Z');
+    // Outside quiet hours the time is unchanged
+    const noon = utc('2025-06-02T17:00:00');
+    expect(nextAllowedSendTime(noon, 'America/Chicago')).toBe(noon);
+  });
+
+  it('should infer timezones from area codes and addresses', () => {
+    expect(timezoneForPhone('+19185550100')).toBe('America/Chicago');
+    expect(timezoneForPhone('(212) 555-0100')).toBe('America/New_York');
+    expect(timezoneForPhone('+16025550100')).toBe('America/Phoenix');
+    expect(timezoneForPhone('555')).toBeNull();
+
+    expect(timezoneForAddress('123 Main St, Denver, CO 80202')).toBe('America/Denver');
+    expect(timezoneForAddress('1 Ocean Ave, Santa Monica, ca 90401, USA')).toBe('America/Los_Angeles');
+    expect(timezoneForAddress('somewhere')).toBeNull();
+  });
+
+  it('should prefer the address over the area code, then fall back to the tenant', () => {
+    expect(inferRecipientTimezone({ address: '9 Pine St, Seattle, WA 98101', phone: '+19185550100' }, 'UTC'))
+      .toBe('America/Los_Angeles');
+    expect(inferRecipientTimezone({ phone: '+19185550100' }, 'UTC')).toBe('America/Chicago');
+    expect(inferRecipientTimezone({ phone: '+442071234567' }, 'America/Chicago')).toBe('America/Chicago');
+  });
+
+  it('should back off exponentially with a cap', () => {
+    const noJitter = () => 0;
+    expect(retryBackoffMs(1, 60000, 3600000, noJitter)).toBe(60000);
+    expect(retryBackoffMs(3, 60000, 3600000, noJitter)).toBe(240000);
+    expect(retryBackoffMs(20, 60000, 3600000, noJitter)).toBe(3600000);
+    expect(retryBackoffMs(1, 60000, 3600000, () => 1)).toBe(66000);
+  });
+});
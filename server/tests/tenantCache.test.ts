@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryCacheBackend, TenantCache, type CacheBackend } from '../cache/tenantCache';
+
+/**
+ * Unit Tests for the tenant-scoped cache
+ *
+ * Uses the in-memory backend as a stand-in for Redis.
+ */
+
+describe('Tenant Cache - Unit Tests', () => {
+  let backend: MemoryCacheBackend;
+  let cache: TenantCache;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend({ maxSize: 100 });
+    cache = new TenantCache(backend);
+  });
+
+  it('should isolate tenants that use the same key', async () => {
+    const tenantA = cache.forTenant('tenant-a');
+    const tenantB = cache.forTenant('tenant-b');
+
+    await tenantA.set('dashboard:today:2025-06-02', { appointments: ['a'] }, { ttlSeconds: 60 });
+
+    expect(await tenantA.get('dashboard:today:2025-06-02')).toEqual({ appointments: ['a'] });
+    expect(await tenantB.get('dashboard:today:2025-06-02')).toBeNull();
+  });
+
+  it('should invalidate by tag for one tenant only', async () => {
+    const tenantA = cache.forTenant('tenant-a');
+    const tenantB = cache.forTenant('tenant-b');
+
+    await tenantA.set('counts', 1, { ttlSeconds: 60, tags: ['appointments'] });
+    await tenantA.set('weather', 'sunny', { ttlSeconds: 60, tags: ['weather'] });
+    await tenantB.set('counts', 2, { ttlSeconds: 60, tags: ['appointments'] });
+
+    await tenantA.invalidateTags(['appointments']);
+
+    expect(await tenantA.get('counts')).toBeNull();
+    expect(await tenantA.get('weather')).toBe('sunny');
+    expect(await tenantB.get('counts')).toBe(2);
+
+    // Re-cached after invalidation is fresh again
+    await tenantA.set('counts', 3, { ttlSeconds: 60, tags: ['appointments'] });
+    expect(await tenantA.get('counts')).toBe(3);
+  });
+
+  it('should clear every entry for a tenant', async () => {
+    const tenantA = cache.forTenant('tenant-a');
+    await tenantA.set('one', 1, { ttlSeconds: 60, tags: ['appointments'] });
+    await tenantA.set('two', 2, { ttlSeconds: 60 });
+
+    await tenantA.clear();
+
+    expect(await tenantA.get('one')).toBeNull();
+    expect(await tenantA.get('two')).toBeNull();
+  });
+
+  it('should not cache a load that raced with an invalidation', async () => {
+    const tenantA = cache.forTenant('tenant-a');
+    let loads = 0;
+
+    const value = await tenantA.wrap('counts', { ttlSeconds: 60, tags: ['appointments'] }, async () => {
+      loads++;
+      await tenantA.invalidateTags(['appointments']);
+      return 'stale';
+    });
+    expect(value).toBe('stale');
+
+    const reloaded = await tenantA.wrap('counts', { ttlSeconds: 60, tags: ['appointments'] }, async () => {
+      loads++;
+      return 'fresh';
+    });
+    expect(reloaded).toBe('fresh');
+    expect(loads).toBe(2);
+
+    // Third call is a hit
+    await tenantA.wrap('counts', { ttlSeconds: 60, tags: ['appointments'] }, async () => {
+      loads++;
+      return 'unused';
+    });
+    expect(loads).toBe(2);
+  });
+
+  it('should bound memory with LRU eviction', async () => {
+    const small = new TenantCache(new MemoryCacheBackend({ maxSize: 3 })).forTenant('tenant-a');
+    for (let i = 0; i < 5; i++) {
+      await small.set(`key-${i}`, i, { ttlSeconds: 60 });
+    }
+    expect(await small.get('key-0')).toBeNull();
+    expect(await small.get('key-4')).toBe(4);
+  });
+
+  it('should degrade to misses when the backend fails', async () => {
+    const broken: CacheBackend = {
+      name: 'broken',
+      get: async () => { throw new Error('connection refused'); },
+      mget: async () => { throw new Error('connection refused'); },
+      set: async () => { throw new Error('connection refused'); },
+      del: async () => { throw new Error('connection refused'); },
+      incr: async () => { throw new Error('connection refused'); },
+    };
+    const tenantA = new TenantCache(broken).forTenant('tenant-a');
+
+    await tenantA.set('key', 'value', { ttlSeconds: 60 });
+    expect(await tenantA.get('key')).toBeNull();
+    await expect(tenantA.invalidateTags(['appointments'])).resolves.toBeUndefined();
+    expect(await tenantA.wrap('key', { ttlSeconds: 60 }, async () => 'loaded')).toBe('loaded');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getTravelMatrix,
+  getTravelTimeMinutes,
+  getTimeOfDayBucket,
+  coordinateKey,
+  setTravelTimeProvider,
+  OfflineDistanceProvider,
+  type TravelTimeProvider,
+} from '../services/travelTimeService';
+import type { GeoPoint } from '@shared/routeOptimization';
+
+/**
+ * Unit Tests for the travel time provider layer
+ *
+ * Runs without DATABASE_URL, so only the in-memory cache is exercised.
+ */
+
+class StubProvider implements TravelTimeProvider {
+  readonly name = 'stub';
+  calls: { origins: GeoPoint[]; destinations: GeoPoint[] }[] = [];
+
+  constructor(private readonly answer: (o: GeoPoint, d: GeoPoint) => number | null) {}
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]) {
+    this.calls.push({ origins, destinations });
+    return origins.map(o => destinations.map(d => this.answer(o, d)));
+  }
+}
+
+const tulsa = { lat: 36.154, lng: -95.993 };
+const brokenArrow = { lat: 36.053, lng: -95.791 };
+const jenks = { lat: 36.023, lng: -95.968 };
+
+describe('Travel Time Service', () => {
+  const originalProviderEnv = process.env.TRAVEL_TIME_PROVIDER;
+
+  beforeEach(() => {
+    setTravelTimeProvider(null);
+  });
+
+  afterEach(() => {
+    setTravelTimeProvider(null);
+    if (originalProviderEnv === undefined) {
+      delete process.env.TRAVEL_TIME_PROVIDER;
+    } else {
+      process.env.TRAVEL_TIME_PROVIDER = originalProviderEnv;
+    }
+  });
+
+  describe('cache keys', () => {
+    it('should round coordinates so nearby addresses share a key', () => {
+      expect(coordinateKey({ lat: 36.15412, lng: -95.99288 })).toBe('36.154,-95.993');
+      expect(coordinateKey({ lat: 36.15398, lng: -95.99311 })).toBe('36.154,-95.993');
+    });
+
+    it('should bucket departures by local time of day', () => {
+      // 13:30Z = 8:30 AM Chicago (CDT)
+      expect(getTimeOfDayBucket(new Date('2025-06-02T13:30:00Z'), 'America/Chicago')).toBe('am_peak');
+      expect(getTimeOfDayBucket(new Date('2025-06-02T17:00:00Z'), 'America/Chicago')).toBe('midday');
+      expect(getTimeOfDayBucket(new Date('2025-06-02T22:00:00Z'), 'America/Chicago')).toBe('pm_peak');
+      expect(getTimeOfDayBucket(new Date('2025-06-03T03:00:00Z'), 'America/Chicago')).toBe('off_peak');
+    });
+  });
+
+  describe('offline mode', () => {
+    it('should estimate drive times when no live provider is configured', async () => {
+      process.env.TRAVEL_TIME_PROVIDER = 'offline';
+
+      const result = await getTravelMatrix([tulsa], [brokenArrow, jenks]);
+
+      expect(result.minutes[0][0]).toBeGreaterThan(0);
+      expect(result.estimated[0]).toEqual([true, true]);
+    });
+
+    it('should never return null for valid coordinates', async () => {
+      process.env.TRAVEL_TIME_PROVIDER = 'offline';
+      const minutes = await getTravelTimeMinutes(tulsa.lat, tulsa.lng, jenks.lat, jenks.lng);
+      expect(minutes).not.toBeNull();
+    });
+
+    it('should return null for invalid coordinates', async () => {
+      expect(await getTravelTimeMinutes(NaN, tulsa.lng, jenks.lat, jenks.lng)).toBeNull();
+    });
+
+    it('should match the OfflineDistanceProvider estimate', async () => {
+      process.env.TRAVEL_TIME_PROVIDER = 'offline';
+      const [[expected]] = await new OfflineDistanceProvider().getMatrix([tulsa], [jenks]);
+      const { minutes } = await getTravelMatrix([tulsa], [jenks]);
+      expect(minutes[0][0]).toBe(expected);
+    });
+  });
+
+  describe('live provider', () => {
+    it('should fetch the whole matrix in one batched call', async () => {
+      const stub = new StubProvider(() => 15);
+      setTravelTimeProvider(stub);
+
+      const result = await getTravelMatrix([tulsa, brokenArrow, jenks], [tulsa, brokenArrow, jenks]);
+
+      expect(stub.calls).toHaveLength(1);
+      expect(result.minutes).toEqual([
+        [0, 15, 15],
+        [15, 0, 15],
+        [15, 15, 0],
+      ]);
+      expect(result.estimated.flat().every(e => e === false)).toBe(true);
+    });
+
+    it('should serve repeated lookups from cache', async () => {
+      const stub = new StubProvider(() => 22);
+      setTravelTimeProvider(stub);
+      const departAt = new Date('2025-06-02T17:00:00Z');
+
+      await getTravelTimeMinutes(tulsa.lat, tulsa.lng, jenks.lat, jenks.lng, { departAt });
+      const again = await getTravelTimeMinutes(tulsa.lat, tulsa.lng, jenks.lat, jenks.lng, { departAt });
+
+      expect(again).toBe(22);
+      expect(stub.calls).toHaveLength(1);
+    });
+
+    it('should fall back to the offline estimate for legs the provider cannot answer', async () => {
+      const stub = new StubProvider((o, d) => (d === jenks ? null : 18));
+      setTravelTimeProvider(stub);
+
+      const result = await getTravelMatrix([tulsa], [brokenArrow, jenks]);
+
+      expect(result.minutes[0][0]).toBe(18);
+      expect(result.estimated[0][0]).toBe(false);
+      expect(result.minutes[0][1]).toBeGreaterThan(0);
+      expect(result.estimated[0][1]).toBe(true);
+    });
+  });
+});
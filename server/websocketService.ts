@@ -256,7 +256,12 @@ export function broadcastTypingIndicator(conversationId: number, username: strin
  * Broadcast job status update to admin dashboard
  * Used for real-time updates when technicians update job status
  */
-export function broadcastJobStatusUpdate(appointmentId: number, status: string, appointment: any) {
+export function broadcastJobStatusUpdate(
+  appointmentId: number,
+  status: string,
+  appointment: any,
+  tracking?: { trackingUrl: string | null; etaMinutes: number | null; etaAt: Date | null; customerNotified: boolean }
+) {
   if (!io) {
     console.warn('WebSocket not initialized, cannot broadcast job status update');
     return;
@@ -268,6 +273,7 @@ export function broadcastJobStatusUpdate(appointmentId: number, status: string,
     appointmentId,
     status,
     appointment,
+    tracking: tracking ?? null,
     timestamp: new Date().toISOString(),
   });
 }
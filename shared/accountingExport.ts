@@ -0,0 +1,365 @@
+/**
+ * Accounting Export
+ *
+ * Maps the business's records onto what desktop/cloud accounting packages
+ * import (QuickBooks IIF, Xero-style CSV journals):
+ * - services -> items
+ * - customers -> accounting customers
+ * - paid invoices -> sales receipts, refunds -> refund receipts
+ *
+ * Everything here is pure so an export can be produced fully offline. Each
+ * record gets a fingerprint of the fields that reach the books; sync state
+ * stores the last fingerprint sent so re-running an export only picks up
+ * new or changed records. Both file formats carry each record's type and
+ * local id, which is what the acknowledgement CSV is keyed on.
+ */
+
+export const ACCOUNTING_RECORD_TYPES = ['item', 'customer', 'sales_receipt', 'refund_receipt'] as const;
+export type AccountingRecordType = typeof ACCOUNTING_RECORD_TYPES[number];
+
+export const ACCOUNTING_EXPORT_FORMATS = ['iif', 'csv'] as const;
+export type AccountingExportFormat = typeof ACCOUNTING_EXPORT_FORMATS[number];
+
+export interface AccountingAccounts {
+  income: string;
+  discounts: string;
+  undepositedFunds: string;
+  salesTax: string;
+}
+
+export const DEFAULT_ACCOUNTING_ACCOUNTS: AccountingAccounts = {
+  income: 'Services Income',
+  discounts: 'Discounts Given',
+  undepositedFunds: 'Undeposited Funds',
+  salesTax: 'Sales Tax Payable',
+};
+
+export interface AccountingItem {
+  localId: number;
+  name: string;
+  description: string;
+  price: number;
+}
+
+export interface AccountingCustomer {
+  localId: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface AccountingReceiptLine {
+  itemName: string | null; // Only service lines map to an item
+  account: 'income' | 'discounts';
+  description: string;
+  quantity: number;
+  amount: number; // Signed, pre-tax
+}
+
+export interface AccountingReceipt {
+  localId: number; // Invoice id for sales receipts, payment id for refunds
+  type: 'sales_receipt' | 'refund_receipt';
+  number: string;
+  date: string; // yyyy-MM-dd in the tenant's timezone
+  customerName: string;
+  paymentMethod: string;
+  memo: string;
+  lines: AccountingReceiptLine[];
+  tax: number;
+  total: number; // Always positive; refunds are reversed when rendered
+}
+
+export interface AccountingBatch {
+  items: AccountingItem[];
+  customers: AccountingCustomer[];
+  receipts: AccountingReceipt[];
+}
+
+export interface AccountingRecord {
+  recordType: AccountingRecordType;
+  localId: number;
+  fingerprint: string;
+}
+
+export interface AccountingSyncState {
+  recordType: string;
+  localId: number;
+  fingerprint: string;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * FNV-1a over a key-order-independent serialisation - cheap, stable across
+ * processes, and only used to spot changes, never for security
+ */
+export function fingerprintAccountingRecord(record: object): string {
+  const text = stableStringify(record);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function listAccountingRecords(batch: AccountingBatch): AccountingRecord[] {
+  return [
+    ...batch.items.map(item => ({ recordType: 'item' as const, localId: item.localId, fingerprint: fingerprintAccountingRecord(item) })),
+    ...batch.customers.map(customer => ({ recordType: 'customer' as const, localId: customer.localId, fingerprint: fingerprintAccountingRecord(customer) })),
+    ...batch.receipts.map(receipt => ({ recordType: receipt.type, localId: receipt.localId, fingerprint: fingerprintAccountingRecord(receipt) })),
+  ];
+}
+
+const syncKey = (recordType: string, localId: number) => `${recordType}:${localId}`;
+
+/**
+ * Drops every record whose fingerprint matches what was last exported, so
+ * the same export can be re-run safely
+ */
+export function selectPendingRecords(batch: AccountingBatch, state: AccountingSyncState[]): AccountingBatch {
+  const synced = new Map(state.map(row => [syncKey(row.recordType, row.localId), row.fingerprint]));
+  const pending = (recordType: AccountingRecordType, record: { localId: number }) =>
+    synced.get(syncKey(recordType, record.localId)) !== fingerprintAccountingRecord(record);
+
+  return {
+    items: batch.items.filter(item => pending('item', item)),
+    customers: batch.customers.filter(customer => pending('customer', customer)),
+    receipts: batch.receipts.filter(receipt => pending(receipt.type, receipt)),
+  };
+}
+
+export function countAccountingRecords(batch: AccountingBatch): Record<AccountingRecordType, number> {
+  return {
+    item: batch.items.length,
+    customer: batch.customers.length,
+    sales_receipt: batch.receipts.filter(r => r.type === 'sales_receipt').length,
+    refund_receipt: batch.receipts.filter(r => r.type === 'refund_receipt').length,
+  };
+}
+
+// ------------------------------------------------------------
+// IIF (QuickBooks Desktop)
+// ------------------------------------------------------------
+
+const iifField = (value: string | number | null | undefined) =>
+  String(value ?? '').replace(/[\t\r\n]+/g, ' ').replace(/"/g, "'");
+
+const iifRow = (fields: Array<string | number | null | undefined>) => fields.map(iifField).join('\t');
+
+// IIF wants MM/DD/YYYY
+function iifDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+const iifAmount = (amount: number) => roundMoney(amount).toFixed(2);
+
+/**
+ * Lists and transactions end in RECORDTYPE/LOCALID columns (ignored by
+ * QuickBooks) so the ids it assigns can be matched back to our records
+ */
+export function renderIifJournal(batch: AccountingBatch, accounts: AccountingAccounts = DEFAULT_ACCOUNTING_ACCOUNTS): string {
+  const rows: string[] = [];
+
+  if (batch.customers.length > 0) {
+    rows.push(iifRow(['!CUST', 'NAME', 'EMAIL', 'PHONE1', 'BADDR1', 'RECORDTYPE', 'LOCALID']));
+    for (const customer of batch.customers) {
+      rows.push(iifRow(['CUST', customer.name, customer.email, customer.phone, customer.address, 'customer', customer.localId]));
+    }
+  }
+
+  if (batch.items.length > 0) {
+    rows.push(iifRow(['!INVITEM', 'NAME', 'INVITEMTYPE', 'DESC', 'PRICE', 'ACCNT', 'RECORDTYPE', 'LOCALID']));
+    for (const item of batch.items) {
+      rows.push(iifRow(['INVITEM', item.name, 'SERV', item.description, iifAmount(item.price), accounts.income, 'item', item.localId]));
+    }
+  }
+
+  if (batch.receipts.length > 0) {
+    rows.push(iifRow(['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'PAYMETH', 'RECORDTYPE', 'LOCALID']));
+    rows.push(iifRow(['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'INVITEM', 'QNTY']));
+    rows.push(iifRow(['!ENDTRNS']));
+
+    for (const receipt of batch.receipts) {
+      // The TRNS line and its splits must sum to zero; refunds flip every sign
+      const sign = receipt.type === 'refund_receipt' ? -1 : 1;
+      const trnsType = receipt.type === 'refund_receipt' ? 'CASH REFUND' : 'CASH SALE';
+      const date = iifDate(receipt.date);
+
+      rows.push(iifRow([
+        'TRNS', trnsType, date, accounts.undepositedFunds, receipt.customerName,
+        iifAmount(sign * receipt.total), receipt.number, receipt.memo, receipt.paymentMethod,
+        receipt.type, receipt.localId,
+      ]));
+      for (const line of receipt.lines) {
+        rows.push(iifRow([
+          'SPL', trnsType, date, accounts[line.account], receipt.customerName,
+          iifAmount(-sign * line.amount), receipt.number, line.description, line.itemName, -sign * line.quantity,
+        ]));
+      }
+      if (receipt.tax !== 0) {
+        rows.push(iifRow([
+          'SPL', trnsType, date, accounts.salesTax, receipt.customerName,
+          iifAmount(-sign * receipt.tax), receipt.number, 'Sales tax', '', '',
+        ]));
+      }
+      rows.push(iifRow(['ENDTRNS']));
+    }
+  }
+
+  return rows.length > 0 ? `${rows.join('\r\n')}\r\n` : '';
+}
+
+// ------------------------------------------------------------
+// CSV journal (Xero manual journals, spreadsheets, anything else)
+// ------------------------------------------------------------
+
+export const CSV_JOURNAL_HEADER = [
+  'Date', 'Reference', 'Type', 'Account', 'Name', 'Description', 'Debit', 'Credit', 'Record Type', 'Local ID',
+];
+
+function csvField(value: string | number | null | undefined): string {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Double-entry lines per receipt: money lands in undeposited funds, income
+ * and tax are credited (discounts debited). Refunds are the same entry
+ * reversed. Items and customers aren't journal entries so they only appear
+ * by name here. Adding an external_id column to this file makes it a valid
+ * acknowledgement CSV.
+ */
+export function renderCsvJournal(batch: AccountingBatch, accounts: AccountingAccounts = DEFAULT_ACCOUNTING_ACCOUNTS): string {
+  const rows = [CSV_JOURNAL_HEADER.join(',')];
+
+  const push = (receipt: AccountingReceipt, account: string, description: string, amount: number) => {
+    // Positive amounts are debits
+    const rounded = roundMoney(amount);
+    if (rounded === 0) return;
+    rows.push([
+      receipt.date,
+      receipt.number,
+      receipt.type === 'refund_receipt' ? 'Refund Receipt' : 'Sales Receipt',
+      account,
+      receipt.customerName,
+      description,
+      rounded > 0 ? rounded.toFixed(2) : '',
+      rounded < 0 ? (-rounded).toFixed(2) : '',
+      receipt.type,
+      receipt.localId,
+    ].map(csvField).join(','));
+  };
+
+  for (const receipt of batch.receipts) {
+    const sign = receipt.type === 'refund_receipt' ? -1 : 1;
+    push(receipt, accounts.undepositedFunds, receipt.memo || `Payment (${receipt.paymentMethod})`, sign * receipt.total);
+    for (const line of receipt.lines) {
+      push(receipt, accounts[line.account], line.description, -sign * line.amount);
+    }
+    push(receipt, accounts.salesTax, 'Sales tax', -sign * receipt.tax);
+  }
+
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+export function renderAccountingExport(
+  batch: AccountingBatch,
+  format: AccountingExportFormat,
+  accounts: AccountingAccounts = DEFAULT_ACCOUNTING_ACCOUNTS
+): string {
+  return format === 'iif' ? renderIifJournal(batch, accounts) : renderCsvJournal(batch, accounts);
+}
+
+// ------------------------------------------------------------
+// Acknowledgements - the return leg of the sync
+// ------------------------------------------------------------
+
+export interface AccountingAcknowledgement {
+  recordType: AccountingRecordType;
+  localId: number;
+  externalId: string;
+}
+
+/**
+ * Reads the ids the accounting package assigned back in. Expects a CSV with
+ * record_type, local_id and external_id columns (any order, any case,
+ * "Local ID" works too, extra columns ignored), so an exported CSV journal
+ * can be sent back with an external_id column added. Rows that don't parse
+ * are reported rather than dropped silently; a record listed more than once
+ * (one journal line per account) is acknowledged once, last row wins.
+ */
+export function parseAcknowledgementCsv(text: string): { acknowledgements: AccountingAcknowledgement[]; errors: string[] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const acknowledged = new Map<string, AccountingAcknowledgement>();
+  const errors: string[] = [];
+  if (lines.length === 0) return { acknowledgements: [], errors: ['File is empty'] };
+
+  const header = splitCsvLine(lines[0]).map(h => h.trim().toLowerCase().replace(/\s+/g, '_'));
+  const typeCol = header.indexOf('record_type');
+  const idCol = header.indexOf('local_id');
+  const externalCol = header.indexOf('external_id');
+  if (typeCol < 0 || idCol < 0 || externalCol < 0) {
+    return { acknowledgements: [], errors: ['Header must include record_type, local_id and external_id'] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const fields = splitCsvLine(line);
+    const recordType = fields[typeCol]?.trim() as AccountingRecordType;
+    const localId = Number(fields[idCol]);
+    const externalId = fields[externalCol]?.trim();
+
+    if (!ACCOUNTING_RECORD_TYPES.includes(recordType)) {
+      errors.push(`Row ${index + 2}: unknown record type "${fields[typeCol] ?? ''}"`);
+    } else if (!Number.isInteger(localId) || localId <= 0) {
+      errors.push(`Row ${index + 2}: invalid local id`);
+    } else if (!externalId) {
+      errors.push(`Row ${index + 2}: missing external id`);
+    } else {
+      acknowledged.set(syncKey(recordType, localId), { recordType, localId, externalId });
+    }
+  });
+
+  return { acknowledgements: Array.from(acknowledged.values()), errors };
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
@@ -0,0 +1,165 @@
+/**
+ * AI Voice Receptionist
+ *
+ * Shared pieces of the streaming voice agent: Twilio Media Streams message
+ * shapes, call transcripts, barge-in timing and the warm-transfer TwiML.
+ * Audio on both legs is 8kHz G.711 mu-law, one byte per sample, so payload
+ * length maps directly to playback time.
+ */
+
+// Tools the voice agent may call. The scheduling tools are the SMS agent's;
+// the rest are handled by the voice session itself.
+export const AI_VOICE_SCHEDULING_TOOLS = [
+  'check_customer_database',
+  'validate_address',
+  'get_available_slots',
+  'create_appointment',
+  'get_existing_appointment',
+  'reschedule_appointment',
+] as const;
+
+export const AI_VOICE_SESSION_TOOLS = ['update_booking_details', 'lookup_business_info', 'transfer_to_human', 'end_call'] as const;
+
+export type AiVoiceSessionTool = typeof AI_VOICE_SESSION_TOOLS[number];
+
+// Media Streams messages sent by Twilio over the websocket
+export type TwilioStreamMessage =
+  | { event: 'connected'; protocol: string; version: string }
+  | {
+      event: 'start';
+      streamSid: string;
+      start: {
+        streamSid: string;
+        callSid: string;
+        accountSid: string;
+        tracks: string[];
+        customParameters?: Record<string, string>;
+      };
+    }
+  | { event: 'media'; streamSid: string; media: { track?: string; timestamp: string; payload: string } }
+  | { event: 'mark'; streamSid: string; mark: { name: string } }
+  | { event: 'dtmf'; streamSid: string; dtmf: { digit: string } }
+  | { event: 'stop'; streamSid: string; stop?: { callSid: string } };
+
+export function parseTwilioStreamMessage(raw: string): TwilioStreamMessage | null {
+  try {
+    const message = JSON.parse(raw);
+    return message && typeof message.event === 'string' ? (message as TwilioStreamMessage) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface VoiceTranscriptTurn {
+  role: 'caller' | 'agent';
+  text: string;
+  at: string; // ISO timestamp
+}
+
+/**
+ * Add a turn, folding it into the previous one when the same side keeps
+ * talking (server VAD splits long answers on pauses)
+ */
+export function appendTranscriptTurn(
+  turns: VoiceTranscriptTurn[],
+  role: VoiceTranscriptTurn['role'],
+  text: string,
+  at: Date = new Date()
+): VoiceTranscriptTurn[] {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return turns;
+
+  const last = turns[turns.length - 1];
+  if (last && last.role === role) {
+    return [...turns.slice(0, -1), { ...last, text: `${last.text} ${clean}` }];
+  }
+  return [...turns, { role, text: clean, at: at.toISOString() }];
+}
+
+export function formatVoiceTranscript(turns: VoiceTranscriptTurn[]): string {
+  return turns.map((turn) => `${turn.role === 'caller' ? 'Caller' : 'Agent'}: ${turn.text}`).join('\n');
+}
+
+const MULAW_SAMPLES_PER_MS = 8;
+
+/**
+ * Playback length of a base64 mu-law payload
+ */
+export function mulawPayloadMs(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = Math.floor((base64.length * 3) / 4) - padding;
+  return Math.max(0, Math.floor(bytes / MULAW_SAMPLES_PER_MS));
+}
+
+/**
+ * How much of the agent's reply the caller actually heard when they
+ * interrupted: wall time since playback started, capped at what was sent.
+ * Used to truncate the model's copy of the reply so it doesn't assume the
+ * caller heard the rest.
+ */
+export function heardAudioMs(playbackStartedAt: number | null, sentAudioMs: number, now: number): number {
+  if (playbackStartedAt === null) return 0;
+  return Math.max(0, Math.min(now - playbackStartedAt, sentAudioMs));
+}
+
+export interface VoiceTransferTarget {
+  kind: 'phone' | 'sip';
+  address: string;
+  label?: string;
+}
+
+/**
+ * First forward action in the tenant's IVR menu, else the line's forward
+ * number. Null when nobody can take the call.
+ */
+export function resolveTransferTarget(
+  menuItems: Array<{ actionType: string; label?: string | null; actionPayload?: Record<string, any> | null }>,
+  forwardingNumber?: string | null
+): VoiceTransferTarget | null {
+  for (const item of menuItems) {
+    const payload = item.actionPayload || {};
+    if (item.actionType === 'FORWARD_PHONE' && payload.phoneNumber) {
+      return { kind: 'phone', address: payload.phoneNumber, label: item.label ?? undefined };
+    }
+    if (item.actionType === 'FORWARD_SIP' && payload.sipUri) {
+      return { kind: 'sip', address: payload.sipUri, label: item.label ?? undefined };
+    }
+  }
+  return forwardingNumber ? { kind: 'phone', address: forwardingNumber } : null;
+}
+
+function escapeXml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export const WHISPER_SUMMARY_MAX_CHARS = 300;
+
+/**
+ * Warm transfer: dial the human and whisper a summary to them before the
+ * caller is connected. Unanswered dials fall through to the dial-status
+ * handler like any other IVR forward.
+ */
+export function buildWarmTransferTwiml(opts: {
+  target: VoiceTransferTarget;
+  callerNumber: string;
+  callbackBaseUrl: string;
+  summary: string;
+}): string {
+  const summary = opts.summary.replace(/\s+/g, ' ').trim().slice(0, WHISPER_SUMMARY_MAX_CHARS);
+  const whisperUrl = `${opts.callbackBaseUrl}/twilio/voice/ai/whisper?summary=${encodeURIComponent(summary)}`;
+  const endpoint = opts.target.kind === 'sip'
+    ? `<Sip url="${escapeXml(whisperUrl)}">${escapeXml(opts.target.address)}</Sip>`
+    : `<Number url="${escapeXml(whisperUrl)}">${escapeXml(opts.target.address)}</Number>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Dial callerId="${escapeXml(opts.callerNumber)}" timeout="25" action="${opts.callbackBaseUrl}/twilio/voice/dial-status" method="POST">
+    ${endpoint}
+  </Dial>
+</Response>`;
+}
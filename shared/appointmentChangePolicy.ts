@@ -0,0 +1,126 @@
+/**
+ * Appointment Change Policy
+ *
+ * Rules for customers rescheduling or cancelling their own appointments
+ * from the portal. Each tenant sets a minimum notice, a late-cancel fee and
+ * a cap on reschedules:
+ * - Inside the notice window a reschedule is refused (the customer has to
+ *   call) but a cancellation goes through with the late fee.
+ * - The late fee is only ever kept out of a deposit that was actually paid;
+ *   whatever is left of the deposit is owed back to the customer.
+ */
+
+import { z } from "zod";
+
+export interface AppointmentChangePolicy {
+  minNoticeHours: number;
+  lateCancelFee: number; // Dollars kept from a paid deposit for a late cancel
+  maxReschedules: number;
+}
+
+export const MAX_MIN_NOTICE_HOURS = 168;
+export const MAX_RESCHEDULES_SETTING = 10;
+
+export const appointmentChangePolicySchema = z.object({
+  minNoticeHours: z.number().int()
+    .min(0, 'Notice can\'t be negative')
+    .max(MAX_MIN_NOTICE_HOURS, `Notice can be at most ${MAX_MIN_NOTICE_HOURS} hours`),
+  lateCancelFee: z.number()
+    .min(0, 'Late-cancel fee can\'t be negative')
+    .max(10000, 'Late-cancel fee is too large'),
+  maxReschedules: z.number().int()
+    .min(0, 'Reschedule cap can\'t be negative')
+    .max(MAX_RESCHEDULES_SETTING, `Allow at most ${MAX_RESCHEDULES_SETTING} reschedules`),
+});
+
+export const DEFAULT_APPOINTMENT_CHANGE_POLICY: AppointmentChangePolicy = {
+  minNoticeHours: 24,
+  lateCancelFee: 0,
+  maxReschedules: 2,
+};
+
+// Once a tech is on the way (or the job is done) changes go through staff
+export const CUSTOMER_CHANGEABLE_STATUSES = ['pending', 'confirmed', 'assigned'];
+
+// Same categories as cancellationFeedback.category
+export const CANCELLATION_CATEGORIES = [
+  'scheduling', 'pricing', 'service_concerns', 'personal', 'found_alternative', 'other',
+] as const;
+
+export type CancellationCategory = typeof CANCELLATION_CATEGORIES[number];
+
+export const CANCELLATION_CATEGORY_LABELS: Record<CancellationCategory, string> = {
+  scheduling: 'Scheduling issues',
+  pricing: 'Pricing concerns',
+  service_concerns: 'Service concerns',
+  personal: 'Personal reasons',
+  found_alternative: 'Found an alternative',
+  other: 'Other',
+};
+
+export type AppointmentChangeBlock = 'not_changeable' | 'past' | 'min_notice' | 'max_reschedules';
+
+export const APPOINTMENT_CHANGE_BLOCK_MESSAGES: Record<AppointmentChangeBlock, string> = {
+  not_changeable: 'This appointment can no longer be changed online. Please give us a call.',
+  past: 'This appointment has already started.',
+  min_notice: 'This appointment is too close to reschedule online. Please give us a call.',
+  max_reschedules: 'This appointment has already been rescheduled the maximum number of times. Please give us a call.',
+};
+
+export interface AppointmentChangeSubject {
+  scheduledTime: Date | string;
+  status: string | null;
+  rescheduleCount: number | null;
+  depositPaid: boolean | null;
+  depositAmount: string | number | null;
+}
+
+export interface AppointmentChangeCheck {
+  canReschedule: boolean;
+  rescheduleBlockedBy: AppointmentChangeBlock | null;
+  reschedulesLeft: number;
+  canCancel: boolean;
+  cancelBlockedBy: AppointmentChangeBlock | null;
+  isLateCancel: boolean;
+  lateCancelFee: number; // What cancelling now would keep from the deposit
+  depositRefund: number; // What cancelling now would give back
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export function checkAppointmentChange(
+  appointment: AppointmentChangeSubject,
+  policy: AppointmentChangePolicy,
+  now: Date
+): AppointmentChangeCheck {
+  const untilStart = new Date(appointment.scheduledTime).getTime() - now.getTime();
+  const changeable = CUSTOMER_CHANGEABLE_STATUSES.includes(appointment.status ?? 'pending');
+  const insideNotice = untilStart < policy.minNoticeHours * 60 * 60 * 1000;
+  const reschedulesLeft = Math.max(0, policy.maxReschedules - (appointment.rescheduleCount ?? 0));
+
+  const blockedBy = (): AppointmentChangeBlock | null => {
+    if (!changeable) return 'not_changeable';
+    if (untilStart <= 0) return 'past';
+    return null;
+  };
+
+  const cancelBlockedBy = blockedBy();
+  const rescheduleBlockedBy = cancelBlockedBy
+    ?? (insideNotice ? 'min_notice' : null)
+    ?? (reschedulesLeft === 0 ? 'max_reschedules' : null);
+
+  const deposit = appointment.depositPaid ? Math.max(0, Number(appointment.depositAmount) || 0) : 0;
+  const isLateCancel = !cancelBlockedBy && insideNotice;
+  const lateCancelFee = isLateCancel ? roundMoney(Math.min(Math.max(0, policy.lateCancelFee), deposit)) : 0;
+
+  return {
+    canReschedule: rescheduleBlockedBy === null,
+    rescheduleBlockedBy,
+    reschedulesLeft,
+    canCancel: cancelBlockedBy === null,
+    cancelBlockedBy,
+    isLateCancel,
+    lateCancelFee,
+    depositRefund: roundMoney(deposit - lateCancelFee),
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Booking Attribution
+ *
+ * Every booking link we send out carries a short `src` code naming where it
+ * came from (an SMS campaign, a journey, a port-recovery blast...). The
+ * booking pages keep the code for the visit and send it with the booking, so
+ * the appointment records the touch that produced it. Referral codes,
+ * Facebook/Instagram conversations and outside sites are recognised too.
+ *
+ * Pure helpers only - shared by the booking pages, the server and the
+ * revenue report.
+ */
+
+import { z } from 'zod';
+
+export const ATTRIBUTION_CHANNELS = [
+  'sms_campaign',
+  'email_campaign',
+  'port_recovery',
+  'journey',
+  'referral',
+  'facebook',
+  'instagram',
+  'sms',
+  'chat',
+  'site',
+  'direct',
+] as const;
+export type AttributionChannel = typeof ATTRIBUTION_CHANNELS[number];
+
+export const ATTRIBUTION_CHANNEL_LABELS: Record<AttributionChannel, string> = {
+  sms_campaign: 'SMS campaign',
+  email_campaign: 'Email campaign',
+  port_recovery: 'Port recovery',
+  journey: 'Customer journey',
+  referral: 'Referral',
+  facebook: 'Facebook',
+  instagram: 'Instagram',
+  sms: 'SMS conversation',
+  chat: 'Website chat',
+  site: 'Website',
+  direct: 'Direct / unknown',
+};
+
+export const attributionSourceSchema = z.object({
+  channel: z.enum(ATTRIBUTION_CHANNELS),
+  campaignId: z.number().int().positive().optional(), // SMS/email/port-recovery campaign or journey id
+  referrer: z.string().max(120).optional(), // Referral code, or the referring site's host
+  detail: z.string().max(120).optional(), // e.g. utm_campaign
+});
+
+export type AttributionSource = z.infer<typeof attributionSourceSchema>;
+
+export const ATTRIBUTION_MODELS = ['last_touch', 'first_touch'] as const;
+export type AttributionModel = typeof ATTRIBUTION_MODELS[number];
+
+export const ATTRIBUTION_DIMENSIONS = ['campaign', 'channel', 'referrer'] as const;
+export type AttributionDimension = typeof ATTRIBUTION_DIMENSIONS[number];
+
+// Touches older than this don't count toward a booking
+export const ATTRIBUTION_WINDOW_DAYS = 30;
+
+// Query parameter carrying the code on booking links
+export const ATTRIBUTION_PARAM = 'src';
+
+/**
+ * "sms_campaign.12" for a campaign touch, just the channel otherwise
+ */
+export function formatAttributionCode(source: Pick<AttributionSource, 'channel' | 'campaignId'>): string {
+  return source.campaignId ? `${source.channel}.${source.campaignId}` : source.channel;
+}
+
+export function parseAttributionCode(code: string | null | undefined): AttributionSource | null {
+  if (!code) return null;
+  const [channel, id] = code.trim().split('.');
+  if (!(ATTRIBUTION_CHANNELS as readonly string[]).includes(channel)) return null;
+  const campaignId = id ? Number(id) : undefined;
+  if (campaignId !== undefined && (!Number.isInteger(campaignId) || campaignId <= 0)) return null;
+  return campaignId ? { channel: channel as AttributionChannel, campaignId } : { channel: channel as AttributionChannel };
+}
+
+/**
+ * Add the `src` code to a booking URL, keeping any query it already has
+ */
+export function withAttributionCode(url: string, source: Pick<AttributionSource, 'channel' | 'campaignId'>): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${ATTRIBUTION_PARAM}=${formatAttributionCode(source)}`;
+}
+
+const SOCIAL_HOSTS: Array<{ pattern: RegExp; channel: AttributionChannel }> = [
+  { pattern: /(^|\.)(facebook\.com|fb\.com|fb\.me|messenger\.com)$/, channel: 'facebook' },
+  { pattern: /(^|\.)(instagram\.com|ig\.me)$/, channel: 'instagram' },
+];
+
+const SOCIAL_UTM: Record<string, AttributionChannel> = {
+  facebook: 'facebook',
+  fb: 'facebook',
+  instagram: 'instagram',
+  ig: 'instagram',
+};
+
+/**
+ * Work out where a visitor came from when they land on the site. An explicit
+ * `src` code wins, then a referral code, then utm_source, then the referring
+ * host. Visits from our own pages (or with no referrer) return null.
+ */
+export function sourceFromLanding(landing: {
+  src?: string | null;
+  ref?: string | null;
+  utmSource?: string | null;
+  utmCampaign?: string | null;
+  referrerHost?: string | null;
+  ownHost?: string | null;
+}): AttributionSource | null {
+  const explicit = parseAttributionCode(landing.src);
+  if (explicit) return explicit;
+
+  if (landing.ref) {
+    return { channel: 'referral', referrer: landing.ref.trim().toUpperCase().slice(0, 120) };
+  }
+
+  const detail = landing.utmCampaign?.slice(0, 120) || undefined;
+  const utm = landing.utmSource?.trim().toLowerCase();
+  if (utm) {
+    const channel = SOCIAL_UTM[utm] ?? 'site';
+    return { channel, referrer: utm.slice(0, 120), ...(detail ? { detail } : {}) };
+  }
+
+  const host = landing.referrerHost?.trim().toLowerCase().replace(/^www\./, '');
+  if (!host || host === landing.ownHost?.toLowerCase().replace(/^www\./, '')) return null;
+
+  const social = SOCIAL_HOSTS.find(entry => entry.pattern.test(host));
+  return { channel: social?.channel ?? 'site', referrer: host.slice(0, 120) };
+}
+
+/**
+ * Source for a booking request: the attribution the booking page sent, or
+ * the referral code it applied. Anything malformed is ignored - attribution
+ * never blocks a booking.
+ */
+export function bookingSource(attribution: unknown, referralCode?: string | null): AttributionSource | null {
+  const parsed = attributionSourceSchema.safeParse(attribution);
+  if (parsed.success && parsed.data.channel !== 'direct') return parsed.data;
+  if (referralCode?.trim()) return { channel: 'referral', referrer: referralCode.trim().toUpperCase().slice(0, 120) };
+  return null;
+}
+
+/**
+ * Channel for a booking made inside a conversation, by conversation platform
+ */
+export function channelForPlatform(platform: string | null | undefined): AttributionChannel {
+  switch (platform) {
+    case 'facebook': return 'facebook';
+    case 'instagram': return 'instagram';
+    case 'sms': return 'sms';
+    case 'web': return 'chat';
+    default: return 'direct';
+  }
+}
+
+export interface AttributedBooking {
+  appointmentId: number;
+  lastTouch: AttributionSource | null;
+  firstTouch: AttributionSource | null;
+  revenue: number; // Paid invoice total
+}
+
+export interface AttributionRow {
+  key: string;
+  channel: AttributionChannel;
+  campaignId: number | null;
+  referrer: string | null;
+  label: string;
+  bookings: number;
+  paidBookings: number;
+  revenue: number;
+}
+
+function rowKey(source: AttributionSource, dimension: AttributionDimension): string {
+  switch (dimension) {
+    case 'channel': return source.channel;
+    case 'campaign': return formatAttributionCode(source);
+    case 'referrer': return source.referrer ? `${source.channel}:${source.referrer}` : source.channel;
+  }
+}
+
+function rowLabel(source: AttributionSource, dimension: AttributionDimension): string {
+  const channel = ATTRIBUTION_CHANNEL_LABELS[source.channel];
+  if (dimension === 'campaign' && source.campaignId) return `${channel} #${source.campaignId}`;
+  if (dimension === 'referrer' && source.referrer) return `${source.referrer} (${channel})`;
+  return channel;
+}
+
+/**
+ * Roll bookings up by channel, campaign or referrer under the chosen model,
+ * highest revenue first. Bookings with no touch count as direct.
+ */
+export function summarizeAttribution(
+  bookings: AttributedBooking[],
+  model: AttributionModel,
+  dimension: AttributionDimension
+): AttributionRow[] {
+  const rows = new Map<string, AttributionRow>();
+
+  for (const booking of bookings) {
+    const touch = (model === 'first_touch' ? booking.firstTouch ?? booking.lastTouch : booking.lastTouch) ?? { channel: 'direct' as const };
+    const key = rowKey(touch, dimension);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        channel: touch.channel,
+        campaignId: dimension === 'campaign' ? touch.campaignId ?? null : null,
+        referrer: dimension === 'referrer' ? touch.referrer ?? null : null,
+        label: rowLabel(touch, dimension),
+        bookings: 0,
+        paidBookings: 0,
+        revenue: 0,
+      };
+      rows.set(key, row);
+    }
+    row.bookings++;
+    if (booking.revenue > 0) row.paidBookings++;
+    row.revenue += booking.revenue;
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, revenue: Math.round(row.revenue * 100) / 100 }))
+    .sort((a, b) => b.revenue - a.revenue || b.bookings - a.bookings || a.label.localeCompare(b.label));
+}
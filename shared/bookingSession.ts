@@ -0,0 +1,171 @@
+/**
+ * Booking Session
+ *
+ * The scheduling state the AI agent collects while booking (name, address,
+ * service, chosen slot, ...). Sessions are stored per tenant and customer
+ * phone in booking_sessions, so a restart or a second instance picks up
+ * mid-booking context and a customer texting two businesses gets two
+ * independent sessions.
+ */
+
+// A session with no activity for this long starts over (the same window
+// shouldResetBookingState treats as stale)
+export const BOOKING_SESSION_TTL_HOURS = 24;
+
+export interface SchedulingInfo {
+  // Customer identification
+  customerPhone?: string;
+  customerName?: string;
+  customerEmail?: string;
+  isExistingCustomer?: boolean;
+
+  // Appointment details
+  address?: string;
+  addressValidated?: boolean;
+  isInServiceArea?: boolean;
+  driveTimeMinutes?: number;
+
+  service?: string;
+  selectedTimeSlot?: string;
+  addOns?: string[];
+
+  // Vehicle info
+  vehicles?: Array<{
+    year?: string;
+    make?: string;
+    model?: string;
+    color?: string;
+    condition?: string[];
+  }>;
+
+  // Customer memory (hydrated from DB for returning customers)
+  customerProfileSummary?: string;
+  preferredAddress?: string;
+  preferredVehicles?: Array<{ year?: string; make?: string; model?: string; color?: string }>;
+
+  // Damage Assessment
+  damageAssessmentRequested?: boolean;
+  damageDescription?: string;
+  damageType?: string;
+  damagePhotoKeys?: string[]; // Media storage keys, signed when shown
+  damageAssessmentStatus?: 'pending' | 'reviewed' | 'approved' | 'rejected';
+
+  // Conversation flow tracking
+  stepsCompleted: {
+    customerIdentified: boolean;
+    addressValidated: boolean;
+    serviceSelected: boolean;
+    timeSlotSelected: boolean;
+    upsellsOffered: boolean;
+    finalConfirmation: boolean;
+  };
+
+  // Temporary data
+  offeredTimeSlots?: Array<{
+    time: string;
+    available: boolean;
+  }>;
+  offeredUpsells?: Array<{
+    name: string;
+    price: string;
+    description: string;
+  }>;
+
+  lastUpdated: Date;
+}
+
+export function createSchedulingInfo(phone: string, now: Date = new Date()): SchedulingInfo {
+  return {
+    customerPhone: phone,
+    stepsCompleted: {
+      customerIdentified: false,
+      addressValidated: false,
+      serviceSelected: false,
+      timeSlotSelected: false,
+      upsellsOffered: false,
+      finalConfirmation: false,
+    },
+    lastUpdated: now,
+  };
+}
+
+export function mergeSchedulingInfo(
+  current: SchedulingInfo,
+  updates: Partial<SchedulingInfo>,
+  now: Date = new Date()
+): SchedulingInfo {
+  return {
+    ...current,
+    ...updates,
+    stepsCompleted: {
+      ...current.stepsCompleted,
+      ...(updates.stepsCompleted || {}),
+    },
+    lastUpdated: now,
+  };
+}
+
+export function isBookingSessionExpired(
+  lastActivity: Date | string | number | null | undefined,
+  now: number = Date.now()
+): boolean {
+  if (lastActivity === null || lastActivity === undefined) return false;
+  const at = new Date(lastActivity).getTime();
+  if (isNaN(at)) return true;
+  return now - at > BOOKING_SESSION_TTL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Start a new booking in the same session: who the customer is survives,
+ * what they were booking doesn't. The address is kept only when asked
+ * (createResetBookingState decides whether it's still fresh).
+ */
+export function resetSchedulingInfo(
+  state: SchedulingInfo,
+  options: { preserveAddress?: string; newService?: string } = {},
+  now: Date = new Date()
+): SchedulingInfo {
+  const fresh = createSchedulingInfo(state.customerPhone ?? '', now);
+  const address = options.preserveAddress;
+  return {
+    ...fresh,
+    customerName: state.customerName,
+    customerEmail: state.customerEmail,
+    isExistingCustomer: state.isExistingCustomer,
+    vehicles: state.vehicles,
+    customerProfileSummary: state.customerProfileSummary,
+    preferredAddress: state.preferredAddress,
+    preferredVehicles: state.preferredVehicles,
+    ...(address
+      ? {
+          address,
+          addressValidated: state.address === address ? state.addressValidated : undefined,
+          isInServiceArea: state.address === address ? state.isInServiceArea : undefined,
+          driveTimeMinutes: state.address === address ? state.driveTimeMinutes : undefined,
+        }
+      : {}),
+    ...(options.newService ? { service: options.newService } : {}),
+    stepsCompleted: {
+      ...fresh.stepsCompleted,
+      customerIdentified: state.stepsCompleted.customerIdentified,
+      addressValidated: !!address && state.address === address && state.stepsCompleted.addressValidated,
+      serviceSelected: !!options.newService,
+    },
+  };
+}
+
+/**
+ * Scheduling state read back from the jsonb column (dates arrive as strings)
+ */
+export function reviveSchedulingInfo(raw: unknown, phone: string): SchedulingInfo {
+  if (!raw || typeof raw !== 'object') return createSchedulingInfo(phone);
+  const stored = raw as Partial<SchedulingInfo>;
+  const base = createSchedulingInfo(phone);
+  return {
+    ...base,
+    ...stored,
+    customerPhone: stored.customerPhone ?? phone,
+    stepsCompleted: { ...base.stepsCompleted, ...(stored.stepsCompleted || {}) },
+    lastUpdated: stored.lastUpdated ? new Date(stored.lastUpdated) : base.lastUpdated,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Campaign A/B Tests
+ *
+ * An SMS or email campaign can carry 2-4 content variants. When it starts
+ * sending, a sample of the recipient list is split evenly into one test
+ * cell per variant and the rest is held back. Once the test window is over
+ * the best variant on the chosen metric is sent to everyone held back.
+ *
+ * Everything here is pure so the stats can be unit tested and reused by
+ * the analytics view.
+ */
+
+import { z } from 'zod';
+
+export const EXPERIMENT_METRICS = ['replies', 'clicks', 'bookings', 'opt_outs'] as const;
+export type ExperimentMetric = typeof EXPERIMENT_METRICS[number];
+
+export const EXPERIMENT_METRIC_LABELS: Record<ExperimentMetric, string> = {
+  replies: 'Replies',
+  clicks: 'Link clicks',
+  bookings: 'Bookings',
+  opt_outs: 'Opt-outs',
+};
+
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D'] as const;
+export const MAX_CAMPAIGN_VARIANTS = VARIANT_LABELS.length;
+
+// Two-sided; a leader must beat every other variant at this level to count as significant
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export const experimentSettingsSchema = z.object({
+  samplePercent: z.number().int().min(10).max(100).default(20), // 100 = split everyone, nothing held back
+  winnerMetric: z.enum(EXPERIMENT_METRICS).default('replies'),
+  decideAfterHours: z.number().int().min(1).max(168).default(24),
+  attributionDays: z.number().int().min(1).max(30).default(7), // How long after a send a reply/booking/opt-out still counts
+});
+
+export type ExperimentSettings = z.infer<typeof experimentSettingsSchema>;
+
+export function lowerIsBetter(metric: ExperimentMetric): boolean {
+  return metric === 'opt_outs';
+}
+
+export interface VariantCounts {
+  variantId: number;
+  label: string;
+  recipients: number; // Test-cell recipients actually sent to
+  replies: number;
+  clicks: number;
+  bookings: number;
+  optOuts: number;
+}
+
+export function metricCount(counts: VariantCounts, metric: ExperimentMetric): number {
+  switch (metric) {
+    case 'replies': return counts.replies;
+    case 'clicks': return counts.clicks;
+    case 'bookings': return counts.bookings;
+    case 'opt_outs': return counts.optOuts;
+  }
+}
+
+/**
+ * Shuffle, take samplePercent of the list and deal it round-robin into one
+ * cell per variant. Every cell gets at least one recipient when the list is
+ * big enough, even if the percentage alone would round below that.
+ */
+export function splitIntoTestCells<T>(
+  items: T[],
+  variantCount: number,
+  samplePercent: number,
+  random: () => number = Math.random
+): { cells: T[][]; holdout: T[] } {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const sampleSize = samplePercent >= 100
+    ? shuffled.length
+    : Math.min(shuffled.length, Math.max(variantCount, Math.round(shuffled.length * samplePercent / 100)));
+
+  const cells: T[][] = Array.from({ length: variantCount }, () => []);
+  shuffled.slice(0, sampleSize).forEach((item, i) => cells[i % variantCount].push(item));
+  return { cells, holdout: shuffled.slice(sampleSize) };
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value for a difference between two proportions (pooled
+ * z-test). Returns 1 when there's nothing to compare.
+ */
+export function twoProportionPValue(successesA: number, trialsA: number, successesB: number, trialsB: number): number {
+  if (trialsA === 0 || trialsB === 0) return 1;
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) return 1;
+  const z = (successesA / trialsA - successesB / trialsB) / standardError;
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+export interface VariantEvaluation {
+  variantId: number;
+  label: string;
+  rate: number;
+  pValue: number | null; // Against the leader; null for the leader itself
+}
+
+export interface ExperimentEvaluation {
+  metric: ExperimentMetric;
+  leaderId: number | null;
+  significant: boolean;
+  variants: VariantEvaluation[];
+}
+
+/**
+ * Pick the best variant on the metric. Ties go to the earlier variant, so
+ * an inconclusive test falls back to the original (A) content.
+ */
+export function evaluateExperiment(
+  variants: VariantCounts[],
+  metric: ExperimentMetric,
+  alpha: number = SIGNIFICANCE_LEVEL
+): ExperimentEvaluation {
+  const rateOf = (v: VariantCounts) => (v.recipients > 0 ? metricCount(v, metric) / v.recipients : 0);
+  const better = (a: number, b: number) => (lowerIsBetter(metric) ? a < b : a > b);
+
+  let leader: VariantCounts | null = null;
+  for (const variant of variants) {
+    if (variant.recipients === 0) continue;
+    if (!leader || better(rateOf(variant), rateOf(leader))) leader = variant;
+  }
+  leader = leader ?? variants[0] ?? null;
+
+  const evaluated = variants.map(variant => ({
+    variantId: variant.variantId,
+    label: variant.label,
+    rate: rateOf(variant),
+    pValue: variant === leader
+      ? null
+      : twoProportionPValue(metricCount(leader!, metric), leader!.recipients, metricCount(variant, metric), variant.recipients),
+  }));
+
+  const others = evaluated.filter(variant => variant.pValue !== null);
+  return {
+    metric,
+    leaderId: leader?.variantId ?? null,
+    significant: others.length > 0 && others.every(variant => variant.pValue! < alpha),
+    variants: evaluated,
+  };
+}
@@ -0,0 +1,203 @@
+/**
+ * Appointment Confirmation Calls
+ *
+ * Pure pieces of the outbound confirmation call: who is due a call, the
+ * TwiML script and how the caller's key press or spoken answer is read.
+ * Customers who never answer texts get a short automated call N hours
+ * before an unconfirmed appointment: 1 = confirm, 2 = reschedule,
+ * 3 = talk to someone.
+ */
+
+import { z } from "zod";
+
+// callEvents.purpose for these calls; also the ledger send purpose (voice/reminders)
+export const CONFIRMATION_CALL_PURPOSE = 'appointment_confirmation';
+export const CONFIRMATION_CALL_SEND_PURPOSE = 'appointment_reminder';
+
+export const DEFAULT_CONFIRMATION_CALL_LEAD_HOURS = 24;
+export const CONFIRMATION_CALL_MAX_ATTEMPTS = 2;
+// Wait between attempts when the first call wasn't answered
+export const CONFIRMATION_CALL_RETRY_GAP_MS = 2 * 60 * 60 * 1000;
+// Too close to the start to be worth calling - the tech is nearly on the way
+export const CONFIRMATION_CALL_MIN_LEAD_MS = 60 * 60 * 1000;
+
+// Tenant setting bounds: room for the minimum lead plus a retry, up to three days out
+export const CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING = 3;
+export const CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING = 72;
+
+export const confirmationCallSettingsSchema = z.object({
+  enabled: z.boolean(),
+  leadHours: z.number().int()
+    .min(CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING, `Call at least ${CONFIRMATION_CALL_MIN_LEAD_HOURS_SETTING} hours ahead`)
+    .max(CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING, `Call at most ${CONFIRMATION_CALL_MAX_LEAD_HOURS_SETTING} hours ahead`),
+});
+export type ConfirmationCallSettings = z.infer<typeof confirmationCallSettingsSchema>;
+
+// Times the menu is read before giving up on an answer
+export const CONFIRMATION_CALL_MAX_PROMPTS = 2;
+
+export type ConfirmationCallChoice = 'confirm' | 'reschedule' | 'transfer';
+
+// callEvents.outcome values
+export const CONFIRMATION_CALL_OUTCOMES: Record<ConfirmationCallChoice, string> = {
+  confirm: 'confirmed',
+  reschedule: 'reschedule_requested',
+  transfer: 'transfer_requested',
+};
+
+export interface ConfirmationCallAttempt {
+  createdAt: Date | string | null;
+  status: string;
+  outcome: string | null;
+}
+
+/**
+ * Whether an appointment should get a confirmation call now: still pending,
+ * starting within the lead window (but not imminently), no answer recorded
+ * yet, and attempts left with enough time since the last one.
+ */
+export function isDueForConfirmationCall(
+  appointment: { scheduledTime: Date | string; status: string | null },
+  attempts: ConfirmationCallAttempt[],
+  now: Date,
+  leadHours: number = DEFAULT_CONFIRMATION_CALL_LEAD_HOURS
+): boolean {
+  if ((appointment.status ?? 'pending') !== 'pending') return false;
+
+  const untilStart = new Date(appointment.scheduledTime).getTime() - now.getTime();
+  if (untilStart < CONFIRMATION_CALL_MIN_LEAD_MS || untilStart > leadHours * 60 * 60 * 1000) return false;
+
+  if (attempts.some((attempt) => attempt.outcome)) return false;
+  if (attempts.length >= CONFIRMATION_CALL_MAX_ATTEMPTS) return false;
+
+  const lastAttemptAt = Math.max(0, ...attempts.map((attempt) => attempt.createdAt ? new Date(attempt.createdAt).getTime() : 0));
+  return now.getTime() - lastAttemptAt >= CONFIRMATION_CALL_RETRY_GAP_MS;
+}
+
+const SPOKEN_CHOICES: Array<[ConfirmationCallChoice, RegExp]> = [
+  ['transfer', /\b(someone|person|human|representative|agent|operator|talk|speak)\b/i],
+  ['reschedule', /\b(reschedule|change|move|different|another)\b/i],
+  ['confirm', /\b(confirm|confirmed|yes|yeah|yep|keep|correct|sure)\b/i],
+];
+
+/**
+ * Caller's answer from a Gather: a key press wins over speech. Speech is
+ * matched on keywords, checking "talk to someone" and "reschedule" before a
+ * bare "yes" so "yes, I need to reschedule" isn't read as a confirmation.
+ */
+export function parseConfirmationChoice(
+  digits?: string | null,
+  speech?: string | null
+): ConfirmationCallChoice | null {
+  switch ((digits || '').trim()) {
+    case '1': return 'confirm';
+    case '2': return 'reschedule';
+    case '3': return 'transfer';
+  }
+
+  const text = (speech || '').trim();
+  if (!text) return null;
+  if (/^(one|won)\b/i.test(text)) return 'confirm';
+  if (/^(two|to|too)\b/i.test(text)) return 'reschedule';
+  if (/^three\b/i.test(text)) return 'transfer';
+
+  for (const [choice, pattern] of SPOKEN_CHOICES) {
+    if (pattern.test(text)) return choice;
+  }
+  return null;
+}
+
+function escapeXml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export interface ConfirmationCallScript {
+  businessName: string;
+  serviceName: string;
+  appointmentTime: string; // Already formatted in the tenant's timezone, e.g. "Tuesday, March 10 at 9:00 AM"
+  voice?: string;
+}
+
+/**
+ * Opening TwiML: the appointment details and the three options. Silence
+ * posts back to the same action with no answer, so the handler decides
+ * whether to ask again (see CONFIRMATION_CALL_MAX_PROMPTS).
+ */
+export function buildConfirmationCallTwiml(
+  script: ConfirmationCallScript,
+  gatherUrl: string,
+  attempt: number = 1
+): string {
+  const voice = script.voice || 'Polly.Joanna';
+  const intro = attempt === 1
+    ? `Hi, this is ${script.businessName} calling about your ${script.serviceName} appointment on ${script.appointmentTime}. `
+    : 'Sorry, I didn\'t catch that. ';
+  const prompt = `${intro}To confirm, press 1 or say confirm. To reschedule, press 2. To talk to someone, press 3.`;
+  const action = `${gatherUrl}${gatherUrl.includes('?') ? '&' : '?'}attempt=${attempt}`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Gather input="dtmf speech" numDigits="1" timeout="6" speechTimeout="auto" hints="confirm, reschedule, talk to someone" action="${escapeXml(action)}" method="POST">
+    <Say voice="${voice}">${escapeXml(prompt)}</Say>
+  </Gather>
+  <Redirect method="POST">${escapeXml(action)}</Redirect>
+</Response>`;
+}
+
+/**
+ * Short message left on an answering machine instead of the menu
+ */
+export function buildConfirmationVoicemailTwiml(script: ConfirmationCallScript): string {
+  const voice = script.voice || 'Polly.Joanna';
+  const message = `Hi, this is ${script.businessName} calling to confirm your ${script.serviceName} appointment on ${script.appointmentTime}. ` +
+    'Please call or text us back to confirm. Thank you!';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say voice="${voice}">${escapeXml(message)}</Say>
+  <Hangup/>
+</Response>`;
+}
+
+/**
+ * What the caller hears after choosing (null = no usable answer after the
+ * last prompt). Transfers dial the business's forwarding number from the
+ * business line (Twilio rejects the customer's own number as caller ID on
+ * an outbound leg); with nobody to dial the caller is promised a call back.
+ */
+export function buildConfirmationResultTwiml(
+  choice: ConfirmationCallChoice | null,
+  opts: { voice?: string; transferNumber?: string | null; callerId?: string; dialStatusUrl?: string }
+): string {
+  const voice = opts.voice || 'Polly.Joanna';
+  const say = (text: string) => `<Say voice="${voice}">${escapeXml(text)}</Say>`;
+
+  let body: string;
+  if (choice === null) {
+    body = `${say('Sorry, we couldn\'t get your answer. Please call or text us back to confirm. Goodbye!')}
+  <Hangup/>`;
+  } else if (choice === 'confirm') {
+    body = `${say('Thank you, your appointment is confirmed. We\'ll see you then!')}
+  <Hangup/>`;
+  } else if (choice === 'reschedule') {
+    body = `${say('No problem. We\'ll text you now so you can pick a new time. Goodbye!')}
+  <Hangup/>`;
+  } else if (opts.transferNumber) {
+    const callerId = opts.callerId ? ` callerId="${escapeXml(opts.callerId)}"` : '';
+    const action = opts.dialStatusUrl ? ` action="${escapeXml(opts.dialStatusUrl)}" method="POST"` : '';
+    body = `${say('Please hold while we connect you.')}
+  <Dial timeout="25"${callerId}${action}>${escapeXml(opts.transferNumber)}</Dial>`;
+  } else {
+    body = `${say('Someone from our team will call you back shortly. Goodbye!')}
+  <Hangup/>`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${body}
+</Response>`;
+}
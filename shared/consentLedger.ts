@@ -0,0 +1,174 @@
+/**
+ * Consent ledger decision logic
+ *
+ * Consent is stored as an append-only list of events (see `consentEvents` in
+ * schema.ts). Each event grants or revokes one channel + purpose pair. The
+ * latest event for a pair wins; when a pair has no events at all we fall back
+ * to the legacy flags (customers.smsConsent) so existing opt-ins keep working.
+ */
+
+export const CONSENT_CHANNELS = ['sms', 'email', 'push', 'voice'] as const;
+export const CONSENT_PURPOSES = ['transactional', 'marketing', 'reminders'] as const;
+export const CONSENT_SOURCES = ['keyword', 'web_form', 'import', 'staff', 'booking', 'system'] as const;
+
+export type ConsentChannel = typeof CONSENT_CHANNELS[number];
+export type ConsentPurpose = typeof CONSENT_PURPOSES[number];
+export type ConsentSource = typeof CONSENT_SOURCES[number];
+
+export interface ConsentEventLike {
+  channel: string;
+  purpose: string;
+  granted: boolean;
+  recordedAt: Date | string | null;
+  id?: number;
+}
+
+export interface ConsentDecision {
+  allowed: boolean;
+  reason: 'granted' | 'revoked' | 'implied_transactional' | 'legacy_opt_in' | 'legacy_opt_out' | 'opt_out_default' | 'no_consent';
+  decidedBy: ConsentEventLike | null;
+}
+
+export interface LegacyConsent {
+  smsConsent?: boolean | null;
+}
+
+// Send purposes (see smsSendGuard / campaign services) mapped onto ledger purposes
+export const MARKETING_SEND_PURPOSES = new Set([
+  'campaign', 'sms_campaign', 'email_campaign', 'review_request', 'promotion',
+  'welcome_back', 'referral', 'newsletter', 'journey',
+]);
+const REMINDER_SEND_PURPOSES = new Set([
+  'booking_reminder', 'appointment_reminder', 'payment_reminder',
+  'service_reminder', 'proactive_reminder',
+]);
+const EXEMPT_SEND_PURPOSES = new Set([
+  'admin_alert', 'owner_alert', 'staff_notification', 'technician_notification',
+  'test_sms', 'test', 'system_test', 'otp', 'verification',
+]);
+
+/**
+ * Map an outbound send purpose onto the consent purpose that governs it.
+ * Returns null for internal/staff/test traffic, which is not subject to
+ * customer consent.
+ */
+export function consentPurposeForSend(sendPurpose: string): ConsentPurpose | null {
+  const key = sendPurpose.trim().toLowerCase();
+  if (EXEMPT_SEND_PURPOSES.has(key)) return null;
+  if (MARKETING_SEND_PURPOSES.has(key)) return 'marketing';
+  if (REMINDER_SEND_PURPOSES.has(key) || key.endsWith('_reminder')) return 'reminders';
+  return 'transactional';
+}
+
+function eventTime(event: ConsentEventLike): number {
+  return event.recordedAt ? new Date(event.recordedAt).getTime() : 0;
+}
+
+/**
+ * Latest event for a channel + purpose pair. Ties on timestamp are broken by
+ * id so two events written in the same millisecond still resolve
+ * deterministically.
+ */
+export function latestConsentEvent<T extends ConsentEventLike>(
+  events: T[],
+  channel: ConsentChannel,
+  purpose: ConsentPurpose
+): T | null {
+  let latest: T | null = null;
+  for (const event of events) {
+    if (event.channel !== channel || event.purpose !== purpose) continue;
+    if (
+      !latest ||
+      eventTime(event) > eventTime(latest) ||
+      (eventTime(event) === eventTime(latest) && (event.id ?? 0) > (latest.id ?? 0))
+    ) {
+      latest = event;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Decide whether a message may be sent on a channel for a purpose.
+ *
+ * With no ledger entry:
+ * - transactional messages are allowed (implied by the customer's own request)
+ * - SMS marketing/reminders follow the legacy smsConsent flag
+ * - email marketing/reminders are allowed (opt-out model, suppression list still applies)
+ * - push follows the subscription itself; voice marketing requires explicit consent
+ */
+export function resolveConsentDecision(
+  events: ConsentEventLike[],
+  channel: ConsentChannel,
+  purpose: ConsentPurpose,
+  legacy: LegacyConsent = {}
+): ConsentDecision {
+  const latest = latestConsentEvent(events, channel, purpose);
+  if (latest) {
+    return { allowed: latest.granted, reason: latest.granted ? 'granted' : 'revoked', decidedBy: latest };
+  }
+
+  if (purpose === 'transactional') {
+    return { allowed: true, reason: 'implied_transactional', decidedBy: null };
+  }
+
+  if (channel === 'sms') {
+    return legacy.smsConsent === true
+      ? { allowed: true, reason: 'legacy_opt_in', decidedBy: null }
+      : { allowed: false, reason: legacy.smsConsent === false ? 'legacy_opt_out' : 'no_consent', decidedBy: null };
+  }
+
+  if (channel === 'voice' && purpose === 'marketing') {
+    return { allowed: false, reason: 'no_consent', decidedBy: null };
+  }
+
+  return { allowed: true, reason: 'opt_out_default', decidedBy: null };
+}
+
+/**
+ * Current state of every channel + purpose pair, for the customer profile.
+ */
+export function summarizeConsent(
+  events: ConsentEventLike[],
+  legacy: LegacyConsent = {}
+): Record<ConsentChannel, Record<ConsentPurpose, ConsentDecision>> {
+  const summary = {} as Record<ConsentChannel, Record<ConsentPurpose, ConsentDecision>>;
+  for (const channel of CONSENT_CHANNELS) {
+    summary[channel] = {} as Record<ConsentPurpose, ConsentDecision>;
+    for (const purpose of CONSENT_PURPOSES) {
+      summary[channel][purpose] = resolveConsentDecision(events, channel, purpose, legacy);
+    }
+  }
+  return summary;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export interface ConsentHistoryRow extends ConsentEventLike {
+  customerId: number | null;
+  phone: string | null;
+  email: string | null;
+  source: string;
+  evidence: unknown;
+  recordedBy: number | null;
+}
+
+const CSV_COLUMNS: (keyof ConsentHistoryRow)[] = [
+  'recordedAt', 'customerId', 'phone', 'email', 'channel', 'purpose', 'granted', 'source', 'recordedBy', 'evidence',
+];
+
+/**
+ * CSV export of a consent history, oldest first, for TCPA audit requests.
+ */
+export function consentHistoryToCsv(rows: ConsentHistoryRow[]): string {
+  const sorted = [...rows].sort((a, b) => eventTime(a) - eventTime(b) || (a.id ?? 0) - (b.id ?? 0));
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of sorted) {
+    lines.push(CSV_COLUMNS.map(col => csvCell(row[col])).join(','));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,250 @@
+/**
+ * Customer Segments
+ *
+ * A saved segment is a tree of filters over customers. Rules combine with
+ * "all" (AND) or "any" (OR) and groups nest, so "lapsed 90+ days AND (gold
+ * tier OR VIP)" is one definition. The server compiles a definition to SQL
+ * (server/services/customerSegmentService.ts); everything here is shared
+ * with the builder UI.
+ *
+ * SMS campaigns, email campaigns, port-recovery target lists and the
+ * welcome-back campaign all accept a segment id in place of their built-in
+ * audiences.
+ */
+
+import { z } from 'zod';
+import { VEHICLE_CLASSES } from './priceBook';
+
+export const LOYALTY_TIERS = ['bronze', 'silver', 'gold', 'platinum'] as const;
+
+export const SEGMENT_RULE_TYPES = [
+  'last_appointment',
+  'lifetime_value',
+  'loyalty_tier',
+  'vip',
+  'tag',
+  'service_history',
+  'vehicle',
+  'household',
+  'zip',
+  'consent',
+  'group',
+] as const;
+
+export type SegmentRuleType = typeof SEGMENT_RULE_TYPES[number];
+
+export const SEGMENT_RULE_LABELS: Record<SegmentRuleType, string> = {
+  last_appointment: 'Last appointment',
+  lifetime_value: 'Lifetime value',
+  loyalty_tier: 'Loyalty tier',
+  vip: 'VIP',
+  tag: 'Tags',
+  service_history: 'Service history',
+  vehicle: 'Vehicle type',
+  household: 'Household',
+  zip: 'ZIP / service area',
+  consent: 'Consent',
+  group: 'Group',
+};
+
+// Keeps one saved definition from turning into a runaway query
+export const MAX_SEGMENT_RULES = 25;
+export const MAX_SEGMENT_DEPTH = 3;
+
+const idList = z.array(z.number().int().positive()).min(1).max(200);
+
+const leafRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('last_appointment'),
+    // before = last visit more than N days ago, after = visited within N days
+    op: z.enum(['before', 'after', 'never']),
+    daysAgo: z.number().int().min(0).max(3650).default(0),
+  }),
+  z.object({
+    type: z.literal('lifetime_value'),
+    op: z.enum(['gte', 'lte']),
+    amount: z.number().min(0),
+  }),
+  z.object({
+    type: z.literal('loyalty_tier'),
+    tiers: z.array(z.enum(LOYALTY_TIERS)).min(1),
+  }),
+  z.object({
+    type: z.literal('vip'),
+    value: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('tag'),
+    tagIds: idList,
+    match: z.enum(['any', 'none']).default('any'),
+  }),
+  z.object({
+    type: z.literal('service_history'),
+    serviceIds: idList,
+    match: z.enum(['any', 'none']).default('any'),
+    withinDays: z.number().int().min(1).max(3650).optional(),
+  }),
+  z.object({
+    type: z.literal('vehicle'),
+    // Matches any vehicle on file when both lists are empty
+    classes: z.array(z.enum(VEHICLE_CLASSES)).default([]),
+    makes: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  }),
+  z.object({
+    type: z.literal('household'),
+    // shared = another customer lives at the same address
+    value: z.enum(['shared', 'single']),
+  }),
+  z.object({
+    type: z.literal('zip'),
+    // 5-digit ZIPs match exactly, 3-digit prefixes cover a whole area
+    zips: z.array(z.string().trim().regex(/^\d{3}(\d{2})?$/, 'Use 5-digit ZIPs or 3-digit prefixes')).min(1).max(500),
+    match: z.enum(['any', 'none']).default('any'),
+  }),
+  z.object({
+    type: z.literal('consent'),
+    channel: z.enum(['sms', 'email']),
+    value: z.boolean(),
+  }),
+]);
+
+export type SegmentLeafRule = z.infer<typeof leafRuleSchema>;
+
+export interface SegmentGroupRule {
+  type: 'group';
+  match: 'all' | 'any';
+  rules: SegmentRule[];
+}
+
+export type SegmentRule = SegmentLeafRule | SegmentGroupRule;
+
+const ruleSchema: z.ZodType<SegmentRule, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.union([
+    leafRuleSchema,
+    z.object({
+      type: z.literal('group'),
+      match: z.enum(['all', 'any']),
+      rules: z.array(ruleSchema).min(1),
+    }),
+  ])
+);
+
+export const segmentDefinitionSchema = z.object({
+  match: z.enum(['all', 'any']).default('all'),
+  rules: z.array(ruleSchema).default([]),
+  onePerHousehold: z.boolean().default(false),
+}).superRefine((definition, ctx) => {
+  const { count, depth } = measureRules(definition.rules);
+  if (count > MAX_SEGMENT_RULES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Segments can have at most ${MAX_SEGMENT_RULES} rules` });
+  }
+  if (depth > MAX_SEGMENT_DEPTH) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Groups can only nest ${MAX_SEGMENT_DEPTH} levels deep` });
+  }
+});
+
+export type SegmentDefinition = z.infer<typeof segmentDefinitionSchema>;
+
+export const EMPTY_SEGMENT_DEFINITION: SegmentDefinition = { match: 'all', rules: [], onePerHousehold: false };
+
+function measureRules(rules: SegmentRule[], depth = 1): { count: number; depth: number } {
+  let count = 0;
+  let deepest = depth;
+  for (const rule of rules) {
+    if (rule.type === 'group') {
+      const nested = measureRules(rule.rules, depth + 1);
+      count += nested.count;
+      deepest = Math.max(deepest, nested.depth);
+    } else {
+      count++;
+    }
+  }
+  return { count, depth: deepest };
+}
+
+// ZIP at the end of a free-text address ("..., Tulsa, OK 74103-1234, USA").
+// Kept to syntax Postgres regexes understand too - the server matches in SQL.
+export const ZIP_PATTERN_SOURCE = '(\\d{5})(?:-\\d{4})?\\s*(?:,?\\s*(?:USA?|United States))?\\s*$';
+
+export function extractZip(address: string | null | undefined): string | null {
+  const match = new RegExp(ZIP_PATTERN_SOURCE, 'i').exec(address ?? '');
+  return match ? match[1] : null;
+}
+
+export function zipMatches(zip: string | null, patterns: string[]): boolean {
+  if (!zip) return false;
+  return patterns.some(pattern => (pattern.length === 3 ? zip.startsWith(pattern) : zip === pattern));
+}
+
+/**
+ * Keeps the first customer (lowest id) per household so one address gets one
+ * message. Customers without a household are always kept.
+ */
+export function pickOnePerHousehold<T extends { id: number; householdId: number | null }>(rows: T[]): T[] {
+  const seen = new Set<number>();
+  return [...rows]
+    .sort((a, b) => a.id - b.id)
+    .filter(row => {
+      if (row.householdId === null) return true;
+      if (seen.has(row.householdId)) return false;
+      seen.add(row.householdId);
+      return true;
+    });
+}
+
+const list = (values: Array<string | number>, max = 3) =>
+  values.length <= max ? values.join(', ') : `${values.slice(0, max).join(', ')} +${values.length - max} more`;
+
+/**
+ * One-line summary of a rule for the builder and campaign pickers. Tags and
+ * services are shown by name when a lookup is supplied.
+ */
+export function describeSegmentRule(
+  rule: SegmentRule,
+  names: { tags?: Map<number, string>; services?: Map<number, string> } = {}
+): string {
+  switch (rule.type) {
+    case 'last_appointment':
+      if (rule.op === 'never') return 'Never booked';
+      return rule.op === 'before'
+        ? `Last appointment over ${rule.daysAgo} days ago`
+        : `Appointment in the last ${rule.daysAgo} days`;
+    case 'lifetime_value':
+      return `Lifetime value ${rule.op === 'gte' ? 'at least' : 'at most'} $${rule.amount}`;
+    case 'loyalty_tier':
+      return `Loyalty tier ${list(rule.tiers)}`;
+    case 'vip':
+      return rule.value ? 'VIP customers' : 'Not VIP';
+    case 'tag': {
+      const tags = list(rule.tagIds.map(id => names.tags?.get(id) ?? `#${id}`));
+      return rule.match === 'none' ? `Not tagged ${tags}` : `Tagged ${tags}`;
+    }
+    case 'service_history': {
+      const services = list(rule.serviceIds.map(id => names.services?.get(id) ?? `#${id}`));
+      const window = rule.withinDays ? ` in the last ${rule.withinDays} days` : '';
+      return rule.match === 'none' ? `Never had ${services}${window}` : `Had ${services}${window}`;
+    }
+    case 'vehicle':
+      return rule.classes.length + rule.makes.length > 0
+        ? `Drives ${list([...rule.classes, ...rule.makes])}`
+        : 'Has a vehicle on file';
+    case 'household':
+      return rule.value === 'shared' ? 'Shares a household' : 'Only customer at their address';
+    case 'zip':
+      return `${rule.match === 'none' ? 'Outside' : 'In'} ZIP ${list(rule.zips)}`;
+    case 'consent':
+      return `${rule.value ? 'Opted in to' : 'Not opted in to'} ${rule.channel === 'sms' ? 'SMS' : 'email'}`;
+    case 'group':
+      return `(${rule.rules.map(nested => describeSegmentRule(nested, names)).join(rule.match === 'all' ? ' and ' : ' or ')})`;
+  }
+}
+
+export function describeSegmentDefinition(
+  definition: SegmentDefinition,
+  names: { tags?: Map<number, string>; services?: Map<number, string> } = {}
+): string {
+  if (definition.rules.length === 0) return 'All customers';
+  return definition.rules
+    .map(rule => describeSegmentRule(rule, names))
+    .join(definition.match === 'all' ? ' and ' : ' or ');
+}
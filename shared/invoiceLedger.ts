@@ -0,0 +1,222 @@
+/**
+ * Invoice Ledger
+ *
+ * Line items, tax and the payments sub-ledger for customer invoices. Totals
+ * and the balance due are always derived from invoice_line_items and
+ * invoice_payments; the amount/subtotal/taxAmount/totalAmount columns on
+ * invoices are a cache for older screens and reports.
+ */
+
+import { z } from 'zod';
+
+export const INVOICE_LINE_KINDS = ['service', 'add_on', 'fee', 'discount'] as const;
+export type InvoiceLineKind = typeof INVOICE_LINE_KINDS[number];
+
+// standard = tenant sales tax rate, reduced = tenant reduced rate, exempt = 0
+export const TAX_CATEGORIES = ['standard', 'reduced', 'exempt'] as const;
+export type TaxCategory = typeof TAX_CATEGORIES[number];
+export type TaxRates = Record<TaxCategory, number>;
+
+export const DISCOUNT_SOURCES = ['referral', 'promo', 'credit', 'gift_card', 'manual'] as const;
+export type DiscountSource = typeof DISCOUNT_SOURCES[number];
+
+// Store credit and gift cards are tender, not price reductions: they come
+// off after tax instead of shrinking the taxable amount
+export const POST_TAX_DISCOUNT_SOURCES: readonly DiscountSource[] = ['credit', 'gift_card'];
+
+export const PAYMENT_METHODS = ['cash', 'check', 'card', 'stripe', 'paypal', 'venmo', 'cashapp', 'other'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export const LEDGER_ENTRY_KINDS = ['payment', 'refund'] as const;
+export type LedgerEntryKind = typeof LEDGER_ENTRY_KINDS[number];
+
+export const LEDGER_ENTRY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+export type LedgerEntryStatus = typeof LEDGER_ENTRY_STATUSES[number];
+
+export type InvoicePaymentStatus = 'unpaid' | 'partial' | 'paid' | 'refunded';
+
+export interface LedgerLine {
+  kind: InvoiceLineKind;
+  quantity: number;
+  unitPrice: number; // Positive; discount lines are subtracted
+  taxCategory: TaxCategory;
+  discountSource?: DiscountSource | null;
+}
+
+export interface ComputedLine {
+  amount: number; // Signed: discounts are negative
+  taxAmount: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;      // Charges before any discount
+  discountTotal: number; // Pre-tax discounts (referral, promo, manual)
+  taxTotal: number;
+  creditTotal: number;   // Credits and gift cards applied after tax
+  total: number;         // What the customer owes before payments
+}
+
+export interface LedgerEntry {
+  kind: LedgerEntryKind;
+  amount: number; // Always positive
+  status: LedgerEntryStatus;
+}
+
+export interface LedgerBalance {
+  amountPaid: number;
+  amountRefunded: number;
+  netPaid: number;
+  balanceDue: number;
+  paymentStatus: InvoicePaymentStatus;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+export function isPostTaxDiscount(line: Pick<LedgerLine, 'kind' | 'discountSource'>): boolean {
+  return line.kind === 'discount' && !!line.discountSource && POST_TAX_DISCOUNT_SOURCES.includes(line.discountSource);
+}
+
+/**
+ * Per-line amounts and tax plus invoice totals. Pre-tax discounts are spread
+ * across the charge lines in proportion to their amounts, so each line's tax
+ * follows its own category. Nothing can take the total below zero.
+ */
+export function computeInvoiceTotals(
+  lines: LedgerLine[],
+  rates: TaxRates
+): { lines: ComputedLine[]; totals: InvoiceTotals } {
+  const lineCents = lines.map((line) => toCents(line.quantity * line.unitPrice));
+  const chargeIndexes = lines.map((line, i) => (line.kind === 'discount' ? -1 : i)).filter((i) => i >= 0);
+  const subtotalCents = chargeIndexes.reduce((sum, i) => sum + lineCents[i], 0);
+
+  const requestedDiscountCents = lines.reduce(
+    (sum, line, i) => (line.kind === 'discount' && !isPostTaxDiscount(line) ? sum + lineCents[i] : sum),
+    0
+  );
+  const discountCents = Math.min(requestedDiscountCents, subtotalCents);
+
+  // Allocate the discount pro-rata; the last charge line absorbs rounding
+  const taxCents = new Array<number>(lines.length).fill(0);
+  let allocated = 0;
+  chargeIndexes.forEach((i, position) => {
+    const share = position === chargeIndexes.length - 1
+      ? discountCents - allocated
+      : subtotalCents > 0 ? Math.round((discountCents * lineCents[i]) / subtotalCents) : 0;
+    allocated += share;
+    const taxable = Math.max(0, lineCents[i] - share);
+    taxCents[i] = Math.round((taxable * Math.max(0, rates[lines[i].taxCategory] ?? 0)) / 100);
+  });
+  const taxTotalCents = taxCents.reduce((sum, cents) => sum + cents, 0);
+
+  const afterTaxCents = subtotalCents - discountCents + taxTotalCents;
+  const requestedCreditCents = lines.reduce(
+    (sum, line, i) => (isPostTaxDiscount(line) ? sum + lineCents[i] : sum),
+    0
+  );
+  const creditCents = Math.min(requestedCreditCents, afterTaxCents);
+
+  return {
+    lines: lines.map((line, i) => ({
+      amount: fromCents(line.kind === 'discount' ? -lineCents[i] : lineCents[i]),
+      taxAmount: fromCents(taxCents[i]),
+    })),
+    totals: {
+      subtotal: fromCents(subtotalCents),
+      discountTotal: fromCents(discountCents),
+      taxTotal: fromCents(taxTotalCents),
+      creditTotal: fromCents(creditCents),
+      total: fromCents(afterTaxCents - creditCents),
+    },
+  };
+}
+
+/**
+ * Paid, refunded and balance due from the payments sub-ledger. Pending and
+ * failed entries don't count. A refund is money given back, not a new debt:
+ * it never raises the balance due, so a paid invoice stays paid after a
+ * partial refund.
+ */
+export function summarizeLedger(total: number, entries: LedgerEntry[]): LedgerBalance {
+  const settled = entries.filter((entry) => entry.status === 'succeeded');
+  const paidCents = settled.filter((e) => e.kind === 'payment').reduce((sum, e) => sum + toCents(e.amount), 0);
+  const refundedCents = settled.filter((e) => e.kind === 'refund').reduce((sum, e) => sum + toCents(e.amount), 0);
+  const netCents = paidCents - refundedCents;
+  const totalCents = toCents(total);
+  const balanceCents = Math.max(0, totalCents - paidCents);
+
+  let paymentStatus: InvoicePaymentStatus;
+  if (refundedCents > 0 && netCents <= 0) paymentStatus = 'refunded';
+  else if (balanceCents === 0) paymentStatus = 'paid';
+  else if (paidCents > 0) paymentStatus = 'partial';
+  else paymentStatus = 'unpaid';
+
+  return {
+    amountPaid: fromCents(paidCents),
+    amountRefunded: fromCents(refundedCents),
+    netPaid: fromCents(netCents),
+    balanceDue: fromCents(balanceCents),
+    paymentStatus,
+  };
+}
+
+/**
+ * How much of a payment can still be refunded
+ */
+export function refundableAmount(paymentAmount: number, refunds: LedgerEntry[]): number {
+  const refundedCents = refunds
+    .filter((refund) => refund.kind === 'refund' && refund.status !== 'failed')
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+  return fromCents(Math.max(0, toCents(paymentAmount) - refundedCents));
+}
+
+// ----------------------------------------------------------------------
+// Request validation
+// ----------------------------------------------------------------------
+
+const money = z.number().positive().max(1000000);
+
+export const invoiceLineInputSchema = z.object({
+  kind: z.enum(['service', 'add_on', 'fee']),
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().positive().max(1000).default(1),
+  unitPrice: z.number().min(0).max(1000000),
+  taxCategory: z.enum(TAX_CATEGORIES).default('standard'),
+  serviceId: z.number().int().positive().optional(),
+  addonId: z.number().int().positive().optional(),
+});
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>;
+
+export const invoiceDiscountInputSchema = z.discriminatedUnion('source', [
+  z.object({ source: z.literal('referral'), code: z.string().trim().min(1).max(20) }),
+  z.object({
+    source: z.literal('promo'),
+    amount: money,
+    description: z.string().trim().min(1).max(200),
+    redeemedRewardId: z.number().int().positive().optional(),
+  }),
+  z.object({ source: z.literal('credit'), amount: money.optional() }),
+  z.object({ source: z.literal('gift_card'), code: z.string().trim().min(1).max(50), amount: money.optional() }),
+  z.object({ source: z.literal('manual'), amount: money, description: z.string().trim().min(1).max(200) }),
+]);
+export type InvoiceDiscountInput = z.infer<typeof invoiceDiscountInputSchema>;
+
+export const invoicePaymentInputSchema = z.object({
+  method: z.enum(PAYMENT_METHODS),
+  amount: money,
+  reference: z.string().trim().max(200).optional(),
+  note: z.string().trim().max(500).optional(),
+  receivedAt: z.coerce.date().optional(),
+});
+export type InvoicePaymentInput = z.infer<typeof invoicePaymentInputSchema>;
+
+export const invoiceRefundInputSchema = z.object({
+  amount: money.optional(), // Defaults to everything still refundable
+  reason: z.string().trim().max(500).optional(),
+});
+export type InvoiceRefundInput = z.infer<typeof invoiceRefundInputSchema>;
@@ -0,0 +1,207 @@
+/**
+ * IVR Flow Graph
+ *
+ * A tenant's IVR is a set of menus linked two ways: SUBMENU items (caller
+ * presses a digit) and hours routing (a menu hands off to its closed or
+ * holiday menu as soon as it is entered, using the line's phone schedules).
+ * These helpers walk that graph for routing, validation and the editor.
+ */
+
+export interface IvrHoursRouting {
+  closedMenuId?: number | null; // Entered outside the line's phone schedule
+  holidayMenuId?: number | null; // Entered on a holiday; falls back to closedMenuId
+  holidays?: string[]; // YYYY-MM-DD in the tenant's timezone
+}
+
+export interface IvrFlowItem {
+  digit: string;
+  label: string;
+  actionType: string;
+  actionPayload?: Record<string, any> | null;
+}
+
+export interface IvrFlowMenu {
+  id: number;
+  name: string;
+  key?: string | null;
+  hoursRouting?: IvrHoursRouting | null;
+  items: IvrFlowItem[];
+}
+
+export interface IvrScheduleWindow {
+  dayOfWeek: number; // 0=Sunday
+  startTime: string; // "09:00"
+  endTime: string; // "18:00"
+  action: string; // "forward" = open, "voicemail" = closed
+}
+
+export type IvrHoursBranch = 'open' | 'closed' | 'holiday';
+
+export interface IvrFlowEdge {
+  from: number;
+  to: number;
+  via: 'submenu' | 'closed' | 'holiday';
+  digit?: string;
+}
+
+// Deepest chain of menus a caller can be sent through
+export const IVR_MAX_MENU_DEPTH = 6;
+
+export function ivrFlowEdges(menu: IvrFlowMenu): IvrFlowEdge[] {
+  const edges: IvrFlowEdge[] = [];
+  for (const item of menu.items) {
+    const target = Number(item.actionPayload?.submenuId);
+    if (item.actionType === 'SUBMENU' && Number.isInteger(target) && target > 0) {
+      edges.push({ from: menu.id, to: target, via: 'submenu', digit: item.digit });
+    }
+  }
+  if (menu.hoursRouting?.closedMenuId) {
+    edges.push({ from: menu.id, to: menu.hoursRouting.closedMenuId, via: 'closed' });
+  }
+  if (menu.hoursRouting?.holidayMenuId) {
+    edges.push({ from: menu.id, to: menu.hoursRouting.holidayMenuId, via: 'holiday' });
+  }
+  return edges;
+}
+
+/**
+ * First loop found in the flow, as the menu ids along it (first id repeated
+ * at the end), or null. Any loop is rejected: a caller could be bounced
+ * between menus forever, and hours routing loops redirect with no input.
+ */
+export function findIvrFlowCycle(menus: IvrFlowMenu[]): number[] | null {
+  const byId = new Map(menus.map((menu) => [menu.id, menu]));
+  const state = new Map<number, 'visiting' | 'done'>();
+  const path: number[] = [];
+
+  const visit = (id: number): number[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    const menu = byId.get(id);
+    if (!menu) return null;
+
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const edge of ivrFlowEdges(menu)) {
+      const cycle = visit(edge.to);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const menu of menus) {
+    const cycle = visit(menu.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Longest chain of menus reachable from a menu (the menu itself counts as 1).
+ * Assumes the flow has no cycles.
+ */
+export function ivrFlowDepth(menus: IvrFlowMenu[], fromId: number): number {
+  const byId = new Map(menus.map((menu) => [menu.id, menu]));
+  const memo = new Map<number, number>();
+
+  const depth = (id: number, seen: Set<number>): number => {
+    const menu = byId.get(id);
+    if (!menu || seen.has(id)) return 0;
+    const cached = memo.get(id);
+    if (cached !== undefined) return cached;
+
+    const next = new Set(seen).add(id);
+    const deepest = Math.max(0, ...ivrFlowEdges(menu).map((edge) => depth(edge.to, next)));
+    memo.set(id, deepest + 1);
+    return deepest + 1;
+  };
+
+  return depth(fromId, new Set());
+}
+
+function localParts(now: Date, timezone: string): { date: string; dayOfWeek: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    dayOfWeek: weekdays.indexOf(get('weekday')),
+    minutes: (parseInt(get('hour'), 10) % 24) * 60 + parseInt(get('minute'), 10),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Which branch a call takes right now. A line with no schedule rows is
+ * always open, matching how phone_schedules are used for forwarding.
+ */
+export function resolveHoursBranch(
+  schedules: IvrScheduleWindow[],
+  holidays: string[] | undefined,
+  now: Date,
+  timezone: string
+): IvrHoursBranch {
+  const local = localParts(now, timezone);
+  if (holidays?.includes(local.date)) return 'holiday';
+  if (schedules.length === 0) return 'open';
+
+  const open = schedules.some((window) =>
+    window.action === 'forward' &&
+    window.dayOfWeek === local.dayOfWeek &&
+    local.minutes >= toMinutes(window.startTime) &&
+    local.minutes < toMinutes(window.endTime)
+  );
+  return open ? 'open' : 'closed';
+}
+
+/**
+ * Follow hours routing from the menu a caller is sent to until reaching the
+ * menu that should actually play. Returns every hop so the simulator can
+ * show why a menu was skipped.
+ */
+export function resolveEntryMenu<T extends IvrFlowMenu>(
+  menus: T[],
+  menuId: number,
+  schedules: IvrScheduleWindow[],
+  now: Date,
+  timezone: string
+): { menu: T; hops: Array<{ menuId: number; branch: IvrHoursBranch }> } | null {
+  const byId = new Map(menus.map((menu) => [menu.id, menu]));
+  const hops: Array<{ menuId: number; branch: IvrHoursBranch }> = [];
+  let current = byId.get(menuId);
+
+  while (current && hops.length < IVR_MAX_MENU_DEPTH) {
+    const routing = current.hoursRouting;
+    if (!routing?.closedMenuId && !routing?.holidayMenuId) break;
+
+    const branch = resolveHoursBranch(schedules, routing.holidays, now, timezone);
+    const nextId = branch === 'holiday'
+      ? routing.holidayMenuId || routing.closedMenuId
+      : branch === 'closed' ? routing.closedMenuId : null;
+    const next = nextId ? byId.get(nextId) : undefined;
+    if (!next || hops.some((hop) => hop.menuId === next.id)) break;
+
+    hops.push({ menuId: current.id, branch });
+    current = next;
+  }
+
+  return current ? { menu: current, hops } : null;
+}
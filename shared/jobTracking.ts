@@ -0,0 +1,106 @@
+/**
+ * Day-of job tracking
+ *
+ * Pure helpers shared by the technician status endpoint, the customer
+ * tracking page and tests: where a job is on the assigned → completed
+ * timeline, which transitions text the customer, and ETA arithmetic.
+ */
+
+export const JOB_PROGRESS_STEPS = ['assigned', 'en_route', 'on_site', 'in_progress', 'completed'] as const;
+export type JobProgressStep = typeof JOB_PROGRESS_STEPS[number];
+
+export const JOB_PROGRESS_LABELS: Record<JobProgressStep, string> = {
+  assigned: 'Technician assigned',
+  en_route: 'On the way',
+  on_site: 'Arrived',
+  in_progress: 'Service in progress',
+  completed: 'Complete',
+};
+
+// Statuses that are off the main line but still belong to a step
+const STEP_ALIASES: Record<string, JobProgressStep> = {
+  paused: 'in_progress',
+  hand_off: 'in_progress',
+};
+
+// Transitions that send the customer a text (en_route carries the ETA)
+export const CUSTOMER_NOTIFIED_STEPS: JobProgressStep[] = ['en_route', 'on_site', 'completed'];
+
+/**
+ * Position of a status on the timeline, or -1 when the job hasn't started
+ * (pending, confirmed, scheduled) or is off the timeline (cancelled)
+ */
+export function progressIndex(status: string | null | undefined): number {
+  if (!status) return -1;
+  const step = STEP_ALIASES[status] ?? status;
+  return JOB_PROGRESS_STEPS.indexOf(step as JobProgressStep);
+}
+
+/**
+ * Only forward moves onto a notifying step text the customer, so a tech
+ * re-tapping "On my way" or stepping back after a mistap doesn't resend
+ */
+export function shouldNotifyCustomer(previous: string | null | undefined, next: string): boolean {
+  if (!CUSTOMER_NOTIFIED_STEPS.includes(next as JobProgressStep)) return false;
+  return progressIndex(next) > progressIndex(previous);
+}
+
+/**
+ * Turn a drive-time estimate into whole minutes and an arrival time.
+ * Partial minutes round up; a tech already at the door is still "1 min" out.
+ */
+export function computeEta(now: Date, driveMinutes: number | null | undefined): { etaMinutes: number; etaAt: Date } | null {
+  if (driveMinutes === null || driveMinutes === undefined || !Number.isFinite(driveMinutes) || driveMinutes < 0) {
+    return null;
+  }
+  const etaMinutes = Math.max(1, Math.ceil(driveMinutes));
+  return { etaMinutes, etaAt: new Date(now.getTime() + etaMinutes * 60 * 1000) };
+}
+
+/**
+ * Minutes left until a stored ETA, clamped at zero once it has passed
+ */
+export function minutesUntil(etaAt: Date | string | null | undefined, now: Date): number | null {
+  if (!etaAt) return null;
+  const remaining = (new Date(etaAt).getTime() - now.getTime()) / 60000;
+  return Number.isFinite(remaining) ? Math.max(0, Math.ceil(remaining)) : null;
+}
+
+export interface JobStatusEventLike {
+  status: string;
+  createdAt: Date | string;
+}
+
+export interface JobTimelineStep {
+  step: JobProgressStep;
+  label: string;
+  state: 'done' | 'current' | 'upcoming';
+  reachedAt: string | null;
+}
+
+/**
+ * Build the customer-facing timeline. Each step shows the first time it was
+ * reached; steps skipped by the tech (e.g. straight to on_site) still count
+ * as done once a later step is current.
+ */
+export function buildJobTimeline(currentStatus: string | null | undefined, events: JobStatusEventLike[]): JobTimelineStep[] {
+  const current = progressIndex(currentStatus);
+  const firstReached: Partial<Record<JobProgressStep, string>> = {};
+
+  const ordered = [...events].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const event of ordered) {
+    const index = progressIndex(event.status);
+    if (index < 0) continue;
+    const step = JOB_PROGRESS_STEPS[index];
+    if (!firstReached[step]) firstReached[step] = new Date(event.createdAt).toISOString();
+  }
+
+  return JOB_PROGRESS_STEPS.map((step, index) => ({
+    step,
+    label: JOB_PROGRESS_LABELS[step],
+    state: index < current || (index === current && step === 'completed')
+      ? 'done'
+      : index === current ? 'current' : 'upcoming',
+    reachedAt: index <= current ? firstReached[step] ?? null : null,
+  }));
+}
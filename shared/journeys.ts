@@ -0,0 +1,255 @@
+/**
+ * Customer Journeys
+ *
+ * A journey is a small graph of steps a customer walks through after a
+ * trigger: "text on day 0, wait 3 days, email if they haven't booked, stop
+ * if they reply". Each step points at the next one by id; branch steps have
+ * a yes/no edge each and a null edge ends the journey.
+ *
+ * The runner (server/services/journeyService.ts) keeps one enrollment row
+ * per customer and trigger, parked on its current step until a wait is over.
+ * Everything here is pure so the editor can validate a graph before saving.
+ */
+
+import { z } from 'zod';
+
+export const JOURNEY_TRIGGERS = ['job_completed', 'quote_sent', 'inactive', 'manual'] as const;
+export type JourneyTrigger = typeof JOURNEY_TRIGGERS[number];
+
+export const JOURNEY_TRIGGER_LABELS: Record<JourneyTrigger, string> = {
+  job_completed: 'Job completed',
+  quote_sent: 'Quote sent',
+  inactive: 'No visit in N days',
+  manual: 'Manual enrollment',
+};
+
+// booked = has a non-cancelled appointment scheduled after enrolling
+export const JOURNEY_CONDITIONS = ['booked', 'replied', 'clicked', 'opted_out'] as const;
+export type JourneyCondition = typeof JOURNEY_CONDITIONS[number];
+
+export const JOURNEY_CONDITION_LABELS: Record<JourneyCondition, string> = {
+  booked: 'Booked',
+  replied: 'Replied',
+  clicked: 'Clicked a link',
+  opted_out: 'Opted out',
+};
+
+export const JOURNEY_STEP_TYPES = ['send_sms', 'send_email', 'wait', 'branch', 'award_points', 'create_task'] as const;
+export type JourneyStepType = typeof JOURNEY_STEP_TYPES[number];
+
+export const JOURNEY_STEP_LABELS: Record<JourneyStepType, string> = {
+  send_sms: 'Send SMS',
+  send_email: 'Send email',
+  wait: 'Wait',
+  branch: 'Branch',
+  award_points: 'Award points',
+  create_task: 'Create task',
+};
+
+export const JOURNEY_ENROLLMENT_STATUSES = ['active', 'completed', 'exited', 'failed'] as const;
+export type JourneyEnrollmentStatus = typeof JOURNEY_ENROLLMENT_STATUSES[number];
+
+// Send purpose for the outbound queue; counted as marketing by the consent ledger
+export const JOURNEY_SEND_PURPOSE = 'journey';
+
+export const MAX_JOURNEY_STEPS = 50;
+
+const stepId = z.string().trim().min(1).max(40);
+const nextId = stepId.nullable();
+
+export const journeyStepSchema = z.discriminatedUnion('type', [
+  z.object({
+    id: stepId,
+    type: z.literal('send_sms'),
+    body: z.string().trim().min(1, 'SMS text is required').max(640),
+    next: nextId,
+  }),
+  z.object({
+    id: stepId,
+    type: z.literal('send_email'),
+    subject: z.string().trim().min(1, 'Email subject is required').max(200),
+    body: z.string().trim().min(1, 'Email body is required').max(10000),
+    next: nextId,
+  }),
+  z.object({
+    id: stepId,
+    type: z.literal('wait'),
+    days: z.number().int().min(0).max(365).default(0),
+    hours: z.number().int().min(0).max(23).default(0),
+    next: nextId,
+  }),
+  z.object({
+    id: stepId,
+    type: z.literal('branch'),
+    condition: z.enum(JOURNEY_CONDITIONS),
+    onTrue: nextId,
+    onFalse: nextId,
+  }),
+  z.object({
+    id: stepId,
+    type: z.literal('award_points'),
+    points: z.number().int().min(1).max(100000),
+    next: nextId,
+  }),
+  z.object({
+    id: stepId,
+    type: z.literal('create_task'),
+    title: z.string().trim().min(1, 'Task title is required').max(200),
+    dueInDays: z.number().int().min(0).max(365).default(1),
+    next: nextId,
+  }),
+]);
+
+export type JourneyStep = z.infer<typeof journeyStepSchema>;
+
+export const journeyDefinitionSchema = z.object({
+  entryStepId: stepId,
+  steps: z.array(journeyStepSchema).min(1, 'Add at least one step').max(MAX_JOURNEY_STEPS),
+  // Checked before every step; any match ends the enrollment early
+  exitOn: z.array(z.enum(JOURNEY_CONDITIONS)).default([]),
+}).superRefine((definition, ctx) => {
+  for (const message of validateJourneySteps(definition)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+export type JourneyDefinition = z.infer<typeof journeyDefinitionSchema>;
+
+export const journeyTriggerConfigSchema = z.object({
+  inactiveDays: z.number().int().min(1).max(3650).default(90),
+});
+
+export type JourneyTriggerConfig = z.infer<typeof journeyTriggerConfigSchema>;
+
+export function stepEdges(step: JourneyStep): Array<string | null> {
+  return step.type === 'branch' ? [step.onTrue, step.onFalse] : [step.next];
+}
+
+/**
+ * Structural problems with a graph: duplicate ids, dangling edges, loops.
+ * Loops are rejected outright - a journey always ends.
+ */
+export function validateJourneySteps(definition: { entryStepId: string; steps: JourneyStep[] }): string[] {
+  const errors: string[] = [];
+  const byId = new Map<string, JourneyStep>();
+  for (const step of definition.steps) {
+    if (byId.has(step.id)) errors.push(`Step id "${step.id}" is used more than once`);
+    byId.set(step.id, step);
+  }
+  if (!byId.has(definition.entryStepId)) {
+    errors.push(`Entry step "${definition.entryStepId}" does not exist`);
+  }
+  for (const step of definition.steps) {
+    for (const edge of stepEdges(step)) {
+      if (edge !== null && !byId.has(edge)) errors.push(`Step "${step.id}" points at missing step "${edge}"`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  // Depth-first walk; a step seen again on the current path is a loop
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string): boolean => {
+    if (state.get(id) === 'done') return false;
+    if (state.get(id) === 'visiting') return true;
+    state.set(id, 'visiting');
+    const looped = stepEdges(byId.get(id)!).some(edge => edge !== null && visit(edge));
+    state.set(id, 'done');
+    return looped;
+  };
+  if (definition.steps.some(step => visit(step.id))) {
+    errors.push('Steps must not loop back on themselves');
+  }
+  return errors;
+}
+
+/**
+ * Steps in the order a customer would meet them (breadth-first from the
+ * entry), followed by any steps nothing points at. Used for the analytics
+ * view and the editor.
+ */
+export function orderJourneySteps(definition: { entryStepId: string; steps: JourneyStep[] }): JourneyStep[] {
+  const byId = new Map(definition.steps.map(step => [step.id, step]));
+  const ordered: JourneyStep[] = [];
+  const seen = new Set<string>();
+  const queue = [definition.entryStepId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const step = byId.get(id);
+    if (!step || seen.has(id)) continue;
+    seen.add(id);
+    ordered.push(step);
+    for (const edge of stepEdges(step)) {
+      if (edge !== null) queue.push(edge);
+    }
+  }
+  return [...ordered, ...definition.steps.filter(step => !seen.has(step.id))];
+}
+
+export function nextStepId(step: JourneyStep, branchResult?: boolean): string | null {
+  if (step.type === 'branch') return branchResult ? step.onTrue : step.onFalse;
+  return step.next;
+}
+
+export function waitDurationMs(step: Extract<JourneyStep, { type: 'wait' }>): number {
+  return ((step.days * 24) + step.hours) * 60 * 60 * 1000;
+}
+
+/**
+ * Fill {{placeholders}} in a message. Unknown placeholders are left as-is
+ * so a typo is visible in the preview instead of silently vanishing.
+ */
+export function renderJourneyTemplate(template: string, vars: Record<string, string | number | null | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => {
+    const value = vars[key];
+    return value === undefined || value === null ? match : String(value);
+  });
+}
+
+export interface JourneyStepSummary {
+  stepId: string;
+  type: JourneyStepType;
+  label: string;
+  waiting: number; // Active enrollments parked on this step
+  reached: number; // Enrollments that have entered this step at all
+}
+
+export function describeJourneyStep(step: JourneyStep): string {
+  switch (step.type) {
+    case 'send_sms':
+      return `SMS: ${step.body.slice(0, 40)}${step.body.length > 40 ? '…' : ''}`;
+    case 'send_email':
+      return `Email: ${step.subject}`;
+    case 'wait':
+      return `Wait ${[step.days ? `${step.days}d` : '', step.hours ? `${step.hours}h` : ''].filter(Boolean).join(' ') || '0h'}`;
+    case 'branch':
+      return `If ${JOURNEY_CONDITION_LABELS[step.condition].toLowerCase()}?`;
+    case 'award_points':
+      return `Award ${step.points} points`;
+    case 'create_task':
+      return `Task: ${step.title}`;
+  }
+}
+
+/**
+ * Per-step counts for the analytics view. `reachedByStep` comes from the
+ * journey's event log (one "entered" event per enrollment and step).
+ */
+export function summarizeJourneySteps(
+  definition: { entryStepId: string; steps: JourneyStep[] },
+  active: Array<{ currentStepId: string | null }>,
+  reachedByStep: Record<string, number>
+): JourneyStepSummary[] {
+  const waiting = new Map<string, number>();
+  for (const enrollment of active) {
+    if (enrollment.currentStepId) {
+      waiting.set(enrollment.currentStepId, (waiting.get(enrollment.currentStepId) ?? 0) + 1);
+    }
+  }
+  return orderJourneySteps(definition).map(step => ({
+    stepId: step.id,
+    type: step.type,
+    label: describeJourneyStep(step),
+    waiting: waiting.get(step.id) ?? 0,
+    reached: reachedByStep[step.id] ?? 0,
+  }));
+}
@@ -0,0 +1,219 @@
+/**
+ * Knowledge Base
+ *
+ * Chunking and a small BM25 index over a tenant's business knowledge (FAQs,
+ * services, add-ons, business profile and uploaded documents). The index is
+ * plain JSON so it can live in the tenant cache, and retrieval is purely
+ * lexical so it runs without an embeddings provider.
+ */
+
+import { z } from 'zod';
+
+export const KNOWLEDGE_SOURCES = ['faq', 'service', 'add_on', 'business', 'document'] as const;
+export type KnowledgeSource = typeof KNOWLEDGE_SOURCES[number];
+
+export const KNOWLEDGE_SOURCE_LABELS: Record<KnowledgeSource, string> = {
+  faq: 'FAQ',
+  service: 'Service',
+  add_on: 'Add-on',
+  business: 'Business',
+  document: 'Document',
+};
+
+export interface KnowledgeChunk {
+  id: string;          // Stable within one index build, e.g. "faq:12" or "document:3:1"
+  source: KnowledgeSource;
+  title: string;
+  text: string;
+}
+
+export interface KnowledgeIndex {
+  chunks: KnowledgeChunk[];
+  termFreqs: Array<Record<string, number>>;
+  docLengths: number[];
+  docFreq: Record<string, number>;
+  avgDocLength: number;
+  builtAt: string;
+}
+
+export interface KnowledgeHit {
+  chunk: KnowledgeChunk;
+  score: number;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'for', 'from', 'get', 'got', 'had', 'has', 'have', 'hi', 'hello', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'me', 'my', 'of', 'on', 'or', 'our', 'please', 'so', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Crude suffix stripping so "detailing"/"details"/"detailed" share a term.
+ * Queries and documents go through the same function, so consistency
+ * matters more than linguistic accuracy.
+ */
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 4 && /(ss|x|ch|sh)es$/.test(token)) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2019]/g, '')
+    .split(/[^a-z0-9$]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+    .map(stem)
+    .filter((token) => !STOP_WORDS.has(token)); // Stemming can expose one: "whats" -> "what"
+}
+
+/**
+ * Split long text into overlapping passages of roughly maxWords words.
+ * Paragraphs are kept together when they fit; longer ones are split on
+ * sentence boundaries and, failing that, on a sliding word window.
+ */
+export function chunkText(
+  text: string,
+  options: { maxWords?: number; overlapWords?: number } = {}
+): string[] {
+  const maxWords = options.maxWords ?? 120;
+  const overlapWords = Math.min(options.overlapWords ?? 20, Math.floor(maxWords / 2));
+
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const words = paragraph.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+    if (words.length <= maxWords) {
+      pieces.push(words.join(' '));
+      continue;
+    }
+    for (const sentence of paragraph.match(/[^.!?]+[.!?]*/g) ?? [paragraph]) {
+      const sentenceWords = sentence.trim().split(/\s+/).filter(Boolean);
+      if (sentenceWords.length <= maxWords) {
+        if (sentenceWords.length > 0) pieces.push(sentenceWords.join(' '));
+        continue;
+      }
+      for (let start = 0; start < sentenceWords.length; start += maxWords - overlapWords) {
+        pieces.push(sentenceWords.slice(start, start + maxWords).join(' '));
+        if (start + maxWords >= sentenceWords.length) break;
+      }
+    }
+  }
+
+  // Greedily pack short pieces back together up to maxWords
+  const chunks: string[] = [];
+  let current: string[] = [];
+  for (const piece of pieces) {
+    const pieceWords = piece.split(' ');
+    if (current.length > 0 && current.length + pieceWords.length > maxWords) {
+      chunks.push(current.join(' '));
+      current = [];
+    }
+    current.push(...pieceWords);
+  }
+  if (current.length > 0) chunks.push(current.join(' '));
+  return chunks;
+}
+
+export function buildKnowledgeIndex(chunks: KnowledgeChunk[]): KnowledgeIndex {
+  const termFreqs: Array<Record<string, number>> = [];
+  const docLengths: number[] = [];
+  const docFreq: Record<string, number> = {};
+
+  for (const chunk of chunks) {
+    // Titles are short and on-topic, so their terms count twice
+    const tokens = [...tokenize(chunk.title), ...tokenize(chunk.title), ...tokenize(chunk.text)];
+    const freqs: Record<string, number> = {};
+    for (const token of tokens) {
+      freqs[token] = (freqs[token] ?? 0) + 1;
+    }
+    for (const term of Object.keys(freqs)) {
+      docFreq[term] = (docFreq[term] ?? 0) + 1;
+    }
+    termFreqs.push(freqs);
+    docLengths.push(tokens.length);
+  }
+
+  const totalLength = docLengths.reduce((sum, length) => sum + length, 0);
+  return {
+    chunks,
+    termFreqs,
+    docLengths,
+    docFreq,
+    avgDocLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    builtAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Okapi BM25 ranking. Chunks that share no terms with the query are never
+ * returned, so an off-topic message retrieves nothing.
+ */
+export function searchKnowledge(
+  index: KnowledgeIndex,
+  query: string,
+  options: { limit?: number; minScore?: number; k1?: number; b?: number } = {}
+): KnowledgeHit[] {
+  const { limit = 4, minScore = 0, k1 = 1.2, b = 0.75 } = options;
+  const terms = Array.from(new Set(tokenize(query)));
+  const docCount = index.chunks.length;
+  if (terms.length === 0 || docCount === 0) return [];
+
+  const hits: KnowledgeHit[] = [];
+  index.chunks.forEach((chunk, i) => {
+    const freqs = index.termFreqs[i];
+    const lengthNorm = index.avgDocLength > 0 ? index.docLengths[i] / index.avgDocLength : 1;
+    let score = 0;
+    for (const term of terms) {
+      const tf = freqs[term];
+      if (!tf) continue;
+      const df = index.docFreq[term] ?? 0;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+      score += idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * lengthNorm)));
+    }
+    if (score > minScore) hits.push({ chunk, score });
+  });
+
+  return hits.sort((x, y) => y.score - x.score).slice(0, limit);
+}
+
+/**
+ * Snippet block for a system prompt, trimmed to maxChars
+ */
+export function formatKnowledgeSnippets(hits: KnowledgeHit[], maxChars = 1800): string {
+  const lines: string[] = [];
+  let used = 0;
+  for (const { chunk } of hits) {
+    const line = `- [${KNOWLEDGE_SOURCE_LABELS[chunk.source]}] ${chunk.title}: ${chunk.text}`;
+    const remaining = maxChars - used;
+    if (remaining <= 40) break;
+    lines.push(line.length > remaining ? `${line.slice(0, remaining - 3).trimEnd()}...` : line);
+    used += Math.min(line.length, remaining) + 1;
+  }
+  return lines.join('\n');
+}
+
+// ----------------------------------------------------------------------
+// Request validation
+// ----------------------------------------------------------------------
+
+export const KNOWLEDGE_DOCUMENT_MAX_CHARS = 200000;
+
+export const knowledgeDocumentInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(KNOWLEDGE_DOCUMENT_MAX_CHARS),
+});
+export type KnowledgeDocumentInput = z.infer<typeof knowledgeDocumentInputSchema>;
+
+export const knowledgeSearchSchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
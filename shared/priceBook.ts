@@ -0,0 +1,324 @@
+/**
+ * Price Book
+ *
+ * Structured pricing shared by the AI booking summary, quote suggestions and
+ * the public estimate endpoint: a base price per service, modifiers by
+ * vehicle class and condition, add-on prices and the tenant's sales tax.
+ * Everything here is pure; server/services/priceBookService.ts loads the
+ * tenant's rows and feeds them to buildEstimate().
+ */
+
+import { z } from 'zod';
+
+export const VEHICLE_CLASSES = ['sedan', 'suv', 'truck', 'van'] as const;
+export type VehicleClass = typeof VEHICLE_CLASSES[number];
+
+export const VEHICLE_CLASS_LABELS: Record<VehicleClass, string> = {
+  sedan: 'Sedan / coupe',
+  suv: 'SUV / crossover',
+  truck: 'Truck',
+  van: 'Van / minivan',
+};
+
+export const PRICE_MODIFIER_KINDS = ['vehicle_class', 'condition'] as const;
+export type PriceModifierKind = typeof PRICE_MODIFIER_KINDS[number];
+
+export const PRICE_ADJUSTMENT_TYPES = ['flat', 'percent'] as const;
+export type PriceAdjustmentType = typeof PRICE_ADJUSTMENT_TYPES[number];
+
+// Conditions the AI and quote flow can recognise in free text. Tenants can
+// add their own condition keys; those are matched by label instead.
+const CONDITION_KEYWORDS: Record<string, RegExp[]> = {
+  pet_hair: [/\bpet hair\b/, /\b(dog|cat) hair\b/, /\bfur\b/, /\bshedding\b/],
+  heavy_soil: [/\bheavy soil/, /\bheavily soiled\b/, /\bvery dirty\b/, /\bfilthy\b/, /\bmuddy\b/, /\bcaked\b/],
+};
+
+export const CONDITION_PRESETS: Array<{ key: string; label: string }> = [
+  { key: 'pet_hair', label: 'Pet hair removal' },
+  { key: 'heavy_soil', label: 'Heavy soil' },
+];
+
+// Model names are matched before makes so "Ford Explorer" isn't a truck
+const TRUCK_MODELS = [
+  'f-150', 'f150', 'f-250', 'f250', 'f-350', 'f350', 'ranger', 'maverick', 'silverado', 'colorado',
+  'sierra', 'canyon', 'ram', '1500', '2500', '3500', 'tacoma', 'tundra', 'frontier', 'titan',
+  'ridgeline', 'gladiator', 'cybertruck', 'santa cruz', 'lightning', 'avalanche',
+];
+const SUV_MODELS = [
+  'explorer', 'expedition', 'escape', 'bronco', 'edge', 'tahoe', 'suburban', 'yukon', 'equinox',
+  'traverse', 'blazer', 'trailblazer', 'rav4', 'highlander', '4runner', 'sequoia', 'land cruiser',
+  'cr-v', 'crv', 'pilot', 'passport', 'hr-v', 'hrv', 'rogue', 'pathfinder', 'armada', 'murano',
+  'cx-5', 'cx5', 'cx-9', 'cx-90', 'outback', 'forester', 'ascent', 'crosstrek', 'wrangler',
+  'grand cherokee', 'cherokee', 'compass', 'tucson', 'santa fe', 'palisade', 'telluride',
+  'sorento', 'sportage', 'model x', 'model y', 'durango', 'escalade', 'navigator', 'x3', 'x5',
+  'x7', 'q5', 'q7', 'gx', 'rx', 'lx', 'mdx', 'rdx', 'atlas', 'tiguan', 'range rover', 'defender',
+];
+const VAN_MODELS = [
+  'odyssey', 'sienna', 'pacifica', 'carnival', 'sedona', 'transit', 'sprinter', 'promaster',
+  'express', 'savana', 'grand caravan', 'quest', 'metris',
+];
+const SUV_MAKES = ['jeep', 'land rover'];
+const TRUCK_MAKES = ['ram'];
+
+function matchesModel(model: string, names: string[]): boolean {
+  return names.some((name) => new RegExp(`(^|[^a-z0-9])${name}($|[^a-z0-9])`).test(model));
+}
+
+/**
+ * Best-guess vehicle class from make and model, or null when unknown.
+ * Staff can always override the stored class on the vehicle.
+ */
+export function classifyVehicle(make?: string | null, model?: string | null): VehicleClass | null {
+  const normalizedMake = (make || '').trim().toLowerCase();
+  const normalizedModel = (model || '').trim().toLowerCase();
+  if (!normalizedMake && !normalizedModel) return null;
+
+  if (normalizedModel) {
+    if (matchesModel(normalizedModel, VAN_MODELS)) return 'van';
+    if (matchesModel(normalizedModel, SUV_MODELS)) return 'suv';
+    if (matchesModel(normalizedModel, TRUCK_MODELS)) return 'truck';
+    if (/\b(pickup|truck)\b/.test(normalizedModel)) return 'truck';
+    if (/\b(suv|crossover)\b/.test(normalizedModel)) return 'suv';
+    if (/\b(van|minivan)\b/.test(normalizedModel)) return 'van';
+  }
+  if (TRUCK_MAKES.includes(normalizedMake)) return 'truck';
+  if (SUV_MAKES.includes(normalizedMake)) return 'suv';
+  return normalizedModel ? 'sedan' : null;
+}
+
+/**
+ * Condition keys mentioned in free text ("lots of dog hair", "muddy floors").
+ * Tenant-defined conditions match on their label or key.
+ */
+export function detectConditions(
+  text: string | null | undefined,
+  customConditions: Array<{ key: string; label: string }> = []
+): string[] {
+  const normalized = (text || '').toLowerCase();
+  if (!normalized) return [];
+
+  const found = new Set<string>();
+  for (const key of Object.keys(CONDITION_KEYWORDS)) {
+    if (CONDITION_KEYWORDS[key].some((pattern) => pattern.test(normalized))) found.add(key);
+  }
+  for (const condition of customConditions) {
+    const phrases = [condition.label.toLowerCase(), condition.key.replace(/_/g, ' ')];
+    if (phrases.some((phrase) => phrase && normalized.includes(phrase))) found.add(condition.key);
+  }
+  return Array.from(found);
+}
+
+export interface PriceModifierRule {
+  kind: PriceModifierKind;
+  key: string;
+  label: string;
+  adjustmentType: PriceAdjustmentType;
+  amount: number;
+  serviceId: number | null; // null applies to every service
+}
+
+export interface TaxSettings {
+  rate: number; // Percent, e.g. 8.25
+  label: string;
+  reducedRate?: number; // Invoice lines in the 'reduced' tax category
+}
+
+export interface EstimateVehicle {
+  description?: string;
+  vehicleClass?: VehicleClass | null;
+  conditions?: string[];
+}
+
+export interface EstimateInput {
+  service: { id: number; name: string; basePrice: number };
+  vehicles: EstimateVehicle[];
+  addOns: Array<{ id?: number; name: string; price: number }>;
+  modifiers: PriceModifierRule[];
+  tax: TaxSettings;
+}
+
+export type EstimateLineKind = 'service' | 'vehicle_class' | 'condition' | 'add_on';
+
+export interface EstimateLine {
+  kind: EstimateLineKind;
+  label: string;
+  amount: number;
+  vehicleIndex?: number;
+}
+
+export interface PriceEstimate {
+  serviceId: number;
+  serviceName: string;
+  lines: EstimateLine[];
+  subtotal: number;
+  taxLabel: string;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * The modifier that applies to a service: a service-specific rule wins over
+ * the tenant-wide one with the same kind and key.
+ */
+export function resolveModifier(
+  modifiers: PriceModifierRule[],
+  kind: PriceModifierKind,
+  key: string,
+  serviceId: number
+): PriceModifierRule | null {
+  const matching = modifiers.filter((m) => m.kind === kind && m.key === key);
+  return matching.find((m) => m.serviceId === serviceId)
+    ?? matching.find((m) => m.serviceId === null)
+    ?? null;
+}
+
+function adjustmentCents(rule: PriceModifierRule, baseCents: number): number {
+  return rule.adjustmentType === 'percent'
+    ? Math.round((baseCents * rule.amount) / 100)
+    : toCents(rule.amount);
+}
+
+/**
+ * Itemized estimate: the service once per vehicle with its class and
+ * condition adjustments, add-ons once per visit, then tax on the subtotal.
+ * Percent modifiers apply to the service's base price.
+ */
+export function buildEstimate(input: EstimateInput): PriceEstimate {
+  const { service, addOns, modifiers, tax } = input;
+  const vehicles: EstimateVehicle[] = input.vehicles.length > 0 ? input.vehicles : [{}];
+  const baseCents = toCents(service.basePrice);
+  const lines: Array<Omit<EstimateLine, 'amount'> & { cents: number }> = [];
+  const labelled = vehicles.length > 1;
+
+  vehicles.forEach((vehicle, index) => {
+    const vehicleIndex = labelled ? index : undefined;
+    const suffix = labelled && vehicle.description ? ` (${vehicle.description})` : '';
+    lines.push({ kind: 'service', label: `${service.name}${suffix}`, cents: baseCents, vehicleIndex });
+
+    if (vehicle.vehicleClass) {
+      const rule = resolveModifier(modifiers, 'vehicle_class', vehicle.vehicleClass, service.id);
+      const cents = rule ? adjustmentCents(rule, baseCents) : 0;
+      if (rule && cents !== 0) {
+        lines.push({ kind: 'vehicle_class', label: rule.label, cents, vehicleIndex });
+      }
+    }
+
+    const conditions = Array.from(new Set(vehicle.conditions ?? []));
+    for (const condition of conditions) {
+      const rule = resolveModifier(modifiers, 'condition', condition, service.id);
+      if (!rule) continue;
+      const cents = adjustmentCents(rule, baseCents);
+      if (cents !== 0) lines.push({ kind: 'condition', label: rule.label, cents, vehicleIndex });
+    }
+  });
+
+  for (const addOn of addOns) {
+    lines.push({ kind: 'add_on', label: addOn.name, cents: toCents(addOn.price) });
+  }
+
+  const subtotalCents = Math.max(0, lines.reduce((sum, line) => sum + line.cents, 0));
+  const taxCents = Math.round((subtotalCents * Math.max(0, tax.rate)) / 100);
+
+  return {
+    serviceId: service.id,
+    serviceName: service.name,
+    lines: lines.map(({ cents, ...line }) => ({ ...line, amount: fromCents(cents) })),
+    subtotal: fromCents(subtotalCents),
+    taxLabel: tax.label,
+    taxRate: tax.rate,
+    tax: fromCents(taxCents),
+    total: fromCents(subtotalCents + taxCents),
+  };
+}
+
+export function formatPrice(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${Math.abs(amount).toFixed(2)}`;
+}
+
+/**
+ * Plain-text itemization for SMS and chat summaries
+ */
+export function formatEstimateLines(estimate: PriceEstimate): string[] {
+  const rows = estimate.lines.map((line) => {
+    const indent = line.kind === 'service' ? '' : '  + ';
+    return `${indent}${line.label}: ${formatPrice(line.amount)}`;
+  });
+  rows.push(`Subtotal: ${formatPrice(estimate.subtotal)}`);
+  if (estimate.tax > 0) rows.push(`${estimate.taxLabel} (${estimate.taxRate}%): ${formatPrice(estimate.tax)}`);
+  rows.push(`Estimated total: ${formatPrice(estimate.total)}`);
+  return rows;
+}
+
+// ----------------------------------------------------------------------
+// Request validation
+// ----------------------------------------------------------------------
+
+const conditionKeySchema = z.string().trim().toLowerCase().regex(/^[a-z0-9_]{1,40}$/, 'Condition keys are lowercase letters, digits and underscores');
+
+export const estimateVehicleSchema = z.object({
+  vehicleId: z.number().int().positive().optional(),
+  vehicleClass: z.enum(VEHICLE_CLASSES).optional(),
+  year: z.string().trim().max(4).optional(),
+  make: z.string().trim().max(100).optional(),
+  model: z.string().trim().max(100).optional(),
+  conditions: z.array(conditionKeySchema).max(10).optional(),
+});
+export type EstimateVehicleRequest = z.infer<typeof estimateVehicleSchema>;
+
+export const priceEstimateRequestSchema = z.object({
+  serviceId: z.number().int().positive().optional(),
+  serviceName: z.string().trim().min(1).max(200).optional(),
+  vehicles: z.array(estimateVehicleSchema).max(10).optional(),
+  addOnIds: z.array(z.number().int().positive()).max(20).optional(),
+  addOnNames: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+}).refine((data) => data.serviceId !== undefined || data.serviceName !== undefined, {
+  message: 'serviceId or serviceName is required',
+  path: ['serviceId'],
+});
+export type PriceEstimateRequest = z.infer<typeof priceEstimateRequestSchema>;
+
+export const servicePriceInputSchema = z.object({
+  basePrice: z.number().min(0).max(100000),
+  isActive: z.boolean().optional(),
+});
+
+export const priceModifierInputSchema = z.object({
+  kind: z.enum(PRICE_MODIFIER_KINDS),
+  key: conditionKeySchema,
+  label: z.string().trim().min(1).max(100),
+  adjustmentType: z.enum(PRICE_ADJUSTMENT_TYPES),
+  amount: z.number().min(-100000).max(100000),
+  serviceId: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+export type PriceModifierInput = z.infer<typeof priceModifierInputSchema>;
+
+/**
+ * Cross-field checks shared by create and update
+ */
+export function priceModifierError(input: Pick<PriceModifierInput, 'kind' | 'key' | 'adjustmentType' | 'amount'>): string | null {
+  if (input.kind === 'vehicle_class' && !(VEHICLE_CLASSES as readonly string[]).includes(input.key)) {
+    return `Vehicle class must be one of: ${VEHICLE_CLASSES.join(', ')}`;
+  }
+  if (input.adjustmentType === 'percent' && (input.amount < -100 || input.amount > 500)) {
+    return 'Percent adjustments must be between -100 and 500';
+  }
+  return null;
+}
+
+export const taxSettingsInputSchema = z.object({
+  salesTaxRate: z.number().min(0).max(25),
+  salesTaxLabel: z.string().trim().min(1).max(50).optional(),
+  reducedTaxRate: z.number().min(0).max(25).optional(),
+});
@@ -34,6 +34,7 @@ export type UsageFeature =
   | 'booking_email' 
   | 'reminder_sms'
   | 'voicemail_ai'
+  | 'ai_voice'
   | 'customer_sms'
   | 'staff_sms'
   | 'general';
@@ -0,0 +1,152 @@
+/**
+ * Promo Rule Definitions
+ *
+ * Shared types and pure evaluation for tenant-editable loyalty promo rules.
+ * Rules live in the promo_rule_definitions table; the built-in defaults in
+ * server/config/promoRules.ts are used for any promo a tenant hasn't
+ * customised.
+ */
+
+import { z } from 'zod';
+
+export const PROMO_AWARD_MODES = ['immediate', 'pending_until_next_completed_job'] as const;
+export type PromoAwardMode = typeof PROMO_AWARD_MODES[number];
+
+export const LOYALTY_TIERS = ['bronze', 'silver', 'gold', 'platinum'] as const;
+
+/**
+ * Eligibility predicates. Every predicate that is set must pass.
+ */
+export interface PromoEligibility {
+  minCompletedJobs?: number;          // e.g. 1 = must have at least one completed job
+  loyaltyTiers?: string[];            // Customer's tier must be one of these
+  lastVisitOlderThanDays?: number;    // Lapsed customers: last visit at least N days ago
+  lastVisitWithinDays?: number;       // Active customers: last visit within N days
+}
+
+export interface PromoRuleDefinition {
+  promoKey: string;
+  name: string;
+  description: string | null;
+  defaultPoints: number | null;
+  perCustomerLifetimeMax: number | null;
+  perCustomerPerYearMax: number | null;
+  perHouseholdPerYearMax: number | null;
+  awardMode: PromoAwardMode;
+  eligibility: PromoEligibility;
+  validFrom: Date | string | null;
+  validUntil: Date | string | null;
+  isActive: boolean;
+}
+
+/**
+ * What eligibility predicates are evaluated against
+ */
+export interface CustomerPromoFacts {
+  customerId: number;
+  loyaltyTier: string | null;
+  completedJobs: number;
+  lastVisitAt: Date | string | null;
+}
+
+export type PromoIneligibleReason =
+  | 'promo_inactive'
+  | 'outside_validity_window'
+  | 'no_completed_jobs'
+  | 'loyalty_tier'
+  | 'visited_too_recently'
+  | 'no_recent_visit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Is the rule switched on and inside its validity window?
+ */
+export function checkPromoWindow(
+  rule: Pick<PromoRuleDefinition, 'isActive' | 'validFrom' | 'validUntil'>,
+  now: Date = new Date()
+): PromoIneligibleReason | null {
+  if (!rule.isActive) return 'promo_inactive';
+  if (rule.validFrom && new Date(rule.validFrom) > now) return 'outside_validity_window';
+  if (rule.validUntil && new Date(rule.validUntil) < now) return 'outside_validity_window';
+  return null;
+}
+
+/**
+ * Evaluate eligibility predicates for one customer. Returns the first failing
+ * predicate, or null if the customer qualifies.
+ */
+export function evaluatePromoEligibility(
+  eligibility: PromoEligibility,
+  facts: CustomerPromoFacts,
+  now: Date = new Date()
+): PromoIneligibleReason | null {
+  if (eligibility.minCompletedJobs && facts.completedJobs < eligibility.minCompletedJobs) {
+    return 'no_completed_jobs';
+  }
+
+  if (eligibility.loyaltyTiers && eligibility.loyaltyTiers.length > 0) {
+    if (!facts.loyaltyTier || !eligibility.loyaltyTiers.includes(facts.loyaltyTier)) {
+      return 'loyalty_tier';
+    }
+  }
+
+  const daysSinceVisit = facts.lastVisitAt
+    ? (now.getTime() - new Date(facts.lastVisitAt).getTime()) / DAY_MS
+    : null;
+
+  if (eligibility.lastVisitOlderThanDays !== undefined && daysSinceVisit !== null) {
+    // Customers who never visited count as lapsed
+    if (daysSinceVisit < eligibility.lastVisitOlderThanDays) return 'visited_too_recently';
+  }
+
+  if (eligibility.lastVisitWithinDays !== undefined) {
+    if (daysSinceVisit === null || daysSinceVisit > eligibility.lastVisitWithinDays) return 'no_recent_visit';
+  }
+
+  return null;
+}
+
+const optionalCap = z.number().int().min(1).nullable().optional();
+
+export const promoEligibilitySchema = z.object({
+  minCompletedJobs: z.number().int().min(1).optional(),
+  loyaltyTiers: z.array(z.enum(LOYALTY_TIERS)).optional(),
+  lastVisitOlderThanDays: z.number().int().min(1).optional(),
+  lastVisitWithinDays: z.number().int().min(1).optional(),
+});
+
+export const promoRuleInputSchema = z.object({
+  promoKey: z.string().min(1).max(100).regex(/^[a-z0-9_]+$/, 'Use lowercase letters, numbers and underscores'),
+  name: z.string().min(1).max(200),
+  description: z.string().max(1000).nullable().optional(),
+  defaultPoints: z.number().int().min(1).nullable().optional(),
+  perCustomerLifetimeMax: optionalCap,
+  perCustomerPerYearMax: optionalCap,
+  perHouseholdPerYearMax: optionalCap,
+  awardMode: z.enum(PROMO_AWARD_MODES),
+  eligibility: promoEligibilitySchema.default({}),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().default(true),
+}).refine(
+  rule => !rule.validFrom || !rule.validUntil || rule.validFrom < rule.validUntil,
+  { message: 'validFrom must be before validUntil', path: ['validUntil'] }
+);
+
+export type PromoRuleInput = z.infer<typeof promoRuleInputSchema>;
+
+export interface PromoDryRunCustomer {
+  customerId: number;
+  name: string;
+  eligible: boolean;
+  reason: string | null;
+}
+
+export interface PromoDryRunResult {
+  promoKey: string;
+  evaluated: number;
+  eligible: number;
+  ineligibleByReason: Record<string, number>;
+  customers: PromoDryRunCustomer[];
+}
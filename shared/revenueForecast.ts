@@ -0,0 +1,326 @@
+/**
+ * Revenue Forecast Model
+ *
+ * Pure forecasting math for the analytics dashboard. Each forecast month is
+ * built from sources we already know about plus an estimate of what hasn't
+ * been booked yet:
+ *
+ *   booked      confirmed future appointments x historical completion rate
+ *   recurring   expected occurrences of active recurring services
+ *   quotes      open quotes x historical acceptance rate (first month only)
+ *   newBusiness whatever the seasonal baseline expects beyond the above
+ *
+ * The baseline is the average paid revenue per month, scaled by a
+ * month-of-year seasonal index and year-over-year growth once there is
+ * enough history. Every ratio is guarded so brand new tenants get a
+ * forecast of their known pipeline rather than NaN.
+ */
+
+export interface MonthlyRevenue {
+  month: string; // YYYY-MM
+  revenue: number;
+}
+
+export interface ForecastItem {
+  month: string; // YYYY-MM
+  amount: number;
+}
+
+export interface RevenueForecastInput {
+  now: Date;
+  horizonMonths: number;
+  history: MonthlyRevenue[];     // Paid revenue per month, oldest first (gaps allowed)
+  booked: ForecastItem[];        // Future appointments, already valued
+  recurring: ForecastItem[];     // Expected recurring occurrences, already valued
+  openQuotes: number[];          // Amounts of quotes awaiting a decision
+  completionRate: number;        // Share of scheduled appointments that get completed
+  quoteAcceptanceRate: number;   // Share of decided quotes that were approved
+}
+
+export interface ForecastBreakdown {
+  booked: number;
+  recurring: number;
+  quotes: number;
+  newBusiness: number;
+}
+
+export interface ForecastMonth {
+  month: string;
+  predictedRevenue: number;
+  low: number;
+  high: number;
+  confidence: number;  // 0-1, narrower band = higher confidence
+  baseline: number;
+  breakdown: ForecastBreakdown;
+}
+
+export interface RevenueForecast {
+  months: ForecastMonth[];
+  bandLevel: number;
+  seasonalIndex: Record<string, number>; // '01'..'12'
+  metrics: {
+    avgMonthlyRevenue: number;
+    growthRate: number;        // Year-over-year (0 until 24 months of history)
+    totalRevenue: number;
+    volatility: number;        // Coefficient of variation of monthly revenue vs baseline
+    completionRate: number;
+    quoteAcceptanceRate: number;
+    historyMonths: number;
+  };
+}
+
+// 80% confidence band
+const BAND_Z = 1.28;
+const BAND_LEVEL = 0.8;
+// Assumed month-to-month variation when there's too little history to measure it
+const DEFAULT_VOLATILITY = 0.25;
+// A perfectly regular past still doesn't make the future certain
+const MIN_VOLATILITY = 0.05;
+
+export const RECURRING_INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  first_of_month: 1,
+  '15th_of_month': 1,
+  last_of_month: 1,
+  every_2_months: 2,
+  every_3_months: 3,
+  quarterly: 3,
+  every_6_months: 6,
+  yearly: 12,
+};
+
+export const RECURRING_INTERVAL_DAYS: Record<string, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+export function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Month keys for the forecast horizon, starting the month after `now`
+ */
+export function forecastMonthKeys(now: Date, horizonMonths: number): string[] {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const keys: string[] = [];
+  for (let i = 1; i <= horizonMonths; i++) {
+    keys.push(monthKey(addMonths(start, i)));
+  }
+  return keys;
+}
+
+/**
+ * Expected occurrence dates of a recurring service in [from, to).
+ * Unknown frequencies and services without a next date yield nothing.
+ */
+export function recurringOccurrences(
+  schedule: { frequency: string; nextScheduledDate: string | Date | null; intervalCustomDates?: string[] | null },
+  from: Date,
+  to: Date
+): Date[] {
+  if (schedule.frequency === 'custom_dates') {
+    return (schedule.intervalCustomDates ?? [])
+      .map(value => new Date(`${value}T12:00:00Z`))
+      .filter(date => !isNaN(date.getTime()) && date >= from && date < to);
+  }
+
+  if (!schedule.nextScheduledDate) return [];
+  const first = typeof schedule.nextScheduledDate === 'string'
+    ? new Date(`${schedule.nextScheduledDate.slice(0, 10)}T12:00:00Z`)
+    : schedule.nextScheduledDate;
+  if (isNaN(first.getTime())) return [];
+
+  const stepDays = RECURRING_INTERVAL_DAYS[schedule.frequency];
+  const stepMonths = RECURRING_INTERVAL_MONTHS[schedule.frequency];
+  if (!stepDays && !stepMonths) return [];
+
+  const dates: Date[] = [];
+  for (let i = 0; i < 500; i++) {
+    const date = stepDays
+      ? new Date(first.getTime() + i * stepDays * 24 * 60 * 60 * 1000)
+      : addMonths(first, i * stepMonths);
+    if (date >= to) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Ratio with a prior, so small samples lean on a sensible default instead of
+ * swinging to 0% or 100% (and empty samples don't divide by zero).
+ */
+export function smoothedRate(successes: number, total: number, prior: number, priorWeight: number): number {
+  return (successes + prior * priorWeight) / (total + priorWeight);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * Fill gaps so every month from the first month with revenue through the
+ * month before `now` is present. Months before a tenant's first sale are
+ * dropped so they don't drag the average down.
+ */
+export function normalizeHistory(history: MonthlyRevenue[], now: Date): MonthlyRevenue[] {
+  const byMonth = new Map<string, number>();
+  for (const row of history) {
+    byMonth.set(row.month, (byMonth.get(row.month) ?? 0) + (Number(row.revenue) || 0));
+  }
+  const firstWithRevenue = history
+    .filter(row => Number(row.revenue) > 0)
+    .map(row => row.month)
+    .sort()[0];
+  if (!firstWithRevenue) return [];
+
+  const currentMonth = monthKey(now);
+  const result: MonthlyRevenue[] = [];
+  let cursor = new Date(`${firstWithRevenue}-01T00:00:00Z`);
+  while (monthKey(cursor) < currentMonth) {
+    const key = monthKey(cursor);
+    result.push({ month: key, revenue: byMonth.get(key) ?? 0 });
+    cursor = addMonths(cursor, 1);
+  }
+  return result;
+}
+
+/**
+ * Month-of-year multipliers. Needs a full year of history; until then every
+ * month is 1. Clamped so one freak month can't dominate.
+ */
+export function seasonalIndices(history: MonthlyRevenue[]): Record<string, number> {
+  const indices: Record<string, number> = {};
+  const overall = mean(history.map(row => row.revenue));
+  const byMonthOfYear: Record<string, number[]> = {};
+  for (const row of history) {
+    const moy = row.month.slice(5, 7);
+    (byMonthOfYear[moy] = byMonthOfYear[moy] ?? []).push(row.revenue);
+  }
+
+  for (let m = 1; m <= 12; m++) {
+    const moy = String(m).padStart(2, '0');
+    if (history.length < 12 || overall <= 0 || !byMonthOfYear[moy]) {
+      indices[moy] = 1;
+    } else {
+      indices[moy] = Math.min(3, Math.max(0.25, mean(byMonthOfYear[moy]) / overall));
+    }
+  }
+  return indices;
+}
+
+/**
+ * Year-over-year growth from the last 24 months, clamped to [-50%, +100%].
+ * Zero with less history or no prior-year revenue.
+ */
+export function yearOverYearGrowth(history: MonthlyRevenue[]): number {
+  if (history.length < 24) return 0;
+  const last12 = history.slice(-12).reduce((sum, row) => sum + row.revenue, 0);
+  const prior12 = history.slice(-24, -12).reduce((sum, row) => sum + row.revenue, 0);
+  if (prior12 <= 0) return 0;
+  return Math.min(1, Math.max(-0.5, last12 / prior12 - 1));
+}
+
+function sumByMonth(items: ForecastItem[]) {
+  const totals = new Map<string, { amount: number; squares: number }>();
+  for (const item of items) {
+    const entry = totals.get(item.month) ?? { amount: 0, squares: 0 };
+    entry.amount += item.amount;
+    entry.squares += item.amount * item.amount;
+    totals.set(item.month, entry);
+  }
+  return totals;
+}
+
+const round = (value: number) => Math.round(value);
+
+export function buildRevenueForecast(input: RevenueForecastInput): RevenueForecast {
+  const history = normalizeHistory(input.history, input.now);
+  const recent = history.slice(-12);
+  const level = mean(recent.map(row => row.revenue));
+  const seasonal = seasonalIndices(history);
+  const growth = yearOverYearGrowth(history);
+
+  // Volatility: how far actual months strayed from the seasonal baseline
+  let volatility = DEFAULT_VOLATILITY;
+  if (recent.length >= 3 && level > 0) {
+    const ratios = recent.map(row => row.revenue / (level * seasonal[row.month.slice(5, 7)]));
+    const ratioMean = mean(ratios);
+    volatility = Math.max(MIN_VOLATILITY, Math.sqrt(mean(ratios.map(r => (r - ratioMean) ** 2))));
+  }
+
+  const completion = Math.min(1, Math.max(0, input.completionRate));
+  const acceptance = Math.min(1, Math.max(0, input.quoteAcceptanceRate));
+  const booked = sumByMonth(input.booked);
+  const recurring = sumByMonth(input.recurring);
+  const quoteTotal = input.openQuotes.reduce((a, b) => a + b, 0);
+  const quoteSquares = input.openQuotes.reduce((a, b) => a + b * b, 0);
+
+  const months = forecastMonthKeys(input.now, input.horizonMonths).map((month, index) => {
+    const horizon = index + 1;
+    const baseline = level * seasonal[month.slice(5, 7)] * Math.pow(1 + growth, horizon / 12);
+
+    const bookedGross = booked.get(month) ?? { amount: 0, squares: 0 };
+    const recurringGross = recurring.get(month) ?? { amount: 0, squares: 0 };
+    // Open quotes are assumed to be decided and worked within the next month
+    const quotesGross = index === 0 ? { amount: quoteTotal, squares: quoteSquares } : { amount: 0, squares: 0 };
+
+    const breakdown: ForecastBreakdown = {
+      booked: bookedGross.amount * completion,
+      recurring: recurringGross.amount * completion,
+      quotes: quotesGross.amount * acceptance,
+      newBusiness: 0,
+    };
+    const known = breakdown.booked + breakdown.recurring + breakdown.quotes;
+    breakdown.newBusiness = Math.max(0, baseline - known);
+    const predicted = known + breakdown.newBusiness;
+
+    // Each source is independent: Bernoulli variance for known jobs/quotes,
+    // historical volatility (growing with horizon) for unbooked demand
+    const variance =
+      (bookedGross.squares + recurringGross.squares) * completion * (1 - completion) +
+      quotesGross.squares * acceptance * (1 - acceptance) +
+      (breakdown.newBusiness * volatility) ** 2 * horizon;
+    const spread = BAND_Z * Math.sqrt(variance);
+
+    return {
+      month,
+      predictedRevenue: round(predicted),
+      low: round(Math.max(0, predicted - spread)),
+      high: round(predicted + spread),
+      confidence: predicted > 0 ? Math.round(Math.max(0, 1 - spread / predicted) * 100) / 100 : 0,
+      baseline: round(baseline),
+      breakdown: {
+        booked: round(breakdown.booked),
+        recurring: round(breakdown.recurring),
+        quotes: round(breakdown.quotes),
+        newBusiness: round(breakdown.newBusiness),
+      },
+    };
+  });
+
+  return {
+    months,
+    bandLevel: BAND_LEVEL,
+    seasonalIndex: seasonal,
+    metrics: {
+      avgMonthlyRevenue: round(level),
+      growthRate: Math.round(growth * 100) / 100,
+      totalRevenue: recent.reduce((sum, row) => sum + row.revenue, 0),
+      volatility: Math.round(volatility * 100) / 100,
+      completionRate: Math.round(completion * 100) / 100,
+      quoteAcceptanceRate: Math.round(acceptance * 100) / 100,
+      historyMonths: history.length,
+    },
+  };
+}
@@ -7,3 +7,438 @@ export interface RouteSuggestion {
   nearbyJobIds?: number[];          // IDs of nearby bookings
   travelMinutes: number | null;
 }
+
+// ============================================================
+// Multi-stop day planning
+// ============================================================
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * One job to place on a technician's day route.
+ */
+export interface RouteStopInput {
+  appointmentId: number;
+  location: GeoPoint | null;          // null = job was never geocoded
+  durationMinutes: number;            // On-site time (service maxDurationHours)
+  scheduledTime: Date | string | null; // Originally booked start
+  customerName?: string | null;
+  address?: string | null;
+}
+
+export type UnfittableReason = 'missing_location' | 'exceeds_work_day';
+
+export interface PlannedRouteStop {
+  appointmentId: number;
+  sequence: number;                   // 1-based visit order
+  customerName: string | null;
+  address: string | null;
+  location: GeoPoint;
+  driveMinutesFromPrevious: number;
+  distanceMilesFromPrevious: number;  // Straight-line, for display only
+  estimatedArrival: string;           // ISO
+  arrivalWindowStart: string;         // ISO
+  arrivalWindowEnd: string;           // ISO
+  estimatedDeparture: string;         // ISO
+  durationMinutes: number;
+  scheduledTime: string | null;       // ISO of original booking
+  minutesFromScheduled: number | null; // + = later than booked, - = earlier
+}
+
+export interface UnfittableRouteJob {
+  appointmentId: number;
+  customerName: string | null;
+  reason: UnfittableReason;
+}
+
+export interface DayRoutePlan {
+  technicianId: number;
+  date: string;                       // YYYY-MM-DD (tenant local)
+  origin: GeoPoint | null;
+  originLabel: 'home_base' | 'current_location' | 'active_job' | 'first_stop';
+  stops: PlannedRouteStop[];
+  unfittable: UnfittableRouteJob[];
+  totalDriveMinutes: number;          // Includes return leg when returnToOrigin
+  totalServiceMinutes: number;
+  returnDriveMinutes: number | null;
+  dayStart: string;                   // ISO
+  dayEnd: string;                     // ISO
+  projectedFinish: string;            // ISO (after return leg, if any)
+  usedEstimatedTravelTimes: boolean;  // true if any leg fell back to haversine
+  generatedAt: string;                // ISO
+}
+
+/**
+ * Square matrix of drive minutes. Index 0 is the route origin,
+ * index i (1..n) is stops[i - 1].
+ */
+export type TravelMatrix = number[][];
+
+export interface PlanDayRouteOptions {
+  stops: RouteStopInput[];
+  matrix: TravelMatrix;
+  dayStart: Date;
+  dayEnd: Date;
+  returnToOrigin: boolean;
+  origin?: GeoPoint | null;           // Start of the route, for the first leg's distance
+  arrivalWindowMinutes?: number;      // Width of the customer-facing window (default 30)
+  bookedTimeToleranceMinutes?: number; // How far from the booked time a stop may start (default 60)
+}
+
+export interface PlanDayRouteResult {
+  stops: PlannedRouteStop[];
+  unfittable: UnfittableRouteJob[];
+  totalDriveMinutes: number;
+  totalServiceMinutes: number;
+  returnDriveMinutes: number | null;
+  projectedFinish: Date;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const DEFAULT_AVERAGE_SPEED_MPH = 30;
+const DEFAULT_ROAD_FACTOR = 1.3;
+const DEFAULT_BOOKED_TIME_TOLERANCE_MINUTES = 60;
+
+/**
+ * Great-circle distance between two points in miles.
+ */
+export function haversineMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Offline drive-time estimate: straight-line distance stretched by a road
+ * factor, driven at an average city speed. Used whenever live travel times
+ * are unavailable (no API key, outage, technician offline).
+ */
+export function estimateDriveMinutes(
+  a: GeoPoint,
+  b: GeoPoint,
+  averageSpeedMph: number = DEFAULT_AVERAGE_SPEED_MPH,
+  roadFactor: number = DEFAULT_ROAD_FACTOR
+): number {
+  const miles = haversineMiles(a, b) * roadFactor;
+  return Math.round((miles / averageSpeedMph) * 60);
+}
+
+// Typical technician days are small enough to solve exactly
+const EXACT_SEARCH_MAX_STOPS = 8;
+
+/**
+ * When a stop may be reached, as epoch ms. A technician who gets there early
+ * waits for `open`; getting there after `close` counts as late.
+ */
+export interface TimeWindow {
+  open: number;
+  close: number;
+}
+
+/**
+ * Timeline for ordering stops that have booked times. Indexed like the
+ * matrix (0 = origin).
+ */
+export interface VisitSchedule {
+  start: number;                     // Epoch ms the route leaves the origin
+  durations: number[];               // On-site minutes per matrix index
+  windows: Array<TimeWindow | null>; // null = any time
+}
+
+interface RouteScore {
+  lateMinutes: number;  // Minutes past closed windows, summed
+  driveMinutes: number;
+}
+
+// Fewer late minutes first, then less driving
+function isBetter(a: RouteScore, b: RouteScore): boolean {
+  return a.lateMinutes < b.lateMinutes || (a.lateMinutes === b.lateMinutes && a.driveMinutes < b.driveMinutes);
+}
+
+/**
+ * Arrive after driving from `clock`, waiting for the window to open if early
+ */
+function arriveAt(clock: number, driveMinutes: number, window: TimeWindow | null | undefined): { arrival: number; lateMinutes: number } {
+  const reached = clock + driveMinutes * 60000;
+  if (!window) return { arrival: reached, lateMinutes: 0 };
+  return {
+    arrival: Math.max(reached, window.open),
+    lateMinutes: Math.max(0, (reached - window.close) / 60000),
+  };
+}
+
+function scoreRoute(order: number[], matrix: TravelMatrix, returnToOrigin: boolean, schedule?: VisitSchedule): RouteScore {
+  let driveMinutes = 0;
+  let lateMinutes = 0;
+  let clock = schedule?.start ?? 0;
+  let prev = 0;
+  for (const idx of order) {
+    driveMinutes += matrix[prev][idx];
+    if (schedule) {
+      const visit = arriveAt(clock, matrix[prev][idx], schedule.windows[idx]);
+      lateMinutes += visit.lateMinutes;
+      clock = visit.arrival + (schedule.durations[idx] ?? 0) * 60000;
+    }
+    prev = idx;
+  }
+  if (returnToOrigin && order.length > 0) {
+    driveMinutes += matrix[prev][0];
+  }
+  return { lateMinutes, driveMinutes };
+}
+
+// Stops in the order their windows open, unbooked ones after them
+function windowOrderSeed(candidates: number[], schedule?: VisitSchedule): number[] {
+  if (!schedule) return [...candidates];
+  return [...candidates].sort((a, b) => (schedule.windows[a]?.open ?? Infinity) - (schedule.windows[b]?.open ?? Infinity));
+}
+
+/**
+ * Branch-and-bound search over every visit order. Only used for small days.
+ */
+function exactVisitOrder(
+  candidates: number[],
+  matrix: TravelMatrix,
+  returnToOrigin: boolean,
+  schedule?: VisitSchedule
+): number[] {
+  let bestOrder = windowOrderSeed(candidates, schedule);
+  let best = scoreRoute(bestOrder, matrix, returnToOrigin, schedule);
+  const path: number[] = [];
+  const used = new Set<number>();
+
+  // Late and drive minutes only grow along a path, so a partial route that
+  // is already no better than the best complete one can be dropped
+  const visit = (current: number, clock: number, score: RouteScore) => {
+    if (!isBetter(score, best)) return;
+    if (path.length === candidates.length) {
+      const total = { ...score, driveMinutes: score.driveMinutes + (returnToOrigin ? matrix[current][0] : 0) };
+      if (isBetter(total, best)) {
+        best = total;
+        bestOrder = [...path];
+      }
+      return;
+    }
+    for (const idx of candidates) {
+      if (used.has(idx)) continue;
+      const drive = matrix[current][idx];
+      const next = schedule ? arriveAt(clock, drive, schedule.windows[idx]) : { arrival: clock, lateMinutes: 0 };
+      used.add(idx);
+      path.push(idx);
+      visit(
+        idx,
+        schedule ? next.arrival + (schedule.durations[idx] ?? 0) * 60000 : clock,
+        { lateMinutes: score.lateMinutes + next.lateMinutes, driveMinutes: score.driveMinutes + drive }
+      );
+      path.pop();
+      used.delete(idx);
+    }
+  };
+
+  visit(0, schedule?.start ?? 0, { lateMinutes: 0, driveMinutes: 0 });
+  return bestOrder;
+}
+
+/**
+ * Nearest stop that can still be reached inside its window; when none can,
+ * the one whose window closes first
+ */
+function nearestNeighbourOrder(candidates: number[], matrix: TravelMatrix, schedule?: VisitSchedule): number[] {
+  const remaining = new Set(candidates);
+  const order: number[] = [];
+  let current = 0;
+  let clock = schedule?.start ?? 0;
+
+  while (remaining.size > 0) {
+    let next = -1;
+    let best = Infinity;
+    let fallback = -1;
+    let fallbackClose = Infinity;
+    for (const idx of Array.from(remaining)) {
+      const window = schedule?.windows[idx];
+      if (window && arriveAt(clock, matrix[current][idx], window).lateMinutes > 0) {
+        if (fallback === -1 || window.close < fallbackClose) {
+          fallback = idx;
+          fallbackClose = window.close;
+        }
+        continue;
+      }
+      if (matrix[current][idx] < best) {
+        best = matrix[current][idx];
+        next = idx;
+      }
+    }
+    if (next === -1) next = fallback;
+    if (schedule) {
+      clock = arriveAt(clock, matrix[current][next], schedule.windows[next]).arrival + (schedule.durations[next] ?? 0) * 60000;
+    }
+    order.push(next);
+    remaining.delete(next);
+    current = next;
+  }
+  return order;
+}
+
+/**
+ * Visit order that minimizes total drive time while reaching every booked
+ * stop inside its window (or, when that's impossible, as little late as
+ * possible). Small days are solved exactly; larger ones start from the
+ * better of a nearest-neighbour and a window-order route, followed by 2-opt
+ * improvement. Returns matrix indices (1..n).
+ */
+export function optimizeVisitOrder(
+  candidates: number[],
+  matrix: TravelMatrix,
+  returnToOrigin: boolean,
+  schedule?: VisitSchedule
+): number[] {
+  if (candidates.length <= EXACT_SEARCH_MAX_STOPS) {
+    return exactVisitOrder(candidates, matrix, returnToOrigin, schedule);
+  }
+
+  const greedy = nearestNeighbourOrder(candidates, matrix, schedule);
+  const seed = windowOrderSeed(candidates, schedule);
+  const greedyScore = scoreRoute(greedy, matrix, returnToOrigin, schedule);
+  const seedScore = scoreRoute(seed, matrix, returnToOrigin, schedule);
+  const order = isBetter(seedScore, greedyScore) ? seed : greedy;
+  let bestScore = order === seed ? seedScore : greedyScore;
+
+  // 2-opt: reverse segments while it improves the route
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ];
+        const score = scoreRoute(candidate, matrix, returnToOrigin, schedule);
+        if (isBetter(score, bestScore)) {
+          order.splice(0, order.length, ...candidate);
+          bestScore = score;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60000);
+
+/**
+ * Plans a technician's day: picks the visit order, walks the timeline
+ * (waiting for a booked stop's window to open) to produce arrival windows,
+ * and flags jobs that have no location or would run past the end of the
+ * work day.
+ */
+export function planDayRoute(options: PlanDayRouteOptions): PlanDayRouteResult {
+  const { stops, matrix, dayStart, dayEnd, returnToOrigin } = options;
+  const windowMinutes = options.arrivalWindowMinutes ?? 30;
+  const toleranceMs = (options.bookedTimeToleranceMinutes ?? DEFAULT_BOOKED_TIME_TOLERANCE_MINUTES) * 60000;
+
+  const unfittable: UnfittableRouteJob[] = [];
+  const routable: number[] = [];
+  stops.forEach((stop, i) => {
+    if (stop.location) {
+      routable.push(i + 1);
+    } else {
+      unfittable.push({
+        appointmentId: stop.appointmentId,
+        customerName: stop.customerName ?? null,
+        reason: 'missing_location',
+      });
+    }
+  });
+
+  // Customers were promised their booked times: each booked stop may start
+  // within the tolerance either side of it
+  const schedule: VisitSchedule = {
+    start: dayStart.getTime(),
+    durations: [0, ...stops.map(stop => stop.durationMinutes)],
+    windows: [null, ...stops.map(stop => {
+      if (!stop.scheduledTime) return null;
+      const booked = new Date(stop.scheduledTime).getTime();
+      return { open: booked - toleranceMs, close: booked + toleranceMs };
+    })],
+  };
+  const order = optimizeVisitOrder(routable, matrix, returnToOrigin, schedule);
+
+  const planned: PlannedRouteStop[] = [];
+  let clock = dayStart;
+  let prevIdx = 0;
+  let totalDrive = 0;
+  let totalService = 0;
+
+  for (const idx of order) {
+    const stop = stops[idx - 1];
+    const drive = matrix[prevIdx][idx];
+    const arrival = new Date(arriveAt(clock.getTime(), drive, schedule.windows[idx]).arrival);
+    const departure = addMinutes(arrival, stop.durationMinutes);
+    const backHome = returnToOrigin ? matrix[idx][0] : 0;
+
+    if (addMinutes(departure, backHome) > dayEnd) {
+      unfittable.push({
+        appointmentId: stop.appointmentId,
+        customerName: stop.customerName ?? null,
+        reason: 'exceeds_work_day',
+      });
+      continue;
+    }
+
+    const prevPoint = prevIdx === 0 ? options.origin ?? null : stops[prevIdx - 1].location;
+    const scheduled = stop.scheduledTime ? new Date(stop.scheduledTime) : null;
+
+    planned.push({
+      appointmentId: stop.appointmentId,
+      sequence: planned.length + 1,
+      customerName: stop.customerName ?? null,
+      address: stop.address ?? null,
+      location: stop.location!,
+      driveMinutesFromPrevious: drive,
+      distanceMilesFromPrevious: prevPoint
+        ? Math.round(haversineMiles(prevPoint, stop.location!) * 10) / 10
+        : 0,
+      estimatedArrival: arrival.toISOString(),
+      arrivalWindowStart: arrival.toISOString(),
+      arrivalWindowEnd: addMinutes(arrival, windowMinutes).toISOString(),
+      estimatedDeparture: departure.toISOString(),
+      durationMinutes: stop.durationMinutes,
+      scheduledTime: scheduled ? scheduled.toISOString() : null,
+      minutesFromScheduled: scheduled
+        ? Math.round((arrival.getTime() - scheduled.getTime()) / 60000)
+        : null,
+    });
+
+    totalDrive += drive;
+    totalService += stop.durationMinutes;
+    clock = departure;
+    prevIdx = idx;
+  }
+
+  let returnDrive: number | null = null;
+  if (returnToOrigin && planned.length > 0) {
+    returnDrive = matrix[prevIdx][0];
+    totalDrive += returnDrive;
+    clock = addMinutes(clock, returnDrive);
+  }
+
+  return {
+    stops: planned,
+    unfittable,
+    totalDriveMinutes: totalDrive,
+    totalServiceMinutes: totalService,
+    returnDriveMinutes: returnDrive,
+    projectedFinish: clock,
+  };
+}
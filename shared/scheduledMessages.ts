@@ -0,0 +1,66 @@
+/**
+ * "Send later" messages
+ *
+ * Validation and retry policy shared by the conversation routes, the
+ * scheduled message dispatcher and the inbox composer.
+ */
+
+import { z } from "zod";
+import { retryBackoffMs } from "./sendWindow";
+
+export const SCHEDULED_MESSAGE_CHANNELS = ["web", "sms", "email", "facebook", "instagram"] as const;
+export type ScheduledMessageChannel = typeof SCHEDULED_MESSAGE_CHANNELS[number];
+
+// pending → sending → sent | failed; pending → cancelled. SMS goes
+// sending → queued (handed to the outbound dispatch queue) → sent | failed
+export const SCHEDULED_MESSAGE_STATUSES = ["pending", "sending", "queued", "sent", "failed", "cancelled"] as const;
+export type ScheduledMessageStatus = typeof SCHEDULED_MESSAGE_STATUSES[number];
+
+export const SCHEDULED_MESSAGE_MAX_ATTEMPTS = 4;
+export const SCHEDULED_MESSAGE_MAX_LENGTH = 1600;
+export const SCHEDULED_MESSAGE_MAX_LEAD_DAYS = 365;
+
+// A minute of grace so "send in 1 minute" survives a slow request
+const PAST_GRACE_MS = 60 * 1000;
+
+export const scheduledMessageInputSchema = z.object({
+  content: z.string().trim().min(1, "Message content is required").max(SCHEDULED_MESSAGE_MAX_LENGTH),
+  scheduledFor: z.coerce.date(),
+  channel: z.enum(SCHEDULED_MESSAGE_CHANNELS).optional(),
+  phoneLineId: z.number().int().positive().optional(),
+});
+export type ScheduledMessageInput = z.infer<typeof scheduledMessageInputSchema>;
+
+export const scheduledMessageUpdateSchema = scheduledMessageInputSchema
+  .pick({ content: true, scheduledFor: true })
+  .partial()
+  .refine((data) => data.content !== undefined || data.scheduledFor !== undefined, {
+    message: "Nothing to update",
+  });
+
+/**
+ * Why a send time can't be used, or null when it's fine
+ */
+export function scheduleTimeError(scheduledFor: Date, now: Date): string | null {
+  if (isNaN(scheduledFor.getTime())) return "Invalid send time";
+  if (scheduledFor.getTime() < now.getTime() - PAST_GRACE_MS) return "Send time is in the past";
+  const maxLeadMs = SCHEDULED_MESSAGE_MAX_LEAD_DAYS * 24 * 60 * 60 * 1000;
+  if (scheduledFor.getTime() > now.getTime() + maxLeadMs) {
+    return `Send time must be within ${SCHEDULED_MESSAGE_MAX_LEAD_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * When to try a failed send again, or null once attempts are used up.
+ * `attemptCount` includes the attempt that just failed.
+ */
+export function nextScheduledAttempt(
+  attemptCount: number,
+  now: Date,
+  maxAttempts: number = SCHEDULED_MESSAGE_MAX_ATTEMPTS,
+  random: () => number = Math.random
+): Date | null {
+  if (attemptCount >= maxAttempts) return null;
+  return new Date(now.getTime() + retryBackoffMs(attemptCount, 60 * 1000, 60 * 60 * 1000, random));
+}
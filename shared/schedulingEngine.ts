@@ -0,0 +1,336 @@
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+
+// ============================================================
+// Database-native availability
+// ============================================================
+
+/**
+ * Business-level booking rules. All times are minutes after local midnight
+ * in the tenant's timezone.
+ */
+export interface BusinessHoursConfig {
+  startMinutes: number;
+  endMinutes: number;
+  lunchStartMinutes: number | null;   // null = no lunch break
+  lunchDurationMinutes: number;
+  workingDays: number[];              // 0 = Sunday … 6 = Saturday
+  slotIncrementMinutes: number;       // 30 when half-hour increments are on, else 60
+  minimumNoticeHours: number;
+}
+
+export interface MinuteWindow {
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface WeeklyAvailability {
+  available: boolean;
+  startMinutes: number | null;        // null = business open
+  endMinutes: number | null;          // null = business close
+}
+
+/**
+ * Everything that determines when one technician can take work.
+ */
+export interface TechnicianSchedule {
+  technicianId: number;
+  weekly: Record<number, WeeklyAvailability>;   // Keyed by day of week; missing = business hours
+  shifts: Record<string, MinuteWindow[]>;       // Keyed by YYYY-MM-DD; overrides weekly for that date
+  pto: Array<{ startDate: string; endDate: string }>; // Approved, inclusive YYYY-MM-DD ranges
+  skillLevel: number;                           // 1-5
+  specialties: string[];                        // Service names this tech specializes in
+  maxJobsPerDay: number | null;                 // null = no cap
+  jobsByDate: Record<string, number>;           // Jobs already assigned per local date
+}
+
+/**
+ * Time already taken. technicianId null means the booking has not been
+ * assigned yet (or came from an external calendar) and consumes capacity
+ * from the whole crew.
+ */
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  technicianId: number | null;
+}
+
+export interface ComputeOpenSlotsOptions {
+  now: Date;
+  timezone: string;
+  startDate: string;                  // First local date considered (YYYY-MM-DD)
+  days: number;
+  hours: BusinessHoursConfig;
+  blockMinutes: number;               // Worst-case duration (service maxDurationHours)
+  fitMinutes: number;                 // Best-case duration (service minDurationHours)
+  technicians: TechnicianSchedule[];  // Empty = single-operator business
+  busy: BusyInterval[];
+  serviceName?: string;               // Used to rank specialists first
+  requiredSkillLevel?: number;        // Service minSkillLevel (default 1)
+  dailyLimitFor?: (date: string) => number | null; // Active service_limits cap on a local date
+  bookedByDate?: Record<string, number>; // Existing bookings of this service per local date
+}
+
+export interface OpenSlot {
+  startIso: string;
+  endIso: string;
+  date: string;                       // Local YYYY-MM-DD
+  technicianIds: number[];            // Qualified techs free for the whole slot, best fit first (empty for single-operator)
+}
+
+export interface SlotCapacity {
+  date: string;
+  technicianIds: number[];            // Qualified techs free for the slot, best fit first
+  unassignedOverlaps: number;
+  open: boolean;
+}
+
+const MS_PER_MINUTE = 60000;
+
+export function parseClockTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+export function addDaysToDateString(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+function localToUtc(date: string, minutes: number, timezone: string): Date {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return fromZonedTime(`${date}T${hh}:${mm}:00`, timezone);
+}
+
+function overlaps(start: Date, end: Date, busy: BusyInterval): boolean {
+  return start < busy.end && end > busy.start;
+}
+
+function clampToHours(windows: MinuteWindow[], hours: BusinessHoursConfig): MinuteWindow[] {
+  return windows
+    .map(w => ({
+      startMinutes: Math.max(w.startMinutes, hours.startMinutes),
+      endMinutes: Math.min(w.endMinutes, hours.endMinutes),
+    }))
+    .filter(w => w.endMinutes > w.startMinutes);
+}
+
+/**
+ * Windows (clamped to business hours) in which a technician can start and
+ * finish work on a given local date. Approved PTO wins over everything,
+ * then explicit shifts, then the weekly preference, then business hours.
+ */
+export function getTechnicianWindows(
+  tech: TechnicianSchedule,
+  date: string,
+  hours: BusinessHoursConfig
+): MinuteWindow[] {
+  if (tech.pto.some(p => date >= p.startDate && date <= p.endDate)) {
+    return [];
+  }
+
+  const shifts = tech.shifts[date];
+  if (shifts && shifts.length > 0) {
+    return clampToHours(shifts, hours);
+  }
+
+  const weekly = tech.weekly[dayOfWeek(date)];
+  if (weekly) {
+    if (!weekly.available) return [];
+    return clampToHours([{
+      startMinutes: weekly.startMinutes ?? hours.startMinutes,
+      endMinutes: weekly.endMinutes ?? hours.endMinutes,
+    }], hours);
+  }
+
+  return [{ startMinutes: hours.startMinutes, endMinutes: hours.endMinutes }];
+}
+
+function isQualified(tech: TechnicianSchedule, requiredSkillLevel: number): boolean {
+  return tech.skillLevel >= requiredSkillLevel;
+}
+
+function hasCapacity(tech: TechnicianSchedule, date: string): boolean {
+  return tech.maxJobsPerDay === null || (tech.jobsByDate[date] ?? 0) < tech.maxJobsPerDay;
+}
+
+function isSpecialist(tech: TechnicianSchedule, serviceName: string | undefined): boolean {
+  if (!serviceName) return false;
+  const wanted = serviceName.trim().toLowerCase();
+  return tech.specialties.some(s => s.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Orders candidate technicians for assignment: specialists in the service
+ * first, then whoever has the lightest day, then by id for stability.
+ */
+export function rankTechnicians(
+  candidates: TechnicianSchedule[],
+  date: string,
+  serviceName?: string
+): TechnicianSchedule[] {
+  return [...candidates].sort((a, b) =>
+    Number(isSpecialist(b, serviceName)) - Number(isSpecialist(a, serviceName)) ||
+    (a.jobsByDate[date] ?? 0) - (b.jobsByDate[date] ?? 0) ||
+    a.technicianId - b.technicianId
+  );
+}
+
+/**
+ * Crew capacity for one start time. Shared by slot generation and by the
+ * booking path, which re-checks the chosen time before assigning a tech.
+ */
+function capacityAt(
+  options: ComputeOpenSlotsOptions,
+  date: string,
+  minutes: number,
+  start: Date,
+  end: Date,
+  windowsByTech: Map<number, MinuteWindow[]>
+): SlotCapacity {
+  const { technicians, busy } = options;
+  const unassignedOverlaps = busy.filter(b => b.technicianId === null && overlaps(start, end, b)).length;
+
+  if (technicians.length === 0) {
+    return { date, technicianIds: [], unassignedOverlaps, open: !busy.some(b => overlaps(start, end, b)) };
+  }
+
+  const requiredSkillLevel = options.requiredSkillLevel ?? 1;
+  const free = technicians.filter(tech =>
+    isQualified(tech, requiredSkillLevel) &&
+    hasCapacity(tech, date) &&
+    (windowsByTech.get(tech.technicianId) ?? []).some(w =>
+      minutes >= w.startMinutes && minutes + options.fitMinutes <= w.endMinutes
+    ) &&
+    !busy.some(b => b.technicianId === tech.technicianId && overlaps(start, end, b))
+  );
+
+  return {
+    date,
+    technicianIds: rankTechnicians(free, date, options.serviceName).map(t => t.technicianId),
+    unassignedOverlaps,
+    open: free.length > unassignedOverlaps,
+  };
+}
+
+function windowsForDate(options: ComputeOpenSlotsOptions, date: string): Map<number, MinuteWindow[]> {
+  return new Map(options.technicians.map(tech => [
+    tech.technicianId,
+    getTechnicianWindows(tech, date, options.hours),
+  ] as [number, MinuteWindow[]]));
+}
+
+/**
+ * Computes bookable slots straight from stored data. Existing bookings block
+ * the calendar for the service's worst-case duration, while a new slot only
+ * needs the best-case duration to finish before close (or shift end).
+ *
+ * With technicians on file a slot is open when more qualified technicians
+ * (skill level met, under maxJobsPerDay, on shift and not busy) are free
+ * than there are unassigned bookings overlapping it; without technicians
+ * the business is treated as a single crew.
+ */
+export function computeOpenSlots(options: ComputeOpenSlotsOptions): OpenSlot[] {
+  const { now, timezone, hours } = options;
+  const earliestStart = new Date(now.getTime() + hours.minimumNoticeHours * 60 * MS_PER_MINUTE);
+  const increment = Math.max(hours.slotIncrementMinutes, 5);
+  const slots: OpenSlot[] = [];
+
+  for (let offset = 0; offset < options.days; offset++) {
+    const date = addDaysToDateString(options.startDate, offset);
+
+    if (!hours.workingDays.includes(dayOfWeek(date))) continue;
+    const dailyLimit = options.dailyLimitFor?.(date) ?? null;
+    if (dailyLimit !== null && (options.bookedByDate?.[date] ?? 0) >= dailyLimit) continue;
+
+    const windowsByTech = windowsForDate(options, date);
+
+    for (let minutes = hours.startMinutes; minutes + options.fitMinutes <= hours.endMinutes; minutes += increment) {
+      if (
+        hours.lunchStartMinutes !== null &&
+        minutes >= hours.lunchStartMinutes &&
+        minutes < hours.lunchStartMinutes + hours.lunchDurationMinutes
+      ) {
+        continue;
+      }
+
+      const start = localToUtc(date, minutes, timezone);
+      if (start < earliestStart) continue;
+      const end = new Date(start.getTime() + options.blockMinutes * MS_PER_MINUTE);
+
+      const capacity = capacityAt(options, date, minutes, start, end, windowsByTech);
+      if (capacity.open) {
+        slots.push({ startIso: start.toISOString(), endIso: end.toISOString(), date, technicianIds: capacity.technicianIds });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Capacity check for an arbitrary start time (not necessarily on the slot
+ * grid). Notice, lunch and daily service limits are not re-applied here;
+ * they only shape which slots get offered.
+ */
+export function checkSlotCapacity(options: ComputeOpenSlotsOptions, start: Date): SlotCapacity {
+  const date = formatInTimeZone(start, options.timezone, 'yyyy-MM-dd');
+  const [hh, mm] = formatInTimeZone(start, options.timezone, 'HH:mm').split(':').map(Number);
+  const end = new Date(start.getTime() + options.blockMinutes * MS_PER_MINUTE);
+  return capacityAt(options, date, hh * 60 + mm, start, end, windowsForDate(options, date));
+}
+
+export interface TechnicianUtilization {
+  technicianId: number;
+  jobs: number;
+  maxJobs: number | null;             // maxJobsPerDay x days the tech can work
+  bookedMinutes: number;
+  availableMinutes: number;
+  utilization: number;                // bookedMinutes / availableMinutes (0 when never available)
+}
+
+/**
+ * Booked vs. available time for one technician over a date range.
+ */
+export function computeTechnicianUtilization(
+  tech: TechnicianSchedule,
+  startDate: string,
+  days: number,
+  hours: BusinessHoursConfig,
+  bookings: BusyInterval[]
+): TechnicianUtilization {
+  let availableMinutes = 0;
+  let workingDays = 0;
+  let jobs = 0;
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDaysToDateString(startDate, offset);
+    jobs += tech.jobsByDate[date] ?? 0;
+    if (!hours.workingDays.includes(dayOfWeek(date))) continue;
+
+    const minutes = getTechnicianWindows(tech, date, hours)
+      .reduce((sum, w) => sum + (w.endMinutes - w.startMinutes), 0);
+    if (minutes > 0) workingDays++;
+    availableMinutes += minutes;
+  }
+
+  const bookedMinutes = bookings
+    .filter(b => b.technicianId === tech.technicianId)
+    .reduce((sum, b) => sum + Math.round((b.end.getTime() - b.start.getTime()) / MS_PER_MINUTE), 0);
+
+  return {
+    technicianId: tech.technicianId,
+    jobs,
+    maxJobs: tech.maxJobsPerDay === null ? null : tech.maxJobsPerDay * workingDays,
+    bookedMinutes,
+    availableMinutes,
+    utilization: availableMinutes > 0 ? Math.round((bookedMinutes / availableMinutes) * 100) / 100 : 0,
+  };
+}
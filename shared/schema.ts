@@ -1,6 +1,15 @@
 import { pgTable, text, serial, integer, boolean, timestamp, varchar, numeric, jsonb, date, index, uniqueIndex, foreignKey, pgEnum, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { PromoEligibility } from "./promoRules";
+import type { PriceModifierKind, PriceAdjustmentType, VehicleClass } from "./priceBook";
+import type { DiscountSource, InvoiceLineKind, LedgerEntryKind, LedgerEntryStatus, PaymentMethod, TaxCategory } from "./invoiceLedger";
+import type { VoiceTranscriptTurn } from "./aiVoice";
+import type { IvrHoursRouting } from "./ivrFlow";
+import type { SegmentDefinition } from "./customerSegments";
+import type { JourneyDefinition, JourneyTriggerConfig } from "./journeys";
+import type { ExperimentEvaluation, VariantCounts } from "./campaignExperiments";
+import type { AttributionSource } from "./attribution";
 
 /* Define all tables first */
 
@@ -331,6 +340,31 @@ export const tenantConfig = pgTable("tenant_config", {
   serviceAreaExtendedMinutes: integer("service_area_extended_minutes"), // Extended radius (null = disabled)
   serviceAreaSoftDeclineMessage: text("service_area_soft_decline_message"), // Custom message for out-of-area requests
   
+  // Offline travel-time estimator tuning (used when live routing is unavailable)
+  travelRoadFactor: numeric("travel_road_factor", { precision: 4, scale: 2 }).default('1.30'), // Road distance ÷ straight-line distance
+  travelAverageSpeedMph: integer("travel_average_speed_mph").default(30), // Average driving speed for estimates
+  routeBookedTimeToleranceMinutes: integer("route_booked_time_tolerance_minutes").default(60), // Day planner may move a booked stop this far either way
+  
+  // Outbound dispatch policy - quiet hours are applied in the recipient's local time
+  quietHoursStart: integer("quiet_hours_start").default(21), // Local hour automated sends stop (9 PM)
+  quietHoursEnd: integer("quiet_hours_end").default(8), // Local hour automated sends resume (8 AM)
+  outboundSmsPerMinute: integer("outbound_sms_per_minute").default(60),
+  outboundEmailPerMinute: integer("outbound_email_per_minute").default(120),
+  
+  // Automated confirmation calls for appointments still pending close to start
+  confirmationCallsEnabled: boolean("confirmation_calls_enabled").default(false),
+  confirmationCallLeadHours: integer("confirmation_call_lead_hours").default(24), // Call when the appointment is this close and unconfirmed
+  
+  // Customer portal reschedule/cancel policy (see shared/appointmentChangePolicy.ts)
+  portalMinNoticeHours: integer("portal_min_notice_hours").default(24), // Inside this, reschedules are refused and cancels are late
+  portalLateCancelFee: numeric("portal_late_cancel_fee", { precision: 10, scale: 2 }).default('0'), // Kept from a paid deposit on a late cancel
+  portalMaxReschedules: integer("portal_max_reschedules").default(2),
+  
+  // Price book tax - applied to the estimate subtotal
+  salesTaxRate: numeric("sales_tax_rate", { precision: 6, scale: 3 }).default('0'), // Percent, e.g. 8.250
+  salesTaxLabel: varchar("sales_tax_label", { length: 50 }).default("Sales tax"),
+  reducedTaxRate: numeric("reduced_tax_rate", { precision: 6, scale: 3 }).default('0'), // Invoice lines in the 'reduced' tax category
+  
   // Onboarding progress tracking (Phase: Self-Service Onboarding)
   onboardingBusinessSetupDone: boolean("onboarding_business_setup_done").default(false),
   onboardingPhoneSetupDone: boolean("onboarding_phone_setup_done").default(false),
@@ -589,6 +623,7 @@ export const customerVehicles = pgTable("customer_vehicles", {
   color: varchar("color", { length: 50 }),
   licensePlate: varchar("license_plate", { length: 20 }),
   vin: varchar("vin", { length: 17 }),
+  vehicleClass: varchar("vehicle_class", { length: 20 }).$type<VehicleClass>(), // Price book size class; guessed from make/model when unset
   notes: text("notes"),
   isPrimary: boolean("is_primary").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -622,9 +657,47 @@ export const services = pgTable("services", {
   durationHours: numeric("duration_hours").notNull(), // Deprecated - kept for backwards compatibility (average)
   minDurationHours: numeric("min_duration_hours").notNull().default('1.5'), // Minimum time for service (best case)
   maxDurationHours: numeric("max_duration_hours").notNull().default('2'), // Maximum time for service (worst case - used for blocking calendar)
+  minSkillLevel: integer("min_skill_level").notNull().default(1), // Lowest technician skillLevel (1-5) allowed to perform this service
   imageUrl: text("image_url"),
 });
 
+// Price book - base price per service (replaces parsing services.priceRange)
+export const servicePrices = pgTable("service_prices", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: "cascade" }),
+  basePrice: numeric("base_price", { precision: 10, scale: 2 }).notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantServiceIdx: uniqueIndex("service_prices_tenant_service_idx").on(table.tenantId, table.serviceId),
+}));
+
+export type ServicePrice = typeof servicePrices.$inferSelect;
+export type InsertServicePrice = typeof servicePrices.$inferInsert;
+
+// Price book modifiers - vehicle class adjustments and condition surcharges.
+// A row with serviceId overrides the tenant-wide row with the same kind/key.
+export const priceModifiers = pgTable("price_modifiers", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  kind: varchar("kind", { length: 20 }).notNull().$type<PriceModifierKind>(), // vehicle_class, condition
+  key: varchar("key", { length: 40 }).notNull(), // e.g. 'suv', 'pet_hair'
+  label: varchar("label", { length: 100 }).notNull(), // Shown on estimates, e.g. "SUV upcharge"
+  adjustmentType: varchar("adjustment_type", { length: 10 }).notNull().default("flat").$type<PriceAdjustmentType>(), // flat dollars or percent of base price
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  serviceId: integer("service_id").references(() => services.id, { onDelete: "cascade" }), // null = all services
+  isActive: boolean("is_active").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantKindIdx: index("price_modifiers_tenant_kind_idx").on(table.tenantId, table.kind),
+}));
+
+export type PriceModifier = typeof priceModifiers.$inferSelect;
+export type InsertPriceModifier = typeof priceModifiers.$inferInsert;
+
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
@@ -703,6 +776,14 @@ export const appointments = pgTable("appointments", {
   addressNeedsReview: boolean("address_needs_review").default(false), // Manual review needed if customer moved pin but validation failed
   jobNotes: text("job_notes"), // Field technician notes during job
   statusUpdatedAt: timestamp("status_updated_at"), // Last status change timestamp
+  rescheduleCount: integer("reschedule_count").default(0), // Customer self-service reschedules (capped by tenant policy)
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationFee: numeric("cancellation_fee", { precision: 10, scale: 2 }), // Late-cancel fee kept from the deposit
+  trackingToken: varchar("tracking_token", { length: 32 }), // Public "where's my tech" link token, issued on first tracked status
+  etaAt: timestamp("eta_at"), // Latest arrival estimate while en route
+  createdAt: timestamp("created_at").defaultNow(), // When the booking was made; used to credit bookings to campaigns
+  attributionSource: jsonb("attribution_source").$type<AttributionSource>(), // Last touch before booking (campaign link, referral, Facebook...)
+  firstTouchSource: jsonb("first_touch_source").$type<AttributionSource>(), // Earliest touch in the attribution window
   
   // SP-BOOKING-ADDRESS+PRICING-FIX: Extended service area tracking
   isExtendedArea: boolean("is_extended_area").default(false), // True if outside normal radius but within extended limit
@@ -717,15 +798,40 @@ export const appointments = pgTable("appointments", {
   // Indexes for technician queries
   technicianScheduleIdx: index("appointments_technician_schedule_idx").on(table.technicianId, table.scheduledTime), // Composite for "today's jobs" queries
   statusIdx: index("appointments_status_idx").on(table.status),
+  trackingTokenIdx: uniqueIndex("appointments_tracking_token_idx").on(table.trackingToken),
+}));
+
+// Job Status Events - Day-of timeline of technician status transitions
+export const jobStatusEvents = pgTable("job_status_events", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  technicianId: integer("technician_id").references(() => technicians.id, { onDelete: "set null" }),
+  previousStatus: varchar("previous_status", { length: 20 }),
+  status: varchar("status", { length: 20 }).notNull(),
+  latitude: numeric("latitude", { precision: 10, scale: 7 }), // Technician GPS at the transition
+  longitude: numeric("longitude", { precision: 10, scale: 7 }),
+  etaMinutes: integer("eta_minutes"), // Drive-time estimate when heading out
+  etaAt: timestamp("eta_at"),
+  customerNotified: boolean("customer_notified").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  appointmentIdx: index("job_status_events_appointment_idx").on(table.appointmentId, table.createdAt),
 }));
 
+export type JobStatusEvent = typeof jobStatusEvents.$inferSelect;
+export type InsertJobStatusEvent = typeof jobStatusEvents.$inferInsert;
+
 // Job Photos - Photos uploaded by technicians during job completion
 export const jobPhotos = pgTable("job_photos", {
   id: serial("id").primaryKey(),
   tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
   appointmentId: integer("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }), // Delete photos when appointment deleted
   technicianId: integer("technician_id").references(() => technicians.id, { onDelete: "set null" }), // Nullable: preserve photos if tech deleted
-  photoUrl: text("photo_url").notNull(), // Google Drive URL
+  photoUrl: text("photo_url"), // Google Drive URL (photos uploaded before media storage)
+  storageKey: text("storage_key"), // Media storage key of the EXIF-stripped JPEG; sign before sharing
+  thumb96Key: text("thumb_96_key"), // 96x96 thumbnail
+  mms640Key: text("mms_640_key"), // 640x640 rendition under the MMS size limit
   photoType: varchar("photo_type", { length: 30 }).notNull().default("progress"), // before, during, after, progress, issue, completion
   caption: text("caption"), // Optional description from technician
   fileName: text("file_name"), // Original filename from upload
@@ -739,6 +845,33 @@ export const jobPhotos = pgTable("job_photos", {
   technicianIdIdx: index("job_photos_technician_id_idx").on(table.technicianId),
 }));
 
+// Customer Media - Photos customers send in (upload form, chat links, MMS). Only storage keys are kept;
+// links are signed when someone looks at them
+export const customerMedia = pgTable("customer_media", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "set null" }), // Null until the sender is a known customer
+  phone: varchar("phone", { length: 20 }), // Sender's phone as received, to match them up later
+  email: text("email"),
+  source: varchar("source", { length: 20 }).notNull(), // upload, url, mms
+  purpose: varchar("purpose", { length: 30 }).notNull().default("photo"), // photo, damage_assessment
+  storageKey: text("storage_key").notNull(), // Media storage key of the EXIF-stripped JPEG
+  thumb96Key: text("thumb_96_key").notNull(),
+  mms640Key: text("mms_640_key"),
+  mimeType: varchar("mime_type", { length: 50 }).notNull(),
+  fileSize: integer("file_size"),
+  width: integer("width"),
+  height: integer("height"),
+  vehicleInfo: text("vehicle_info"),
+  note: text("note"), // Message sent with the photo
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("customer_media_customer_idx").on(table.tenantId, table.customerId),
+  phoneIdx: index("customer_media_phone_idx").on(table.tenantId, table.phone),
+}));
+
+export type CustomerMedia = typeof customerMedia.$inferSelect;
+
 // Quote Requests - Tracks specialty jobs that require manual pricing before booking
 export const quoteRequests = pgTable("quote_requests", {
   id: serial("id").primaryKey(),
@@ -810,7 +943,7 @@ export const invoices = pgTable("invoices", {
   totalAmount: numeric("total_amount", { precision: 10, scale: 2 }),
   depositAmount: numeric("deposit_amount", { precision: 10, scale: 2 }),
   depositPaidAt: timestamp("deposit_paid_at"),
-  balanceDue: numeric("balance_due", { precision: 10, scale: 2 }),
+  balanceDue: numeric("balance_due", { precision: 10, scale: 2 }), // Cached - derived from invoice_payments, see invoiceLedgerService
   dueDate: timestamp("due_date"),
   invoiceSentAt: timestamp("invoice_sent_at"),
   lastReminderSent: timestamp("last_reminder_sent"),
@@ -831,6 +964,60 @@ export const invoices = pgTable("invoices", {
   tenantIdIdx: index("invoices_tenant_id_idx").on(table.tenantId),
 }));
 
+// Invoice line items - services, add-ons, fees and discounts. Totals on the
+// invoice row are recomputed from these by invoiceLedgerService.
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { length: 20 }).notNull().$type<InvoiceLineKind>(), // service, add_on, fee, discount
+  description: text("description").notNull(),
+  quantity: numeric("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: numeric("unit_price", { precision: 10, scale: 2 }).notNull(), // Positive, also for discounts
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // Signed line total (discounts negative)
+  taxCategory: varchar("tax_category", { length: 20 }).notNull().default("standard").$type<TaxCategory>(),
+  taxRate: numeric("tax_rate", { precision: 6, scale: 3 }).notNull().default("0"), // Percent at the time of the last recompute
+  taxAmount: numeric("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  discountSource: varchar("discount_source", { length: 20 }).$type<DiscountSource>(), // referral, promo, credit, gift_card, manual
+  sourceRef: varchar("source_ref", { length: 100 }), // Referral code, gift card id, redeemed reward id...
+  serviceId: integer("service_id").references(() => services.id),
+  addonId: integer("addon_id"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("invoice_line_items_invoice_idx").on(table.invoiceId),
+}));
+
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+export type InsertInvoiceLineItem = typeof invoiceLineItems.$inferInsert;
+
+// Invoice payments sub-ledger - partial payments and refunds. Balance due is
+// the invoice total minus succeeded payments plus succeeded refunds.
+export const invoicePayments = pgTable("invoice_payments", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  kind: varchar("kind", { length: 10 }).notNull().$type<LedgerEntryKind>(), // payment, refund
+  method: varchar("method", { length: 20 }).notNull().$type<PaymentMethod>(),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // Always positive
+  status: varchar("status", { length: 20 }).notNull().default("succeeded").$type<LedgerEntryStatus>(),
+  refundOfPaymentId: integer("refund_of_payment_id"), // Refunds point at the payment they reverse
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeRefundId: text("stripe_refund_id"),
+  paypalOrderId: text("paypal_order_id"),
+  reference: varchar("reference", { length: 200 }), // Check number, card last4, etc.
+  note: text("note"),
+  recordedBy: integer("recorded_by").references(() => users.id),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("invoice_payments_invoice_idx").on(table.invoiceId),
+  stripeRefundIdx: uniqueIndex("invoice_payments_stripe_refund_idx").on(table.stripeRefundId),
+}));
+
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InsertInvoicePayment = typeof invoicePayments.$inferInsert;
+
 // Technician Deposits - Daily cash/check payment tracking and reconciliation
 export const technicianDeposits = pgTable("technician_deposits", {
   id: serial("id").primaryKey(),
@@ -916,6 +1103,30 @@ export const conversations = pgTable("conversations", {
   phoneLineIndex: index("conversations_phone_line_idx").on(table.phoneLineId),
 }));
 
+// AI booking sessions - one per tenant and customer phone, so mid-booking
+// context survives restarts and is shared across instances
+export const bookingSessions = pgTable("booking_sessions", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  customerPhone: text("customer_phone").notNull(), // E.164
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id", { length: 40 }), // Matches smsState.bookingSessionId
+  schedulingState: jsonb("scheduling_state").$type<Record<string, any>>().notNull().default({}), // SchedulingInfo
+  smsState: jsonb("sms_state").$type<Record<string, any>>().notNull().default({}), // SmsBookingState
+  resetReason: varchar("reset_reason", { length: 50 }), // Why the last session started over
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // lastActivityAt + BOOKING_SESSION_TTL_HOURS
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantPhoneIdx: uniqueIndex("booking_sessions_tenant_phone_idx").on(table.tenantId, table.customerPhone),
+  conversationIdx: index("booking_sessions_conversation_idx").on(table.conversationId),
+}));
+
+export type BookingSession = typeof bookingSessions.$inferSelect;
+export type InsertBookingSession = typeof bookingSessions.$inferInsert;
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   conversationId: integer("conversation_id").notNull().references(() => conversations.id),
@@ -988,11 +1199,15 @@ export const scheduledMessages = pgTable("scheduled_messages", {
   content: text("content").notNull(), // Message content to send
   channel: varchar("channel", { length: 20 }), // web, sms, email, facebook, instagram
   scheduledFor: timestamp("scheduled_for").notNull(), // When to send
-  status: varchar("status", { length: 20 }).default("pending"), // pending, sent, cancelled, failed
+  status: varchar("status", { length: 20 }).default("pending"), // pending, sending, sent, cancelled, failed
   metadata: jsonb("metadata"), // Optional additional data
   sentAt: timestamp("sent_at"), // When actually sent
-  errorMessage: text("error_message"), // If failed
+  errorMessage: text("error_message"), // If failed (or last retryable failure)
+  attemptCount: integer("attempt_count").notNull().default(0), // Delivery attempts so far
+  nextAttemptAt: timestamp("next_attempt_at"), // Retry time after a failed attempt (null = scheduledFor)
+  sentMessageId: integer("sent_message_id").references(() => messages.id, { onDelete: "set null" }), // Thread message written on delivery
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
   // Composite index on (status, scheduledFor) for efficient cron queries
   statusScheduledIndex: index("scheduled_messages_status_scheduled_idx").on(table.status, table.scheduledFor),
@@ -1063,6 +1278,11 @@ export const callEvents = pgTable("call_events", {
   // AI-generated voicemail intelligence (Phone Intelligence v1)
   aiSummary: text("ai_summary"), // Short AI-generated summary of voicemail content
   aiPriority: varchar("ai_priority", { length: 20 }), // 'HIGH' or 'NORMAL' - urgency assessment
+  aiTranscript: jsonb("ai_transcript").$type<VoiceTranscriptTurn[]>(), // Turn-by-turn transcript of AI voice receptionist calls
+  
+  // Automated outbound calls (e.g. appointment confirmation)
+  purpose: varchar("purpose", { length: 30 }), // appointment_confirmation; null for ordinary calls
+  outcome: varchar("outcome", { length: 30 }), // confirmed, reschedule_requested, transfer_requested
   
   createdAt: timestamp("created_at").defaultNow(), // When call was initiated
   startedAt: timestamp("started_at"), // When call was answered
@@ -1079,6 +1299,8 @@ export const callEvents = pgTable("call_events", {
   statusCreatedIndex: index("call_events_status_created_idx").on(table.status, table.createdAt),
   // Index for recording lookups
   recordingSidIndex: index("call_events_recording_sid_idx").on(table.recordingSid),
+  // Attempts per appointment for automated calls
+  appointmentPurposeIndex: index("call_events_appointment_purpose_idx").on(table.appointmentId, table.purpose),
 }));
 
 // Call SMS State - Tracks which calls have received automated SMS responses
@@ -1269,6 +1491,33 @@ export const loyaltyTransactions = pgTable("loyalty_transactions", {
   tenantStatusIdx: index("loyalty_transactions_tenant_status_idx").on(table.tenantId, table.status),
 }));
 
+// Tenant-editable promo rules. Built-in defaults (server/config/promoRules.ts)
+// apply to any promo key without a row here.
+export const promoRuleDefinitions = pgTable("promo_rule_definitions", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull(),
+  promoKey: varchar("promo_key", { length: 100 }).notNull(), // Matches loyaltyTransactions.promoKey
+  name: varchar("name", { length: 200 }).notNull(),
+  description: text("description"),
+  defaultPoints: integer("default_points"), // Suggested points when awarding from campaigns
+  perCustomerLifetimeMax: integer("per_customer_lifetime_max"), // null = no cap
+  perCustomerPerYearMax: integer("per_customer_per_year_max"),
+  perHouseholdPerYearMax: integer("per_household_per_year_max"),
+  awardMode: varchar("award_mode", { length: 50 }).notNull().default('immediate'), // 'immediate' | 'pending_until_next_completed_job'
+  eligibility: jsonb("eligibility").$type<PromoEligibility>().notNull().default({}),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  isActive: boolean("is_active").notNull().default(true),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantPromoKeyIdx: uniqueIndex("promo_rule_definitions_tenant_key_idx").on(table.tenantId, table.promoKey),
+}));
+
+export type PromoRuleDefinitionRow = typeof promoRuleDefinitions.$inferSelect;
+export type InsertPromoRuleDefinition = typeof promoRuleDefinitions.$inferInsert;
+
 export const customerAchievements = pgTable("customer_achievements", {
   id: serial("id").primaryKey(),
   tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
@@ -1425,6 +1674,25 @@ export const appointmentUpsells = pgTable("appointment_upsells", {
 });
 
 // Email campaign tables
+// Saved customer segments - a filter tree (see shared/customerSegments.ts)
+// that campaigns and target lists can use instead of a fixed audience
+export const customerSegments = pgTable("customer_segments", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  name: text("name").notNull(),
+  description: text("description"),
+  definition: jsonb("definition").$type<SegmentDefinition>().notNull(),
+  lastCount: integer("last_count"), // Size at the last preview/save, for pickers
+  lastCountedAt: timestamp("last_counted_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantIdx: index("customer_segments_tenant_idx").on(table.tenantId),
+}));
+
+export type CustomerSegment = typeof customerSegments.$inferSelect;
+
 export const emailCampaigns = pgTable("email_campaigns", {
   id: serial("id").primaryKey(),
   tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
@@ -1438,6 +1706,7 @@ export const emailCampaigns = pgTable("email_campaigns", {
   openRate: numeric("open_rate"),
   clickRate: numeric("click_rate"),
   targetAudience: varchar("target_audience", { length: 30 }).default("all"), // 'all', 'repeat_customers', 'new_customers', 'premium_customers'
+  segmentId: integer("segment_id").references(() => customerSegments.id, { onDelete: "set null" }), // Overrides targetAudience when set
   recipientCount: integer("recipient_count").default(0),
   sentCount: integer("sent_count").default(0), // Track progress
   failedCount: integer("failed_count").default(0),
@@ -1452,7 +1721,8 @@ export const campaignRecipients = pgTable("campaign_recipients", {
   campaignId: integer("campaign_id").notNull().references(() => emailCampaigns.id),
   customerId: integer("customer_id").references(() => customers.id),
   email: text("email").notNull(),
-  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, queued, sending, sent, failed, bounced, complained, unsubscribed
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, held (A/B remainder), queued, sending, sent, failed, bounced, complained, unsubscribed
+  variantId: integer("variant_id"), // A/B test cell; null = campaign content (the winner, once picked)
   scheduledFor: timestamp("scheduled_for"), // When this should be sent (quiet hours handling)
   sentAt: timestamp("sent_at"),
   deliveredAt: timestamp("delivered_at"),
@@ -1495,6 +1765,7 @@ export const smsCampaigns = pgTable("sms_campaigns", {
   completedAt: timestamp("completed_at"),
   status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, scheduled, sending, sent, cancelled
   targetAudience: varchar("target_audience", { length: 30 }).default("all"), // all, repeat_customers, sms_opted_in
+  segmentId: integer("segment_id").references(() => customerSegments.id, { onDelete: "set null" }), // Overrides targetAudience when set
   recipientCount: integer("recipient_count").default(0),
   sentCount: integer("sent_count").default(0),
   failedCount: integer("failed_count").default(0),
@@ -1512,7 +1783,10 @@ export const smsCampaignRecipients = pgTable("sms_campaign_recipients", {
   campaignId: integer("campaign_id").notNull().references(() => smsCampaigns.id),
   customerId: integer("customer_id").references(() => customers.id),
   phoneNumber: text("phone_number").notNull(), // E.164 format
-  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, queued, sending, sent, failed, delivered, undelivered
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, held (A/B remainder), queued, sending, sent, failed, delivered, undelivered
+  variantId: integer("variant_id"), // A/B test cell; null = campaign message (the winner, once picked)
+  clickToken: varchar("click_token", { length: 32 }), // Set when the message has a tracked {{link}}
+  clickedAt: timestamp("clicked_at"),
   scheduledFor: timestamp("scheduled_for"), // Adjusted for quiet hours (9 PM - 8 AM)
   sentAt: timestamp("sent_at"),
   deliveredAt: timestamp("delivered_at"),
@@ -1534,6 +1808,45 @@ export const smsCampaignRecipients = pgTable("sms_campaign_recipients", {
   errorCodeIdx: index("sms_campaign_recipients_error_code_idx").on(table.errorCode),
 }));
 
+// Campaign A/B tests - one per SMS or email campaign that has content variants
+export const campaignExperiments = pgTable("campaign_experiments", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  channel: varchar("channel", { length: 10 }).notNull(), // sms, email
+  campaignId: integer("campaign_id").notNull(), // sms_campaigns.id or email_campaigns.id, depending on channel
+  status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, testing, complete, cancelled
+  samplePercent: integer("sample_percent").notNull().default(20),
+  winnerMetric: varchar("winner_metric", { length: 20 }).notNull().default("replies"), // replies, clicks, bookings, opt_outs
+  decideAfterHours: integer("decide_after_hours").notNull().default(24),
+  attributionDays: integer("attribution_days").notNull().default(7),
+  testStartedAt: timestamp("test_started_at"),
+  decideAt: timestamp("decide_at"),
+  decidedAt: timestamp("decided_at"),
+  winnerVariantId: integer("winner_variant_id"),
+  winnerSignificant: boolean("winner_significant"),
+  results: jsonb("results").$type<{ counts: VariantCounts[]; evaluation: ExperimentEvaluation }>(), // Snapshot at decision time
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  campaignIdx: uniqueIndex("campaign_experiments_campaign_idx").on(table.tenantId, table.channel, table.campaignId),
+  dueIdx: index("campaign_experiments_due_idx").on(table.status, table.decideAt),
+}));
+
+export const campaignVariants = pgTable("campaign_variants", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  experimentId: integer("experiment_id").notNull().references(() => campaignExperiments.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 2 }).notNull(), // A, B, C, D
+  message: text("message"), // SMS variants
+  subject: text("subject"), // Email variants
+  content: text("content"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  experimentIdx: index("campaign_variants_experiment_idx").on(table.experimentId),
+}));
+
+export type CampaignExperiment = typeof campaignExperiments.$inferSelect;
+export type CampaignVariant = typeof campaignVariants.$inferSelect;
+
 // Daily Send Counters - Track email/SMS sends per day for rate limiting
 export const dailySendCounters = pgTable("daily_send_counters", {
   id: serial("id").primaryKey(),
@@ -1678,6 +1991,25 @@ export const faqEntries = pgTable("faq_entries", {
   tenantCategoryQuestionUnique: uniqueIndex("faq_entries_tenant_id_category_question_unique").on(table.tenantId, table.category, table.question),
 }));
 
+// Knowledge documents - uploaded policies, price sheets, etc. indexed for AI retrieval
+export const knowledgeDocuments = pgTable("knowledge_documents", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  title: varchar("title", { length: 200 }).notNull(),
+  fileName: text("file_name"), // Original upload name (null when pasted as text)
+  mimeType: varchar("mime_type", { length: 100 }),
+  content: text("content").notNull(), // Extracted plain text
+  enabled: boolean("enabled").notNull().default(true),
+  uploadedBy: integer("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantIdIdx: index("knowledge_documents_tenant_id_idx").on(table.tenantId),
+}));
+
+export type KnowledgeDocument = typeof knowledgeDocuments.$inferSelect;
+export type InsertKnowledgeDocument = typeof knowledgeDocuments.$inferInsert;
+
 // Push notification subscriptions for PWA
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
@@ -2417,6 +2749,27 @@ export const paymentLinks = pgTable("payment_links", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Deposit Refunds - Deposit money owed back after a cancellation, until staff refund it
+export const depositRefunds = pgTable("deposit_refunds", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  appointmentId: integer("appointment_id").notNull().references(() => appointments.id),
+  customerId: integer("customer_id").references(() => customers.id),
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(), // Owed back to the customer
+  feeKept: numeric("fee_kept", { precision: 10, scale: 2 }).notNull().default('0'), // Late-cancel fee kept from the deposit
+  stripePaymentIntentId: text("stripe_payment_intent_id"), // The deposit payment, when it went through Stripe
+  stripeRefundId: text("stripe_refund_id"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, refunded, failed
+  method: varchar("method", { length: 20 }), // stripe, manual
+  failureReason: text("failure_reason"),
+  processedBy: integer("processed_by").references(() => users.id),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  tenantStatusIdx: index("deposit_refunds_tenant_status_idx").on(table.tenantId, table.status),
+  appointmentUnique: uniqueIndex("deposit_refunds_appointment_unique").on(table.tenantId, table.appointmentId),
+}));
+
 // Gift Cards - Track gift card codes, balances, and redemptions (SP-GIFTCARD-1: Square integration)
 export const giftCards = pgTable("gift_cards", {
   id: serial("id").primaryKey(),
@@ -2651,6 +3004,67 @@ export const reminderConsent = pgTable("reminder_consent", {
   consentGivenIdx: index("reminder_consent_given_idx").on(table.consentGiven),
 }));
 
+// Consent ledger - append-only record of every consent grant/revocation
+// One row per channel + purpose; the latest row for a pair is the current state
+export const consentEvents = pgTable("consent_events", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  customerId: integer("customer_id").references(() => customers.id),
+  phone: text("phone"), // E.164, kept even when no customer record exists
+  email: text("email"),
+  channel: varchar("channel", { length: 10 }).notNull(), // sms, email, push, voice
+  purpose: varchar("purpose", { length: 20 }).notNull(), // transactional, marketing, reminders
+  granted: boolean("granted").notNull(),
+  source: varchar("source", { length: 20 }).notNull(), // keyword, web_form, import, staff, booking, system
+  evidence: jsonb("evidence"), // Keyword text, form URL, IP, user agent, import file, etc.
+  recordedBy: integer("recorded_by").references(() => users.id), // Staff user, if recorded manually
+  recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantPhoneIdx: index("consent_events_tenant_phone_idx").on(table.tenantId, table.phone),
+  tenantEmailIdx: index("consent_events_tenant_email_idx").on(table.tenantId, table.email),
+  customerIdx: index("consent_events_customer_idx").on(table.customerId),
+}));
+
+export type ConsentEvent = typeof consentEvents.$inferSelect;
+export type InsertConsentEvent = typeof consentEvents.$inferInsert;
+
+// Outbound dispatch queue - every automated SMS/email is enqueued here and sent
+// by the dispatcher, which applies quiet hours, rate limits and retries
+export const outboundMessages = pgTable("outbound_messages", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default('root'),
+  channel: varchar("channel", { length: 10 }).notNull(), // sms, email
+  purpose: varchar("purpose", { length: 50 }).notNull(), // Send purpose (sms_campaign, appointment_reminder, ...)
+  toAddress: text("to_address").notNull(), // E.164 phone or email address
+  subject: text("subject"), // Email only
+  body: text("body").notNull(),
+  html: text("html"), // Email only
+  customerId: integer("customer_id").references(() => customers.id),
+  phoneLineId: integer("phone_line_id"), // SMS: send from a specific line
+  recipientTimezone: varchar("recipient_timezone", { length: 50 }).notNull(),
+  respectQuietHours: boolean("respect_quiet_hours").notNull().default(true),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, sending, sent, failed, skipped, cancelled
+  scheduledFor: timestamp("scheduled_for").notNull().defaultNow(),
+  attemptCount: integer("attempt_count").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  providerMessageId: text("provider_message_id"), // Twilio SID
+  sourceType: varchar("source_type", { length: 40 }), // What produced this (sms_campaign_recipient, reminder_job, journey_enrollment, ...)
+  sourceId: integer("source_id"),
+  dedupeKey: text("dedupe_key"), // Optional idempotency key per tenant
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  dueIdx: index("outbound_messages_due_idx").on(table.status, table.scheduledFor),
+  tenantIdx: index("outbound_messages_tenant_idx").on(table.tenantId, table.createdAt),
+  sourceIdx: index("outbound_messages_source_idx").on(table.sourceType, table.sourceId),
+  dedupeIdx: uniqueIndex("outbound_messages_dedupe_idx").on(table.tenantId, table.dedupeKey),
+}));
+
+export type OutboundMessage = typeof outboundMessages.$inferSelect;
+export type InsertOutboundMessage = typeof outboundMessages.$inferInsert;
+
 // Create schemas for data insertion
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -2869,6 +3283,7 @@ export const insertEmailCampaignSchema = createInsertSchema(emailCampaigns).pick
   scheduledDate: true,
   status: true,
   targetAudience: true,
+  segmentId: true,
   recipientCount: true,
 });
 
@@ -3376,6 +3791,7 @@ export type Authorization = typeof authorizations.$inferSelect;
 export type InsertAuthorization = z.infer<typeof insertAuthorizationSchema>;
 export type PaymentLink = typeof paymentLinks.$inferSelect;
 export type InsertPaymentLink = z.infer<typeof insertPaymentLinkSchema>;
+export type DepositRefund = typeof depositRefunds.$inferSelect;
 export type GiftCard = typeof giftCards.$inferSelect;
 export type InsertGiftCard = z.infer<typeof insertGiftCardSchema>;
 export type CreditLedger = typeof creditLedger.$inferSelect;
@@ -4123,6 +4539,7 @@ export const ivrMenus = pgTable("ivr_menus", {
   invalidInputMessage: text("invalid_input_message").notNull(), // Message on invalid digit
   maxAttempts: integer("max_attempts").default(3).notNull(),
   voiceName: varchar("voice_name", { length: 50 }).default("alice"), // TTS voice
+  hoursRouting: jsonb("hours_routing").$type<IvrHoursRouting>(), // Branch to closed/holiday menus using phone_schedules
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -4163,6 +4580,7 @@ export const ivrMenuItems = pgTable("ivr_menu_items", {
     sipUri?: string;            // FORWARD_SIP
     phoneNumber?: string;       // FORWARD_PHONE
     submenuId?: number;         // SUBMENU
+    voicemailBoxId?: number;    // VOICEMAIL (department box; default voicemail when unset)
     hangupAfter?: boolean;      // Whether to hangup after action
     returnToMenu?: boolean;     // Whether to return to menu after action
   }>(),
@@ -4175,6 +4593,26 @@ export const ivrMenuItems = pgTable("ivr_menu_items", {
   menuDigitIdx: uniqueIndex("ivr_menu_items_menu_digit_unique_idx").on(table.menuId, table.digit),
 }));
 
+/**
+ * IVR Voicemail Boxes Table - Per-department voicemail
+ * 
+ * A VOICEMAIL menu item can point at a box; the box's greeting is played and
+ * the transcription is routed to the box's staff instead of everyone
+ */
+export const ivrVoicemailBoxes = pgTable("ivr_voicemail_boxes", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 100 }).notNull(), // "Sales", "Fleet accounts"
+  greetingText: text("greeting_text"), // TTS greeting; default voicemail greeting when null
+  notifyUserIds: jsonb("notify_user_ids").$type<number[]>().default([]).notNull(), // Staff who get the voicemail
+  transcribe: boolean("transcribe").default(true).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantIdIdx: index("ivr_voicemail_boxes_tenant_id_idx").on(table.tenantId),
+}));
+
 /**
  * IVR Prompts Table - Reusable voice prompts (for future audio file support)
  * 
@@ -4198,6 +4636,7 @@ export const ivrPrompts = pgTable("ivr_prompts", {
 export const insertIvrMenuSchema = createInsertSchema(ivrMenus).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertIvrMenuItemSchema = createInsertSchema(ivrMenuItems).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertIvrPromptSchema = createInsertSchema(ivrPrompts).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertIvrVoicemailBoxSchema = createInsertSchema(ivrVoicemailBoxes).omit({ id: true, tenantId: true, createdAt: true, updatedAt: true });
 
 // IVR Types
 export type IvrMenu = typeof ivrMenus.$inferSelect;
@@ -4206,6 +4645,8 @@ export type IvrMenuItem = typeof ivrMenuItems.$inferSelect;
 export type InsertIvrMenuItem = z.infer<typeof insertIvrMenuItemSchema>;
 export type IvrPrompt = typeof ivrPrompts.$inferSelect;
 export type InsertIvrPrompt = z.infer<typeof insertIvrPromptSchema>;
+export type IvrVoicemailBox = typeof ivrVoicemailBoxes.$inferSelect;
+export type InsertIvrVoicemailBox = z.infer<typeof insertIvrVoicemailBoxSchema>;
 
 // IVR Action Type as TypeScript type
 export type IvrActionType = "PLAY_MESSAGE" | "SMS_INFO" | "FORWARD_SIP" | "FORWARD_PHONE" | "VOICEMAIL" | "SUBMENU" | "REPLAY_MENU" | "EASTER_EGG";
@@ -4369,6 +4810,9 @@ export const portRecoveryCampaigns = pgTable("port_recovery_campaigns", {
   emailHtmlTemplate: text("email_html_template"),
   ctaUrl: text("cta_url"),
   
+  // Saved segment the target list was built from (null = every customer and conversation)
+  segmentId: integer("segment_id").references(() => customerSegments.id, { onDelete: "set null" }),
+  
   // Timestamps
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
@@ -5197,6 +5641,7 @@ export const bookingInitiationEvents = pgTable("booking_initiation_events", {
   tenantId: varchar("tenant_id", { length: 100 }).notNull(),
   source: varchar("source", { length: 20 }).notNull(), // 'chat' | 'site' | 'other'
   context: jsonb("context").notNull().default({}),
+  attributionSource: jsonb("attribution_source").$type<AttributionSource>(), // Where the visitor came from (see shared/attribution.ts)
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   tenantIdx: index("booking_initiation_events_tenant_idx").on(table.tenantId),
@@ -5204,6 +5649,24 @@ export const bookingInitiationEvents = pgTable("booking_initiation_events", {
   createdAtIdx: index("booking_initiation_events_created_at_idx").on(table.createdAt),
 }));
 
+// Every known marketing touch per customer (tracked link clicks and attributed bookings),
+// used to find the first touch behind a booking
+export const attributionTouches = pgTable("attribution_touches", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  channel: varchar("channel", { length: 30 }).notNull(), // AttributionChannel
+  campaignId: integer("campaign_id"), // Campaign or journey id for campaign channels
+  referrer: varchar("referrer", { length: 120 }), // Referral code or referring host
+  detail: varchar("detail", { length: 120 }),
+  appointmentId: integer("appointment_id").references(() => appointments.id, { onDelete: "set null" }), // Set when the touch is the booking itself
+  touchedAt: timestamp("touched_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("attribution_touches_customer_idx").on(table.tenantId, table.customerId, table.touchedAt),
+}));
+
+export type AttributionTouch = typeof attributionTouches.$inferSelect;
+
 export const insertBookingInitiationEventSchema = createInsertSchema(bookingInitiationEvents).omit({
   id: true,
   createdAt: true,
@@ -5490,4 +5953,158 @@ export const insertPortalInstallPromptLogSchema = createInsertSchema(portalInsta
 });
 
 export type PortalInstallPromptLog = typeof portalInstallPromptLog.$inferSelect;
-export type InsertPortalInstallPromptLog = z.infer<typeof insertPortalInstallPromptLogSchema>;
\ No newline at end of file
+export type InsertPortalInstallPromptLog = z.infer<typeof insertPortalInstallPromptLogSchema>;
+// ============================================================
+// TRAVEL TIME CACHE: Persistent drive-time lookups (global)
+// ============================================================
+
+// Keyed on rounded coordinates + time-of-day bucket so nearby addresses share entries.
+// Global table - travel times do not depend on the tenant.
+export const travelTimeCache = pgTable("travel_time_cache", {
+  id: serial("id").primaryKey(),
+  originKey: varchar("origin_key", { length: 32 }).notNull(), // "36.154,-95.993"
+  destinationKey: varchar("destination_key", { length: 32 }).notNull(),
+  timeBucket: varchar("time_bucket", { length: 20 }).notNull(), // am_peak, midday, pm_peak, off_peak
+  durationMinutes: integer("duration_minutes").notNull(),
+  provider: varchar("provider", { length: 30 }).notNull(), // google, offline
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => ({
+  lookupIdx: uniqueIndex("travel_time_cache_lookup_idx").on(table.originKey, table.destinationKey, table.timeBucket),
+  expiresIdx: index("travel_time_cache_expires_idx").on(table.expiresAt),
+}));
+
+export type TravelTimeCacheEntry = typeof travelTimeCache.$inferSelect;
+
+// ============================================================
+// ACCOUNTING SYNC: Exports to QuickBooks/Xero-style packages
+// ============================================================
+
+// One row per exported record and provider. The fingerprint is what was last
+// sent (see shared/accountingExport.ts) so re-exports skip unchanged records;
+// externalId is filled in when the accounting package's ids are imported back.
+export const accountingSyncRecords = pgTable("accounting_sync_records", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  provider: varchar("provider", { length: 30 }).notNull(), // file
+  recordType: varchar("record_type", { length: 20 }).notNull(), // item, customer, sales_receipt, refund_receipt
+  localId: integer("local_id").notNull(),
+  fingerprint: varchar("fingerprint", { length: 16 }).notNull(),
+  externalId: varchar("external_id", { length: 100 }),
+  status: varchar("status", { length: 20 }).notNull().default("exported"), // exported, acknowledged
+  lastExportId: integer("last_export_id"),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  recordIdx: uniqueIndex("accounting_sync_records_record_idx").on(table.tenantId, table.provider, table.recordType, table.localId),
+}));
+
+export type AccountingSyncRecord = typeof accountingSyncRecords.$inferSelect;
+
+// Every generated export file, kept so it can be downloaded again
+export const accountingExports = pgTable("accounting_exports", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  provider: varchar("provider", { length: 30 }).notNull(),
+  format: varchar("format", { length: 10 }).notNull(), // iif, csv
+  periodStart: timestamp("period_start"),
+  periodEnd: timestamp("period_end"),
+  recordCounts: jsonb("record_counts").$type<Record<string, number>>().notNull().default({}),
+  fileName: varchar("file_name", { length: 200 }).notNull(),
+  content: text("content").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantCreatedIdx: index("accounting_exports_tenant_created_idx").on(table.tenantId, table.createdAt),
+}));
+
+export type AccountingExport = typeof accountingExports.$inferSelect;
+
+// ============================================================
+// CUSTOMER JOURNEYS: Multi-step drip sequences (see shared/journeys.ts)
+// ============================================================
+
+export const journeys = pgTable("journeys", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  name: text("name").notNull(),
+  description: text("description"),
+  status: varchar("status", { length: 20 }).notNull().default("draft"), // draft, active, paused, archived
+  trigger: varchar("trigger", { length: 30 }).notNull(), // job_completed, quote_sent, inactive, manual
+  triggerConfig: jsonb("trigger_config").$type<JourneyTriggerConfig>().notNull().default({ inactiveDays: 90 }),
+  definition: jsonb("definition").$type<JourneyDefinition>().notNull(),
+  allowReentry: boolean("allow_reentry").notNull().default(false), // Same customer may enroll again after finishing
+  activatedAt: timestamp("activated_at"), // Trigger events before this are ignored
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantStatusIdx: index("journeys_tenant_status_idx").on(table.tenantId, table.status),
+}));
+
+export type Journey = typeof journeys.$inferSelect;
+
+// One customer's walk through a journey. triggerKey ("appointment:42",
+// "quote:7", "inactive:2026-03-01") makes enrollment idempotent per trigger event.
+export const journeyEnrollments = pgTable("journey_enrollments", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  journeyId: integer("journey_id").notNull().references(() => journeys.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  triggerKey: varchar("trigger_key", { length: 80 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("active"), // active, completed, exited, failed
+  currentStepId: varchar("current_step_id", { length: 40 }),
+  stepStartedAt: timestamp("step_started_at").defaultNow().notNull(),
+  nextRunAt: timestamp("next_run_at").defaultNow(), // Null once finished
+  exitReason: varchar("exit_reason", { length: 40 }), // booked, replied, clicked, opted_out, journey_archived, error
+  context: jsonb("context").$type<{ appointmentId?: number; quoteId?: number }>().notNull().default({}),
+  clickToken: varchar("click_token", { length: 32 }).notNull(),
+  lastClickedAt: timestamp("last_clicked_at"),
+  enrolledAt: timestamp("enrolled_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  triggerIdx: uniqueIndex("journey_enrollments_trigger_idx").on(table.journeyId, table.triggerKey),
+  dueIdx: index("journey_enrollments_due_idx").on(table.status, table.nextRunAt),
+  customerIdx: index("journey_enrollments_customer_idx").on(table.journeyId, table.customerId),
+  clickTokenIdx: uniqueIndex("journey_enrollments_click_token_idx").on(table.clickToken),
+}));
+
+export type JourneyEnrollment = typeof journeyEnrollments.$inferSelect;
+
+// Append-only log of what each enrollment did, for analytics and support
+export const journeyEvents = pgTable("journey_events", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  journeyId: integer("journey_id").notNull().references(() => journeys.id, { onDelete: "cascade" }),
+  enrollmentId: integer("enrollment_id").notNull().references(() => journeyEnrollments.id, { onDelete: "cascade" }),
+  stepId: varchar("step_id", { length: 40 }),
+  eventType: varchar("event_type", { length: 20 }).notNull(), // entered, sent, skipped, branched, points, task, clicked, exited, completed, failed, undelivered
+  detail: jsonb("detail").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  journeyStepIdx: index("journey_events_journey_step_idx").on(table.journeyId, table.stepId, table.eventType),
+  enrollmentIdx: index("journey_events_enrollment_idx").on(table.enrollmentId),
+}));
+
+export type JourneyEvent = typeof journeyEvents.$inferSelect;
+
+// Follow-ups for staff created by a journey's "create task" step
+export const journeyTasks = pgTable("journey_tasks", {
+  id: serial("id").primaryKey(),
+  tenantId: varchar("tenant_id", { length: 50 }).notNull().default("root"),
+  journeyId: integer("journey_id").notNull().references(() => journeys.id, { onDelete: "cascade" }),
+  enrollmentId: integer("enrollment_id").references(() => journeyEnrollments.id, { onDelete: "set null" }),
+  customerId: integer("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, done
+  dueAt: timestamp("due_at"),
+  completedAt: timestamp("completed_at"),
+  completedBy: integer("completed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  tenantStatusIdx: index("journey_tasks_tenant_status_idx").on(table.tenantId, table.status),
+}));
+
+export type JourneyTask = typeof journeyTasks.$inferSelect;
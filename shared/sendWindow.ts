@@ -0,0 +1,158 @@
+/**
+ * Outbound send-window policy
+ *
+ * Pure helpers shared by every automated SMS/email producer: quiet hours in
+ * the recipient's local time, recipient timezone inference (address state,
+ * then phone area code) and retry backoff. Kept free of database access so
+ * the same rules run in the dispatcher, the campaign planner and tests.
+ */
+
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+export interface QuietHours {
+  startHour: number; // Local hour quiet hours begin (e.g. 21 = 9 PM)
+  endHour: number;   // Local hour sending resumes (e.g. 8 = 8 AM)
+}
+
+// TCPA-safe default: no automated messages 9 PM - 8 AM recipient time
+export const DEFAULT_QUIET_HOURS: QuietHours = { startHour: 21, endHour: 8 };
+
+function localHour(at: Date, timezone: string): number {
+  return parseInt(formatInTimeZone(at, timezone, 'H'), 10);
+}
+
+/**
+ * True if `at` falls inside quiet hours for the recipient's timezone.
+ * Handles windows that wrap midnight (21 -> 8) and ones that don't (1 -> 6).
+ */
+export function isWithinQuietHours(
+  at: Date,
+  timezone: string,
+  quiet: QuietHours = DEFAULT_QUIET_HOURS
+): boolean {
+  if (quiet.startHour === quiet.endHour) return false;
+  const hour = localHour(at, timezone);
+  return quiet.startHour > quiet.endHour
+    ? hour >= quiet.startHour || hour < quiet.endHour
+    : hour >= quiet.startHour && hour < quiet.endHour;
+}
+
+/**
+ * Earliest moment at or after `at` when sending is allowed: `at` itself
+ * outside quiet hours, otherwise the next local `endHour`.
+ */
+export function nextAllowedSendTime(
+  at: Date,
+  timezone: string,
+  quiet: QuietHours = DEFAULT_QUIET_HOURS
+): Date {
+  if (!isWithinQuietHours(at, timezone, quiet)) return at;
+
+  const endClock = `${String(quiet.endHour).padStart(2, '0')}:00:00`;
+  const today = formatInTimeZone(at, timezone, 'yyyy-MM-dd');
+  const resumeToday = fromZonedTime(`${today}T${endClock}`, timezone);
+  if (resumeToday > at) return resumeToday;
+
+  // Past the end hour locally (evening side of a wrapping window) - resume tomorrow
+  const tomorrow = formatInTimeZone(new Date(at.getTime() + 24 * 60 * 60 * 1000), timezone, 'yyyy-MM-dd');
+  return fromZonedTime(`${tomorrow}T${endClock}`, timezone);
+}
+
+const EASTERN = 'America/New_York';
+const CENTRAL = 'America/Chicago';
+const MOUNTAIN = 'America/Denver';
+const ARIZONA = 'America/Phoenix';
+const PACIFIC = 'America/Los_Angeles';
+const ALASKA = 'America/Anchorage';
+const HAWAII = 'Pacific/Honolulu';
+
+// Dominant timezone per state; split states use the zone most numbers fall in
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: CENTRAL, AK: ALASKA, AZ: ARIZONA, AR: CENTRAL, CA: PACIFIC, CO: MOUNTAIN,
+  CT: EASTERN, DE: EASTERN, DC: EASTERN, FL: EASTERN, GA: EASTERN, HI: HAWAII,
+  ID: MOUNTAIN, IL: CENTRAL, IN: EASTERN, IA: CENTRAL, KS: CENTRAL, KY: EASTERN,
+  LA: CENTRAL, ME: EASTERN, MD: EASTERN, MA: EASTERN, MI: EASTERN, MN: CENTRAL,
+  MS: CENTRAL, MO: CENTRAL, MT: MOUNTAIN, NE: CENTRAL, NV: PACIFIC, NH: EASTERN,
+  NJ: EASTERN, NM: MOUNTAIN, NY: EASTERN, NC: EASTERN, ND: CENTRAL, OH: EASTERN,
+  OK: CENTRAL, OR: PACIFIC, PA: EASTERN, RI: EASTERN, SC: EASTERN, SD: CENTRAL,
+  TN: CENTRAL, TX: CENTRAL, UT: MOUNTAIN, VT: EASTERN, VA: EASTERN, WA: PACIFIC,
+  WV: EASTERN, WI: CENTRAL, WY: MOUNTAIN,
+};
+
+const AREA_CODES_BY_TIMEZONE: Record<string, string> = {
+  [EASTERN]:
+    '201 202 203 207 212 215 216 223 229 231 234 239 240 248 252 260 267 269 272 276 301 302 304 305 ' +
+    '313 315 317 321 330 332 336 339 347 351 352 380 386 401 404 407 410 412 413 419 423 434 440 443 ' +
+    '445 463 470 475 478 484 508 513 516 517 518 540 551 561 567 570 571 574 585 586 603 607 609 610 ' +
+    '614 616 617 631 646 656 667 678 680 681 689 703 704 706 716 717 718 724 727 732 734 740 743 754 ' +
+    '757 762 765 770 772 774 781 786 802 803 804 810 813 814 828 835 839 843 845 848 854 856 857 859 ' +
+    '860 862 863 864 865 878 904 908 910 912 914 917 919 929 934 937 941 947 954 959 973 978 980 984 989',
+  [CENTRAL]:
+    '205 210 214 217 218 219 224 225 228 251 254 256 262 270 281 308 309 312 314 316 318 319 320 325 ' +
+    '331 334 337 346 361 364 402 405 409 414 417 430 432 469 479 501 504 507 512 515 531 534 539 563 ' +
+    '573 580 601 605 608 612 615 618 620 629 630 636 641 651 660 662 682 701 708 712 713 715 726 731 ' +
+    '737 763 769 773 779 785 806 815 816 817 847 870 872 901 903 913 918 920 931 936 940 945 952 956 972 979',
+  [MOUNTAIN]: '208 303 307 385 406 435 505 575 719 720 801 915 970',
+  [ARIZONA]: '480 520 602 623 928',
+  [PACIFIC]:
+    '206 209 213 253 279 310 323 341 350 360 408 415 424 425 442 458 503 509 510 530 541 559 562 564 ' +
+    '619 626 628 650 657 661 669 702 707 714 725 747 760 775 805 818 820 831 858 909 916 925 949 951 971',
+  [ALASKA]: '907',
+  [HAWAII]: '808',
+};
+
+const AREA_CODE_TIMEZONES: Record<string, string> = {};
+for (const timezone of Object.keys(AREA_CODES_BY_TIMEZONE)) {
+  for (const code of AREA_CODES_BY_TIMEZONE[timezone].split(' ')) {
+    AREA_CODE_TIMEZONES[code] = timezone;
+  }
+}
+
+/**
+ * Timezone for a NANP phone number's area code, or null if unknown.
+ */
+export function timezoneForPhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+  if (digits.length !== 10) return null;
+  return AREA_CODE_TIMEZONES[digits.slice(0, 3)] ?? null;
+}
+
+/**
+ * Timezone for a US street address ("..., Tulsa, OK 74103"), or null if the
+ * state can't be read.
+ */
+export function timezoneForAddress(address: string | null | undefined): string | null {
+  if (!address) return null;
+  const match = address.match(/,\s*([A-Za-z]{2})\.?(?:\s+\d{5}(?:-\d{4})?)?\s*(?:,\s*(?:USA?|United States))?\s*$/);
+  if (!match) return null;
+  return STATE_TIMEZONES[match[1].toUpperCase()] ?? null;
+}
+
+/**
+ * Best guess at where the recipient is: a service address is more reliable
+ * than an area code (people keep their numbers when they move), and the
+ * tenant's own timezone is the last resort.
+ */
+export function inferRecipientTimezone(
+  recipient: { address?: string | null; phone?: string | null },
+  fallbackTimezone: string
+): string {
+  return timezoneForAddress(recipient.address) ?? timezoneForPhone(recipient.phone) ?? fallbackTimezone;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential from one minute,
+ * capped at six hours, with up to 10% jitter so a failed batch doesn't
+ * retry in lockstep.
+ */
+export function retryBackoffMs(
+  attempt: number,
+  baseMs: number = 60 * 1000,
+  maxMs: number = 6 * 60 * 60 * 1000,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential * (1 + random() * 0.1));
+}